@@ -17,6 +17,7 @@ import Login from '@/pages/Login';
 import Register from '@/pages/Register';
 import Profile from '@/pages/Profile';
 import Settings from '@/pages/Settings';
+import CsatSurveyPage from '@/pages/CsatSurveyPage';
 
 // Main app pages
 import DashboardPage from '@/pages/DashboardPage';
@@ -37,6 +38,9 @@ import { SLANotificationSettings } from '@/components/admin/SLANotificationSetti
 import WorkloadDashboardPage from '@/pages/WorkloadDashboardPage';
 import AssignmentRulesPage from '@/pages/AssignmentRulesPage';
 import CategoryExpertisePage from '@/pages/CategoryExpertisePage';
+import TeamManagementPage from '@/pages/TeamManagementPage';
+import EmailTemplatesPage from '@/pages/EmailTemplatesPage';
+import CannedResponsesPage from '@/pages/CannedResponsesPage';
 
 // Legacy pages
 import { Notifications } from '@/pages/Notifications';
@@ -101,6 +105,9 @@ function App() {
               {/* Auth routes */}
               <Route path="/login" element={<Login />} />
               <Route path="/register" element={<Register />} />
+
+              {/* Public survey links emailed on resolution */}
+              <Route path="/survey/:token" element={<CsatSurveyPage />} />
               
               {/* Profile and settings routes */}
               <Route
@@ -399,6 +406,36 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/admin/teams"
+                element={
+                  <ProtectedRoute>
+                    <AppLayout>
+                      <TeamManagementPage />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/email-templates"
+                element={
+                  <ProtectedRoute>
+                    <AppLayout>
+                      <EmailTemplatesPage />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/canned-responses"
+                element={
+                  <ProtectedRoute>
+                    <AppLayout>
+                      <CannedResponsesPage />
+                    </AppLayout>
+                  </ProtectedRoute>
+                }
+              />
             </Routes>
             <Toaster />
           </Router>
@@ -0,0 +1,307 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import {
+  agentPresenceService,
+  type AgentShift,
+  type OutOfOfficePeriod,
+} from "@/lib/agentPresenceService";
+import { isValidTimezone } from "@/lib/timezoneUtils";
+
+interface AgentScheduleDialogProps {
+  agent: { id: string; full_name: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+interface DayDraft {
+  enabled: boolean;
+  start_time: string;
+  end_time: string;
+}
+
+const defaultDays = (): DayDraft[] =>
+  Array.from({ length: 7 }, (_, day) => ({
+    enabled: day >= 1 && day <= 5,
+    start_time: "09:00",
+    end_time: "17:00",
+  }));
+
+export const AgentScheduleDialog = ({ agent, open, onOpenChange, onSaved }: AgentScheduleDialogProps) => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [days, setDays] = useState<DayDraft[]>(defaultDays());
+  const [timezone, setTimezone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC");
+  const [outOfOffice, setOutOfOffice] = useState<OutOfOfficePeriod[]>([]);
+  const [newPeriod, setNewPeriod] = useState({ starts_at: "", ends_at: "", reason: "" });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const dayNames = [
+    t('admin.businessCalendars.days.sunday', 'Sunday'),
+    t('admin.businessCalendars.days.monday', 'Monday'),
+    t('admin.businessCalendars.days.tuesday', 'Tuesday'),
+    t('admin.businessCalendars.days.wednesday', 'Wednesday'),
+    t('admin.businessCalendars.days.thursday', 'Thursday'),
+    t('admin.businessCalendars.days.friday', 'Friday'),
+    t('admin.businessCalendars.days.saturday', 'Saturday'),
+  ];
+
+  useEffect(() => {
+    if (open && agent) {
+      loadSchedule(agent.id);
+    }
+  }, [open, agent?.id]);
+
+  const loadSchedule = async (agentId: string) => {
+    setIsLoading(true);
+    try {
+      const [shifts, periods] = await Promise.all([
+        agentPresenceService.getShifts(agentId),
+        agentPresenceService.getOutOfOffice(agentId),
+      ]);
+
+      if (shifts.length > 0) {
+        setDays(Array.from({ length: 7 }, (_, day) => {
+          const shift = shifts.find(s => s.weekday === day);
+          return shift
+            ? { enabled: true, start_time: shift.start_time, end_time: shift.end_time }
+            : { enabled: false, start_time: "09:00", end_time: "17:00" };
+        }));
+        setTimezone(shifts[0].timezone);
+      } else {
+        setDays(defaultDays());
+      }
+      setOutOfOffice(periods);
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: t('admin.workloadDashboard.schedule.loadFailed', 'Failed to load the schedule'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateDay = (day: number, updates: Partial<DayDraft>) => {
+    setDays(days.map((draft, index) => index === day ? { ...draft, ...updates } : draft));
+  };
+
+  const handleSaveShifts = async () => {
+    if (!agent) return;
+
+    if (!isValidTimezone(timezone)) {
+      toast({
+        title: t('common.error'),
+        description: t('admin.businessCalendars.invalidTimezone', 'Unknown timezone: {{timezone}}', { timezone }),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidDay = days.findIndex(day => day.enabled && day.start_time === day.end_time);
+    if (invalidDay >= 0) {
+      toast({
+        title: t('common.error'),
+        description: t('admin.workloadDashboard.schedule.invalidShift', 'The shift on {{day}} must not start and end at the same time.', { day: dayNames[invalidDay] }),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const shifts: Omit<AgentShift, 'id' | 'agent_id'>[] = days
+        .map((day, weekday) => ({ ...day, weekday }))
+        .filter(day => day.enabled)
+        .map(day => ({ weekday: day.weekday, start_time: day.start_time, end_time: day.end_time, timezone }));
+
+      await agentPresenceService.saveShifts(agent.id, shifts);
+      toast({
+        title: t('admin.workloadDashboard.schedule.saved', 'Schedule saved'),
+      });
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: t('admin.workloadDashboard.schedule.saveFailed', 'Failed to save the schedule'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddOutOfOffice = async () => {
+    if (!agent || !newPeriod.starts_at || !newPeriod.ends_at) return;
+
+    try {
+      const period = await agentPresenceService.addOutOfOffice({
+        agent_id: agent.id,
+        starts_at: new Date(newPeriod.starts_at).toISOString(),
+        ends_at: new Date(newPeriod.ends_at).toISOString(),
+        reason: newPeriod.reason.trim() || null,
+      });
+      setOutOfOffice([...outOfOffice, period].sort((a, b) => a.starts_at.localeCompare(b.starts_at)));
+      setNewPeriod({ starts_at: "", ends_at: "", reason: "" });
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('admin.workloadDashboard.schedule.saveFailed', 'Failed to save the schedule'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteOutOfOffice = async (id: string) => {
+    try {
+      await agentPresenceService.deleteOutOfOffice(id);
+      setOutOfOffice(outOfOffice.filter(period => period.id !== id));
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: t('admin.workloadDashboard.schedule.saveFailed', 'Failed to save the schedule'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {t('admin.workloadDashboard.schedule.title', 'Schedule for {{name}}', { name: agent?.full_name })}
+          </DialogTitle>
+          <DialogDescription>
+            {t('admin.workloadDashboard.schedule.description', 'Agents only receive new tickets automatically during their shifts and never while out of office.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-timezone">{t('admin.businessCalendars.timezone', 'Timezone')}</Label>
+              <Input
+                id="schedule-timezone"
+                value={timezone}
+                placeholder="Europe/Berlin"
+                onChange={e => setTimezone(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('admin.workloadDashboard.schedule.shifts', 'Shifts')}</Label>
+              <p className="text-xs text-muted-foreground">
+                {t('admin.workloadDashboard.schedule.overnightHint', 'A shift that ends before it starts runs overnight into the next day.')}
+              </p>
+              {days.map((day, weekday) => (
+                <div key={weekday} className="grid grid-cols-[auto_1fr_1fr_1fr] items-center gap-3">
+                  <Checkbox
+                    checked={day.enabled}
+                    onCheckedChange={checked => updateDay(weekday, { enabled: checked === true })}
+                    aria-label={dayNames[weekday]}
+                  />
+                  <span className="text-sm dark:text-gray-200">{dayNames[weekday]}</span>
+                  <Input
+                    type="time"
+                    value={day.start_time}
+                    disabled={!day.enabled}
+                    onChange={e => updateDay(weekday, { start_time: e.target.value })}
+                  />
+                  <Input
+                    type="time"
+                    value={day.end_time}
+                    disabled={!day.enabled}
+                    onChange={e => updateDay(weekday, { end_time: e.target.value })}
+                  />
+                </div>
+              ))}
+              <div className="flex justify-end">
+                <Button onClick={handleSaveShifts} disabled={isSaving}>
+                  {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  {t('admin.workloadDashboard.schedule.saveShifts', 'Save shifts')}
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('admin.workloadDashboard.schedule.outOfOffice', 'Out of office')}</Label>
+              {outOfOffice.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {t('admin.workloadDashboard.schedule.noOutOfOffice', 'No upcoming absences.')}
+                </p>
+              ) : (
+                outOfOffice.map(period => (
+                  <div key={period.id} className="flex items-center justify-between text-sm border rounded px-3 py-2 dark:border-gray-700">
+                    <span className="dark:text-gray-200">
+                      {format(new Date(period.starts_at), 'PPp')} – {format(new Date(period.ends_at), 'PPp')}
+                      {period.reason && <span className="text-muted-foreground"> — {period.reason}</span>}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteOutOfOffice(period.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                <Input
+                  type="datetime-local"
+                  value={newPeriod.starts_at}
+                  aria-label={t('admin.workloadDashboard.schedule.from', 'From')}
+                  onChange={e => setNewPeriod({ ...newPeriod, starts_at: e.target.value })}
+                />
+                <Input
+                  type="datetime-local"
+                  value={newPeriod.ends_at}
+                  aria-label={t('admin.workloadDashboard.schedule.until', 'Until')}
+                  onChange={e => setNewPeriod({ ...newPeriod, ends_at: e.target.value })}
+                />
+                <Input
+                  value={newPeriod.reason}
+                  placeholder={t('admin.workloadDashboard.schedule.reason', 'Reason (optional)')}
+                  onChange={e => setNewPeriod({ ...newPeriod, reason: e.target.value })}
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleAddOutOfOffice}
+                  disabled={!newPeriod.starts_at || !newPeriod.ends_at}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.close', 'Close')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
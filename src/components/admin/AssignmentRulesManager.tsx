@@ -29,13 +29,22 @@ import {
   BarChart3,
   Filter,
   ArrowUp,
-  ArrowDown
+  ArrowDown,
+  History,
+  RotateCcw
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import type { Database } from '@/integrations/supabase/types';
 import { SafeTranslation } from '@/components/ui/SafeTranslation';
 import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import {
+  assignmentRulesService,
+  type AssignmentAuditEntry,
+  type AssignmentRuleVersion
+} from '@/lib/assignmentRulesService';
+import { teamService, type Team } from '@/lib/teamService';
 
 type TicketPriority = Database['public']['Enums']['ticket_priority'];
 type UserRole = Database['public']['Enums']['user_role'];
@@ -45,6 +54,7 @@ export interface AssignmentRule {
   name: string;
   description?: string;
   priority: number;
+  version?: number;
   enabled: boolean;
   conditions: {
     categories?: string[];
@@ -55,10 +65,14 @@ export interface AssignmentRule {
       end: string;
     };
     keywords?: string[];
+    urgencyLevel?: number; // 1 = low ... 4 = urgent
+    customerLanguage?: string[];
+    geographicRegion?: string[]; // timezone region ("Europe") or full timezone
   };
   actions: {
     assignToAgent?: string;
-    assignToTeam?: string;
+    assignToTeam?: string; // team slug
+    assignToQueue?: string; // queue id; the ticket waits there unassigned
     requireSkills?: string[];
     maxResponseTime?: number;
     escalateAfter?: number;
@@ -66,6 +80,7 @@ export interface AssignmentRule {
   };
   created_at: string;
   updated_at: string;
+  created_by?: string | null;
 }
 
 export interface AssignmentConfig {
@@ -82,6 +97,11 @@ export interface AssignmentConfig {
   rebalanceThreshold: number;
 }
 
+const URGENCY_LEVELS: TicketPriority[] = ['low', 'medium', 'high', 'urgent'];
+const CUSTOMER_TIERS = ['basic', 'premium', 'enterprise'];
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(item => item);
+
 export const AssignmentRulesManager = () => {
   const { t } = useTranslation();
   const [rules, setRules] = useState<AssignmentRule[]>([]);
@@ -104,6 +124,10 @@ export const AssignmentRulesManager = () => {
   const [isConfigDialogOpen, setIsConfigDialogOpen] = useState(false);
   const [agents, setAgents] = useState<Array<{ id: string; name: string; role: UserRole }>>([]);
   const [categories, setCategories] = useState<Array<{ id: string; name: string }>>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [auditEntries, setAuditEntries] = useState<AssignmentAuditEntry[]>([]);
+  const [ruleStats, setRuleStats] = useState<{ rulesExecutedToday: number; successRate: number } | null>(null);
+  const [historyRule, setHistoryRule] = useState<{ id: string; name: string } | null>(null);
 
   const { toast } = useToast();
   const { userProfile } = useAuth();
@@ -114,6 +138,8 @@ export const AssignmentRulesManager = () => {
       loadConfig();
       loadAgents();
       loadCategories();
+      loadTeams();
+      loadAudit();
       
       // Set up real-time subscription to rule changes
       const rulesSubscription = supabase
@@ -146,6 +172,8 @@ export const AssignmentRulesManager = () => {
 
   const loadRules = async () => {
     setIsLoading(true);
+    // Routing in this tab should pick up the change right away
+    assignmentRulesService.invalidateCache();
     try {
       const { data, error } = await supabase
         .from('assignment_rules')
@@ -157,6 +185,7 @@ export const AssignmentRulesManager = () => {
       if (data && data.length > 0) {
         // Transform database data to match our AssignmentRule interface
         const transformedRules: AssignmentRule[] = data.map(rule => ({
+          ...rule,
           id: rule.id,
           name: rule.name,
           description: rule.description,
@@ -241,6 +270,28 @@ export const AssignmentRulesManager = () => {
     }
   };
 
+  const loadAudit = async () => {
+    try {
+      const [entries, stats] = await Promise.all([
+        assignmentRulesService.getAssignmentAudit({ limit: 50 }),
+        assignmentRulesService.getRuleStatistics()
+      ]);
+      setAuditEntries(entries);
+      setRuleStats(stats);
+    } catch (error) {
+      console.error('Error loading assignment audit:', error);
+    }
+  };
+
+  const loadTeams = async () => {
+    try {
+      setTeams(await teamService.getTeams());
+    } catch (error) {
+      // Rules can still be edited without team and queue actions
+      setTeams([]);
+    }
+  };
+
   const loadCategories = async () => {
     try {
       const { data, error } = await supabase
@@ -520,6 +571,9 @@ export const AssignmentRulesManager = () => {
           <TabsTrigger value="analytics">
             <SafeTranslation i18nKey="admin.assignmentRules.analytics" fallback="Analytics" />
           </TabsTrigger>
+          <TabsTrigger value="audit">
+            <SafeTranslation i18nKey="admin.assignmentRules.assignmentLog" fallback="Assignment Log" />
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="rules" className="space-y-4">
@@ -573,6 +627,7 @@ export const AssignmentRulesManager = () => {
                             <div className="flex items-center gap-2">
                               <CardTitle className="text-lg">{rule.name}</CardTitle>
                               <Badge variant="outline">Priority {rule.priority}</Badge>
+                              {rule.version && <Badge variant="outline">v{rule.version}</Badge>}
                               {rule.enabled ? (
                                 <Badge variant="default" className="bg-green-100 text-green-800">
                                   <CheckCircle className="h-3 w-3 mr-1" />
@@ -607,6 +662,14 @@ export const AssignmentRulesManager = () => {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setHistoryRule({ id: rule.id, name: rule.name })}
+                            title={t('admin.assignmentRules.versionHistory', 'Version history')}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -625,8 +688,24 @@ export const AssignmentRulesManager = () => {
                             {rule.conditions.priorities && (
                               <div>Priority: {rule.conditions.priorities.join(', ')}</div>
                             )}
-                            {rule.conditions.categories && (
-                              <div>Categories: {rule.conditions.categories.join(', ')}</div>
+                            {rule.conditions.categories && rule.conditions.categories.length > 0 && (
+                              <div>
+                                Categories: {rule.conditions.categories
+                                  .map(category => categories.find(c => c.id === category)?.name || category)
+                                  .join(', ')}
+                              </div>
+                            )}
+                            {rule.conditions.customerTiers && rule.conditions.customerTiers.length > 0 && (
+                              <div>Customer tiers: {rule.conditions.customerTiers.join(', ')}</div>
+                            )}
+                            {rule.conditions.urgencyLevel && (
+                              <div>Urgency: {URGENCY_LEVELS[rule.conditions.urgencyLevel - 1]} or higher</div>
+                            )}
+                            {rule.conditions.customerLanguage && rule.conditions.customerLanguage.length > 0 && (
+                              <div>Languages: {rule.conditions.customerLanguage.join(', ')}</div>
+                            )}
+                            {rule.conditions.geographicRegion && rule.conditions.geographicRegion.length > 0 && (
+                              <div>Regions: {rule.conditions.geographicRegion.join(', ')}</div>
                             )}
                             {rule.conditions.keywords && (
                               <div>Keywords: {rule.conditions.keywords.join(', ')}</div>
@@ -645,7 +724,12 @@ export const AssignmentRulesManager = () => {
                               <div>Assign to: {rule.actions.assignToAgent}</div>
                             )}
                             {rule.actions.assignToTeam && (
-                              <div>Team: {rule.actions.assignToTeam}</div>
+                              <div>Team: {teams.find(team => team.slug === rule.actions.assignToTeam)?.name || rule.actions.assignToTeam}</div>
+                            )}
+                            {rule.actions.assignToQueue && (
+                              <div>
+                                Queue: {teams.flatMap(team => team.queues).find(queue => queue.id === rule.actions.assignToQueue)?.name || rule.actions.assignToQueue}
+                              </div>
                             )}
                             {rule.actions.requireSkills && (
                               <div>Skills: {rule.actions.requireSkills.join(', ')}</div>
@@ -653,6 +737,11 @@ export const AssignmentRulesManager = () => {
                             {rule.actions.maxResponseTime && (
                               <div>Max response: {rule.actions.maxResponseTime} min</div>
                             )}
+                            {rule.actions.escalateAfter && (
+                              <div>
+                                {t('admin.assignmentRules.escalateAfterSummary', 'Escalate after: {{minutes}} min without response', { minutes: rule.actions.escalateAfter })}
+                              </div>
+                            )}
                             {rule.actions.notifyManager && (
                               <div>Notify manager: Yes</div>
                             )}
@@ -762,31 +851,86 @@ export const AssignmentRulesManager = () => {
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Auto Assignments</CardTitle>
+                <CardTitle className="text-sm font-medium">Rule Assignments</CardTitle>
                 <Brain className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">85%</div>
+                <div className="text-2xl font-bold">{ruleStats ? `${ruleStats.successRate}%` : '—'}</div>
                 <p className="text-xs text-muted-foreground">
-                  Of tickets assigned automatically
+                  Of today's automatic assignments decided by a rule
                 </p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Avg Assignment Time</CardTitle>
+                <CardTitle className="text-sm font-medium">Rules Applied Today</CardTitle>
                 <Clock className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">2.3s</div>
+                <div className="text-2xl font-bold">{ruleStats?.rulesExecutedToday ?? '—'}</div>
                 <p className="text-xs text-muted-foreground">
-                  Average time to assign
+                  Tickets assigned by a rule since midnight
                 </p>
               </CardContent>
             </Card>
           </div>
         </TabsContent>
+
+        <TabsContent value="audit" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>{t('admin.assignmentRules.assignmentLog', 'Assignment Log')}</CardTitle>
+              <Button variant="outline" size="sm" onClick={loadAudit}>
+                {t('common.refresh')}
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {auditEntries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {t('admin.assignmentRules.noAssignments', 'No assignments recorded yet.')}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {auditEntries.map(entry => (
+                    <div key={entry.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg text-sm">
+                      <div className="space-y-1 min-w-0">
+                        <div className="font-medium truncate">
+                          {entry.ticket?.ticket_number || entry.ticket_id.slice(-8)} · {entry.ticket?.title}
+                        </div>
+                        <div className="text-muted-foreground">
+                          → {entry.assignee?.full_name || entry.assignee?.email || '—'}
+                          {' · '}
+                          {entry.method === 'rule' && entry.rule_id ? (
+                            <button
+                              type="button"
+                              className="underline"
+                              onClick={() => setHistoryRule({ id: entry.rule_id!, name: entry.rule_name || '' })}
+                            >
+                              {entry.rule_name} v{entry.rule_version}
+                            </button>
+                          ) : (
+                            t(`admin.assignmentRules.method.${entry.method}`, entry.method)
+                          )}
+                        </div>
+                        {entry.matched_conditions.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {entry.matched_conditions.map(condition => (
+                              <Badge key={condition} variant="secondary" className="font-normal">{condition}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* Rule Dialog */}
@@ -797,6 +941,14 @@ export const AssignmentRulesManager = () => {
         onSave={handleSaveRule}
         agents={agents}
         categories={categories}
+        teams={teams}
+      />
+
+      {/* Version History Dialog */}
+      <RuleHistoryDialog
+        rule={historyRule}
+        onOpenChange={(open) => !open && setHistoryRule(null)}
+        onRestored={loadRules}
       />
 
       {/* Configuration Dialog */}
@@ -818,9 +970,10 @@ interface RuleDialogProps {
   onSave: (rule: Partial<AssignmentRule>) => void;
   agents: Array<{ id: string; name: string; role: UserRole }>;
   categories: Array<{ id: string; name: string }>;
+  teams: Team[];
 }
 
-const RuleDialog = ({ open, onOpenChange, rule, onSave, agents, categories }: RuleDialogProps) => {
+const RuleDialog = ({ open, onOpenChange, rule, onSave, agents, categories, teams }: RuleDialogProps) => {
   const { t } = useTranslation();
   const [formData, setFormData] = useState<Partial<AssignmentRule>>({
     name: '',
@@ -934,6 +1087,157 @@ const RuleDialog = ({ open, onOpenChange, rule, onSave, agents, categories }: Ru
                 placeholder="server, network, urgent"
               />
             </div>
+
+            <div>
+              <Label>Categories</Label>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {categories.map((category) => (
+                  <Button
+                    key={category.id}
+                    type="button"
+                    variant={formData.conditions?.categories?.includes(category.id) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => {
+                      const selected = formData.conditions?.categories || [];
+                      setFormData(prev => ({
+                        ...prev,
+                        conditions: {
+                          ...prev.conditions,
+                          categories: selected.includes(category.id)
+                            ? selected.filter(id => id !== category.id)
+                            : [...selected, category.id]
+                        }
+                      }));
+                    }}
+                  >
+                    {category.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Customer Tiers</Label>
+                <div className="flex gap-2 mt-2">
+                  {CUSTOMER_TIERS.map((tier) => (
+                    <Button
+                      key={tier}
+                      type="button"
+                      variant={formData.conditions?.customerTiers?.includes(tier) ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => {
+                        const tiers = formData.conditions?.customerTiers || [];
+                        setFormData(prev => ({
+                          ...prev,
+                          conditions: {
+                            ...prev.conditions,
+                            customerTiers: tiers.includes(tier) ? tiers.filter(value => value !== tier) : [...tiers, tier]
+                          }
+                        }));
+                      }}
+                    >
+                      {tier}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>Minimum Urgency</Label>
+                <Select
+                  value={formData.conditions?.urgencyLevel ? String(formData.conditions.urgencyLevel) : 'any'}
+                  onValueChange={(value) => setFormData(prev => ({
+                    ...prev,
+                    conditions: { ...prev.conditions, urgencyLevel: value === 'any' ? undefined : Number(value) }
+                  }))}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    {URGENCY_LEVELS.map((priority, index) => (
+                      <SelectItem key={priority} value={String(index + 1)}>{priority} or higher</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label>Time of Day</Label>
+              <div className="flex items-center gap-2 mt-2">
+                <Input
+                  type="time"
+                  value={formData.conditions?.timeOfDay?.start || ''}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    conditions: {
+                      ...prev.conditions,
+                      timeOfDay: { start: e.target.value, end: prev.conditions?.timeOfDay?.end || '' }
+                    }
+                  }))}
+                />
+                <span>–</span>
+                <Input
+                  type="time"
+                  value={formData.conditions?.timeOfDay?.end || ''}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    conditions: {
+                      ...prev.conditions,
+                      timeOfDay: { start: prev.conditions?.timeOfDay?.start || '', end: e.target.value }
+                    }
+                  }))}
+                />
+                {formData.conditions?.timeOfDay && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFormData(prev => ({
+                      ...prev,
+                      conditions: { ...prev.conditions, timeOfDay: undefined }
+                    }))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                In the business hours timezone. A start after the end spans midnight.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="customerLanguage">Customer Languages (comma-separated)</Label>
+                <Input
+                  id="customerLanguage"
+                  value={formData.conditions?.customerLanguage?.join(', ') || ''}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    conditions: { ...prev.conditions, customerLanguage: splitList(e.target.value) }
+                  }))}
+                  placeholder="pt, en-US"
+                />
+              </div>
+              <div>
+                <Label htmlFor="geographicRegion">Customer Regions (comma-separated)</Label>
+                <Input
+                  id="geographicRegion"
+                  value={formData.conditions?.geographicRegion?.join(', ') || ''}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    conditions: { ...prev.conditions, geographicRegion: splitList(e.target.value) }
+                  }))}
+                  placeholder="America, Europe/Lisbon"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Matched against the customer's timezone
+                </p>
+              </div>
+            </div>
           </div>
 
           <div className="space-y-4">
@@ -962,6 +1266,59 @@ const RuleDialog = ({ open, onOpenChange, rule, onSave, agents, categories }: Ru
               </Select>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="assignToTeam">{t('admin.assignmentRules.assignToTeam', 'Assign to Team')}</Label>
+                <Select
+                  value={formData.actions?.assignToTeam || 'none'}
+                  onValueChange={(value) => setFormData(prev => ({
+                    ...prev,
+                    actions: { ...prev.actions, assignToTeam: value === 'none' ? undefined : value }
+                  }))}
+                >
+                  <SelectTrigger id="assignToTeam">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{t('admin.assignmentRules.noTeam', 'No team')}</SelectItem>
+                    {teams.map((team) => (
+                      <SelectItem key={team.id} value={team.slug}>
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {t('admin.assignmentRules.assignToTeamHint', 'Least loaded member on duty; the team default queue when nobody is')}
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="assignToQueue">{t('admin.assignmentRules.assignToQueue', 'Send to Queue')}</Label>
+                <Select
+                  value={formData.actions?.assignToQueue || 'none'}
+                  onValueChange={(value) => setFormData(prev => ({
+                    ...prev,
+                    actions: { ...prev.actions, assignToQueue: value === 'none' ? undefined : value }
+                  }))}
+                >
+                  <SelectTrigger id="assignToQueue">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{t('admin.assignmentRules.noQueue', 'No queue')}</SelectItem>
+                    {teams.flatMap(team => team.queues.map(queue => (
+                      <SelectItem key={queue.id} value={queue.id}>
+                        {team.name} / {queue.name}
+                      </SelectItem>
+                    )))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {t('admin.assignmentRules.assignToQueueHint', 'The ticket stays unassigned until an agent pulls it')}
+                </p>
+              </div>
+            </div>
+
             <div>
               <Label htmlFor="maxResponseTime">Max Response Time (minutes)</Label>
               <Input
@@ -976,6 +1333,24 @@ const RuleDialog = ({ open, onOpenChange, rule, onSave, agents, categories }: Ru
               />
             </div>
 
+            <div>
+              <Label htmlFor="escalateAfter">{t('admin.assignmentRules.escalateAfter', 'Escalate After (minutes)')}</Label>
+              <Input
+                id="escalateAfter"
+                type="number"
+                min={0}
+                value={formData.actions?.escalateAfter || ''}
+                onChange={(e) => setFormData(prev => ({
+                  ...prev,
+                  actions: { ...prev.actions, escalateAfter: parseInt(e.target.value) || undefined }
+                }))}
+                placeholder="60"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {t('admin.assignmentRules.escalateAfterHint', 'Reassign to another team member if the assigned agent has not responded in time')}
+              </p>
+            </div>
+
             <div className="flex items-center space-x-2">
               <Switch
                 id="notifyManager"
@@ -985,7 +1360,9 @@ const RuleDialog = ({ open, onOpenChange, rule, onSave, agents, categories }: Ru
                   actions: { ...prev.actions, notifyManager }
                 }))}
               />
-              <Label htmlFor="notifyManager">Notify manager when rule is triggered</Label>
+              <Label htmlFor="notifyManager">
+                {t('admin.assignmentRules.notifyManagerOnEscalation', 'Page the team lead when the ticket escalates')}
+              </Label>
             </div>
           </div>
 
@@ -1004,6 +1381,98 @@ const RuleDialog = ({ open, onOpenChange, rule, onSave, agents, categories }: Ru
   );
 };
 
+// Version History Dialog Component
+interface RuleHistoryDialogProps {
+  rule: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}
+
+const RuleHistoryDialog = ({ rule, onOpenChange, onRestored }: RuleHistoryDialogProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<AssignmentRuleVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!rule) return;
+
+    setIsLoading(true);
+    assignmentRulesService.getRuleVersions(rule.id)
+      .then(setVersions)
+      .catch(() => setVersions([]))
+      .finally(() => setIsLoading(false));
+  }, [rule]);
+
+  const handleRestore = async (version: AssignmentRuleVersion) => {
+    try {
+      await assignmentRulesService.restoreRuleVersion(version.id);
+      toast({
+        title: t('admin.assignmentRules.versionRestored', 'Rule restored'),
+        description: t('admin.assignmentRules.versionRestoredDesc', { version: version.version, defaultValue: 'The rule is back to version {{version}}' }),
+      });
+      onRestored();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error restoring rule version:', error);
+      toast({
+        title: t('admin.assignmentRules.errorUpdatingRule'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={rule !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {t('admin.assignmentRules.versionHistory', 'Version history')}: {versions[0]?.name || rule?.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {versions.map((version, index) => (
+              <div key={version.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg text-sm">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">v{version.version}</Badge>
+                    <span className="font-medium">
+                      {t(`admin.assignmentRules.changeType.${version.change_type}`, version.change_type)}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {format(new Date(version.created_at), 'dd/MM/yyyy HH:mm')}
+                      {version.changed_by_user && ` · ${version.changed_by_user.full_name || version.changed_by_user.email}`}
+                    </span>
+                  </div>
+                  <div className="text-muted-foreground">
+                    {version.name} · Priority {version.priority} · {version.enabled ? 'Active' : 'Disabled'}
+                  </div>
+                  <pre className="text-xs bg-muted rounded p-2 whitespace-pre-wrap">
+                    {JSON.stringify({ conditions: version.conditions, actions: version.actions }, null, 2)}
+                  </pre>
+                </div>
+                {(index > 0 || version.change_type === 'deleted') && (
+                  <Button variant="outline" size="sm" onClick={() => handleRestore(version)}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    {t('admin.assignmentRules.restore', 'Restore')}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
 // Configuration Dialog Component
 interface ConfigurationDialogProps {
   open: boolean;
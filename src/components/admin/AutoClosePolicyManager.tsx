@@ -0,0 +1,309 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Hourglass, Plus, Pencil, Trash2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import { DatabaseService, type Category, type Subcategory } from "@/lib/database";
+import {
+  AutoClosePolicyService,
+  type AutoClosePolicy,
+  type AutoClosePolicyDraft,
+} from "@/lib/autoClosePolicyService";
+
+const ANY = "__any__";
+
+const emptyDraft = (): AutoClosePolicyDraft => ({
+  name: "",
+  category_id: null,
+  subcategory_id: null,
+  inactivity_days: 7,
+  reminder_days_before: 2,
+  is_active: true,
+});
+
+/**
+ * How long resolved tickets wait for the requester before closing, per
+ * category or subcategory, and how early the requester is reminded
+ */
+export const AutoClosePolicyManager = () => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [policies, setPolicies] = useState<AutoClosePolicy[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<AutoClosePolicyDraft | null>(null);
+
+  const loadPolicies = async () => {
+    try {
+      setLoading(true);
+      setPolicies(await AutoClosePolicyService.getPolicies());
+    } catch (error) {
+      console.error('Error loading auto-close policies:', error);
+      setPolicies([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPolicies();
+    DatabaseService.getCategories()
+      .then(setCategories)
+      .catch(() => setCategories([]));
+    DatabaseService.getSubcategories()
+      .then(setSubcategories)
+      .catch(() => setSubcategories([]));
+  }, []);
+
+  const describeScope = (policy: AutoClosePolicy) => {
+    if (policy.subcategory) return `${policy.category?.name ?? ''} › ${policy.subcategory.name}`;
+    if (policy.category) return policy.category.name;
+    return t('admin.autoClosePolicies.defaultScope', 'All other tickets');
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const validationError = AutoClosePolicyService.validatePolicy(draft);
+    if (validationError) {
+      toast({
+        title: t('admin.autoClosePolicies.validationError', 'Invalid policy'),
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await AutoClosePolicyService.savePolicy(draft);
+      toast({
+        title: t('admin.autoClosePolicies.saved', 'Auto-close policy saved'),
+        description: draft.name,
+      });
+      setDraft(null);
+      await loadPolicies();
+    } catch (error) {
+      console.error('Error saving auto-close policy:', error);
+      toast({
+        title: t('admin.autoClosePolicies.saveError', 'Error saving auto-close policy'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (policy: AutoClosePolicy) => {
+    try {
+      await AutoClosePolicyService.deletePolicy(policy.id);
+      toast({
+        title: t('admin.autoClosePolicies.deleted', 'Auto-close policy deleted'),
+        description: policy.name,
+      });
+      await loadPolicies();
+    } catch (error) {
+      console.error('Error deleting auto-close policy:', error);
+      toast({
+        title: t('admin.autoClosePolicies.deleteError', 'Error deleting auto-close policy'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const draftSubcategories = subcategories.filter(subcategory => subcategory.category_id === draft?.category_id);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2 dark:text-gray-100">
+            <Hourglass className="h-5 w-5" />
+            {t('admin.autoClosePolicies.title', 'Auto-close Policies')}
+          </CardTitle>
+          <Button onClick={() => setDraft(emptyDraft())} size="sm" className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            {t('admin.autoClosePolicies.add', 'Add Policy')}
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t('admin.autoClosePolicies.description', 'Resolved tickets close after the inactivity window. Requesters are reminded beforehand and can answer "still not fixed" to request a reopen. The most specific policy applies.')}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded animate-pulse" />
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {t('admin.autoClosePolicies.empty', 'No auto-close policies. Resolved tickets stay resolved until someone closes them.')}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {policies.map(policy => (
+              <div key={policy.id} className="border rounded-lg p-4 dark:border-gray-700">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium dark:text-gray-100">{policy.name}</span>
+                      {!policy.is_active && (
+                        <Badge variant="outline">{t('admin.autoClosePolicies.inactive', 'Inactive')}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{describeScope(policy)}</p>
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      <Badge variant="secondary">
+                        {t('admin.autoClosePolicies.closesAfter', 'Closes after {{days}} days', { days: policy.inactivity_days })}
+                      </Badge>
+                      <Badge variant="secondary">
+                        {policy.reminder_days_before > 0
+                          ? t('admin.autoClosePolicies.remindsBefore', 'Reminder {{days}} days before', { days: policy.reminder_days_before })
+                          : t('admin.autoClosePolicies.noReminder', 'No reminder')}
+                      </Badge>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDraft({ ...policy })}
+                      aria-label={t('admin.autoClosePolicies.edit', 'Edit policy')}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(policy)}
+                      aria-label={t('admin.autoClosePolicies.delete', 'Delete policy')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {draft?.id
+                ? t('admin.autoClosePolicies.edit', 'Edit policy')
+                : t('admin.autoClosePolicies.add', 'Add Policy')}
+            </DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="auto-close-name">{t('admin.autoClosePolicies.name', 'Name')}</Label>
+                <Input
+                  id="auto-close-name"
+                  value={draft.name}
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{t('admin.autoClosePolicies.category', 'Category')}</Label>
+                  <Select
+                    value={draft.category_id || ANY}
+                    onValueChange={value => setDraft({ ...draft, category_id: value === ANY ? null : value, subcategory_id: null })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>{t('admin.autoClosePolicies.anyCategory', 'Any category (default)')}</SelectItem>
+                      {categories.map(category => (
+                        <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('admin.autoClosePolicies.subcategory', 'Subcategory')}</Label>
+                  <Select
+                    value={draft.subcategory_id || ANY}
+                    onValueChange={value => setDraft({ ...draft, subcategory_id: value === ANY ? null : value })}
+                    disabled={!draft.category_id}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>{t('admin.autoClosePolicies.anySubcategory', 'Any subcategory')}</SelectItem>
+                      {draftSubcategories.map(subcategory => (
+                        <SelectItem key={subcategory.id} value={subcategory.id}>{subcategory.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="auto-close-days">{t('admin.autoClosePolicies.inactivityDays', 'Close after (days without activity)')}</Label>
+                  <Input
+                    id="auto-close-days"
+                    type="number"
+                    min={1}
+                    value={draft.inactivity_days}
+                    onChange={e => setDraft({ ...draft, inactivity_days: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="auto-close-reminder">{t('admin.autoClosePolicies.reminderDays', 'Remind (days before closing, 0 for none)')}</Label>
+                  <Input
+                    id="auto-close-reminder"
+                    type="number"
+                    min={0}
+                    value={draft.reminder_days_before}
+                    onChange={e => setDraft({ ...draft, reminder_days_before: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="auto-close-active"
+                  checked={draft.is_active}
+                  onCheckedChange={checked => setDraft({ ...draft, is_active: checked })}
+                />
+                <Label htmlFor="auto-close-active">{t('admin.autoClosePolicies.active', 'Active')}</Label>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              {t('common.cancel', 'Cancel')}
+            </Button>
+            <Button onClick={handleSave} disabled={saving} className="flex items-center gap-2">
+              <Save className="h-4 w-4" />
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
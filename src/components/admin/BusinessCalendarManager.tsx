@@ -0,0 +1,409 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarDays, Plus, Pencil, Trash2, Save, Globe } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import {
+  BusinessCalendar,
+  BusinessCalendarService,
+  DEFAULT_BUSINESS_WEEK,
+} from "@/lib/businessCalendarService";
+import { teamService, type Team } from "@/lib/teamService";
+
+type CalendarDraft = Omit<BusinessCalendar, "id"> & { id?: string };
+
+const emptyDraft = (): CalendarDraft => ({
+  name: "",
+  description: "",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+  region: "",
+  team_id: null,
+  is_default: false,
+  is_active: true,
+  hours: DEFAULT_BUSINESS_WEEK.map(window => ({ ...window })),
+  holidays: [],
+});
+
+export const BusinessCalendarManager = () => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [calendars, setCalendars] = useState<BusinessCalendar[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<CalendarDraft | null>(null);
+  const [newHoliday, setNewHoliday] = useState({ holiday_date: "", name: "" });
+
+  const dayNames = [
+    t('admin.businessCalendars.days.sunday', 'Sunday'),
+    t('admin.businessCalendars.days.monday', 'Monday'),
+    t('admin.businessCalendars.days.tuesday', 'Tuesday'),
+    t('admin.businessCalendars.days.wednesday', 'Wednesday'),
+    t('admin.businessCalendars.days.thursday', 'Thursday'),
+    t('admin.businessCalendars.days.friday', 'Friday'),
+    t('admin.businessCalendars.days.saturday', 'Saturday'),
+  ];
+
+  const loadCalendars = async () => {
+    try {
+      setLoading(true);
+      setCalendars(await BusinessCalendarService.getCalendars());
+    } catch (error) {
+      console.error('Error loading business calendars:', error);
+      setCalendars([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCalendars();
+    teamService.getTeams()
+      .then(setTeams)
+      .catch(() => setTeams([]));
+  }, []);
+
+  const updateHours = (day: number, updates: Partial<BusinessCalendar["hours"][number]>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      hours: draft.hours.map(window => window.day_of_week === day ? { ...window, ...updates } : window),
+    });
+  };
+
+  const addHoliday = () => {
+    if (!draft || !newHoliday.holiday_date || !newHoliday.name.trim()) return;
+    if (draft.holidays.some(holiday => holiday.holiday_date === newHoliday.holiday_date)) return;
+    setDraft({
+      ...draft,
+      holidays: [...draft.holidays, { ...newHoliday, name: newHoliday.name.trim() }]
+        .sort((a, b) => a.holiday_date.localeCompare(b.holiday_date)),
+    });
+    setNewHoliday({ holiday_date: "", name: "" });
+  };
+
+  const removeHoliday = (date: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, holidays: draft.holidays.filter(holiday => holiday.holiday_date !== date) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      toast({
+        title: t('admin.businessCalendars.validationError', 'Invalid calendar'),
+        description: t('admin.businessCalendars.nameRequired', 'Calendar name is required.'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!BusinessCalendarService.isValidTimezone(draft.timezone)) {
+      toast({
+        title: t('admin.businessCalendars.validationError', 'Invalid calendar'),
+        description: t('admin.businessCalendars.invalidTimezone', 'Unknown timezone: {{timezone}}', { timezone: draft.timezone }),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidDay = draft.hours.find(window => window.is_working_day && window.end_time <= window.start_time);
+    if (invalidDay) {
+      toast({
+        title: t('admin.businessCalendars.validationError', 'Invalid calendar'),
+        description: t('admin.businessCalendars.invalidHours', 'Working hours for {{day}} must end after they start.', { day: dayNames[invalidDay.day_of_week] }),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await BusinessCalendarService.saveCalendar({ ...draft, name: draft.name.trim() });
+      toast({
+        title: t('admin.businessCalendars.saved', 'Calendar saved'),
+        description: t('admin.businessCalendars.savedDesc', 'SLA clocks will use the updated business hours.'),
+      });
+      setDraft(null);
+      await loadCalendars();
+    } catch (error) {
+      console.error('Error saving business calendar:', error);
+      toast({
+        title: t('admin.businessCalendars.saveError', 'Error saving calendar'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (calendar: BusinessCalendar) => {
+    try {
+      await BusinessCalendarService.deleteCalendar(calendar.id);
+      toast({
+        title: t('admin.businessCalendars.deleted', 'Calendar deleted'),
+        description: calendar.name,
+      });
+      await loadCalendars();
+    } catch (error) {
+      console.error('Error deleting business calendar:', error);
+      toast({
+        title: t('admin.businessCalendars.deleteError', 'Error deleting calendar'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeWeek = (calendar: BusinessCalendar) => {
+    const working = calendar.hours
+      .filter(window => window.is_working_day)
+      .sort((a, b) => a.day_of_week - b.day_of_week);
+    if (working.length === 0) return t('admin.businessCalendars.noWorkingDays', 'No working days');
+    return working
+      .map(window => `${dayNames[window.day_of_week].slice(0, 3)} ${window.start_time}–${window.end_time}`)
+      .join(', ');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2 dark:text-gray-100">
+            <CalendarDays className="h-5 w-5" />
+            {t('admin.businessCalendars.title', 'Business Hours & Holidays')}
+          </CardTitle>
+          <Button onClick={() => setDraft(emptyDraft())} size="sm" className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            {t('admin.businessCalendars.add', 'Add Calendar')}
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t('admin.businessCalendars.description', 'SLA response and resolution times only count during the working hours of the calendar that matches the ticket team or region.')}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded animate-pulse" />
+        ) : calendars.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {t('admin.businessCalendars.empty', 'No calendars configured. SLA clocks run 24/7.')}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {calendars.map(calendar => (
+              <div key={calendar.id} className="border rounded-lg p-4 dark:border-gray-700">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium dark:text-gray-100">{calendar.name}</span>
+                      {calendar.is_default && (
+                        <Badge variant="secondary">{t('admin.businessCalendars.default', 'Default')}</Badge>
+                      )}
+                      {!calendar.is_active && (
+                        <Badge variant="outline">{t('admin.businessCalendars.inactive', 'Inactive')}</Badge>
+                      )}
+                      {calendar.region && <Badge variant="outline">{calendar.region}</Badge>}
+                      {calendar.team_id && (
+                        <Badge variant="outline">{teams.find(team => team.id === calendar.team_id)?.name}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                      <Globe className="h-3 w-3" />
+                      {calendar.timezone}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-300">{describeWeek(calendar)}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t('admin.businessCalendars.holidayCount', '{{count}} holidays', { count: calendar.holidays.length })}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDraft({
+                        ...calendar,
+                        hours: DEFAULT_BUSINESS_WEEK.map(fallback =>
+                          calendar.hours.find(window => window.day_of_week === fallback.day_of_week) || { ...fallback, is_working_day: false }
+                        ),
+                      })}
+                      aria-label={t('admin.businessCalendars.edit', 'Edit calendar')}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(calendar)}
+                      aria-label={t('admin.businessCalendars.delete', 'Delete calendar')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {draft?.id
+                ? t('admin.businessCalendars.edit', 'Edit calendar')
+                : t('admin.businessCalendars.add', 'Add Calendar')}
+            </DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="calendar-name">{t('admin.businessCalendars.name', 'Name')}</Label>
+                  <Input
+                    id="calendar-name"
+                    value={draft.name}
+                    onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="calendar-timezone">{t('admin.businessCalendars.timezone', 'Timezone')}</Label>
+                  <Input
+                    id="calendar-timezone"
+                    value={draft.timezone}
+                    placeholder="Europe/Berlin"
+                    onChange={e => setDraft({ ...draft, timezone: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="calendar-region">{t('admin.businessCalendars.region', 'Region (ticket country)')}</Label>
+                  <Input
+                    id="calendar-region"
+                    value={draft.region || ""}
+                    onChange={e => setDraft({ ...draft, region: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="calendar-team">{t('admin.businessCalendars.team', 'Team')}</Label>
+                  <Select
+                    value={draft.team_id || "none"}
+                    onValueChange={value => setDraft({ ...draft, team_id: value === "none" ? null : value })}
+                  >
+                    <SelectTrigger id="calendar-team">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">{t('admin.businessCalendars.noTeam', 'Any team')}</SelectItem>
+                      {teams.map(team => (
+                        <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-end gap-6 pb-2">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="calendar-default"
+                      checked={draft.is_default}
+                      onCheckedChange={checked => setDraft({ ...draft, is_default: checked })}
+                    />
+                    <Label htmlFor="calendar-default">{t('admin.businessCalendars.default', 'Default')}</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="calendar-active"
+                      checked={draft.is_active}
+                      onCheckedChange={checked => setDraft({ ...draft, is_active: checked })}
+                    />
+                    <Label htmlFor="calendar-active">{t('admin.businessCalendars.active', 'Active')}</Label>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('admin.businessCalendars.workingHours', 'Working hours')}</Label>
+                {draft.hours.map(window => (
+                  <div key={window.day_of_week} className="grid grid-cols-[auto_1fr_1fr_1fr] items-center gap-3">
+                    <Checkbox
+                      checked={window.is_working_day}
+                      onCheckedChange={checked => updateHours(window.day_of_week, { is_working_day: checked === true })}
+                      aria-label={dayNames[window.day_of_week]}
+                    />
+                    <span className="text-sm dark:text-gray-200">{dayNames[window.day_of_week]}</span>
+                    <Input
+                      type="time"
+                      value={window.start_time}
+                      disabled={!window.is_working_day}
+                      onChange={e => updateHours(window.day_of_week, { start_time: e.target.value })}
+                    />
+                    <Input
+                      type="time"
+                      value={window.end_time}
+                      disabled={!window.is_working_day}
+                      onChange={e => updateHours(window.day_of_week, { end_time: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('admin.businessCalendars.holidays', 'Public holidays')}</Label>
+                {draft.holidays.map(holiday => (
+                  <div key={holiday.holiday_date} className="flex items-center justify-between text-sm border rounded px-3 py-2 dark:border-gray-700">
+                    <span className="dark:text-gray-200">{holiday.holiday_date} — {holiday.name}</span>
+                    <Button variant="ghost" size="sm" onClick={() => removeHoliday(holiday.holiday_date)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Input
+                    type="date"
+                    value={newHoliday.holiday_date}
+                    onChange={e => setNewHoliday({ ...newHoliday, holiday_date: e.target.value })}
+                  />
+                  <Input
+                    value={newHoliday.name}
+                    placeholder={t('admin.businessCalendars.holidayName', 'Holiday name')}
+                    onChange={e => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                  />
+                  <Button variant="outline" onClick={addHoliday}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              {t('admin.slaConfiguration.cancel', 'Cancel')}
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 mr-1" />
+              {t('admin.slaConfiguration.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,601 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { MessageSquareText, Pencil, Plus, Save, Search, Trash2, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabase";
+import { TicketTags } from "@/components/tickets/TicketTags";
+import { useMacroSummary } from "@/components/tickets/SnippetTextarea";
+import {
+  SNIPPET_PLACEHOLDERS,
+  cannedResponseService,
+  findUnknownPlaceholders,
+  type CannedResponse,
+  type MacroActions,
+  type TicketMacro,
+} from "@/lib/cannedResponseService";
+
+type ResponseDraft = Pick<CannedResponse, "title" | "shortcut" | "content" | "is_shared"> & { id?: string };
+type MacroDraft = Pick<TicketMacro, "name" | "shortcut" | "reply_is_internal" | "actions" | "is_shared"> & {
+  id?: string;
+  description: string;
+  reply_content: string;
+};
+
+interface AgentOption {
+  id: string;
+  name: string;
+}
+
+// Select values for "leave the field alone" and "unassign"
+const NO_CHANGE = "__none";
+const UNASSIGN = "__unassign";
+
+const STATUSES = ["open", "in_progress", "pending", "resolved", "closed"] as const;
+const PRIORITIES = ["low", "medium", "high", "urgent"] as const;
+
+// Suggested shortcut while the title is typed, until the shortcut is edited
+const shortcutFrom = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+
+/**
+ * Canned responses and macros. Agents manage their personal ones; admins also
+ * manage the shared library every agent sees.
+ */
+export const CannedResponseManager = () => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { userProfile } = useAuth();
+  const summarize = useMacroSummary();
+  const isAdmin = userProfile?.role === "admin";
+  const [responses, setResponses] = useState<CannedResponse[]>([]);
+  const [macros, setMacros] = useState<TicketMacro[]>([]);
+  const [agents, setAgents] = useState<AgentOption[]>([]);
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [responseDraft, setResponseDraft] = useState<ResponseDraft | null>(null);
+  const [macroDraft, setMacroDraft] = useState<MacroDraft | null>(null);
+
+  const canEdit = (entry: { is_shared: boolean; created_by: string | null }) =>
+    isAdmin || (!entry.is_shared && entry.created_by === userProfile?.id);
+
+  const loadAll = async () => {
+    try {
+      setLoading(true);
+      const [loadedResponses, loadedMacros] = await Promise.all([
+        cannedResponseService.getResponses(),
+        cannedResponseService.getMacros(),
+      ]);
+      setResponses(loadedResponses);
+      setMacros(loadedMacros);
+    } catch (error) {
+      console.error('Error loading canned responses:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAgents = async () => {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, full_name, email')
+      .in('role', ['agent', 'admin'])
+      .order('full_name');
+
+    if (error) {
+      console.error('Error loading agents:', error);
+      return;
+    }
+
+    setAgents((data || []).map(user => ({ id: user.id, name: user.full_name || user.email })));
+  };
+
+  useEffect(() => {
+    loadAll();
+    loadAgents();
+  }, []);
+
+  const matchesSearch = (...fields: (string | null | undefined)[]) => {
+    const q = search.trim().toLowerCase();
+    return !q || fields.some(field => field?.toLowerCase().includes(q));
+  };
+
+  const visibleResponses = useMemo(
+    () => responses.filter(response => matchesSearch(response.title, response.shortcut, response.content)),
+    [responses, search]
+  );
+  const visibleMacros = useMemo(
+    () => macros.filter(macro => matchesSearch(macro.name, macro.shortcut, macro.description, macro.reply_content)),
+    [macros, search]
+  );
+
+  const runSave = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setSaving(true);
+      await action();
+      toast({ title: t('common.success', 'Success'), description: successMessage });
+      await loadAll();
+      return true;
+    } catch (error) {
+      console.error('Error saving canned responses:', error);
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('admin.cannedResponses.saveFailed', 'Failed to save changes'),
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveResponse = async () => {
+    if (!responseDraft) return;
+    const saved = await runSave(
+      () => cannedResponseService.saveResponse(responseDraft),
+      t('admin.cannedResponses.responseSaved', 'Canned response saved')
+    );
+    if (saved) setResponseDraft(null);
+  };
+
+  const handleSaveMacro = async () => {
+    if (!macroDraft) return;
+    const saved = await runSave(
+      () => cannedResponseService.saveMacro(macroDraft),
+      t('admin.cannedResponses.macroSaved', 'Macro saved')
+    );
+    if (saved) setMacroDraft(null);
+  };
+
+  const handleDeleteResponse = async (response: CannedResponse) => {
+    if (!window.confirm(t('admin.cannedResponses.confirmDelete', 'Delete "{{name}}"?', { name: response.title }))) return;
+    await runSave(() => cannedResponseService.deleteResponse(response.id), t('admin.cannedResponses.deleted', 'Deleted'));
+  };
+
+  const handleDeleteMacro = async (macro: TicketMacro) => {
+    if (!window.confirm(t('admin.cannedResponses.confirmDelete', 'Delete "{{name}}"?', { name: macro.name }))) return;
+    await runSave(() => cannedResponseService.deleteMacro(macro.id), t('admin.cannedResponses.deleted', 'Deleted'));
+  };
+
+  const setAction = <K extends keyof MacroActions>(key: K, value: MacroActions[K] | undefined) => {
+    if (!macroDraft) return;
+    const actions = { ...macroDraft.actions };
+    if (value === undefined) delete actions[key];
+    else actions[key] = value;
+    setMacroDraft({ ...macroDraft, actions });
+  };
+
+  const assigneeValue = (actions: MacroActions) =>
+    actions.assigned_to === undefined ? NO_CHANGE : actions.assigned_to === null ? UNASSIGN : actions.assigned_to;
+
+  const placeholderHint = (
+    <p className="text-xs text-muted-foreground">
+      {t('admin.cannedResponses.placeholders', 'Placeholders')}:{" "}
+      {SNIPPET_PLACEHOLDERS.map(name => `{{${name}}}`).join(" ")}
+    </p>
+  );
+
+  const scopeBadge = (entry: { is_shared: boolean }) => (
+    <Badge variant={entry.is_shared ? "secondary" : "outline"} className="text-xs">
+      {entry.is_shared ? t('admin.cannedResponses.shared', 'Shared') : t('snippets.personal', 'Personal')}
+    </Badge>
+  );
+
+  return (
+    <Card className="dark:bg-gray-800 dark:border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 dark:text-gray-100">
+          <MessageSquareText className="h-5 w-5" />
+          {t('admin.cannedResponses.title', 'Canned Responses & Macros')}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {t('admin.cannedResponses.description', 'Type / in a reply box to insert these. Personal entries are only visible to you; shared ones are available to every agent.')}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder={t('admin.cannedResponses.search', 'Search by title, shortcut or text...')}
+            className="pl-9"
+          />
+        </div>
+
+        <Tabs defaultValue="responses">
+          <TabsList>
+            <TabsTrigger value="responses">
+              {t('admin.cannedResponses.responses', 'Canned responses')} ({responses.length})
+            </TabsTrigger>
+            <TabsTrigger value="macros">
+              {t('admin.cannedResponses.macros', 'Macros')} ({macros.length})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="responses" className="space-y-3 pt-2">
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={() => setResponseDraft({ title: "", shortcut: "", content: "", is_shared: false })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {t('admin.cannedResponses.addResponse', 'Add Response')}
+              </Button>
+            </div>
+            {loading ? (
+              <p className="text-sm text-muted-foreground">{t('common.loading', 'Loading...')}</p>
+            ) : visibleResponses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('admin.cannedResponses.noResponses', 'No canned responses')}</p>
+            ) : visibleResponses.map(response => (
+              <div key={response.id} className="flex items-start justify-between gap-4 rounded-lg border p-3 dark:border-gray-700">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium dark:text-gray-100">{response.title}</span>
+                    <code className="text-xs text-muted-foreground">/{response.shortcut}</code>
+                    {scopeBadge(response)}
+                    <span className="text-xs text-muted-foreground">
+                      {t('admin.cannedResponses.used', 'Used {{count}} times', { count: response.usage_count })}
+                    </span>
+                  </div>
+                  <p className="line-clamp-2 whitespace-pre-wrap text-sm text-muted-foreground">{response.content}</p>
+                </div>
+                {canEdit(response) && (
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setResponseDraft({ ...response })}
+                      aria-label={t('admin.cannedResponses.edit', 'Edit')}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteResponse(response)}
+                      aria-label={t('admin.cannedResponses.delete', 'Delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="macros" className="space-y-3 pt-2">
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={() => setMacroDraft({
+                  name: "",
+                  shortcut: "",
+                  description: "",
+                  reply_content: "",
+                  reply_is_internal: false,
+                  actions: {},
+                  is_shared: false,
+                })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {t('admin.cannedResponses.addMacro', 'Add Macro')}
+              </Button>
+            </div>
+            {loading ? (
+              <p className="text-sm text-muted-foreground">{t('common.loading', 'Loading...')}</p>
+            ) : visibleMacros.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('admin.cannedResponses.noMacros', 'No macros')}</p>
+            ) : visibleMacros.map(macro => (
+              <div key={macro.id} className="flex items-start justify-between gap-4 rounded-lg border p-3 dark:border-gray-700">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Wand2 className="h-4 w-4 text-purple-600" />
+                    <span className="font-medium dark:text-gray-100">{macro.name}</span>
+                    <code className="text-xs text-muted-foreground">/{macro.shortcut}</code>
+                    {scopeBadge(macro)}
+                    <span className="text-xs text-muted-foreground">
+                      {t('admin.cannedResponses.used', 'Used {{count}} times', { count: macro.usage_count })}
+                    </span>
+                  </div>
+                  {macro.description && <p className="text-sm text-muted-foreground">{macro.description}</p>}
+                  <div className="flex flex-wrap gap-1">
+                    {macro.reply_content && (
+                      <Badge variant="outline" className="text-xs">
+                        {macro.reply_is_internal
+                          ? t('admin.cannedResponses.addsNote', 'Adds an internal note')
+                          : t('admin.cannedResponses.addsReply', 'Adds a reply')}
+                      </Badge>
+                    )}
+                    {summarize(macro.actions).map(change => (
+                      <Badge key={change} variant="secondary" className="text-xs">{change}</Badge>
+                    ))}
+                  </div>
+                </div>
+                {canEdit(macro) && (
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setMacroDraft({
+                        ...macro,
+                        description: macro.description || "",
+                        reply_content: macro.reply_content || "",
+                      })}
+                      aria-label={t('admin.cannedResponses.edit', 'Edit')}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteMacro(macro)}
+                      aria-label={t('admin.cannedResponses.delete', 'Delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      {/* Canned response dialog */}
+      <Dialog open={!!responseDraft} onOpenChange={open => !open && setResponseDraft(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {responseDraft?.id
+                ? t('admin.cannedResponses.editResponse', 'Edit canned response')
+                : t('admin.cannedResponses.addResponse', 'Add Response')}
+            </DialogTitle>
+          </DialogHeader>
+          {responseDraft && (
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="response-title">{t('admin.cannedResponses.titleLabel', 'Title')}</Label>
+                  <Input
+                    id="response-title"
+                    value={responseDraft.title}
+                    onChange={e => setResponseDraft({
+                      ...responseDraft,
+                      title: e.target.value,
+                      shortcut: responseDraft.id || responseDraft.shortcut !== shortcutFrom(responseDraft.title)
+                        ? responseDraft.shortcut
+                        : shortcutFrom(e.target.value),
+                    })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="response-shortcut">{t('admin.cannedResponses.shortcut', 'Shortcut')}</Label>
+                  <Input
+                    id="response-shortcut"
+                    value={responseDraft.shortcut}
+                    onChange={e => setResponseDraft({ ...responseDraft, shortcut: e.target.value.toLowerCase() })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="response-content">{t('admin.cannedResponses.content', 'Text')}</Label>
+                <Textarea
+                  id="response-content"
+                  rows={8}
+                  value={responseDraft.content}
+                  onChange={e => setResponseDraft({ ...responseDraft, content: e.target.value })}
+                />
+                {placeholderHint}
+                {findUnknownPlaceholders(responseDraft.content).length > 0 && (
+                  <p className="text-sm text-destructive">
+                    {t('admin.cannedResponses.unknownPlaceholders', 'Unknown placeholders: {{names}}', {
+                      names: findUnknownPlaceholders(responseDraft.content).join(', '),
+                    })}
+                  </p>
+                )}
+              </div>
+              {isAdmin && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="response-shared"
+                    checked={responseDraft.is_shared}
+                    onCheckedChange={checked => setResponseDraft({ ...responseDraft, is_shared: checked })}
+                  />
+                  <Label htmlFor="response-shared">{t('admin.cannedResponses.shareWithAgents', 'Shared with all agents')}</Label>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResponseDraft(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSaveResponse} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Macro dialog */}
+      <Dialog open={!!macroDraft} onOpenChange={open => !open && setMacroDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {macroDraft?.id ? t('admin.cannedResponses.editMacro', 'Edit macro') : t('admin.cannedResponses.addMacro', 'Add Macro')}
+            </DialogTitle>
+          </DialogHeader>
+          {macroDraft && (
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="macro-name">{t('admin.cannedResponses.name', 'Name')}</Label>
+                  <Input
+                    id="macro-name"
+                    value={macroDraft.name}
+                    onChange={e => setMacroDraft({
+                      ...macroDraft,
+                      name: e.target.value,
+                      shortcut: macroDraft.id || macroDraft.shortcut !== shortcutFrom(macroDraft.name)
+                        ? macroDraft.shortcut
+                        : shortcutFrom(e.target.value),
+                    })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="macro-shortcut">{t('admin.cannedResponses.shortcut', 'Shortcut')}</Label>
+                  <Input
+                    id="macro-shortcut"
+                    value={macroDraft.shortcut}
+                    onChange={e => setMacroDraft({ ...macroDraft, shortcut: e.target.value.toLowerCase() })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="macro-description">{t('admin.cannedResponses.macroDescription', 'Description')}</Label>
+                <Input
+                  id="macro-description"
+                  value={macroDraft.description}
+                  onChange={e => setMacroDraft({ ...macroDraft, description: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="macro-reply">{t('admin.cannedResponses.reply', 'Reply (optional)')}</Label>
+                <Textarea
+                  id="macro-reply"
+                  rows={6}
+                  value={macroDraft.reply_content}
+                  onChange={e => setMacroDraft({ ...macroDraft, reply_content: e.target.value })}
+                />
+                {placeholderHint}
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="macro-internal"
+                    checked={macroDraft.reply_is_internal}
+                    onCheckedChange={checked => setMacroDraft({ ...macroDraft, reply_is_internal: checked })}
+                  />
+                  <Label htmlFor="macro-internal">{t('admin.cannedResponses.replyInternal', 'Post as internal note')}</Label>
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>{t('admin.cannedResponses.setStatus', 'Status')}</Label>
+                  <Select
+                    value={macroDraft.actions.status || NO_CHANGE}
+                    onValueChange={value => setAction('status', value === NO_CHANGE ? undefined : value as MacroActions['status'])}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CHANGE}>{t('admin.cannedResponses.noChange', 'No change')}</SelectItem>
+                      {STATUSES.map(status => (
+                        <SelectItem key={status} value={status}>
+                          {t(`status.${status === 'in_progress' ? 'inProgress' : status}`, status)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('admin.cannedResponses.setPriority', 'Priority')}</Label>
+                  <Select
+                    value={macroDraft.actions.priority || NO_CHANGE}
+                    onValueChange={value => setAction('priority', value === NO_CHANGE ? undefined : value as MacroActions['priority'])}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CHANGE}>{t('admin.cannedResponses.noChange', 'No change')}</SelectItem>
+                      {PRIORITIES.map(priority => (
+                        <SelectItem key={priority} value={priority}>{t(`priority.${priority}`, priority)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('admin.cannedResponses.setAssignee', 'Assignee')}</Label>
+                  <Select
+                    value={assigneeValue(macroDraft.actions)}
+                    onValueChange={value => setAction(
+                      'assigned_to',
+                      value === NO_CHANGE ? undefined : value === UNASSIGN ? null : value
+                    )}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CHANGE}>{t('admin.cannedResponses.noChange', 'No change')}</SelectItem>
+                      <SelectItem value="me">{t('snippets.changes.assignToMe', 'Assign to me')}</SelectItem>
+                      <SelectItem value={UNASSIGN}>{t('snippets.changes.unassign', 'Unassign')}</SelectItem>
+                      {agents.map(agent => (
+                        <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>{t('admin.cannedResponses.addTags', 'Add tags')}</Label>
+                  <TicketTags
+                    mode="filter"
+                    selectedTags={macroDraft.actions.add_tag_ids || []}
+                    onTagsChange={tagIds => setAction('add_tag_ids', tagIds.length ? tagIds : undefined)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('admin.cannedResponses.removeTags', 'Remove tags')}</Label>
+                  <TicketTags
+                    mode="filter"
+                    selectedTags={macroDraft.actions.remove_tag_ids || []}
+                    onTagsChange={tagIds => setAction('remove_tag_ids', tagIds.length ? tagIds : undefined)}
+                  />
+                </div>
+              </div>
+
+              {isAdmin && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="macro-shared"
+                    checked={macroDraft.is_shared}
+                    onCheckedChange={checked => setMacroDraft({ ...macroDraft, is_shared: checked })}
+                  />
+                  <Label htmlFor="macro-shared">{t('admin.cannedResponses.shareWithAgents', 'Shared with all agents')}</Label>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMacroDraft(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSaveMacro} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
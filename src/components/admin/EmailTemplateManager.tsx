@@ -0,0 +1,439 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mail, RotateCcw, Save, Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "@/contexts/AuthContext";
+import { EmailService } from "@/lib/emailService";
+import {
+  EMAIL_LOCALES,
+  EMAIL_TEMPLATE_EVENTS,
+  EMAIL_TEMPLATE_LISTS,
+  EMAIL_TEMPLATE_VARIABLES,
+  EmailTemplateService,
+  findUnknownVariables,
+  type EmailLocale,
+  type EmailSettings,
+  type EmailTemplateContent,
+  type EmailTemplateEvent,
+  type EmailTemplateRow,
+} from "@/lib/emailTemplateService";
+
+// Language names are shown in their own language, like in the language switcher
+const LOCALE_NAMES: Record<EmailLocale, string> = {
+  "en-US": "English (en-US)",
+  "pt-BR": "Português (pt-BR)",
+  "es-ES": "Español (es-ES)",
+  "fr-FR": "Français (fr-FR)",
+  "nl-NL": "Nederlands (nl-NL)",
+  "de-DE": "Deutsch (de-DE)",
+};
+
+/**
+ * Email templates per event and locale, with a live preview and test sends,
+ * and the sender identity and branding every email goes out with
+ */
+export const EmailTemplateManager = () => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { userProfile } = useAuth();
+  const [templates, setTemplates] = useState<EmailTemplateRow[]>([]);
+  const [settings, setSettings] = useState<EmailSettings | null>(null);
+  const [event, setEvent] = useState<EmailTemplateEvent>("ticket_updated");
+  const [locale, setLocale] = useState<EmailLocale>("en-US");
+  const [draft, setDraft] = useState<EmailTemplateContent | null>(null);
+  const [previewMode, setPreviewMode] = useState<"html" | "text">("html");
+  const [testAddress, setTestAddress] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await EmailTemplateService.getTemplates());
+    } catch (error) {
+      console.error('Error loading email templates:', error);
+      setTemplates([]);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+    EmailTemplateService.getSettings()
+      .then(setSettings)
+      .catch((error) => console.error('Error loading email settings:', error));
+  }, []);
+
+  useEffect(() => {
+    if (userProfile?.email && !testAddress) setTestAddress(userProfile.email);
+  }, [userProfile?.email]);
+
+  const effective = useMemo(
+    () => EmailTemplateService.getEffectiveTemplate(templates, event, locale),
+    [templates, event, locale]
+  );
+
+  // Switching event or locale starts from what that email looks like now
+  useEffect(() => {
+    setDraft(effective.template);
+  }, [effective]);
+
+  const preview = useMemo(
+    () => (draft && settings ? EmailTemplateService.preview(event, draft, settings) : null),
+    [draft, settings, event]
+  );
+  const unknownVariables = draft ? findUnknownVariables(event, draft) : [];
+
+  const customizedLocales = (candidate: EmailTemplateEvent) =>
+    templates.filter((template) => template.event === candidate && template.is_active).length;
+
+  const handleSaveTemplate = async () => {
+    if (!draft) return;
+    try {
+      setSaving(true);
+      await EmailTemplateService.saveTemplate(event, locale, draft);
+      toast({
+        title: t('admin.emailTemplates.toast.saved', 'Template saved'),
+        description: t('admin.emailTemplates.toast.savedDescription', 'Emails in this language now use your version.'),
+      });
+      await loadTemplates();
+    } catch (error) {
+      toast({
+        title: t('admin.emailTemplates.toast.error', 'Could not save'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm(t('admin.emailTemplates.resetConfirm', 'Discard your version and go back to the built-in template?'))) return;
+    try {
+      await EmailTemplateService.resetTemplate(event, locale);
+      toast({ title: t('admin.emailTemplates.toast.reset', 'Built-in template restored') });
+      await loadTemplates();
+    } catch (error) {
+      toast({
+        title: t('admin.emailTemplates.toast.error', 'Could not save'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSendTest = async () => {
+    if (!preview || !testAddress.trim()) return;
+    setSending(true);
+    const result = await EmailService.sendEmail({
+      to: testAddress.trim(),
+      subject: `[TEST] ${preview.subject}`,
+      htmlContent: preview.html,
+      textContent: preview.text,
+    });
+    setSending(false);
+
+    toast(result.success
+      ? { title: t('admin.emailTemplates.toast.testSent', 'Test email sent to {{address}}', { address: testAddress.trim() }) }
+      : {
+          title: t('admin.emailTemplates.toast.testFailed', 'Test email failed'),
+          description: result.error,
+          variant: "destructive",
+        });
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+    try {
+      setSaving(true);
+      setSettings(await EmailTemplateService.saveSettings(settings));
+      toast({ title: t('admin.emailTemplates.toast.settingsSaved', 'Sender settings saved') });
+    } catch (error) {
+      toast({
+        title: t('admin.emailTemplates.toast.error', 'Could not save'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateDraft = (field: keyof EmailTemplateContent, value: string) =>
+    setDraft((current) => (current ? { ...current, [field]: value } : current));
+
+  const updateSettings = (field: keyof EmailSettings, value: string) =>
+    setSettings((current) => (current ? { ...current, [field]: value } : current));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          {t('admin.emailTemplates.title', 'Email Templates')}
+        </CardTitle>
+        <CardDescription>
+          {t('admin.emailTemplates.description', 'The emails the help desk sends, in every language, and who they come from.')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="templates">
+          <TabsList>
+            <TabsTrigger value="templates">{t('admin.emailTemplates.tabs.templates', 'Templates')}</TabsTrigger>
+            <TabsTrigger value="sender">{t('admin.emailTemplates.tabs.sender', 'Sender & branding')}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="templates" className="space-y-4 pt-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>{t('admin.emailTemplates.event', 'Email')}</Label>
+                <Select value={event} onValueChange={(value) => setEvent(value as EmailTemplateEvent)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EMAIL_TEMPLATE_EVENTS.map((candidate) => (
+                      <SelectItem key={candidate} value={candidate}>
+                        {t(`admin.emailTemplates.events.${candidate}`, candidate)}
+                        {customizedLocales(candidate) > 0 &&
+                          ` · ${t('admin.emailTemplates.customizedCount', '{{count}} customized', { count: customizedLocales(candidate) })}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('admin.emailTemplates.locale', 'Language')}</Label>
+                <Select value={locale} onValueChange={(value) => setLocale(value as EmailLocale)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EMAIL_LOCALES.map((candidate) => (
+                      <SelectItem key={candidate} value={candidate}>
+                        {LOCALE_NAMES[candidate]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={effective.custom ? "default" : "secondary"}>
+                {effective.custom
+                  ? t('admin.emailTemplates.custom', 'Customized')
+                  : t('admin.emailTemplates.builtIn', 'Built-in')}
+              </Badge>
+              <span className="text-sm text-muted-foreground">
+                {t('admin.emailTemplates.variables', 'Variables')}:
+              </span>
+              {[...EMAIL_TEMPLATE_VARIABLES[event], 'companyName', 'primaryColor'].map((variable) => (
+                <code key={variable} className="rounded bg-muted px-1.5 py-0.5 text-xs">{`{{${variable}}}`}</code>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t('admin.emailTemplates.sectionsHint', 'Wrap text in {{shown}} to show it only when the variable has a value, or in {{hidden}} to show it only when it does not.', {
+                shown: '{{#name}}…{{/name}}',
+                hidden: '{{^name}}…{{/name}}',
+              })}
+            </p>
+            {Object.entries(EMAIL_TEMPLATE_LISTS[event] || {}).map(([list, itemVariables]) => (
+              <p key={list} className="text-xs text-muted-foreground">
+                {t('admin.emailTemplates.listHint', '{{list}} repeats its text for every item, which has {{variables}}.', {
+                  list: `{{#${list}}}…{{/${list}}}`,
+                  variables: itemVariables.join(', '),
+                })}
+              </p>
+            ))}
+
+            {draft && (
+              <div className="grid gap-4 lg:grid-cols-2">
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="email-template-subject">{t('admin.emailTemplates.subject', 'Subject')}</Label>
+                    <Input
+                      id="email-template-subject"
+                      value={draft.subject}
+                      onChange={(e) => updateDraft('subject', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email-template-html">{t('admin.emailTemplates.bodyHtml', 'HTML body')}</Label>
+                    <Textarea
+                      id="email-template-html"
+                      rows={12}
+                      className="font-mono text-xs"
+                      value={draft.body_html}
+                      onChange={(e) => updateDraft('body_html', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email-template-text">{t('admin.emailTemplates.bodyText', 'Plain text body')}</Label>
+                    <Textarea
+                      id="email-template-text"
+                      rows={8}
+                      className="font-mono text-xs"
+                      value={draft.body_text}
+                      onChange={(e) => updateDraft('body_text', e.target.value)}
+                    />
+                  </div>
+                  {unknownVariables.length > 0 && (
+                    <p className="text-sm text-destructive">
+                      {t('admin.emailTemplates.unknownVariables', 'Unknown variables: {{names}}', { names: unknownVariables.join(', ') })}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    <Button onClick={handleSaveTemplate} disabled={saving || unknownVariables.length > 0}>
+                      <Save className="h-4 w-4 mr-2" />
+                      {t('admin.emailTemplates.save', 'Save template')}
+                    </Button>
+                    {effective.custom && (
+                      <Button variant="outline" onClick={handleReset}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        {t('admin.emailTemplates.reset', 'Restore built-in')}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>{t('admin.emailTemplates.preview', 'Preview (sample values)')}</Label>
+                    <Tabs value={previewMode} onValueChange={(value) => setPreviewMode(value as "html" | "text")}>
+                      <TabsList>
+                        <TabsTrigger value="html">HTML</TabsTrigger>
+                        <TabsTrigger value="text">{t('admin.emailTemplates.previewText', 'Text')}</TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                  </div>
+                  {preview && (
+                    <div className="rounded-md border">
+                      <div className="border-b px-3 py-2 text-sm">
+                        <span className="text-muted-foreground">{t('admin.emailTemplates.subject', 'Subject')}: </span>
+                        {preview.subject}
+                      </div>
+                      {previewMode === "html" ? (
+                        <iframe
+                          title={t('admin.emailTemplates.preview', 'Preview (sample values)')}
+                          srcDoc={preview.html}
+                          sandbox=""
+                          className="h-[480px] w-full"
+                        />
+                      ) : (
+                        <pre className="h-[480px] overflow-auto whitespace-pre-wrap p-3 text-xs">{preview.text}</pre>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <Input
+                      type="email"
+                      value={testAddress}
+                      onChange={(e) => setTestAddress(e.target.value)}
+                      placeholder={t('admin.emailTemplates.testAddress', 'Send a test to…')}
+                    />
+                    <Button variant="outline" onClick={handleSendTest} disabled={sending || !testAddress.trim() || !preview}>
+                      <Send className="h-4 w-4 mr-2" />
+                      {t('admin.emailTemplates.sendTest', 'Send test')}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="sender" className="space-y-4 pt-4">
+            {settings && (
+              <>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="email-from-name">{t('admin.emailTemplates.fromName', 'Sender name')}</Label>
+                    <Input
+                      id="email-from-name"
+                      value={settings.from_name}
+                      onChange={(e) => updateSettings('from_name', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email-from-address">{t('admin.emailTemplates.fromAddress', 'Sender address')}</Label>
+                    <Input
+                      id="email-from-address"
+                      type="email"
+                      value={settings.from_address}
+                      onChange={(e) => updateSettings('from_address', e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {t('admin.emailTemplates.fromAddressHint', 'Must belong to a domain verified with the email provider.')}
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email-reply-to">{t('admin.emailTemplates.replyTo', 'Reply-to address (optional)')}</Label>
+                    <Input
+                      id="email-reply-to"
+                      type="email"
+                      value={settings.reply_to_address || ''}
+                      onChange={(e) => updateSettings('reply_to_address', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email-company">{t('admin.emailTemplates.companyName', 'Company name')}</Label>
+                    <Input
+                      id="email-company"
+                      value={settings.company_name}
+                      onChange={(e) => updateSettings('company_name', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email-logo">{t('admin.emailTemplates.logoUrl', 'Logo URL (optional)')}</Label>
+                    <Input
+                      id="email-logo"
+                      value={settings.logo_url || ''}
+                      onChange={(e) => updateSettings('logo_url', e.target.value)}
+                      placeholder="https://"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email-color">{t('admin.emailTemplates.primaryColor', 'Brand color')}</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="email-color"
+                        type="color"
+                        className="w-14 p-1"
+                        value={settings.primary_color}
+                        onChange={(e) => updateSettings('primary_color', e.target.value)}
+                      />
+                      <Input
+                        value={settings.primary_color}
+                        onChange={(e) => updateSettings('primary_color', e.target.value)}
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email-footer">{t('admin.emailTemplates.footer', 'Footer')}</Label>
+                  <Textarea
+                    id="email-footer"
+                    rows={2}
+                    value={settings.footer_text || ''}
+                    onChange={(e) => updateSettings('footer_text', e.target.value)}
+                  />
+                </div>
+                <Button onClick={handleSaveSettings} disabled={saving}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {t('admin.emailTemplates.saveSettings', 'Save sender settings')}
+                </Button>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
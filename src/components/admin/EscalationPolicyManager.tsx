@@ -0,0 +1,420 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowUpCircle, Plus, Pencil, Trash2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import { DatabaseService, type Category } from "@/lib/database";
+import {
+  escalationService,
+  PRIORITY_LADDER,
+  type EscalationAction,
+  type EscalationPolicy,
+  type EscalationPolicyDraft,
+  type EscalationStep,
+} from "@/lib/escalationService";
+import { teamService, type Team } from "@/lib/teamService";
+
+const ACTIONS: EscalationAction[] = ['reassign', 'raise_priority', 'notify_team_lead', 'notify_admin'];
+
+const emptyDraft = (sortOrder: number): EscalationPolicyDraft => ({
+  name: "",
+  description: "",
+  priorities: [],
+  category_ids: [],
+  sort_order: sortOrder,
+  is_active: true,
+  steps: [
+    { step_order: 0, after_minutes: 60, action: 'reassign', config: {} },
+    { step_order: 1, after_minutes: 120, action: 'raise_priority', config: {} },
+    { step_order: 2, after_minutes: 240, action: 'notify_team_lead', config: {} },
+    { step_order: 3, after_minutes: 480, action: 'notify_admin', config: {} },
+  ],
+});
+
+/**
+ * Escalation chains per priority and category: what happens, and when, while
+ * a ticket stays unresolved
+ */
+export const EscalationPolicyManager = () => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<EscalationPolicyDraft | null>(null);
+
+  const actionLabels: Record<EscalationAction, string> = {
+    reassign: t('admin.escalationPolicies.actions.reassign', 'Reassign'),
+    raise_priority: t('admin.escalationPolicies.actions.raise_priority', 'Raise priority'),
+    notify_team_lead: t('admin.escalationPolicies.actions.notify_team_lead', 'Page team lead'),
+    notify_admin: t('admin.escalationPolicies.actions.notify_admin', 'Notify admins'),
+  };
+
+  const loadPolicies = async () => {
+    try {
+      setLoading(true);
+      setPolicies(await escalationService.getPolicies());
+    } catch (error) {
+      console.error('Error loading escalation policies:', error);
+      setPolicies([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPolicies();
+    teamService.getTeams()
+      .then(setTeams)
+      .catch(() => setTeams([]));
+    DatabaseService.getCategories()
+      .then(setCategories)
+      .catch(() => setCategories([]));
+  }, []);
+
+  const toggle = (list: string[], value: string, checked: boolean) =>
+    checked ? [...list, value] : list.filter(item => item !== value);
+
+  const updateStep = (index: number, updates: Partial<EscalationStep>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      steps: draft.steps.map((step, i) => i === index ? { ...step, ...updates } : step),
+    });
+  };
+
+  const addStep = () => {
+    if (!draft) return;
+    const last = draft.steps[draft.steps.length - 1];
+    setDraft({
+      ...draft,
+      steps: [...draft.steps, { step_order: draft.steps.length, after_minutes: (last?.after_minutes ?? 0) + 60, action: 'notify_admin', config: {} }],
+    });
+  };
+
+  const removeStep = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      toast({
+        title: t('admin.escalationPolicies.validationError', 'Invalid policy'),
+        description: t('admin.escalationPolicies.nameRequired', 'Policy name is required.'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (draft.steps.length === 0 || draft.steps.some(step => !(step.after_minutes >= 0))) {
+      toast({
+        title: t('admin.escalationPolicies.validationError', 'Invalid policy'),
+        description: t('admin.escalationPolicies.stepsRequired', 'Add at least one step, each with a threshold in minutes.'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await escalationService.savePolicy({
+        ...draft,
+        steps: [...draft.steps].sort((a, b) => a.after_minutes - b.after_minutes),
+      });
+      toast({
+        title: t('admin.escalationPolicies.saved', 'Escalation policy saved'),
+        description: draft.name,
+      });
+      setDraft(null);
+      await loadPolicies();
+    } catch (error) {
+      console.error('Error saving escalation policy:', error);
+      toast({
+        title: t('admin.escalationPolicies.saveError', 'Error saving escalation policy'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (policy: EscalationPolicy) => {
+    try {
+      await escalationService.deletePolicy(policy.id);
+      toast({
+        title: t('admin.escalationPolicies.deleted', 'Escalation policy deleted'),
+        description: policy.name,
+      });
+      await loadPolicies();
+    } catch (error) {
+      console.error('Error deleting escalation policy:', error);
+      toast({
+        title: t('admin.escalationPolicies.deleteError', 'Error deleting escalation policy'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeScope = (policy: EscalationPolicy) => {
+    const priorities = policy.priorities.length > 0
+      ? policy.priorities.map(priority => t(`priority.${priority}`, priority)).join(', ')
+      : t('admin.escalationPolicies.anyPriority', 'Any priority');
+    const categoryNames = policy.category_ids.length > 0
+      ? policy.category_ids.map(id => categories.find(category => category.id === id)?.name || id).join(', ')
+      : t('admin.escalationPolicies.anyCategory', 'Any category');
+    return `${priorities} · ${categoryNames}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2 dark:text-gray-100">
+            <ArrowUpCircle className="h-5 w-5" />
+            {t('admin.escalationPolicies.title', 'Escalation Policies')}
+          </CardTitle>
+          <Button onClick={() => setDraft(emptyDraft(policies.length))} size="sm" className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            {t('admin.escalationPolicies.add', 'Add Policy')}
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t('admin.escalationPolicies.description', 'While a ticket stays open, each step runs once its threshold since the ticket was created has passed. The first matching policy applies.')}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded animate-pulse" />
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {t('admin.escalationPolicies.empty', 'No escalation policies configured. Tickets only get SLA warning and breach notifications.')}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {policies.map(policy => (
+              <div key={policy.id} className="border rounded-lg p-4 dark:border-gray-700">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium dark:text-gray-100">{policy.name}</span>
+                      {!policy.is_active && (
+                        <Badge variant="outline">{t('admin.escalationPolicies.inactive', 'Inactive')}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{describeScope(policy)}</p>
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {policy.steps.map(step => (
+                        <Badge key={step.id} variant="secondary">
+                          {step.after_minutes} min → {actionLabels[step.action]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDraft({ ...policy, steps: policy.steps.map(step => ({ ...step, config: { ...step.config } })) })}
+                      aria-label={t('admin.escalationPolicies.edit', 'Edit policy')}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(policy)}
+                      aria-label={t('admin.escalationPolicies.delete', 'Delete policy')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {draft?.id
+                ? t('admin.escalationPolicies.edit', 'Edit policy')
+                : t('admin.escalationPolicies.add', 'Add Policy')}
+            </DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="policy-name">{t('admin.escalationPolicies.name', 'Name')}</Label>
+                  <Input
+                    id="policy-name"
+                    value={draft.name}
+                    onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="policy-order">{t('admin.escalationPolicies.order', 'Order')}</Label>
+                  <Input
+                    id="policy-order"
+                    type="number"
+                    value={draft.sort_order}
+                    onChange={e => setDraft({ ...draft, sort_order: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="policy-description">{t('admin.escalationPolicies.policyDescription', 'Description')}</Label>
+                  <Input
+                    id="policy-description"
+                    value={draft.description || ""}
+                    onChange={e => setDraft({ ...draft, description: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="policy-active"
+                    checked={draft.is_active}
+                    onCheckedChange={checked => setDraft({ ...draft, is_active: checked })}
+                  />
+                  <Label htmlFor="policy-active">{t('admin.escalationPolicies.active', 'Active')}</Label>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('admin.escalationPolicies.priorities', 'Priorities (none selected: any)')}</Label>
+                <div className="flex flex-wrap gap-4">
+                  {PRIORITY_LADDER.map(priority => (
+                    <label key={priority} className="flex items-center gap-2 text-sm dark:text-gray-200">
+                      <Checkbox
+                        checked={draft.priorities.includes(priority)}
+                        onCheckedChange={checked => setDraft({ ...draft, priorities: toggle(draft.priorities, priority, checked === true) })}
+                      />
+                      {t(`priority.${priority}`, priority)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('admin.escalationPolicies.categories', 'Categories (none selected: any)')}</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {categories.map(category => (
+                    <label key={category.id} className="flex items-center gap-2 text-sm dark:text-gray-200">
+                      <Checkbox
+                        checked={draft.category_ids.includes(category.id)}
+                        onCheckedChange={checked => setDraft({ ...draft, category_ids: toggle(draft.category_ids, category.id, checked === true) })}
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('admin.escalationPolicies.steps', 'Escalation chain')}</Label>
+                {draft.steps.map((step, index) => (
+                  <div key={index} className="grid grid-cols-[7rem_1fr_1fr_auto] items-center gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      value={step.after_minutes}
+                      onChange={e => updateStep(index, { after_minutes: parseInt(e.target.value) })}
+                      aria-label={t('admin.escalationPolicies.afterMinutes', 'After (minutes)')}
+                    />
+                    <Select
+                      value={step.action}
+                      onValueChange={value => updateStep(index, { action: value as EscalationAction, config: {} })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ACTIONS.map(action => (
+                          <SelectItem key={action} value={action}>{actionLabels[action]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {step.action === 'raise_priority' ? (
+                      <Select
+                        value={step.config.priority || "next"}
+                        onValueChange={value => updateStep(index, { config: value === "next" ? {} : { priority: value } })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="next">{t('admin.escalationPolicies.nextPriority', 'One level up')}</SelectItem>
+                          {PRIORITY_LADDER.slice(1).map(priority => (
+                            <SelectItem key={priority} value={priority}>{t(`priority.${priority}`, priority)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : step.action === 'notify_admin' ? (
+                      <span />
+                    ) : (
+                      <Select
+                        value={step.config.team || "ticket"}
+                        onValueChange={value => updateStep(index, { config: value === "ticket" ? {} : { team: value } })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ticket">{t('admin.escalationPolicies.ticketTeam', "Ticket's team")}</SelectItem>
+                          {teams.map(team => (
+                            <SelectItem key={team.id} value={team.slug}>{team.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => removeStep(index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={addStep} className="flex items-center gap-2">
+                  <Plus className="h-4 w-4" />
+                  {t('admin.escalationPolicies.addStep', 'Add step')}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              {t('admin.slaConfiguration.cancel', 'Cancel')}
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 mr-1" />
+              {t('admin.slaConfiguration.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
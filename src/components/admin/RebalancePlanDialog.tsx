@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowRight, CheckCircle, Loader2, Zap } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import { assignmentService } from "@/lib/assignmentService";
+import type { RebalancePlan } from "@/lib/rebalancePlanner";
+
+interface RebalancePlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApplied?: () => void;
+}
+
+const URGENCY_STYLES: Record<string, string> = {
+  overdue: "bg-red-100 text-red-800 border-red-200",
+  warning: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  ok: "bg-gray-100 text-gray-800 border-gray-200",
+};
+
+export const RebalancePlanDialog = ({ open, onOpenChange, onApplied }: RebalancePlanDialogProps) => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [plan, setPlan] = useState<RebalancePlan | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadPlan();
+    } else {
+      setPlan(null);
+    }
+  }, [open]);
+
+  const loadPlan = async () => {
+    setIsPlanning(true);
+    try {
+      const preview = await assignmentService.previewRebalance();
+      setPlan(preview);
+      setSelected(new Set(preview.moves.map(move => move.ticketId)));
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: t('admin.workloadDashboard.rebalancePlan.planFailed', 'Failed to compute a rebalance plan'),
+        variant: "destructive",
+      });
+      onOpenChange(false);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const toggleMove = (ticketId: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(ticketId);
+    } else {
+      next.delete(ticketId);
+    }
+    setSelected(next);
+  };
+
+  // Workload after applying only the approved moves
+  const projectedAgents = () => {
+    if (!plan) return [];
+    const approved = plan.moves.filter(move => selected.has(move.ticketId));
+    return plan.agents.map(agent => ({
+      ...agent,
+      after: agent.before
+        - approved.filter(move => move.fromAgentId === agent.id).length
+        + approved.filter(move => move.toAgentId === agent.id).length,
+    }));
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+
+    setIsApplying(true);
+    try {
+      const result = await assignmentService.applyRebalance(plan.moves.filter(move => selected.has(move.ticketId)));
+      toast({
+        title: t('admin.workloadDashboard.workloadRebalanced'),
+        description: result.skipped > 0
+          ? t('admin.workloadDashboard.rebalancePlan.appliedWithSkipped', '{{applied}} tickets moved, {{skipped}} skipped because they changed in the meantime.', result)
+          : t('admin.workloadDashboard.rebalancePlan.applied', '{{applied}} tickets moved. You can undo this from the rebalance history.', result),
+      });
+      onApplied?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: t('admin.workloadDashboard.rebalancingFailed'),
+        description: t('admin.workloadDashboard.rebalancingError'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('admin.workloadDashboard.rebalancePlan.title', 'Rebalance plan')}</DialogTitle>
+          <DialogDescription>
+            {t('admin.workloadDashboard.rebalancePlan.description', 'Review the proposed moves. Nothing changes until you apply them.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPlanning || !plan ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>{t('admin.workloadDashboard.rebalancePlan.planning', 'Computing plan...')}</span>
+          </div>
+        ) : plan.moves.length === 0 ? (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>
+              {t('admin.workloadDashboard.rebalancePlan.nothingToMove', 'Workload is already balanced. Target: {{target}} tickets per agent.', { target: plan.targetWorkload })}
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {projectedAgents().map(agent => (
+                <Badge key={agent.id} variant="outline" className="text-xs">
+                  {agent.name}: {agent.before} <ArrowRight className="h-3 w-3 mx-1" /> {agent.after}/{agent.capacity}
+                </Badge>
+              ))}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>{t('admin.workloadDashboard.rebalancePlan.ticket', 'Ticket')}</TableHead>
+                  <TableHead>{t('admin.workloadDashboard.rebalancePlan.move', 'Move')}</TableHead>
+                  <TableHead>{t('admin.workloadDashboard.rebalancePlan.sla', 'SLA')}</TableHead>
+                  <TableHead>{t('admin.workloadDashboard.rebalancePlan.reason', 'Reason')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.moves.map(move => (
+                  <TableRow key={move.ticketId}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(move.ticketId)}
+                        onCheckedChange={checked => toggleMove(move.ticketId, checked === true)}
+                        aria-label={move.ticketTitle}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{move.ticketTitle}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {move.ticketNumber} · <span className="capitalize">{move.priority}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1 text-sm">
+                        <span className="text-red-600 line-through">{move.fromAgentName}</span>
+                        <ArrowRight className="h-3 w-3" />
+                        <span className="text-green-600">{move.toAgentName}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`text-xs ${URGENCY_STYLES[move.slaUrgency]}`}>
+                        {t(`admin.workloadDashboard.rebalancePlan.urgency.${move.slaUrgency}`)}
+                      </Badge>
+                      {move.slaDeadline && (
+                        <div className="text-xs text-muted-foreground mt-1">{format(new Date(move.slaDeadline), 'PPp')}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{move.reason}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {plan.skipped.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-sm font-medium">
+                  {t('admin.workloadDashboard.rebalancePlan.skipped', 'Not moved ({{count}})', { count: plan.skipped.length })}
+                </div>
+                {plan.skipped.map(skip => (
+                  <div key={skip.ticketId} className="text-xs text-muted-foreground">
+                    {skip.ticketTitle} — {skip.reason}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleApply} disabled={isPlanning || isApplying || selected.size === 0 || !plan?.moves.length}>
+            {isApplying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Zap className="h-4 w-4 mr-2" />}
+            {t('admin.workloadDashboard.rebalancePlan.apply', 'Apply {{count}} moves', { count: selected.size })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -14,6 +14,11 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { SafeTranslation } from '@/components/ui/SafeTranslation';
 import { useTranslation } from 'react-i18next';
+import { AutoClosePolicyManager } from './AutoClosePolicyManager';
+import { BusinessCalendarManager } from './BusinessCalendarManager';
+import { EscalationPolicyManager } from './EscalationPolicyManager';
+import { ScheduledJobsManager } from './ScheduledJobsManager';
+import { SLAPauseSettings } from './SLAPauseSettings';
 
 interface SLAConfig {
   priority: string;
@@ -251,6 +256,16 @@ export const SLAConfiguration = () => {
           </div>
         </CardContent>
       </Card>
+
+      <SLAPauseSettings />
+
+      <BusinessCalendarManager />
+
+      <EscalationPolicyManager />
+
+      <AutoClosePolicyManager />
+
+      <ScheduledJobsManager />
     </div>
   );
 };
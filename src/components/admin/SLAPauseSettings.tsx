@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { PauseCircle, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "@/contexts/AuthContext";
+import { SLAClockService } from "@/lib/slaClockService";
+
+// Statuses that can pause the clock; resolved/closed always stop it
+const PAUSABLE_STATUSES = [
+  { value: 'open', labelKey: 'status.open', fallback: 'Open' },
+  { value: 'pending', labelKey: 'status.pending', fallback: 'Pending' },
+  { value: 'in_progress', labelKey: 'status.inProgress', fallback: 'In Progress' },
+];
+
+export const SLAPauseSettings = () => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { userProfile } = useAuth();
+  const [pauseStatuses, setPauseStatuses] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    SLAClockService.getPauseStatuses()
+      .then(setPauseStatuses)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggleStatus = (status: string, checked: boolean) => {
+    setPauseStatuses(prev =>
+      checked ? [...prev.filter(s => s !== status), status] : prev.filter(s => s !== status)
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await SLAClockService.savePauseStatuses(pauseStatuses, userProfile?.id);
+      toast({
+        title: t('admin.slaPause.saved', 'Pause rules saved'),
+        description: t('admin.slaPause.savedDesc', 'SLA clocks pause on the selected statuses from now on.'),
+      });
+    } catch (error) {
+      console.error('Error saving SLA pause statuses:', error);
+      toast({
+        title: t('admin.slaPause.saveError', 'Error saving pause rules'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2 dark:text-gray-100">
+            <PauseCircle className="h-5 w-5" />
+            {t('admin.slaPause.title', 'SLA Pause Rules')}
+          </CardTitle>
+          <Button onClick={handleSave} size="sm" disabled={loading || saving}>
+            <Save className="h-4 w-4 mr-1" />
+            {t('admin.slaConfiguration.save', 'Save')}
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t('admin.slaPause.description', 'The SLA clock pauses while a ticket is in one of these statuses and resumes when it leaves them. Every pause and resume is recorded on the ticket.')}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-6">
+          {PAUSABLE_STATUSES.map(status => (
+            <div key={status.value} className="flex items-center gap-2">
+              <Checkbox
+                id={`sla-pause-${status.value}`}
+                checked={pauseStatuses.includes(status.value)}
+                disabled={loading}
+                onCheckedChange={checked => toggleStatus(status.value, checked === true)}
+              />
+              <Label htmlFor={`sla-pause-${status.value}`} className="dark:text-gray-200">
+                {t(status.labelKey, status.fallback)}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { CalendarClock, Loader2, Play, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import {
+  ScheduledJobService,
+  type ScheduledJob,
+  type ScheduledJobKey,
+  type ScheduledJobRun,
+  type ScheduledJobRunStatus,
+} from "@/lib/scheduledJobService";
+import { cn } from "@/lib/utils";
+
+const statusStyles: Record<ScheduledJobRunStatus, string> = {
+  running: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  succeeded: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+/**
+ * Server-side jobs (auto-close, SLA check): switch them on or off, run them
+ * now and see their recent runs
+ */
+export const ScheduledJobsManager = () => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<ScheduledJobRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState<ScheduledJobKey | null>(null);
+
+  const loadJobs = async () => {
+    try {
+      setLoading(true);
+      const [jobList, runList] = await Promise.all([
+        ScheduledJobService.getJobs(),
+        ScheduledJobService.getRuns({ limit: 10 }),
+      ]);
+      setJobs(jobList);
+      setRuns(runList);
+    } catch (error) {
+      console.error('Error loading scheduled jobs:', error);
+      setJobs([]);
+      setRuns([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  const jobName = (key: ScheduledJobKey) =>
+    t(`admin.scheduledJobs.jobs.${key}`, jobs.find(job => job.key === key)?.name || key);
+
+  const describeResult = (result: Record<string, number>) =>
+    Object.entries(result || {})
+      .map(([key, value]) => `${t(`admin.scheduledJobs.result.${key}`, key)}: ${value}`)
+      .join(' · ');
+
+  const handleToggle = async (job: ScheduledJob, enabled: boolean) => {
+    try {
+      const updated = await ScheduledJobService.setEnabled(job.key, enabled);
+      setJobs(current => current.map(item => item.key === job.key ? updated : item));
+    } catch (error) {
+      console.error('Error updating scheduled job:', error);
+      toast({
+        title: t('admin.scheduledJobs.updateError', 'Error updating scheduled job'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRunNow = async (job: ScheduledJob) => {
+    try {
+      setRunning(job.key);
+      const outcome = await ScheduledJobService.runNow(job.key);
+
+      if (outcome.status === 'skipped') {
+        toast({
+          title: t('admin.scheduledJobs.alreadyRunning', 'Job is already running'),
+          description: jobName(job.key),
+        });
+      } else if (outcome.status === 'failed') {
+        toast({
+          title: t('admin.scheduledJobs.runFailed', 'Job run failed'),
+          description: outcome.error,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: t('admin.scheduledJobs.runSucceeded', 'Job run finished'),
+          description: describeResult(outcome.result || {}) || jobName(job.key),
+        });
+      }
+
+      await loadJobs();
+    } catch (error) {
+      console.error('Error running scheduled job:', error);
+      toast({
+        title: t('admin.scheduledJobs.runFailed', 'Job run failed'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2 dark:text-gray-100">
+            <CalendarClock className="h-5 w-5" />
+            {t('admin.scheduledJobs.title', 'Scheduled Jobs')}
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={loadJobs}
+            aria-label={t('admin.scheduledJobs.refresh', 'Refresh')}
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t('admin.scheduledJobs.description', 'These jobs run on the server whether or not anyone has the app open. Only one run of a job happens at a time.')}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded animate-pulse" />
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {t('admin.scheduledJobs.empty', 'No scheduled jobs found. Apply the scheduled jobs migration first.')}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {jobs.map(job => (
+              <div key={job.key} className="border rounded-lg p-4 dark:border-gray-700">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium dark:text-gray-100">{jobName(job.key)}</span>
+                      {job.last_status && (
+                        <Badge variant="secondary" className={cn("text-xs", statusStyles[job.last_status])}>
+                          {t(`admin.scheduledJobs.status.${job.last_status}`, job.last_status)}
+                        </Badge>
+                      )}
+                    </div>
+                    {job.description && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{job.description}</p>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t('admin.scheduledJobs.every', 'Every {{minutes}} min', { minutes: job.interval_minutes })}
+                      {' · '}
+                      {job.last_run_at
+                        ? t('admin.scheduledJobs.lastRun', 'Last run {{time}}', { time: formatDistanceToNow(new Date(job.last_run_at), { addSuffix: true }) })
+                        : t('admin.scheduledJobs.neverRun', 'Never run')}
+                      {job.enabled && (
+                        <>
+                          {' · '}
+                          {t('admin.scheduledJobs.nextRun', 'Next run {{time}}', { time: formatDistanceToNow(new Date(job.next_run_at), { addSuffix: true }) })}
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`job-${job.key}`}
+                        checked={job.enabled}
+                        onCheckedChange={checked => handleToggle(job, checked)}
+                      />
+                      <label htmlFor={`job-${job.key}`} className="text-sm dark:text-gray-200">
+                        {t('admin.scheduledJobs.enabled', 'Enabled')}
+                      </label>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRunNow(job)}
+                      disabled={running !== null}
+                      className="flex items-center gap-2"
+                    >
+                      {running === job.key ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                      {t('admin.scheduledJobs.runNow', 'Run now')}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!loading && jobs.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium dark:text-gray-200">
+              {t('admin.scheduledJobs.recentRuns', 'Recent runs')}
+            </h4>
+            {runs.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                {t('admin.scheduledJobs.noRuns', 'No runs yet.')}
+              </p>
+            ) : (
+              <div className="divide-y dark:divide-gray-700">
+                {runs.map(run => (
+                  <div key={run.id} className="py-2 text-xs space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm dark:text-gray-100">{jobName(run.job_key)}</span>
+                      <Badge variant="secondary" className={cn("text-xs", statusStyles[run.status])}>
+                        {t(`admin.scheduledJobs.status.${run.status}`, run.status)}
+                      </Badge>
+                    </div>
+                    <p className="text-muted-foreground">
+                      {run.trigger === 'manual'
+                        ? t('admin.scheduledJobs.manualBy', 'Run manually by {{name}}', { name: run.user?.full_name || '—' })
+                        : t('admin.scheduledJobs.onSchedule', 'On schedule')}
+                      {' · '}
+                      {formatDistanceToNow(new Date(run.started_at), { addSuffix: true })}
+                    </p>
+                    {run.error ? (
+                      <p className="text-red-600 dark:text-red-400">{run.error}</p>
+                    ) : Object.keys(run.result || {}).length > 0 && (
+                      <p className="text-muted-foreground">{describeResult(run.result)}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,332 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tags, Plus, Pencil, Trash2, Save, Merge, Hash } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "@/contexts/AuthContext";
+import { DatabaseService, type TicketTag } from "@/lib/database";
+import { getTagBadgeStyle } from "@/components/tickets/TicketTags";
+
+interface TagDraft {
+  id?: string;
+  name: string;
+  color: string;
+  description: string;
+}
+
+const emptyDraft = (): TagDraft => ({ name: "", color: "#6B7280", description: "" });
+
+export const TagManagement = () => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { userProfile } = useAuth();
+  const [tags, setTags] = useState<TicketTag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<TagDraft | null>(null);
+  const [mergeSelection, setMergeSelection] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState<string | null>(null);
+  const [showMerge, setShowMerge] = useState(false);
+
+  const isAdmin = userProfile?.role === 'admin';
+
+  const loadTags = async () => {
+    try {
+      setLoading(true);
+      setTags(await DatabaseService.getTicketTags());
+    } catch (error) {
+      console.error('Error loading tags:', error);
+      toast({
+        title: t('admin.tagManagement.loadError', 'Error loading tags'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTags();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) return;
+
+    try {
+      setSaving(true);
+      if (draft.id) {
+        await DatabaseService.updateTag(draft.id, {
+          name: draft.name,
+          color: draft.color,
+          description: draft.description || null
+        });
+      } else {
+        await DatabaseService.createTag({
+          name: draft.name,
+          color: draft.color,
+          description: draft.description || null
+        }, userProfile?.id);
+      }
+      setDraft(null);
+      await loadTags();
+      toast({ title: t('admin.tagManagement.saved', 'Tag saved') });
+    } catch (error) {
+      toast({
+        title: t('admin.tagManagement.saveError', 'Error saving tag'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (tag: TicketTag) => {
+    const message = t('admin.tagManagement.confirmDelete', 'Delete "{{name}}"? It will be removed from {{count}} ticket(s).', {
+      name: tag.name,
+      count: tag.usage_count || 0
+    });
+    if (!window.confirm(message)) return;
+
+    try {
+      await DatabaseService.deleteTag(tag.id);
+      setMergeSelection(prev => prev.filter(id => id !== tag.id));
+      await loadTags();
+    } catch (error) {
+      toast({
+        title: t('admin.tagManagement.deleteError', 'Error deleting tag'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openMerge = () => {
+    setMergeTarget(mergeSelection[0] || null);
+    setShowMerge(true);
+  };
+
+  const handleMerge = async () => {
+    if (!mergeTarget) return;
+
+    try {
+      setSaving(true);
+      const moved = await DatabaseService.mergeTags(mergeSelection, mergeTarget);
+      const target = tags.find(tag => tag.id === mergeTarget);
+      setShowMerge(false);
+      setMergeSelection([]);
+      await loadTags();
+      toast({
+        title: t('admin.tagManagement.merged', 'Tags merged'),
+        description: t('admin.tagManagement.mergedDesc', '{{count}} ticket(s) moved to "{{name}}".', {
+          count: moved,
+          name: target?.name
+        }),
+      });
+    } catch (error) {
+      toast({
+        title: t('admin.tagManagement.mergeError', 'Error merging tags'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedForMerge = tags.filter(tag => mergeSelection.includes(tag.id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2 dark:text-gray-100">
+            <Tags className="h-5 w-5" />
+            {t('admin.tagManagement.title', 'Ticket Tags')}
+          </CardTitle>
+          <div className="flex gap-2">
+            {isAdmin && (
+              <Button variant="outline" size="sm" onClick={openMerge} disabled={mergeSelection.length < 2}>
+                <Merge className="h-4 w-4 mr-1" />
+                {t('admin.tagManagement.merge', 'Merge selected')}
+              </Button>
+            )}
+            <Button size="sm" onClick={() => setDraft(emptyDraft())}>
+              <Plus className="h-4 w-4 mr-1" />
+              {t('admin.tagManagement.add', 'New Tag')}
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t('admin.tagManagement.description', 'Tags agents can attach to tickets. Select two or more tags to merge them into one.')}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-500">{t('common.loading', 'Loading...')}</p>
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('admin.tagManagement.empty', 'No tags yet.')}</p>
+        ) : (
+          <div className="divide-y dark:divide-gray-700">
+            {tags.map(tag => (
+              <div key={tag.id} className="flex items-center gap-3 py-2">
+                {isAdmin && (
+                  <Checkbox
+                    aria-label={t('admin.tagManagement.selectForMerge', 'Select {{name}} for merge', { name: tag.name })}
+                    checked={mergeSelection.includes(tag.id)}
+                    onCheckedChange={checked => setMergeSelection(prev =>
+                      checked === true ? [...prev, tag.id] : prev.filter(id => id !== tag.id)
+                    )}
+                  />
+                )}
+                <Badge variant="outline" style={getTagBadgeStyle(tag.color)}>
+                  <Hash className="h-3 w-3 mr-1" />
+                  {tag.name}
+                </Badge>
+                <span className="flex-1 text-sm text-gray-500 truncate">{tag.description}</span>
+                <span className="text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                  {t('admin.tagManagement.usage', '{{count}} ticket(s)', { count: tag.usage_count || 0 })}
+                </span>
+                {isAdmin && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label={t('common.edit', 'Edit')}
+                      onClick={() => setDraft({
+                        id: tag.id,
+                        name: tag.name,
+                        color: tag.color,
+                        description: tag.description || ""
+                      })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label={t('common.delete', 'Delete')}
+                      onClick={() => handleDelete(tag)}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {draft?.id
+                ? t('admin.tagManagement.editTitle', 'Edit Tag')
+                : t('admin.tagManagement.add', 'New Tag')}
+            </DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="tag-name">{t('admin.tagManagement.name', 'Name')}</Label>
+                <Input
+                  id="tag-name"
+                  value={draft.name}
+                  maxLength={50}
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="tag-color">{t('admin.tagManagement.color', 'Colour')}</Label>
+                <div className="flex items-center gap-3">
+                  <Input
+                    id="tag-color"
+                    type="color"
+                    className="w-16 h-10 p-1"
+                    value={draft.color}
+                    onChange={e => setDraft({ ...draft, color: e.target.value })}
+                  />
+                  <Badge variant="outline" style={getTagBadgeStyle(draft.color)}>
+                    <Hash className="h-3 w-3 mr-1" />
+                    {draft.name.trim().toLowerCase() || t('admin.tagManagement.preview', 'preview')}
+                  </Badge>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="tag-description">{t('admin.tagManagement.descriptionLabel', 'Description')}</Label>
+                <Input
+                  id="tag-description"
+                  value={draft.description}
+                  onChange={e => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              {t('common.cancel', 'Cancel')}
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !draft?.name.trim()}>
+              <Save className="h-4 w-4 mr-1" />
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showMerge} onOpenChange={setShowMerge}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('admin.tagManagement.mergeTitle', 'Merge Tags')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {t('admin.tagManagement.mergeHelp', 'Tickets with any of the selected tags get the tag you keep; the other tags are deleted.')}
+            </p>
+            <div>
+              <Label>{t('admin.tagManagement.mergeTarget', 'Keep tag')}</Label>
+              <Select value={mergeTarget || undefined} onValueChange={setMergeTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {selectedForMerge.map(tag => (
+                    <SelectItem key={tag.id} value={tag.id}>
+                      {tag.name} ({tag.usage_count || 0})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowMerge(false)}>
+              {t('common.cancel', 'Cancel')}
+            </Button>
+            <Button onClick={handleMerge} disabled={saving || !mergeTarget}>
+              <Merge className="h-4 w-4 mr-1" />
+              {t('admin.tagManagement.mergeConfirm', 'Merge')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
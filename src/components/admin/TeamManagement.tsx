@@ -0,0 +1,536 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Crown, Layers, Pencil, Plus, Save, Trash2, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabase";
+import {
+  slugifyTeamName,
+  teamService,
+  type QueueCounts,
+  type Team,
+  type TeamRole,
+  type TicketQueue,
+} from "@/lib/teamService";
+
+// Existing teams keep their slug when renamed so rules that use it keep working
+type TeamDraft = { id?: string; slug?: string; name: string; description: string; is_active: boolean };
+type QueueDraft = Pick<TicketQueue, "team_id" | "name" | "is_default" | "sort_order" | "is_active"> & { id?: string; description: string };
+type MembersDraft = { team: Team; roles: Record<string, TeamRole> };
+
+interface AgentOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * Teams, their members and leads, and the queues each team works from.
+ * Admins manage everything; team leads manage the members and queues of
+ * their own teams.
+ */
+export const TeamManagement = () => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { userProfile } = useAuth();
+  const isAdmin = userProfile?.role === "admin";
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [agents, setAgents] = useState<AgentOption[]>([]);
+  const [counts, setCounts] = useState<Record<string, QueueCounts>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [teamDraft, setTeamDraft] = useState<TeamDraft | null>(null);
+  const [queueDraft, setQueueDraft] = useState<QueueDraft | null>(null);
+  const [membersDraft, setMembersDraft] = useState<MembersDraft | null>(null);
+
+  const leads = (team: Team) => team.members.some(member => member.user_id === userProfile?.id && member.role === "lead");
+  const visibleTeams = isAdmin ? teams : teams.filter(leads);
+
+  const loadTeams = async () => {
+    try {
+      setLoading(true);
+      const loaded = await teamService.getTeams();
+      setTeams(loaded);
+      setCounts(await teamService.getQueueCounts(loaded.flatMap(team => team.queues.map(queue => queue.id))));
+    } catch (error) {
+      console.error('Error loading teams:', error);
+      setTeams([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAgents = async () => {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, full_name, email')
+      .in('role', ['agent', 'admin'])
+      .order('full_name');
+
+    if (error) {
+      console.error('Error loading agents:', error);
+      return;
+    }
+
+    setAgents((data || []).map(user => ({ id: user.id, name: user.full_name || user.email })));
+  };
+
+  useEffect(() => {
+    loadTeams();
+    loadAgents();
+  }, []);
+
+  const runSave = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setSaving(true);
+      await action();
+      toast({ title: t('common.success', 'Success'), description: successMessage });
+      await loadTeams();
+      return true;
+    } catch (error) {
+      console.error('Error saving team settings:', error);
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('admin.teams.saveFailed', 'Failed to save changes'),
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveTeam = async () => {
+    if (!teamDraft) return;
+
+    if (!slugifyTeamName(teamDraft.name)) {
+      toast({
+        title: t('common.error'),
+        description: t('admin.teams.nameRequired', 'Team name is required.'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const saved = await runSave(
+      () => teamService.saveTeam(teamDraft),
+      t('admin.teams.teamSaved', 'Team saved')
+    );
+    if (saved) setTeamDraft(null);
+  };
+
+  const handleDeleteTeam = async (team: Team) => {
+    if (!window.confirm(t('admin.teams.confirmDelete', 'Delete team "{{name}}"? Its queues are deleted too; tickets keep their assignee.', { name: team.name }))) {
+      return;
+    }
+    await runSave(() => teamService.deleteTeam(team.id), t('admin.teams.teamDeleted', 'Team deleted'));
+  };
+
+  const handleSaveMembers = async () => {
+    if (!membersDraft) return;
+
+    const saved = await runSave(
+      () => teamService.saveMembers(
+        membersDraft.team.id,
+        Object.entries(membersDraft.roles).map(([user_id, role]) => ({ user_id, role }))
+      ),
+      t('admin.teams.membersSaved', 'Team members saved')
+    );
+    if (saved) setMembersDraft(null);
+  };
+
+  const handleSaveQueue = async () => {
+    if (!queueDraft) return;
+
+    if (!queueDraft.name.trim()) {
+      toast({
+        title: t('common.error'),
+        description: t('admin.teams.queueNameRequired', 'Queue name is required.'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const saved = await runSave(
+      () => teamService.saveQueue(queueDraft),
+      t('admin.teams.queueSaved', 'Queue saved')
+    );
+    if (saved) setQueueDraft(null);
+  };
+
+  const handleDeleteQueue = async (queue: TicketQueue) => {
+    if (!window.confirm(t('admin.teams.confirmDeleteQueue', 'Delete queue "{{name}}"? Its tickets leave the queue.', { name: queue.name }))) {
+      return;
+    }
+    await runSave(() => teamService.deleteQueue(queue.id), t('admin.teams.queueDeleted', 'Queue deleted'));
+  };
+
+  const toggleMember = (userId: string, checked: boolean) => {
+    if (!membersDraft) return;
+    const roles = { ...membersDraft.roles };
+    if (checked) {
+      roles[userId] = roles[userId] || "member";
+    } else {
+      delete roles[userId];
+    }
+    setMembersDraft({ ...membersDraft, roles });
+  };
+
+  return (
+    <Card className="dark:bg-gray-800 dark:border-gray-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2 dark:text-gray-100">
+            <Users className="h-5 w-5" />
+            {t('admin.teams.title', 'Teams & Queues')}
+          </CardTitle>
+          {isAdmin && (
+            <Button
+              onClick={() => setTeamDraft({ name: "", description: "", is_active: true })}
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              {t('admin.teams.addTeam', 'Add Team')}
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t('admin.teams.description', 'Assignment rules route tickets to a team or straight into a queue. Team members pull the next ticket from their queues.')}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-16 bg-gray-100 dark:bg-gray-800 rounded animate-pulse" />
+        ) : visibleTeams.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {isAdmin
+              ? t('admin.teams.empty', 'No teams yet.')
+              : t('admin.teams.notLead', 'You do not lead any team.')}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {visibleTeams.map(team => (
+              <div key={team.id} className="border rounded-lg p-4 space-y-3 dark:border-gray-700">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium dark:text-gray-100">{team.name}</span>
+                      <Badge variant="outline" className="font-mono text-xs">{team.slug}</Badge>
+                      {!team.is_active && (
+                        <Badge variant="outline">{t('admin.teams.inactive', 'Inactive')}</Badge>
+                      )}
+                    </div>
+                    {team.description && (
+                      <p className="text-sm text-gray-600 dark:text-gray-300">{team.description}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setMembersDraft({
+                        team,
+                        roles: Object.fromEntries(team.members.map(member => [member.user_id, member.role])),
+                      })}
+                    >
+                      <Users className="h-4 w-4 mr-2" />
+                      {t('admin.teams.members', 'Members')}
+                    </Button>
+                    {isAdmin && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setTeamDraft({
+                            id: team.id,
+                            slug: team.slug,
+                            name: team.name,
+                            description: team.description || "",
+                            is_active: team.is_active,
+                          })}
+                          aria-label={t('admin.teams.editTeam', 'Edit team')}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteTeam(team)}
+                          aria-label={t('admin.teams.deleteTeam', 'Delete team')}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {team.members.length === 0 ? (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {t('admin.teams.noMembers', 'No members')}
+                    </span>
+                  ) : team.members.map(member => (
+                    <Badge key={member.user_id} variant={member.role === "lead" ? "default" : "secondary"} className="text-xs">
+                      {member.role === "lead" && <Crown className="h-3 w-3 mr-1" />}
+                      {member.user?.full_name || member.user?.email}
+                    </Badge>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium flex items-center gap-1 dark:text-gray-200">
+                      <Layers className="h-4 w-4" />
+                      {t('admin.teams.queues', 'Queues')}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setQueueDraft({
+                        team_id: team.id,
+                        name: "",
+                        description: "",
+                        is_default: team.queues.length === 0,
+                        sort_order: team.queues.length,
+                        is_active: true,
+                      })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      {t('admin.teams.addQueue', 'Add Queue')}
+                    </Button>
+                  </div>
+                  {team.queues.length === 0 ? (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t('admin.teams.noQueues', 'No queues. Team rules can only assign to members that are on duty.')}
+                    </p>
+                  ) : team.queues.map(queue => (
+                    <div key={queue.id} className="flex items-center justify-between rounded border px-3 py-2 dark:border-gray-700">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-sm dark:text-gray-100">{queue.name}</span>
+                        {queue.is_default && (
+                          <Badge variant="secondary" className="text-xs">{t('admin.teams.defaultQueue', 'Default')}</Badge>
+                        )}
+                        {!queue.is_active && (
+                          <Badge variant="outline" className="text-xs">{t('admin.teams.inactive', 'Inactive')}</Badge>
+                        )}
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {t('admin.teams.queueCounts', '{{unassigned}} waiting, {{active}} active', {
+                            unassigned: counts[queue.id]?.unassigned ?? 0,
+                            active: counts[queue.id]?.active ?? 0,
+                          })}
+                        </span>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setQueueDraft({ ...queue, description: queue.description || "" })}
+                          aria-label={t('admin.teams.editQueue', 'Edit queue')}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteQueue(queue)}
+                          aria-label={t('admin.teams.deleteQueue', 'Delete queue')}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Team dialog */}
+      <Dialog open={!!teamDraft} onOpenChange={open => !open && setTeamDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {teamDraft?.id ? t('admin.teams.editTeam', 'Edit team') : t('admin.teams.addTeam', 'Add Team')}
+            </DialogTitle>
+          </DialogHeader>
+          {teamDraft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="team-name">{t('admin.teams.name', 'Name')}</Label>
+                <Input
+                  id="team-name"
+                  value={teamDraft.name}
+                  onChange={e => setTeamDraft({ ...teamDraft, name: e.target.value })}
+                />
+                {!teamDraft.id && teamDraft.name && (
+                  <p className="text-xs text-muted-foreground">
+                    {t('admin.teams.slugHint', 'Assignment rules refer to this team as "{{slug}}"', { slug: slugifyTeamName(teamDraft.name) })}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="team-description">{t('admin.teams.teamDescription', 'Description')}</Label>
+                <Textarea
+                  id="team-description"
+                  value={teamDraft.description}
+                  onChange={e => setTeamDraft({ ...teamDraft, description: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="team-active"
+                  checked={teamDraft.is_active}
+                  onCheckedChange={checked => setTeamDraft({ ...teamDraft, is_active: checked })}
+                />
+                <Label htmlFor="team-active">{t('admin.teams.active', 'Active')}</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTeamDraft(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSaveTeam} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Members dialog */}
+      <Dialog open={!!membersDraft} onOpenChange={open => !open && setMembersDraft(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {t('admin.teams.membersOf', 'Members of {{name}}', { name: membersDraft?.team.name })}
+            </DialogTitle>
+          </DialogHeader>
+          {membersDraft && (
+            <div className="space-y-2">
+              {agents.map(agent => {
+                const role = membersDraft.roles[agent.id];
+                return (
+                  <div key={agent.id} className="flex items-center justify-between rounded border px-3 py-2 dark:border-gray-700">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`member-${agent.id}`}
+                        checked={!!role}
+                        onCheckedChange={checked => toggleMember(agent.id, checked === true)}
+                      />
+                      <Label htmlFor={`member-${agent.id}`}>{agent.name}</Label>
+                    </div>
+                    {role && (
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`lead-${agent.id}`}
+                          checked={role === "lead"}
+                          onCheckedChange={checked => setMembersDraft({
+                            ...membersDraft,
+                            roles: { ...membersDraft.roles, [agent.id]: checked ? "lead" : "member" },
+                          })}
+                        />
+                        <Label htmlFor={`lead-${agent.id}`} className="text-xs">{t('admin.teams.lead', 'Lead')}</Label>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMembersDraft(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSaveMembers} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Queue dialog */}
+      <Dialog open={!!queueDraft} onOpenChange={open => !open && setQueueDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {queueDraft?.id ? t('admin.teams.editQueue', 'Edit queue') : t('admin.teams.addQueue', 'Add Queue')}
+            </DialogTitle>
+          </DialogHeader>
+          {queueDraft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="queue-name">{t('admin.teams.name', 'Name')}</Label>
+                <Input
+                  id="queue-name"
+                  value={queueDraft.name}
+                  onChange={e => setQueueDraft({ ...queueDraft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="queue-description">{t('admin.teams.teamDescription', 'Description')}</Label>
+                <Textarea
+                  id="queue-description"
+                  value={queueDraft.description}
+                  onChange={e => setQueueDraft({ ...queueDraft, description: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="queue-order">{t('admin.teams.sortOrder', 'Sort order')}</Label>
+                <Input
+                  id="queue-order"
+                  type="number"
+                  value={queueDraft.sort_order}
+                  onChange={e => setQueueDraft({ ...queueDraft, sort_order: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="flex items-center gap-6">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="queue-default"
+                    checked={queueDraft.is_default}
+                    onCheckedChange={checked => setQueueDraft({ ...queueDraft, is_default: checked })}
+                  />
+                  <Label htmlFor="queue-default">{t('admin.teams.defaultQueue', 'Default')}</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="queue-active"
+                    checked={queueDraft.is_active}
+                    onCheckedChange={checked => setQueueDraft({ ...queueDraft, is_active: checked })}
+                  />
+                  <Label htmlFor="queue-active">{t('admin.teams.active', 'Active')}</Label>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t('admin.teams.defaultQueueHint', 'Team rules park tickets in the default queue when no member is on duty.')}
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setQueueDraft(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSaveQueue} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -21,20 +21,30 @@ import {
   Loader2,
   Target,
   Award,
-  BookOpen
+  BookOpen,
+  CalendarClock,
+  Plane,
+  History,
+  Undo2
 } from 'lucide-react';
-import { assignmentService, type AgentMetrics } from '@/lib/assignmentService';
+import { format, formatDistanceToNow } from 'date-fns';
+import { assignmentService, type AgentMetrics, type RebalanceBatch } from '@/lib/assignmentService';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { SafeTranslation } from '@/components/ui/SafeTranslation';
 import { useTranslation } from 'react-i18next';
+import { AgentScheduleDialog } from './AgentScheduleDialog';
+import { RebalancePlanDialog } from './RebalancePlanDialog';
 
 export const WorkloadDashboard = () => {
   const [agents, setAgents] = useState<AgentMetrics[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [isRebalancing, setIsRebalancing] = useState(false);
+  const [isPlanOpen, setIsPlanOpen] = useState(false);
+  const [batches, setBatches] = useState<RebalanceBatch[]>([]);
+  const [undoingBatchId, setUndoingBatchId] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
   const [error, setError] = useState<string | null>(null);
+  const [scheduleAgent, setScheduleAgent] = useState<AgentMetrics | null>(null);
   
   const { toast } = useToast();
   const { userProfile } = useAuth();
@@ -51,8 +61,12 @@ export const WorkloadDashboard = () => {
   const loadWorkloadData = async () => {
     try {
       setError(null);
-      const agentMetrics = await assignmentService.getAvailableAgents();
+      const [agentMetrics, rebalanceBatches] = await Promise.all([
+        assignmentService.getAvailableAgents({ includeOffline: true }),
+        assignmentService.getRebalanceBatches().catch(() => [] as RebalanceBatch[]),
+      ]);
       setAgents(agentMetrics);
+      setBatches(rebalanceBatches);
       setLastUpdated(new Date());
     } catch (err) {
       console.error('Error loading workload data:', err);
@@ -62,34 +76,23 @@ export const WorkloadDashboard = () => {
     }
   };
 
-  const handleRebalance = async () => {
-    setIsRebalancing(true);
+  const handleUndoRebalance = async (batchId: string) => {
+    setUndoingBatchId(batchId);
     try {
-      const result = await assignmentService.rebalanceWorkload();
-      
-      if (result.success) {
-        toast({
-          title: t('admin.workloadDashboard.workloadRebalanced'),
-          description: result.message,
-        });
-        
-        // Refresh data after rebalancing
-        await loadWorkloadData();
-      } else {
-        toast({
-          title: t('admin.workloadDashboard.rebalancingFailed'),
-          description: result.message,
-          variant: "destructive",
-        });
-      }
+      const undone = await assignmentService.undoRebalance(batchId);
+      toast({
+        title: t('admin.workloadDashboard.rebalanceHistory.undone', 'Rebalance undone'),
+        description: t('admin.workloadDashboard.rebalanceHistory.undoneDesc', '{{count}} tickets returned to their previous agents.', { count: undone }),
+      });
+      await loadWorkloadData();
     } catch (err) {
       toast({
         title: t('common.error'),
-        description: t('admin.workloadDashboard.rebalancingError'),
+        description: t('admin.workloadDashboard.rebalanceHistory.undoFailed', 'Failed to undo the rebalance'),
         variant: "destructive",
       });
     } finally {
-      setIsRebalancing(false);
+      setUndoingBatchId(null);
     }
   };
 
@@ -137,7 +140,9 @@ export const WorkloadDashboard = () => {
     const totalTickets = agents.reduce((sum, agent) => sum + agent.currentWorkload, 0);
     const totalCapacity = agents.reduce((sum, agent) => sum + agent.maxConcurrentTickets, 0);
     const averageUtilization = totalCapacity > 0 ? (totalTickets / totalCapacity) * 100 : 0;
-    const availableAgents = agents.filter(agent => agent.availability === 'available').length;
+    const availableAgents = agents.filter(agent =>
+      agent.availability === 'available' && agent.onShift && !agent.outOfOffice
+    ).length;
     
     return { totalTickets, averageUtilization, availableAgents };
   };
@@ -172,12 +177,8 @@ export const WorkloadDashboard = () => {
             <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
             <SafeTranslation i18nKey="admin.workloadDashboard.refresh" fallback="Refresh" />
           </Button>
-          <Button onClick={handleRebalance} disabled={isRebalancing || agents.length < 2}>
-            {isRebalancing ? (
-              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-            ) : (
-              <Zap className="h-4 w-4 mr-2" />
-            )}
+          <Button onClick={() => setIsPlanOpen(true)} disabled={agents.length < 2}>
+            <Zap className="h-4 w-4 mr-2" />
             <SafeTranslation i18nKey="admin.workloadDashboard.rebalance" fallback="Rebalance" />
           </Button>
         </div>
@@ -252,6 +253,9 @@ export const WorkloadDashboard = () => {
           <TabsTrigger value="categories">
             <SafeTranslation i18nKey="admin.workloadDashboard.categories" fallback="Category Expertise" />
           </TabsTrigger>
+          <TabsTrigger value="rebalances">
+            <SafeTranslation i18nKey="admin.workloadDashboard.rebalanceHistory.title" fallback="Rebalance History" />
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -298,13 +302,47 @@ export const WorkloadDashboard = () => {
                             </Badge>
                           </div>
                           
-                          <div className={`flex items-center gap-1 text-sm mb-3 ${getAvailabilityColor(agent.availability)}`}>
+                          <div className={`flex items-center gap-1 text-sm mb-2 ${getAvailabilityColor(agent.availability)}`}>
                             {getAvailabilityIcon(agent.availability)}
-                            <span className="capitalize">{agent.availability}</span>
+                            <span>{t(`admin.workloadDashboard.${agent.availability}`)}</span>
+                            {agent.manualStatus && (
+                              <span className="text-xs text-muted-foreground">
+                                (<SafeTranslation i18nKey="admin.workloadDashboard.setManually" fallback="set manually" />)
+                              </span>
+                            )}
                             <span className="text-muted-foreground ml-2">
                               {agent.email}
                             </span>
                           </div>
+
+                          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mb-3">
+                            <span>
+                              {agent.lastActivity
+                                ? t('admin.workloadDashboard.lastActive', 'Last active {{time}}', {
+                                    time: formatDistanceToNow(agent.lastActivity, { addSuffix: true })
+                                  })
+                                : t('admin.workloadDashboard.neverActive', 'No activity yet')}
+                            </span>
+                            <Badge variant={agent.onShift ? 'secondary' : 'outline'} className="text-xs">
+                              <CalendarClock className="h-3 w-3 mr-1" />
+                              {agent.onShift
+                                ? t('admin.workloadDashboard.onShift', 'On shift')
+                                : t('admin.workloadDashboard.offShift', 'Off shift')}
+                              {agent.workingHours && ` · ${agent.workingHours.start}–${agent.workingHours.end} (${agent.workingHours.timezone})`}
+                            </Badge>
+                            {agent.outOfOffice && (
+                              <Badge variant="destructive" className="text-xs">
+                                <Plane className="h-3 w-3 mr-1" />
+                                {t('admin.workloadDashboard.outOfOfficeUntil', 'Out of office until {{date}}', {
+                                  date: format(new Date(agent.outOfOffice.ends_at), 'PPp')
+                                })}
+                                {agent.outOfOffice.reason && ` — ${agent.outOfOffice.reason}`}
+                              </Badge>
+                            )}
+                            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setScheduleAgent(agent)}>
+                              <SafeTranslation i18nKey="admin.workloadDashboard.editSchedule" fallback="Schedule" />
+                            </Button>
+                          </div>
                           
                           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                             <div>
@@ -540,8 +578,80 @@ export const WorkloadDashboard = () => {
             })}
           </div>
         </TabsContent>
+
+        <TabsContent value="rebalances" className="space-y-4">
+          {batches.length === 0 ? (
+            <Alert>
+              <History className="h-4 w-4" />
+              <AlertDescription>
+                <SafeTranslation i18nKey="admin.workloadDashboard.rebalanceHistory.empty" fallback="No rebalances yet." />
+              </AlertDescription>
+            </Alert>
+          ) : (
+            batches.map((batch) => (
+              <Card key={batch.id}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <div>
+                    <CardTitle className="text-sm font-medium">
+                      {format(new Date(batch.created_at), 'PPp')}
+                      {batch.creator && ` · ${batch.creator.full_name || batch.creator.email}`}
+                    </CardTitle>
+                    <p className="text-xs text-muted-foreground">
+                      {t('admin.workloadDashboard.rebalanceHistory.summary', '{{applied}} of {{planned}} moves applied', {
+                        applied: batch.applied_count,
+                        planned: batch.planned_count
+                      })}
+                    </p>
+                  </div>
+                  {batch.undone_at ? (
+                    <Badge variant="outline">
+                      {t('admin.workloadDashboard.rebalanceHistory.undoneAt', 'Undone {{time}}', { time: format(new Date(batch.undone_at), 'PPp') })}
+                    </Badge>
+                  ) : batch.applied_count > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleUndoRebalance(batch.id)}
+                      disabled={undoingBatchId === batch.id}
+                    >
+                      {undoingBatchId === batch.id
+                        ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        : <Undo2 className="h-4 w-4 mr-2" />}
+                      <SafeTranslation i18nKey="admin.workloadDashboard.rebalanceHistory.undo" fallback="Undo" />
+                    </Button>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  {batch.moves.map((move) => (
+                    <div key={move.id} className="flex items-center justify-between text-sm">
+                      <span className="truncate">
+                        {move.ticket?.ticket_number} {move.ticket?.title}: {move.from_agent?.full_name || move.from_agent?.email} → {move.to_agent?.full_name || move.to_agent?.email}
+                      </span>
+                      <Badge variant="secondary" className="text-xs ml-2">
+                        {t(`admin.workloadDashboard.rebalanceHistory.status.${move.status}`, move.status)}
+                      </Badge>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
       </Tabs>
 
+      <RebalancePlanDialog
+        open={isPlanOpen}
+        onOpenChange={setIsPlanOpen}
+        onApplied={loadWorkloadData}
+      />
+
+      <AgentScheduleDialog
+        agent={scheduleAgent}
+        open={!!scheduleAgent}
+        onOpenChange={(open) => !open && setScheduleAgent(null)}
+        onSaved={loadWorkloadData}
+      />
+
       {/* Last Updated */}
       <div className="text-center text-sm text-muted-foreground">
         <SafeTranslation 
@@ -24,6 +24,9 @@ import {
   FolderOpen,
   ChevronRight,
   Target,
+  Layers,
+  Mail,
+  MessageSquareText,
 } from "lucide-react";
 import {
   Sidebar,
@@ -291,6 +294,24 @@ export function AppSidebar({ userRole, activeTab, onTabChange, onCreateTicket }:
         type: "regular" as const,
         roles: ["agent", "admin"]
       },
+      {
+        // Team leads manage their own teams; admins find this under administration
+        title: t('sidebar.myTeams'),
+        tab: "teams",
+        icon: Layers,
+        count: null,
+        type: "regular" as const,
+        roles: ["agent"]
+      },
+      {
+        // Admins find this under administration
+        title: t('sidebar.cannedResponses'),
+        tab: "canned-responses",
+        icon: MessageSquareText,
+        count: null,
+        type: "regular" as const,
+        roles: ["agent"]
+      },
       {
         title: t('sidebar.knowledgeBase'),
         tab: "knowledge",
@@ -365,6 +386,13 @@ export function AppSidebar({ userRole, activeTab, onTabChange, onCreateTicket }:
             count: null,
             roles: ["admin"]
           },
+          {
+            title: t('sidebar.teams'),
+            tab: "teams",
+            icon: Layers,
+            count: null,
+            roles: ["admin"]
+          },
           {
             title: t('sidebar.categoryExpertise'),
             tab: "category-expertise",
@@ -372,6 +400,20 @@ export function AppSidebar({ userRole, activeTab, onTabChange, onCreateTicket }:
             count: null,
             roles: ["admin"]
           },
+          {
+            title: t('sidebar.emailTemplates'),
+            tab: "email-templates",
+            icon: Mail,
+            count: null,
+            roles: ["admin"]
+          },
+          {
+            title: t('sidebar.cannedResponses'),
+            tab: "canned-responses",
+            icon: MessageSquareText,
+            count: null,
+            roles: ["admin"]
+          },
           {
             title: t('sidebar.integrations'),
             tab: "integrations",
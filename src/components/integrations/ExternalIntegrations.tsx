@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   Slack, 
   Mail, 
@@ -14,9 +15,14 @@ import {
   Settings,
   CheckCircle,
   AlertCircle,
-  Send,
-  Zap
+  Send
 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { SlackNotifierService } from "@/lib/slackNotifierService";
+import type { WebhookEndpoint } from "@/lib/webhookService";
+import { WebhookManagement } from "./WebhookManagement";
+import { SlackIntegration } from "./SlackIntegration";
 
 interface Integration {
   id: string;
@@ -34,24 +40,24 @@ interface ExternalIntegrationsProps {
 
 export const ExternalIntegrations = ({ onIntegrationToggle }: ExternalIntegrationsProps) => {
   const { t } = useTranslation();
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
   const [integrations, setIntegrations] = useState<Integration[]>(() => [
     {
       id: "slack",
       name: "Slack",
       icon: Slack,
-      status: "connected",
+      status: "disconnected",
       description: t('integrations.slackDescription'),
-      lastSync: "2024-06-05T16:30:00Z",
-      config: { channel: "#support", webhook: "https://hooks.slack.com/..." }
+      config: { channel: "", webhook: "" }
     },
     {
       id: "email",
       name: "Email",
       icon: Mail,
-      status: "connected", 
+      status: "disconnected",
       description: t('integrations.emailDescription'),
-      lastSync: "2024-06-05T16:25:00Z",
-      config: { smtp: "smtp.gmail.com", port: 587 }
+      config: { smtp: "", port: 587 }
     },
     {
       id: "whatsapp",
@@ -60,21 +66,59 @@ export const ExternalIntegrations = ({ onIntegrationToggle }: ExternalIntegratio
       status: "disconnected",
       description: t('integrations.whatsappDescription'),
       config: { apiKey: "", phoneNumberId: "" }
-    },
-    {
-      id: "zapier",
-      name: "Zapier",
-      icon: Zap,
-      status: "error",
-      description: t('integrations.zapierDescription'),
-      config: { webhookUrl: "" }
     }
   ]);
 
   const [selectedIntegration, setSelectedIntegration] = useState<string | null>(null);
   const [testMessage, setTestMessage] = useState("");
+  const [slackChannels, setSlackChannels] = useState<WebhookEndpoint[]>([]);
+  const [testChannelId, setTestChannelId] = useState("");
+  const [testing, setTesting] = useState(false);
+
+  // The Slack card reflects the configured channels and their last delivery
+  const handleSlackChannelsChange = (channels: WebhookEndpoint[]) => {
+    setSlackChannels(channels);
+    setTestChannelId(prev => channels.some(channel => channel.id === prev) ? prev : channels[0]?.id || "");
+
+    const lastDelivery = channels
+      .filter(channel => channel.last_delivery_at)
+      .sort((a, b) => (b.last_delivery_at || '').localeCompare(a.last_delivery_at || ''))[0];
+
+    setIntegrations(prev => prev.map(integration =>
+      integration.id === "slack"
+        ? {
+            ...integration,
+            status: !channels.some(channel => channel.is_active)
+              ? "disconnected"
+              : lastDelivery?.last_delivery_status === "failed" ? "error" : "connected",
+            lastSync: lastDelivery?.last_delivery_at || undefined
+          }
+        : integration
+    ));
+  };
+
+  useEffect(() => {
+    if (userProfile?.role !== 'admin') return;
+
+    SlackNotifierService.getChannels()
+      .then(handleSlackChannelsChange)
+      .catch(error => console.error('Error loading Slack channels:', error));
+  }, [userProfile?.role]);
+
+  const handleToggleIntegration = async (integrationId: string) => {
+    if (integrationId === "slack") {
+      // Switching Slack on or off applies to every configured channel
+      const enable = !slackChannels.some(channel => channel.is_active);
+      try {
+        await Promise.all(slackChannels.map(channel => SlackNotifierService.saveChannel({ ...channel, is_active: enable })));
+        handleSlackChannelsChange(await SlackNotifierService.getChannels());
+        onIntegrationToggle?.(integrationId, enable);
+      } catch (error) {
+        console.error('Error toggling Slack channels:', error);
+      }
+      return;
+    }
 
-  const handleToggleIntegration = (integrationId: string) => {
     setIntegrations(prev => prev.map(integration => 
       integration.id === integrationId 
         ? { 
@@ -97,6 +141,33 @@ export const ExternalIntegrations = ({ onIntegrationToggle }: ExternalIntegratio
   };
 
   const handleTestIntegration = async (integrationId: string) => {
+    if (integrationId === "slack") {
+      try {
+        setTesting(true);
+        const result = await SlackNotifierService.sendTestMessage(testChannelId, testMessage);
+        if (result.succeeded > 0) {
+          toast({ title: t('integrations.slack.testSent', 'Test message posted to Slack') });
+        } else {
+          toast({
+            title: t('integrations.slack.testFailed', 'Slack did not accept the test message'),
+            description: t('integrations.slack.testFailedHint', 'Check the delivery log in Outbound webhooks for the response.'),
+            variant: "destructive",
+          });
+        }
+        setTestMessage("");
+      } catch (error) {
+        toast({
+          title: t('integrations.slack.testFailed', 'Slack did not accept the test message'),
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+      } finally {
+        setTesting(false);
+        handleSlackChannelsChange(await SlackNotifierService.getChannels().catch(() => slackChannels));
+      }
+      return;
+    }
+
     console.log(`Testing integration ${integrationId} with message:`, testMessage);
     
     // Simular teste de integração
@@ -144,6 +215,9 @@ export const ExternalIntegrations = ({ onIntegrationToggle }: ExternalIntegratio
 
   return (
     <div className="space-y-6">
+      {/* Outbound webhooks (Zapier and similar catch hooks register here) */}
+      {userProfile?.role === 'admin' && <WebhookManagement />}
+
       {/* Integrations List */}
       <Card>
         <CardHeader>
@@ -213,24 +287,7 @@ export const ExternalIntegrations = ({ onIntegrationToggle }: ExternalIntegratio
           <CardContent className="space-y-4">
             {/* Slack Configuration */}
             {selectedIntegration === "slack" && (
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium mb-2">{t('integrations.webhookUrl')}</label>
-                  <Input
-                    value={selectedIntegrationData.config?.webhook || ""}
-                    onChange={(e) => handleConfigUpdate("slack", { webhook: e.target.value })}
-                    placeholder="https://hooks.slack.com/services/..."
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium mb-2">{t('integrations.channel')}</label>
-                  <Input
-                    value={selectedIntegrationData.config?.channel || ""}
-                    onChange={(e) => handleConfigUpdate("slack", { channel: e.target.value })}
-                    placeholder={t('integrations.channelPlaceholder')}
-                  />
-                </div>
-              </div>
+              <SlackIntegration onChannelsChange={handleSlackChannelsChange} />
             )}
 
             {/* Email Configuration */}
@@ -290,29 +347,22 @@ export const ExternalIntegrations = ({ onIntegrationToggle }: ExternalIntegratio
               </div>
             )}
 
-            {/* Zapier Configuration */}
-            {selectedIntegration === "zapier" && (
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium mb-2">{t('integrations.webhookUrl')}</label>
-                  <Input
-                    value={selectedIntegrationData.config?.webhookUrl || ""}
-                    onChange={(e) => handleConfigUpdate("zapier", { webhookUrl: e.target.value })}
-                    placeholder="https://hooks.zapier.com/hooks/catch/..."
-                  />
-                </div>
-                <div className="p-3 bg-blue-50 rounded-lg">
-                  <p className="text-sm text-blue-800">
-                    {t('integrations.zapierHelp')}
-                  </p>
-                </div>
-              </div>
-            )}
-
             {/* Test Section */}
             <div className="border-t pt-4">
               <label className="block text-sm font-medium mb-2">{t('integrations.testIntegration')}</label>
               <div className="space-y-2">
+                {selectedIntegration === "slack" && (
+                  <Select value={testChannelId} onValueChange={setTestChannelId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={t('integrations.slack.testChannel', 'Channel')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {slackChannels.map(channel => (
+                        <SelectItem key={channel.id} value={channel.id}>{channel.channel || channel.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <Textarea
                   value={testMessage}
                   onChange={(e) => setTestMessage(e.target.value)}
@@ -321,7 +371,7 @@ export const ExternalIntegrations = ({ onIntegrationToggle }: ExternalIntegratio
                 />
                 <Button
                   onClick={() => handleTestIntegration(selectedIntegration)}
-                  disabled={!testMessage.trim()}
+                  disabled={!testMessage.trim() || testing || (selectedIntegration === "slack" && !testChannelId)}
                   className="w-full"
                 >
                   <Send className="h-4 w-4 mr-2" />
@@ -0,0 +1,392 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Pencil, Trash2, Save, ArrowUp, ArrowDown, Hash, Route } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { DatabaseService } from "@/lib/database";
+import { WebhookService, WEBHOOK_EVENT_TYPES, type WebhookEndpoint, type WebhookEventType } from "@/lib/webhookService";
+import { SlackNotifierService, type SlackRoutingRule, type SlackRoutingRuleInput } from "@/lib/slackNotifierService";
+
+interface ChannelDraft {
+  id?: string;
+  name: string;
+  channel: string;
+  url: string;
+  events: WebhookEventType[];
+  is_active: boolean;
+}
+
+interface SlackIntegrationProps {
+  onChannelsChange?: (channels: WebhookEndpoint[]) => void;
+}
+
+const PRIORITIES = ['urgent', 'high', 'medium', 'low'];
+
+const emptyChannel = (): ChannelDraft => ({
+  name: "",
+  channel: "",
+  url: "",
+  events: [...WEBHOOK_EVENT_TYPES],
+  is_active: true
+});
+
+export const SlackIntegration = ({ onChannelsChange }: SlackIntegrationProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { userProfile } = useAuth();
+  const [channels, setChannels] = useState<WebhookEndpoint[]>([]);
+  const [rules, setRules] = useState<SlackRoutingRule[]>([]);
+  const [categories, setCategories] = useState<Array<{ id: string; name: string }>>([]);
+  const [channelDraft, setChannelDraft] = useState<ChannelDraft | null>(null);
+  const [ruleDraft, setRuleDraft] = useState<SlackRoutingRuleInput | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const loadData = async () => {
+    try {
+      const [loadedChannels, loadedRules] = await Promise.all([
+        SlackNotifierService.getChannels(),
+        SlackNotifierService.getRoutingRules()
+      ]);
+      setChannels(loadedChannels);
+      setRules(loadedRules);
+      onChannelsChange?.(loadedChannels);
+    } catch (error) {
+      console.error('Error loading Slack settings:', error);
+      showError(t('integrations.slack.loadError', 'Error loading Slack settings'), error);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+    DatabaseService.getCategories()
+      .then(loaded => setCategories(loaded.map(category => ({ id: category.id, name: category.name }))))
+      .catch(() => setCategories([]));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleSaveChannel = async () => {
+    if (!channelDraft) return;
+
+    try {
+      setSaving(true);
+      await SlackNotifierService.saveChannel(channelDraft, userProfile?.id);
+      setChannelDraft(null);
+      await loadData();
+    } catch (error) {
+      showError(t('integrations.slack.saveError', 'Could not save the Slack settings'), error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRule = async () => {
+    if (!ruleDraft) return;
+
+    try {
+      setSaving(true);
+      await SlackNotifierService.saveRoutingRule(ruleDraft);
+      setRuleDraft(null);
+      await loadData();
+    } catch (error) {
+      showError(t('integrations.slack.saveError', 'Could not save the Slack settings'), error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteChannel = async (channel: WebhookEndpoint) => {
+    if (!confirm(t('integrations.slack.confirmDeleteChannel', { name: channel.name, defaultValue: 'Delete "{{name}}" and its routing rules?' }))) {
+      return;
+    }
+
+    try {
+      await WebhookService.deleteEndpoint(channel.id);
+      await loadData();
+    } catch (error) {
+      showError(t('integrations.slack.saveError', 'Could not save the Slack settings'), error);
+    }
+  };
+
+  const handleDeleteRule = async (rule: SlackRoutingRule) => {
+    try {
+      await SlackNotifierService.deleteRoutingRule(rule.id);
+      await loadData();
+    } catch (error) {
+      showError(t('integrations.slack.saveError', 'Could not save the Slack settings'), error);
+    }
+  };
+
+  const handleMoveRule = async (rule: SlackRoutingRule, direction: -1 | 1) => {
+    try {
+      setRules(await SlackNotifierService.moveRoutingRule(rules, rule.id, direction));
+    } catch (error) {
+      showError(t('integrations.slack.saveError', 'Could not save the Slack settings'), error);
+      await loadData();
+    }
+  };
+
+  const channelNames = new Map(channels.map(channel => [channel.id, channel.channel || channel.name]));
+  const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+
+  return (
+    <div className="space-y-6">
+      {/* Channels */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label className="flex items-center gap-2"><Hash className="h-4 w-4" />{t('integrations.slack.channels', 'Channels')}</Label>
+          <Button size="sm" variant="outline" onClick={() => setChannelDraft(emptyChannel())}>
+            <Plus className="h-4 w-4 mr-1" />
+            {t('integrations.slack.addChannel', 'Add channel')}
+          </Button>
+        </div>
+        {channels.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            {t('integrations.slack.noChannels', 'Create an incoming webhook in Slack for each channel and add its URL here.')}
+          </p>
+        ) : (
+          channels.map(channel => (
+            <div key={channel.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="min-w-0">
+                <div className="font-medium">{channel.name} {channel.channel && <span className="text-gray-500">{channel.channel}</span>}</div>
+                <div className="text-xs text-gray-500 truncate">{channel.url}</div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setChannelDraft({
+                    id: channel.id,
+                    name: channel.name,
+                    channel: channel.channel || "",
+                    url: channel.url,
+                    events: channel.events,
+                    is_active: channel.is_active
+                  })}
+                  title={t('common.edit')}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleDeleteChannel(channel)} title={t('common.delete')}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Switch
+                  checked={channel.is_active}
+                  onCheckedChange={async (checked) => {
+                    try {
+                      await SlackNotifierService.saveChannel({ ...channel, is_active: checked });
+                      await loadData();
+                    } catch (error) {
+                      showError(t('integrations.slack.saveError', 'Could not save the Slack settings'), error);
+                    }
+                  }}
+                />
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Routing rules */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label className="flex items-center gap-2"><Route className="h-4 w-4" />{t('integrations.slack.routing', 'Routing rules')}</Label>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={channels.length === 0}
+            onClick={() => setRuleDraft({ endpoint_id: channels[0]?.id || "", category_id: null, priorities: [], is_active: true })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {t('integrations.slack.addRule', 'Add rule')}
+          </Button>
+        </div>
+        <p className="text-xs text-gray-600">
+          {t('integrations.slack.routingHelp', 'Rules are checked from top to bottom and the first match picks the channel. Add a rule for any category and priority at the end as the fallback; tickets that match no rule are not posted.')}
+        </p>
+        {rules.map((rule, index) => (
+          <div key={rule.id} className="flex items-center justify-between p-3 border rounded-lg">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-500">{index + 1}.</span>
+              <Badge variant="outline">{rule.category_id ? categoryNames.get(rule.category_id) || '—' : t('integrations.slack.anyCategory', 'Any category')}</Badge>
+              <Badge variant="outline">
+                {rule.priorities.length > 0
+                  ? rule.priorities.map(priority => t(`priority.${priority}`)).join(', ')
+                  : t('integrations.slack.anyPriority', 'Any priority')}
+              </Badge>
+              <span>→</span>
+              <span className="font-medium">{channelNames.get(rule.endpoint_id) || '—'}</span>
+              {!rule.is_active && <Badge variant="secondary">{t('integrations.status.disconnected')}</Badge>}
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button size="sm" variant="ghost" disabled={index === 0} onClick={() => handleMoveRule(rule, -1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" disabled={index === rules.length - 1} onClick={() => handleMoveRule(rule, 1)}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setRuleDraft(rule)} title={t('common.edit')}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => handleDeleteRule(rule)} title={t('common.delete')}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Channel dialog */}
+      <Dialog open={channelDraft !== null} onOpenChange={(open) => !open && setChannelDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{channelDraft?.id ? t('integrations.slack.editChannel', 'Edit channel') : t('integrations.slack.addChannel', 'Add channel')}</DialogTitle>
+          </DialogHeader>
+          {channelDraft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="slack-name">{t('integrations.webhooks.name', 'Name')}</Label>
+                  <Input id="slack-name" value={channelDraft.name} onChange={(e) => setChannelDraft({ ...channelDraft, name: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="slack-channel">{t('integrations.channel')}</Label>
+                  <Input
+                    id="slack-channel"
+                    value={channelDraft.channel}
+                    placeholder={t('integrations.channelPlaceholder')}
+                    onChange={(e) => setChannelDraft({ ...channelDraft, channel: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="slack-url">{t('integrations.webhookUrl')}</Label>
+                <Input
+                  id="slack-url"
+                  value={channelDraft.url}
+                  placeholder="https://hooks.slack.com/services/..."
+                  onChange={(e) => setChannelDraft({ ...channelDraft, url: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>{t('integrations.webhooks.events', 'Events')}</Label>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {WEBHOOK_EVENT_TYPES.map(event => (
+                    <label key={event} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={channelDraft.events.includes(event)}
+                        onCheckedChange={(checked) => setChannelDraft({
+                          ...channelDraft,
+                          events: checked ? [...channelDraft.events, event] : channelDraft.events.filter(value => value !== event)
+                        })}
+                      />
+                      {t(`integrations.webhooks.eventTypes.${event.replace('.', '_')}`, event)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setChannelDraft(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSaveChannel} disabled={saving || !channelDraft?.name.trim() || !channelDraft?.url.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rule dialog */}
+      <Dialog open={ruleDraft !== null} onOpenChange={(open) => !open && setRuleDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{t('integrations.slack.routing', 'Routing rules')}</DialogTitle>
+          </DialogHeader>
+          {ruleDraft && (
+            <div className="space-y-4">
+              <div>
+                <Label>{t('reports.category')}</Label>
+                <Select
+                  value={ruleDraft.category_id || "any"}
+                  onValueChange={(value) => setRuleDraft({ ...ruleDraft, category_id: value === "any" ? null : value })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">{t('integrations.slack.anyCategory', 'Any category')}</SelectItem>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{t('reports.priority')}</Label>
+                <div className="flex flex-wrap gap-3 mt-2">
+                  {PRIORITIES.map(priority => (
+                    <label key={priority} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={ruleDraft.priorities.includes(priority)}
+                        onCheckedChange={(checked) => setRuleDraft({
+                          ...ruleDraft,
+                          priorities: checked
+                            ? [...ruleDraft.priorities, priority]
+                            : ruleDraft.priorities.filter(value => value !== priority)
+                        })}
+                      />
+                      {t(`priority.${priority}`)}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{t('integrations.slack.priorityHelp', 'Leave all unchecked to match any priority.')}</p>
+              </div>
+              <div>
+                <Label>{t('integrations.channel')}</Label>
+                <Select value={ruleDraft.endpoint_id} onValueChange={(value) => setRuleDraft({ ...ruleDraft, endpoint_id: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {channels.map(channel => (
+                      <SelectItem key={channel.id} value={channel.id}>{channel.channel || channel.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={ruleDraft.is_active} onCheckedChange={(checked) => setRuleDraft({ ...ruleDraft, is_active: checked })} />
+                {t('integrations.slack.ruleActive', 'Rule active')}
+              </label>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRuleDraft(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSaveRule} disabled={saving || !ruleDraft?.endpoint_id}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
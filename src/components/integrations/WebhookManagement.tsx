@@ -0,0 +1,483 @@
+import { Fragment, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Webhook, Plus, Pencil, Trash2, Save, Send, RotateCcw, KeyRound, Copy, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  WebhookService,
+  WEBHOOK_EVENT_TYPES,
+  type DispatchResult,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEndpoint,
+  type WebhookEventType
+} from "@/lib/webhookService";
+
+interface EndpointDraft {
+  id?: string;
+  name: string;
+  url: string;
+  description: string;
+  events: WebhookEventType[];
+  is_active: boolean;
+}
+
+const emptyDraft = (): EndpointDraft => ({
+  name: "",
+  url: "",
+  description: "",
+  events: [...WEBHOOK_EVENT_TYPES],
+  is_active: true
+});
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' }) : "—";
+
+export const WebhookManagement = () => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { userProfile } = useAuth();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EndpointDraft | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [endpointFilter, setEndpointFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const loadDeliveries = async () => {
+    setDeliveries(await WebhookService.getDeliveries({
+      endpointId: endpointFilter === "all" ? undefined : endpointFilter,
+      status: statusFilter === "all" ? undefined : statusFilter as WebhookDeliveryStatus
+    }));
+  };
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setEndpoints(await WebhookService.getEndpoints());
+      await loadDeliveries();
+    } catch (error) {
+      console.error('Error loading webhooks:', error);
+      showError(t('integrations.webhooks.loadError', 'Error loading webhooks'), error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!loading) {
+      loadDeliveries().catch(error => showError(t('integrations.webhooks.loadError', 'Error loading webhooks'), error));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [endpointFilter, statusFilter]);
+
+  const reportDispatch = (result: DispatchResult) => {
+    if (result.succeeded > 0) {
+      toast({ title: t('integrations.webhooks.delivered', 'Webhook delivered') });
+    } else {
+      toast({
+        title: t('integrations.webhooks.deliveryFailed', 'Webhook delivery failed'),
+        description: t('integrations.webhooks.checkLog', 'See the delivery log for the response.'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    try {
+      setSaving(true);
+      const saved = await WebhookService.saveEndpoint(draft, userProfile?.id);
+      if (!draft.id) {
+        setRevealedSecret(saved.secret);
+      }
+      setDraft(null);
+      await loadData();
+    } catch (error) {
+      showError(t('integrations.webhooks.saveError', 'Could not save the endpoint'), error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (endpoint: WebhookEndpoint, isActive: boolean) => {
+    try {
+      await WebhookService.saveEndpoint({ ...endpoint, is_active: isActive });
+      await loadData();
+    } catch (error) {
+      showError(t('integrations.webhooks.saveError', 'Could not save the endpoint'), error);
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(t('integrations.webhooks.confirmDelete', { name: endpoint.name, defaultValue: 'Delete "{{name}}" and its delivery log?' }))) {
+      return;
+    }
+
+    try {
+      await WebhookService.deleteEndpoint(endpoint.id);
+      await loadData();
+    } catch (error) {
+      showError(t('integrations.webhooks.deleteError', 'Could not delete the endpoint'), error);
+    }
+  };
+
+  const handleRotate = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(t('integrations.webhooks.confirmRotate', 'Receivers using the current secret will reject new deliveries. Rotate it?'))) {
+      return;
+    }
+
+    try {
+      const updated = await WebhookService.rotateSecret(endpoint.id);
+      setRevealedSecret(updated.secret);
+      await loadData();
+    } catch (error) {
+      showError(t('integrations.webhooks.saveError', 'Could not save the endpoint'), error);
+    }
+  };
+
+  const runAction = async (id: string, action: () => Promise<DispatchResult>) => {
+    try {
+      setBusyId(id);
+      reportDispatch(await action());
+      await loadData();
+    } catch (error) {
+      showError(t('integrations.webhooks.deliveryFailed', 'Webhook delivery failed'), error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const endpointNames = new Map(endpoints.map(endpoint => [endpoint.id, endpoint.name]));
+  // Slack channels are managed on the Slack card but share the delivery log
+  const jsonEndpoints = endpoints.filter(endpoint => endpoint.format !== 'slack');
+
+  const statusVariant = (status?: WebhookDeliveryStatus | null) =>
+    status === 'succeeded' ? 'default' : status === 'failed' ? 'destructive' : 'secondary';
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Webhook className="h-5 w-5" />
+            {t('integrations.webhooks.title', 'Webhooks')}
+          </CardTitle>
+          <Button size="sm" onClick={() => setDraft(emptyDraft())}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t('integrations.webhooks.add', 'Add endpoint')}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {t('integrations.webhooks.description', 'Each delivery is a signed JSON POST. Verify the X-Webhook-Signature header (t=timestamp,v1=HMAC-SHA256 of "timestamp.body") with the endpoint secret.')}
+          </p>
+
+          {loading ? (
+            <p className="text-sm text-muted-foreground">{t('common.loading')}</p>
+          ) : jsonEndpoints.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('integrations.webhooks.empty', 'No webhook endpoints yet.')}</p>
+          ) : (
+            <div className="space-y-3">
+              {jsonEndpoints.map(endpoint => (
+                <div key={endpoint.id} className="flex items-start justify-between gap-4 p-4 border rounded-lg">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-medium">{endpoint.name}</h3>
+                      {endpoint.last_delivery_status && (
+                        <Badge variant={statusVariant(endpoint.last_delivery_status)}>
+                          {t(`integrations.webhooks.statuses.${endpoint.last_delivery_status}`)}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 break-all">{endpoint.url}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.events.map(event => (
+                        <Badge key={event} variant="outline" className="text-xs">{event}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {t('integrations.webhooks.lastDelivery', 'Last delivery')}: {formatDateTime(endpoint.last_delivery_at)}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busyId !== null || !endpoint.is_active}
+                      onClick={() => runAction(endpoint.id, () => WebhookService.sendTest(endpoint.id))}
+                      title={t('integrations.sendTest')}
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleRotate(endpoint)} title={t('integrations.webhooks.rotateSecret', 'Rotate secret')}>
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDraft({
+                        id: endpoint.id,
+                        name: endpoint.name,
+                        url: endpoint.url,
+                        description: endpoint.description || "",
+                        events: endpoint.events,
+                        is_active: endpoint.is_active
+                      })}
+                      title={t('common.edit')}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(endpoint)} title={t('common.delete')}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                    <Switch
+                      checked={endpoint.is_active}
+                      onCheckedChange={(checked) => handleToggle(endpoint, checked)}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">{t('integrations.webhooks.log', 'Delivery log')}</CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={endpointFilter} onValueChange={setEndpointFilter}>
+              <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('integrations.webhooks.allEndpoints', 'All endpoints')}</SelectItem>
+                {endpoints.map(endpoint => (
+                  <SelectItem key={endpoint.id} value={endpoint.id}>{endpoint.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('integrations.webhooks.allStatuses', 'All statuses')}</SelectItem>
+                {(['pending', 'delivering', 'succeeded', 'failed'] as const).map(status => (
+                  <SelectItem key={status} value={status}>{t(`integrations.webhooks.statuses.${status}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="outline" onClick={loadData} title={t('common.refresh', 'Refresh')}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('integrations.webhooks.noDeliveries', 'No deliveries yet.')}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('integrations.webhooks.event', 'Event')}</TableHead>
+                  <TableHead>{t('integrations.webhooks.endpoint', 'Endpoint')}</TableHead>
+                  <TableHead>{t('integrations.webhooks.status', 'Status')}</TableHead>
+                  <TableHead>{t('integrations.webhooks.attempts', 'Attempts')}</TableHead>
+                  <TableHead>{t('integrations.webhooks.response', 'Response')}</TableHead>
+                  <TableHead>{t('integrations.webhooks.created', 'Created')}</TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map(delivery => (
+                  <Fragment key={delivery.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedDelivery(expandedDelivery === delivery.id ? null : delivery.id)}
+                    >
+                      <TableCell>
+                        <div className="font-mono text-xs">{delivery.event_type}</div>
+                        {delivery.replay_of && (
+                          <div className="text-xs text-muted-foreground">{t('integrations.webhooks.replay', 'Replay')}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{endpointNames.get(delivery.endpoint_id) || '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant(delivery.status)}>{t(`integrations.webhooks.statuses.${delivery.status}`)}</Badge>
+                        {delivery.status === 'pending' && delivery.attempts > 0 && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {t('integrations.webhooks.nextAttempt', 'Next attempt')}: {formatDateTime(delivery.next_attempt_at)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{delivery.attempts}/{delivery.max_attempts}</TableCell>
+                      <TableCell className="text-sm">
+                        {delivery.response_status ?? '—'}
+                        {delivery.error && <div className="text-xs text-red-600 max-w-xs break-words">{delivery.error}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDateTime(delivery.created_at)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId !== null || delivery.status === 'delivering'}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            runAction(delivery.id, () => WebhookService.replayDelivery(delivery.id));
+                          }}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          {t('integrations.webhooks.replay', 'Replay')}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expandedDelivery === delivery.id && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="bg-gray-50 dark:bg-gray-900">
+                          <div className="grid gap-2 md:grid-cols-2">
+                            <div>
+                              <Label className="text-xs">{t('integrations.webhooks.payload', 'Payload')}</Label>
+                              <pre className="text-xs overflow-auto max-h-64 p-2 bg-white dark:bg-gray-800 border rounded">
+                                {JSON.stringify(delivery.event?.payload ?? null, null, 2)}
+                              </pre>
+                            </div>
+                            <div>
+                              <Label className="text-xs">{t('integrations.webhooks.responseBody', 'Response body')}</Label>
+                              <pre className="text-xs overflow-auto max-h-64 p-2 bg-white dark:bg-gray-800 border rounded whitespace-pre-wrap">
+                                {delivery.response_body || '—'}
+                              </pre>
+                            </div>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {draft?.id ? t('integrations.webhooks.edit', 'Edit endpoint') : t('integrations.webhooks.add', 'Add endpoint')}
+            </DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="webhook-name">{t('integrations.webhooks.name', 'Name')}</Label>
+                <Input id="webhook-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="webhook-url">{t('integrations.webhookUrl')}</Label>
+                <Input
+                  id="webhook-url"
+                  value={draft.url}
+                  placeholder="https://example.com/webhooks/tickets"
+                  onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="webhook-description">{t('integrations.webhooks.notes', 'Notes')}</Label>
+                <Textarea
+                  id="webhook-description"
+                  rows={2}
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>{t('integrations.webhooks.events', 'Events')}</Label>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {WEBHOOK_EVENT_TYPES.map(event => (
+                    <label key={event} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.events.includes(event)}
+                        onCheckedChange={(checked) => setDraft({
+                          ...draft,
+                          events: checked ? [...draft.events, event] : draft.events.filter(value => value !== event)
+                        })}
+                      />
+                      {t(`integrations.webhooks.eventTypes.${event.replace('.', '_')}`, event)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSave} disabled={saving || !draft?.name.trim() || !draft?.url.trim() || draft?.events.length === 0}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={revealedSecret !== null} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{t('integrations.webhooks.secretTitle', 'Signing secret')}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            {t('integrations.webhooks.secretHelp', 'Configure this secret on the receiving side to verify signatures.')}
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={revealedSecret || ""} className="font-mono text-xs" />
+            <Button
+              variant="outline"
+              onClick={() => revealedSecret && navigator.clipboard.writeText(revealedSecret)}
+              title={t('integrations.webhooks.copy', 'Copy')}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>{t('common.close')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
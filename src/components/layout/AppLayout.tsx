@@ -57,6 +57,9 @@ export const AppLayout = ({ children, title, showSearch = true, onSearch }: AppL
       '/admin/workload': 'workload-dashboard',
       '/admin/assignment-rules': 'assignment-rules',
       '/admin/category-expertise': 'category-expertise',
+      '/admin/teams': 'teams',
+      '/admin/email-templates': 'email-templates',
+      '/admin/canned-responses': 'canned-responses',
       '/debug': 'debug',
       '/user-management': 'admin',
       '/category-management': 'category-management',
@@ -96,6 +99,9 @@ export const AppLayout = ({ children, title, showSearch = true, onSearch }: AppL
       'workload-dashboard': '/admin/workload',
       'assignment-rules': '/admin/assignment-rules',
       'category-expertise': '/admin/category-expertise',
+      'teams': '/admin/teams',
+      'email-templates': '/admin/email-templates',
+      'canned-responses': '/admin/canned-responses',
       'debug': '/debug',
       'settings': '/settings',
       'profile': '/profile',
@@ -138,6 +144,9 @@ export const AppLayout = ({ children, title, showSearch = true, onSearch }: AppL
       'sla-config': 'SLA Configuration',
       'session-timeout-config': 'Session Timeout',
       'category-expertise': 'Category Expertise',
+      'teams': 'Teams & Queues',
+      'email-templates': 'Email Templates',
+      'canned-responses': 'Canned Responses',
       'settings': 'Settings',
       'profile': 'Profile',
       'notifications': 'Notifications',
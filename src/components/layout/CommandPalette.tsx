@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { Bell, BookOpen, Filter, LayoutDashboard, ListTodo, Loader2, Search, Settings, Ticket } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { VisuallyHidden } from "@radix-ui/react-visually-hidden";
+import { SearchSnippet } from "@/components/tickets/SearchSnippet";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDebounce } from "@/hooks/useDebounce";
+import { ticketSearchService, type TicketSearchResult } from "@/lib/ticketSearchService";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Pages with their own search take "all results"; otherwise they open in the ticket list
+  onSearch?: (query: string) => void;
+}
+
+// Filters offered while the box is empty; picking one adds it to the query
+const QUERY_EXAMPLES = ['status:open', 'priority:urgent', 'assignee:me', 'created:>2026-01-01', '"exact phrase"'];
+
+/**
+ * Global search (Ctrl/⌘+K): full-text ticket search with the same query
+ * syntax as the ticket list, plus shortcuts to the main pages.
+ */
+export const CommandPalette = ({ open, onOpenChange, onSearch }: CommandPaletteProps) => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { userProfile } = useAuth();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<TicketSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const debouncedQuery = useDebounce(query.trim(), 250);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (!open) setQuery("");
+  }, [open]);
+
+  useEffect(() => {
+    if (debouncedQuery.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    ticketSearchService.search(debouncedQuery, { userId: userProfile?.id, limit: 8 })
+      .then(found => { if (!cancelled) setResults(found); })
+      .catch(() => { if (!cancelled) setResults([]); })
+      .finally(() => { if (!cancelled) setIsSearching(false); });
+
+    return () => { cancelled = true; };
+  }, [debouncedQuery, userProfile?.id]);
+
+  const go = (path: string) => {
+    onOpenChange(false);
+    navigate(path);
+  };
+
+  const pages = [
+    { path: '/dashboard', label: t('navigation.dashboard', 'Dashboard'), icon: LayoutDashboard },
+    { path: '/tickets', label: t('navigation.myTickets', 'My Tickets'), icon: Ticket },
+    { path: '/notifications', label: t('navigation.notifications', 'Notifications'), icon: Bell },
+    { path: '/knowledge', label: t('navigation.knowledge', 'Knowledge Base'), icon: BookOpen },
+    { path: '/todo', label: t('navigation.todo', 'To-Do'), icon: ListTodo },
+    { path: '/settings', label: t('navigation.settings', 'Settings'), icon: Settings },
+  ].filter(page => !query.trim() || page.label.toLowerCase().includes(query.trim().toLowerCase()));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+        <VisuallyHidden>
+          <DialogTitle>{t('commandPalette.title', 'Search')}</DialogTitle>
+        </VisuallyHidden>
+        {/* Results come ranked from the server, so cmdk must not filter them again */}
+        <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder={t('commandPalette.placeholder', 'Search tickets or jump to a page...')}
+          />
+          <CommandList className="max-h-[420px]">
+            {!query.trim() && (
+              <CommandGroup heading={t('commandPalette.syntax', 'Search filters')}>
+                {QUERY_EXAMPLES.map(example => (
+                  <CommandItem key={example} value={example} onSelect={() => setQuery(`${example} `)}>
+                    <Filter className="mr-2 h-4 w-4" />
+                    <span className="font-mono text-xs">{example}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {query.trim().length >= 2 && (
+              <CommandGroup heading={t('commandPalette.tickets', 'Tickets')}>
+                {isSearching && results.length === 0 && (
+                  <div className="flex items-center gap-2 px-2 py-3 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {t('commandPalette.searching', 'Searching...')}
+                  </div>
+                )}
+                {!isSearching && debouncedQuery.length >= 2 && results.length === 0 && (
+                  <p className="px-2 py-3 text-sm text-muted-foreground">
+                    {t('commandPalette.noResults', 'No tickets found')}
+                  </p>
+                )}
+                {results.map(result => (
+                  <CommandItem
+                    key={result.ticket_id}
+                    value={result.ticket_id}
+                    onSelect={() => go(`/ticket/${result.ticket_id}`)}
+                    className="flex-col items-start gap-1"
+                  >
+                    <div className="flex w-full items-center gap-2">
+                      <span className="font-mono text-xs text-muted-foreground">
+                        {result.ticket_number || '#' + result.ticket_id.slice(0, 8)}
+                      </span>
+                      <span className="min-w-0 flex-1 truncate text-sm">{result.title}</span>
+                      <Badge variant="outline" className="text-[10px]">
+                        {t(`status.${result.status === 'in_progress' ? 'inProgress' : result.status}`, result.status)}
+                      </Badge>
+                    </div>
+                    <SearchSnippet snippet={result.snippet} className="line-clamp-1" />
+                  </CommandItem>
+                ))}
+                <CommandItem
+                  value="__all_results"
+                  onSelect={() => {
+                    if (onSearch) {
+                      onOpenChange(false);
+                      onSearch(query.trim());
+                    } else {
+                      go(`/tickets/all?q=${encodeURIComponent(query.trim())}`);
+                    }
+                  }}
+                >
+                  <Search className="mr-2 h-4 w-4" />
+                  {t('commandPalette.allResults', 'Show all results for "{{query}}"', { query: query.trim() })}
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            {pages.length > 0 && (
+              <>
+                <CommandSeparator />
+                <CommandGroup heading={t('commandPalette.pages', 'Go to')}>
+                  {pages.map(page => (
+                    <CommandItem key={page.path} value={page.path} onSelect={() => go(page.path)}>
+                      <page.icon className="mr-2 h-4 w-4" />
+                      {page.label}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,13 +1,17 @@
-import { Bell, Menu, Search, Settings, User, LogOut, Ticket } from "lucide-react";
+import { Bell, Menu, Search, Settings, User, LogOut, Ticket, Circle } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { SidebarTrigger } from "@/components/ui/sidebar";
@@ -16,10 +20,21 @@ import { useIsMobile } from "@/hooks/use-mobile";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { LanguageSwitcher } from "@/components/language-switcher";
 import { NotificationBell } from "@/components/notifications/NotificationBell";
+import { CommandPalette } from "@/components/layout/CommandPalette";
 import { useNavigate } from "react-router-dom";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
 import { useTranslation } from 'react-i18next';
+import { useAgentPresence } from "@/hooks/useAgentPresence";
+import { useToast } from "@/hooks/use-toast";
+import type { PresenceStatus } from "@/lib/agentPresenceService";
+
+const PRESENCE_COLORS: Record<PresenceStatus, string> = {
+  available: "text-green-600",
+  busy: "text-yellow-600",
+  away: "text-orange-600",
+  offline: "text-gray-400",
+};
 
 interface HeaderProps {
   title?: string;
@@ -32,15 +47,9 @@ export function Header({ title = "Dashboard", showSearch = true, onSearch }: Hea
   const { userProfile, signOut } = useAuth();
   const isMobile = useIsMobile();
   const navigate = useNavigate();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [isSearchFocused, setIsSearchFocused] = useState(false);
-
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (onSearch && searchQuery.trim()) {
-      onSearch(searchQuery.trim());
-    }
-  };
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const { isAgent, manualStatus, setManualStatus } = useAgentPresence();
+  const { toast } = useToast();
 
   const getInitials = (name: string) => {
     return name
@@ -51,6 +60,18 @@ export function Header({ title = "Dashboard", showSearch = true, onSearch }: Hea
       .slice(0, 2);
   };
 
+  const handlePresenceChange = async (value: string) => {
+    try {
+      await setManualStatus(value === 'automatic' ? null : value as PresenceStatus);
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: t('header.presence.updateFailed', 'Could not update your status'),
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSignOut = async () => {
     try {
       await signOut();
@@ -74,8 +95,8 @@ export function Header({ title = "Dashboard", showSearch = true, onSearch }: Hea
             "hover:bg-accent/80 transition-colors"
           )} />
           
-          {/* Mobile logo - only show when not searching */}
-          {isMobile && !isSearchFocused && (
+          {/* Mobile logo */}
+          {isMobile && (
             <div className="flex items-center gap-2">
               <div className="w-7 h-7 bg-gradient-to-br from-blue-600 to-blue-700 rounded-lg flex items-center justify-center">
                 <Ticket className="w-4 h-4 text-white" />
@@ -92,42 +113,39 @@ export function Header({ title = "Dashboard", showSearch = true, onSearch }: Hea
           </div>
         )}
 
-        {/* Search bar */}
+        {/* Search: opens the command palette, also on Ctrl/⌘+K */}
         {showSearch && (
           <div className={cn(
             "flex-1 max-w-sm mx-4",
-            isMobile && "max-w-none mx-2",
-            isSearchFocused && isMobile && "flex-1"
+            isMobile && "max-w-none mx-2"
           )}>
-            <form onSubmit={handleSearch} className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-              <Input
-                type="search"
-                placeholder={isMobile ? t('common.search') : t('header.searchPlaceholder')}
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                onFocus={() => setIsSearchFocused(true)}
-                onBlur={() => setIsSearchFocused(false)}
-                className={cn(
-                  "pl-10 pr-4",
-                  isMobile && "h-9 text-base", // Larger on mobile to prevent zoom
-                  "transition-all duration-200",
-                  isSearchFocused && "ring-2 ring-ring"
-                )}
-              />
-            </form>
+            <button
+              type="button"
+              onClick={() => setIsPaletteOpen(true)}
+              className={cn(
+                "relative flex h-10 w-full items-center rounded-md border border-input bg-background pl-10 pr-3 text-sm text-muted-foreground",
+                "hover:bg-accent/50 transition-colors",
+                isMobile && "h-9"
+              )}
+            >
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4" />
+              <span className="flex-1 truncate text-left">
+                {isMobile ? t('common.search') : t('header.searchPlaceholder')}
+              </span>
+              {!isMobile && (
+                <kbd className="pointer-events-none rounded border bg-muted px-1.5 font-mono text-[10px]">Ctrl K</kbd>
+              )}
+            </button>
           </div>
         )}
+        <CommandPalette open={isPaletteOpen} onOpenChange={setIsPaletteOpen} onSearch={onSearch} />
 
         {/* Right side actions */}
         <div className="flex items-center gap-1 md:gap-2">
           {/* Notifications */}
           <NotificationBell />
 
-          {/* Theme toggle - hidden on mobile when searching */}
-          {(!isMobile || !isSearchFocused) && (
-            <ThemeToggle />
-          )}
+          <ThemeToggle />
 
           {/* Language switcher - hidden on mobile */}
           {!isMobile && <LanguageSwitcher />}
@@ -172,6 +190,35 @@ export function Header({ title = "Dashboard", showSearch = true, onSearch }: Hea
                 </div>
               </DropdownMenuLabel>
               <DropdownMenuSeparator />
+
+              {isAgent && (
+                <>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger className={cn("cursor-pointer", isMobile && "h-12")}>
+                      <Circle className={cn("mr-2 h-4 w-4 fill-current", PRESENCE_COLORS[manualStatus || 'available'])} />
+                      <span>
+                        {t('header.presence.title', 'Status')}: {manualStatus
+                          ? t(`header.presence.${manualStatus}`)
+                          : t('header.presence.automatic', 'Automatic')}
+                      </span>
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      <DropdownMenuRadioGroup value={manualStatus || 'automatic'} onValueChange={handlePresenceChange}>
+                        <DropdownMenuRadioItem value="automatic">
+                          {t('header.presence.automatic', 'Automatic')}
+                        </DropdownMenuRadioItem>
+                        {(Object.keys(PRESENCE_COLORS) as PresenceStatus[]).map(status => (
+                          <DropdownMenuRadioItem key={status} value={status}>
+                            <Circle className={cn("mr-2 h-3 w-3 fill-current", PRESENCE_COLORS[status])} />
+                            {t(`header.presence.${status}`)}
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuSeparator />
+                </>
+              )}
               
               <DropdownMenuItem 
                 onClick={() => navigate('/profile')}
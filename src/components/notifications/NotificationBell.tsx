@@ -8,7 +8,8 @@ import {
   WifiOff, 
   Loader2,
   Settings,
-  RefreshCw
+  RefreshCw,
+  RotateCcw
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -33,6 +34,7 @@ import { useTranslation } from 'react-i18next';
 // TicketDetailsDialog removed - using navigation to UnifiedTicketDetail instead
 import DatabaseService, { TicketWithDetails } from '@/lib/database';
 import { useAuth } from '@/contexts/AuthContext';
+import { AutoClosePolicyService } from '@/lib/autoClosePolicyService';
 
 interface ConnectionStatus {
   isConnected: boolean;
@@ -223,6 +225,20 @@ export const NotificationBell: React.FC = () => {
     }
   };
 
+  // "Still not fixed" straight from the auto-close reminder files a reopen request
+  const handleStillNotFixed = async (e: React.MouseEvent, notificationId: string, ticketId: string) => {
+    e.stopPropagation();
+    if (!userProfile) return;
+
+    try {
+      await AutoClosePolicyService.stillNotFixed(ticketId, userProfile.id);
+      await markAsRead(notificationId);
+      toast.success(t('tickets.autoClose.reopenRequested', 'Reopen requested'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('notifications.errors.processingNotification'));
+    }
+  };
+
   return (
     <>
       <TooltipProvider>
@@ -474,6 +490,20 @@ export const NotificationBell: React.FC = () => {
                                   {translateNotificationContent(notification.message)}
                                 </p>
                               )}
+
+                              {notification.type === 'auto_close_reminder' &&
+                                notification.metadata?.action === 'still_not_fixed' &&
+                                notification.ticket_id && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-6 mt-2 px-2 text-xs"
+                                  onClick={(e) => handleStillNotFixed(e, notification.id, notification.ticket_id)}
+                                >
+                                  <RotateCcw className="h-3 w-3 mr-1" />
+                                  {t('tickets.autoClose.stillNotFixed', 'Still not fixed')}
+                                </Button>
+                              )}
                             </div>
                             
                             <div className="flex items-center space-x-1 flex-shrink-0">
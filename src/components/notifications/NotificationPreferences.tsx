@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
-import { Save, RotateCcw, Bell, Mail, Volume2, Moon, Clock, Settings } from 'lucide-react'
+import { Save, RotateCcw, Bell, Mail, Volume2, Moon, Clock, Settings, Layers } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -14,12 +14,17 @@ import { Badge } from '@/components/ui/badge'
 import { ScrollArea } from '@/components/ui/scroll-area'
 
 import { preferencesManager } from '@/lib/notifications/PreferencesManager'
+import { NotificationDeliveryService } from '@/lib/notifications/NotificationDeliveryService'
 import { useAuth } from '@/contexts/AuthContext'
 import {
+  DeliverySchedule,
   NotificationPreferences as NotificationPreferencesType,
   NotificationType,
   NotificationTypePreference,
-  createDefaultNotificationPreferences
+  QuietHours,
+  QuietHoursDay,
+  createDefaultNotificationPreferences,
+  createQuietHoursSchedule
 } from '@/types/notifications'
 
 interface NotificationPreferencesProps {
@@ -110,7 +115,7 @@ export const NotificationPreferences: React.FC<NotificationPreferencesProps> = (
     setHasChanges(true)
   }
 
-  const updateQuietHours = (field: 'enabled' | 'start' | 'end', value: boolean | string) => {
+  const updateQuietHours = <K extends keyof QuietHours>(field: K, value: QuietHours[K]) => {
     if (!preferences) return
 
     const updated = {
@@ -124,6 +129,75 @@ export const NotificationPreferences: React.FC<NotificationPreferencesProps> = (
     setHasChanges(true)
   }
 
+  const getQuietHoursSchedule = (prefs: NotificationPreferencesType): QuietHoursDay[] =>
+    prefs.quietHours.schedule?.length
+      ? prefs.quietHours.schedule
+      : createQuietHoursSchedule(prefs.quietHours.start, prefs.quietHours.end)
+
+  const updateQuietHoursDay = (dayOfWeek: number, field: keyof Omit<QuietHoursDay, 'dayOfWeek'>, value: boolean | string) => {
+    if (!preferences) return
+
+    const updated = {
+      ...preferences,
+      quietHours: {
+        ...preferences.quietHours,
+        schedule: getQuietHoursSchedule(preferences).map(day =>
+          day.dayOfWeek === dayOfWeek ? { ...day, [field]: value } : day
+        )
+      }
+    }
+    setPreferences(updated)
+    setHasChanges(true)
+  }
+
+  const applyQuietHoursToAllDays = () => {
+    if (!preferences) return
+
+    const { start, end } = preferences.quietHours
+    updateQuietHours('schedule', getQuietHoursSchedule(preferences).map(day => ({ ...day, start, end })))
+  }
+
+  const weekdayLabels = [
+    t('notifications.preferences.quietHours.days.sunday', 'Sunday'),
+    t('notifications.preferences.quietHours.days.monday', 'Monday'),
+    t('notifications.preferences.quietHours.days.tuesday', 'Tuesday'),
+    t('notifications.preferences.quietHours.days.wednesday', 'Wednesday'),
+    t('notifications.preferences.quietHours.days.thursday', 'Thursday'),
+    t('notifications.preferences.quietHours.days.friday', 'Friday'),
+    t('notifications.preferences.quietHours.days.saturday', 'Saturday'),
+  ]
+
+  const updateDeliverySchedule = <K extends keyof DeliverySchedule>(field: K, value: DeliverySchedule[K]) => {
+    if (!preferences) return
+
+    const updated = {
+      ...preferences,
+      deliverySchedule: {
+        ...preferences.deliverySchedule,
+        [field]: value
+      }
+    }
+    setPreferences(updated)
+    setHasChanges(true)
+  }
+
+  // Next digest email in the user's own timezone
+  const formatNextDigest = (): string => {
+    if (!preferences) return ''
+
+    const next = NotificationDeliveryService.getNextDeliveryTime('digest', preferences.deliverySchedule, preferences.timezone)
+    try {
+      return next.toLocaleString(undefined, {
+        timeZone: preferences.timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit'
+      })
+    } catch {
+      return next.toLocaleString()
+    }
+  }
+
   const updateTypePreference = (
     type: NotificationType,
     field: keyof NotificationTypePreference,
@@ -324,7 +398,7 @@ export const NotificationPreferences: React.FC<NotificationPreferencesProps> = (
                   {t('notifications.preferences.quietHours.enabled', 'Enable Quiet Hours')}
                 </Label>
                 <p className="text-sm text-muted-foreground">
-                  {t('notifications.preferences.quietHours.description', 'Suppress non-urgent notifications during specified hours')}
+                  {t('notifications.preferences.quietHours.description', 'Hold non-urgent notifications during specified hours')}
                 </p>
               </div>
               <Switch
@@ -363,6 +437,46 @@ export const NotificationPreferences: React.FC<NotificationPreferencesProps> = (
                     className="w-full"
                   />
                 </div>
+                <div className="col-span-2 flex items-center justify-between">
+                  <p className="text-xs text-muted-foreground">
+                    {t('notifications.preferences.quietHours.timezoneHint', 'Evaluated in {{timezone}}. Notifications held during quiet hours are delivered when they end; high priority ones still come through.', { timezone: preferences.timezone })}
+                  </p>
+                  <Button variant="outline" size="sm" onClick={applyQuietHoursToAllDays}>
+                    {t('notifications.preferences.quietHours.applyToAll', 'Apply to all days')}
+                  </Button>
+                </div>
+
+                <div className="col-span-2 space-y-2">
+                  {getQuietHoursSchedule(preferences).map(day => (
+                    <div key={day.dayOfWeek} className="grid grid-cols-[auto_1fr_1fr_1fr] items-center gap-3">
+                      <Switch
+                        id={`quiet-day-${day.dayOfWeek}`}
+                        checked={day.enabled}
+                        onCheckedChange={(checked) => updateQuietHoursDay(day.dayOfWeek, 'enabled', checked)}
+                        aria-label={weekdayLabels[day.dayOfWeek]}
+                      />
+                      <Label htmlFor={`quiet-day-${day.dayOfWeek}`} className="text-sm">
+                        {weekdayLabels[day.dayOfWeek]}
+                      </Label>
+                      <Input
+                        type="time"
+                        value={day.start}
+                        disabled={!day.enabled}
+                        onChange={(e) => updateQuietHoursDay(day.dayOfWeek, 'start', e.target.value)}
+                        aria-label={`${weekdayLabels[day.dayOfWeek]} ${t('notifications.preferences.quietHours.start', 'Start Time')}`}
+                        className="h-8"
+                      />
+                      <Input
+                        type="time"
+                        value={day.end}
+                        disabled={!day.enabled}
+                        onChange={(e) => updateQuietHoursDay(day.dayOfWeek, 'end', e.target.value)}
+                        aria-label={`${weekdayLabels[day.dayOfWeek]} ${t('notifications.preferences.quietHours.end', 'End Time')}`}
+                        className="h-8"
+                      />
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
           </div>
@@ -370,6 +484,92 @@ export const NotificationPreferences: React.FC<NotificationPreferencesProps> = (
 
         <Separator />
 
+        {/* Delivery Schedule */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            {t('notifications.preferences.deliverySchedule.title', 'Batching & Digests')}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {t('notifications.preferences.deliverySchedule.description', 'Applies to notification types set to Batched or Digest below. Times follow your timezone.')}
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="batch-window">
+                {t('notifications.preferences.deliverySchedule.batchWindow', 'Batch window')}
+              </Label>
+              <Select
+                value={String(preferences.deliverySchedule.batchWindowMinutes)}
+                onValueChange={(value) => updateDeliverySchedule('batchWindowMinutes', Number(value))}
+              >
+                <SelectTrigger id="batch-window">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[5, 15, 30, 60].map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {t('notifications.preferences.deliverySchedule.minutes', '{{count}} minutes', { count: minutes })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="digest-frequency">
+                {t('notifications.preferences.deliverySchedule.digestFrequency', 'Digest frequency')}
+              </Label>
+              <Select
+                value={preferences.deliverySchedule.digestFrequency}
+                onValueChange={(value) => updateDeliverySchedule('digestFrequency', value as DeliverySchedule['digestFrequency'])}
+              >
+                <SelectTrigger id="digest-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hourly">
+                    {t('notifications.preferences.deliverySchedule.hourly', 'Hourly')}
+                  </SelectItem>
+                  <SelectItem value="daily">
+                    {t('notifications.preferences.deliverySchedule.daily', 'Daily')}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {preferences.deliverySchedule.digestFrequency === 'daily' && (
+              <div className="space-y-2">
+                <Label htmlFor="digest-hour" className="flex items-center gap-2">
+                  <Clock className="h-3 w-3" />
+                  {t('notifications.preferences.deliverySchedule.digestHour', 'Send daily digest at')}
+                </Label>
+                <Select
+                  value={String(preferences.deliverySchedule.digestHour)}
+                  onValueChange={(value) => updateDeliverySchedule('digestHour', Number(value))}
+                >
+                  <SelectTrigger id="digest-hour">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={String(hour)}>
+                        {`${String(hour).padStart(2, '0')}:00`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {t('notifications.preferences.deliverySchedule.nextDigest', 'Next digest: {{time}}', { time: formatNextDigest() })}
+          </p>
+        </div>
+
+        <Separator />
+
         {/* Language and Timezone */}
         <div className="space-y-4">
           <h3 className="text-lg font-medium">
@@ -512,7 +712,7 @@ export const NotificationPreferences: React.FC<NotificationPreferencesProps> = (
                               {t('notifications.preferences.types.deliveryBatched', 'Batched')}
                             </SelectItem>
                             <SelectItem value="digest">
-                              {t('notifications.preferences.types.deliveryDigest', 'Daily Digest')}
+                              {t('notifications.preferences.types.deliveryDigest', 'Digest')}
                             </SelectItem>
                           </SelectContent>
                         </Select>
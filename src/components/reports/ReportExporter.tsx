@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -14,33 +14,25 @@ import {
   BarChart3,
   Download,
   Clock,
-  CheckCircle
+  CheckCircle,
+  CalendarClock
 } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { useTranslation } from "react-i18next";
-
-interface ReportConfig {
-  type: "tickets" | "performance" | "sla" | "satisfaction";
-  format: "csv" | "pdf" | "excel";
-  dateRange: {
-    from: Date | undefined;
-    to: Date | undefined;
-  };
-  filters: {
-    status?: string[];
-    priority?: string[];
-    category?: string[];
-    agent?: string[];
-  };
-}
+import { useToast } from "@/hooks/use-toast";
+import { DatabaseService } from "@/lib/database";
+import { ReportService, type ReportConfig } from "@/lib/reportService";
+import { exportReport } from "@/lib/reportExport";
 
 interface ReportExporterProps {
   onExport?: (config: ReportConfig) => void;
+  onSchedule?: (config: ReportConfig) => void;
 }
 
-export const ReportExporter = ({ onExport }: ReportExporterProps) => {
+export const ReportExporter = ({ onExport, onSchedule }: ReportExporterProps) => {
   const { t } = useTranslation();
+  const { toast } = useToast();
   const [config, setConfig] = useState<ReportConfig>({
     type: "tickets",
     format: "csv",
@@ -63,91 +55,61 @@ export const ReportExporter = ({ onExport }: ReportExporterProps) => {
     { value: "pdf", label: "PDF", icon: FileText, description: "Formatted document" }
   ];
 
-  const statusOptions = ["Pending", "In Progress", "Resolved", "Closed"];
-  const priorityOptions = ["Low", "Medium", "High", "Critical"];
-  const categoryOptions = ["IT", "Facilities", "HR", "Finance", "Operational"];
-  const agentOptions = ["John Doe", "Jane Smith", "Pedro Costa", "Maria Santos"];
-
-  const generateSampleData = () => {
-    // Example data for demonstration
-    const sampleData = {
-      tickets: [
-        ["ID", "Title", "Status", "Priority", "Category", "Agent", "Created At", "Resolved At"],
-        ["TK-001", "Access Problem", "Resolved", "High", "IT", "John Doe", "2024-06-01", "2024-06-02"],
-        ["TK-002", "Material Request", "Closed", "Medium", "Facilities", "Jane Smith", "2024-06-01", "2024-06-03"],
-        ["TK-003", "Policy Question", "In Progress", "Low", "HR", "Pedro Costa", "2024-06-02", ""],
-      ],
-      performance: [
-        ["Agent", "Resolved Calls", "Average Time", "Satisfaction"],
-        ["John Doe", "45", "2.3 hours", "4.8/5"],
-        ["Jane Smith", "38", "1.8 hours", "4.9/5"],
-        ["Pedro Costa", "31", "3.1 hours", "4.6/5"],
-      ]
-    };
+  const statusOptions = [
+    { value: "open", label: t('status.open') },
+    { value: "pending", label: t('status.pending', 'Pending') },
+    { value: "in_progress", label: t('status.inProgress') },
+    { value: "resolved", label: t('status.resolved') },
+    { value: "closed", label: t('status.closed') }
+  ];
+  const priorityOptions = [
+    { value: "low", label: t('priority.low') },
+    { value: "medium", label: t('priority.medium') },
+    { value: "high", label: t('priority.high') },
+    { value: "urgent", label: t('priority.urgent') }
+  ];
+  const [categoryOptions, setCategoryOptions] = useState<Array<{ value: string; label: string }>>([]);
+  const [agentOptions, setAgentOptions] = useState<Array<{ value: string; label: string }>>([]);
 
-    return sampleData[config.type as keyof typeof sampleData] || sampleData.tickets;
-  };
+  useEffect(() => {
+    DatabaseService.getCategories()
+      .then(categories => setCategoryOptions(categories.map(category => ({ value: category.id, label: category.name }))))
+      .catch(() => setCategoryOptions([]));
+    DatabaseService.getAgents()
+      .then(agents => setAgentOptions(agents.map(agent => ({ value: agent.id, label: agent.name }))))
+      .catch(() => setAgentOptions([]));
+  }, []);
 
-  const generateCSV = (data: string[][]) => {
-    const csvContent = data.map(row => 
-      row.map(cell => `"${cell}"`).join(",")
-    ).join("\n");
-    
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+  const downloadBlob = (blob: Blob, filename: string) => {
     const link = document.createElement("a");
     const url = URL.createObjectURL(blob);
-    
-    link.setAttribute("href", url);
-    link.setAttribute("download", `relatorio_${config.type}_${format(new Date(), "yyyy-MM-dd")}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
 
-  const generatePDF = () => {
-    // In production, would use a library like jsPDF or call backend API
-    // Em produção, usaria uma biblioteca como jsPDF ou chamaria API backend
-    console.log("Gerando PDF...");
-    
-    // Simulação de geração de PDF
-    const pdfContent = `
-      RELATÓRIO DE ${config.type.toUpperCase()}
-      
-      Período: ${config.dateRange.from ? format(config.dateRange.from, "dd/MM/yyyy", { locale: ptBR }) : "N/A"} - ${config.dateRange.to ? format(config.dateRange.to, "dd/MM/yyyy", { locale: ptBR }) : "N/A"}
-      
-      Dados do relatório seriam inseridos aqui...
-    `;
-    
-    const blob = new Blob([pdfContent], { type: "text/plain" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    
     link.setAttribute("href", url);
-    link.setAttribute("download", `relatorio_${config.type}_${format(new Date(), "yyyy-MM-dd")}.pdf`);
+    link.setAttribute("download", filename);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
   };
 
   const handleExport = async () => {
     setIsGenerating(true);
-    
+
     try {
-      const data = generateSampleData();
-      
-      if (config.format === "csv" || config.format === "excel") {
-        generateCSV(data);
-      } else if (config.format === "pdf") {
-        generatePDF();
-      }
-      
+      const report = await ReportService.generate(config);
+      const { blob, filename } = await exportReport(report, config.format);
+      downloadBlob(blob, filename);
+
       onExport?.(config);
-      
-      console.log("Relatório gerado:", config);
     } catch (error) {
-      console.error("Erro ao gerar relatório:", error);
+      console.error("Error generating report:", error);
+      toast({
+        title: t('reports.generateError', 'Could not generate the report'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
     } finally {
-      setTimeout(() => setIsGenerating(false), 1000);
+      setIsGenerating(false);
     }
   };
 
@@ -269,6 +231,7 @@ export const ReportExporter = ({ onExport }: ReportExporterProps) => {
               </PopoverContent>
             </Popover>
           </div>
+          <p className="text-xs text-gray-500 mt-1">{t('reports.defaultPeriod')}</p>
         </div>
 
         {/* Filters */}
@@ -286,14 +249,14 @@ export const ReportExporter = ({ onExport }: ReportExporterProps) => {
             <div>
               <label className="text-xs text-gray-600 mb-1 block">{t('reports.status')}</label>
               <div className="flex gap-1 flex-wrap">
-                {statusOptions.map(status => (
+                {statusOptions.map(option => (
                   <Badge
-                    key={status}
-                    variant={config.filters.status?.includes(status) ? "default" : "outline"}
+                    key={option.value}
+                    variant={config.filters.status?.includes(option.value) ? "default" : "outline"}
                     className="cursor-pointer text-xs"
-                    onClick={() => handleFilterChange("status", status)}
+                    onClick={() => handleFilterChange("status", option.value)}
                   >
-                    {status}
+                    {option.label}
                   </Badge>
                 ))}
               </div>
@@ -302,14 +265,14 @@ export const ReportExporter = ({ onExport }: ReportExporterProps) => {
             <div>
               <label className="text-xs text-gray-600 mb-1 block">{t('reports.priority')}</label>
               <div className="flex gap-1 flex-wrap">
-                {priorityOptions.map(priority => (
+                {priorityOptions.map(option => (
                   <Badge
-                    key={priority}
-                    variant={config.filters.priority?.includes(priority) ? "default" : "outline"}
+                    key={option.value}
+                    variant={config.filters.priority?.includes(option.value) ? "default" : "outline"}
                     className="cursor-pointer text-xs"
-                    onClick={() => handleFilterChange("priority", priority)}
+                    onClick={() => handleFilterChange("priority", option.value)}
                   >
-                    {priority}
+                    {option.label}
                   </Badge>
                 ))}
               </div>
@@ -318,14 +281,14 @@ export const ReportExporter = ({ onExport }: ReportExporterProps) => {
             <div>
               <label className="text-xs text-gray-600 mb-1 block">{t('reports.category')}</label>
               <div className="flex gap-1 flex-wrap">
-                {categoryOptions.map(category => (
+                {categoryOptions.map(option => (
                   <Badge
-                    key={category}
-                    variant={config.filters.category?.includes(category) ? "default" : "outline"}
+                    key={option.value}
+                    variant={config.filters.category?.includes(option.value) ? "default" : "outline"}
                     className="cursor-pointer text-xs"
-                    onClick={() => handleFilterChange("category", category)}
+                    onClick={() => handleFilterChange("category", option.value)}
                   >
-                    {category}
+                    {option.label}
                   </Badge>
                 ))}
               </div>
@@ -334,14 +297,14 @@ export const ReportExporter = ({ onExport }: ReportExporterProps) => {
             <div>
               <label className="text-xs text-gray-600 mb-1 block">{t('reports.agent')}</label>
               <div className="flex gap-1 flex-wrap">
-                {agentOptions.map(agent => (
+                {agentOptions.map(option => (
                   <Badge
-                    key={agent}
-                    variant={config.filters.agent?.includes(agent) ? "default" : "outline"}
+                    key={option.value}
+                    variant={config.filters.agent?.includes(option.value) ? "default" : "outline"}
                     className="cursor-pointer text-xs"
-                    onClick={() => handleFilterChange("agent", agent)}
+                    onClick={() => handleFilterChange("agent", option.value)}
                   >
-                    {agent.split(' ')[0]}
+                    {option.label}
                   </Badge>
                 ))}
               </div>
@@ -350,7 +313,17 @@ export const ReportExporter = ({ onExport }: ReportExporterProps) => {
         </div>
 
         {/* Export Button */}
-        <div className="flex justify-end pt-4 border-t">
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          {onSchedule && (
+            <Button
+              variant="outline"
+              onClick={() => onSchedule(config)}
+              className="flex items-center gap-2"
+            >
+              <CalendarClock className="h-4 w-4" />
+              {t('reports.schedule')}
+            </Button>
+          )}
           <Button
             onClick={handleExport}
             disabled={isGenerating}
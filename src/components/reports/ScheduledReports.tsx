@@ -0,0 +1,507 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarClock, Plus, Pencil, Trash2, Play, Save, Download, History } from "lucide-react";
+import { format } from "date-fns";
+import { useTranslation } from "react-i18next";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { REPORT_TITLES, type ReportConfig } from "@/lib/reportService";
+import {
+  ScheduledReportService,
+  type ReportDateWindow,
+  type ReportDefinition,
+  type ReportDefinitionInput,
+  type ReportFrequency,
+  type ReportRun
+} from "@/lib/scheduledReportService";
+
+interface DefinitionDraft extends Omit<ReportDefinitionInput, 'recipients'> {
+  recipients: string; // free text, parsed on save
+}
+
+interface ScheduledReportsProps {
+  // Exporter settings to start a new definition from
+  seed?: Pick<ReportConfig, 'type' | 'format' | 'filters'> | null;
+  onSeedUsed?: () => void;
+}
+
+const DATE_WINDOWS: ReportDateWindow[] = ['last_7_days', 'last_30_days', 'previous_week', 'previous_month', 'month_to_date'];
+const FREQUENCIES: ReportFrequency[] = ['daily', 'weekly', 'monthly'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const emptyDraft = (seed?: ScheduledReportsProps['seed']): DefinitionDraft => ({
+  name: seed ? REPORT_TITLES[seed.type] : "",
+  report_type: seed?.type || 'tickets',
+  format: seed?.format || 'pdf',
+  filters: seed?.filters || {},
+  date_window: 'last_7_days',
+  frequency: 'weekly',
+  day_of_week: 1,
+  day_of_month: 1,
+  run_hour: 8,
+  timezone: browserTimezone(),
+  recipients: "",
+  is_active: true
+});
+
+const formatDateTime = (value?: string | null) => value ? format(new Date(value), "dd/MM/yyyy HH:mm") : "—";
+
+export const ScheduledReports = ({ seed, onSeedUsed }: ScheduledReportsProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { userProfile } = useAuth();
+  const [definitions, setDefinitions] = useState<ReportDefinition[]>([]);
+  const [runs, setRuns] = useState<ReportRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DefinitionDraft | null>(null);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [loadedDefinitions, loadedRuns] = await Promise.all([
+        ScheduledReportService.getDefinitions(),
+        ScheduledReportService.getRuns()
+      ]);
+      setDefinitions(loadedDefinitions);
+      setRuns(loadedRuns);
+    } catch (error) {
+      console.error('Error loading scheduled reports:', error);
+      showError(t('reports.scheduled.loadError', 'Error loading scheduled reports'), error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (seed) {
+      setDraft(emptyDraft(seed));
+      onSeedUsed?.();
+    }
+  }, [seed, onSeedUsed]);
+
+  const describeSchedule = (definition: Pick<ReportDefinition, 'frequency' | 'day_of_week' | 'day_of_month' | 'run_hour'>) => {
+    const hour = `${String(definition.run_hour).padStart(2, '0')}:00`;
+    if (definition.frequency === 'daily') {
+      return t('reports.scheduled.everyDay', { hour, defaultValue: 'Every day at {{hour}}' });
+    }
+    if (definition.frequency === 'weekly') {
+      const day = t(`reports.scheduled.weekdays.${WEEKDAYS[definition.day_of_week]}`);
+      return t('reports.scheduled.everyWeek', { day, hour, defaultValue: 'Every {{day}} at {{hour}}' });
+    }
+    return t('reports.scheduled.everyMonth', { day: definition.day_of_month, hour, defaultValue: 'Monthly on day {{day}} at {{hour}}' });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    try {
+      setSaving(true);
+      const { valid, invalid } = ScheduledReportService.parseRecipients(draft.recipients);
+      await ScheduledReportService.saveDefinition(
+        { ...draft, recipients: [...valid, ...invalid] },
+        userProfile?.id
+      );
+      toast({ title: t('reports.scheduled.saved', 'Scheduled report saved') });
+      setDraft(null);
+      await loadData();
+    } catch (error) {
+      showError(t('reports.scheduled.saveError', 'Could not save the scheduled report'), error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (definition: ReportDefinition, isActive: boolean) => {
+    try {
+      await ScheduledReportService.saveDefinition({ ...definition, is_active: isActive });
+      await loadData();
+    } catch (error) {
+      showError(t('reports.scheduled.saveError', 'Could not save the scheduled report'), error);
+    }
+  };
+
+  const handleDelete = async (definition: ReportDefinition) => {
+    if (!confirm(t('reports.scheduled.confirmDelete', { name: definition.name, defaultValue: 'Delete "{{name}}" and its run history?' }))) {
+      return;
+    }
+
+    try {
+      await ScheduledReportService.deleteDefinition(definition.id);
+      await loadData();
+    } catch (error) {
+      showError(t('reports.scheduled.deleteError', 'Could not delete the scheduled report'), error);
+    }
+  };
+
+  const handleRunNow = async (definition: ReportDefinition) => {
+    try {
+      setRunningId(definition.id);
+      const run = await ScheduledReportService.runDefinition(definition, 'manual', userProfile?.id);
+      if (run.status === 'failed') {
+        showError(t('reports.scheduled.runFailed', 'The report run failed'), run.error);
+      } else {
+        toast({
+          title: t('reports.scheduled.runDone', 'Report sent'),
+          description: t('reports.scheduled.runDoneDescription', {
+            count: run.emails_sent,
+            defaultValue: 'Emailed to {{count}} recipients'
+          }),
+        });
+      }
+      await loadData();
+    } catch (error) {
+      showError(t('reports.scheduled.runFailed', 'The report run failed'), error);
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleDownload = async (run: ReportRun) => {
+    try {
+      const url = await ScheduledReportService.getRunDownloadUrl(run);
+      window.open(url, '_blank', 'noopener');
+    } catch (error) {
+      showError(t('reports.scheduled.downloadError', 'Could not download the report'), error);
+    }
+  };
+
+  const definitionNames = new Map(definitions.map(definition => [definition.id, definition.name]));
+
+  const statusVariant = (status: ReportRun['status']) =>
+    status === 'success' ? 'default' : status === 'failed' ? 'destructive' : 'secondary';
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            {t('reports.scheduled.title', 'Scheduled Reports')}
+          </CardTitle>
+          <Button size="sm" onClick={() => setDraft(emptyDraft())}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t('reports.scheduled.new', 'New schedule')}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">{t('common.loading')}</p>
+          ) : definitions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('reports.scheduled.empty', 'No scheduled reports yet.')}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('reports.scheduled.name', 'Name')}</TableHead>
+                  <TableHead>{t('reports.scheduled.schedule', 'Schedule')}</TableHead>
+                  <TableHead>{t('reports.scheduled.recipients', 'Recipients')}</TableHead>
+                  <TableHead>{t('reports.scheduled.nextRun', 'Next run')}</TableHead>
+                  <TableHead>{t('reports.scheduled.active', 'Active')}</TableHead>
+                  <TableHead className="text-right">{t('reports.scheduled.actions', 'Actions')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {definitions.map(definition => (
+                  <TableRow key={definition.id}>
+                    <TableCell>
+                      <div className="font-medium">{definition.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {REPORT_TITLES[definition.report_type]} · {definition.format.toUpperCase()} · {t(`reports.scheduled.windows.${definition.date_window}`)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {describeSchedule(definition)}
+                      <div className="text-xs text-muted-foreground">{definition.timezone}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{definition.recipients.join(', ')}</TableCell>
+                    <TableCell className="text-sm">{formatDateTime(definition.next_run_at)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={definition.is_active}
+                        onCheckedChange={(checked) => handleToggle(definition, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={runningId !== null}
+                        onClick={() => handleRunNow(definition)}
+                        title={t('reports.scheduled.runNow', 'Run now')}
+                      >
+                        {runningId === definition.id ? (
+                          <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                        ) : (
+                          <Play className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setDraft({ ...definition, recipients: definition.recipients.join(', ') })}
+                        title={t('common.edit')}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDelete(definition)}
+                        title={t('common.delete')}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {t('reports.scheduled.history', 'Run history')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('reports.scheduled.noRuns', 'No reports have run yet.')}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('reports.scheduled.name', 'Name')}</TableHead>
+                  <TableHead>{t('reports.scheduled.startedAt', 'Started')}</TableHead>
+                  <TableHead>{t('reports.scheduled.period', 'Period')}</TableHead>
+                  <TableHead>{t('reports.scheduled.status', 'Status')}</TableHead>
+                  <TableHead>{t('reports.scheduled.rows', 'Rows')}</TableHead>
+                  <TableHead>{t('reports.scheduled.emailsSent', 'Emails sent')}</TableHead>
+                  <TableHead className="text-right">{t('reports.scheduled.file', 'File')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell>
+                      <div className="font-medium">{definitionNames.get(run.definition_id) || '—'}</div>
+                      <div className="text-xs text-muted-foreground">{t(`reports.scheduled.triggers.${run.trigger_type}`)}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDateTime(run.started_at)}</TableCell>
+                    <TableCell className="text-sm">
+                      {run.period_start && run.period_end
+                        ? `${format(new Date(run.period_start), "dd/MM/yyyy")} – ${format(new Date(run.period_end), "dd/MM/yyyy")}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariant(run.status)}>{t(`reports.scheduled.statuses.${run.status}`)}</Badge>
+                      {run.error && <div className="text-xs text-red-600 mt-1 max-w-xs break-words">{run.error}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{run.row_count ?? '—'}</TableCell>
+                    <TableCell className="text-sm">{run.emails_sent}/{run.recipients.length}</TableCell>
+                    <TableCell className="text-right">
+                      {run.file_path && (
+                        <Button size="sm" variant="outline" onClick={() => handleDownload(run)}>
+                          <Download className="h-4 w-4 mr-2" />
+                          {t('reports.scheduled.download', 'Download')}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {draft?.id ? t('reports.scheduled.edit', 'Edit scheduled report') : t('reports.scheduled.new', 'New schedule')}
+            </DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="report-name">{t('reports.scheduled.name', 'Name')}</Label>
+                <Input
+                  id="report-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>{t('reports.typeLabel')}</Label>
+                  <Select value={draft.report_type} onValueChange={(value) => setDraft({ ...draft, report_type: value as ReportDefinition['report_type'] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(REPORT_TITLES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>{t('reports.formatLabel')}</Label>
+                  <Select value={draft.format} onValueChange={(value) => setDraft({ ...draft, format: value as ReportDefinition['format'] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="csv">CSV</SelectItem>
+                      <SelectItem value="excel">Excel</SelectItem>
+                      <SelectItem value="pdf">PDF</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label>{t('reports.scheduled.dateWindow', 'Date window')}</Label>
+                <Select value={draft.date_window} onValueChange={(value) => setDraft({ ...draft, date_window: value as ReportDateWindow })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {DATE_WINDOWS.map(window => (
+                      <SelectItem key={window} value={window}>{t(`reports.scheduled.windows.${window}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label>{t('reports.scheduled.frequency', 'Frequency')}</Label>
+                  <Select value={draft.frequency} onValueChange={(value) => setDraft({ ...draft, frequency: value as ReportFrequency })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {FREQUENCIES.map(frequency => (
+                        <SelectItem key={frequency} value={frequency}>{t(`reports.scheduled.frequencies.${frequency}`)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {draft.frequency === 'weekly' && (
+                  <div>
+                    <Label>{t('reports.scheduled.dayOfWeek', 'Weekday')}</Label>
+                    <Select value={String(draft.day_of_week)} onValueChange={(value) => setDraft({ ...draft, day_of_week: Number(value) })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAYS.map((day, index) => (
+                          <SelectItem key={day} value={String(index)}>{t(`reports.scheduled.weekdays.${day}`)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {draft.frequency === 'monthly' && (
+                  <div>
+                    <Label htmlFor="report-day">{t('reports.scheduled.dayOfMonth', 'Day of month')}</Label>
+                    <Input
+                      id="report-day"
+                      type="number"
+                      min={1}
+                      max={28}
+                      value={draft.day_of_month}
+                      onChange={(e) => setDraft({ ...draft, day_of_month: Math.min(28, Math.max(1, Number(e.target.value) || 1)) })}
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <Label>{t('reports.scheduled.hour', 'Hour')}</Label>
+                  <Select value={String(draft.run_hour)} onValueChange={(value) => setDraft({ ...draft, run_hour: Number(value) })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <SelectItem key={hour} value={String(hour)}>{`${String(hour).padStart(2, '0')}:00`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="report-timezone">{t('reports.scheduled.timezone', 'Timezone')}</Label>
+                <Input
+                  id="report-timezone"
+                  value={draft.timezone}
+                  onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="report-recipients">{t('reports.scheduled.recipients', 'Recipients')}</Label>
+                <Textarea
+                  id="report-recipients"
+                  rows={3}
+                  placeholder="manager@example.com, team@example.com"
+                  value={draft.recipients}
+                  onChange={(e) => setDraft({ ...draft, recipients: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {t('reports.scheduled.recipientsHelp', 'Separate addresses with commas or new lines.')}
+                </p>
+              </div>
+
+              {Object.values(draft.filters || {}).some(values => values?.length) && (
+                <p className="text-xs text-muted-foreground">
+                  {t('reports.selectedFilters', {
+                    count: Object.values(draft.filters).reduce((count, values) => count + (values?.length || 0), 0)
+                  })}
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSave} disabled={saving || !draft?.name.trim() || !draft?.recipients.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -12,7 +12,10 @@ import {
   MessageSquare,
   CheckCircle,
   RotateCcw,
-  Star
+  Star,
+  ArrowUpCircle,
+  GitMerge,
+  Link2
 } from "lucide-react";
 import { DatabaseService, TicketActivityLog } from "@/lib/database";
 import { useTranslation } from "react-i18next";
@@ -63,6 +66,13 @@ export const ActivityLog = ({ ticketId }: ActivityLogProps) => {
         return <CheckCircle className="h-4 w-4 text-gray-600" />;
       case "feedback_received":
         return <Star className="h-4 w-4 text-yellow-600" />;
+      case "escalated":
+        return <ArrowUpCircle className="h-4 w-4 text-rose-600" />;
+      case "merged":
+        return <GitMerge className="h-4 w-4 text-indigo-600" />;
+      case "linked":
+      case "unlinked":
+        return <Link2 className="h-4 w-4 text-cyan-600" />;
       default:
         return <Clock className="h-4 w-4 text-gray-600" />;
     }
@@ -89,6 +99,13 @@ export const ActivityLog = ({ ticketId }: ActivityLogProps) => {
         return "bg-gray-100 dark:bg-gray-800";
       case "feedback_received":
         return "bg-yellow-100 dark:bg-yellow-900/30";
+      case "escalated":
+        return "bg-rose-100 dark:bg-rose-900/30";
+      case "merged":
+        return "bg-indigo-100 dark:bg-indigo-900/30";
+      case "linked":
+      case "unlinked":
+        return "bg-cyan-100 dark:bg-cyan-900/30";
       default:
         return "bg-gray-100 dark:bg-gray-800";
     }
@@ -158,7 +175,9 @@ export const ActivityLog = ({ ticketId }: ActivityLogProps) => {
                       </AvatarFallback>
                     </Avatar>
                     <span className="text-xs text-gray-600 dark:text-gray-400">
-                      {activity.user?.name || 'Sistema'}
+                      {activity.user?.name || (activity.metadata?.auto_closed
+                        ? t('tickets.autoClose.systemActor', 'System (auto-close)')
+                        : 'Sistema')}
                     </span>
                   </div>
 
@@ -182,6 +201,12 @@ export const ActivityLog = ({ ticketId }: ActivityLogProps) => {
                       {activity.metadata.comment_id && (
                         <p><span className="font-medium">{t('tickets.type')}:</span> {activity.metadata.is_internal ? t('tickets.internalNote') : t('tickets.publicComment')}</p>
                       )}
+                      {activity.metadata.auto_closed && activity.metadata.policy_name && (
+                        <p><span className="font-medium">{t('tickets.autoClose.policyLabel', 'Auto-close policy')}:</span> {activity.metadata.policy_name} ({t('tickets.autoClose.inactiveDays', '{{days}} days without activity', { days: activity.metadata.inactivity_days })})</p>
+                      )}
+                      {activity.metadata.merged_from && (
+                        <p><span className="font-medium">{t('tickets.merge.mergedFrom', 'Merged from')}:</span> {activity.metadata.merged_from}</p>
+                      )}
                       {activity.metadata.rating && (
                         <p><span className="font-medium">{t('tickets.rating')}:</span> {activity.metadata.rating} {t('tickets.stars')} ({activity.metadata.satisfaction})</p>
                       )}
@@ -38,6 +38,8 @@ import { ActivityLog } from "./ActivityLog";
 import { SLAMonitor } from "./SLAMonitor";
 // TicketTransferDialog removed - functionality moved to UnifiedTicketDetail
 import { TicketClosureDialog } from "./dialogs/TicketClosureDialog";
+import { SnippetTextarea } from "./SnippetTextarea";
+import { cannedResponseService, type TicketMacro } from "@/lib/cannedResponseService";
 import { supabase } from "@/lib/supabase";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { useTranslation } from 'react-i18next';
@@ -81,6 +83,7 @@ export const AgentResponseInterface = ({
     isInternal: false,
     attachments: []
   });
+  const [pendingMacro, setPendingMacro] = useState<TicketMacro | null>(null);
 
   const { userProfile } = useAuth();
   const { toast } = useToast();
@@ -140,12 +143,33 @@ export const AgentResponseInterface = ({
            (userProfile.role === 'agent' && currentTicket.assigned_to === userProfile.id);
   };
 
+  const handleMacroChange = (macro: TicketMacro | null) => {
+    setPendingMacro(macro);
+    if (macro) setResponse(prev => ({ ...prev, isInternal: macro.reply_is_internal }));
+  };
+
   const handleSubmitResponse = async () => {
-    if (!response.message.trim()) return;
+    if (!response.message.trim() && !pendingMacro) return;
     
     setIsSubmitting(true);
     
     try {
+      // A staged macro posts the reply and applies its changes itself
+      if (pendingMacro && userProfile) {
+        await cannedResponseService.applyMacro(currentTicket, pendingMacro, {
+          agentId: userProfile.id,
+          reply: response.message,
+          isInternal: response.isInternal
+        });
+
+        toast({ title: t('snippets.macroApplied', 'Macro "{{name}}" applied', { name: pendingMacro.name }) });
+        setPendingMacro(null);
+        setResponse({ message: '', status: response.status, isInternal: false, attachments: [] });
+        await refreshTicketData();
+        return;
+      }
+
+
       // Upload de anexos primeiro
       const uploadedAttachments = [];
       for (const file of response.attachments) {
@@ -604,10 +628,13 @@ export const AgentResponseInterface = ({
 
                       {/* Editor de mensagem */}
                       <div className="space-y-2">
-                        <Textarea
+                        <SnippetTextarea
                           placeholder={response.isInternal ? t('agent.internalNotePlaceholder') : t('agent.responsePlaceholder')}
                           value={response.message}
-                          onChange={(e) => setResponse(prev => ({ ...prev, message: e.target.value }))}
+                          onChange={(message) => setResponse(prev => ({ ...prev, message }))}
+                          ticket={currentTicket}
+                          macro={pendingMacro}
+                          onMacroChange={handleMacroChange}
                           rows={4}
                           className="resize-none border-gray-200 dark:border-gray-700 focus:border-blue-500 dark:focus:border-blue-400 transition-colors"
                         />
@@ -678,7 +705,7 @@ export const AgentResponseInterface = ({
                         
                         <Button 
                           onClick={handleSubmitResponse}
-                          disabled={isSubmitting || !response.message.trim()}
+                          disabled={isSubmitting || (!response.message.trim() && !pendingMacro)}
                           className={`${response.isInternal ? 'bg-amber-600 hover:bg-amber-700' : 'bg-blue-600 hover:bg-blue-700'} transition-all duration-200`}
                         >
                           {isSubmitting ? (
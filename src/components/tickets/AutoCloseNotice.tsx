@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { Hourglass, Loader2, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { AutoClosePolicyService, type TicketAutoClose } from "@/lib/autoClosePolicyService";
+import { ReopenService } from "@/lib/reopen-service";
+
+interface AutoCloseNoticeProps {
+  ticket: {
+    id: string;
+    status: string;
+    user_id: string;
+    category_id?: string | null;
+    subcategory_id?: string | null;
+    resolved_at?: string | null;
+    auto_close_reminded_at?: string | null;
+  };
+  currentUserId?: string;
+  onReopenRequested?: () => void;
+}
+
+/**
+ * When a resolved ticket will close automatically; the requester can answer
+ * "still not fixed" here as well as from the reminder notification
+ */
+export const AutoCloseNotice = ({ ticket, currentUserId, onReopenRequested }: AutoCloseNoticeProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [schedule, setSchedule] = useState<TicketAutoClose | null>(null);
+  const [reopenPending, setReopenPending] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const isRequester = !!currentUserId && currentUserId === ticket.user_id;
+
+  useEffect(() => {
+    if (ticket.status !== 'resolved') {
+      setSchedule(null);
+      return;
+    }
+
+    AutoClosePolicyService.getTicketSchedule(ticket)
+      .then(setSchedule)
+      .catch(() => setSchedule(null));
+    ReopenService.getReopenRequests({ ticketId: ticket.id, status: 'pending' })
+      .then(requests => setReopenPending(requests.length > 0))
+      .catch(() => setReopenPending(false));
+  }, [ticket.id, ticket.status, ticket.resolved_at, ticket.auto_close_reminded_at]);
+
+  if (!schedule) return null;
+
+  const handleStillNotFixed = async () => {
+    if (!currentUserId) return;
+
+    try {
+      setSubmitting(true);
+      await AutoClosePolicyService.stillNotFixed(ticket.id, currentUserId);
+      setReopenPending(true);
+      toast({
+        title: t('tickets.autoClose.reopenRequested', 'Reopen requested'),
+        description: t('tickets.autoClose.reopenRequestedDesc', 'An agent will review your request. The ticket will not close in the meantime.'),
+      });
+      onReopenRequested?.();
+    } catch (error) {
+      toast({
+        title: t('common.error', 'Error'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Hourglass className="h-4 w-4" />
+          {t('tickets.autoClose.title', 'Auto-close')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {reopenPending ? (
+          <p className="text-muted-foreground">
+            {t('tickets.autoClose.onHold', 'A reopen request is pending, so this ticket will not close automatically.')}
+          </p>
+        ) : (
+          <p className="text-muted-foreground">
+            {t('tickets.autoClose.closesOn', 'Closes automatically on {{date}} if there is no further activity.', {
+              date: format(schedule.closeAt, 'PPp'),
+            })}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {t('tickets.autoClose.policy', 'Policy: {{name}} ({{days}} days)', {
+            name: schedule.policy.name,
+            days: schedule.policy.inactivity_days,
+          })}
+        </p>
+        {isRequester && !reopenPending && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full flex items-center gap-2"
+            onClick={handleStillNotFixed}
+            disabled={submitting}
+          >
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+            {t('tickets.autoClose.stillNotFixed', 'Still not fixed')}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -162,9 +162,16 @@ export const FeedbackViewDialog = ({
                     <Star className="h-5 w-5 text-yellow-500 fill-current" />
                     Avaliação do Usuário
                   </CardTitle>
-                  <Badge variant="outline" className="text-xs">
-                    {new Date(feedback.created_at).toLocaleDateString('pt-BR')} às {new Date(feedback.created_at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    {feedback.source === 'email_survey' && (
+                      <Badge variant="secondary" className="text-xs">
+                        Via pesquisa por e-mail
+                      </Badge>
+                    )}
+                    <Badge variant="outline" className="text-xs">
+                      {new Date(feedback.created_at).toLocaleDateString('pt-BR')} às {new Date(feedback.created_at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
+                    </Badge>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="space-y-6">
@@ -210,6 +217,18 @@ export const FeedbackViewDialog = ({
                   </div>
                 </div>
 
+                {/* Recommendation (NPS) Display */}
+                {feedback.nps_score !== null && feedback.nps_score !== undefined && (
+                  <div>
+                    <label className="block text-sm font-semibold mb-3 text-gray-900 dark:text-gray-100">
+                      📣 Recomendaria o suporte:
+                    </label>
+                    <span className="text-lg font-bold text-gray-900 dark:text-gray-100">
+                      {feedback.nps_score}/10
+                    </span>
+                  </div>
+                )}
+
                 {/* Categories Display */}
                 {feedback.categories && feedback.categories.length > 0 && (
                   <div>
@@ -14,6 +14,7 @@ import {
   Activity
 } from "lucide-react";
 import DatabaseService from '@/lib/database';
+import { BusinessCalendarService } from '@/lib/businessCalendarService';
 import { Link } from "react-router-dom";
 
 interface SLAOverview {
@@ -45,7 +46,7 @@ export const SLADashboard = ({ userRole = "user", userId }: SLADashboardProps) =
       setLoading(true);
 
       // Load SLA warnings and breaches
-      const slaWarnings = await DatabaseService.checkSLAWarnings();
+      const slaWarnings = await DatabaseService.countSLAWarnings();
       
       // Get ticket statistics
       const ticketStats = await DatabaseService.getTicketStatistics(userId, userRole);
@@ -73,17 +74,22 @@ export const SLADashboard = ({ userRole = "user", userId }: SLADashboardProps) =
           userRole
         });
         
-        // Filter tickets that might have SLA issues (simplified check)
-        const critical = tickets.filter(ticket => {
-          const hoursElapsed = (new Date().getTime() - new Date(ticket.created_at).getTime()) / (1000 * 60 * 60);
-          const priorityThresholds: Record<string, number> = {
-            urgent: 1,
-            high: 2,
-            medium: 4,
-            low: 8
-          };
-          return hoursElapsed > (priorityThresholds[ticket.priority] || 4);
-        }).slice(0, 3);
+        // Filter tickets that might have SLA issues (simplified check, in business hours)
+        const priorityThresholds: Record<string, number> = {
+          urgent: 1,
+          high: 2,
+          medium: 4,
+          low: 8
+        };
+        const now = new Date();
+        const withElapsed = await Promise.all(tickets.map(async ticket => {
+          const calendar = await BusinessCalendarService.resolveCalendarForTicket(ticket);
+          const hoursElapsed = BusinessCalendarService.calculateElapsedHours(new Date(ticket.created_at), now, calendar);
+          return { ...ticket, hoursElapsed };
+        }));
+        const critical = withElapsed
+          .filter(ticket => ticket.hoursElapsed > (priorityThresholds[ticket.priority] || 4))
+          .slice(0, 3);
         
         setCriticalTickets(critical);
       }
@@ -236,8 +242,6 @@ export const SLADashboard = ({ userRole = "user", userId }: SLADashboardProps) =
           </CardHeader>
           <CardContent className="space-y-3">
             {criticalTickets.map((ticket) => {
-              const hoursElapsed = (new Date().getTime() - new Date(ticket.created_at).getTime()) / (1000 * 60 * 60);
-              
               return (
                 <div key={ticket.id} className="flex items-center justify-between p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
                   <div className="flex-1">
@@ -253,7 +257,7 @@ export const SLADashboard = ({ userRole = "user", userId }: SLADashboardProps) =
                       {ticket.title}
                     </p>
                     <p className="text-xs text-red-600 dark:text-red-400">
-                      Elapsed: {Math.round(hoursElapsed)}h
+                      Elapsed: {Math.round(ticket.hoursElapsed)}h
                     </p>
                   </div>
                   <Button
@@ -12,7 +12,10 @@ import {
   Timer,
   Pause,
   MessageCircle,
-  RefreshCw
+  RefreshCw,
+  Play,
+  Square,
+  History
 } from "lucide-react";
 import { DatabaseService, SLAStatus } from "@/lib/database";
 import { useTranslation } from "react-i18next";
@@ -146,10 +149,8 @@ export const SLAMonitor = ({
     // Para tempo de resposta: verificar se primeira resposta foi dada E se foi dentro do prazo
     if (statusType === 'response') {
       if (firstResponseTime) {
-        // Primeira resposta foi dada - verificar se foi dentro do prazo
-        const responseTime = new Date(firstResponseTime);
-        const createdTime = new Date(createdAt);
-        const responseHours = (responseTime.getTime() - createdTime.getTime()) / (1000 * 60 * 60);
+        // Primeira resposta foi dada - verificar se foi dentro do prazo (em horas úteis)
+        const responseHours = slaStatus?.responseTimeElapsed ?? 0;
         
         if (responseHours <= target) {
           return t('sla.target_met');
@@ -165,10 +166,8 @@ export const SLAMonitor = ({
     // Para tempo de resolução: só mostra "Meta Atingida" se ticket foi realmente resolvido dentro do prazo
     if (statusType === 'resolution') {
       if (status === 'resolved' || status === 'closed') {
-        // Ticket foi resolvido - verificar se foi dentro do prazo
-        const resolutionTime = resolvedAt ? new Date(resolvedAt) : new Date();
-        const createdTime = new Date(createdAt);
-        const resolutionHours = (resolutionTime.getTime() - createdTime.getTime()) / (1000 * 60 * 60);
+        // Ticket foi resolvido - verificar se foi dentro do prazo (em horas úteis)
+        const resolutionHours = slaStatus?.totalTimeElapsed ?? elapsed;
         
         if (resolutionHours <= target) {
           return t('sla.target_met');
@@ -194,9 +193,7 @@ export const SLAMonitor = ({
       return slaStatus?.responseStatus || 'in_progress';
     } else {
       // Já respondeu - verificar se foi dentro do prazo
-      const responseTime = new Date(firstResponseTime);
-      const createdTime = new Date(createdAt);
-      const responseHours = (responseTime.getTime() - createdTime.getTime()) / (1000 * 60 * 60);
+      const responseHours = slaStatus?.responseTimeElapsed ?? 0;
       const target = slaStatus?.slaRule?.response_time as number || 24;
       
       if (responseHours <= target) {
@@ -239,6 +236,24 @@ export const SLAMonitor = ({
     return remainingHours ? `${days}d ${remainingHours}h` : `${days}d`;
   };
 
+  const clockEventLabels: Record<string, string> = {
+    started: 'Clock started',
+    paused: 'Clock paused',
+    resumed: 'Clock resumed',
+    stopped: 'Clock stopped'
+  };
+
+  const statusKey = (value: string) => value === 'in_progress' ? 'inProgress' : value;
+
+  const getClockEventIcon = (eventType: string) => {
+    switch (eventType) {
+      case 'paused': return <Pause className="h-3 w-3 text-yellow-500" />;
+      case 'resumed': return <Play className="h-3 w-3 text-blue-500" />;
+      case 'stopped': return <Square className="h-3 w-3 text-gray-500" />;
+      default: return <Timer className="h-3 w-3 text-green-500" />;
+    }
+  };
+
   const getProgressValue = (elapsed: number, target: number) => {
     if (!slaStatus?.isActive) return 100;
     return Math.max(0, Math.min(100, ((target - elapsed) / target) * 100));
@@ -279,6 +294,12 @@ export const SLAMonitor = ({
               {t('sla.stopped')}
             </Badge>
           )}
+          {slaStatus.isPaused && (
+            <Badge className={getStatusColor('stopped')}>
+              <Pause className="h-3 w-3 mr-1" />
+              {t('sla.paused', 'Paused')}
+            </Badge>
+          )}
           {(userRole === 'agent' || userRole === 'admin') && (
             <Button
               variant="outline"
@@ -313,7 +334,8 @@ export const SLAMonitor = ({
                    getResponseDisplayStatus() === 'overdue' ? t('sla.status.overdue') :
                    getResponseDisplayStatus() === 'completed_late' ? t('sla.status.completed_late') :
                    getResponseDisplayStatus() === 'missed' ? t('sla.status.missed') :
-                   getResponseDisplayStatus() === 'warning' ? t('sla.status.warning') : t('sla.status.in_progress')}
+                   getResponseDisplayStatus() === 'warning' ? t('sla.status.warning') :
+                   getResponseDisplayStatus() === 'stopped' ? t('sla.paused', 'Paused') : t('sla.status.in_progress')}
                 </Badge>
               </div>
             </div>
@@ -372,7 +394,8 @@ export const SLAMonitor = ({
                   {(status === 'resolved' || status === 'closed') ? 
                     (formatTimeRemaining(slaStatus.totalTimeElapsed, slaStatus.slaRule.resolution_time as number, 'resolution') === t('sla.target_met') ? t('sla.status.met') : t('sla.status.completed_late')) :
                    slaStatus.resolutionStatus === 'overdue' ? t('sla.status.overdue') :
-                   slaStatus.resolutionStatus === 'warning' ? t('sla.status.warning') : t('sla.status.in_progress')}
+                   slaStatus.resolutionStatus === 'warning' ? t('sla.status.warning') :
+                   slaStatus.resolutionStatus === 'stopped' ? t('sla.paused', 'Paused') : t('sla.status.in_progress')}
                 </Badge>
               </div>
             </div>
@@ -436,8 +459,71 @@ export const SLAMonitor = ({
               </p>
             </div>
           </div>
+          {slaStatus.calendarName && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mt-4">
+              <div>
+                <span className="text-gray-500 dark:text-gray-400">{t('sla.business_calendar', 'Business hours')}:</span>
+                <p className="font-medium dark:text-gray-200">{slaStatus.calendarName}</p>
+              </div>
+              {slaStatus.isActive && !firstResponseTime && slaStatus.responseDeadline && (
+                <div>
+                  <span className="text-gray-500 dark:text-gray-400">{t('sla.response_deadline', 'Response due')}:</span>
+                  <p className="font-medium dark:text-gray-200">
+                    {new Date(slaStatus.responseDeadline).toLocaleString(i18n.language)}
+                  </p>
+                </div>
+              )}
+              {slaStatus.isActive && slaStatus.resolutionDeadline && (
+                <div>
+                  <span className="text-gray-500 dark:text-gray-400">{t('sla.resolution_deadline', 'Resolution due')}:</span>
+                  <p className="font-medium dark:text-gray-200">
+                    {new Date(slaStatus.resolutionDeadline).toLocaleString(i18n.language)}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
+        {slaStatus.clockEvents && slaStatus.clockEvents.length > 0 && (
+          <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-semibold flex items-center gap-2 text-gray-900 dark:text-gray-100">
+                <History className="h-4 w-4" />
+                {t('sla.clock_history', 'SLA clock history')}
+              </h4>
+              {!!slaStatus.pausedTime && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {t('sla.total_paused', 'Total paused')}: {formatDuration(Math.round(slaStatus.pausedTime))}
+                </span>
+              )}
+            </div>
+            <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-3">
+              {slaStatus.clockEvents.map((event) => (
+                <li key={event.id} className="ml-4">
+                  <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-white dark:bg-gray-800">
+                    {getClockEventIcon(event.event_type)}
+                  </span>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-medium dark:text-gray-200">
+                      {t(`sla.clock_event.${event.event_type}`, clockEventLabels[event.event_type])}
+                    </span>
+                    {event.from_status && event.to_status && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {t(`status.${statusKey(event.from_status)}`, event.from_status)} → {t(`status.${statusKey(event.to_status)}`, event.to_status)}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(event.occurred_at).toLocaleString(i18n.language)}
+                    {event.user?.full_name ? ` · ${event.user.full_name}` : ''}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
         <TooltipProvider>
           <div className="space-y-4">
             <div className="flex items-center justify-between">
@@ -458,7 +544,7 @@ export const SLAMonitor = ({
                   </div>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>Time elapsed since ticket creation</p>
+                  <p>{slaStatus.calendarName ? 'Business hours elapsed since ticket creation' : 'Time elapsed since ticket creation'}</p>
                 </TooltipContent>
               </Tooltip>
             </div>
@@ -498,7 +584,7 @@ export const SLAMonitor = ({
             {resolvedAt && (
               <div className="flex items-center gap-2 text-sm text-emerald-500">
                 <CheckCircle className="h-4 w-4" />
-                <span>Resolved in {formatDuration(Math.round((new Date(resolvedAt).getTime() - new Date(createdAt).getTime()) / (1000 * 60 * 60)))}</span>
+                <span>Resolved in {formatDuration(Math.round(slaStatus.totalTimeElapsed))}</span>
               </div>
             )}
           </div>
@@ -0,0 +1,30 @@
+import { splitSnippet } from "@/lib/ticketSearchService";
+import { cn } from "@/lib/utils";
+
+interface SearchSnippetProps {
+  snippet?: string | null;
+  className?: string;
+}
+
+/**
+ * Text matched by a ticket search, with the matching words highlighted. The
+ * snippet is user content, so it is rendered as text, never as HTML.
+ */
+export const SearchSnippet = ({ snippet, className }: SearchSnippetProps) => {
+  const segments = splitSnippet(snippet);
+  if (segments.length === 0) return null;
+
+  return (
+    <p className={cn("text-xs text-muted-foreground line-clamp-2", className)}>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/30">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+};
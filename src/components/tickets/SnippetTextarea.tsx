@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { MessageSquareText, Wand2, X } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "@/contexts/AuthContext";
+import type { TicketWithDetails } from "@/lib/database";
+import {
+  cannedResponseService,
+  fillSnippet,
+  replaceSlashCommand,
+  searchSnippets,
+  slashQueryAt,
+  snippetVariables,
+  type MacroActions,
+  type SnippetOption,
+  type TicketMacro,
+} from "@/lib/cannedResponseService";
+
+interface SnippetTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  ticket: Pick<TicketWithDetails, 'ticket_number' | 'title' | 'user' | 'category'>;
+  /** The macro staged for this reply; without onMacroChange only canned responses are offered */
+  macro?: TicketMacro | null;
+  onMacroChange?: (macro: TicketMacro | null) => void;
+  id?: string;
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+}
+
+/**
+ * Short list of what a macro will change, for the staged-macro chip
+ */
+export const useMacroSummary = () => {
+  const { t } = useTranslation();
+
+  return (actions: MacroActions): string[] => {
+    const changes: string[] = [];
+    if (actions.status) {
+      const statusKey = actions.status === 'in_progress' ? 'inProgress' : actions.status;
+      changes.push(t('snippets.changes.status', 'Status → {{value}}', { value: t(`status.${statusKey}`, actions.status) }));
+    }
+    if (actions.priority) changes.push(t('snippets.changes.priority', 'Priority → {{value}}', { value: t(`priority.${actions.priority}`, actions.priority) }));
+    if (actions.assigned_to === 'me') changes.push(t('snippets.changes.assignToMe', 'Assign to me'));
+    else if (actions.assigned_to === null) changes.push(t('snippets.changes.unassign', 'Unassign'));
+    else if (actions.assigned_to) changes.push(t('snippets.changes.reassign', 'Reassign'));
+    if (actions.add_tag_ids?.length) changes.push(t('snippets.changes.addTags', '+{{count}} tags', { count: actions.add_tag_ids.length }));
+    if (actions.remove_tag_ids?.length) changes.push(t('snippets.changes.removeTags', '−{{count}} tags', { count: actions.remove_tag_ids.length }));
+    return changes;
+  };
+};
+
+/**
+ * Reply box with a slash-command picker: typing "/" followed by a shortcut or
+ * words of a title lists matching canned responses and macros. Picking one
+ * inserts its text with the ticket's placeholders filled; a macro is also
+ * staged so its field changes go out with the reply.
+ */
+export const SnippetTextarea = ({
+  value,
+  onChange,
+  ticket,
+  macro,
+  onMacroChange,
+  id,
+  placeholder,
+  rows = 4,
+  className,
+}: SnippetTextareaProps) => {
+  const { t } = useTranslation();
+  const { userProfile } = useAuth();
+  const summarize = useMacroSummary();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [options, setOptions] = useState<SnippetOption[]>([]);
+  const [command, setCommand] = useState<{ query: string; start: number } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const canUseSnippets = userProfile?.role === 'agent' || userProfile?.role === 'admin';
+
+  useEffect(() => {
+    if (!canUseSnippets) return;
+    cannedResponseService.getPickerOptions()
+      .then(setOptions)
+      .catch(error => console.error('Error loading canned responses:', error));
+  }, [canUseSnippets]);
+
+  const matches = useMemo(() => {
+    if (!command) return [];
+    const available = onMacroChange ? options : options.filter(option => option.kind === 'response');
+    return searchSnippets(available, command.query);
+  }, [command, options, onMacroChange]);
+
+  useEffect(() => {
+    setHighlighted(0);
+  }, [command?.query]);
+
+  const updateCommand = (text: string, caret: number) => {
+    setCommand(canUseSnippets ? slashQueryAt(text, caret) : null);
+  };
+
+  const moveCaret = (position: number) => {
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const pick = (option: SnippetOption) => {
+    if (!command) return;
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    const variables = snippetVariables(ticket, userProfile);
+    const source = option.kind === 'response' ? option.item.content : option.item.reply_content || '';
+    const next = replaceSlashCommand(value, command.start, caret, fillSnippet(source, variables));
+
+    onChange(next.text);
+    setCommand(null);
+    moveCaret(next.caret);
+
+    if (option.kind === 'macro') {
+      onMacroChange?.(option.item);
+    } else {
+      cannedResponseService.recordUse(option);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!command || matches.length === 0) return;
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setHighlighted(index => (index + 1) % matches.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setHighlighted(index => (index - 1 + matches.length) % matches.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      pick(matches[highlighted]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      setCommand(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          id={id}
+          value={value}
+          placeholder={placeholder}
+          rows={rows}
+          className={className}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateCommand(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateCommand(e.currentTarget.value, e.currentTarget.selectionStart)}
+          onBlur={() => setTimeout(() => setCommand(null), 150)}
+          aria-autocomplete="list"
+          aria-expanded={!!command && matches.length > 0}
+        />
+
+        {command && (
+          <div
+            role="listbox"
+            className="absolute left-0 right-0 top-full z-50 mt-1 max-h-72 overflow-auto rounded-md border bg-popover p-1 shadow-md"
+          >
+            {matches.length === 0 ? (
+              <p className="px-2 py-1.5 text-sm text-muted-foreground">
+                {options.length === 0
+                  ? t('snippets.picker.empty', 'No canned responses yet')
+                  : t('snippets.picker.noMatches', 'Nothing matches "/{{query}}"', { query: command.query })}
+              </p>
+            ) : (
+              matches.map((option, index) => (
+                <button
+                  key={`${option.kind}-${option.item.id}`}
+                  type="button"
+                  role="option"
+                  aria-selected={index === highlighted}
+                  className={`flex w-full items-start gap-2 rounded-sm px-2 py-1.5 text-left text-sm ${
+                    index === highlighted ? 'bg-accent text-accent-foreground' : ''
+                  }`}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setHighlighted(index)}
+                  onClick={() => pick(option)}
+                >
+                  {option.kind === 'macro' ? (
+                    <Wand2 className="mt-0.5 h-4 w-4 shrink-0 text-purple-600" />
+                  ) : (
+                    <MessageSquareText className="mt-0.5 h-4 w-4 shrink-0 text-blue-600" />
+                  )}
+                  <span className="min-w-0 flex-1">
+                    <span className="flex items-center gap-2">
+                      <span className="font-medium truncate">
+                        {option.kind === 'macro' ? option.item.name : option.item.title}
+                      </span>
+                      <code className="text-xs text-muted-foreground">/{option.item.shortcut}</code>
+                      {!option.item.is_shared && (
+                        <Badge variant="outline" className="text-[10px]">{t('snippets.personal', 'Personal')}</Badge>
+                      )}
+                    </span>
+                    <span className="block truncate text-xs text-muted-foreground">
+                      {option.kind === 'macro'
+                        ? [option.item.description, ...summarize(option.item.actions)].filter(Boolean).join(' · ')
+                        : option.item.content}
+                    </span>
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
+      {macro && onMacroChange ? (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border border-purple-200 bg-purple-50 px-3 py-2 text-sm dark:border-purple-800 dark:bg-purple-900/20">
+          <Wand2 className="h-4 w-4 text-purple-600" />
+          <span className="font-medium">{macro.name}</span>
+          {summarize(macro.actions).map(change => (
+            <Badge key={change} variant="secondary">{change}</Badge>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-6 w-6 p-0"
+            onClick={() => onMacroChange(null)}
+            title={t('snippets.removeMacro', 'Remove macro')}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        canUseSnippets && (
+          <p className="text-xs text-muted-foreground">
+            {onMacroChange
+              ? t('snippets.hint', 'Type / for canned responses and macros')
+              : t('snippets.hintResponses', 'Type / for canned responses')}
+          </p>
+        )
+      )}
+    </div>
+  );
+};
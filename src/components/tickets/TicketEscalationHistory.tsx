@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { escalationService, type EscalationStatus, type TicketEscalation } from "@/lib/escalationService";
+import { cn } from "@/lib/utils";
+
+interface TicketEscalationHistoryProps {
+  ticketId: string;
+}
+
+const statusStyles: Record<EscalationStatus, string> = {
+  pending: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  done: "bg-rose-100 text-rose-800 dark:bg-rose-900/30 dark:text-rose-300",
+  skipped: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+/**
+ * Escalation steps that have run for a ticket, newest first
+ */
+export const TicketEscalationHistory = ({ ticketId }: TicketEscalationHistoryProps) => {
+  const { t } = useTranslation();
+  const [escalations, setEscalations] = useState<TicketEscalation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    escalationService.getTicketEscalations(ticketId)
+      .then(setEscalations)
+      .catch(() => setEscalations([]))
+      .finally(() => setLoading(false));
+  }, [ticketId]);
+
+  if (loading) {
+    return <div className="h-10 bg-gray-100 dark:bg-gray-800 rounded animate-pulse" />;
+  }
+
+  if (escalations.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {t('admin.escalationPolicies.noHistory', 'No escalation steps have run for this ticket.')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {escalations.map(escalation => (
+        <div key={escalation.id} className="text-xs space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium text-sm">
+              {t(`admin.escalationPolicies.actions.${escalation.action}`, escalation.action)}
+            </span>
+            <Badge variant="secondary" className={cn("text-xs", statusStyles[escalation.status])}>
+              {t(`admin.escalationPolicies.status.${escalation.status}`, escalation.status)}
+            </Badge>
+          </div>
+          {escalation.details && <p className="text-muted-foreground">{escalation.details}</p>}
+          <p className="text-muted-foreground">
+            {escalation.policy?.name || (escalation.rule_id ? t('admin.assignmentRules.method.rule', 'Rule') : null)}
+            {' · '}
+            {formatDistanceToNow(new Date(escalation.executed_at), { addSuffix: true })}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
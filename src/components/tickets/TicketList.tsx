@@ -13,13 +13,16 @@ import { TicketClosureDialog } from "./dialogs/TicketClosureDialog";
 import { TicketReopenDialog } from "./dialogs/TicketReopenDialog";
 
 import { FeedbackViewDialog } from "./FeedbackViewDialog";
-import { Search, Filter, Calendar, User, AlertCircle, Clock, CheckCircle, XCircle, Edit, Eye, MoreHorizontal, RotateCcw, UserCheck, Star, ChevronDown, Plus, RefreshCw, AlertTriangle, MessageSquare, Loader2 } from "lucide-react";
+import { Search, Filter, Calendar, User, AlertCircle, Clock, CheckCircle, XCircle, Edit, Eye, MoreHorizontal, RotateCcw, UserCheck, Star, ChevronDown, Plus, RefreshCw, AlertTriangle, MessageSquare, Loader2, Hash } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { DatabaseService, TicketWithDetails } from "@/lib/database";
+import { DatabaseService, TicketWithDetails, type TicketTag } from "@/lib/database";
+import { getTagBadgeStyle } from "./TicketTags";
+import { SearchSnippet } from "./SearchSnippet";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "react-i18next";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useDebounce } from "@/hooks/useDebounce";
 import { cn } from "@/lib/utils";
 
 interface TicketListProps {
@@ -30,13 +33,19 @@ interface TicketListProps {
   statusFilter?: string;
   showAllAgentTickets?: boolean;
   customTickets?: TicketWithDetails[];
+  queueId?: string;
+  initialSearchTerm?: string; // e.g. from the command palette's "all results"
 }
 
-export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassignedOnly = false, statusFilter, showAllAgentTickets = false, customTickets }: TicketListProps) => {
+export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassignedOnly = false, statusFilter, showAllAgentTickets = false, customTickets, queueId, initialSearchTerm }: TicketListProps) => {
   const navigate = useNavigate();
-  const [searchTerm, setSearchTerm] = useState("");
+  const [searchTerm, setSearchTerm] = useState(initialSearchTerm ?? "");
+  // Searching runs a full-text query, so wait for a pause in typing
+  const debouncedSearchTerm = useDebounce(searchTerm, 300);
   const [localStatusFilter, setLocalStatusFilter] = useState("all");
   const [priorityFilter, setPriorityFilter] = useState("all");
+  const [tagFilter, setTagFilter] = useState("all");
+  const [availableTags, setAvailableTags] = useState<TicketTag[]>([]);
   const [selectedTicket, setSelectedTicket] = useState<TicketWithDetails | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isResolutionDialogOpen, setIsResolutionDialogOpen] = useState(false);
@@ -53,6 +62,16 @@ export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassi
   const { t } = useTranslation();
   const isMobile = useIsMobile();
 
+  useEffect(() => {
+    if (initialSearchTerm !== undefined) setSearchTerm(initialSearchTerm);
+  }, [initialSearchTerm]);
+
+  useEffect(() => {
+    DatabaseService.getTicketTags()
+      .then(setAvailableTags)
+      .catch(() => setAvailableTags([]));
+  }, []);
+
   // Load tickets from database or use custom tickets
   useEffect(() => {
     const loadTickets = async () => {
@@ -80,9 +99,11 @@ export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassi
           unassignedOnly,
           statusFilter,
           userRole: userProfile.role,
-          searchTerm: searchTerm.trim() || undefined,
+          searchTerm: debouncedSearchTerm.trim() || undefined,
           limit,
-          showAllAgentTickets
+          showAllAgentTickets,
+          tagIds: tagFilter !== "all" ? [tagFilter] : undefined,
+          queueId
         };
         
         const ticketData = await DatabaseService.getTickets(options);
@@ -115,10 +136,12 @@ export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassi
     unassignedOnly,
     statusFilter,
     showAll,
-    searchTerm,
+    debouncedSearchTerm,
     limit,
     showAllAgentTickets,
+    tagFilter,
     customTickets,
+    queueId,
     toast
   ]);
 
@@ -240,8 +263,10 @@ export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassi
         unassignedOnly,
         statusFilter,
         userRole: userProfile.role,
-        searchTerm: searchTerm.trim() || undefined,
-        limit
+        searchTerm: debouncedSearchTerm.trim() || undefined,
+        limit,
+        tagIds: tagFilter !== "all" ? [tagFilter] : undefined,
+        queueId
       };
       
       const ticketData = await DatabaseService.getTickets(options);
@@ -312,9 +337,9 @@ export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassi
     return tickets.filter(ticket => {
       if (!ticket) return false;
 
-      // Enhanced search including assignee name and creator email
+      // Fetched tickets were matched by the full-text search; custom tickets are searched here
       const searchLower = searchTerm.toLowerCase();
-      const matchesSearch = !searchTerm || 
+      const matchesSearch = !searchTerm || !customTickets ||
                           (ticket.title && ticket.title.toLowerCase().includes(searchLower)) ||
                           (ticket.description && ticket.description.toLowerCase().includes(searchLower)) ||
                           ticket.id.toString().includes(searchLower) ||
@@ -337,9 +362,12 @@ export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassi
 
       const matchesPriority = priorityFilter === "all" || ticket.priority === priorityFilter;
 
-      return matchesSearch && matchesStatus && matchesPriority;
+      // Fetched tickets are already filtered by the query; custom tickets are not
+      const matchesTag = tagFilter === "all" || (ticket.tags || []).some(tag => tag.id === tagFilter);
+
+      return matchesSearch && matchesStatus && matchesPriority && matchesTag;
     });
-  }, [tickets, searchTerm, statusFilter, localStatusFilter, priorityFilter]);
+  }, [tickets, searchTerm, customTickets, statusFilter, localStatusFilter, priorityFilter, tagFilter]);
 
   const TicketCard = ({ ticket }: { ticket: TicketWithDetails }) => {
     const { t } = useTranslation();
@@ -377,6 +405,17 @@ export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassi
               <p className="text-sm text-muted-foreground line-clamp-2">
                 {ticket.description}
               </p>
+              <SearchSnippet snippet={ticket.search_snippet} />
+              {ticket.tags && ticket.tags.length > 0 && (
+                <div className="flex gap-1 flex-wrap">
+                  {ticket.tags.map(tag => (
+                    <Badge key={tag.id} variant="outline" className="text-xs" style={getTagBadgeStyle(tag.color)}>
+                      <Hash className="h-3 w-3 mr-0.5" />
+                      {tag.name}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Footer with metadata and actions */}
@@ -503,7 +542,8 @@ export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassi
     );
   }
 
-  if (!Array.isArray(tickets) || tickets.length === 0) {
+  // With a tag filter active keep the toolbar visible so the filter can be cleared
+  if (!Array.isArray(tickets) || (tickets.length === 0 && tagFilter === "all")) {
     return (
       <Card className="p-6">
         <div className="text-center">
@@ -544,7 +584,7 @@ export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassi
         <div className="relative flex-1 w-full">
           <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder={t('search.placeholder')}
+            placeholder={t('search.queryPlaceholder', 'Search tickets, e.g. status:open priority:urgent "exact phrase"')}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-8 w-full"
@@ -583,6 +623,25 @@ export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassi
             </SelectContent>
           </Select>
 
+          {availableTags.length > 0 && (
+            <Select
+              value={tagFilter}
+              onValueChange={setTagFilter}
+            >
+              <SelectTrigger className="w-full sm:w-[180px]" aria-label={t('filter.tag', 'Tag')}>
+                <SelectValue placeholder={t('filter.tag', 'Tag')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('filter.allTags', 'All tags')}</SelectItem>
+                {availableTags.map(tag => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    {tag.name} ({tag.usage_count || 0})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
           <Button
             variant="outline"
             size="icon"
@@ -599,6 +658,9 @@ export const TicketList = ({ limit, showAll = true, assignedOnly = false, unassi
         {filteredTickets.map((ticket) => (
           <TicketCard key={ticket.id} ticket={ticket} />
         ))}
+        {filteredTickets.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground py-6">{t('tickets.adjustSearchFilters')}</p>
+        )}
       </div>
 
       {selectedTicket && (
@@ -16,10 +16,6 @@ export function TicketProperties({ ticket, userRole, className }: TicketProperti
   const { t } = useTranslation();
   const { data: assigneeProfile } = useUser(ticket?.assigned_to ?? undefined);
 
-  const handleTagsChange = (tags: string[]) => {
-    /* TODO: persist tag updates */
-  };
-
   return (
     <div className={cn('space-y-6', className)}>
       {/* SLA */}
@@ -48,8 +44,6 @@ export function TicketProperties({ ticket, userRole, className }: TicketProperti
         <CardContent>
           <TicketTags
             ticketId={ticket.id}
-            selectedTags={(ticket as any).tags ?? []}
-            onTagsChange={handleTagsChange}
             mode={userRole !== 'user' ? 'edit' : 'display'}
           />
         </CardContent>
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Inbox, Loader2, Layers } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTicketCount } from "@/contexts/TicketCountContext";
+import { useToast } from "@/hooks/use-toast";
+import { teamService, type QueueCounts, type TicketQueue } from "@/lib/teamService";
+import { cn } from "@/lib/utils";
+
+interface TicketQueueBarProps {
+  selectedQueueId?: string;
+  onSelect: (queueId: string | undefined) => void;
+}
+
+/**
+ * Per-queue views for agents: the queues of their teams (all queues for
+ * admins) with waiting ticket counts, and "pull next" for the queues they
+ * belong to
+ */
+export const TicketQueueBar = ({ selectedQueueId, onSelect }: TicketQueueBarProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { userProfile } = useAuth();
+  const { triggerRefresh } = useTicketCount();
+  const [queues, setQueues] = useState<TicketQueue[]>([]);
+  const [memberQueueIds, setMemberQueueIds] = useState<Set<string>>(new Set());
+  const [counts, setCounts] = useState<Record<string, QueueCounts>>({});
+  const [isPulling, setIsPulling] = useState(false);
+
+  const loadQueues = useCallback(async () => {
+    if (!userProfile?.id) return;
+
+    try {
+      const memberQueues = await teamService.getQueues({ memberId: userProfile.id });
+      const visibleQueues = userProfile.role === 'admin' ? await teamService.getQueues() : memberQueues;
+
+      setQueues(visibleQueues);
+      setMemberQueueIds(new Set(memberQueues.map(queue => queue.id)));
+      setCounts(await teamService.getQueueCounts(visibleQueues.map(queue => queue.id)));
+    } catch (error) {
+      // Queues are optional; the regular ticket views keep working without them
+      setQueues([]);
+    }
+  }, [userProfile?.id, userProfile?.role]);
+
+  useEffect(() => {
+    loadQueues();
+  }, [loadQueues]);
+
+  const canPull = selectedQueueId ? memberQueueIds.has(selectedQueueId) : memberQueueIds.size > 0;
+
+  const handlePullNext = async () => {
+    setIsPulling(true);
+    try {
+      const ticketId = await teamService.pullNextTicket(selectedQueueId);
+
+      if (!ticketId) {
+        toast({
+          title: t('tickets.queues.empty', 'Nothing to pull'),
+          description: t('tickets.queues.emptyDescription', 'There are no unassigned open tickets in your queues.'),
+        });
+        return;
+      }
+
+      triggerRefresh();
+      navigate(`/ticket/${ticketId}`);
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('tickets.queues.pullFailed', 'Failed to pull the next ticket'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsPulling(false);
+      loadQueues();
+    }
+  };
+
+  if (queues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Layers className="h-4 w-4 text-muted-foreground" />
+      <Button
+        variant={selectedQueueId ? "outline" : "default"}
+        size="sm"
+        onClick={() => onSelect(undefined)}
+      >
+        {t('tickets.queues.allQueues', 'All tickets')}
+      </Button>
+      {queues.map(queue => (
+        <Button
+          key={queue.id}
+          variant={selectedQueueId === queue.id ? "default" : "outline"}
+          size="sm"
+          onClick={() => onSelect(queue.id)}
+          title={queue.description || undefined}
+        >
+          <span className="text-muted-foreground mr-1">{queue.team?.name} /</span>
+          {queue.name}
+          <Badge
+            variant="secondary"
+            className={cn("ml-2", (counts[queue.id]?.unassigned ?? 0) > 0 && "bg-blue-100 text-blue-800")}
+          >
+            {counts[queue.id]?.unassigned ?? 0}
+          </Badge>
+        </Button>
+      ))}
+      {canPull && (
+        <Button size="sm" className="ml-auto" onClick={handlePullNext} disabled={isPulling}>
+          {isPulling ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Inbox className="h-4 w-4 mr-2" />}
+          {t('tickets.queues.pullNext', 'Pull next')}
+        </Button>
+      )}
+    </div>
+  );
+};
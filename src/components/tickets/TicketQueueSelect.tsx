@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { teamService, type TicketQueue } from "@/lib/teamService";
+
+interface TicketQueueSelectProps {
+  ticketId: string;
+  queueId?: string | null;
+  disabled?: boolean;
+  onChange?: (queueId: string | null) => void;
+}
+
+/**
+ * Queue picker for a ticket; saves straight away. The ticket takes the team
+ * of the queue.
+ */
+export const TicketQueueSelect = ({ ticketId, queueId, disabled = false, onChange }: TicketQueueSelectProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [queues, setQueues] = useState<TicketQueue[]>([]);
+  const [value, setValue] = useState<string | null>(queueId ?? null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    teamService.getQueues()
+      .then(setQueues)
+      .catch(() => setQueues([]));
+  }, []);
+
+  useEffect(() => {
+    setValue(queueId ?? null);
+  }, [queueId]);
+
+  const handleChange = async (next: string) => {
+    const nextQueueId = next === "none" ? null : next;
+    setSaving(true);
+    try {
+      await teamService.moveTicketToQueue(ticketId, nextQueueId);
+      setValue(nextQueueId);
+      onChange?.(nextQueueId);
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: t('tickets.queues.moveFailed', 'Failed to move the ticket to the queue'),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Select value={value ?? "none"} onValueChange={handleChange} disabled={disabled || saving}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">{t('tickets.queues.noQueue', 'No queue')}</SelectItem>
+        {queues.map(queue => (
+          <SelectItem key={queue.id} value={queue.id}>
+            {queue.team?.name} / {queue.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { Loader2, Plus, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { DatabaseService } from "@/lib/database";
+import {
+  groupRelations,
+  ticketLinkService,
+  TICKET_RELATIONS,
+  type TicketLink,
+  type TicketRelation,
+} from "@/lib/ticketLinkService";
+
+interface TicketRelationshipsProps {
+  ticketId: string;
+  canEdit: boolean;
+  onChange?: () => void;
+}
+
+type SearchResult = Awaited<ReturnType<typeof DatabaseService.searchOtherTickets>>[number];
+
+/**
+ * Parent/child, blocking, duplicate and related tickets of a ticket. Agents
+ * add links by picking the relation and searching the other ticket.
+ */
+export const TicketRelationships = ({ ticketId, canEdit, onChange }: TicketRelationshipsProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [links, setLinks] = useState<TicketLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [relation, setRelation] = useState<TicketRelation>('related');
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const relationLabels: Record<TicketRelation, string> = {
+    parent: t('tickets.links.relations.parent', 'Parent'),
+    child: t('tickets.links.relations.child', 'Children'),
+    blocks: t('tickets.links.relations.blocks', 'Blocks'),
+    blocked_by: t('tickets.links.relations.blocked_by', 'Blocked by'),
+    related: t('tickets.links.relations.related', 'Related'),
+    duplicate_of: t('tickets.links.relations.duplicate_of', 'Duplicate of'),
+    duplicated_by: t('tickets.links.relations.duplicated_by', 'Duplicated by'),
+  };
+
+  const loadLinks = async () => {
+    try {
+      setLinks(await ticketLinkService.getLinks(ticketId));
+    } catch (error) {
+      console.error('Error loading ticket links:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadLinks();
+  }, [ticketId]);
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      DatabaseService.searchOtherTickets(query, ticketId, false)
+        .then(setResults)
+        .catch(() => setResults([]));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query, ticketId]);
+
+  const handleAdd = async (otherId: string) => {
+    setIsSaving(true);
+    try {
+      await ticketLinkService.addLink(ticketId, otherId, relation);
+      setQuery("");
+      setResults([]);
+      setAdding(false);
+      await loadLinks();
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: t('tickets.links.addError', 'Could not link the tickets'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (linkId: string) => {
+    try {
+      await ticketLinkService.removeLink(linkId);
+      setLinks(current => current.filter(link => link.id !== linkId));
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: t('tickets.links.removeError', 'Could not remove the link'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+
+  const groups = groupRelations(links, ticketId);
+
+  return (
+    <div className="space-y-3">
+      {links.length === 0 && !adding && (
+        <p className="text-sm text-muted-foreground">{t('tickets.links.empty', 'No linked tickets')}</p>
+      )}
+
+      {Object.entries(groups).map(([groupRelation, related]) => (
+        <div key={groupRelation} className="space-y-1">
+          <p className="text-xs font-medium uppercase text-muted-foreground">
+            {relationLabels[groupRelation as TicketRelation]}
+            {groupRelation === 'child' && ` (${related.length})`}
+          </p>
+          {related.map(item => (
+            <div key={item.link_id} className="group flex items-center gap-2 text-sm">
+              <Link to={`/ticket/${item.ticket.id}`} className="min-w-0 flex-1 truncate hover:underline">
+                <span className="font-mono text-xs text-muted-foreground mr-1">
+                  {item.ticket.ticket_number || '#' + item.ticket.id.slice(0, 8)}
+                </span>
+                {item.ticket.title}
+              </Link>
+              <Badge variant="outline" className="text-[10px]">
+                {t(`status.${item.ticket.status === 'in_progress' ? 'inProgress' : item.ticket.status}`, item.ticket.status)}
+              </Badge>
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                  onClick={() => handleRemove(item.link_id)}
+                  title={t('tickets.links.remove', 'Remove link')}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {canEdit && (adding ? (
+        <div className="space-y-2 rounded-md border p-2">
+          <Select value={relation} onValueChange={(value) => setRelation(value as TicketRelation)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TICKET_RELATIONS.map(option => (
+                <SelectItem key={option} value={option}>
+                  {t(`tickets.links.add.${option}`, relationLabels[option])}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 h-3 w-3 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('tickets.links.searchPlaceholder', 'Ticket number or title')}
+              className="h-8 pl-7 text-sm"
+              autoFocus
+            />
+          </div>
+          {results.map(result => (
+            <button
+              key={result.id}
+              type="button"
+              disabled={isSaving}
+              onClick={() => handleAdd(result.id)}
+              className="flex w-full items-center gap-2 rounded px-2 py-1 text-left text-sm hover:bg-muted"
+            >
+              <span className="font-mono text-xs text-muted-foreground">
+                {result.ticket_number || '#' + result.id.slice(0, 8)}
+              </span>
+              <span className="min-w-0 flex-1 truncate">{result.title}</span>
+            </button>
+          ))}
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => { setAdding(false); setQuery(""); }}>
+            {t('common.cancel', 'Cancel')}
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" className="w-full" onClick={() => setAdding(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t('tickets.links.addLink', 'Link ticket')}
+        </Button>
+      ))}
+    </div>
+  );
+};
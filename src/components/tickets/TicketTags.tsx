@@ -1,107 +1,151 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState, type CSSProperties } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { 
-  Tag, 
-  Plus, 
-  X, 
+import {
+  Tag,
+  Plus,
+  X,
   Search,
-  Filter,
   Hash
 } from "lucide-react";
-
-interface TagItem {
-  id: string;
-  name: string;
-  color: string;
-  category: string;
-  count: number;
-}
+import { useTranslation } from "react-i18next";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { DatabaseService, type TicketTag } from "@/lib/database";
 
 interface TicketTagsProps {
   ticketId?: string;
-  selectedTags?: string[];
-  onTagsChange?: (tags: string[]) => void;
+  selectedTags?: string[]; // tag IDs
+  onTagsChange?: (tagIds: string[]) => void;
   mode?: "edit" | "filter" | "display";
 }
 
-export const TicketTags = ({ 
-  ticketId, 
-  selectedTags = [], 
+// Tinted background with the tag colour as text and border
+export const getTagBadgeStyle = (color?: string | null): CSSProperties => {
+  const hex = color && /^#[0-9a-f]{6}$/i.test(color) ? color : "#6B7280";
+  return { backgroundColor: `${hex}1A`, color: hex, borderColor: `${hex}66` };
+};
+
+/**
+ * Tag picker backed by the tags table. With a ticketId (outside filter mode)
+ * it loads the ticket's tags and saves every change straight away; otherwise
+ * it is controlled through selectedTags/onTagsChange.
+ */
+export const TicketTags = ({
+  ticketId,
+  selectedTags,
   onTagsChange,
-  mode = "edit" 
+  mode = "edit"
 }: TicketTagsProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { userProfile } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
   const [newTagName, setNewTagName] = useState("");
   const [showCreateTag, setShowCreateTag] = useState(false);
+  const [availableTags, setAvailableTags] = useState<TicketTag[]>([]);
+  const [ticketTagIds, setTicketTagIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
 
-  // Tags predefinidas
-  const predefinedTags: TagItem[] = [
-    { id: "1", name: "urgente", color: "bg-red-100 text-red-700", category: "prioridade", count: 12 },
-    { id: "2", name: "hardware", color: "bg-blue-100 text-blue-700", category: "categoria", count: 25 },
-    { id: "3", name: "software", color: "bg-green-100 text-green-700", category: "categoria", count: 31 },
-    { id: "4", name: "rede", color: "bg-purple-100 text-purple-700", category: "categoria", count: 18 },
-    { id: "5", name: "impressora", color: "bg-orange-100 text-orange-700", category: "equipamento", count: 8 },
-    { id: "6", name: "email", color: "bg-pink-100 text-pink-700", category: "serviço", count: 15 },
-    { id: "7", name: "acesso", color: "bg-indigo-100 text-indigo-700", category: "segurança", count: 22 },
-    { id: "8", name: "backup", color: "bg-gray-100 text-gray-700", category: "dados", count: 6 },
-    { id: "9", name: "vip", color: "bg-yellow-100 text-yellow-700", category: "cliente", count: 4 },
-    { id: "10", name: "recorrente", color: "bg-red-100 text-red-800", category: "tipo", count: 9 }
-  ];
-
-  const [availableTags, setAvailableTags] = useState<TagItem[]>(predefinedTags);
-
-  const filteredTags = availableTags.filter(tag =>
+  const persistsToTicket = !!ticketId && mode !== "filter";
+  const selectedIds = persistsToTicket ? ticketTagIds : (selectedTags || []);
+
+  useEffect(() => {
+    DatabaseService.getTicketTags()
+      .then(setAvailableTags)
+      .catch(error => console.error('Error loading tags:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!persistsToTicket) return;
+    DatabaseService.getTagsForTicket(ticketId).then(tags => setTicketTagIds(tags.map(tag => tag.id)));
+  }, [ticketId, persistsToTicket]);
+
+  const filteredTags = useMemo(() => availableTags.filter(tag =>
     tag.name && tag.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  ), [availableTags, searchTerm]);
 
-  const handleTagToggle = (tagName: string) => {
-    const newTags = selectedTags.includes(tagName)
-      ? selectedTags.filter(t => t !== tagName)
-      : [...selectedTags, tagName];
-    
-    onTagsChange?.(newTags);
+  const selectedTagItems = selectedIds
+    .map(id => availableTags.find(tag => tag.id === id))
+    .filter(Boolean) as TicketTag[];
+
+  const adjustUsage = (tagId: string, delta: number) => {
+    setAvailableTags(prev => prev.map(tag =>
+      tag.id === tagId ? { ...tag, usage_count: Math.max(0, (tag.usage_count || 0) + delta) } : tag
+    ));
   };
 
-  const handleCreateTag = () => {
-    if (!newTagName.trim()) return;
+  const setTagSelected = async (tagId: string, selected: boolean) => {
+    const newTags = selected
+      ? [...selectedIds.filter(id => id !== tagId), tagId]
+      : selectedIds.filter(id => id !== tagId);
 
-    const newTag: TagItem = {
-      id: Date.now().toString(),
-      name: newTagName.toLowerCase().trim(),
-      color: "bg-gray-100 text-gray-700",
-      category: "personalizada",
-      count: 0
-    };
-
-    setAvailableTags(prev => [...prev, newTag]);
-    setNewTagName("");
-    setShowCreateTag(false);
-    
-    // Auto-adicionar a nova tag
-    onTagsChange?.([...selectedTags, newTag.name]);
+    if (!persistsToTicket) {
+      onTagsChange?.(newTags);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (selected) {
+        await DatabaseService.addTagToTicket(ticketId, tagId, userProfile?.id);
+      } else {
+        await DatabaseService.removeTagFromTicket(ticketId, tagId);
+      }
+      setTicketTagIds(newTags);
+      adjustUsage(tagId, selected ? 1 : -1);
+      onTagsChange?.(newTags);
+    } catch (error) {
+      console.error('Error updating ticket tags:', error);
+      toast({
+        title: t('tickets.tagPicker.saveError', 'Could not update tags'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
   };
 
-  const removeTag = (tagName: string) => {
-    onTagsChange?.(selectedTags.filter(t => t !== tagName));
+  const handleTagToggle = (tagId: string) => {
+    if (saving) return;
+    setTagSelected(tagId, !selectedIds.includes(tagId));
   };
 
-  const getTagColor = (tagName: string) => {
-    const tag = availableTags.find(t => t.name === tagName);
-    return tag?.color || "bg-gray-100 text-gray-700";
+  const handleCreateTag = async () => {
+    if (!newTagName.trim()) return;
+
+    try {
+      const newTag = await DatabaseService.createTag({ name: newTagName }, userProfile?.id);
+      setAvailableTags(prev => [...prev, newTag].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewTagName("");
+      setShowCreateTag(false);
+
+      // Auto-adicionar a nova tag
+      await setTagSelected(newTag.id, true);
+    } catch (error) {
+      toast({
+        title: t('tickets.tagPicker.createError', 'Could not create tag'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
   };
 
   if (mode === "display") {
     return (
       <div className="flex gap-1 flex-wrap">
-        {selectedTags.map((tagName) => (
-          <Badge key={tagName} className={getTagColor(tagName)}>
+        {selectedTagItems.map((tag) => (
+          <Badge key={tag.id} variant="outline" style={getTagBadgeStyle(tag.color)}>
             <Hash className="h-3 w-3 mr-1" />
-            {tagName}
+            {tag.name}
           </Badge>
         ))}
+        {selectedTagItems.length === 0 && (
+          <span className="text-sm text-gray-500">{t('tickets.tagPicker.none', 'No tags')}</span>
+        )}
       </div>
     );
   }
@@ -111,30 +155,31 @@ export const TicketTags = ({
       <CardHeader>
         <CardTitle className="text-lg flex items-center gap-2">
           <Tag className="h-5 w-5" />
-          {mode === "filter" ? "Filtrar por Tags" : "Tags do Chamado"}
+          {mode === "filter"
+            ? t('tickets.tagPicker.filterTitle', 'Filter by Tags')
+            : t('tickets.tagPicker.title', 'Ticket Tags')}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Selected Tags */}
-        {selectedTags.length > 0 && (
+        {selectedTagItems.length > 0 && (
           <div>
-            <label className="block text-sm font-medium mb-2">Tags selecionadas:</label>
+            <label className="block text-sm font-medium mb-2">{t('tickets.tagPicker.selected', 'Selected tags:')}</label>
             <div className="flex gap-1 flex-wrap">
-              {selectedTags.map((tagName) => (
-                <Badge key={tagName} className={`${getTagColor(tagName)} pr-1`}>
+              {selectedTagItems.map((tag) => (
+                <Badge key={tag.id} variant="outline" className="pr-1" style={getTagBadgeStyle(tag.color)}>
                   <Hash className="h-3 w-3 mr-1" />
-                  {tagName}
-                  {mode === "edit" && (
-                    <Button
-                      aria-label={`Remover tag ${tagName}`}
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeTag(tagName)}
-                      className="h-4 w-4 p-0 ml-1 hover:bg-red-200"
-                    >
-                      <X className="h-3 w-3" />
-                    </Button>
-                  )}
+                  {tag.name}
+                  <Button
+                    aria-label={t('tickets.tagPicker.remove', 'Remove tag {{name}}', { name: tag.name })}
+                    variant="ghost"
+                    size="sm"
+                    disabled={saving}
+                    onClick={() => setTagSelected(tag.id, false)}
+                    className="h-4 w-4 p-0 ml-1 hover:bg-red-200"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
                 </Badge>
               ))}
             </div>
@@ -145,7 +190,7 @@ export const TicketTags = ({
         <div className="relative">
           <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
           <Input
-            placeholder="Buscar tags..."
+            placeholder={t('tickets.tagPicker.search', 'Search tags...')}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10"
@@ -155,7 +200,7 @@ export const TicketTags = ({
         {/* Available Tags */}
         <div>
           <div className="flex items-center justify-between mb-2">
-            <label className="text-sm font-medium">Tags disponíveis:</label>
+            <label className="text-sm font-medium">{t('tickets.tagPicker.available', 'Available tags:')}</label>
             {mode === "edit" && (
               <Button
                 variant="outline"
@@ -164,7 +209,7 @@ export const TicketTags = ({
                 className="flex items-center gap-1"
               >
                 <Plus className="h-3 w-3" />
-                Nova Tag
+                {t('tickets.tagPicker.new', 'New Tag')}
               </Button>
             )}
           </div>
@@ -173,17 +218,18 @@ export const TicketTags = ({
           {showCreateTag && (
             <div className="flex gap-2 mb-3 p-3 border rounded-lg bg-gray-50">
               <Input
-                placeholder="Nome da nova tag..."
+                placeholder={t('tickets.tagPicker.newPlaceholder', 'New tag name...')}
                 value={newTagName}
+                maxLength={50}
                 onChange={(e) => setNewTagName(e.target.value)}
                 onKeyPress={(e) => e.key === "Enter" && handleCreateTag()}
                 className="flex-1"
               />
               <Button onClick={handleCreateTag} disabled={!newTagName.trim()}>
-                Criar
+                {t('common.create', 'Create')}
               </Button>
               <Button variant="outline" onClick={() => setShowCreateTag(false)}>
-                Cancelar
+                {t('common.cancel', 'Cancel')}
               </Button>
             </div>
           )}
@@ -191,20 +237,19 @@ export const TicketTags = ({
           {/* Tags Grid */}
           <div className="flex gap-1 flex-wrap max-h-48 overflow-y-auto">
             {filteredTags.map((tag) => {
-              const isSelected = selectedTags.includes(tag.name);
-              
+              const isSelected = selectedIds.includes(tag.id);
+
               return (
                 <Badge
                   key={tag.id}
-                  variant={isSelected ? "default" : "outline"}
-                  className={`cursor-pointer hover:opacity-80 ${isSelected ? "" : "hover:bg-gray-100"}`}
-                  onClick={() => handleTagToggle(tag.name)}
+                  variant="outline"
+                  className={`cursor-pointer hover:opacity-80 ${isSelected ? "ring-1 ring-current" : ""}`}
+                  style={isSelected ? getTagBadgeStyle(tag.color) : undefined}
+                  onClick={() => handleTagToggle(tag.id)}
                 >
                   <Hash className="h-3 w-3 mr-1" />
                   {tag.name}
-                  {mode === "filter" && (
-                    <span className="ml-1 text-xs opacity-70">({tag.count})</span>
-                  )}
+                  <span className="ml-1 text-xs opacity-70">({tag.usage_count || 0})</span>
                 </Badge>
               );
             })}
@@ -213,42 +258,10 @@ export const TicketTags = ({
           {filteredTags.length === 0 && (
             <div className="text-center py-4 text-gray-500">
               <Tag className="h-8 w-8 mx-auto mb-2 text-gray-300" />
-              <p className="text-sm">Nenhuma tag encontrada</p>
+              <p className="text-sm">{t('tickets.tagPicker.empty', 'No tags found')}</p>
             </div>
           )}
         </div>
-
-        {/* Categories (for filter mode) */}
-        {mode === "filter" && (
-          <div>
-            <label className="text-sm font-medium mb-2 block">Por categoria:</label>
-            <div className="grid grid-cols-2 gap-2">
-              {["prioridade", "categoria", "equipamento", "serviço", "segurança", "dados"].map(category => {
-                const categoryTags = availableTags.filter(t => t.category === category);
-                const totalCount = categoryTags.reduce((sum, tag) => sum + tag.count, 0);
-                
-                return (
-                  <Button
-                    key={category}
-                    variant="outline"
-                    size="sm"
-                    className="justify-between"
-                    onClick={() => {
-                      const categoryTagNames = categoryTags.map(t => t.name);
-                      const newTags = [...new Set([...selectedTags, ...categoryTagNames])];
-                      onTagsChange?.(newTags);
-                    }}
-                  >
-                    <span className="capitalize">{category}</span>
-                    <Badge variant="secondary" className="ml-2">
-                      {totalCount}
-                    </Badge>
-                  </Button>
-                );
-              })}
-            </div>
-          </div>
-        )}
       </CardContent>
     </Card>
   );
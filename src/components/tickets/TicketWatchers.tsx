@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Eye, EyeOff, Loader2, Mail, Plus, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { DatabaseService, type User } from "@/lib/database";
+import {
+  ticketWatcherService,
+  type TicketCcEmail,
+  type TicketWatcher,
+} from "@/lib/ticketWatcherService";
+
+interface TicketWatchersProps {
+  ticketId: string;
+  currentUserId?: string;
+  // Agents, admins and the requester manage other people's watching and the CC list
+  canManage: boolean;
+}
+
+/**
+ * Who follows a ticket besides its requester and assignee. Anyone can follow
+ * or unfollow; managers also add colleagues and external CC addresses.
+ */
+export const TicketWatchers = ({ ticketId, currentUserId, canManage }: TicketWatchersProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [watchers, setWatchers] = useState<TicketWatcher[]>([]);
+  const [ccEmails, setCcEmails] = useState<TicketCcEmail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [addingWatcher, setAddingWatcher] = useState(false);
+  const [users, setUsers] = useState<User[]>([]);
+  const [query, setQuery] = useState("");
+  const [ccInput, setCcInput] = useState("");
+
+  const isWatching = watchers.some(watcher => watcher.user_id === currentUserId);
+
+  const loadWatchers = async () => {
+    try {
+      const [loadedWatchers, loadedCcEmails] = await Promise.all([
+        ticketWatcherService.getWatchers(ticketId),
+        canManage ? ticketWatcherService.getCcEmails(ticketId) : Promise.resolve([]),
+      ]);
+      setWatchers(loadedWatchers);
+      setCcEmails(loadedCcEmails);
+    } catch (error) {
+      console.error('Error loading ticket watchers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadWatchers();
+  }, [ticketId, canManage]);
+
+  useEffect(() => {
+    if (!addingWatcher || users.length > 0) return;
+    DatabaseService.getUsers()
+      .then(setUsers)
+      .catch(() => setUsers([]));
+  }, [addingWatcher]);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const handleToggleFollow = async () => {
+    if (!currentUserId) return;
+    setIsSaving(true);
+    try {
+      if (isWatching) {
+        await ticketWatcherService.removeWatcher(ticketId, currentUserId);
+      } else {
+        await ticketWatcherService.addWatcher(ticketId, currentUserId);
+      }
+      await loadWatchers();
+    } catch (error) {
+      showError(t('tickets.watchers.followError', 'Could not update following'), error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddWatcher = async (userId: string) => {
+    setIsSaving(true);
+    try {
+      await ticketWatcherService.addWatcher(ticketId, userId);
+      setQuery("");
+      setAddingWatcher(false);
+      await loadWatchers();
+    } catch (error) {
+      showError(t('tickets.watchers.addError', 'Could not add the watcher'), error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveWatcher = async (userId: string) => {
+    try {
+      await ticketWatcherService.removeWatcher(ticketId, userId);
+      setWatchers(current => current.filter(watcher => watcher.user_id !== userId));
+    } catch (error) {
+      showError(t('tickets.watchers.removeError', 'Could not remove the watcher'), error);
+    }
+  };
+
+  const handleAddCc = async () => {
+    if (!ccInput.trim()) return;
+    setIsSaving(true);
+    try {
+      const added = await ticketWatcherService.addCcEmail(ticketId, ccInput);
+      setCcEmails(current => [...current, added]);
+      setCcInput("");
+    } catch (error) {
+      showError(t('tickets.watchers.ccAddError', 'Could not add the address'), error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveCc = async (ccId: string) => {
+    try {
+      await ticketWatcherService.removeCcEmail(ccId);
+      setCcEmails(current => current.filter(cc => cc.id !== ccId));
+    } catch (error) {
+      showError(t('tickets.watchers.ccRemoveError', 'Could not remove the address'), error);
+    }
+  };
+
+  if (loading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+
+  const search = query.trim().toLowerCase();
+  const candidates = search.length < 2 ? [] : users
+    .filter(user => !watchers.some(watcher => watcher.user_id === user.id))
+    .filter(user => user.name.toLowerCase().includes(search) || user.email.toLowerCase().includes(search))
+    .slice(0, 8);
+
+  return (
+    <div className="space-y-3">
+      {currentUserId && (
+        <Button
+          variant={isWatching ? "secondary" : "outline"}
+          size="sm"
+          className="w-full"
+          disabled={isSaving}
+          onClick={handleToggleFollow}
+        >
+          {isWatching ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+          {isWatching ? t('tickets.watchers.unfollow', 'Unfollow') : t('tickets.watchers.follow', 'Follow')}
+        </Button>
+      )}
+
+      {watchers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('tickets.watchers.empty', 'No one is following this ticket')}</p>
+      ) : (
+        <div className="space-y-1">
+          {watchers.map(watcher => (
+            <div key={watcher.user_id} className="group flex items-center gap-2 text-sm">
+              <span className="min-w-0 flex-1 truncate">
+                {watcher.user?.full_name || watcher.user?.email || watcher.user_id.slice(0, 8)}
+                {watcher.user_id === currentUserId && (
+                  <span className="text-muted-foreground"> {t('tickets.watchers.you', '(you)')}</span>
+                )}
+              </span>
+              {canManage && watcher.user_id !== currentUserId && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                  onClick={() => handleRemoveWatcher(watcher.user_id)}
+                  title={t('tickets.watchers.remove', 'Remove watcher')}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (addingWatcher ? (
+        <div className="space-y-2 rounded-md border p-2">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 h-3 w-3 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('tickets.watchers.searchPlaceholder', 'Name or email')}
+              className="h-8 pl-7 text-sm"
+              autoFocus
+            />
+          </div>
+          {candidates.map(user => (
+            <button
+              key={user.id}
+              type="button"
+              disabled={isSaving}
+              onClick={() => handleAddWatcher(user.id)}
+              className="flex w-full flex-col rounded px-2 py-1 text-left text-sm hover:bg-muted"
+            >
+              <span className="truncate">{user.name}</span>
+              <span className="truncate text-xs text-muted-foreground">{user.email}</span>
+            </button>
+          ))}
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => { setAddingWatcher(false); setQuery(""); }}>
+            {t('common.cancel', 'Cancel')}
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" className="w-full" onClick={() => setAddingWatcher(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t('tickets.watchers.add', 'Add watcher')}
+        </Button>
+      ))}
+
+      {canManage && (
+        <div className="space-y-2 border-t pt-3">
+          <p className="text-xs font-medium uppercase text-muted-foreground">
+            {t('tickets.watchers.ccTitle', 'CC by email')}
+          </p>
+          {ccEmails.map(cc => (
+            <div key={cc.id} className="group flex items-center gap-2 text-sm">
+              <Mail className="h-3 w-3 text-muted-foreground" />
+              <span className="min-w-0 flex-1 truncate">{cc.email}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                onClick={() => handleRemoveCc(cc.id)}
+                title={t('tickets.watchers.ccRemove', 'Remove address')}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => { e.preventDefault(); handleAddCc(); }}
+          >
+            <Input
+              type="email"
+              value={ccInput}
+              onChange={(e) => setCcInput(e.target.value)}
+              placeholder={t('tickets.watchers.ccPlaceholder', 'name@example.com')}
+              className="h-8 text-sm"
+            />
+            <Button type="submit" variant="outline" size="sm" className="h-8" disabled={isSaving || !ccInput.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+          <p className="text-xs text-muted-foreground">
+            {t('tickets.watchers.ccHint', 'Copied addresses get public replies and status changes by email.')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
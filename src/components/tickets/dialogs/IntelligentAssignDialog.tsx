@@ -184,8 +184,8 @@ export const IntelligentAssignDialog = ({
 
       if (result.success) {
         toast({
-          title: "Ticket Assigned Successfully",
-          description: `Assigned to ${result.assignedAgent?.full_name}. ${result.reason}`,
+          title: result.assignedAgent ? "Ticket Assigned Successfully" : "Ticket Queued",
+          description: result.assignedAgent ? `Assigned to ${result.assignedAgent.full_name}. ${result.reason}` : result.reason,
         });
         
         triggerRefresh();
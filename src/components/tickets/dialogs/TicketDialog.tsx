@@ -15,6 +15,7 @@ import { X, Paperclip, AlertCircle, Loader2, UserPlus, Globe } from "lucide-reac
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "@/components/ui/sonner";
 import { useTranslation } from "react-i18next";
+import { useNavigate } from "react-router-dom";
 import { AttachmentPreview } from "../AttachmentPreview";
 import { validateFile } from "@/lib/fileUtils";
 import { CategorySuggestions } from "../CategorySuggestions";
@@ -42,6 +43,7 @@ export const TicketDialog = ({ open, onOpenChange, ticket, onTicketCreated }: Ti
   const { triggerRefresh } = useTicketCount();
   const { userProfile } = useAuth();
   const { t } = useTranslation();
+  const navigate = useNavigate();
 
   // Permission checking functions
   const canEditTicketCore = () => {
@@ -454,6 +456,20 @@ export const TicketDialog = ({ open, onOpenChange, ticket, onTicketCreated }: Ti
           description: t('tickets.ticketCreatedSuccessfully')
         });
 
+        const duplicates = createdTicket?.duplicate_candidates || [];
+        if (duplicates.length > 0) {
+          toast.info(t('tickets.duplicates.title', 'You may have already reported this', { count: duplicates.length }), {
+            description: duplicates
+              .map(candidate => `${candidate.ticket_number || '#' + candidate.id.slice(-8)} · ${candidate.title}`)
+              .join('\n'),
+            duration: 10000,
+            action: {
+              label: t('tickets.duplicates.view', 'View'),
+              onClick: () => navigate(`/ticket/${duplicates[0].id}`)
+            }
+          });
+        }
+
         // Handle file attachments separately after ticket is created
         if (createdTicket && uploadedUrls.length > 0) {
           try {
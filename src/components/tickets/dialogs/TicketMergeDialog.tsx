@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { GitMerge, Loader2, Search, Info } from "lucide-react";
+import { DatabaseService, TicketWithDetails } from "@/lib/database";
+import type { DuplicateCandidate } from "@/lib/ticketDuplicates";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+
+interface TicketMergeDialogProps {
+  ticket: TicketWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMerged: (targetId: string) => void;
+}
+
+type MergeTarget = Omit<DuplicateCandidate, 'score'> & { score?: number };
+
+/**
+ * Merges the open ticket into another one. The requester's look-alike tickets
+ * are offered first; any other open ticket can be found by number or title.
+ */
+export const TicketMergeDialog = ({ ticket, open, onOpenChange, onMerged }: TicketMergeDialogProps) => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [suggestions, setSuggestions] = useState<MergeTarget[]>([]);
+  const [results, setResults] = useState<MergeTarget[]>([]);
+  const [query, setQuery] = useState("");
+  const [target, setTarget] = useState<MergeTarget | null>(null);
+  const [note, setNote] = useState("");
+  const [isSearching, setIsSearching] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery("");
+    setResults([]);
+    setTarget(null);
+    setNote("");
+    DatabaseService.findDuplicateCandidates(ticket)
+      .then(setSuggestions)
+      .catch(() => setSuggestions([]));
+  }, [open, ticket.id]);
+
+  useEffect(() => {
+    if (!open || query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        setIsSearching(true);
+        setResults(await DatabaseService.searchOtherTickets(query, ticket.id) as MergeTarget[]);
+      } catch {
+        setResults([]);
+      } finally {
+        setIsSearching(false);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query, open, ticket.id]);
+
+  const handleMerge = async () => {
+    if (!target) return;
+
+    setIsMerging(true);
+    try {
+      const moved = await DatabaseService.mergeTickets(ticket.id, target.id, note.trim());
+      toast({
+        title: t('tickets.merge.success', 'Ticket merged'),
+        description: t('tickets.merge.successDesc', '{{source}} was merged into {{target}}', {
+          source: moved?.source_number || ticket.ticket_number,
+          target: moved?.target_number || target.ticket_number,
+        }),
+      });
+      onOpenChange(false);
+      onMerged(target.id);
+    } catch (error) {
+      console.error('Error merging tickets:', error);
+      toast({
+        title: t('common.error', 'Error'),
+        description: error instanceof Error ? error.message : t('tickets.merge.error', 'The tickets could not be merged.'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const renderOption = (option: MergeTarget) => (
+    <button
+      key={option.id}
+      type="button"
+      onClick={() => setTarget(option)}
+      className={`flex w-full items-center gap-3 rounded-md border px-3 py-2 text-left text-sm transition-colors ${
+        target?.id === option.id ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+      }`}
+    >
+      <span className="font-mono text-xs text-muted-foreground">
+        {option.ticket_number || '#' + option.id.slice(0, 8)}
+      </span>
+      <span className="min-w-0 flex-1 truncate">{option.title}</span>
+      {option.score !== undefined && (
+        <Badge variant="secondary">{t('tickets.merge.match', '{{percent}}% match', { percent: Math.round(option.score * 100) })}</Badge>
+      )}
+      <Badge variant="outline">{t(`status.${option.status === 'in_progress' ? 'inProgress' : option.status}`, option.status)}</Badge>
+    </button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            {t('tickets.merge.title', 'Merge ticket')}
+          </DialogTitle>
+          <DialogDescription>
+            {t('tickets.merge.description', 'Merge {{ticketNumber}} into another ticket.', {
+              ticketNumber: ticket.ticket_number || '#' + ticket.id.slice(0, 8),
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {suggestions.length > 0 && (
+            <div className="space-y-2">
+              <Label>{t('tickets.merge.suggested', 'Possible duplicates from the same requester')}</Label>
+              {suggestions.map(renderOption)}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="merge-search">{t('tickets.merge.search', 'Find a ticket')}</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="merge-search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t('tickets.merge.searchPlaceholder', 'Ticket number or title')}
+                className="pl-9"
+              />
+              {isSearching && <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin" />}
+            </div>
+            {results.map(renderOption)}
+            {!isSearching && query.trim().length >= 2 && results.length === 0 && (
+              <p className="text-sm text-muted-foreground">{t('tickets.merge.noResults', 'No open tickets found')}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="merge-note">{t('tickets.merge.note', 'Note to the requesters (optional)')}</Label>
+            <Textarea id="merge-note" value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+          </div>
+
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              {t('tickets.merge.warning', 'Comments, attachments, chat messages, tasks and activity move to the selected ticket. This ticket is closed and both requesters are notified. This cannot be undone.')}
+            </AlertDescription>
+          </Alert>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.cancel', 'Cancel')}
+          </Button>
+          <Button onClick={handleMerge} disabled={!target || isMerging}>
+            {isMerging ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <GitMerge className="h-4 w-4 mr-2" />}
+            {target
+              ? t('tickets.merge.confirmInto', 'Merge into {{ticketNumber}}', { ticketNumber: target.ticket_number || '#' + target.id.slice(0, 8) })
+              : t('tickets.merge.confirm', 'Merge')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
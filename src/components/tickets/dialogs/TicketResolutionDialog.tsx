@@ -1,14 +1,17 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { CheckCircle, Loader2 } from "lucide-react";
 import DatabaseService, { TicketWithDetails } from "@/lib/database";
 import { toast } from "@/components/ui/sonner";
 import { useTicketCount } from "@/contexts/TicketCountContext";
 import { useTranslation } from "react-i18next";
+import { useAuth } from "@/contexts/AuthContext";
+import { ticketLinkService, type LinkedTicketSummary } from "@/lib/ticketLinkService";
 
 interface TicketResolutionDialogProps {
   ticket: TicketWithDetails | null;
@@ -28,6 +31,22 @@ export const TicketResolutionDialog = ({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { triggerRefresh } = useTicketCount();
+  const { userProfile } = useAuth();
+  const [openChildren, setOpenChildren] = useState<LinkedTicketSummary[]>([]);
+  const [cascadeResolution, setCascadeResolution] = useState(false);
+
+  const isAgent = userProfile?.role === 'agent' || userProfile?.role === 'admin';
+
+  useEffect(() => {
+    if (!open || !ticket || !isAgent) {
+      setOpenChildren([]);
+      return;
+    }
+    setCascadeResolution(false);
+    ticketLinkService.getOpenChildren(ticket.id)
+      .then(setOpenChildren)
+      .catch(() => setOpenChildren([]));
+  }, [open, ticket?.id, isAgent]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,16 +62,23 @@ export const TicketResolutionDialog = ({
     setError(null);
 
     try {
-      await DatabaseService.resolveTicket(
-        ticket.id, 
-        resolutionNotes.trim(),
-        ticket.assigned_to || ticket.user_id
-      );
+      const resolvedBy = ticket.assigned_to || ticket.user_id;
+      await DatabaseService.resolveTicket(ticket.id, resolutionNotes.trim(), resolvedBy);
 
       toast(t("tickets.resolve.successTitle"), {
         description: t("tickets.resolve.successDescription")
       });
 
+      if (cascadeResolution && openChildren.length > 0) {
+        const { resolved, failed } = await ticketLinkService.cascadeResolution(ticket.id, resolutionNotes.trim(), resolvedBy);
+        const summary = t('tickets.links.cascadeDone', '{{count}} child tickets resolved', { count: resolved.length });
+        if (failed.length > 0) {
+          toast.error(summary, { description: t('tickets.links.cascadeFailed', '{{count}} could not be resolved', { count: failed.length }) });
+        } else {
+          toast(summary);
+        }
+      }
+
       // Trigger sidebar count refresh
       triggerRefresh();
 
@@ -143,6 +169,20 @@ export const TicketResolutionDialog = ({
             </div>
           </div>
 
+          {openChildren.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="cascadeResolution"
+                checked={cascadeResolution}
+                onCheckedChange={setCascadeResolution}
+                disabled={isLoading}
+              />
+              <Label htmlFor="cascadeResolution" className="text-sm">
+                {t('tickets.links.cascade', 'Also resolve the {{count}} open child tickets with these notes', { count: openChildren.length })}
+              </Label>
+            </div>
+          )}
+
           <DialogFooter className="gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
             <Button
               type="button"
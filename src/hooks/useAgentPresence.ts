@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  agentPresenceService,
+  HEARTBEAT_INTERVAL_MS,
+  type PresenceStatus
+} from '@/lib/agentPresenceService';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+/**
+ * Report the signed-in agent's activity as presence heartbeats and expose
+ * their manual status. Does nothing for customers.
+ */
+export function useAgentPresence() {
+  const { userProfile } = useAuth();
+  const isAgent = userProfile?.role === 'agent' || userProfile?.role === 'admin';
+  const [manualStatus, setManualStatusState] = useState<PresenceStatus | null>(null);
+  const lastActivityRef = useRef<number>(Date.now());
+  const lastHeartbeatRef = useRef<number>(0);
+
+  useEffect(() => {
+    if (!isAgent) return;
+
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+
+    // Only report while the agent actually used the app since the last beat
+    const beat = () => {
+      if (document.visibilityState === 'hidden') return;
+      if (lastActivityRef.current < lastHeartbeatRef.current) return;
+      lastHeartbeatRef.current = Date.now();
+      agentPresenceService.sendHeartbeat();
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        markActive();
+        beat();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+
+    agentPresenceService.getMyPresence()
+      .then(presence => setManualStatusState(presence?.manual_status || null))
+      .catch(() => setManualStatusState(null));
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(interval);
+    };
+  }, [isAgent, userProfile?.id]);
+
+  const setManualStatus = useCallback(async (status: PresenceStatus | null) => {
+    await agentPresenceService.setManualStatus(status);
+    setManualStatusState(status);
+  }, []);
+
+  return { isAgent, manualStatus, setManualStatus };
+}
+
+export default useAgentPresence;
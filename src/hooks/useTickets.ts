@@ -8,6 +8,7 @@ interface UseTicketsOptions {
   statusFilter?: string;
   showAll?: boolean;
   includeClosedTickets?: boolean;
+  queueId?: string;
   enabled?: boolean;
 }
 
@@ -23,6 +24,7 @@ export function useTickets(options: UseTicketsOptions = {}) {
     statusFilter = 'my_tickets',
     showAll = false,
     includeClosedTickets = false,
+    queueId,
     enabled = true
   } = options;
 
@@ -35,7 +37,8 @@ export function useTickets(options: UseTicketsOptions = {}) {
     userRole, 
     statusFilter, 
     showAll, 
-    includeClosedTickets
+    includeClosedTickets,
+    queueId
   ];
 
   const queryFn = useCallback(async () => {
@@ -57,6 +60,7 @@ export function useTickets(options: UseTicketsOptions = {}) {
       statusFilter,
       showAll: userRole !== "user" ? showAll : false,
       includeClosedTickets: userRole === "user" ? includeClosedTickets : undefined,
+      queueId,
     };
 
     const tickets = await DatabaseService.getTickets(queryOptions);
@@ -72,7 +76,8 @@ export function useTickets(options: UseTicketsOptions = {}) {
     userRole,
     statusFilter,
     showAll,
-    includeClosedTickets
+    includeClosedTickets,
+    queueId
   ]);
 
   const queryEnabled = enabled && authReady;
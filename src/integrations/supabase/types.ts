@@ -92,11 +92,15 @@ export type Database = {
       }
       notification_preferences: {
         Row: {
+          batch_window_minutes: number
           created_at: string | null
+          digest_frequency: string
+          digest_hour: number
           email_notifications: boolean
           language: string
           quiet_hours_enabled: boolean
           quiet_hours_end: string
+          quiet_hours_schedule: Json
           quiet_hours_start: string
           sound_notifications: boolean
           timezone: string
@@ -106,11 +110,15 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          batch_window_minutes?: number
           created_at?: string | null
+          digest_frequency?: string
+          digest_hour?: number
           email_notifications?: boolean
           language?: string
           quiet_hours_enabled?: boolean
           quiet_hours_end?: string
+          quiet_hours_schedule?: Json
           quiet_hours_start?: string
           sound_notifications?: boolean
           timezone?: string
@@ -120,11 +128,15 @@ export type Database = {
           user_id: string
         }
         Update: {
+          batch_window_minutes?: number
           created_at?: string | null
+          digest_frequency?: string
+          digest_hour?: number
           email_notifications?: boolean
           language?: string
           quiet_hours_enabled?: boolean
           quiet_hours_end?: string
+          quiet_hours_schedule?: Json
           quiet_hours_start?: string
           sound_notifications?: boolean
           timezone?: string
@@ -443,13 +455,32 @@ export type Database = {
           quiet_hours_enabled: boolean
           quiet_hours_start: string
           quiet_hours_end: string
+          quiet_hours_schedule: Json
           type_preferences: Json
           language: string
           timezone: string
+          digest_frequency: string
+          digest_hour: number
+          batch_window_minutes: number
           created_at: string
           updated_at: string
         }[]
       }
+      release_due_notifications: {
+        Args: { p_limit?: number }
+        Returns: {
+          held_id: string
+          user_id: string
+          delivery: string
+          notification: Json
+          user_email: string
+          user_name: string
+          email_notifications: boolean
+          timezone: string
+          language: string
+          digest_frequency: string
+        }[]
+      }
       upsert_user_notification_preferences: {
         Args: {
           user_uuid: string
@@ -462,6 +493,10 @@ export type Database = {
           p_type_preferences?: Json
           p_language?: string
           p_timezone?: string
+          p_digest_frequency?: string
+          p_digest_hour?: number
+          p_batch_window_minutes?: number
+          p_quiet_hours_schedule?: Json
         }
         Returns: {
           user_id: string
@@ -471,9 +506,13 @@ export type Database = {
           quiet_hours_enabled: boolean
           quiet_hours_start: string
           quiet_hours_end: string
+          quiet_hours_schedule: Json
           type_preferences: Json
           language: string
           timezone: string
+          digest_frequency: string
+          digest_hour: number
+          batch_window_minutes: number
           created_at: string
           updated_at: string
         }
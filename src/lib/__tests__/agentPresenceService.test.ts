@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import {
+  agentPresenceService,
+  computeAvailability,
+  isWithinShift,
+  type AgentShift
+} from '../agentPresenceService';
+import { queryResult } from '@/test/utils/supabaseQueryMock';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+    auth: { getUser: vi.fn() }
+  }
+}));
+
+// Thursday 2025-08-07, 13:30 UTC = 15:30 in Berlin = 22:30 in Tokyo
+const now = new Date('2025-08-07T13:30:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000).toISOString();
+
+const shift = (overrides: Partial<AgentShift> = {}): AgentShift => ({
+  agent_id: 'agent-1',
+  weekday: 4,
+  start_time: '09:00',
+  end_time: '17:00',
+  timezone: 'Europe/Berlin',
+  ...overrides
+});
+
+describe('isWithinShift', () => {
+  it('reads shifts in their own timezone', () => {
+    expect(isWithinShift(shift(), now)).toBe(true);
+    expect(isWithinShift(shift({ timezone: 'Asia/Tokyo' }), now)).toBe(false);
+    expect(isWithinShift(shift({ weekday: 3 }), now)).toBe(false);
+  });
+
+  it('continues overnight shifts into the next day', () => {
+    expect(isWithinShift(shift({ timezone: 'Asia/Tokyo', start_time: '22:00', end_time: '06:00' }), now)).toBe(true);
+    // 03:30 on Friday in Tokyo belongs to Thursday's night shift
+    const friday = new Date('2025-08-07T18:30:00Z');
+    expect(isWithinShift(shift({ timezone: 'Asia/Tokyo', start_time: '22:00', end_time: '06:00' }), friday)).toBe(true);
+    expect(isWithinShift(shift({ timezone: 'Asia/Tokyo', weekday: 5, start_time: '22:00', end_time: '06:00' }), friday)).toBe(false);
+  });
+});
+
+describe('computeAvailability', () => {
+  it('derives the status from recent activity', () => {
+    expect(computeAvailability({ presence: { agent_id: 'a', manual_status: null, last_seen_at: minutesAgo(1) }, now }).status).toBe('available');
+    expect(computeAvailability({ presence: { agent_id: 'a', manual_status: null, last_seen_at: minutesAgo(10) }, now }).status).toBe('away');
+    expect(computeAvailability({ presence: { agent_id: 'a', manual_status: null, last_seen_at: minutesAgo(45) }, now }).status).toBe('offline');
+    expect(computeAvailability({ presence: null, now }).status).toBe('offline');
+  });
+
+  it('prefers the manual status while the agent is connected', () => {
+    const busy = computeAvailability({ presence: { agent_id: 'a', manual_status: 'busy', last_seen_at: minutesAgo(10) }, now });
+    expect(busy.status).toBe('busy');
+    expect(busy.manualStatus).toBe('busy');
+
+    expect(computeAvailability({ presence: { agent_id: 'a', manual_status: 'available', last_seen_at: minutesAgo(45) }, now }).status).toBe('offline');
+  });
+
+  it('reports shifts and working hours, treating agents without a schedule as on shift', () => {
+    const presence = { agent_id: 'a', manual_status: null, last_seen_at: minutesAgo(1) };
+
+    const noSchedule = computeAvailability({ presence, now });
+    expect(noSchedule.onShift).toBe(true);
+    expect(noSchedule.hasSchedule).toBe(false);
+    expect(noSchedule.workingHours).toBeUndefined();
+
+    const offShift = computeAvailability({ presence, shifts: [shift({ start_time: '06:00', end_time: '14:00' })], now });
+    expect(offShift.onShift).toBe(false);
+    expect(offShift.workingHours).toEqual({ start: '06:00', end: '14:00', timezone: 'Europe/Berlin' });
+  });
+
+  it('marks agents out of office as offline', () => {
+    const result = computeAvailability({
+      presence: { agent_id: 'a', manual_status: 'available', last_seen_at: minutesAgo(1) },
+      outOfOffice: [
+        { id: 'past', agent_id: 'a', starts_at: '2025-08-01T00:00:00Z', ends_at: '2025-08-02T00:00:00Z' },
+        { id: 'now', agent_id: 'a', starts_at: '2025-08-07T00:00:00Z', ends_at: '2025-08-08T00:00:00Z', reason: 'Vacation' }
+      ],
+      now
+    });
+
+    expect(result.status).toBe('offline');
+    expect(result.outOfOffice?.id).toBe('now');
+  });
+});
+
+describe('agentPresenceService.getAvailability', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('combines presence, shifts and absences per agent', async () => {
+    vi.mocked(supabase.from).mockImplementation((table: string) => {
+      if (table === 'agent_presence') {
+        return queryResult({ data: [{ agent_id: 'a', manual_status: null, last_seen_at: minutesAgo(2) }], error: null });
+      }
+      if (table === 'agent_shifts') {
+        return queryResult({ data: [shift({ agent_id: 'b' })], error: null });
+      }
+      return queryResult({ data: [], error: null });
+    });
+
+    const result = await agentPresenceService.getAvailability(['a', 'b'], now);
+
+    expect(result.a).toMatchObject({ status: 'available', onShift: true, hasSchedule: false });
+    expect(result.b).toMatchObject({ status: 'offline', onShift: true, hasSchedule: true });
+  });
+
+  it('keeps agents assignable when presence cannot be read', async () => {
+    vi.mocked(supabase.from).mockReturnValue(queryResult({ data: null, error: new Error('relation does not exist') }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await agentPresenceService.getAvailability(['a'], now);
+
+    expect(result.a).toMatchObject({ status: 'available', onShift: true });
+  });
+});
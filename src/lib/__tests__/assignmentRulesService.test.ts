@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import {
+  assignmentRulesService,
+  getCustomerTier,
+  type RuleEvaluationContext
+} from '../assignmentRulesService';
+import type { AssignmentRule } from '@/components/admin/AssignmentRulesManager';
+import { queryResult } from '@/test/utils/supabaseQueryMock';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+    auth: { getUser: vi.fn() }
+  }
+}));
+
+const rule = (conditions: AssignmentRule['conditions'], overrides: Partial<AssignmentRule> = {}): AssignmentRule => ({
+  id: 'rule-1',
+  name: 'Rule',
+  priority: 1,
+  version: 3,
+  enabled: true,
+  conditions,
+  actions: {},
+  created_at: '2025-08-01T00:00:00Z',
+  updated_at: '2025-08-01T00:00:00Z',
+  ...overrides
+});
+
+const context = (overrides: Partial<RuleEvaluationContext> = {}): RuleEvaluationContext => ({
+  ticket: {
+    title: 'Database error on checkout',
+    description: 'The API returns 500',
+    priority: 'high',
+    category_id: 'cat-tech'
+  },
+  categoryName: 'Technical',
+  customer: { tier: 'premium', language: 'pt-BR', timezone: 'America/Sao_Paulo' },
+  now: new Date('2025-08-07T13:30:00Z'), // 10:30 in Sao Paulo
+  businessTimezone: 'America/Sao_Paulo',
+  ...overrides
+});
+
+describe('assignmentRulesService.matchRule', () => {
+  it('matches when every condition that is set matches', () => {
+    const result = assignmentRulesService.matchRule(rule({
+      priorities: ['high', 'urgent'],
+      categories: ['technical'],
+      customerTiers: ['premium'],
+      keywords: ['database', 'network'],
+      urgencyLevel: 3,
+      timeOfDay: { start: '09:00', end: '17:00' },
+      customerLanguage: ['pt'],
+      geographicRegion: ['America']
+    }), context());
+
+    expect(result.matches).toBe(true);
+    expect(result.confidence).toBe(100);
+    expect(result.matchedConditions).toEqual([
+      'Priority: high',
+      'Category: Technical',
+      'Customer tier: premium',
+      'Keywords: database',
+      'Urgency: 3 >= 3',
+      'Time: 09:00 - 17:00',
+      'Language: pt-BR',
+      'Region: America/Sao_Paulo'
+    ]);
+  });
+
+  it('reads time windows in the business timezone, including overnight windows', () => {
+    // 13:30 UTC is 10:30 in Sao Paulo but 22:30 in Tokyo
+    expect(assignmentRulesService.matchRule(rule({ timeOfDay: { start: '09:00', end: '17:00' } }), context()).matches).toBe(true);
+    expect(assignmentRulesService.matchRule(
+      rule({ timeOfDay: { start: '09:00', end: '17:00' } }),
+      context({ businessTimezone: 'Asia/Tokyo' })
+    ).matches).toBe(false);
+    expect(assignmentRulesService.matchRule(
+      rule({ timeOfDay: { start: '18:00', end: '08:00' } }),
+      context({ businessTimezone: 'Asia/Tokyo' })
+    ).matches).toBe(true);
+  });
+
+  it('rejects a rule when any condition fails', () => {
+    const cases: AssignmentRule['conditions'][] = [
+      { priorities: ['urgent'] },
+      { categories: ['billing'] },
+      { customerTiers: ['enterprise'] },
+      { keywords: ['printer'] },
+      { urgencyLevel: 4 },
+      { customerLanguage: ['en'] },
+      { geographicRegion: ['Europe'] }
+    ];
+
+    for (const conditions of cases) {
+      const result = assignmentRulesService.matchRule(rule({ ...conditions, priorities: conditions.priorities || ['high'] }), context());
+      expect(result.matches, JSON.stringify(conditions)).toBe(false);
+      expect(result.confidence).toBeLessThan(100);
+    }
+  });
+
+  it('matches customer regions by full timezone and ignores empty lists', () => {
+    expect(assignmentRulesService.matchRule(rule({ geographicRegion: ['america/sao_paulo'] }), context()).matches).toBe(true);
+    expect(assignmentRulesService.matchRule(rule({ customerLanguage: ['pt'] }), context({
+      customer: { tier: 'basic' }
+    })).matches).toBe(false);
+
+    const empty = assignmentRulesService.matchRule(rule({ priorities: [], keywords: [] }), context());
+    expect(empty.matches).toBe(true);
+    expect(empty.matchedConditions).toEqual(['No conditions (matches all)']);
+  });
+});
+
+describe('assignmentRulesService persistence', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    assignmentRulesService.invalidateCache();
+  });
+
+  it('derives the customer tier from ticket volume', () => {
+    expect(getCustomerTier(3)).toBe('basic');
+    expect(getCustomerTier(11)).toBe('premium');
+    expect(getCustomerTier(51)).toBe('enterprise');
+  });
+
+  it('evaluates saved rules in priority order and reports the rule that matched', async () => {
+    const saved = [
+      rule({ priorities: ['urgent'] }, { id: 'urgent', priority: 1 }),
+      rule({ keywords: ['database'] }, { id: 'tech', name: 'Tech', priority: 2 }),
+      rule({}, { id: 'disabled', priority: 0, enabled: false })
+    ];
+
+    vi.mocked(supabase.from).mockImplementation((table: string) => {
+      if (table === 'assignment_rules') return queryResult({ data: saved, error: null });
+      if (table === 'categories') return queryResult({ data: { name: 'Technical' }, error: null });
+      return queryResult({ data: { business_hours: { timezone: 'UTC' } }, error: null });
+    });
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: { language: 'en', timezone: 'UTC', total_tickets: 2 }, error: null } as any);
+
+    const result = await assignmentRulesService.evaluateTicket({
+      id: 't1',
+      title: 'Database is down',
+      priority: 'high',
+      status: 'open',
+      category_id: 'cat-tech',
+      user_id: 'customer-1',
+      created_at: '2025-08-07T10:00:00Z'
+    });
+
+    expect(result.appliedRule?.id).toBe('tech');
+    expect(result.matchedRules.map(match => match.rule.id)).toEqual(['urgent', 'tech']);
+    expect(supabase.rpc).toHaveBeenCalledWith('get_assignment_customer_profile', { p_user_id: 'customer-1' });
+  });
+
+  it('records which rule version assigned the ticket', async () => {
+    const audit = queryResult({ data: null, error: null });
+    vi.mocked(supabase.from).mockReturnValue(audit);
+    vi.mocked(supabase.auth.getUser).mockResolvedValue({ data: { user: { id: 'agent-1' } } } as any);
+
+    await assignmentRulesService.recordAssignment({
+      ticketId: 't1',
+      assignedTo: 'agent-2',
+      method: 'rule',
+      rule: rule({}, { id: 'tech', name: 'Tech', version: 4 }),
+      matchedConditions: ['Keywords: database'],
+      reason: 'Assigned by rule "Tech"',
+      confidence: 100
+    });
+
+    expect(supabase.from).toHaveBeenCalledWith('ticket_assignment_audit');
+    expect(audit.insert).toHaveBeenCalledWith(expect.objectContaining({
+      ticket_id: 't1',
+      assigned_to: 'agent-2',
+      assigned_by: 'agent-1',
+      method: 'rule',
+      rule_id: 'tech',
+      rule_version: 4,
+      rule_name: 'Tech',
+      matched_conditions: ['Keywords: database']
+    }));
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn()
+  }
+}));
+
+import { supabase } from '../supabase';
+import {
+  BusinessCalendar,
+  BusinessCalendarService,
+  DEFAULT_BUSINESS_WEEK
+} from '../businessCalendarService';
+
+const berlinCalendar: BusinessCalendar = {
+  id: 'cal-de',
+  name: 'Germany',
+  timezone: 'Europe/Berlin',
+  region: 'Germany',
+  team_id: null,
+  is_default: false,
+  is_active: true,
+  hours: DEFAULT_BUSINESS_WEEK,
+  holidays: [{ holiday_date: '2026-10-05', name: 'Company holiday' }]
+};
+
+const defaultCalendar: BusinessCalendar = {
+  ...berlinCalendar,
+  id: 'cal-default',
+  name: 'Default',
+  timezone: 'UTC',
+  region: null,
+  is_default: true,
+  holidays: []
+};
+
+describe('BusinessCalendarService', () => {
+  describe('calculateElapsedHours', () => {
+    it('falls back to wall-clock hours without a calendar', () => {
+      const start = new Date('2026-10-02T10:00:00Z');
+      const end = new Date('2026-10-03T10:00:00Z');
+      expect(BusinessCalendarService.calculateElapsedHours(start, end, null)).toBe(24);
+    });
+
+    it('does not count the weekend for a ticket opened Friday evening', () => {
+      // Friday 2026-10-02 18:30 Berlin (16:30Z) -> Monday 2026-10-05 is a holiday -> Tuesday 10:00 Berlin
+      const start = new Date('2026-10-02T16:30:00Z');
+      const end = new Date('2026-10-06T08:00:00Z');
+      expect(BusinessCalendarService.calculateElapsedHours(start, end, berlinCalendar)).toBe(1);
+    });
+
+    it('counts only the working window within a single day', () => {
+      // 08:00 -> 12:00 Berlin (CEST, UTC+2) counts 09:00 -> 12:00
+      const start = new Date('2026-10-01T06:00:00Z');
+      const end = new Date('2026-10-01T10:00:00Z');
+      expect(BusinessCalendarService.calculateElapsedHours(start, end, berlinCalendar)).toBe(3);
+    });
+
+    it('follows daylight saving changes in the calendar timezone', () => {
+      // Berlin switches to CET on 2026-10-25; Monday 26th 09:00 local is 08:00Z
+      const start = new Date('2026-10-26T08:00:00Z');
+      const end = new Date('2026-10-26T16:00:00Z');
+      expect(BusinessCalendarService.calculateElapsedHours(start, end, berlinCalendar)).toBe(8);
+    });
+
+    it('returns zero when end is before start', () => {
+      const start = new Date('2026-10-02T10:00:00Z');
+      expect(BusinessCalendarService.calculateElapsedHours(start, new Date('2026-10-01T10:00:00Z'), berlinCalendar)).toBe(0);
+    });
+  });
+
+  describe('addBusinessHours', () => {
+    it('rolls the deadline over weekends and holidays', () => {
+      // Friday 16:00 Berlin + 4 business hours -> 1h Friday, Monday holiday, 3h Tuesday -> 12:00 Berlin
+      const deadline = BusinessCalendarService.addBusinessHours(
+        new Date('2026-10-02T14:00:00Z'),
+        4,
+        berlinCalendar
+      );
+      expect(deadline.toISOString()).toBe('2026-10-06T10:00:00.000Z');
+    });
+
+    it('adds wall-clock hours without a calendar', () => {
+      const deadline = BusinessCalendarService.addBusinessHours(new Date('2026-10-02T14:00:00Z'), 4, null);
+      expect(deadline.toISOString()).toBe('2026-10-02T18:00:00.000Z');
+    });
+  });
+
+  describe('pickCalendar', () => {
+    const calendars = [defaultCalendar, berlinCalendar, { ...berlinCalendar, id: 'cal-team', region: null, team_id: 'team-1' }];
+
+    it('prefers a team calendar, then region, then the default', () => {
+      expect(BusinessCalendarService.pickCalendar(calendars, { team_id: 'team-1', country: 'Germany' })?.id).toBe('cal-team');
+      expect(BusinessCalendarService.pickCalendar(calendars, { country: 'germany' })?.id).toBe('cal-de');
+      expect(BusinessCalendarService.pickCalendar(calendars, { country: 'Brazil' })?.id).toBe('cal-default');
+    });
+
+    it('ignores inactive calendars', () => {
+      const inactive = calendars.map(calendar => ({ ...calendar, is_active: false }));
+      expect(BusinessCalendarService.pickCalendar(inactive, { country: 'Germany' })).toBeNull();
+    });
+  });
+
+  describe('saveCalendar', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('saves the calendar, its hours and its holidays in one call', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: 'cal-new', error: null } as any);
+      const { id: _id, ...draft } = berlinCalendar;
+
+      const saved = await BusinessCalendarService.saveCalendar(draft);
+
+      expect(saved.id).toBe('cal-new');
+      expect(supabase.from).not.toHaveBeenCalled();
+      expect(supabase.rpc).toHaveBeenCalledWith('save_business_calendar', {
+        p_calendar: expect.objectContaining({ id: null, name: 'Germany', timezone: 'Europe/Berlin' }),
+        p_hours: DEFAULT_BUSINESS_WEEK,
+        p_holidays: [{ holiday_date: '2026-10-05', name: 'Company holiday' }]
+      });
+    });
+
+    it('throws when the save fails, so the editor keeps the draft', async () => {
+      const failure = { message: 'duplicate key value violates unique constraint' };
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: failure } as any);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(BusinessCalendarService.saveCalendar(berlinCalendar)).rejects.toBe(failure);
+    });
+
+    it('rejects an unknown timezone before saving', async () => {
+      await expect(BusinessCalendarService.saveCalendar({ ...berlinCalendar, timezone: 'Mars/Olympus' }))
+        .rejects.toThrow('Invalid timezone: Mars/Olympus');
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  it('validates IANA timezones', () => {
+    expect(BusinessCalendarService.isValidTimezone('America/Sao_Paulo')).toBe(true);
+    expect(BusinessCalendarService.isValidTimezone('Mars/Olympus')).toBe(false);
+  });
+});
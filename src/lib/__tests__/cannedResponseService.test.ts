@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import { DatabaseService } from '../database';
+import {
+  cannedResponseService,
+  fillSnippet,
+  macroTicketUpdates,
+  replaceSlashCommand,
+  searchSnippets,
+  slashQueryAt,
+  snippetVariables,
+  validateMacro,
+  validateSnippet,
+  type CannedResponse,
+  type SnippetOption,
+  type TicketMacro
+} from '../cannedResponseService';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+    auth: { getUser: vi.fn() }
+  }
+}));
+
+vi.mock('../database', () => ({
+  DatabaseService: {
+    addTicketComment: vi.fn(),
+    updateTicket: vi.fn(),
+    addTagToTicket: vi.fn(),
+    removeTagFromTicket: vi.fn(),
+    resolveTicket: vi.fn()
+  }
+}));
+
+const response = (overrides: Partial<CannedResponse>): CannedResponse => ({
+  id: 'r1',
+  title: 'Password reset',
+  shortcut: 'reset',
+  content: 'Use the reset link on the sign-in page.',
+  is_shared: true,
+  usage_count: 0,
+  created_by: 'admin-1',
+  ...overrides
+});
+
+const macro = (overrides: Partial<TicketMacro> = {}): TicketMacro => ({
+  id: 'm1',
+  name: 'Close as duplicate',
+  shortcut: 'dup',
+  reply_content: 'Hi {{requesterFirstName}}, this duplicates another ticket.',
+  reply_is_internal: false,
+  actions: {},
+  is_shared: true,
+  usage_count: 0,
+  created_by: 'admin-1',
+  ...overrides
+});
+
+const ticket = {
+  ticket_number: 'ACS-TK-202508-0042',
+  title: 'Printer offline',
+  user: { id: 'u1', name: 'Ana Silva', email: 'ana@example.com' },
+  category: { id: 'c1', name: 'Hardware' }
+};
+
+describe('placeholders', () => {
+  it('fills ticket and agent values', () => {
+    const variables = snippetVariables(ticket, { full_name: 'Bruno Agent' });
+
+    expect(fillSnippet('Hi {{requesterFirstName}}, about {{ticketNumber}} ({{category}}). {{agentName}}', variables))
+      .toBe('Hi Ana, about ACS-TK-202508-0042 (Hardware). Bruno Agent');
+    expect(fillSnippet('{{#category}}Category: {{category}}{{/category}}', snippetVariables({ ...ticket, category: undefined })))
+      .toBe('');
+  });
+
+  it('falls back to the email address for requesters without a name', () => {
+    const variables = snippetVariables({ ...ticket, user: { id: 'u1', name: '', email: 'ana@example.com' } });
+    expect(variables.requesterName).toBe('ana@example.com');
+    expect(variables.requesterFirstName).toBe('ana');
+  });
+
+  it('rejects unknown placeholders and invalid shortcuts', () => {
+    expect(validateSnippet({ title: 'Hi', shortcut: 'hi', content: 'Hi {{requesterName}}' })).toBeNull();
+    expect(validateSnippet({ title: 'Hi', shortcut: 'Hi there', content: 'x' })).toMatch(/Shortcut/);
+    expect(validateSnippet({ title: 'Hi', shortcut: 'hi', content: 'Hi {{customer}}' })).toMatch(/customer/);
+  });
+});
+
+describe('slash commands', () => {
+  it('finds the command at the caret', () => {
+    expect(slashQueryAt('/res', 4)).toEqual({ query: 'res', start: 0 });
+    expect(slashQueryAt('Thanks!\n/Dup', 12)).toEqual({ query: 'dup', start: 8 });
+    expect(slashQueryAt('see /', 5)).toEqual({ query: '', start: 4 });
+    expect(slashQueryAt('and/or', 6)).toBeNull();
+    expect(slashQueryAt('/res et', 7)).toBeNull();
+  });
+
+  it('replaces the command with the inserted text', () => {
+    expect(replaceSlashCommand('Hello /res!', 6, 10, 'World')).toEqual({ text: 'Hello World!', caret: 11 });
+  });
+
+  it('ranks shortcut matches before title and body matches, then by use', () => {
+    const options: SnippetOption[] = [
+      { kind: 'response', item: response({ id: 'body', title: 'Printer', shortcut: 'printer', content: 'Try a reset first' }) },
+      { kind: 'response', item: response({ id: 'title', title: 'Reset MFA', shortcut: 'mfa' }) },
+      { kind: 'response', item: response({ id: 'prefix', shortcut: 'reset-password', usage_count: 9 }) },
+      { kind: 'macro', item: macro({ id: 'exact', shortcut: 'reset' }) },
+      { kind: 'response', item: response({ id: 'none', title: 'VPN', shortcut: 'vpn', content: 'Reconnect' }) }
+    ];
+
+    expect(searchSnippets(options, 'reset').map(option => option.item.id)).toEqual(['exact', 'prefix', 'title', 'body']);
+    expect(searchSnippets(options, '').map(option => option.item.id)[0]).toBe('prefix');
+    expect(searchSnippets(options, '', 2)).toHaveLength(2);
+  });
+});
+
+describe('macros', () => {
+  it('only changes fields that differ and resolves "me"', () => {
+    const current = { status: 'open', priority: 'high', assigned_to: null };
+
+    expect(macroTicketUpdates(current, { status: 'pending', priority: 'high', assigned_to: 'me' }, 'agent-1'))
+      .toEqual({ status: 'pending', assigned_to: 'agent-1' });
+    expect(macroTicketUpdates({ ...current, assigned_to: 'agent-1' }, { assigned_to: null }, 'agent-1'))
+      .toEqual({ assigned_to: null });
+    expect(macroTicketUpdates(current, {}, 'agent-1')).toEqual({});
+  });
+
+  it('needs a reply or a change, and a reply to resolve', () => {
+    expect(validateMacro(macro({ actions: {} }))).toBeNull();
+    expect(validateMacro(macro({ reply_content: '', actions: {} }))).toMatch(/reply or at least one change/);
+    expect(validateMacro(macro({ reply_content: '', actions: { add_tag_ids: ['t1'] } }))).toBeNull();
+    expect(validateMacro(macro({ reply_content: '', actions: { status: 'resolved' } }))).toMatch(/resolution/);
+  });
+
+  describe('applyMacro', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: null } as any);
+    });
+
+    it('posts the reply, updates the ticket and its tags, and counts the use', async () => {
+      await cannedResponseService.applyMacro(
+        { id: 't1', status: 'open', priority: 'low', assigned_to: null },
+        macro({ actions: { status: 'pending', priority: 'low', assigned_to: 'me', add_tag_ids: ['a'], remove_tag_ids: ['b'] } }),
+        { agentId: 'agent-1', reply: 'Hi Ana, this duplicates another ticket.' }
+      );
+
+      expect(DatabaseService.addTicketComment).toHaveBeenCalledWith('t1', 'agent-1', 'Hi Ana, this duplicates another ticket.', false);
+      expect(DatabaseService.updateTicket).toHaveBeenCalledWith('t1', { status: 'pending', assigned_to: 'agent-1' });
+      expect(DatabaseService.addTagToTicket).toHaveBeenCalledWith('t1', 'a', 'agent-1');
+      expect(DatabaseService.removeTagFromTicket).toHaveBeenCalledWith('t1', 'b');
+      expect(DatabaseService.resolveTicket).not.toHaveBeenCalled();
+      expect(supabase.rpc).toHaveBeenCalledWith('record_snippet_use', { p_kind: 'macro', p_id: 'm1' });
+    });
+
+    it('resolves with the reply as resolution after the other changes', async () => {
+      await cannedResponseService.applyMacro(
+        { id: 't1', status: 'in_progress', priority: 'low', assigned_to: 'agent-1' },
+        macro({ reply_is_internal: true, actions: { status: 'resolved', priority: 'medium' } }),
+        { agentId: 'agent-1', reply: 'Fixed the driver.' }
+      );
+
+      expect(DatabaseService.addTicketComment).toHaveBeenCalledWith('t1', 'agent-1', 'Fixed the driver.', true);
+      expect(DatabaseService.updateTicket).toHaveBeenCalledWith('t1', { priority: 'medium' });
+      expect(DatabaseService.resolveTicket).toHaveBeenCalledWith('t1', 'Fixed the driver.', 'agent-1');
+    });
+
+    it('skips the comment and update when there is nothing to post or change', async () => {
+      await cannedResponseService.applyMacro(
+        { id: 't1', status: 'open', priority: 'low', assigned_to: null },
+        macro({ actions: { status: 'open' } }),
+        { agentId: 'agent-1', reply: '  ' }
+      );
+
+      expect(DatabaseService.addTicketComment).not.toHaveBeenCalled();
+      expect(DatabaseService.updateTicket).not.toHaveBeenCalled();
+    });
+  });
+});
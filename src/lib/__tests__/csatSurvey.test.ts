@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  npsCategory,
+  satisfactionFromRating,
+  signSurveyToken,
+  surveyLink,
+  validateSurveyAnswer,
+  verifySurveyToken
+} from '../../../supabase/functions/_shared/csatSurvey';
+
+const SECRET = 'survey-secret';
+const NOW = new Date('2025-08-07T12:00:00Z');
+const EXPIRES = new Date('2025-08-21T12:00:00Z');
+
+describe('survey tokens', () => {
+  it('accepts its own tokens until they expire', async () => {
+    const token = await signSurveyToken(SECRET, 'survey-1', EXPIRES);
+
+    expect(await verifySurveyToken(SECRET, token, NOW)).toEqual({ valid: true, surveyId: 'survey-1', expiresAt: EXPIRES });
+    expect(await verifySurveyToken(SECRET, token, new Date('2025-08-21T12:00:01Z'))).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('rejects tokens that were edited or signed with another secret', async () => {
+    const token = await signSurveyToken(SECRET, 'survey-1', EXPIRES);
+    const [id, expires, signature] = token.split('.');
+    const extended = `${id}.${Number(expires) + 86400}.${signature}`;
+    const otherSurvey = `survey-2.${expires}.${signature}`;
+
+    expect(await verifySurveyToken(SECRET, extended, NOW)).toEqual({ valid: false, reason: 'invalid' });
+    expect(await verifySurveyToken(SECRET, otherSurvey, NOW)).toEqual({ valid: false, reason: 'invalid' });
+    expect(await verifySurveyToken('other-secret', token, NOW)).toEqual({ valid: false, reason: 'invalid' });
+    expect(await verifySurveyToken(SECRET, 'garbage', NOW)).toEqual({ valid: false, reason: 'invalid' });
+  });
+});
+
+describe('survey answers', () => {
+  it('validates the rating, recommendation score and comment', () => {
+    expect(validateSurveyAnswer({ rating: 5, nps_score: 10, comment: 'Great' })).toBeNull();
+    expect(validateSurveyAnswer({ rating: 3 })).toBeNull();
+    expect(validateSurveyAnswer({ rating: 0 })).toMatch(/Rating/);
+    expect(validateSurveyAnswer({ rating: 4.5 })).toMatch(/Rating/);
+    expect(validateSurveyAnswer({ rating: 4, nps_score: 11 })).toMatch(/Recommendation/);
+    expect(validateSurveyAnswer({ rating: 4, comment: 'x'.repeat(2001) })).toMatch(/Comment/);
+  });
+
+  it('maps ratings and recommendation scores to their buckets', () => {
+    expect([1, 2, 3, 4, 5].map(satisfactionFromRating)).toEqual(['unsatisfied', 'unsatisfied', 'neutral', 'satisfied', 'satisfied']);
+    expect([0, 6, 7, 8, 9, 10].map(npsCategory)).toEqual(['detractor', 'detractor', 'passive', 'passive', 'promoter', 'promoter']);
+  });
+});
+
+describe('surveyLink', () => {
+  it('builds the survey page URL for a token', () => {
+    expect(surveyLink('https://support.example.com/', 'abc.123.sig')).toBe('https://support.example.com/survey/abc.123.sig');
+  });
+});
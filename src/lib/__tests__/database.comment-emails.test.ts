@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn()
+  }
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    rpc: vi.fn(),
+    functions: { invoke: vi.fn() }
+  }
+}));
+
+vi.mock('@/lib/emailTemplateService', () => ({
+  EmailTemplateService: {
+    getRecipientLocale: vi.fn().mockResolvedValue('en-US'),
+    render: vi.fn().mockResolvedValue({
+      subject: 'Ticket updated',
+      html: '<html><body><p>New comment</p></body></html>',
+      text: 'New comment'
+    })
+  },
+  formatTemplateDate: vi.fn(() => null)
+}));
+
+vi.mock('../notifications/PreferencesManager', () => ({
+  preferencesManager: {
+    getUserPreferences: vi.fn()
+  }
+}));
+
+import { supabase } from '@/lib/supabase';
+import { supabase as integrationsClient } from '@/integrations/supabase/client';
+import { DatabaseService } from '../database';
+import { EmailService } from '../emailService';
+import { preferencesManager } from '../notifications/PreferencesManager';
+import { queryResult } from '@/test/utils/supabaseQueryMock';
+
+const mockSupabase = supabase as any;
+
+describe('DatabaseService.emailCommentParticipants', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const ticket = queryResult({
+      data: { user_id: 'requester', assigned_to: 'agent', ticket_number: 'ACS-TK-202508-0001', title: 'Printer down' },
+      error: null
+    });
+    const users = queryResult({
+      data: [{ id: 'requester', email: 'requester@example.com', full_name: 'Ana' }],
+      error: null
+    });
+    mockSupabase.from.mockImplementation((table: string) => table === 'tickets_new' ? ticket : users);
+    vi.mocked(preferencesManager.getUserPreferences).mockResolvedValue({
+      emailNotifications: true,
+      typePreferences: { comment_added: { enabled: true } }
+    } as any);
+  });
+
+  it('emails the requester with their own reply address, not the agent who commented', async () => {
+    vi.mocked((integrationsClient as any).rpc).mockResolvedValue({ data: 'reply-token', error: null });
+    const sendEmail = vi.spyOn(EmailService, 'sendEmail').mockResolvedValue({ success: true });
+
+    const sent = await DatabaseService.emailCommentParticipants('T1', 'agent', 'Restarted the spooler', 'Agent');
+
+    expect(sent).toBe(1);
+    expect((integrationsClient as any).rpc).toHaveBeenCalledWith('get_ticket_reply_token', {
+      p_ticket_id: 'T1',
+      p_user_id: 'requester'
+    });
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'requester@example.com',
+      replyToken: 'reply-token'
+    }));
+  });
+
+  it('skips recipients who turned email notifications off', async () => {
+    vi.mocked(preferencesManager.getUserPreferences).mockResolvedValue({
+      emailNotifications: false,
+      typePreferences: { comment_added: { enabled: true } }
+    } as any);
+    const sendEmail = vi.spyOn(EmailService, 'sendEmail');
+
+    const sent = await DatabaseService.emailCommentParticipants('T1', 'agent', 'Restarted the spooler', 'Agent');
+
+    expect(sent).toBe(0);
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+});
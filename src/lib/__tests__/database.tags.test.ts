@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn()
+  }
+}));
+
+import { supabase } from '@/lib/supabase';
+import { DatabaseService } from '../database';
+import { queryResult } from '@/test/utils/supabaseQueryMock';
+
+const mockSupabase = supabase as any;
+
+describe('DatabaseService tags', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getTicketIdsWithTags', () => {
+    it('returns only tickets that carry every requested tag', async () => {
+      const builder = queryResult({
+        data: [
+          { ticket_id: 't1', tag_id: 'a' },
+          { ticket_id: 't1', tag_id: 'b' },
+          { ticket_id: 't2', tag_id: 'a' },
+          { ticket_id: 't3', tag_id: 'b' }
+        ],
+        error: null
+      });
+      mockSupabase.from.mockReturnValue(builder);
+
+      const ids = await DatabaseService.getTicketIdsWithTags(['a', 'b']);
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('ticket_tags');
+      expect(builder.in).toHaveBeenCalledWith('tag_id', ['a', 'b']);
+      expect(ids).toEqual(['t1']);
+    });
+
+    it('does not query without tags', async () => {
+      expect(await DatabaseService.getTicketIdsWithTags([])).toEqual([]);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createTag', () => {
+    it('normalises the name and reports duplicates clearly', async () => {
+      const builder = queryResult({ data: null, error: { code: '23505', message: 'duplicate key' } });
+      mockSupabase.from.mockReturnValue(builder);
+
+      await expect(DatabaseService.createTag({ name: '  Urgent ' })).rejects.toThrow('A tag named "urgent" already exists');
+      expect(builder.insert).toHaveBeenCalledWith(expect.objectContaining({ name: 'urgent', color: '#6B7280' }));
+    });
+
+    it('rejects empty names without touching the database', async () => {
+      await expect(DatabaseService.createTag({ name: '   ' })).rejects.toThrow('Tag name is required');
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeTags', () => {
+    it('never merges the target into itself', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: 4, error: null });
+
+      const moved = await DatabaseService.mergeTags(['a', 'b', 'target'], 'target');
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('merge_tags', { p_source_ids: ['a', 'b'], p_target_id: 'target' });
+      expect(moved).toBe(4);
+    });
+
+    it('skips the call when only the target is selected', async () => {
+      expect(await DatabaseService.mergeTags(['target'], 'target')).toBe(0);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EMAIL_SETTINGS,
+  EMAIL_LOCALES,
+  EMAIL_TEMPLATE_EVENTS,
+  findUnknownVariables,
+  formatSender,
+  pickEmailTemplate,
+  renderEmail,
+  renderStoredEmail,
+  renderTemplateString,
+  resolveEmailLocale,
+  sampleTemplateVariables,
+  validateEmailTemplate,
+  type StoredEmailTemplate
+} from '../../../supabase/functions/_shared/emailTemplates';
+import { defaultEmailTemplate } from '../../../supabase/functions/_shared/emailTemplateDefaults';
+
+const custom: StoredEmailTemplate = {
+  event: 'ticket_updated',
+  locale: 'de-DE',
+  subject: 'Neu bei {{ticketNumber}}',
+  body_html: '<p>{{updateMessage}}</p>',
+  body_text: '{{updateMessage}}',
+  is_active: true
+};
+
+function mockClient(templates: StoredEmailTemplate[], settings: Record<string, unknown> | null) {
+  const filters: Record<string, string> = {};
+  const client = {
+    from: (table: string) => {
+      if (table === 'email_settings') {
+        return { select: () => ({ maybeSingle: async () => ({ data: settings, error: null }) }) };
+      }
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: string) => {
+          filters[column] = value;
+          return builder;
+        },
+        then: (resolve: (result: unknown) => void) =>
+          resolve({
+            data: templates.filter(t => t.event === filters.event && t.locale === filters.locale),
+            error: null
+          })
+      };
+      return builder;
+    },
+    rpc: () => Promise.resolve({ data: null, error: null })
+  };
+  return client;
+}
+
+describe('renderTemplateString', () => {
+  it('fills variables and escapes them only in HTML', () => {
+    const vars = { ticketTitle: 'Printer <offline> & "stuck"' };
+
+    expect(renderTemplateString('Re: {{ ticketTitle }}', vars)).toBe('Re: Printer <offline> & "stuck"');
+    expect(renderTemplateString('<p>{{ticketTitle}}</p>', vars, true))
+      .toBe('<p>Printer &lt;offline&gt; &amp; &quot;stuck&quot;</p>');
+    expect(renderTemplateString('[{{missing}}]', vars)).toBe('[]');
+  });
+
+  it('keeps sections when the variable is set and inverted sections when it is not', () => {
+    const source = '{{#slaDeadline}}Due {{slaDeadline}}{{/slaDeadline}}{{^slaDeadline}}No deadline{{/slaDeadline}}';
+
+    expect(renderTemplateString(source, { slaDeadline: 'tomorrow' })).toBe('Due tomorrow');
+    expect(renderTemplateString(source, { slaDeadline: '' })).toBe('No deadline');
+    expect(renderTemplateString(source, {})).toBe('No deadline');
+  });
+
+  it('repeats list sections for every item', () => {
+    const source = '{{#summary}}<li>{{summaryLabel}}: {{summaryValue}}</li>{{/summary}}{{^summary}}Empty{{/summary}}';
+    const summary = [{ summaryLabel: 'Tickets', summaryValue: '<3>' }, { summaryLabel: 'Open', summaryValue: '1' }];
+
+    expect(renderTemplateString(source, { summary }, true)).toBe('<li>Tickets: &lt;3&gt;</li><li>Open: 1</li>');
+    expect(renderTemplateString(source, { summary: [] })).toBe('Empty');
+  });
+
+  it('does not read variable values as template syntax', () => {
+    expect(renderTemplateString('{{ticketTitle}}', { ticketTitle: '{{ticketLink}}', ticketLink: 'x' })).toBe('{{ticketLink}}');
+  });
+});
+
+describe('template validation', () => {
+  it('reports variables the event does not provide', () => {
+    expect(findUnknownVariables('ticket_updated', {
+      subject: '{{ticketNumber}} {{ticketNumbr}}',
+      body_html: '{{#slaDeadline}}{{slaDeadline}}{{/slaDeadline}} {{companyName}}',
+      body_text: '{{#temporaryPassword}}x{{/temporaryPassword}}'
+    })).toEqual(['ticketNumbr', 'temporaryPassword']);
+  });
+
+  it('requires every part and known variables', () => {
+    const valid = { subject: '{{ticketNumber}}', body_html: '<p>x</p>', body_text: 'x' };
+
+    expect(validateEmailTemplate('ticket_created', valid)).toBeNull();
+    expect(validateEmailTemplate('ticket_created', { ...valid, subject: ' ' })).toMatch(/Subject/);
+    expect(validateEmailTemplate('ticket_created', { ...valid, body_text: '' })).toMatch(/Text body/);
+    expect(validateEmailTemplate('ticket_created', { ...valid, body_html: '{{userName}}' })).toMatch(/userName/);
+  });
+
+  it('only uses known variables in the built-in templates', () => {
+    for (const event of EMAIL_TEMPLATE_EVENTS) {
+      for (const locale of EMAIL_LOCALES) {
+        expect(validateEmailTemplate(event, defaultEmailTemplate(event, locale))).toBeNull();
+      }
+    }
+  });
+});
+
+describe('locales', () => {
+  it('maps language preferences to email locales', () => {
+    expect(resolveEmailLocale('pt-BR')).toBe('pt-BR');
+    expect(resolveEmailLocale('pt')).toBe('pt-BR');
+    expect(resolveEmailLocale('de_DE')).toBe('de-DE');
+    expect(resolveEmailLocale('FR')).toBe('fr-FR');
+    expect(resolveEmailLocale('ja-JP')).toBe('en-US');
+    expect(resolveEmailLocale(null)).toBe('en-US');
+  });
+
+  it('uses the active custom template of the locale and falls back to the built-in one', () => {
+    expect(pickEmailTemplate([custom], 'ticket_updated', 'de-DE')).toEqual({
+      template: { subject: custom.subject, body_html: custom.body_html, body_text: custom.body_text },
+      custom: true
+    });
+    expect(pickEmailTemplate([custom], 'ticket_updated', 'fr-FR')).toEqual({
+      template: defaultEmailTemplate('ticket_updated', 'fr-FR'),
+      custom: false
+    });
+    expect(pickEmailTemplate([{ ...custom, is_active: false }], 'ticket_updated', 'de-DE').custom).toBe(false);
+  });
+
+  it('has a translated built-in template for every locale', () => {
+    const subjects = EMAIL_LOCALES.map(locale => defaultEmailTemplate('ticket_updated', locale).subject);
+    expect(new Set(subjects).size).toBe(EMAIL_LOCALES.length);
+  });
+});
+
+describe('renderEmail', () => {
+  const settings = {
+    ...DEFAULT_EMAIL_SETTINGS,
+    company_name: 'Acme <Labs>',
+    primary_color: '#ff0000',
+    logo_url: 'https://cdn.example.com/logo.png',
+    footer_text: '{{companyName}} · Support'
+  };
+
+  it('wraps the body in the branded layout and adds the footer', () => {
+    const email = renderEmail(
+      defaultEmailTemplate('ticket_created', 'en-US'),
+      sampleTemplateVariables('ticket_created', 'https://support.example.com'),
+      settings
+    );
+
+    expect(email.subject).toContain('ACS-TK-202508-0042');
+    expect(email.html).toContain('background: #ff0000');
+    expect(email.html).toContain('src="https://cdn.example.com/logo.png" alt="Acme &lt;Labs&gt;"');
+    expect(email.html).toContain('href="https://support.example.com/ticket/ACS-TK-202508-0042"');
+    expect(email.html).toContain('Acme &lt;Labs&gt; · Support');
+    expect(email.text.endsWith('---\nAcme <Labs> · Support')).toBe(true);
+  });
+
+  it('drops the deadline and reply lines when they do not apply', () => {
+    const vars = { ...sampleTemplateVariables('ticket_updated', 'https://support.example.com'), slaDeadline: null, acceptsReplies: null };
+    const email = renderEmail(defaultEmailTemplate('ticket_updated', 'en-US'), vars, DEFAULT_EMAIL_SETTINGS);
+    const withAll = renderEmail(
+      defaultEmailTemplate('ticket_updated', 'en-US'),
+      sampleTemplateVariables('ticket_updated', 'https://support.example.com'),
+      DEFAULT_EMAIL_SETTINGS
+    );
+
+    expect(withAll.text).toContain('08/08/2025 14:00');
+    expect(email.text).not.toContain('08/08/2025 14:00');
+    expect(email.text.length).toBeLessThan(withAll.text.length);
+    expect(email.text).not.toMatch(/\n{3,}/);
+  });
+
+  it('lists every notification of a digest, in the locale of the template', () => {
+    const vars = sampleTemplateVariables('notification_digest', 'https://support.example.com');
+    const email = renderEmail(defaultEmailTemplate('notification_digest', 'de-DE'), vars, DEFAULT_EMAIL_SETTINGS);
+
+    expect(email.subject).toBe('Ihre Benachrichtigungen im Überblick: 2 neu');
+    expect(email.html).toContain('Ticket assigned');
+    expect(email.html).toContain('New comment');
+    expect(email.text).toContain('Das ist heute passiert');
+    expect(renderEmail(defaultEmailTemplate('notification_digest', 'de-DE'), { ...vars, hourly: 'yes' }, DEFAULT_EMAIL_SETTINGS).text)
+      .toContain('in der letzten Stunde');
+  });
+
+  it('links every rating of the survey and names the file of a report', () => {
+    const survey = renderEmail(
+      defaultEmailTemplate('csat_survey', 'pt-BR'),
+      { ...sampleTemplateVariables('csat_survey', 'https://support.example.com'), agentName: null },
+      DEFAULT_EMAIL_SETTINGS
+    );
+    expect(survey.html).toContain('href="https://support.example.com/survey/sample?rating=5"');
+    expect(survey.text).toContain('foi resolvido.');
+
+    const vars = sampleTemplateVariables('scheduled_report', 'https://support.example.com');
+    const report = renderEmail(defaultEmailTemplate('scheduled_report', 'en-US'), vars, DEFAULT_EMAIL_SETTINGS);
+    expect(report.text).toContain('Resolution compliance: 94%');
+    expect(report.text).toContain('attached: report_sla_2025-08-01_2025-08-07.pdf');
+    expect(renderEmail(defaultEmailTemplate('scheduled_report', 'en-US'), { ...vars, attachmentName: null }, DEFAULT_EMAIL_SETTINGS).text)
+      .toContain('too large to attach');
+  });
+
+  it('formats the sender without characters that break the header', () => {
+    expect(formatSender({ from_name: 'Acme "Support"', from_address: 'help@acme.com' })).toBe('Acme Support <help@acme.com>');
+    expect(formatSender({ from_name: '', from_address: 'help@acme.com' })).toBe('help@acme.com');
+  });
+});
+
+describe('renderStoredEmail', () => {
+  const vars = sampleTemplateVariables('ticket_updated', 'https://support.example.com');
+
+  it("uses the admin's template for the recipient's locale and the configured sender", async () => {
+    const client = mockClient([custom], { from_name: 'Acme Desk', from_address: 'desk@acme.com', logo_url: null });
+    const email = await renderStoredEmail(client, 'ticket_updated', vars, 'de');
+
+    expect(email.locale).toBe('de-DE');
+    expect(email.subject).toBe('Neu bei ACS-TK-202508-0042');
+    expect(email.from).toBe('Acme Desk <desk@acme.com>');
+    expect(email.html).toContain('AnalytiChem');
+  });
+
+  it('falls back to the built-in template and default sender', async () => {
+    const email = await renderStoredEmail(mockClient([custom], null), 'ticket_updated', vars, 'nl-NL');
+
+    expect(email.locale).toBe('nl-NL');
+    expect(email.subject).toBe(renderTemplateString(defaultEmailTemplate('ticket_updated', 'nl-NL').subject, {
+      ...vars,
+      companyName: DEFAULT_EMAIL_SETTINGS.company_name
+    }));
+    expect(email.from).toBe('ACS Ticket System <onboarding@resend.dev>');
+  });
+});
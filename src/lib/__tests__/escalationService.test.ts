@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import {
+  dueSteps,
+  escalationService,
+  matchPolicy,
+  nextPriority,
+  ruleEscalations,
+  type EscalationPolicy,
+  type EscalationTicket
+} from '../escalationService';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+    auth: { getUser: vi.fn() }
+  }
+}));
+
+const NOW = new Date('2025-08-07T12:00:00Z');
+
+const ticket = (overrides: Partial<EscalationTicket> = {}): EscalationTicket => ({
+  id: 't1',
+  ticket_number: 'ACS-TK-1',
+  title: 'VPN down',
+  priority: 'high',
+  status: 'open',
+  category_id: 'network',
+  created_at: '2025-08-07T09:00:00Z', // open for 3 hours
+  assigned_to: 'agent-1',
+  team_id: 'team-1',
+  first_response_at: null,
+  ...overrides
+});
+
+const policy = (overrides: Partial<EscalationPolicy> = {}): EscalationPolicy => ({
+  id: 'p1',
+  name: 'High priority',
+  priorities: ['high', 'urgent'],
+  category_ids: [],
+  sort_order: 0,
+  is_active: true,
+  steps: [
+    { id: 's1', step_order: 0, after_minutes: 60, action: 'reassign', config: {} },
+    { id: 's2', step_order: 1, after_minutes: 120, action: 'raise_priority', config: {} },
+    { id: 's3', step_order: 2, after_minutes: 240, action: 'notify_admin', config: {} }
+  ],
+  ...overrides
+});
+
+describe('nextPriority', () => {
+  it('steps one level up, or to the target, never down', () => {
+    expect(nextPriority('medium')).toBe('high');
+    expect(nextPriority('low', 'urgent')).toBe('urgent');
+    expect(nextPriority('urgent')).toBeNull();
+    expect(nextPriority('high', 'medium')).toBeNull();
+  });
+});
+
+describe('matchPolicy', () => {
+  it('picks the first active policy covering the priority and category', () => {
+    const network = policy({ id: 'network', sort_order: 0, category_ids: ['network'] });
+    const fallback = policy({ id: 'any', sort_order: 1, priorities: [] });
+    const inactive = policy({ id: 'off', sort_order: -1, is_active: false });
+
+    expect(matchPolicy(ticket(), [fallback, network, inactive])?.id).toBe('network');
+    expect(matchPolicy(ticket({ category_id: 'hardware' }), [fallback, network])?.id).toBe('any');
+    expect(matchPolicy(ticket({ priority: 'low' }), [network])).toBeUndefined();
+  });
+});
+
+describe('dueSteps', () => {
+  it('returns the steps whose threshold has passed and that have not run yet', () => {
+    const due = dueSteps(ticket(), policy(), new Set(['s1']), NOW);
+    expect(due.map(step => step.key)).toEqual(['s2']);
+    expect(due[0]).toMatchObject({ action: 'raise_priority', source: 'High priority', policy: { id: 'p1' } });
+  });
+});
+
+describe('ruleEscalations', () => {
+  const rule = { id: 'r1', name: 'VIP', actions: { escalateAfter: 30, notifyManager: true } };
+  const assignment = { rule_id: 'r1', created_at: '2025-08-07T11:00:00Z' };
+
+  it('reassigns and pages the lead when the agent has not responded in time', () => {
+    expect(ruleEscalations(ticket(), assignment, rule, new Set(), NOW).map(step => step.key))
+      .toEqual(['rule:r1', 'rule:r1:lead']);
+    expect(ruleEscalations(ticket(), assignment, rule, new Set(['rule:r1', 'rule:r1:lead']), NOW)).toEqual([]);
+  });
+
+  it('does nothing once the agent has responded, or before the threshold', () => {
+    expect(ruleEscalations(ticket({ first_response_at: '2025-08-07T11:10:00Z' }), assignment, rule, new Set(), NOW)).toEqual([]);
+    expect(ruleEscalations(ticket(), { ...assignment, created_at: '2025-08-07T11:45:00Z' }, rule, new Set(), NOW)).toEqual([]);
+  });
+});
+
+describe('escalationService.savePolicy', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('saves the policy and its steps in one call, keeping the ids of existing steps', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: 'p1', error: null } as any);
+
+    const id = await escalationService.savePolicy({
+      ...policy({ name: '  Renamed  ' }),
+      steps: [policy().steps[0], { step_order: 1, after_minutes: 90, action: 'notify_admin', config: {} }]
+    });
+
+    expect(id).toBe('p1');
+    expect(supabase.from).not.toHaveBeenCalled();
+    expect(supabase.rpc).toHaveBeenCalledWith('save_escalation_policy', {
+      p_policy: expect.objectContaining({ id: 'p1', name: 'Renamed' }),
+      p_steps: [
+        { id: 's1', after_minutes: 60, action: 'reassign', config: {} },
+        { id: null, after_minutes: 90, action: 'notify_admin', config: {} }
+      ]
+    });
+  });
+});
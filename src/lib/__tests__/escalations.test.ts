@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runEscalations,
+  type EscalationPolicy,
+  type EscalationTicket
+} from '../../../supabase/functions/_shared/escalations';
+import { mockClient } from '@/test/utils/supabaseQueryMock';
+
+const NOW = new Date('2025-08-07T12:00:00Z');
+const context = { now: NOW, timezone: 'UTC' };
+
+const ticket: EscalationTicket = {
+  id: 't1',
+  ticket_number: 'ACS-TK-1',
+  title: 'VPN down',
+  priority: 'high',
+  status: 'open',
+  category_id: 'network',
+  created_at: '2025-08-07T09:00:00Z', // open for 3 hours
+  assigned_to: 'agent-1',
+  team_id: 'team-1',
+  queue_id: null,
+  first_response_at: null
+};
+
+const policy = (steps: EscalationPolicy['steps']): EscalationPolicy => ({
+  id: 'p1',
+  name: 'High priority',
+  priorities: ['high', 'urgent'],
+  category_ids: [],
+  sort_order: 0,
+  is_active: true,
+  steps
+});
+
+describe('runEscalations', () => {
+  it('raises the priority once, records the step and logs it on the ticket', async () => {
+    const { client, calls } = mockClient({
+      tickets_new: [{ data: [{ ...ticket }], error: null }, { data: null, error: null }],
+      escalation_policies: [{ data: [policy([{ id: 's2', step_order: 0, after_minutes: 120, action: 'raise_priority', config: {} }])], error: null }],
+      ticket_escalations: [{ data: [], error: null }, { data: { id: 'e1' }, error: null }]
+    });
+
+    const result = await runEscalations(client, context);
+
+    expect(result).toEqual({ executed: 1, skipped: 0, failed: 0 });
+    expect(calls.tickets_new[1].update).toHaveBeenCalledWith(expect.objectContaining({ priority: 'urgent' }));
+    expect(calls.ticket_escalations[1].insert).toHaveBeenCalledWith(expect.objectContaining({ ticket_id: 't1', step_key: 's2', action: 'raise_priority' }));
+    expect(calls.ticket_escalations[2].update).toHaveBeenCalledWith(expect.objectContaining({ status: 'done' }));
+    expect(client.rpc).toHaveBeenCalledWith('log_ticket_activity', expect.objectContaining({
+      p_action_type: 'escalated',
+      p_field_name: 'priority',
+      p_old_value: 'high',
+      p_new_value: 'urgent'
+    }));
+  });
+
+  it('reassigns the ticket to an on-duty teammate and records why', async () => {
+    const team = {
+      id: 'team-1',
+      name: 'Network',
+      slug: 'network',
+      is_active: true,
+      members: [
+        { team_id: 'team-1', user_id: 'agent-1', role: 'member', user: { full_name: 'Ana', email: 'ana@example.com', role: 'agent' } },
+        { team_id: 'team-1', user_id: 'agent-2', role: 'member', user: { full_name: 'Bo', email: 'bo@example.com', role: 'agent' } }
+      ],
+      queues: [{ id: 'q1', team_id: 'team-1', name: 'Inbox', is_default: true, sort_order: 0, is_active: true }]
+    };
+    const { client, calls } = mockClient({
+      tickets_new: [
+        { data: [{ ...ticket }], error: null },
+        { data: [{ assigned_to: 'agent-1' }], error: null }, // workload
+        { data: null, error: null }
+      ],
+      escalation_policies: [{ data: [policy([{ id: 's1', step_order: 0, after_minutes: 60, action: 'reassign', config: {} }])], error: null }],
+      ticket_escalations: [{ data: [], error: null }, { data: { id: 'e1' }, error: null }],
+      teams: [{ data: [team], error: null }],
+      agent_presence: [{ data: [{ agent_id: 'agent-2', manual_status: null, last_seen_at: '2025-08-07T11:58:00Z' }], error: null }]
+    });
+
+    const result = await runEscalations(client, context);
+
+    expect(result).toEqual({ executed: 1, skipped: 0, failed: 0 });
+    expect(calls.tickets_new[2].update).toHaveBeenCalledWith(expect.objectContaining({ assigned_to: 'agent-2', queue_id: 'q1' }));
+    expect(calls.ticket_assignment_audit[1].insert).toHaveBeenCalledWith(expect.objectContaining({
+      ticket_id: 't1',
+      assigned_to: 'agent-2',
+      assigned_by: null,
+      method: 'escalation',
+      reason: 'Escalated by High priority'
+    }));
+    expect(calls.notifications[0].insert).toHaveBeenCalledWith([expect.objectContaining({ user_id: 'agent-2', type: 'assignment_changed' })]);
+    expect(calls.ticket_escalations[2].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'done',
+      details: 'reassigned to Bo (Network)'
+    }));
+  });
+
+  it('leaves a step alone when it was already claimed', async () => {
+    const { client } = mockClient({
+      tickets_new: [{ data: [{ ...ticket }], error: null }],
+      escalation_policies: [{ data: [policy([{ id: 's2', step_order: 0, after_minutes: 120, action: 'raise_priority', config: {} }])], error: null }],
+      ticket_escalations: [
+        { data: [], error: null },
+        { data: null, error: { code: '23505', message: 'duplicate key' } }
+      ]
+    });
+
+    const result = await runEscalations(client, context);
+
+    expect(result).toEqual({ executed: 0, skipped: 0, failed: 0 });
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,330 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseAddressList, parseEmail } from '../../../supabase/functions/_shared/mimeParser';
+import {
+  cleanSubject,
+  findTicketNumber,
+  isInboundSecretValid,
+  processInboundEmail,
+  replyContent,
+  stripQuotedReply
+} from '../../../supabase/functions/_shared/inboundEmail';
+import { findReplyToken, stripSignature } from '../../../supabase/functions/_shared/replyByEmail';
+import { canAddComment } from '../../../supabase/functions/_shared/ticketComments';
+import { mockClient } from '@/test/utils/supabaseQueryMock';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', 'email', name));
+
+const NOW = new Date('2025-08-08T12:00:00Z');
+const ana = { id: 'user-ana', full_name: 'Ana Silva', email: 'ana.silva@example.com', role: 'user' };
+const ticket = {
+  id: 'ticket-42',
+  ticket_number: 'ACS-TK-202508-0042',
+  title: 'Printer offline',
+  status: 'open',
+  user_id: 'user-ana',
+  assigned_to: 'agent-1'
+};
+
+const inboundContext = () => ({ now: NOW, uploadAttachment: vi.fn().mockResolvedValue(undefined) });
+
+// The last row written to ticket_emails
+const loggedEmail = (calls: Record<string, any[]>) => {
+  const inserts = calls.ticket_emails.filter(builder => builder.insert.mock.calls.length);
+  return inserts[inserts.length - 1].insert.mock.calls[0][0];
+};
+
+describe('parseEmail', () => {
+  it('decodes headers, nested multiparts, charsets and attachments', () => {
+    const email = parseEmail(fixture('new-ticket.eml'));
+
+    expect(email.messageId).toBe('new-1@mail.example.com');
+    expect(email.subject).toBe('Não consigo acessar o SAP');
+    expect(email.from).toEqual({ name: 'Silva, Ana', address: 'ana.silva@example.com' });
+    expect(email.to.map(address => address.address)).toEqual(['support@acs.example.com']);
+    expect(email.text).toContain('Olá,');
+    expect(email.text).toContain('Desde hoje de manhã o SAP mostra "acesso negado" quando tento entrar.');
+    expect(email.html).toContain('<p>Olá,</p>');
+
+    expect(email.attachments).toHaveLength(2);
+    const [logo, screenshot] = email.attachments;
+    expect(logo).toMatchObject({ filename: 'logo.gif', contentType: 'image/gif', contentId: 'logo@example.com', inline: true });
+    expect(screenshot).toMatchObject({ filename: 'captura de tela á.png', contentType: 'image/png', inline: false });
+    expect(Array.from(screenshot.content.slice(0, 4))).toEqual([0x89, 0x50, 0x4e, 0x47]);
+  });
+
+  it('falls back to the HTML body and reads threading headers', () => {
+    const email = parseEmail(fixture('reply-headers.eml'));
+
+    expect(email.subject).toBe('Re: Não consigo acessar o SAP');
+    expect(email.inReplyTo).toBe('new-1@mail.example.com');
+    expect(email.references).toEqual(['first@mail.example.com', 'new-1@mail.example.com']);
+    expect(email.text).toContain('Ainda não funciona.');
+    expect(email.text).toContain('Continua dando erro 403.');
+    expect(email.text).not.toContain('<div>');
+  });
+
+  it('splits address lists on commas outside quotes', () => {
+    expect(parseAddressList('"Costa, Bruno" <bruno@example.com>, carla@example.com')).toEqual([
+      { name: 'Costa, Bruno', address: 'bruno@example.com' },
+      { name: null, address: 'carla@example.com' }
+    ]);
+  });
+});
+
+describe('inbound email helpers', () => {
+  it('finds the ticket number and cleans reply prefixes', () => {
+    expect(findTicketNumber('RE: [acs-tk-202508-0042] Printer offline')).toBe('ACS-TK-202508-0042');
+    expect(findTicketNumber('Printer offline')).toBeNull();
+    expect(cleanSubject('RE: Fwd: [ACS-TK-202508-0042] Printer offline')).toBe('Printer offline');
+    expect(cleanSubject('AW: WG: Drucker')).toBe('Drucker');
+  });
+
+  it('keeps only the new part of a reply', () => {
+    const text = 'Still broken.\n\nEm 7 de ago. de 2025, Suporte escreveu:\n> Please restart it';
+    expect(stripQuotedReply(text)).toBe('Still broken.');
+  });
+
+  it('accepts only the exact shared secret', () => {
+    expect(isInboundSecretValid('s3cret', 's3cret')).toBe(true);
+    expect(isInboundSecretValid('s3cre', 's3cret')).toBe(false);
+    expect(isInboundSecretValid('s3cret!', 's3cret')).toBe(false);
+    expect(isInboundSecretValid(null, 's3cret')).toBe(false);
+  });
+});
+
+describe('processInboundEmail', () => {
+  it('creates a categorised ticket with its attachments', async () => {
+    const { client, calls } = mockClient({
+      ticket_emails: [{ data: [], error: null }],
+      users: [{ data: ana, error: null }, { data: [{ id: 'agent-1' }], error: null }],
+      categories: [{ data: [{ id: 'cat-erp', name: 'ERP' }, { id: 'cat-hw', name: 'Hardware' }], error: null }],
+      subcategories: [{ data: [{ id: 'sub-sap', name: 'SAP system', category_id: 'cat-erp' }], error: null }],
+      tickets_new: [{ data: { ...ticket, id: 'ticket-new', ticket_number: 'ACS-TK-202508-0050', title: 'Não consigo acessar o SAP' }, error: null }],
+      ticket_attachments: [{ data: null, error: null }]
+    });
+    const context = inboundContext();
+
+    const result = await processInboundEmail(client, fixture('new-ticket.eml'), context);
+
+    expect(result).toMatchObject({ status: 'created', ticketId: 'ticket-new', ticketNumber: 'ACS-TK-202508-0050', attachments: 1 });
+    expect(calls.users[0].ilike).toHaveBeenCalledWith('email', 'ana.silva@example.com');
+
+    const inserted = calls.tickets_new[0].insert.mock.calls[0][0];
+    expect(inserted).toMatchObject({
+      title: 'Não consigo acessar o SAP',
+      user_id: 'user-ana',
+      status: 'open',
+      category_id: 'cat-erp',
+      subcategory_id: 'sub-sap'
+    });
+
+    // The inline logo stays out of the ticket
+    expect(context.uploadAttachment).toHaveBeenCalledTimes(1);
+    expect(context.uploadAttachment.mock.calls[0][0]).toBe(`ticket-new/${NOW.getTime()}-0-captura de tela á.png`);
+    expect(calls.ticket_attachments[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      ticket_id: 'ticket-new',
+      file_name: 'captura de tela á.png',
+      mime_type: 'image/png',
+      uploaded_by: 'user-ana'
+    }));
+
+    expect(calls.notifications[0].insert.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ user_id: 'agent-1', type: 'ticket_created', ticket_id: 'ticket-new' })
+    ]);
+    expect(loggedEmail(calls)).toMatchObject({ status: 'created', ticket_id: 'ticket-new', message_id: 'new-1@mail.example.com' });
+  });
+
+  it('threads a reply by the ticket number in the subject', async () => {
+    const { client, calls } = mockClient({
+      ticket_emails: [{ data: [], error: null }],
+      users: [{ data: ana, error: null }],
+      tickets_new: [{ data: ticket, error: null }],
+      ticket_comments_new: [{ data: { id: 'comment-1' }, error: null }]
+    });
+
+    const result = await processInboundEmail(client, fixture('reply-subject.eml'), inboundContext());
+
+    expect(result).toMatchObject({ status: 'threaded', ticketId: 'ticket-42', commentId: 'comment-1', attachments: 0 });
+    expect(calls.tickets_new[0].eq).toHaveBeenCalledWith('ticket_number', 'ACS-TK-202508-0042');
+    expect(calls.ticket_comments_new[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      ticket_id: 'ticket-42',
+      user_id: 'user-ana',
+      content: 'Ainda está offline depois de reiniciar.',
+      is_internal: false
+    }));
+    // Only the assignee hears about it, not the sender
+    expect(calls.notifications[0].insert.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ user_id: 'agent-1', type: 'comment_added' })
+    ]);
+    expect(loggedEmail(calls)).toMatchObject({ status: 'threaded', comment_id: 'comment-1' });
+  });
+
+  it('threads a reply through In-Reply-To and asks to reopen a closed ticket', async () => {
+    const { client, calls } = mockClient({
+      ticket_emails: [{ data: [], error: null }, { data: [{ ticket_id: 'ticket-42' }], error: null }, { data: null, error: null }],
+      users: [{ data: ana, error: null }],
+      tickets_new: [{ data: { ...ticket, status: 'closed' }, error: null }],
+      ticket_comments_new: [{ data: { id: 'comment-2' }, error: null }]
+    });
+
+    const result = await processInboundEmail(client, fixture('reply-headers.eml'), inboundContext());
+
+    expect(result).toMatchObject({ status: 'threaded', ticketId: 'ticket-42' });
+    expect(calls.ticket_emails[1].in).toHaveBeenCalledWith('message_id', ['new-1@mail.example.com', 'first@mail.example.com', 'new-1@mail.example.com']);
+    expect(calls.reopen_requests[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      ticket_id: 'ticket-42',
+      user_id: 'user-ana',
+      status: 'pending'
+    }));
+  });
+
+  it("opens a new ticket when the sender may not reply on someone else's ticket", async () => {
+    const { client, calls } = mockClient({
+      ticket_emails: [{ data: [], error: null }],
+      users: [{ data: { ...ana, id: 'user-other' }, error: null }, { data: [], error: null }],
+      tickets_new: [{ data: ticket, error: null }, { data: { ...ticket, id: 'ticket-new', user_id: 'user-other' }, error: null }]
+    });
+
+    const result = await processInboundEmail(client, fixture('reply-subject.eml'), inboundContext());
+
+    expect(result).toMatchObject({ status: 'created', ticketId: 'ticket-new' });
+    expect(calls.ticket_comments_new).toBeUndefined();
+    expect(calls.tickets_new[1].insert).toHaveBeenCalledWith(expect.objectContaining({ title: 'Printer offline', user_id: 'user-other' }));
+  });
+
+  it('rejects auto-replies and unknown senders', async () => {
+    const auto = mockClient({ ticket_emails: [{ data: [], error: null }] });
+    const autoResult = await processInboundEmail(auto.client, fixture('auto-reply.eml'), inboundContext());
+    expect(autoResult).toMatchObject({ status: 'rejected', reason: 'auto_reply' });
+    expect(auto.calls.users).toBeUndefined();
+    expect(loggedEmail(auto.calls)).toMatchObject({ status: 'rejected', reason: 'auto_reply' });
+
+    const unknown = mockClient({ ticket_emails: [{ data: [], error: null }], users: [{ data: null, error: null }] });
+    const unknownResult = await processInboundEmail(unknown.client, fixture('new-ticket.eml'), inboundContext());
+    expect(unknownResult).toMatchObject({ status: 'rejected', reason: 'unknown_sender' });
+    expect(unknown.calls.tickets_new).toBeUndefined();
+  });
+
+  it('skips a message that was already filed', async () => {
+    const { client, calls } = mockClient({ ticket_emails: [{ data: [{ ticket_id: 'ticket-42' }], error: null }] });
+
+    const result = await processInboundEmail(client, fixture('reply-subject.eml'), inboundContext());
+
+    expect(result).toEqual({ status: 'duplicate', ticketId: 'ticket-42', attachments: 0 });
+    expect(calls.ticket_emails).toHaveLength(1);
+  });
+});
+
+describe('reply by email', () => {
+  const TOKEN = '0123456789abcdef0123456789abcdef';
+  const tokenRow = { data: { ticket_id: 'ticket-42', user_id: 'user-ana' }, error: null };
+
+  const replyContext = () => ({ ...inboundContext(), sendEmail: vi.fn().mockResolvedValue(undefined) });
+
+  it('finds the token and keeps only what the sender wrote', () => {
+    const email = parseEmail(fixture('reply-token.eml'));
+
+    expect(findReplyToken(email)).toBe(TOKEN);
+    expect(replyContent(email.text)).toBe('Obrigada, agora funciona!');
+    expect(stripSignature('Thanks!\n\nSent from my iPhone')).toBe('Thanks!');
+  });
+
+  it('applies the comment permissions of the app', () => {
+    expect(canAddComment({ status: 'open', user_id: 'user-ana' }, { id: 'user-ana', role: 'user' })).toBe(true);
+    expect(canAddComment({ status: 'open', user_id: 'user-ana' }, { id: 'user-other', role: 'user' })).toBe(false);
+    expect(canAddComment({ status: 'open', user_id: 'user-ana' }, { id: 'agent-1', role: 'agent' })).toBe(true);
+    expect(canAddComment({ status: 'closed', user_id: 'user-ana' }, { id: 'agent-1', role: 'admin' })).toBe(false);
+  });
+
+  it('adds the reply as a comment of the token owner', async () => {
+    const { client, calls } = mockClient({
+      ticket_emails: [{ data: [], error: null }],
+      ticket_reply_tokens: [tokenRow],
+      users: [{ data: ana, error: null }],
+      tickets_new: [{ data: ticket, error: null }],
+      ticket_comments_new: [{ data: { id: 'comment-3' }, error: null }]
+    });
+    const context = replyContext();
+
+    const result = await processInboundEmail(client, fixture('reply-token.eml'), context);
+
+    expect(result).toMatchObject({ status: 'threaded', ticketId: 'ticket-42', commentId: 'comment-3' });
+    expect(calls.ticket_reply_tokens[0].eq).toHaveBeenCalledWith('token', TOKEN);
+    expect(calls.ticket_comments_new[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      ticket_id: 'ticket-42',
+      user_id: 'user-ana',
+      content: 'Obrigada, agora funciona!'
+    }));
+    expect(calls.ticket_reply_tokens[1].update).toHaveBeenCalledWith({ last_used_at: NOW.toISOString() });
+    expect(context.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('logs the first agent response for the SLA', async () => {
+    const agent = { id: 'agent-1', full_name: 'Bruno Costa', email: 'ana.silva@example.com', role: 'agent' };
+    const { client, calls } = mockClient({
+      ticket_emails: [{ data: [], error: null }],
+      ticket_reply_tokens: [{ data: { ticket_id: 'ticket-42', user_id: 'agent-1' }, error: null }],
+      users: [{ data: agent, error: null }],
+      tickets_new: [{ data: ticket, error: null }],
+      ticket_comments_new: [{ data: { id: 'comment-4' }, error: null }],
+      ticket_activity_logs: [{ data: [], error: null }]
+    });
+
+    await processInboundEmail(client, fixture('reply-token.eml'), replyContext());
+
+    expect(client.rpc).toHaveBeenCalledWith('log_ticket_activity', expect.objectContaining({
+      p_ticket_id: 'ticket-42',
+      p_user_id: 'agent-1',
+      p_action_type: 'first_response'
+    }));
+    expect(calls.notifications[0].insert.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ user_id: 'user-ana', type: 'comment_added' })
+    ]);
+  });
+
+  it.each([
+    ['invalid_reply_token', { ticket_reply_tokens: [{ data: null, error: null }] }],
+    ['sender_mismatch', { users: [{ data: { ...ana, email: 'someone.else@example.com' }, error: null }] }],
+    ['comment_not_allowed', { tickets_new: [{ data: { ...ticket, status: 'closed' }, error: null }] }]
+  ])('bounces a reply rejected as %s', async (reason, overrides) => {
+    const { client, calls } = mockClient({
+      ticket_emails: [{ data: [], error: null }],
+      ticket_reply_tokens: [tokenRow],
+      users: [{ data: ana, error: null }],
+      tickets_new: [{ data: ticket, error: null }],
+      ...overrides
+    });
+    const context = replyContext();
+
+    const result = await processInboundEmail(client, fixture('reply-token.eml'), context);
+
+    expect(result).toMatchObject({ status: 'rejected', reason });
+    expect(calls.ticket_comments_new).toBeUndefined();
+    expect(context.sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'ana.silva@example.com',
+      subject: expect.stringContaining('Your reply was not added')
+    }));
+    expect(loggedEmail(calls)).toMatchObject({ status: 'rejected', reason });
+  });
+
+  it('bounces in the sender\'s language, with only the reason that applies', async () => {
+    const { client } = mockClient({
+      ticket_emails: [{ data: [], error: null }],
+      ticket_reply_tokens: [tokenRow],
+      users: [{ data: ana, error: null }],
+      tickets_new: [{ data: { ...ticket, status: 'closed' }, error: null }],
+      notification_preferences: [{ data: [{ user_id: 'user-ana', language: 'pt-BR' }], error: null }]
+    });
+    const context = replyContext();
+
+    await processInboundEmail(client, fixture('reply-token.eml'), context);
+
+    const bounce = context.sendEmail.mock.calls[0][0];
+    expect(bounce.subject).toMatch(/^Sua resposta não foi adicionada: /);
+    expect(bounce.text).toContain('ao ticket ACS-TK-202508-0042');
+    expect(bounce.text).toContain('O ticket não aceita novos comentários');
+    expect(bounce.text).not.toContain('Só aceitamos respostas');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  compileDigests,
+  deliverNotificationDigests,
+  type ReleasedNotification
+} from '../../../supabase/functions/_shared/notificationDigests';
+import { mockClient } from '@/test/utils/supabaseQueryMock';
+
+const released = (overrides: Partial<ReleasedNotification> & { title?: string; created_at?: string } = {}): ReleasedNotification => {
+  const { title = 'Ticket updated', created_at = '2026-10-01T10:00:00Z', ...rest } = overrides;
+  return {
+    held_id: `held-${title}-${created_at}`,
+    user_id: 'user-1',
+    delivery: 'digest',
+    notification: {
+      id: `notification-${title}`,
+      type: 'ticket_updated',
+      title,
+      message: `${title} message`,
+      ticket_id: 'ticket-1',
+      created_at
+    },
+    user_email: 'ana@example.com',
+    user_name: 'Ana',
+    email_notifications: true,
+    timezone: 'America/Sao_Paulo',
+    language: 'pt',
+    digest_frequency: 'daily',
+    ...rest
+  };
+};
+
+describe('compileDigests', () => {
+  it('groups digest notifications per user in chronological order', () => {
+    const digests = compileDigests([
+      released({ title: 'Second', created_at: '2026-10-01T12:00:00Z' }),
+      released({ title: 'Other user', user_id: 'user-2', user_email: 'bo@example.com' }),
+      released({ title: 'First', created_at: '2026-10-01T09:00:00Z' })
+    ]);
+
+    expect(digests).toHaveLength(2);
+    expect(digests[0].email).toBe('ana@example.com');
+    expect(digests[0].items.map(item => item.title)).toEqual(['First', 'Second']);
+  });
+
+  it('leaves batched notifications and users without email out of the digest', () => {
+    const digests = compileDigests([
+      released({ delivery: 'batched' }),
+      released({ user_id: 'user-2', email_notifications: false }),
+      released({ user_id: 'user-3', user_email: null })
+    ]);
+
+    expect(digests).toEqual([]);
+  });
+
+  it('falls back to UTC for an unknown timezone', () => {
+    const [digest] = compileDigests([released({ timezone: 'Mars/Olympus' })]);
+    expect(digest.timezone).toBe('UTC');
+  });
+});
+
+describe('deliverNotificationDigests', () => {
+  const context = (sendEmail = vi.fn().mockResolvedValue(undefined)) => ({
+    now: new Date('2026-10-01T13:00:00Z'),
+    timezone: 'UTC',
+    sendEmail,
+    digests: { appUrl: 'https://app.example.com' }
+  });
+
+  it('sends one digest email per user, in their language and timezone', async () => {
+    const { client } = mockClient({});
+    client.rpc.mockResolvedValue({
+      data: [
+        released({ title: 'First' }),
+        released({ title: 'Second', created_at: '2026-10-01T11:00:00Z' }),
+        released({ delivery: 'batched', title: 'Batched' }),
+        released({ title: 'Deutsch', user_id: 'user-2', user_email: 'bo@example.com', language: 'de', timezone: 'Europe/Berlin' })
+      ],
+      error: null
+    });
+    const sendEmail = vi.fn().mockResolvedValue(undefined);
+
+    const result = await deliverNotificationDigests(client, context(sendEmail));
+
+    expect(client.rpc).toHaveBeenCalledWith('release_due_notifications');
+    expect(result).toEqual({ released: 4, digests: 2, sent: 2, failed: 0 });
+
+    const [ana, bo] = sendEmail.mock.calls.map(([email]) => email);
+    expect(ana.to).toBe('ana@example.com');
+    expect(ana.subject).toBe('Resumo de notificações: 2 novas');
+    // 10:00 UTC is 07:00 in São Paulo
+    expect(ana.text).toContain(new Intl.DateTimeFormat('pt-BR', { timeStyle: 'short', timeZone: 'UTC' }).format(new Date('2026-10-01T07:00:00Z')));
+    expect(ana.html).toContain('https://app.example.com/ticket/ticket-1');
+    expect(bo.subject).toBe('Ihre Benachrichtigungen im Überblick: 1 neu');
+  });
+
+  it('counts failed digest emails without stopping the run', async () => {
+    const { client } = mockClient({});
+    client.rpc.mockResolvedValue({
+      data: [released(), released({ user_id: 'user-2', user_email: 'bo@example.com' })],
+      error: null
+    });
+    const sendEmail = vi.fn()
+      .mockRejectedValueOnce(new Error('SMTP down'))
+      .mockResolvedValueOnce(undefined);
+
+    const result = await deliverNotificationDigests(client, context(sendEmail));
+
+    expect(result).toEqual({ released: 2, digests: 2, sent: 1, failed: 1 });
+  });
+
+  it('throws when the release fails', async () => {
+    const { client } = mockClient({});
+    client.rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+
+    await expect(deliverNotificationDigests(client, context())).rejects.toMatchObject({ message: 'permission denied' });
+  });
+
+  it('releases nothing until the app URL is configured', async () => {
+    const { client } = mockClient({});
+
+    await expect(deliverNotificationDigests(client, { now: new Date(), timezone: 'UTC' })).rejects.toThrow('APP_URL');
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+});
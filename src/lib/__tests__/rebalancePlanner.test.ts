@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { buildRebalancePlan, type RebalanceCandidate } from '../rebalancePlanner';
+import type { AgentMetrics } from '../assignmentService';
+
+const agent = (id: string, currentWorkload: number, overrides: Partial<AgentMetrics> = {}): AgentMetrics => ({
+  id,
+  full_name: id.toUpperCase(),
+  email: `${id}@example.com`,
+  role: 'agent',
+  currentWorkload,
+  maxConcurrentTickets: 10,
+  averageResolutionTime: 4,
+  resolutionRate: 0.9,
+  customerSatisfactionScore: 4.5,
+  availability: 'available',
+  lastActivity: new Date('2025-08-07T10:00:00Z'),
+  onShift: true,
+  specializations: [],
+  languages: [],
+  skillTags: [],
+  categoryExpertise: {},
+  customerHistory: { totalCustomersServed: 0, repeatCustomerRate: 0, averageCustomerSatisfaction: 0 },
+  certifications: [],
+  ...overrides
+});
+
+let ticketCounter = 0;
+const ticket = (assignedTo: string, overrides: Partial<RebalanceCandidate> = {}): RebalanceCandidate => ({
+  id: `t${++ticketCounter}`,
+  title: `Ticket ${ticketCounter}`,
+  priority: 'medium',
+  category_id: null,
+  user_id: 'customer-1',
+  assigned_to: assignedTo,
+  created_at: `2025-08-0${Math.min(ticketCounter, 9)}T00:00:00Z`,
+  slaUrgency: 'ok',
+  ...overrides
+});
+
+describe('buildRebalancePlan', () => {
+  it('moves the excess from overloaded agents and reports the workload diff', () => {
+    const tickets = Array.from({ length: 8 }, () => ticket('a'));
+    const plan = buildRebalancePlan([agent('a', 8), agent('b', 0)], tickets);
+
+    expect(plan.targetWorkload).toBe(4);
+    expect(plan.moves).toHaveLength(4);
+    expect(plan.moves.every(move => move.fromAgentId === 'a' && move.toAgentId === 'b')).toBe(true);
+    expect(plan.agents).toEqual([
+      { id: 'a', name: 'A', before: 8, after: 4, capacity: 10 },
+      { id: 'b', name: 'B', before: 0, after: 4, capacity: 10 }
+    ]);
+  });
+
+  it('leaves a balanced team alone', () => {
+    const plan = buildRebalancePlan([agent('a', 4), agent('b', 3)], [ticket('a'), ticket('a')]);
+
+    expect(plan.moves).toEqual([]);
+    expect(plan.agents).toEqual([]);
+  });
+
+  it('moves tickets closest to an SLA breach first', () => {
+    const calm = ticket('a', { priority: 'urgent' });
+    const atRisk = ticket('a', { slaUrgency: 'warning', slaDeadline: new Date('2025-08-07T15:00:00Z') });
+    const overdue = ticket('a', { slaUrgency: 'overdue', slaDeadline: new Date('2025-08-07T09:00:00Z') });
+
+    const plan = buildRebalancePlan([agent('a', 6), agent('b', 0)], [calm, atRisk, overdue], { maxMovesPerAgent: 2 });
+
+    expect(plan.moves.map(move => move.ticketId)).toEqual([overdue.id, atRisk.id]);
+    expect(plan.moves[0].reason).toContain('SLA overdue');
+  });
+
+  it('sends category tickets to agents with expertise and holds them back otherwise', () => {
+    const billing = ticket('a', { category_id: 'billing' });
+    const network = ticket('a', { category_id: 'network' });
+    const urgentNetwork = ticket('a', { category_id: 'network', slaUrgency: 'overdue' });
+
+    const plan = buildRebalancePlan(
+      [
+        agent('a', 9),
+        agent('b', 0, { categoryExpertise: { billing: 0.2 } }),
+        agent('c', 2, { categoryExpertise: { billing: 0.9 } })
+      ],
+      [billing, network, urgentNetwork]
+    );
+
+    const byTicket = Object.fromEntries(plan.moves.map(move => [move.ticketId, move]));
+    expect(byTicket[billing.id].toAgentId).toBe('c');
+    expect(byTicket[billing.id].expertise).toBe(0.9);
+    // Nobody knows the network category, but an overdue ticket still moves
+    expect(byTicket[urgentNetwork.id]).toBeDefined();
+    expect(byTicket[network.id]).toBeUndefined();
+    expect(plan.skipped).toEqual([
+      expect.objectContaining({ ticketId: network.id, reason: 'No available agent with expertise in this category' })
+    ]);
+  });
+
+  it('hands over every ticket of agents who are out of office and never targets off-duty agents', () => {
+    const absent = agent('a', 2, {
+      availability: 'offline',
+      outOfOffice: { id: 'ooo', agent_id: 'a', starts_at: '2025-08-01T00:00:00Z', ends_at: '2025-08-20T00:00:00Z' }
+    });
+    const plan = buildRebalancePlan(
+      [absent, agent('b', 1), agent('c', 0, { onShift: false })],
+      [ticket('a'), ticket('a')]
+    );
+
+    expect(plan.targetWorkload).toBe(3);
+    expect(plan.moves).toHaveLength(2);
+    expect(plan.moves.every(move => move.toAgentId === 'b')).toBe(true);
+    expect(plan.moves[0].reason).toContain('A is out of office');
+  });
+});
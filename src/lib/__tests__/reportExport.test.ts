@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import ExcelJS from 'exceljs';
+import { escapeCSVCell, exportReport, toCSV } from '../reportExport';
+import type { ReportData } from '../reportService';
+
+const report: ReportData = {
+  type: 'tickets',
+  title: 'Ticket Report',
+  from: new Date(2026, 8, 1),
+  to: new Date(2026, 8, 30, 23, 59),
+  generatedAt: new Date(2026, 9, 1, 8, 0),
+  summary: [{ label: 'Tickets', value: 2 }],
+  charts: [{ title: 'Tickets by status', labels: ['open', 'closed'], values: [1, 1] }],
+  columns: [{ label: 'Number' }, { label: 'Title' }, { label: 'Created', type: 'date' }, { label: 'Hours', type: 'number' }],
+  rows: [
+    ['TK-1', 'Printer "HP", 2nd floor', new Date(2026, 8, 2, 9, 15), 4.5],
+    ['TK-2', '=HYPERLINK("http://evil")', new Date(2026, 8, 3, 10, 0), null]
+  ]
+};
+
+// jsdom's Blob has no arrayBuffer()
+const readBlob = (blob: Blob) => new Promise<ArrayBuffer>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.onerror = reject;
+  reader.readAsArrayBuffer(blob);
+});
+
+describe('reportExport', () => {
+  describe('escapeCSVCell', () => {
+    it('quotes separators, quotes and line breaks', () => {
+      expect(escapeCSVCell('plain')).toBe('plain');
+      expect(escapeCSVCell('a,b')).toBe('"a,b"');
+      expect(escapeCSVCell('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCSVCell('line\nbreak')).toBe('"line\nbreak"');
+    });
+
+    it('neutralises formulas in text but keeps negative numbers', () => {
+      expect(escapeCSVCell('=1+1')).toBe("'=1+1");
+      expect(escapeCSVCell('@SUM(A1)')).toBe("'@SUM(A1)");
+      expect(escapeCSVCell(-3)).toBe('-3');
+      expect(escapeCSVCell(null)).toBe('');
+    });
+  });
+
+  it('writes a header row and CRLF-separated records', () => {
+    expect(toCSV(report).split('\r\n')).toEqual([
+      'Number,Title,Created,Hours',
+      'TK-1,"Printer ""HP"", 2nd floor",2026-09-02 09:15,4.5',
+      `TK-2,"'=HYPERLINK(""http://evil"")",2026-09-03 10:00,`
+    ]);
+  });
+
+  it('produces a real XLSX workbook with typed cells', async () => {
+    const { blob, filename } = await exportReport(report, 'excel');
+    expect(filename).toBe('report_tickets_2026-09-01_2026-09-30.xlsx');
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await readBlob(blob));
+    const data = workbook.getWorksheet('Data')!;
+
+    expect(data.getRow(1).getCell(2).value).toBe('Title');
+    expect(data.getRow(2).getCell(4).value).toBe(4.5);
+    expect(data.getRow(2).getCell(3).value).toBeInstanceOf(Date);
+    expect(workbook.getWorksheet('Summary')!.getRow(1).getCell(1).value).toBe('Ticket Report');
+  });
+
+  it('produces a PDF document', async () => {
+    const { blob, mimeType } = await exportReport(report, 'pdf');
+    const header = Buffer.from(await readBlob(blob)).subarray(0, 5).toString();
+
+    expect(mimeType).toBe('application/pdf');
+    expect(header).toBe('%PDF-');
+  });
+});
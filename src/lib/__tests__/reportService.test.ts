@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { ReportService, type ReportLookups } from '../reportService';
+import type { SLAStatus, Ticket, TicketFeedback } from '../database';
+
+const period = {
+  from: new Date('2026-09-01T00:00:00Z'),
+  to: new Date('2026-09-30T23:59:59Z'),
+  generatedAt: new Date('2026-10-01T08:00:00Z')
+};
+
+const lookups: ReportLookups = {
+  users: new Map([['agent-1', 'Ana'], ['agent-2', 'Bruno'], ['user-1', 'Carla']]),
+  categories: new Map([['cat-1', 'Hardware']])
+};
+
+const ticket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  id: 't1',
+  ticket_number: 'TK-1',
+  title: 'Printer offline',
+  description: '',
+  status: 'open',
+  priority: 'medium',
+  user_id: 'user-1',
+  created_at: '2026-09-10T10:00:00Z',
+  ...overrides
+});
+
+const feedback = (overrides: Partial<TicketFeedback> = {}): TicketFeedback => ({
+  id: 'f1',
+  ticket_id: 't1',
+  user_id: 'user-1',
+  rating: 5,
+  satisfaction: 'satisfied',
+  created_at: '2026-09-12T10:00:00Z',
+  ...overrides
+});
+
+const slaStatus = (ticketId: string, overrides: Partial<SLAStatus> = {}): SLAStatus => ({
+  ticketId,
+  responseStatus: 'met',
+  resolutionStatus: 'met',
+  responseTimeElapsed: 1,
+  totalTimeElapsed: 10,
+  firstResponseAt: new Date('2026-09-10T11:00:00Z'),
+  slaRule: { id: 'r', name: 'Medium', priority: 'medium', response_time: 4, resolution_time: 24 },
+  isActive: false,
+  ...overrides
+});
+
+describe('ReportService', () => {
+  describe('resolveDateRange', () => {
+    it('defaults to the last 30 days ending today', () => {
+      const now = new Date(2026, 9, 19, 15, 30);
+      const { from, to } = ReportService.resolveDateRange({ from: undefined, to: undefined }, now);
+
+      expect(to).toEqual(new Date(2026, 9, 19, 23, 59, 59, 999));
+      expect(from).toEqual(new Date(2026, 8, 19, 0, 0, 0, 0));
+    });
+
+    it('rejects a start date after the end date', () => {
+      expect(() => ReportService.resolveDateRange({ from: new Date(2026, 9, 20), to: new Date(2026, 9, 1) }))
+        .toThrow('The report start date must be before the end date');
+    });
+  });
+
+  describe('getSLAOutcome', () => {
+    it('counts a finished ticket over target as breached', () => {
+      expect(ReportService.getSLAOutcome(30, 24, true)).toBe('breached');
+      expect(ReportService.getSLAOutcome(20, 24, true)).toBe('met');
+      expect(ReportService.getSLAOutcome(20, 24, false)).toBe('pending');
+    });
+  });
+
+  describe('buildTicketReport', () => {
+    it('resolves names and computes resolution hours', () => {
+      const report = ReportService.buildTicketReport([
+        ticket({ status: 'resolved', assigned_to: 'agent-1', category_id: 'cat-1', resolved_at: '2026-09-10T16:30:00Z' }),
+        ticket({ id: 't2', ticket_number: 'TK-2' })
+      ], lookups, period);
+
+      expect(report.rows[0].slice(4, 7)).toEqual(['Hardware', 'Ana', 'Carla']);
+      expect(report.rows[0][9]).toBe(6.5);
+      expect(report.rows[1][9]).toBeNull();
+      expect(report.summary).toContainEqual({ label: 'Still open', value: 1 });
+      expect(report.charts[0].labels).toEqual(['open', 'pending', 'in_progress', 'resolved', 'closed']);
+      expect(report.charts[0].values).toEqual([1, 0, 0, 1, 0]);
+    });
+  });
+
+  describe('buildPerformanceReport', () => {
+    it('aggregates per agent and attributes ratings through the ticket', () => {
+      const report = ReportService.buildPerformanceReport([
+        ticket({ assigned_to: 'agent-1', status: 'resolved', resolved_at: '2026-09-10T14:00:00Z' }),
+        ticket({ id: 't2', assigned_to: 'agent-1' }),
+        ticket({ id: 't3', assigned_to: 'agent-2', status: 'closed', closed_at: '2026-09-10T12:00:00Z' }),
+        ticket({ id: 't4' })
+      ], [feedback({ rating: 4 }), feedback({ id: 'f2', ticket_id: 't4' })], lookups, period);
+
+      expect(report.rows).toEqual([
+        ['Ana', 2, 1, 50, 4, 4, 1],
+        ['Bruno', 1, 1, 100, 2, null, 0]
+      ]);
+      expect(report.summary).toContainEqual({ label: 'Unassigned tickets', value: 1 });
+    });
+  });
+
+  describe('buildSLAReport', () => {
+    it('reports compliance over decided tickets only', () => {
+      const tickets = [ticket(), ticket({ id: 't2' }), ticket({ id: 't3' })];
+      const statuses = new Map([
+        ['t1', slaStatus('t1')],
+        ['t2', slaStatus('t2', { totalTimeElapsed: 30 })],
+        ['t3', slaStatus('t3', { isActive: true, firstResponseAt: null, responseTimeElapsed: 2, totalTimeElapsed: 2 })]
+      ]);
+
+      const report = ReportService.buildSLAReport(tickets, statuses, lookups, period);
+
+      expect(report.rows.map(row => [row[6], row[9]])).toEqual([
+        ['met', 'met'],
+        ['met', 'breached'],
+        ['pending', 'pending']
+      ]);
+      expect(report.summary).toContainEqual({ label: 'Resolution compliance', value: '50%' });
+      expect(report.charts[0]).toMatchObject({ labels: ['medium'], values: [50], unit: '%' });
+    });
+  });
+
+  describe('buildSatisfactionReport', () => {
+    it('only includes feedback for tickets in the report', () => {
+      const report = ReportService.buildSatisfactionReport(
+        [ticket({ assigned_to: 'agent-2' }), ticket({ id: 't2' })],
+        [feedback({ comment: 'Quick fix' }), feedback({ id: 'f2', ticket_id: 'other', rating: 1 })],
+        lookups,
+        period
+      );
+
+      expect(report.rows).toHaveLength(1);
+      expect(report.rows[0].slice(0, 6)).toEqual(['TK-1', 'Printer offline', 'Bruno', 5, 'satisfied', 'Quick fix']);
+      expect(report.summary).toContainEqual({ label: 'Response rate', value: '50%' });
+    });
+  });
+});
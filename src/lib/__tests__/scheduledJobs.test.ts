@@ -0,0 +1,390 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  allowsSLANotification,
+  autoCloseResolvedTickets,
+  checkSLAWarnings,
+  sendCsatSurveys
+} from '../../../supabase/functions/_shared/scheduledJobs';
+import { verifySurveyToken } from '../../../supabase/functions/_shared/csatSurvey';
+import { PAGE_SIZE } from '../../../supabase/functions/_shared/pagedQuery';
+import { evaluateSLA } from '../../../supabase/functions/_shared/slaStatus';
+import {
+  autoCloseAction,
+  getAutoCloseSchedule,
+  matchAutoClosePolicy,
+  type AutoClosePolicy
+} from '../../../supabase/functions/_shared/autoClose';
+import { mockClient } from '@/test/utils/supabaseQueryMock';
+
+const NOW = new Date('2025-08-07T12:00:00Z');
+const context = { now: NOW, timezone: 'UTC' };
+
+describe('evaluateSLA', () => {
+  const rule = { response_time: 4, resolution_time: 24 };
+
+  it('warns at 75% of the target and breaches past it', () => {
+    const ticket = { status: 'open', created_at: '2025-08-07T08:30:00Z' }; // 3.5h ago
+    const sla = evaluateSLA({ ticket, rule, firstResponseAt: null, calendar: null, clockEvents: [], now: NOW });
+
+    expect(sla.responseStatus).toBe('warning');
+    expect(sla.resolutionStatus).toBe('ok');
+    expect(sla.responseDeadline?.toISOString()).toBe('2025-08-07T12:30:00.000Z');
+
+    const late = evaluateSLA({ ticket: { ...ticket, created_at: '2025-08-07T07:00:00Z' }, rule, firstResponseAt: null, calendar: null, clockEvents: [], now: NOW });
+    expect(late.responseStatus).toBe('overdue');
+  });
+
+  it('stops the clock while paused', () => {
+    const sla = evaluateSLA({
+      ticket: { status: 'open', created_at: '2025-08-07T00:00:00Z' },
+      rule,
+      firstResponseAt: new Date('2025-08-07T01:00:00Z'),
+      calendar: null,
+      clockEvents: [{ event_type: 'paused', occurred_at: '2025-08-07T02:00:00Z' }],
+      now: NOW
+    });
+
+    expect(sla).toMatchObject({ isPaused: true, responseStatus: 'met', resolutionStatus: 'stopped', resolutionDeadline: null });
+    expect(sla.totalTimeElapsed).toBe(2);
+  });
+});
+
+describe('allowsSLANotification', () => {
+  const settings = {
+    user_id: 'u1',
+    breach_notifications_enabled: true,
+    warning_notifications_enabled: true,
+    priority_filter: 'all' as const,
+    quiet_hours_start: '22:00:00',
+    quiet_hours_end: '07:00:00'
+  };
+
+  it('lets everything through without settings', () => {
+    expect(allowsSLANotification(undefined, 'warning', 'low', '03:00')).toBe(true);
+  });
+
+  it('honours quiet hours across midnight, except for urgent breaches', () => {
+    expect(allowsSLANotification(settings, 'warning', 'high', '23:30')).toBe(false);
+    expect(allowsSLANotification(settings, 'warning', 'high', '06:59')).toBe(false);
+    expect(allowsSLANotification(settings, 'warning', 'high', '12:00')).toBe(true);
+    expect(allowsSLANotification(settings, 'breach', 'urgent', '23:30')).toBe(true);
+  });
+
+  it('applies the priority filter', () => {
+    expect(allowsSLANotification({ ...settings, priority_filter: 'high_urgent' }, 'breach', 'medium', '12:00')).toBe(false);
+    expect(allowsSLANotification({ ...settings, priority_filter: 'urgent_only' }, 'breach', 'urgent', '12:00')).toBe(true);
+  });
+});
+
+describe('auto-close policies', () => {
+  const policy = (overrides: Partial<AutoClosePolicy>): AutoClosePolicy => ({
+    id: 'default',
+    name: 'Default',
+    category_id: null,
+    subcategory_id: null,
+    inactivity_days: 7,
+    reminder_days_before: 2,
+    is_active: true,
+    ...overrides
+  });
+
+  it('picks the most specific active policy', () => {
+    const policies = [
+      policy({}),
+      policy({ id: 'hardware', category_id: 'hw' }),
+      policy({ id: 'printers', category_id: 'hw', subcategory_id: 'printers' }),
+      policy({ id: 'network', category_id: 'net', is_active: false })
+    ];
+
+    expect(matchAutoClosePolicy(policies, { category_id: 'hw', subcategory_id: 'printers' })?.id).toBe('printers');
+    expect(matchAutoClosePolicy(policies, { category_id: 'hw', subcategory_id: 'laptops' })?.id).toBe('hardware');
+    expect(matchAutoClosePolicy(policies, { category_id: 'net' })?.id).toBe('default');
+    expect(matchAutoClosePolicy(policies.slice(1), { category_id: 'net' })).toBeUndefined();
+  });
+
+  it('reminds before closing and always leaves the full notice after the reminder', () => {
+    const lastActivity = new Date('2025-08-01T12:00:00Z');
+
+    expect(autoCloseAction(policy({}), lastActivity, null, new Date('2025-08-05T12:00:00Z'))).toBe('wait');
+    expect(autoCloseAction(policy({}), lastActivity, null, new Date('2025-08-06T12:00:00Z'))).toBe('remind');
+    // The job missed the whole window: remind first, close only after the notice
+    expect(autoCloseAction(policy({}), lastActivity, null, new Date('2025-08-20T12:00:00Z'))).toBe('remind');
+
+    const remindedLate = new Date('2025-08-07T12:00:00Z');
+    expect(getAutoCloseSchedule(policy({}), lastActivity, remindedLate).closeAt.toISOString()).toBe('2025-08-09T12:00:00.000Z');
+    expect(autoCloseAction(policy({}), lastActivity, remindedLate, new Date('2025-08-08T13:00:00Z'))).toBe('wait');
+    expect(autoCloseAction(policy({}), lastActivity, remindedLate, new Date('2025-08-09T12:00:00Z'))).toBe('close');
+  });
+
+  it('ignores reminders from before the last activity', () => {
+    const staleReminder = new Date('2025-07-30T12:00:00Z');
+    const lastActivity = new Date('2025-08-01T12:00:00Z');
+
+    expect(autoCloseAction(policy({}), lastActivity, staleReminder, new Date('2025-08-08T12:00:00Z'))).toBe('remind');
+  });
+
+  it('closes without reminder when the policy has none', () => {
+    const noReminder = policy({ reminder_days_before: 0 });
+    const lastActivity = new Date('2025-08-01T12:00:00Z');
+
+    expect(getAutoCloseSchedule(noReminder, lastActivity, null).remindAt).toBeNull();
+    expect(autoCloseAction(noReminder, lastActivity, null, new Date('2025-08-08T12:00:00Z'))).toBe('close');
+  });
+});
+
+describe('autoCloseResolvedTickets', () => {
+  const policies = [
+    { id: 'default', name: 'Default', category_id: null, subcategory_id: null, inactivity_days: 7, reminder_days_before: 2, is_active: true },
+    { id: 'hardware', name: 'Hardware', category_id: 'hw', subcategory_id: null, inactivity_days: 3, reminder_days_before: 1, is_active: true }
+  ];
+
+  it('does nothing without active policies', async () => {
+    const { client, calls } = mockClient({ auto_close_policies: [{ data: [], error: null }] });
+
+    const result = await autoCloseResolvedTickets(client, context);
+
+    expect(result).toEqual({ candidates: 0, reminded: 0, closed: 0, failed: 0 });
+    expect(calls.tickets_new).toBeUndefined();
+  });
+
+  it('reminds and closes per policy, attributing closures to the system', async () => {
+    const { client, calls } = mockClient({
+      auto_close_policies: [{ data: policies, error: null }],
+      tickets_new: [
+        { data: [
+          // Reminded after resolution and past the notice: closes
+          { id: 'quiet-ticket', ticket_number: 'ACS-TK-1', user_id: 'req-1', category_id: null, resolved_at: '2025-07-20T00:00:00Z', auto_close_reminded_at: '2025-07-26T00:00:00Z' },
+          // Hardware: 3 days, reminder 1 day before
+          { id: 'hardware-ticket', ticket_number: 'ACS-TK-2', user_id: 'req-2', category_id: 'hw', resolved_at: '2025-08-05T00:00:00Z', auto_close_reminded_at: null },
+          // Commented yesterday: the window starts over
+          { id: 'busy-ticket', ticket_number: 'ACS-TK-3', user_id: 'req-3', category_id: null, resolved_at: '2025-07-20T00:00:00Z', auto_close_reminded_at: '2025-07-26T00:00:00Z' },
+          // Requester answered "still not fixed"
+          { id: 'disputed-ticket', ticket_number: 'ACS-TK-4', user_id: 'req-4', category_id: null, resolved_at: '2025-07-20T00:00:00Z', auto_close_reminded_at: '2025-07-26T00:00:00Z' }
+        ], error: null },
+        { data: [{ id: 'quiet-ticket' }], error: null },
+        { data: null, error: null }
+      ],
+      ticket_comments_new: [{ data: [{ ticket_id: 'busy-ticket', created_at: '2025-08-06T09:00:00Z' }], error: null }],
+      reopen_requests: [{ data: [{ ticket_id: 'disputed-ticket' }], error: null }],
+      notification_preferences: [{ data: [{ user_id: 'req-2', language: 'pt-BR', timezone: 'America/Sao_Paulo' }], error: null }],
+      notifications: [{ data: null, error: null }]
+    });
+
+    const result = await autoCloseResolvedTickets(client, context);
+
+    expect(result).toEqual({ candidates: 4, reminded: 1, closed: 1, failed: 0 });
+    // The shortest lead time (hardware: 3 - 1 days) bounds the candidates
+    expect(calls.tickets_new[0].lt).toHaveBeenCalledWith('resolved_at', '2025-08-05T12:00:00.000Z');
+
+    expect(calls.tickets_new[1].update).toHaveBeenCalledWith(expect.objectContaining({ status: 'closed', closed_by: null }));
+    expect(calls.tickets_new[1].eq).toHaveBeenCalledWith('id', 'quiet-ticket');
+    expect(client.rpc).toHaveBeenCalledTimes(1);
+    expect(client.rpc).toHaveBeenCalledWith('log_ticket_activity', expect.objectContaining({
+      p_ticket_id: 'quiet-ticket',
+      p_user_id: null,
+      p_action_type: 'closed',
+      p_metadata: expect.objectContaining({ closed_by: 'system', auto_closed: true, policy_id: 'default', inactivity_days: 7 })
+    }));
+    expect(calls.notifications[0].insert).toHaveBeenCalledWith(expect.objectContaining({ user_id: 'req-1', type: 'ticket_closed' }));
+
+    expect(calls.tickets_new[2].update).toHaveBeenCalledWith({ auto_close_reminded_at: NOW.toISOString() });
+    expect(calls.tickets_new[2].eq).toHaveBeenCalledWith('id', 'hardware-ticket');
+    expect(calls.notifications[1].insert).toHaveBeenCalledWith(expect.objectContaining({
+      user_id: 'req-2',
+      type: 'auto_close_reminder',
+      metadata: expect.objectContaining({ action: 'still_not_fixed', policy_id: 'hardware', auto_close_at: '2025-08-08T12:00:00.000Z' })
+    }));
+    // The close date in the requester's language and timezone
+    expect(JSON.parse(calls.notifications[1].insert.mock.calls[0][0].message)).toEqual({
+      key: 'notifications.types.auto_close_reminder.message',
+      params: { ticketNumber: 'ACS-TK-2', closeDate: '8 de ago. de 2025, 09:00' }
+    });
+    expect(calls.tickets_new).toHaveLength(3);
+  });
+
+  it('does not count a reminder whose notification failed, and retries it next run', async () => {
+    const { client, calls } = mockClient({
+      auto_close_policies: [{ data: policies, error: null }],
+      tickets_new: [{ data: [
+        { id: 'hardware-ticket', ticket_number: 'ACS-TK-2', user_id: 'req-2', category_id: 'hw', resolved_at: '2025-08-05T00:00:00Z', auto_close_reminded_at: null }
+      ], error: null }],
+      notifications: [{ data: null, error: { message: 'insert failed' } }]
+    });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await autoCloseResolvedTickets(client, context);
+
+    expect(result).toEqual({ candidates: 1, reminded: 0, closed: 0, failed: 1 });
+    // auto_close_reminded_at stays empty, so the ticket cannot close unannounced
+    expect(calls.tickets_new).toHaveLength(1);
+    consoleError.mockRestore();
+  });
+});
+
+describe('checkSLAWarnings', () => {
+  const ticket = {
+    id: 'ticket-1',
+    ticket_number: 'ACS-TK-9',
+    title: 'Printer',
+    priority: 'high',
+    status: 'open',
+    created_at: '2025-08-07T07:00:00Z', // 5h ago: response target of 4h breached
+    resolved_at: null,
+    closed_at: null,
+    assigned_to: 'agent-1',
+    user_id: 'req-1',
+    country: null,
+    team_id: null,
+    assignee: { full_name: 'Ana' }
+  };
+
+  const tables = (recentNotifications: unknown[] = []) => ({
+    tickets_new: [{ data: [ticket], error: null }],
+    sla_rules: [{ data: [{ priority: 'high', name: 'High', response_time: 4, resolution_time: 24 }], error: null }],
+    users: [{ data: [{ id: 'admin-1' }], error: null }],
+    notifications: [{ data: recentNotifications, error: null }, { data: null, error: null }]
+  });
+
+  it('notifies the assignee and admins once and queues the breach webhook', async () => {
+    const { client, calls } = mockClient(tables());
+
+    const result = await checkSLAWarnings(client, context);
+
+    expect(result).toEqual({ checked: 1, warnings: 0, breaches: 1, notifications: 2 });
+    const inserted = calls.notifications[1].insert.mock.calls[0][0];
+    expect(inserted).toEqual([
+      expect.objectContaining({ user_id: 'agent-1', type: 'sla_breach', priority: 'urgent' }),
+      expect.objectContaining({ user_id: 'admin-1', type: 'sla_breach' })
+    ]);
+    expect(JSON.parse(inserted[0].message)).toEqual({
+      key: 'notifications.types.sla_breach.deadlines.response',
+      params: { ticketNumber: 'ACS-TK-9', priority: 'HIGH' }
+    });
+    expect(JSON.parse(inserted[1].title)).toEqual({
+      key: 'notifications.types.sla_breach.adminAlert.title',
+      params: { ticketNumber: 'ACS-TK-9' }
+    });
+    expect(client.rpc).toHaveBeenCalledWith('queue_sla_webhook_event', expect.objectContaining({
+      p_ticket_id: 'ticket-1',
+      p_kind: 'breach',
+      p_target: 'response'
+    }));
+  });
+
+  it('does not repeat notifications inside the de-duplication windows', async () => {
+    const { client, calls } = mockClient(tables([
+      {
+        user_id: 'agent-1',
+        ticket_id: 'ticket-1',
+        type: 'sla_breach',
+        title: JSON.stringify({ key: 'notifications.types.sla_breach.title', params: {} }),
+        created_at: '2025-08-07T11:30:00Z'
+      },
+      {
+        user_id: 'admin-1',
+        ticket_id: 'ticket-1',
+        type: 'sla_breach',
+        title: JSON.stringify({ key: 'notifications.types.sla_breach.adminAlert.title', params: { ticketNumber: 'ACS-TK-9' } }),
+        created_at: '2025-08-07T10:30:00Z'
+      }
+    ]));
+
+    const result = await checkSLAWarnings(client, context);
+
+    expect(result.notifications).toBe(0);
+    expect(calls.notifications).toHaveLength(1);
+  });
+
+  it('reads quiet hours in each user\'s own timezone', async () => {
+    const { client, calls } = mockClient({
+      ...tables(),
+      // 22:00-07:00 quiet hours; 12:00 UTC is midnight in Auckland
+      sla_notification_settings: [{ data: [{
+        user_id: 'admin-1',
+        breach_notifications_enabled: true,
+        warning_notifications_enabled: true,
+        priority_filter: 'all',
+        quiet_hours_start: '22:00:00',
+        quiet_hours_end: '07:00:00'
+      }], error: null }],
+      notification_preferences: [{ data: [{ user_id: 'admin-1', timezone: 'Pacific/Auckland' }], error: null }]
+    });
+
+    const result = await checkSLAWarnings(client, context);
+
+    expect(result.notifications).toBe(1);
+    expect(calls.notifications[1].insert).toHaveBeenCalledWith([
+      expect.objectContaining({ user_id: 'agent-1', type: 'sla_breach' })
+    ]);
+  });
+
+  it('reads every page of open tickets', async () => {
+    const page = Array.from({ length: PAGE_SIZE }, (_, i) => ({ ...ticket, id: `ticket-${i}`, priority: 'low' }));
+    const { client, calls } = mockClient({
+      ...tables(),
+      tickets_new: [{ data: page, error: null }, { data: [ticket], error: null }]
+    });
+
+    const result = await checkSLAWarnings(client, context);
+
+    expect(result.checked).toBe(PAGE_SIZE + 1);
+    expect(calls.tickets_new[0].range).toHaveBeenCalledWith(0, PAGE_SIZE - 1);
+    expect(calls.tickets_new[1].range).toHaveBeenCalledWith(PAGE_SIZE, 2 * PAGE_SIZE - 1);
+    expect(result.breaches).toBe(1);
+  });
+});
+
+describe('sendCsatSurveys', () => {
+  const csat = { signingSecret: 'survey-secret', appUrl: 'https://support.example.com' };
+  const survey = (id: string, ticket: Record<string, unknown>) => ({
+    id,
+    user_id: `user-${id}`,
+    recipient_email: `${id}@example.com`,
+    expires_at: '2025-08-21T12:00:00Z',
+    recipient: { full_name: 'Ana' },
+    ticket: { id: `ticket-${id}`, ticket_number: 'ACS-TK-1', title: 'Printer', status: 'resolved', feedback_received: false, assignee: { full_name: 'Bruno' }, ...ticket }
+  });
+
+  it('needs the signing secret and app URL', async () => {
+    const { client } = mockClient({});
+
+    await expect(sendCsatSurveys(client, { ...context, sendEmail: vi.fn() })).rejects.toThrow(/CSAT_SIGNING_SECRET/);
+  });
+
+  it('emails signed links and cancels surveys that no longer apply', async () => {
+    const sendEmail = vi.fn().mockResolvedValue(undefined);
+    const { client, calls } = mockClient({
+      csat_surveys: [
+        { data: [survey('s1', {}), survey('s2', { status: 'open' }), survey('s3', { feedback_received: true })], error: null },
+        { data: null, error: null }
+      ],
+      notification_preferences: [{ data: [{ user_id: 'user-s1', language: 'pt-BR' }], error: null }]
+    });
+
+    const result = await sendCsatSurveys(client, { ...context, sendEmail, csat });
+
+    expect(result).toEqual({ pending: 3, sent: 1, cancelled: 2, failed: 0 });
+    expect(calls.csat_surveys[0].eq).toHaveBeenCalledWith('status', 'pending');
+    expect(calls.csat_surveys[0].gt).toHaveBeenCalledWith('expires_at', NOW.toISOString());
+
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    const email = sendEmail.mock.calls[0][0];
+    expect(email.to).toBe('s1@example.com');
+    expect(email.subject).toBe('Como foi o atendimento? Chamado ACS-TK-1');
+    const token = decodeURIComponent(email.text.match(/\/survey\/(\S+)/)[1]);
+    expect(await verifySurveyToken(csat.signingSecret, token, NOW)).toMatchObject({ valid: true, surveyId: 's1' });
+
+    const updates = calls.csat_surveys.slice(1).map(builder => builder.update.mock.calls[0][0]);
+    expect(updates).toEqual([{ status: 'sent', sent_at: NOW.toISOString() }, { status: 'cancelled' }, { status: 'cancelled' }]);
+  });
+
+  it('leaves surveys pending when the email fails', async () => {
+    const sendEmail = vi.fn().mockRejectedValue(new Error('Resend API failed'));
+    const { client, calls } = mockClient({ csat_surveys: [{ data: [survey('s1', {})], error: null }] });
+
+    const result = await sendCsatSurveys(client, { ...context, sendEmail, csat });
+
+    expect(result).toEqual({ pending: 1, sent: 0, cancelled: 0, failed: 1 });
+    expect(calls.csat_surveys).toHaveLength(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+    storage: { from: vi.fn() }
+  }
+}));
+
+vi.mock('../../../supabase/functions/_shared/scheduledReports.ts', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  runReportDefinition: vi.fn()
+}));
+
+vi.mock('../emailService', () => ({
+  EmailService: { sendEmail: vi.fn() }
+}));
+
+import { supabase } from '@/lib/supabase';
+import { EmailService } from '../emailService';
+import { browserReportLibraries } from '../reportExport';
+import { ScheduledReportService, type ReportDefinition } from '../scheduledReportService';
+import { runReportDefinition } from '../../../supabase/functions/_shared/scheduledReports.ts';
+
+const mockSupabase = supabase as any;
+
+const definition: ReportDefinition = {
+  id: 'def-1',
+  name: 'Weekly tickets',
+  report_type: 'tickets',
+  format: 'csv',
+  filters: { priority: ['high'] },
+  date_window: 'previous_week',
+  frequency: 'weekly',
+  day_of_week: 1,
+  day_of_month: 1,
+  run_hour: 8,
+  timezone: 'America/Sao_Paulo',
+  recipients: ['boss@example.com', 'team@example.com'],
+  is_active: true
+};
+
+describe('ScheduledReportService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('resolveDateWindow', () => {
+    // Wednesday 21 October 2026, 09:00 in São Paulo (UTC-3)
+    const now = new Date('2026-10-21T12:00:00Z');
+
+    it('ends rolling windows at the end of yesterday in the definition timezone', () => {
+      const { from, to } = ScheduledReportService.resolveDateWindow('last_7_days', 'America/Sao_Paulo', now);
+
+      expect(from.toISOString()).toBe('2026-10-14T03:00:00.000Z');
+      expect(to.toISOString()).toBe('2026-10-21T02:59:59.999Z');
+    });
+
+    it('covers Monday to Sunday of the previous week', () => {
+      const { from, to } = ScheduledReportService.resolveDateWindow('previous_week', 'America/Sao_Paulo', now);
+
+      expect(from.toISOString()).toBe('2026-10-12T03:00:00.000Z');
+      expect(to.toISOString()).toBe('2026-10-19T02:59:59.999Z');
+    });
+
+    it('uses the local date, not the UTC date, late in the evening', () => {
+      // 23:00 on Sunday 18 October locally, already Monday in UTC
+      const { to } = ScheduledReportService.resolveDateWindow('last_7_days', 'America/Sao_Paulo', new Date('2026-10-19T02:00:00Z'));
+
+      expect(to.toISOString()).toBe('2026-10-18T02:59:59.999Z');
+    });
+
+    it('wraps the previous month across the year boundary', () => {
+      const { from, to } = ScheduledReportService.resolveDateWindow('previous_month', 'UTC', new Date('2026-01-10T08:00:00Z'));
+
+      expect(from.toISOString()).toBe('2025-12-01T00:00:00.000Z');
+      expect(to.toISOString()).toBe('2025-12-31T23:59:59.999Z');
+    });
+  });
+
+  describe('parseRecipients', () => {
+    it('splits, normalises and de-duplicates addresses', () => {
+      expect(ScheduledReportService.parseRecipients('Boss@Example.com; team@example.com\nboss@example.com, nope')).toEqual({
+        valid: ['boss@example.com', 'team@example.com'],
+        invalid: ['nope']
+      });
+    });
+  });
+
+  describe('runDefinition', () => {
+    it('runs the definition with the shared runner and the signed-in session', async () => {
+      const run = { id: 'run-1', status: 'success' };
+      vi.mocked(runReportDefinition).mockResolvedValue(run as any);
+      const now = new Date('2026-10-19T11:00:00Z');
+
+      await expect(ScheduledReportService.runDefinition(definition, 'manual', 'user-1', now)).resolves.toBe(run);
+
+      expect(runReportDefinition).toHaveBeenCalledWith(mockSupabase, definition, 'manual', expect.objectContaining({
+        now,
+        appUrl: window.location.origin,
+        libraries: browserReportLibraries,
+        startedBy: 'user-1'
+      }));
+    });
+
+    it('sends the report emails through the send-email function', async () => {
+      vi.mocked(runReportDefinition).mockResolvedValue({} as any);
+      await ScheduledReportService.runDefinition(definition, 'manual');
+      const { sendEmail } = vi.mocked(runReportDefinition).mock.calls[0][3];
+      const attachments = [{ filename: 'report.csv', content: 'YSxi' }];
+
+      vi.mocked(EmailService.sendEmail).mockResolvedValueOnce({ success: true });
+      await sendEmail({ to: 'boss@example.com', subject: 'Report', html: '<p>Report</p>', text: 'Report', attachments });
+      expect(EmailService.sendEmail).toHaveBeenCalledWith({
+        to: 'boss@example.com',
+        subject: 'Report',
+        htmlContent: '<p>Report</p>',
+        textContent: 'Report',
+        attachments
+      });
+
+      vi.mocked(EmailService.sendEmail).mockResolvedValueOnce({ success: false, error: 'quota' });
+      await expect(sendEmail({ to: 'team@example.com', subject: 'Report', html: '', text: '' })).rejects.toThrow('quota');
+    });
+  });
+});
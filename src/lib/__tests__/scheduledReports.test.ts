@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  runReportDefinition,
+  runScheduledReports,
+  type ReportDefinitionRow
+} from '../../../supabase/functions/_shared/scheduledReports';
+import { mockClient, type QueryResult } from '@/test/utils/supabaseQueryMock';
+
+const NOW = new Date('2026-10-19T11:00:00Z');
+
+const definition: ReportDefinitionRow = {
+  id: 'def-1',
+  name: 'Weekly tickets',
+  report_type: 'tickets',
+  format: 'csv',
+  filters: { priority: ['high'] },
+  date_window: 'previous_week',
+  timezone: 'America/Sao_Paulo',
+  recipients: ['boss@example.com', 'team@example.com'],
+  created_by: 'owner-1'
+};
+
+const libraries = { excel: vi.fn(), pdf: vi.fn() };
+
+const setup = (tables: Record<string, QueryResult[]> = {}) => {
+  const { client, calls } = mockClient({
+    report_runs: [{ data: { id: 'run-1', definition_id: 'def-1' }, error: null }],
+    ...tables
+  });
+  const storage = { upload: vi.fn().mockResolvedValue({ error: null }) };
+  const storageClient = { ...client, storage: { from: vi.fn(() => storage) } };
+  return { client: storageClient, calls, storage };
+};
+
+describe('runReportDefinition', () => {
+  it('stores the file, emails every recipient and records the run', async () => {
+    const { client, calls, storage } = setup({
+      notification_preferences: [{ data: [{ user_id: 'owner-1', language: 'pt-BR' }], error: null }]
+    });
+    const sendEmail = vi.fn().mockResolvedValue(undefined);
+
+    await runReportDefinition(client, definition, 'schedule', { now: NOW, appUrl: 'https://app.example.com', libraries, sendEmail });
+
+    // Previous week in São Paulo, Monday to Sunday
+    const tickets = calls.tickets_new[0];
+    expect(tickets.gte).toHaveBeenCalledWith('created_at', '2026-10-12T03:00:00.000Z');
+    expect(tickets.lte).toHaveBeenCalledWith('created_at', '2026-10-19T02:59:59.999Z');
+    expect(tickets.in).toHaveBeenCalledWith('priority', ['high']);
+
+    const filename = 'report_tickets_2026-10-12_2026-10-18.csv';
+    expect(storage.upload).toHaveBeenCalledWith(`def-1/run-1/${filename}`, expect.anything(), { contentType: 'text/csv;charset=utf-8' });
+
+    // In the owner's language, with the dates of the definition's timezone
+    const day = (value: string) =>
+      new Intl.DateTimeFormat('pt-BR', { dateStyle: 'medium', timeZone: 'America/Sao_Paulo' }).format(new Date(value));
+    expect(sendEmail).toHaveBeenCalledTimes(2);
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'boss@example.com',
+      subject: `Weekly tickets (${day('2026-10-12T03:00:00Z')} a ${day('2026-10-19T02:00:00Z')})`,
+      attachments: [{ filename, content: expect.any(String) }]
+    }));
+
+    expect(calls.report_runs[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      definition_id: 'def-1',
+      status: 'running',
+      trigger_type: 'schedule',
+      period_start: '2026-10-12T03:00:00.000Z'
+    }));
+    expect(calls.report_runs[1].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'success',
+      row_count: 0,
+      emails_sent: 2,
+      error: null,
+      file_path: `def-1/run-1/${filename}`
+    }));
+  });
+
+  it('marks the run failed when no email could be delivered', async () => {
+    const { client, calls } = setup();
+    const sendEmail = vi.fn().mockRejectedValue(new Error('quota'));
+
+    await runReportDefinition(client, definition, 'manual', {
+      now: NOW,
+      appUrl: 'https://app.example.com',
+      libraries,
+      sendEmail,
+      startedBy: 'user-1'
+    });
+
+    expect(calls.report_runs[0].insert).toHaveBeenCalledWith(expect.objectContaining({ trigger_type: 'manual', started_by: 'user-1' }));
+    expect(calls.report_runs[1].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'failed',
+      emails_sent: 0,
+      error: expect.stringContaining('boss@example.com: quota')
+    }));
+  });
+});
+
+describe('runScheduledReports', () => {
+  const context = (sendEmail = vi.fn().mockResolvedValue(undefined)) => ({
+    now: NOW,
+    timezone: 'UTC',
+    sendEmail,
+    reports: { appUrl: 'https://app.example.com', libraries }
+  });
+
+  it('runs due definitions and only then moves them to their next slot', async () => {
+    const { client, calls } = setup({
+      report_definitions: [{ data: [definition], error: null }],
+      report_runs: [
+        { data: [{ id: 'stale-run' }], error: null }, // interrupted runs
+        { data: { id: 'run-1', definition_id: 'def-1' }, error: null },
+        { data: { id: 'run-1', status: 'success', emails_sent: 2 }, error: null }
+      ]
+    });
+
+    const result = await runScheduledReports(client, context());
+
+    expect(result).toEqual({ due: 1, generated: 1, failed: 0, emailed: 2, interrupted: 1 });
+    expect(calls.report_runs[0].update).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed' }));
+    expect(calls.report_runs[0].lt).toHaveBeenCalledWith('started_at', '2026-10-19T10:30:00.000Z');
+
+    const [due, advanced] = calls.report_definitions;
+    expect(due.lte).toHaveBeenCalledWith('next_run_at', NOW.toISOString());
+    expect(advanced.update).toHaveBeenCalledWith({ last_run_at: NOW.toISOString(), next_run_at: null });
+    expect(advanced.eq).toHaveBeenCalledWith('id', 'def-1');
+  });
+
+  it('leaves a definition due when its run could not be recorded', async () => {
+    const { client, calls } = setup({
+      report_definitions: [{ data: [definition], error: null }],
+      report_runs: [
+        { data: [], error: null },
+        { data: null, error: { message: 'insert failed' } }
+      ]
+    });
+
+    const result = await runScheduledReports(client, context());
+
+    expect(result).toMatchObject({ due: 1, generated: 0, failed: 1 });
+    expect(calls.report_definitions).toHaveLength(1);
+  });
+
+  it('needs the app URL for the email links', async () => {
+    const { client } = setup();
+
+    await expect(runScheduledReports(client, { now: NOW, timezone: 'UTC' })).rejects.toThrow('APP_URL');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({
+  supabase: {}
+}));
+
+import { SLAClockEvent, SLAClockService } from '../slaClockService';
+import { BusinessCalendar, DEFAULT_BUSINESS_WEEK } from '../businessCalendarService';
+
+const event = (event_type: SLAClockEvent['event_type'], occurred_at: string): SLAClockEvent => ({
+  id: `${event_type}-${occurred_at}`,
+  ticket_id: 'ticket-1',
+  event_type,
+  occurred_at
+});
+
+describe('SLAClockService', () => {
+  describe('getPausedIntervals', () => {
+    it('returns closed pause intervals', () => {
+      const events = [
+        event('started', '2026-10-01T08:00:00Z'),
+        event('paused', '2026-10-01T10:00:00Z'),
+        event('resumed', '2026-10-01T13:00:00Z')
+      ];
+
+      const intervals = SLAClockService.getPausedIntervals(events, new Date('2026-10-01T18:00:00Z'));
+      expect(intervals).toHaveLength(1);
+      expect(intervals[0][0].toISOString()).toBe('2026-10-01T10:00:00.000Z');
+      expect(intervals[0][1].toISOString()).toBe('2026-10-01T13:00:00.000Z');
+    });
+
+    it('keeps an open pause running until the given time', () => {
+      const events = [event('paused', '2026-10-01T10:00:00Z')];
+      const intervals = SLAClockService.getPausedIntervals(events, new Date('2026-10-01T12:00:00Z'));
+      expect(intervals[0][1].toISOString()).toBe('2026-10-01T12:00:00.000Z');
+    });
+
+    it('treats the time between resolution and reopen as paused', () => {
+      const events = [
+        event('stopped', '2026-10-01T10:00:00Z'),
+        event('resumed', '2026-10-02T10:00:00Z')
+      ];
+      const intervals = SLAClockService.getPausedIntervals(events, new Date('2026-10-03T10:00:00Z'));
+      expect(intervals).toHaveLength(1);
+      expect(intervals[0][1].toISOString()).toBe('2026-10-02T10:00:00.000Z');
+    });
+
+    it('ignores events after the given time', () => {
+      const events = [event('paused', '2026-10-02T10:00:00Z')];
+      expect(SLAClockService.getPausedIntervals(events, new Date('2026-10-01T10:00:00Z'))).toEqual([]);
+    });
+  });
+
+  describe('calculatePausedHours', () => {
+    const events = [
+      event('paused', '2026-10-01T10:00:00Z'),
+      event('resumed', '2026-10-01T13:00:00Z')
+    ];
+
+    it('measures pauses in wall-clock hours without a calendar', () => {
+      const paused = SLAClockService.calculatePausedHours(
+        events,
+        new Date('2026-10-01T08:00:00Z'),
+        new Date('2026-10-01T18:00:00Z'),
+        null
+      );
+      expect(paused).toBe(3);
+    });
+
+    it('measures pauses in business hours with a calendar', () => {
+      const calendar: BusinessCalendar = {
+        id: 'cal',
+        name: 'UTC office',
+        timezone: 'UTC',
+        is_default: true,
+        is_active: true,
+        hours: DEFAULT_BUSINESS_WEEK.map(window => ({ ...window, start_time: '11:00' })),
+        holidays: []
+      };
+      const paused = SLAClockService.calculatePausedHours(
+        events,
+        new Date('2026-10-01T08:00:00Z'),
+        new Date('2026-10-01T18:00:00Z'),
+        calendar
+      );
+      expect(paused).toBe(2);
+    });
+  });
+
+  it('reports a ticket as paused when the last event is a pause', () => {
+    expect(SLAClockService.isPaused([
+      event('started', '2026-10-01T08:00:00Z'),
+      event('paused', '2026-10-01T10:00:00Z')
+    ])).toBe(true);
+    expect(SLAClockService.isPaused([
+      event('paused', '2026-10-01T10:00:00Z'),
+      event('resumed', '2026-10-01T11:00:00Z')
+    ])).toBe(false);
+  });
+
+  it('keeps a ticket created in a pause status paused from creation', () => {
+    // Both events share the creation time, so the query may return them in either order
+    const events = [
+      event('paused', '2026-10-01T08:00:00Z'),
+      event('started', '2026-10-01T08:00:00Z')
+    ];
+
+    expect(SLAClockService.isPaused(events)).toBe(true);
+    expect(SLAClockService.getPausedIntervals(events, new Date('2026-10-01T12:00:00Z'))).toEqual([
+      [new Date('2026-10-01T08:00:00Z'), new Date('2026-10-01T12:00:00Z')]
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { buildSlackMessage, escapeSlackText, type WebhookEventEnvelope } from '../../../supabase/functions/_shared/slackMessage';
+
+const ticketEvent = (type: string, data: Record<string, unknown> = {}): WebhookEventEnvelope => ({
+  id: 'evt-1',
+  type,
+  created_at: '2025-08-07T12:00:00.000Z',
+  data: {
+    ticket: {
+      id: 'a1b2c3d4-0000-0000-0000-123456789abc',
+      ticket_number: 'TK-1042',
+      title: 'Printer <3rd floor> & scanner down',
+      priority: 'urgent',
+      status: 'open',
+      category_id: 'cat-1'
+    },
+    category: { id: 'cat-1', name: 'Hardware' },
+    sla_state: { state: 'on_track' },
+    ...data
+  }
+});
+
+const allText = (message: ReturnType<typeof buildSlackMessage>) => JSON.stringify(message.blocks);
+
+describe('buildSlackMessage', () => {
+  it('escapes Slack control characters', () => {
+    expect(escapeSlackText('a < b && c > d')).toBe('a &lt; b &amp;&amp; c &gt; d');
+    expect(escapeSlackText(null)).toBe('');
+  });
+
+  it('links the ticket title and button to /ticket/:id', () => {
+    const message = buildSlackMessage(ticketEvent('ticket.created'), 'https://help.example.com/');
+    const link = 'https://help.example.com/ticket/a1b2c3d4-0000-0000-0000-123456789abc';
+
+    expect(message.text).toContain('New ticket TK-1042');
+    expect(message.blocks[1]).toMatchObject({
+      text: { text: `*<${link}|Printer &lt;3rd floor&gt; &amp; scanner down>*` }
+    });
+    expect(message.blocks).toContainEqual({
+      type: 'actions',
+      elements: [{ type: 'button', text: { type: 'plain_text', text: 'Open ticket' }, url: link }]
+    });
+  });
+
+  it('shows priority, status, SLA state and category', () => {
+    const fields = (buildSlackMessage(ticketEvent('ticket.created'), '').blocks[1] as any).fields.map((field: any) => field.text);
+
+    expect(fields).toEqual([
+      '*Priority*\n:red_circle: Urgent',
+      '*Status*\nOpen',
+      '*SLA*\n:white_check_mark: On track',
+      '*Category*\nHardware'
+    ]);
+  });
+
+  it('uses the announced state for SLA events', () => {
+    const message = buildSlackMessage(ticketEvent('sla.breach', { target: 'response' }), '');
+
+    expect(message.text).toContain('Response SLA breached on TK-1042');
+    expect(allText(message)).toContain(':rotating_light: Breached');
+  });
+
+  it('quotes the comment and names its author', () => {
+    const message = buildSlackMessage(ticketEvent('ticket.commented', {
+      comment: { content: 'First line\nSecond line', is_internal: false, author: { name: 'Ana' } }
+    }), '');
+
+    expect(message.blocks[2]).toMatchObject({ text: { text: '>First line\n>Second line' } });
+    expect(allText(message)).toContain(' · Ana');
+  });
+
+  it('posts test messages as written', () => {
+    const message = buildSlackMessage({
+      id: 'evt-2',
+      type: 'webhook.test',
+      created_at: '2025-08-07T12:00:00.000Z',
+      data: { message: 'Hello <team>', sent_by: { name: 'Admin' } }
+    }, '');
+
+    expect(message.text).toBe('Hello &lt;team&gt;');
+    expect(allText(message)).toContain('Test message from Admin');
+  });
+});
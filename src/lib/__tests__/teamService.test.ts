@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import { loadAvailability, type AgentAvailability } from '../../../supabase/functions/_shared/agentAvailability';
+import { pickTeamAgent, slugifyTeamName, teamService, type TeamMember } from '../teamService';
+import { queryResult } from '@/test/utils/supabaseQueryMock';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+    auth: { getUser: vi.fn() }
+  }
+}));
+
+vi.mock('../../../supabase/functions/_shared/agentAvailability.ts', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  loadAvailability: vi.fn()
+}));
+
+const member = (userId: string, role: TeamMember['role'] = 'member'): TeamMember => ({
+  team_id: 'team-1',
+  user_id: userId,
+  role,
+  user: { full_name: userId.toUpperCase(), email: `${userId}@example.com`, role: 'agent' }
+});
+
+const available = (overrides: Partial<AgentAvailability> = {}): AgentAvailability => ({
+  status: 'available',
+  lastActivity: null,
+  manualStatus: null,
+  onShift: true,
+  hasSchedule: false,
+  ...overrides
+});
+
+describe('slugifyTeamName', () => {
+  it('turns team names into rule-friendly slugs', () => {
+    expect(slugifyTeamName('IT Team')).toBe('it-team');
+    expect(slugifyTeamName('  Suporte Técnico / 2º nível ')).toBe('suporte-tecnico-2o-nivel');
+    expect(slugifyTeamName('***')).toBe('');
+  });
+});
+
+describe('pickTeamAgent', () => {
+  it('picks the least loaded member who is on duty, leads last', () => {
+    const members = [member('lead', 'lead'), member('busy'), member('free'), member('away')];
+    const availability = {
+      lead: available(),
+      busy: available(),
+      free: available(),
+      away: available({ onShift: false })
+    };
+
+    expect(pickTeamAgent(members, availability, { lead: 0, busy: 3, free: 0, away: 0 })?.user_id).toBe('free');
+    expect(pickTeamAgent(members, availability, { lead: 0, busy: 3, free: 1, away: 0 })?.user_id).toBe('lead');
+  });
+
+  it('finds nobody when the whole team is off duty', () => {
+    const availability = {
+      a: available({ status: 'offline' }),
+      b: available({ outOfOffice: { id: 'ooo', agent_id: 'b', starts_at: '2025-08-01T00:00:00Z', ends_at: '2025-08-20T00:00:00Z' } })
+    };
+
+    expect(pickTeamAgent([member('a'), member('b')], availability, {})).toBeUndefined();
+  });
+});
+
+describe('teamService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('counts waiting and active tickets per queue', async () => {
+    vi.mocked(supabase.from).mockReturnValue(queryResult({
+      data: [
+        { queue_id: 'q1', assigned_to: null, status: 'open' },
+        { queue_id: 'q1', assigned_to: 'a', status: 'in_progress' },
+        { queue_id: 'q2', assigned_to: null, status: 'in_progress' }
+      ],
+      error: null
+    }));
+
+    const counts = await teamService.getQueueCounts(['q1', 'q2', 'q3']);
+
+    expect(counts).toEqual({
+      q1: { unassigned: 1, active: 2 },
+      q2: { unassigned: 0, active: 1 },
+      q3: { unassigned: 0, active: 0 }
+    });
+  });
+
+  it('routes team rules to a member, or to the default queue when nobody is on duty', async () => {
+    const team = {
+      id: 'team-1',
+      name: 'IT Team',
+      slug: 'it-team',
+      is_active: true,
+      members: [member('a'), member('b')],
+      queues: [
+        { id: 'q-other', team_id: 'team-1', name: 'Hardware', is_default: false, sort_order: 1, is_active: true },
+        { id: 'q-default', team_id: 'team-1', name: 'Inbox', is_default: true, sort_order: 0, is_active: true }
+      ]
+    };
+    vi.mocked(supabase.from).mockImplementation((table: string) => table === 'teams'
+      ? queryResult({ data: [team], error: null })
+      : queryResult({ data: [{ assigned_to: 'a' }], error: null }));
+    vi.mocked(loadAvailability).mockResolvedValueOnce({ a: available(), b: available() });
+
+    const routed = await teamService.routeToTeam('it-team');
+    expect(routed?.agent).toEqual({ id: 'b', name: 'B' });
+    expect(routed?.queue?.id).toBe('q-default');
+
+    vi.mocked(loadAvailability).mockResolvedValueOnce({
+      a: available({ onShift: false }),
+      b: available({ status: 'offline' })
+    });
+
+    const queued = await teamService.routeToTeam('team-1');
+    expect(queued?.agent).toBeUndefined();
+    expect(queued?.queue?.name).toBe('Inbox');
+
+    expect(await teamService.routeToTeam('on-call')).toBeNull();
+  });
+
+  it('pulls the next ticket through the database so two agents never get the same one', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: 'ticket-1', error: null } as any);
+    expect(await teamService.pullNextTicket('q1')).toBe('ticket-1');
+    expect(supabase.rpc).toHaveBeenCalledWith('pull_next_ticket', { p_queue_id: 'q1' });
+
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: null, error: null } as any);
+    expect(await teamService.pullNextTicket()).toBeNull();
+    expect(supabase.rpc).toHaveBeenLastCalledWith('pull_next_ticket', { p_queue_id: null });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { rankDuplicateCandidates, ticketSimilarity, tokenize } from '../ticketDuplicates';
+
+const recent = (id: string, title: string, description = '', created_at = '2025-08-01T10:00:00Z') => ({
+  id,
+  ticket_number: `ACS-TK-202508-${id}`,
+  title,
+  description,
+  status: 'open',
+  created_at
+});
+
+describe('tokenize', () => {
+  it('keeps meaningful words without accents, stop words or short noise', () => {
+    expect([...tokenize('Não consigo acessar o e-mail no Outlook')]).toEqual(['acessar', 'mail', 'outlook']);
+    expect([...tokenize('Error E4 on the printer, please help')]).toEqual(['e4', 'printer']);
+    expect(tokenize(null).size).toBe(0);
+  });
+});
+
+describe('ticketSimilarity', () => {
+  it('scores the same problem high and unrelated ones low', () => {
+    const vpn = { title: 'VPN disconnects every hour', description: 'The VPN client drops the connection from home' };
+
+    expect(ticketSimilarity(vpn, { title: 'VPN keeps disconnecting every hour', description: 'Connection drops at home' })).toBeGreaterThan(0.45);
+    expect(ticketSimilarity(vpn, { title: 'New laptop for onboarding', description: 'Starts on Monday' })).toBe(0);
+    expect(ticketSimilarity(vpn, vpn)).toBe(1);
+  });
+
+  it('does not match on a shared signature alone', () => {
+    const signature = 'Kind regards, Ana Silva, Finance department, Lisbon office';
+
+    expect(ticketSimilarity(
+      { title: 'Printer offline', description: signature },
+      { title: 'Invoice approval missing', description: signature }
+    )).toBeLessThan(0.45);
+  });
+});
+
+describe('rankDuplicateCandidates', () => {
+  const ticket = { id: 'new', title: 'Outlook not syncing mailbox', description: 'Mailbox stopped syncing this morning' };
+
+  it('returns look-alikes above the threshold, most alike and then newest first', () => {
+    const candidates = rankDuplicateCandidates(ticket, [
+      recent('0001', 'Outlook mailbox not syncing', 'Mailbox stopped syncing', '2025-08-01T10:00:00Z'),
+      recent('0002', 'Outlook mailbox not syncing', 'Mailbox stopped syncing', '2025-08-03T10:00:00Z'),
+      recent('0003', 'Outlook calendar invite', 'Cannot send calendar invites'),
+      recent('0004', 'Monitor flickers')
+    ]);
+
+    expect(candidates.map(candidate => candidate.id)).toEqual(['0002', '0001']);
+    expect(candidates[0]).toMatchObject({ ticket_number: 'ACS-TK-202508-0002', status: 'open' });
+    expect(candidates[0].score).toBeGreaterThanOrEqual(0.45);
+  });
+
+  it('never suggests the ticket itself and respects the limit', () => {
+    const same = recent('new', ticket.title, ticket.description);
+    const copies = ['a', 'b', 'c'].map(id => recent(id, ticket.title, ticket.description));
+
+    expect(rankDuplicateCandidates(ticket, [same])).toEqual([]);
+    expect(rankDuplicateCandidates(ticket, copies, 0.45, 2)).toHaveLength(2);
+  });
+});
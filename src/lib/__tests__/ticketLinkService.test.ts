@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import { DatabaseService } from '../database';
+import {
+  groupRelations,
+  linkToRelation,
+  relationToLink,
+  ticketLinkService,
+  validateLink,
+  type TicketLink
+} from '../ticketLinkService';
+import { queryResult } from '@/test/utils/supabaseQueryMock';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+    auth: { getUser: vi.fn() }
+  }
+}));
+
+vi.mock('../database', () => ({
+  DatabaseService: {
+    resolveTicket: vi.fn()
+  }
+}));
+
+const summary = (id: string, status = 'open') => ({ id, ticket_number: `ACS-TK-202508-${id}`, title: `Ticket ${id}`, status });
+
+const link = (id: string, source: string, target: string, link_type: TicketLink['link_type']): TicketLink => ({
+  id,
+  source_ticket_id: source,
+  target_ticket_id: target,
+  link_type,
+  source: summary(source),
+  target: summary(target)
+});
+
+describe('relations', () => {
+  it('stores each relation in one direction and reads it back from both sides', () => {
+    expect(relationToLink('A', 'B', 'parent')).toEqual({ source_ticket_id: 'B', target_ticket_id: 'A', link_type: 'parent_of' });
+    expect(relationToLink('A', 'B', 'blocked_by')).toEqual({ source_ticket_id: 'B', target_ticket_id: 'A', link_type: 'blocks' });
+    expect(relationToLink('A', 'B', 'duplicate_of')).toEqual({ source_ticket_id: 'A', target_ticket_id: 'B', link_type: 'duplicate_of' });
+
+    const stored = link('l1', 'B', 'A', 'parent_of');
+    expect(linkToRelation(stored, 'A')).toEqual({ relation: 'parent', otherId: 'B' });
+    expect(linkToRelation(stored, 'B')).toEqual({ relation: 'child', otherId: 'A' });
+    expect(linkToRelation(link('l2', 'A', 'B', 'related'), 'B')).toEqual({ relation: 'related', otherId: 'A' });
+  });
+
+  it('groups the other tickets in panel order', () => {
+    const groups = groupRelations([
+      link('l1', 'A', 'C', 'related'),
+      link('l2', 'A', 'D', 'parent_of'),
+      link('l3', 'P', 'A', 'parent_of'),
+      link('l4', 'A', 'E', 'parent_of')
+    ], 'A');
+
+    expect(Object.keys(groups)).toEqual(['parent', 'child', 'related']);
+    expect(groups.child?.map(item => item.ticket.id)).toEqual(['D', 'E']);
+    expect(groups.parent?.[0]).toMatchObject({ link_id: 'l3', relation: 'parent', ticket: { id: 'P' } });
+  });
+
+  it('rejects self links, repeats, a second parent and a parent as child', () => {
+    const existing = [link('l1', 'P', 'A', 'parent_of'), link('l2', 'B', 'A', 'related')];
+
+    expect(validateLink('A', 'A', 'related', existing)).toMatch(/itself/);
+    expect(validateLink('A', 'B', 'related', existing)).toMatch(/already linked/);
+    expect(validateLink('A', 'Q', 'parent', existing)).toMatch(/already has a parent/);
+    expect(validateLink('A', 'P', 'child', existing)).toMatch(/cannot also be its child/);
+    expect(validateLink('A', 'C', 'child', existing)).toBeNull();
+    expect(validateLink('A', 'B', 'blocks', existing)).toBeNull();
+  });
+});
+
+describe('cascadeResolution', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const mockChildren = (children: ReturnType<typeof summary>[]) => {
+    vi.mocked(supabase.from).mockReturnValue(queryResult({ data: children.map(child => ({ child })), error: null }));
+  };
+
+  it('resolves only the open children with the parent note and keeps going after a failure', async () => {
+    mockChildren([summary('C1'), summary('C2', 'resolved'), summary('C3', 'in_progress'), summary('C4', 'closed')]);
+    vi.mocked(DatabaseService.resolveTicket)
+      .mockRejectedValueOnce(new Error('locked'))
+      .mockResolvedValueOnce({} as any);
+
+    const result = await ticketLinkService.cascadeResolution('P', 'Router replaced', 'agent-1');
+
+    expect(DatabaseService.resolveTicket).toHaveBeenCalledTimes(2);
+    expect(DatabaseService.resolveTicket).toHaveBeenCalledWith('C1', 'Router replaced', 'agent-1');
+    expect(DatabaseService.resolveTicket).toHaveBeenCalledWith('C3', 'Router replaced', 'agent-1');
+    expect(result).toEqual({ resolved: ['C3'], failed: ['C1'] });
+  });
+});
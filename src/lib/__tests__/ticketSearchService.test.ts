@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import {
+  parseDateRange,
+  parseTicketQuery,
+  splitSnippet,
+  ticketSearchService
+} from '../ticketSearchService';
+import { queryResult } from '@/test/utils/supabaseQueryMock';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+    auth: { getUser: vi.fn() }
+  }
+}));
+
+describe('parseTicketQuery', () => {
+  it('splits filters, phrases and words', () => {
+    expect(parseTicketQuery('status:open priority:urgent assignee:me created:>2026-01-01 "exact phrase" printer jam')).toEqual({
+      terms: ['printer', 'jam'],
+      phrases: ['exact phrase'],
+      statuses: ['open'],
+      priorities: ['urgent'],
+      assignee: 'me',
+      createdFrom: '2026-01-02'
+    });
+  });
+
+  it('accepts lists, aliases and quoted people', () => {
+    expect(parseTicketQuery('status:open,in-progress is:pending priority:HIGH requester:"Ana Silva" assigned:none')).toMatchObject({
+      terms: [],
+      statuses: ['open', 'in_progress', 'pending'],
+      priorities: ['high'],
+      requester: 'Ana Silva',
+      assignee: 'none'
+    });
+  });
+
+  it('keeps unknown keys and invalid values as text', () => {
+    expect(parseTicketQuery('error:404 status:broken created:yesterday')).toEqual({
+      terms: ['error:404', 'status:broken', 'created:yesterday'],
+      phrases: [],
+      statuses: [],
+      priorities: []
+    });
+  });
+});
+
+describe('parseDateRange', () => {
+  it('turns comparisons, single days and ranges into [from, to)', () => {
+    expect(parseDateRange('>=2026-01-31')).toEqual({ from: '2026-01-31' });
+    expect(parseDateRange('<2026-03-01')).toEqual({ to: '2026-03-01' });
+    expect(parseDateRange('<=2026-02-28')).toEqual({ to: '2026-03-01' });
+    expect(parseDateRange('2026-12-31')).toEqual({ from: '2026-12-31', to: '2027-01-01' });
+    expect(parseDateRange('2026-01-01..2026-01-31')).toEqual({ from: '2026-01-01', to: '2026-02-01' });
+    expect(parseDateRange('2026-02-30')).toBeNull();
+  });
+});
+
+describe('splitSnippet', () => {
+  it('separates highlighted matches from the surrounding text', () => {
+    expect(splitSnippet('the ⟦printer⟧ on floor 2 is ⟦jammed⟧')).toEqual([
+      { text: 'the ', match: false },
+      { text: 'printer', match: true },
+      { text: ' on floor 2 is ', match: false },
+      { text: 'jammed', match: true }
+    ]);
+    expect(splitSnippet('<b>not html</b>')).toEqual([{ text: '<b>not html</b>', match: false }]);
+    expect(splitSnippet(null)).toEqual([]);
+  });
+});
+
+describe('search', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends the parsed query to search_tickets with "me" as the current user', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: [{ ticket_id: 'T1', rank: 0.5, snippet: null }], error: null } as any);
+
+    const results = await ticketSearchService.search('assignee:me status:open "paper jam" printer', { userId: 'agent-1' });
+
+    expect(results).toHaveLength(1);
+    expect(supabase.rpc).toHaveBeenCalledWith('search_tickets', expect.objectContaining({
+      p_terms: 'printer',
+      p_phrases: ['paper jam'],
+      p_statuses: ['open'],
+      p_priorities: null,
+      p_assignee_ids: ['agent-1'],
+      p_unassigned: false,
+      p_requester_ids: null
+    }));
+  });
+
+  it('finds nothing for a person no user matches, without searching', async () => {
+    vi.mocked(supabase.from).mockReturnValue(queryResult({ data: [], error: null }));
+
+    expect(await ticketSearchService.search('requester:nobody@example.com printer')).toEqual([]);
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import { EmailService } from '../emailService';
+import { preferencesManager } from '../notifications/PreferencesManager';
+import {
+  normalizeCcEmail,
+  ticketWatcherService,
+  validateCcEmail,
+  watcherRecipients
+} from '../ticketWatcherService';
+import { queryResult } from '@/test/utils/supabaseQueryMock';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+    auth: { getUser: vi.fn() }
+  }
+}));
+
+vi.mock('../emailService', () => ({
+  EmailService: {
+    sendTicketUpdateNotification: vi.fn()
+  }
+}));
+
+vi.mock('../notifications/PreferencesManager', () => ({
+  preferencesManager: {
+    getUserPreferences: vi.fn()
+  }
+}));
+
+describe('helpers', () => {
+  it('validates CC addresses case-insensitively against the existing list', () => {
+    expect(normalizeCcEmail('  Ana.Silva@Example.COM ')).toBe('ana.silva@example.com');
+    expect(validateCcEmail('not-an-email', [])).toMatch(/valid email/);
+    expect(validateCcEmail('Boss@example.com', ['boss@example.com'])).toMatch(/already copied/);
+    expect(validateCcEmail('boss@example.com', ['other@example.com'])).toBeNull();
+  });
+
+  it('notifies each watcher once and skips those already reached', () => {
+    expect(watcherRecipients(['w1', 'w2', 'w1', 'creator', 'agent'], ['creator', 'agent', null, undefined]))
+      .toEqual(['w1', 'w2']);
+  });
+});
+
+describe('notifyWatchers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('skips watchers who turned the notification type off', async () => {
+    const watchers = queryResult({ data: [{ user_id: 'w1' }, { user_id: 'w2' }, { user_id: 'creator' }], error: null });
+    const notifications = queryResult({ data: null, error: null });
+    vi.mocked(supabase.from).mockImplementation((table: string) => table === 'notifications' ? notifications : watchers);
+    vi.mocked(preferencesManager.getUserPreferences).mockImplementation(async (userId: string) => ({
+      typePreferences: { status_changed: { enabled: userId !== 'w2' } }
+    }) as any);
+
+    const count = await ticketWatcherService.notifyWatchers(
+      'T1',
+      { type: 'status_changed', title: 'title', message: 'message' },
+      ['creator']
+    );
+
+    expect(count).toBe(1);
+    expect(preferencesManager.getUserPreferences).not.toHaveBeenCalledWith('creator');
+    expect(notifications.insert).toHaveBeenCalledWith([
+      expect.objectContaining({ user_id: 'w1', type: 'status_changed', ticket_id: 'T1', priority: 'medium', read: false })
+    ]);
+  });
+
+  it('does not insert anything when no watcher is left', async () => {
+    vi.mocked(supabase.from).mockReturnValue(queryResult({ data: [{ user_id: 'creator' }], error: null }));
+
+    const count = await ticketWatcherService.notifyWatchers('T1', { type: 'comment_added', title: 't', message: 'm' }, ['creator']);
+
+    expect(count).toBe(0);
+    expect(supabase.from).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('emailCcs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('emails every CC address without a reply address and keeps going after a failure', async () => {
+    const ccs = queryResult({
+      data: [{ id: 'c1', email: 'a@example.com' }, { id: 'c2', email: 'b@example.com' }],
+      error: null
+    });
+    const ticket = queryResult({ data: { ticket_number: 'ACS-TK-202508-0001', title: 'Printer down' }, error: null });
+    vi.mocked(supabase.from).mockImplementation((table: string) => table === 'tickets_new' ? ticket : ccs);
+    vi.mocked(EmailService.sendTicketUpdateNotification)
+      .mockRejectedValueOnce(new Error('bounced'))
+      .mockResolvedValueOnce({ success: true });
+
+    const sent = await ticketWatcherService.emailCcs('T1', 'Status: resolved', 'Agent');
+
+    expect(sent).toBe(1);
+    expect(EmailService.sendTicketUpdateNotification).toHaveBeenCalledTimes(2);
+    expect(EmailService.sendTicketUpdateNotification).toHaveBeenLastCalledWith(
+      'b@example.com', 'b@example.com', 'ACS-TK-202508-0001', 'Printer down', 'Status: resolved', 'Agent'
+    );
+  });
+
+  it('does not count a CC email the send-email function reported as failed', async () => {
+    const ccs = queryResult({ data: [{ id: 'c1', email: 'a@example.com' }], error: null });
+    const ticket = queryResult({ data: { ticket_number: 'ACS-TK-202508-0001', title: 'Printer down' }, error: null });
+    vi.mocked(supabase.from).mockImplementation((table: string) => table === 'tickets_new' ? ticket : ccs);
+    vi.mocked(EmailService.sendTicketUpdateNotification).mockResolvedValueOnce({ success: false, error: 'Mailbox full' });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const sent = await ticketWatcherService.emailCcs('T1', 'Status: resolved', 'Agent');
+
+    expect(sent).toBe(0);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('a@example.com'), 'Mailbox full');
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  getRetryDelayMs,
+  sendWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from '../../../supabase/functions/_shared/webhookDelivery';
+
+// Local stand-in for a receiving endpoint: records requests and answers with
+// whatever status the path asks for
+interface ReceivedRequest {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+let server: Server;
+let baseUrl: string;
+const received: ReceivedRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ path: req.url || '', headers: req.headers, body });
+      if (req.url === '/slow') return; // never answers
+      const status = Number(req.url?.slice(1)) || 200;
+      res.writeHead(status, { 'Content-Type': 'text/plain' });
+      res.end(status === 200 ? 'ok' : 'nope');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+const request = (path: string) => ({
+  deliveryId: 'delivery-1',
+  eventType: 'ticket.created',
+  url: `${baseUrl}${path}`,
+  secret: 'whsec_test',
+  payload: { id: 'event-1', type: 'ticket.created', data: { ticket: { id: 't1', title: 'Printer "HP"' } } }
+});
+
+describe('webhook delivery', () => {
+  it('posts a JSON body the receiver can verify with the shared secret', async () => {
+    const attempt = await sendWebhook(request('/200'));
+    const delivered = received[received.length - 1];
+
+    expect(attempt).toMatchObject({ ok: true, status: 200, body: 'ok', error: null });
+    expect(delivered.headers['content-type']).toBe('application/json');
+    expect(delivered.headers['x-webhook-event']).toBe('ticket.created');
+    expect(delivered.headers['x-webhook-delivery']).toBe('delivery-1');
+    expect(JSON.parse(delivered.body).data.ticket.title).toBe('Printer "HP"');
+
+    const signature = delivered.headers['x-webhook-signature'] as string;
+    expect(await verifyWebhookSignature('whsec_test', signature, delivered.body)).toBe(true);
+    expect(await verifyWebhookSignature('other-secret', signature, delivered.body)).toBe(false);
+    expect(await verifyWebhookSignature('whsec_test', signature, delivered.body.replace('t1', 't2'))).toBe(false);
+  });
+
+  it('reports non-2xx responses as failures without throwing', async () => {
+    const attempt = await sendWebhook(request('/503'));
+
+    expect(attempt).toMatchObject({ ok: false, status: 503, body: 'nope', error: 'Endpoint responded with HTTP 503' });
+  });
+
+  it('gives up on endpoints that do not answer in time', async () => {
+    const attempt = await sendWebhook(request('/slow'), { timeoutMs: 100 });
+
+    expect(attempt).toMatchObject({ ok: false, status: null, error: 'Timed out waiting for the endpoint' });
+  });
+
+  it('rejects signatures outside the tolerance window', async () => {
+    const body = '{"id":"event-1"}';
+    const timestamp = Math.floor(new Date('2026-10-19T12:00:00Z').getTime() / 1000);
+    const header = `t=${timestamp},v1=${await signWebhookPayload('whsec_test', timestamp, body)}`;
+
+    expect(await verifyWebhookSignature('whsec_test', header, body, 300, new Date('2026-10-19T12:04:00Z'))).toBe(true);
+    expect(await verifyWebhookSignature('whsec_test', header, body, 300, new Date('2026-10-19T12:06:00Z'))).toBe(false);
+  });
+
+  it('backs off between attempts and stops after the last one', () => {
+    expect(getRetryDelayMs(1)).toBe(60 * 1000);
+    expect(getRetryDelayMs(2)).toBe(5 * 60 * 1000);
+    expect(getRetryDelayMs(5)).toBe(12 * 60 * 60 * 1000);
+    expect(getRetryDelayMs(6)).toBeNull();
+    expect(getRetryDelayMs(1, 1)).toBeNull();
+  });
+});
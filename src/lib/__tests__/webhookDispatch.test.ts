@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { sendWebhook } from '../../../supabase/functions/_shared/webhookDelivery';
+import {
+  dispatchWebhookDeliveries,
+  dispatchWebhooks,
+  type ClaimedDelivery
+} from '../../../supabase/functions/_shared/webhookDispatch';
+import { mockClient } from '@/test/utils/supabaseQueryMock';
+
+vi.mock('../../../supabase/functions/_shared/webhookDelivery.ts', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  sendWebhook: vi.fn()
+}));
+
+const delivery = (overrides: Partial<ClaimedDelivery> = {}): ClaimedDelivery => ({
+  delivery_id: 'delivery-1',
+  endpoint_id: 'endpoint-1',
+  url: 'https://hooks.example.com/in',
+  secret: 'whsec_test',
+  format: 'json',
+  event_type: 'ticket.created',
+  payload: { id: 'event-1', type: 'ticket.created', created_at: '2026-10-19T10:00:00Z', data: {} },
+  attempts: 0,
+  max_attempts: 5,
+  ...overrides
+});
+
+const attempt = (ok: boolean) => ({
+  ok,
+  status: ok ? 200 : 500,
+  body: ok ? 'ok' : 'nope',
+  error: ok ? null : 'HTTP 500',
+  durationMs: 12
+});
+
+describe('dispatchWebhookDeliveries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends claimed deliveries and records delivered, retrying and failed attempts', async () => {
+    const { client, calls } = mockClient({});
+    client.rpc.mockResolvedValue({
+      data: [
+        delivery(),
+        delivery({ delivery_id: 'delivery-2' }),
+        delivery({ delivery_id: 'delivery-3', attempts: 4 })
+      ],
+      error: null
+    });
+    vi.mocked(sendWebhook)
+      .mockResolvedValueOnce(attempt(true))
+      .mockResolvedValueOnce(attempt(false))
+      .mockResolvedValueOnce(attempt(false));
+
+    const result = await dispatchWebhookDeliveries(client, { appUrl: 'https://app.example.com' });
+
+    expect(client.rpc).toHaveBeenCalledWith('claim_webhook_deliveries', { p_limit: 20, p_delivery_id: null });
+    expect(result).toEqual({ processed: 3, succeeded: 1, retrying: 1, failed: 1 });
+
+    const [delivered, retrying, failed] = calls.webhook_deliveries;
+    expect(delivered.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'succeeded', attempts: 1, next_attempt_at: null }));
+    expect(retrying.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'pending', attempts: 1, next_attempt_at: expect.any(String) }));
+    expect(failed.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed', attempts: 5, next_attempt_at: null }));
+    expect(calls.webhook_endpoints[0].update).toHaveBeenCalledWith(expect.objectContaining({ last_delivery_status: 'succeeded' }));
+  });
+
+  it('turns Slack deliveries into Slack messages', async () => {
+    const { client } = mockClient({});
+    client.rpc.mockResolvedValue({
+      data: [delivery({
+        format: 'slack',
+        event_type: 'webhook.test',
+        payload: { id: 'event-1', type: 'webhook.test', created_at: '2026-10-19T10:00:00Z', data: { message: 'Hello' } }
+      })],
+      error: null
+    });
+    vi.mocked(sendWebhook).mockResolvedValueOnce(attempt(true));
+
+    await dispatchWebhookDeliveries(client, { appUrl: 'https://app.example.com', deliveryId: 'delivery-1' });
+
+    expect(client.rpc).toHaveBeenCalledWith('claim_webhook_deliveries', { p_limit: 20, p_delivery_id: 'delivery-1' });
+    expect(vi.mocked(sendWebhook).mock.calls[0][0].payload).toMatchObject({ text: 'Hello', blocks: expect.any(Array) });
+  });
+
+  it('throws when the deliveries cannot be claimed', async () => {
+    const { client } = mockClient({});
+    client.rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+
+    await expect(dispatchWebhookDeliveries(client, { appUrl: '' })).rejects.toMatchObject({ message: 'permission denied' });
+    expect(sendWebhook).not.toHaveBeenCalled();
+  });
+});
+
+describe('dispatchWebhooks', () => {
+  it('sends a full batch and reports the counters for the run history', async () => {
+    const { client } = mockClient({});
+    client.rpc.mockResolvedValue({ data: [], error: null });
+
+    const result = await dispatchWebhooks(client, { now: new Date(), timezone: 'UTC' });
+
+    expect(client.rpc).toHaveBeenCalledWith('claim_webhook_deliveries', { p_limit: 50, p_delivery_id: null });
+    expect(result).toEqual({ processed: 0, succeeded: 0, retrying: 0, failed: 0 });
+  });
+});
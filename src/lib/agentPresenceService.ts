@@ -0,0 +1,190 @@
+import { supabase } from '@/lib/supabase';
+import {
+  loadAvailability,
+  type AgentAvailability,
+  type AgentPresence,
+  type AgentShift,
+  type OutOfOfficePeriod,
+  type PresenceStatus
+} from '../../supabase/functions/_shared/agentAvailability.ts';
+import { isValidTimezone } from './timezoneUtils';
+
+// Presence, shift and out-of-office tables are not part of the generated client types
+const db = supabase as any;
+
+// Availability is computed in a shared module so the escalations job routes
+// tickets the same way
+export {
+  computeAvailability,
+  IDLE_AFTER_MINUTES,
+  isWithinShift,
+  OFFLINE_AFTER_MINUTES,
+  type AgentAvailability,
+  type AgentPresence,
+  type AgentShift,
+  type OutOfOfficePeriod,
+  type PresenceStatus
+} from '../../supabase/functions/_shared/agentAvailability.ts';
+
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+const formatTime = (time: string): string => time.slice(0, 5);
+
+class AgentPresenceService {
+  /**
+   * Availability of each agent right now, keyed by agent id
+   */
+  async getAvailability(agentIds: string[], now: Date = new Date()): Promise<Record<string, AgentAvailability>> {
+    return loadAvailability(db, agentIds, now);
+  }
+
+  /**
+   * Record that the signed-in agent is active. Failures are only logged.
+   */
+  async sendHeartbeat(): Promise<void> {
+    const { error } = await db.rpc('record_agent_heartbeat');
+
+    if (error) {
+      console.error('Error recording agent heartbeat:', error);
+    }
+  }
+
+  /**
+   * The signed-in agent's presence row, if any
+   */
+  async getMyPresence(): Promise<AgentPresence | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await db
+      .from('agent_presence')
+      .select('*')
+      .eq('agent_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching agent presence:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Set the signed-in agent's status by hand, or pass null to follow activity again
+   */
+  async setManualStatus(status: PresenceStatus | null): Promise<void> {
+    const { error } = await db.rpc('set_agent_manual_status', { p_status: status });
+
+    if (error) {
+      console.error('Error setting agent status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Weekly shifts of an agent, in weekday order
+   */
+  async getShifts(agentId: string): Promise<AgentShift[]> {
+    const { data, error } = await db
+      .from('agent_shifts')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('weekday', { ascending: true })
+      .order('start_time', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching agent shifts:', error);
+      throw error;
+    }
+
+    return (data || []).map((shift: AgentShift) => ({
+      ...shift,
+      start_time: formatTime(shift.start_time),
+      end_time: formatTime(shift.end_time),
+    }));
+  }
+
+  /**
+   * Replace an agent's weekly schedule
+   */
+  async saveShifts(agentId: string, shifts: Omit<AgentShift, 'id' | 'agent_id'>[]): Promise<void> {
+    const invalid = shifts.find(shift => !isValidTimezone(shift.timezone) || shift.start_time === shift.end_time);
+    if (invalid) {
+      throw new Error(`Invalid shift on weekday ${invalid.weekday}`);
+    }
+
+    const { error: deleteError } = await db
+      .from('agent_shifts')
+      .delete()
+      .eq('agent_id', agentId);
+
+    if (deleteError) {
+      console.error('Error clearing agent shifts:', deleteError);
+      throw deleteError;
+    }
+
+    if (shifts.length === 0) return;
+
+    const { error } = await db
+      .from('agent_shifts')
+      .insert(shifts.map(shift => ({ ...shift, agent_id: agentId })));
+
+    if (error) {
+      console.error('Error saving agent shifts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Current and upcoming out-of-office periods of an agent
+   */
+  async getOutOfOffice(agentId: string): Promise<OutOfOfficePeriod[]> {
+    const { data, error } = await db
+      .from('agent_out_of_office')
+      .select('*')
+      .eq('agent_id', agentId)
+      .gt('ends_at', new Date().toISOString())
+      .order('starts_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching out-of-office periods:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async addOutOfOffice(period: Omit<OutOfOfficePeriod, 'id' | 'created_at'>): Promise<OutOfOfficePeriod> {
+    if (new Date(period.ends_at).getTime() <= new Date(period.starts_at).getTime()) {
+      throw new Error('Out-of-office period must end after it starts');
+    }
+
+    const { data, error } = await db
+      .from('agent_out_of_office')
+      .insert(period)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding out-of-office period:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async deleteOutOfOffice(id: string): Promise<void> {
+    const { error } = await db
+      .from('agent_out_of_office')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting out-of-office period:', error);
+      throw error;
+    }
+  }
+}
+
+export const agentPresenceService = new AgentPresenceService();
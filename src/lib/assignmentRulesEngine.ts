@@ -1,6 +1,12 @@
 import { supabase } from '@/lib/supabase';
 import type { Database } from '@/integrations/supabase/types';
 import { assignmentService, type AgentMetrics, type AssignmentResult } from './assignmentService';
+import {
+  assignmentRulesService,
+  getCustomerTier,
+  getTimezoneRegion,
+  type RuleEvaluationContext,
+} from './assignmentRulesService';
 
 type TicketPriority = Database['public']['Enums']['ticket_priority'];
 type UserRole = Database['public']['Enums']['user_role'];
@@ -9,7 +15,8 @@ export interface AssignmentRule {
   id: string;
   name: string;
   description: string;
-  priority: number; // Higher number = higher priority
+  priority: number; // Lower number = evaluated first
+  version?: number;
   enabled: boolean;
   conditions: {
     categories?: string[];
@@ -68,100 +75,36 @@ export interface CustomerProfile {
 
 class AssignmentRulesEngine {
   /**
-   * Get all active assignment rules ordered by priority
+   * Get all active assignment rules in evaluation order, as saved by admins
    */
   async getActiveRules(): Promise<AssignmentRule[]> {
     try {
-      // For now, return default rules since we don't have a rules table yet
-      // In a real implementation, this would query a database table
-      return this.getDefaultRules();
+      const rules = await assignmentRulesService.loadRules();
+
+      return rules
+        .filter(rule => rule.enabled)
+        .map(rule => ({
+          id: rule.id,
+          name: rule.name,
+          description: rule.description || '',
+          priority: rule.priority,
+          version: rule.version,
+          enabled: rule.enabled,
+          conditions: rule.conditions,
+          actions: {
+            ...rule.actions,
+            assignToSpecificAgent: rule.actions.assignToAgent,
+          },
+          created_at: rule.created_at,
+          updated_at: rule.updated_at,
+          created_by: rule.created_by || 'system',
+        }));
     } catch (error) {
       console.error('Error getting assignment rules:', error);
-      return this.getDefaultRules();
+      return [];
     }
   }
 
-  /**
-   * Get default assignment rules
-   */
-  private getDefaultRules(): AssignmentRule[] {
-    return [
-      {
-        id: 'urgent-priority-rule',
-        name: 'Urgent Priority Assignment',
-        description: 'Assign urgent tickets to most experienced agents',
-        priority: 100,
-        enabled: true,
-        conditions: {
-          priorities: ['urgent'],
-        },
-        actions: {
-          requireSkills: ['urgent-handling'],
-          maxResponseTime: 15, // 15 minutes
-          notifyManager: true,
-          priorityBoost: 0.3,
-        },
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        created_by: 'system',
-      },
-      {
-        id: 'vip-customer-rule',
-        name: 'VIP Customer Priority',
-        description: 'Route VIP customers to senior agents',
-        priority: 90,
-        enabled: true,
-        conditions: {
-          customerTiers: ['vip', 'enterprise'],
-        },
-        actions: {
-          requireSkills: ['vip-handling'],
-          maxResponseTime: 30,
-          priorityBoost: 0.2,
-        },
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        created_by: 'system',
-      },
-      {
-        id: 'technical-category-rule',
-        name: 'Technical Issues Routing',
-        description: 'Route technical issues to technical specialists',
-        priority: 70,
-        enabled: true,
-        conditions: {
-          keywords: ['server', 'database', 'api', 'integration', 'bug', 'error'],
-        },
-        actions: {
-          requireSkills: ['technical-support'],
-          requireCertifications: ['technical-cert'],
-        },
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        created_by: 'system',
-      },
-      {
-        id: 'business-hours-rule',
-        name: 'Business Hours Assignment',
-        description: 'Prefer available agents during business hours',
-        priority: 50,
-        enabled: true,
-        conditions: {
-          timeOfDay: {
-            start: '09:00',
-            end: '17:00',
-          },
-        },
-        actions: {
-          priorityBoost: 0.1,
-        },
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        created_by: 'system',
-      },
-    ];
-  }
-
   /**
    * Get customer profile with history and preferences
    */
@@ -188,6 +131,9 @@ class AssignmentRulesEngine {
         return null;
       }
 
+      const { data: preferences } = await (supabase as any)
+        .rpc('get_assignment_customer_profile', { p_user_id: userId });
+
       // Calculate customer metrics
       const resolvedTickets = tickets.filter(t => t.status === 'resolved' && t.resolved_at);
       const totalResolutionTime = resolvedTickets.reduce((total, ticket) => {
@@ -213,10 +159,7 @@ class AssignmentRulesEngine {
         }));
 
       // Determine customer tier based on ticket volume and history
-      let tier: CustomerProfile['tier'] = 'basic';
-      if (tickets.length > 50) tier = 'enterprise';
-      else if (tickets.length > 20) tier = 'premium';
-      else if (tickets.length > 10) tier = 'premium';
+      const tier = getCustomerTier(tickets.length);
 
       // Find preferred agent (most frequently assigned)
       const agentCounts = tickets.reduce((acc, ticket) => {
@@ -233,8 +176,9 @@ class AssignmentRulesEngine {
         id: `profile-${userId}`,
         user_id: userId,
         tier,
-        language_preference: 'en', // Default, could be expanded
-        timezone: 'UTC', // Default, could be expanded
+        language_preference: preferences?.language || 'en',
+        timezone: preferences?.timezone || 'UTC',
+        geographic_region: getTimezoneRegion(preferences?.timezone),
         preferred_agent_id: preferredAgentId,
         communication_style: 'formal', // Default
         previous_interactions: previousInteractions,
@@ -265,6 +209,12 @@ class AssignmentRulesEngine {
       const rules = await this.getActiveRules();
       const customerProfile = await this.getCustomerProfile(ticketData.user_id);
       const availableAgents = await assignmentService.getAvailableAgents();
+      const context = await assignmentRulesService.buildContext({
+        id: '',
+        status: 'open',
+        created_at: new Date().toISOString(),
+        ...ticketData,
+      });
 
       if (availableAgents.length === 0) {
         return {
@@ -279,7 +229,7 @@ class AssignmentRulesEngine {
       let ruleReasons: string[] = [];
 
       for (const rule of rules) {
-        if (this.doesRuleApply(rule, ticketData, customerProfile)) {
+        if (this.doesRuleApply(rule, context)) {
           applicableRules.push(rule);
           ruleReasons.push(rule.name);
         }
@@ -287,7 +237,9 @@ class AssignmentRulesEngine {
 
       // Filter agents based on rule requirements
       let eligibleAgents = availableAgents.filter(agent => 
-        agent.currentWorkload < agent.maxConcurrentTickets
+        agent.currentWorkload < agent.maxConcurrentTickets &&
+        agent.onShift &&
+        !agent.outOfOffice
       );
 
       // Apply rule-based filtering
@@ -404,58 +356,16 @@ class AssignmentRulesEngine {
   /**
    * Check if a rule applies to the given ticket and customer
    */
-  private doesRuleApply(
-    rule: AssignmentRule, 
-    ticketData: { priority: TicketPriority; category_id?: string; title: string; description: string },
-    customerProfile: CustomerProfile | null
-  ): boolean {
+  private doesRuleApply(rule: AssignmentRule, context: RuleEvaluationContext): boolean {
     if (!rule.enabled) return false;
 
-    // Check priority conditions
-    if (rule.conditions.priorities && 
-        !rule.conditions.priorities.includes(ticketData.priority)) {
-      return false;
-    }
-
-    // Check category conditions
-    if (rule.conditions.categories && ticketData.category_id &&
-        !rule.conditions.categories.includes(ticketData.category_id)) {
-      return false;
-    }
-
-    // Check customer tier conditions
-    if (rule.conditions.customerTiers && customerProfile &&
-        !rule.conditions.customerTiers.includes(customerProfile.tier)) {
-      return false;
-    }
-
-    // Check keyword conditions
-    if (rule.conditions.keywords) {
-      const content = `${ticketData.title} ${ticketData.description}`.toLowerCase();
-      const hasKeyword = rule.conditions.keywords.some(keyword => 
-        content.includes(keyword.toLowerCase())
-      );
-      if (!hasKeyword) return false;
-    }
-
-    // Check time of day conditions
-    if (rule.conditions.timeOfDay) {
-      const now = new Date();
-      const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-      
-      if (currentTime < rule.conditions.timeOfDay.start || 
-          currentTime > rule.conditions.timeOfDay.end) {
-        return false;
-      }
-    }
-
-    // Check language conditions
-    if (rule.conditions.customerLanguage && customerProfile &&
-        !rule.conditions.customerLanguage.includes(customerProfile.language_preference)) {
-      return false;
-    }
-
-    return true;
+    return assignmentRulesService.matchRule(
+      {
+        ...rule,
+        actions: { ...rule.actions, assignToAgent: rule.actions.assignToSpecificAgent },
+      },
+      context
+    ).matches;
   }
 
   /**
@@ -472,25 +382,26 @@ class AssignmentRulesEngine {
   /**
    * Create or update an assignment rule
    */
-  async saveRule(rule: Omit<AssignmentRule, 'id' | 'created_at' | 'updated_at'>): Promise<AssignmentRule> {
-    // In a real implementation, this would save to a database
-    const newRule: AssignmentRule = {
+  async saveRule(rule: Omit<AssignmentRule, 'id' | 'created_at' | 'updated_at'> & { id?: string }): Promise<AssignmentRule> {
+    const saved = await assignmentRulesService.saveRule({
       ...rule,
-      id: `rule-${Date.now()}`,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
+      actions: { ...rule.actions, assignToAgent: rule.actions.assignToSpecificAgent },
+    });
 
-    console.log('Rule saved (mock):', newRule);
-    return newRule;
+    return {
+      ...rule,
+      ...saved,
+      description: saved.description || '',
+      actions: { ...saved.actions, assignToSpecificAgent: saved.actions.assignToAgent },
+      created_by: saved.created_by || rule.created_by,
+    };
   }
 
   /**
    * Delete an assignment rule
    */
   async deleteRule(ruleId: string): Promise<boolean> {
-    // In a real implementation, this would delete from database
-    console.log('Rule deleted (mock):', ruleId);
+    await assignmentRulesService.deleteRule(ruleId);
     return true;
   }
 }
@@ -1,10 +1,15 @@
 import { supabase } from '@/lib/supabase';
 import type { AssignmentRule } from '@/components/admin/AssignmentRulesManager';
 import type { Database } from '@/integrations/supabase/types';
+import { getLocalParts, isValidTimezone } from './timezoneUtils';
+import { teamService } from './teamService';
 
 type TicketPriority = Database['public']['Enums']['ticket_priority'];
 type TicketStatus = Database['public']['Enums']['ticket_status'];
 
+// Assignment rule, config and audit tables are not part of the generated client types
+const db = supabase as any;
+
 export interface TicketData {
     id: string;
     title: string;
@@ -16,6 +21,23 @@ export interface TicketData {
     created_at: string;
 }
 
+export type CustomerTier = 'basic' | 'premium' | 'enterprise' | 'vip';
+
+/**
+ * Everything the rule conditions are evaluated against
+ */
+export interface RuleEvaluationContext {
+    ticket: Pick<TicketData, 'title' | 'description' | 'priority' | 'category_id'>;
+    categoryName?: string;
+    customer: {
+        tier: CustomerTier;
+        language?: string;
+        timezone?: string;
+    };
+    now: Date;
+    businessTimezone: string; // timeOfDay windows are read in this timezone
+}
+
 export interface RuleMatchResult {
     rule: AssignmentRule;
     matches: boolean;
@@ -27,18 +49,78 @@ export interface RuleBasedAssignmentResult {
     success: boolean;
     appliedRule?: AssignmentRule;
     assignedAgent?: string;
+    queueId?: string; // queue the ticket goes to, with or without an agent
     reason: string;
     confidence: number;
     matchedRules: RuleMatchResult[];
 }
 
+export type AssignmentMethod = 'rule' | 'intelligent' | 'manual' | 'rebalance' | 'queue' | 'escalation';
+
+export interface AssignmentRuleVersion {
+    id: string;
+    rule_id: string;
+    version: number;
+    change_type: 'created' | 'updated' | 'enabled' | 'disabled' | 'deleted' | 'restored';
+    name: string;
+    description?: string | null;
+    priority: number;
+    enabled: boolean;
+    conditions: AssignmentRule['conditions'];
+    actions: AssignmentRule['actions'];
+    changed_by?: string | null;
+    created_at: string;
+    changed_by_user?: { full_name: string | null; email: string } | null;
+}
+
+export interface AssignmentAuditEntry {
+    id: string;
+    ticket_id: string;
+    assigned_to: string | null;
+    assigned_by: string | null;
+    method: AssignmentMethod;
+    rule_id: string | null;
+    rule_version: number | null;
+    rule_name: string | null;
+    matched_conditions: string[];
+    reason: string | null;
+    confidence: number | null;
+    created_at: string;
+    ticket?: { ticket_number: string | null; title: string } | null;
+    assignee?: { full_name: string | null; email: string } | null;
+}
+
+const PRIORITY_LEVELS: Record<TicketPriority, number> = {
+    low: 1,
+    medium: 2,
+    high: 3,
+    urgent: 4
+};
+
+/**
+ * Customer tier from ticket volume (there is no billing tier to read yet)
+ */
+export function getCustomerTier(totalTickets: number): CustomerTier {
+    if (totalTickets > 50) return 'enterprise';
+    if (totalTickets > 10) return 'premium';
+    return 'basic';
+}
+
+/**
+ * Region of an IANA timezone, e.g. "Europe" for "Europe/Lisbon"
+ */
+export function getTimezoneRegion(timezone?: string): string | undefined {
+    if (!timezone || !timezone.includes('/')) return undefined;
+    return timezone.split('/')[0];
+}
+
 class AssignmentRulesService {
     private rules: AssignmentRule[] = [];
     private lastRulesUpdate: Date = new Date(0);
     private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
     /**
-     * Load assignment rules from storage (with caching)
+     * Load assignment rules from the database (with caching), in evaluation order
      */
     async loadRules(): Promise<AssignmentRule[]> {
         const now = new Date();
@@ -47,87 +129,18 @@ class AssignmentRulesService {
         }
 
         try {
-            // In a real implementation, load from database
-            // For now, return mock rules that would be stored in the database
-            const mockRules: AssignmentRule[] = [
-                {
-                    id: '1',
-                    name: 'Urgent Tickets to Senior Agents',
-                    description: 'Assign urgent priority tickets to experienced agents',
-                    priority: 1,
-                    enabled: true,
-                    conditions: {
-                        priorities: ['urgent'],
-                    },
-                    actions: {
-                        requireSkills: ['senior'],
-                        maxResponseTime: 15,
-                        notifyManager: true
-                    },
-                    created_at: new Date().toISOString(),
-                    updated_at: new Date().toISOString()
-                },
-                {
-                    id: '2',
-                    name: 'Technical Issues to IT Team',
-                    description: 'Route technical category tickets to IT specialists',
-                    priority: 2,
-                    enabled: true,
-                    conditions: {
-                        categories: ['technical', 'software'],
-                        keywords: ['server', 'network', 'database', 'api', 'bug', 'error']
-                    },
-                    actions: {
-                        assignToTeam: 'it-team',
-                        requireSkills: ['technical'],
-                        maxResponseTime: 30
-                    },
-                    created_at: new Date().toISOString(),
-                    updated_at: new Date().toISOString()
-                },
-                {
-                    id: '3',
-                    name: 'High Priority Business Hours',
-                    description: 'Assign high priority tickets during business hours to available agents',
-                    priority: 3,
-                    enabled: true,
-                    conditions: {
-                        priorities: ['high'],
-                        timeOfDay: {
-                            start: '09:00',
-                            end: '17:00'
-                        }
-                    },
-                    actions: {
-                        maxResponseTime: 20,
-                        notifyManager: false
-                    },
-                    created_at: new Date().toISOString(),
-                    updated_at: new Date().toISOString()
-                },
-                {
-                    id: '4',
-                    name: 'After Hours to On-Call',
-                    description: 'Assign tickets outside business hours to on-call agents',
-                    priority: 4,
-                    enabled: false, // Disabled by default
-                    conditions: {
-                        timeOfDay: {
-                            start: '18:00',
-                            end: '08:00'
-                        }
-                    },
-                    actions: {
-                        assignToTeam: 'on-call',
-                        escalateAfter: 60,
-                        notifyManager: true
-                    },
-                    created_at: new Date().toISOString(),
-                    updated_at: new Date().toISOString()
-                }
-            ];
+            const { data, error } = await db
+                .from('assignment_rules')
+                .select('*')
+                .order('priority', { ascending: true });
+
+            if (error) throw error;
 
-            this.rules = mockRules;
+            this.rules = (data || []).map((row: AssignmentRule) => ({
+                ...row,
+                conditions: (row.conditions || {}) as AssignmentRule['conditions'],
+                actions: (row.actions || {}) as AssignmentRule['actions']
+            }));
             this.lastRulesUpdate = now;
             return this.rules;
         } catch (error) {
@@ -136,6 +149,46 @@ class AssignmentRulesService {
         }
     }
 
+    /**
+     * Drop the cached rules so the next evaluation reads what admins saved
+     */
+    invalidateCache(): void {
+        this.rules = [];
+        this.lastRulesUpdate = new Date(0);
+    }
+
+    /**
+     * Gather the ticket, customer and business-hours data the conditions need
+     */
+    async buildContext(ticket: TicketData, now: Date = new Date()): Promise<RuleEvaluationContext> {
+        const [categoryResult, profileResult, configResult] = await Promise.all([
+            ticket.category_id
+                ? supabase.from('categories').select('name').eq('id', ticket.category_id).maybeSingle()
+                : Promise.resolve({ data: null, error: null }),
+            db.rpc('get_assignment_customer_profile', { p_user_id: ticket.user_id }),
+            db.from('assignment_config').select('business_hours').limit(1).maybeSingle()
+        ]);
+
+        if (profileResult.error) {
+            console.warn('Could not load customer profile for assignment rules:', profileResult.error);
+        }
+
+        const profile = profileResult.data || {};
+        const configuredTimezone = (configResult.data?.business_hours as { timezone?: string } | null)?.timezone;
+
+        return {
+            ticket,
+            categoryName: categoryResult.data?.name,
+            customer: {
+                tier: getCustomerTier(profile.total_tickets || 0),
+                language: profile.language || undefined,
+                timezone: profile.timezone || undefined
+            },
+            now,
+            businessTimezone: configuredTimezone && isValidTimezone(configuredTimezone) ? configuredTimezone : 'UTC'
+        };
+    }
+
     /**
      * Evaluate a ticket against all assignment rules
      */
@@ -153,13 +206,10 @@ class AssignmentRulesService {
                 };
             }
 
-            // Evaluate each rule against the ticket
-            const ruleMatches: RuleMatchResult[] = [];
+            const context = await this.buildContext(ticket);
 
-            for (const rule of enabledRules) {
-                const matchResult = await this.evaluateRule(rule, ticket);
-                ruleMatches.push(matchResult);
-            }
+            // Evaluate each rule against the ticket
+            const ruleMatches = enabledRules.map(rule => this.matchRule(rule, context));
 
             // Sort by priority and find the first matching rule
             const matchingRules = ruleMatches
@@ -182,6 +232,7 @@ class AssignmentRulesService {
                 success: assignmentResult.success,
                 appliedRule: bestMatch.rule,
                 assignedAgent: assignmentResult.assignedAgent,
+                queueId: assignmentResult.queueId,
                 reason: assignmentResult.reason,
                 confidence: bestMatch.confidence,
                 matchedRules: ruleMatches
@@ -198,69 +249,100 @@ class AssignmentRulesService {
     }
 
     /**
-     * Evaluate a single rule against a ticket
+     * Evaluate a single rule against a ticket. Every condition that is set
+     * must match; empty lists are treated as not set.
      */
-    private async evaluateRule(rule: AssignmentRule, ticket: TicketData): Promise<RuleMatchResult> {
+    matchRule(rule: AssignmentRule, context: RuleEvaluationContext): RuleMatchResult {
+        const { conditions } = rule;
+        const { ticket, customer } = context;
         const matchedConditions: string[] = [];
         let totalConditions = 0;
         let matchedCount = 0;
 
-        // Check priority conditions
-        if (rule.conditions.priorities && rule.conditions.priorities.length > 0) {
-            totalConditions++;
-            if (rule.conditions.priorities.includes(ticket.priority)) {
-                matchedConditions.push(`Priority: ${ticket.priority}`);
-                matchedCount++;
-            }
-        }
-
-        // Check category conditions
-        if (rule.conditions.categories && rule.conditions.categories.length > 0 && ticket.category_id) {
+        const check = (isSet: boolean, matched: boolean, description: () => string) => {
+            if (!isSet) return;
             totalConditions++;
-            // In a real implementation, you'd fetch the category name from the database
-            // For now, we'll assume category_id matches category names for simplicity
-            if (rule.conditions.categories.some(cat => ticket.category_id?.includes(cat))) {
-                matchedConditions.push(`Category: ${ticket.category_id}`);
+            if (matched) {
+                matchedConditions.push(description());
                 matchedCount++;
             }
-        }
-
-        // Check keyword conditions
-        if (rule.conditions.keywords && rule.conditions.keywords.length > 0) {
-            totalConditions++;
-            const ticketText = `${ticket.title} ${ticket.description || ''}`.toLowerCase();
-            const matchedKeywords = rule.conditions.keywords.filter(keyword =>
-                ticketText.includes(keyword.toLowerCase())
-            );
+        };
 
-            if (matchedKeywords.length > 0) {
-                matchedConditions.push(`Keywords: ${matchedKeywords.join(', ')}`);
-                matchedCount++;
-            }
+        // Priority
+        check(
+            !!conditions.priorities?.length,
+            !!conditions.priorities?.includes(ticket.priority),
+            () => `Priority: ${ticket.priority}`
+        );
+
+        // Category, by id or by name
+        const categoryName = context.categoryName?.toLowerCase();
+        check(
+            !!conditions.categories?.length,
+            !!conditions.categories?.some(category =>
+                category === ticket.category_id || (!!categoryName && category.toLowerCase() === categoryName)
+            ),
+            () => `Category: ${context.categoryName || ticket.category_id}`
+        );
+
+        // Customer tier
+        check(
+            !!conditions.customerTiers?.length,
+            !!conditions.customerTiers?.includes(customer.tier),
+            () => `Customer tier: ${customer.tier}`
+        );
+
+        // Keywords in title or description
+        const ticketText = `${ticket.title} ${ticket.description || ''}`.toLowerCase();
+        const matchedKeywords = (conditions.keywords || []).filter(keyword => ticketText.includes(keyword.toLowerCase()));
+        check(
+            !!conditions.keywords?.length,
+            matchedKeywords.length > 0,
+            () => `Keywords: ${matchedKeywords.join(', ')}`
+        );
+
+        // Urgency: the ticket priority is at least this level (1 = low ... 4 = urgent)
+        check(
+            !!conditions.urgencyLevel,
+            PRIORITY_LEVELS[ticket.priority] >= (conditions.urgencyLevel || 0),
+            () => `Urgency: ${PRIORITY_LEVELS[ticket.priority]} >= ${conditions.urgencyLevel}`
+        );
+
+        // Time of day in the business timezone; start > end spans midnight
+        if (conditions.timeOfDay?.start && conditions.timeOfDay?.end) {
+            const local = getLocalParts(context.now, context.businessTimezone);
+            const currentTime = local.hour * 60 + local.minute;
+            const startTime = this.parseTime(conditions.timeOfDay.start);
+            const endTime = this.parseTime(conditions.timeOfDay.end);
+            const isInTimeRange = startTime <= endTime
+                ? currentTime >= startTime && currentTime < endTime
+                : currentTime >= startTime || currentTime < endTime;
+
+            check(true, isInTimeRange, () => `Time: ${conditions.timeOfDay!.start} - ${conditions.timeOfDay!.end}`);
         }
 
-        // Check time of day conditions
-        if (rule.conditions.timeOfDay) {
-            totalConditions++;
-            const now = new Date();
-            const currentTime = now.getHours() * 100 + now.getMinutes(); // HHMM format
-            const startTime = this.parseTime(rule.conditions.timeOfDay.start);
-            const endTime = this.parseTime(rule.conditions.timeOfDay.end);
-
-            let isInTimeRange = false;
-            if (startTime <= endTime) {
-                // Normal time range (e.g., 09:00 - 17:00)
-                isInTimeRange = currentTime >= startTime && currentTime <= endTime;
-            } else {
-                // Overnight time range (e.g., 18:00 - 08:00)
-                isInTimeRange = currentTime >= startTime || currentTime <= endTime;
-            }
-
-            if (isInTimeRange) {
-                matchedConditions.push(`Time: ${rule.conditions.timeOfDay.start} - ${rule.conditions.timeOfDay.end}`);
-                matchedCount++;
-            }
-        }
+        // Customer language; "pt" also matches "pt-BR"
+        const language = customer.language?.toLowerCase();
+        check(
+            !!conditions.customerLanguage?.length,
+            !!language && !!conditions.customerLanguage?.some(value => {
+                const expected = value.toLowerCase();
+                return language === expected || language.split('-')[0] === expected;
+            }),
+            () => `Language: ${customer.language}`
+        );
+
+        // Geographic region from the customer's timezone ("Europe" or "Europe/Lisbon")
+        const timezone = customer.timezone?.toLowerCase();
+        const region = getTimezoneRegion(customer.timezone)?.toLowerCase();
+        check(
+            !!conditions.geographicRegion?.length,
+            !!timezone && !!conditions.geographicRegion?.some(value => {
+                const expected = value.toLowerCase();
+                return expected === timezone || expected === region;
+            }),
+            () => `Region: ${customer.timezone}`
+        );
 
         // If no conditions are specified, the rule matches everything
         if (totalConditions === 0) {
@@ -270,7 +352,7 @@ class AssignmentRulesService {
         }
 
         const matches = matchedCount === totalConditions;
-        const confidence = totalConditions > 0 ? (matchedCount / totalConditions) * 100 : 0;
+        const confidence = (matchedCount / totalConditions) * 100;
 
         return {
             rule,
@@ -286,6 +368,7 @@ class AssignmentRulesService {
     private async applyRule(rule: AssignmentRule, ticket: TicketData): Promise<{
         success: boolean;
         assignedAgent?: string;
+        queueId?: string;
         reason: string;
     }> {
         try {
@@ -313,26 +396,57 @@ class AssignmentRulesService {
                 };
             }
 
-            // If rule specifies a team
+            // If rule specifies a queue, the ticket waits there for someone to pull it
+            if (rule.actions.assignToQueue) {
+                const queues = await teamService.getQueues();
+                const queue = queues.find(candidate => candidate.id === rule.actions.assignToQueue);
+
+                if (!queue) {
+                    return {
+                        success: false,
+                        reason: `Queue of rule "${rule.name}" not found or inactive`
+                    };
+                }
+
+                return {
+                    success: true,
+                    queueId: queue.id,
+                    reason: `Queued by rule "${rule.name}" in "${queue.name}"`
+                };
+            }
+
+            // If rule specifies a team, pick its least loaded on-duty member
             if (rule.actions.assignToTeam) {
-                // Find agents in the specified team
-                // In a real implementation, you'd have a teams table or team assignments
-                const teamAgents = await this.getTeamAgents(rule.actions.assignToTeam);
+                const routing = await teamService.routeToTeam(rule.actions.assignToTeam);
 
-                if (teamAgents.length === 0) {
+                if (!routing) {
                     return {
                         success: false,
-                        reason: `No available agents found in team "${rule.actions.assignToTeam}"`
+                        reason: `Team "${rule.actions.assignToTeam}" not found or inactive`
+                    };
+                }
+
+                if (routing.agent) {
+                    return {
+                        success: true,
+                        assignedAgent: routing.agent.id,
+                        queueId: routing.queue?.id,
+                        reason: `Assigned by rule "${rule.name}" to team "${routing.team.name}" (${routing.agent.name})`
                     };
                 }
 
-                // Select the agent with the lowest workload in the team
-                const bestAgent = await this.selectBestTeamAgent(teamAgents);
+                // Nobody on duty: park the ticket in the team queue rather than leave the team
+                if (routing.queue) {
+                    return {
+                        success: true,
+                        queueId: routing.queue.id,
+                        reason: `Queued by rule "${rule.name}" in "${routing.queue.name}": no member of team "${routing.team.name}" is on duty`
+                    };
+                }
 
                 return {
-                    success: true,
-                    assignedAgent: bestAgent.id,
-                    reason: `Assigned by rule "${rule.name}" to team "${rule.actions.assignToTeam}" (${bestAgent.name})`
+                    success: false,
+                    reason: `No available agents found in team "${routing.team.name}"`
                 };
             }
 
@@ -370,42 +484,6 @@ class AssignmentRulesService {
         }
     }
 
-    /**
-     * Get agents in a specific team
-     */
-    private async getTeamAgents(teamName: string): Promise<Array<{ id: string; name: string }>> {
-        // Mock implementation - in reality, you'd query a teams table
-        const mockTeams: Record<string, string[]> = {
-            'it-team': ['agent1', 'agent2'],
-            'on-call': ['agent3', 'admin1'],
-            'support': ['agent1', 'agent2', 'agent3']
-        };
-
-        const agentIds = mockTeams[teamName] || [];
-
-        if (agentIds.length === 0) {
-            return [];
-        }
-
-        try {
-            const { data: agents, error } = await supabase
-                .from('users')
-                .select('id, full_name')
-                .in('id', agentIds)
-                .in('role', ['agent', 'admin']);
-
-            if (error) throw error;
-
-            return (agents || []).map(agent => ({
-                id: agent.id,
-                name: agent.full_name || 'Unknown'
-            }));
-        } catch (error) {
-            console.error('Error fetching team agents:', error);
-            return [];
-        }
-    }
-
     /**
      * Get agents with specific skills
      */
@@ -447,14 +525,6 @@ class AssignmentRulesService {
         }
     }
 
-    /**
-     * Select the best agent from a team based on workload
-     */
-    private async selectBestTeamAgent(agents: Array<{ id: string; name: string }>): Promise<{ id: string; name: string }> {
-        // For now, return the first agent. In a real implementation, you'd check workload
-        return agents[0];
-    }
-
     /**
      * Select the best agent with required skills based on workload
      */
@@ -468,18 +538,18 @@ class AssignmentRulesService {
      */
     private parseTime(timeStr: string): number {
         const [hours, minutes] = timeStr.split(':').map(Number);
-        return hours * 100 + minutes;
+        return hours * 60 + (minutes || 0);
     }
 
     /**
-     * Save assignment rules to storage
+     * Save assignment rules; each change is versioned by the database
      */
     async saveRules(rules: AssignmentRule[]): Promise<void> {
         try {
-            // In a real implementation, save to database
-            this.rules = rules;
-            this.lastRulesUpdate = new Date();
-            console.log('Assignment rules saved:', rules.length);
+            for (const rule of rules) {
+                await this.saveRule(rule);
+            }
+            this.invalidateCache();
         } catch (error) {
             console.error('Error saving assignment rules:', error);
             throw error;
@@ -487,7 +557,147 @@ class AssignmentRulesService {
     }
 
     /**
-     * Get rule execution statistics
+     * Create or update a single rule
+     */
+    async saveRule(rule: Partial<AssignmentRule>): Promise<AssignmentRule> {
+        const payload = {
+            name: rule.name || '',
+            description: rule.description ?? null,
+            priority: rule.priority ?? 1,
+            enabled: rule.enabled ?? true,
+            conditions: rule.conditions || {},
+            actions: rule.actions || {}
+        };
+
+        const query = rule.id
+            ? db.from('assignment_rules').update(payload).eq('id', rule.id)
+            : db.from('assignment_rules').insert(payload);
+
+        const { data, error } = await query.select().single();
+
+        if (error) {
+            console.error('Error saving assignment rule:', error);
+            throw error;
+        }
+
+        this.invalidateCache();
+        return data;
+    }
+
+    async deleteRule(ruleId: string): Promise<void> {
+        const { error } = await db
+            .from('assignment_rules')
+            .delete()
+            .eq('id', ruleId);
+
+        if (error) {
+            console.error('Error deleting assignment rule:', error);
+            throw error;
+        }
+
+        this.invalidateCache();
+    }
+
+    /**
+     * Version history of a rule, newest first
+     */
+    async getRuleVersions(ruleId: string): Promise<AssignmentRuleVersion[]> {
+        const { data, error } = await db
+            .from('assignment_rule_versions')
+            .select('*, changed_by_user:users!assignment_rule_versions_changed_by_fkey(full_name, email)')
+            .eq('rule_id', ruleId)
+            .order('version', { ascending: false })
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching assignment rule versions:', error);
+            throw error;
+        }
+
+        return data || [];
+    }
+
+    /**
+     * Put a rule back to an earlier version (recreates deleted rules)
+     */
+    async restoreRuleVersion(versionId: string): Promise<string> {
+        const { data, error } = await db.rpc('restore_assignment_rule_version', { p_version_id: versionId });
+
+        if (error) {
+            console.error('Error restoring assignment rule version:', error);
+            throw error;
+        }
+
+        this.invalidateCache();
+        return data;
+    }
+
+    /**
+     * Record how a ticket was assigned. Never throws: a missing audit row
+     * must not undo an assignment that already happened.
+     */
+    async recordAssignment(entry: {
+        ticketId: string;
+        assignedTo: string | null; // null when the ticket was only queued
+        method: AssignmentMethod;
+        rule?: AssignmentRule;
+        matchedConditions?: string[];
+        reason: string;
+        confidence: number;
+    }): Promise<void> {
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+
+            const { error } = await db
+                .from('ticket_assignment_audit')
+                .insert({
+                    ticket_id: entry.ticketId,
+                    assigned_to: entry.assignedTo,
+                    assigned_by: user?.id ?? null,
+                    method: entry.method,
+                    rule_id: entry.rule?.id ?? null,
+                    rule_version: entry.rule?.version ?? null,
+                    rule_name: entry.rule?.name ?? null,
+                    matched_conditions: entry.matchedConditions || [],
+                    reason: entry.reason,
+                    confidence: Math.round(entry.confidence * 100) / 100
+                });
+
+            if (error) throw error;
+        } catch (error) {
+            console.error('Error recording ticket assignment:', error);
+        }
+    }
+
+    /**
+     * Assignment audit trail, newest first
+     */
+    async getAssignmentAudit(filters: { ticketId?: string; ruleId?: string; limit?: number } = {}): Promise<AssignmentAuditEntry[]> {
+        let query = db
+            .from('ticket_assignment_audit')
+            .select(`
+                *,
+                ticket:tickets_new(ticket_number, title),
+                assignee:users!ticket_assignment_audit_assigned_to_fkey(full_name, email)
+            `)
+            .order('created_at', { ascending: false })
+            .limit(filters.limit || 50);
+
+        if (filters.ticketId) query = query.eq('ticket_id', filters.ticketId);
+        if (filters.ruleId) query = query.eq('rule_id', filters.ruleId);
+
+        const { data, error } = await query;
+
+        if (error) {
+            console.error('Error fetching assignment audit:', error);
+            throw error;
+        }
+
+        return data || [];
+    }
+
+    /**
+     * Get rule execution statistics for today
      */
     async getRuleStatistics(): Promise<{
         totalRules: number;
@@ -496,12 +706,28 @@ class AssignmentRulesService {
         successRate: number;
     }> {
         const rules = await this.loadRules();
+        const startOfDay = new Date();
+        startOfDay.setHours(0, 0, 0, 0);
+
+        const { data, error } = await db
+            .from('ticket_assignment_audit')
+            .select('method')
+            .in('method', ['rule', 'intelligent'])
+            .gte('created_at', startOfDay.toISOString());
+
+        if (error) {
+            console.error('Error fetching assignment statistics:', error);
+        }
+
+        const automatic: Array<{ method: AssignmentMethod }> = data || [];
+        const byRule = automatic.filter(entry => entry.method === 'rule').length;
 
         return {
             totalRules: rules.length,
             activeRules: rules.filter(r => r.enabled).length,
-            rulesExecutedToday: 42, // Mock data
-            successRate: 85 // Mock data
+            rulesExecutedToday: byRule,
+            // Share of automatic assignments that a rule decided
+            successRate: automatic.length > 0 ? Math.round((byRule / automatic.length) * 100) : 0
         };
     }
 }
@@ -1,12 +1,29 @@
 import { supabase } from '@/lib/supabase';
 import { NotificationService } from './notificationService';
-import { assignmentRulesService } from './assignmentRulesService';
+import { assignmentRulesService, type AssignmentMethod, type RuleBasedAssignmentResult } from './assignmentRulesService';
+import { agentPresenceService, type OutOfOfficePeriod } from './agentPresenceService';
+import { DatabaseService, type SLAStatus } from './database';
+import {
+  buildRebalancePlan,
+  findRebalanceSources,
+  isOnDuty,
+  type RebalanceCandidate,
+  type RebalanceMove,
+  type RebalanceOptions,
+  type RebalancePlan,
+  type SLAUrgency,
+} from './rebalancePlanner';
 import type { Database } from '@/integrations/supabase/types';
 
 type UserRole = Database['public']['Enums']['user_role'];
 type TicketPriority = Database['public']['Enums']['ticket_priority'];
 type TicketStatus = Database['public']['Enums']['ticket_status'];
 
+// Rebalance tables and ticket queue columns are not part of the generated client types
+const db = supabase as any;
+
+const SLA_BATCH_SIZE = 10;
+
 export interface AgentMetrics {
   id: string;
   full_name: string;
@@ -19,7 +36,10 @@ export interface AgentMetrics {
   resolutionRate: number;
   customerSatisfactionScore: number;
   availability: 'available' | 'busy' | 'away' | 'offline';
-  lastActivity: Date;
+  lastActivity: Date | null;
+  manualStatus?: 'available' | 'busy' | 'away' | 'offline' | null;
+  onShift: boolean;
+  outOfOffice?: OutOfOfficePeriod;
   specializations: string[];
   languages: string[];
   workingHours?: {
@@ -58,9 +78,31 @@ export interface AssignmentRule {
   };
 }
 
+export interface RebalanceBatch {
+  id: string;
+  created_by: string | null;
+  planned_count: number;
+  applied_count: number;
+  undone_at: string | null;
+  created_at: string;
+  creator?: { full_name: string | null; email: string } | null;
+  moves: Array<{
+    id: string;
+    ticket_id: string;
+    from_agent_id: string | null;
+    to_agent_id: string | null;
+    reason: string | null;
+    status: 'applied' | 'skipped' | 'undone' | 'kept';
+    ticket?: { title: string; ticket_number: string | null } | null;
+    from_agent?: { full_name: string | null; email: string } | null;
+    to_agent?: { full_name: string | null; email: string } | null;
+  }>;
+}
+
 export interface AssignmentResult {
   success: boolean;
   assignedAgent?: AgentMetrics;
+  queueId?: string; // set when a rule routed the ticket to a queue
   reason: string;
   confidence: number;
   alternativeAgents?: AgentMetrics[];
@@ -76,9 +118,10 @@ class AssignmentService {
   private readonly CUSTOMER_HISTORY_WEIGHT = 0.15;
 
   /**
-   * Get all available agents with their current metrics
+   * Get all available agents with their current metrics.
+   * Offline agents are left out unless `includeOffline` is set.
    */
-  async getAvailableAgents(): Promise<AgentMetrics[]> {
+  async getAvailableAgents(options: { includeOffline?: boolean } = {}): Promise<AgentMetrics[]> {
     try {
       // Get all agents and admins
       const { data: users, error: usersError } = await supabase
@@ -92,12 +135,14 @@ class AssignmentService {
         return [];
       }
 
+      const availabilityByAgent = await agentPresenceService.getAvailability(users.map(user => user.id));
+
       // Get current workload for each agent
       const agentMetrics = await Promise.all(
         users.map(async (user) => {
           const workload = await this.getAgentWorkload(user.id);
           const performance = await this.getAgentPerformance(user.id);
-          const availability = await this.getAgentAvailability(user.id);
+          const availability = availabilityByAgent[user.id];
 
           const skillsAndHistory = await this.getAgentSkillsAndHistory(user.id);
 
@@ -114,6 +159,10 @@ class AssignmentService {
             customerSatisfactionScore: performance.satisfactionScore,
             availability: availability.status,
             lastActivity: availability.lastActivity,
+            manualStatus: availability.manualStatus,
+            onShift: availability.onShift,
+            outOfOffice: availability.outOfOffice,
+            workingHours: availability.workingHours,
             specializations: skillsAndHistory.specializations,
             languages: skillsAndHistory.languages,
             skillTags: skillsAndHistory.skillTags,
@@ -125,7 +174,9 @@ class AssignmentService {
         })
       );
 
-      return agentMetrics.filter(agent => agent.availability !== 'offline');
+      return options.includeOffline
+        ? agentMetrics
+        : agentMetrics.filter(agent => agent.availability !== 'offline');
     } catch (error) {
       console.error('Error getting available agents:', error);
       return [];
@@ -201,8 +252,7 @@ class AssignmentService {
 
       const averageResolutionTime = totalResolutionTime / totalTickets;
 
-      // TODO: Get actual satisfaction scores from feedback
-      const satisfactionScore = 4.2; // Placeholder
+      const satisfactionScore = await this.getAgentSatisfaction(agentId, thirtyDaysAgo);
 
       return {
         averageResolutionTime,
@@ -220,31 +270,19 @@ class AssignmentService {
   }
 
   /**
-   * Get agent's current availability status
+   * Average rating (1-5) given in the app or through survey links on the
+   * agent's tickets since `since`; 4.0 until there is any feedback
    */
-  private async getAgentAvailability(agentId: string) {
-    try {
-      // Check if agent has been active recently (last 15 minutes)
-      const fifteenMinutesAgo = new Date();
-      fifteenMinutesAgo.setMinutes(fifteenMinutesAgo.getMinutes() - 15);
+  private async getAgentSatisfaction(agentId: string, since: Date): Promise<number> {
+    const { data, error } = await (supabase as any)
+      .from('ticket_feedback')
+      .select('rating, ticket:tickets_new!inner(assigned_to)')
+      .eq('ticket.assigned_to', agentId)
+      .gte('created_at', since.toISOString());
 
-      // TODO: Implement actual activity tracking
-      // For now, assume agents are available during business hours
-      const now = new Date();
-      const hour = now.getHours();
-      const isBusinessHours = hour >= 9 && hour <= 17;
+    if (error || !data?.length) return 4.0;
 
-      return {
-        status: isBusinessHours ? 'available' : 'away' as const,
-        lastActivity: new Date(),
-      };
-    } catch (error) {
-      console.error('Error getting agent availability:', error);
-      return {
-        status: 'available' as const,
-        lastActivity: new Date(),
-      };
-    }
+    return data.reduce((total: number, feedback: { rating: number }) => total + feedback.rating, 0) / data.length;
   }
 
   /**
@@ -267,8 +305,20 @@ class AssignmentService {
         };
       }
 
+      // Only agents working right now can take new tickets
+      const onShiftAgents = availableAgents.filter(agent => isOnDuty(agent));
+
+      if (onShiftAgents.length === 0) {
+        return {
+          success: false,
+          reason: 'No agents are on shift',
+          confidence: 0,
+          alternativeAgents: availableAgents.slice(0, 3),
+        };
+      }
+
       // Filter out agents at capacity
-      const availableCapacityAgents = availableAgents.filter(
+      const availableCapacityAgents = onShiftAgents.filter(
         agent => agent.currentWorkload < agent.maxConcurrentTickets
       );
 
@@ -277,7 +327,7 @@ class AssignmentService {
           success: false,
           reason: 'All agents are at capacity',
           confidence: 0,
-          alternativeAgents: availableAgents.slice(0, 3),
+          alternativeAgents: onShiftAgents.slice(0, 3),
         };
       }
 
@@ -340,11 +390,13 @@ class AssignmentService {
       if (ticketError) throw ticketError;
 
       let assignmentResult: AssignmentResult;
+      let method: AssignmentMethod = agentId ? 'manual' : 'intelligent';
+      let ruleResult: RuleBasedAssignmentResult | undefined;
 
       // First, try rule-based assignment if no specific agent is provided
       if (!agentId) {
         try {
-          const ruleResult = await assignmentRulesService.evaluateTicket({
+          ruleResult = await assignmentRulesService.evaluateTicket({
             id: ticket.id,
             title: ticket.title,
             description: ticket.description,
@@ -355,12 +407,16 @@ class AssignmentService {
             created_at: ticket.created_at,
           });
 
-          if (ruleResult.success && ruleResult.assignedAgent) {
+          if (ruleResult.success && ruleResult.queueId && !ruleResult.assignedAgent) {
+            // Rule parked the ticket in a queue; whoever pulls it next gets it
+            return await this.queueTicket(ticketId, ruleResult);
+          } else if (ruleResult.success && ruleResult.assignedAgent) {
             // Rule-based assignment succeeded
             const agents = await this.getAvailableAgents();
             const ruleAgent = agents.find(a => a.id === ruleResult.assignedAgent);
             
             if (ruleAgent && ruleAgent.currentWorkload < ruleAgent.maxConcurrentTickets) {
+              method = 'rule';
               assignmentResult = {
                 success: true,
                 assignedAgent: ruleAgent,
@@ -401,8 +457,8 @@ class AssignmentService {
           });
         }
       } else {
-        // Manual assignment - validate agent availability
-        const agents = await this.getAvailableAgents();
+        // Manual assignment - offline agents are fine, absent ones are not
+        const agents = await this.getAvailableAgents({ includeOffline: true });
         const targetAgent = agents.find(a => a.id === agentId);
 
         if (!targetAgent) {
@@ -413,6 +469,14 @@ class AssignmentService {
           };
         }
 
+        if (targetAgent.outOfOffice) {
+          return {
+            success: false,
+            reason: 'Selected agent is out of office',
+            confidence: 0,
+          };
+        }
+
         if (targetAgent.currentWorkload >= targetAgent.maxConcurrentTickets) {
           return {
             success: false,
@@ -433,18 +497,30 @@ class AssignmentService {
         return assignmentResult;
       }
 
-      // Update ticket assignment
-      const { error: updateError } = await supabase
+      // Update ticket assignment; team rules also file the ticket in the team queue
+      const { error: updateError } = await db
         .from('tickets_new')
         .update({
           assigned_to: assignmentResult.assignedAgent!.id,
           status: 'in_progress',
           updated_at: new Date().toISOString(),
+          ...(method === 'rule' && ruleResult?.queueId ? { queue_id: ruleResult.queueId } : {}),
         })
         .eq('id', ticketId);
 
       if (updateError) throw updateError;
 
+      const appliedRule = method === 'rule' ? ruleResult?.appliedRule : undefined;
+      await assignmentRulesService.recordAssignment({
+        ticketId,
+        assignedTo: assignmentResult.assignedAgent!.id,
+        method,
+        rule: appliedRule,
+        matchedConditions: ruleResult?.matchedRules.find(match => match.rule.id === appliedRule?.id)?.matchedConditions,
+        reason: assignmentResult.reason,
+        confidence: assignmentResult.confidence,
+      });
+
       // Create notification for assigned agent
       await NotificationService.createNotification({
         user_id: assignmentResult.assignedAgent!.id,
@@ -467,30 +543,49 @@ class AssignmentService {
   }
 
   /**
-   * Rebalance workload across agents
+   * Put a ticket in the queue chosen by a rule, leaving it unassigned
    */
-  async rebalanceWorkload(): Promise<{
+  private async queueTicket(ticketId: string, ruleResult: RuleBasedAssignmentResult): Promise<AssignmentResult> {
+    const { error } = await db
+      .from('tickets_new')
+      .update({
+        queue_id: ruleResult.queueId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', ticketId);
+
+    if (error) throw error;
+
+    await assignmentRulesService.recordAssignment({
+      ticketId,
+      assignedTo: null,
+      method: 'rule',
+      rule: ruleResult.appliedRule,
+      matchedConditions: ruleResult.matchedRules.find(match => match.rule.id === ruleResult.appliedRule?.id)?.matchedConditions,
+      reason: ruleResult.reason,
+      confidence: ruleResult.confidence,
+    });
+
+    return {
+      success: true,
+      queueId: ruleResult.queueId,
+      reason: `Rule-based routing: ${ruleResult.reason}`,
+      confidence: ruleResult.confidence,
+    };
+  }
+
+  /**
+   * Rebalance workload across agents: plan and apply in one step
+   */
+  async rebalanceWorkload(options: RebalanceOptions = {}): Promise<{
     success: boolean;
     reassignments: number;
     message: string;
   }> {
     try {
-      const agents = await this.getAvailableAgents();
-      
-      if (agents.length < 2) {
-        return {
-          success: false,
-          reassignments: 0,
-          message: 'Need at least 2 agents for rebalancing',
-        };
-      }
+      const plan = await this.previewRebalance(options);
 
-      // Find overloaded and underloaded agents
-      const averageWorkload = agents.reduce((sum, agent) => sum + agent.currentWorkload, 0) / agents.length;
-      const overloadedAgents = agents.filter(agent => agent.currentWorkload > averageWorkload + 2);
-      const underloadedAgents = agents.filter(agent => agent.currentWorkload < averageWorkload - 1);
-
-      if (overloadedAgents.length === 0 || underloadedAgents.length === 0) {
+      if (plan.moves.length === 0) {
         return {
           success: true,
           reassignments: 0,
@@ -498,60 +593,12 @@ class AssignmentService {
         };
       }
 
-      let reassignments = 0;
-
-      // Reassign tickets from overloaded to underloaded agents
-      for (const overloadedAgent of overloadedAgents) {
-        // Get their lowest priority open tickets
-        const { data: tickets, error } = await supabase
-          .from('tickets_new')
-          .select('id, priority, created_at')
-          .eq('assigned_to', overloadedAgent.id)
-          .in('status', ['open', 'pending'])
-          .order('priority', { ascending: true })
-          .order('created_at', { ascending: false })
-          .limit(2);
-
-        if (error || !tickets || tickets.length === 0) continue;
-
-        for (const ticket of tickets) {
-          const targetAgent = underloadedAgents.find(agent => 
-            agent.currentWorkload < agent.maxConcurrentTickets - 1
-          );
-
-          if (!targetAgent) break;
-
-          // Reassign ticket
-          const { error: updateError } = await supabase
-            .from('tickets_new')
-            .update({
-              assigned_to: targetAgent.id,
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', ticket.id);
-
-          if (!updateError) {
-            reassignments++;
-            targetAgent.currentWorkload++;
-            overloadedAgent.currentWorkload--;
-
-            // Notify both agents
-            await NotificationService.createNotification({
-              user_id: targetAgent.id,
-              type: 'assignment_changed',
-              title: 'Ticket Reassigned to You',
-              message: `Ticket has been reassigned to you for workload balancing`,
-              ticket_id: ticket.id,
-              priority: 'medium',
-            });
-          }
-        }
-      }
+      const result = await this.applyRebalance(plan.moves);
 
       return {
         success: true,
-        reassignments,
-        message: `Successfully rebalanced ${reassignments} tickets`,
+        reassignments: result.applied,
+        message: `Successfully rebalanced ${result.applied} tickets`,
       };
     } catch (error) {
       console.error('Error rebalancing workload:', error);
@@ -563,6 +610,202 @@ class AssignmentService {
     }
   }
 
+  /**
+   * Propose ticket moves without changing anything
+   */
+  async previewRebalance(options: RebalanceOptions = {}): Promise<RebalancePlan> {
+    const agents = await this.getAvailableAgents({ includeOffline: true });
+    const { sources } = findRebalanceSources(agents, options);
+
+    if (sources.length === 0) {
+      return buildRebalancePlan(agents, [], options);
+    }
+
+    const { data: tickets, error } = await supabase
+      .from('tickets_new')
+      .select('id, ticket_number, title, priority, status, category_id, user_id, assigned_to, created_at, resolved_at, closed_at')
+      .in('assigned_to', sources.map(source => source.agent.id))
+      .in('status', ['open', 'pending']);
+
+    if (error) {
+      console.error('Error loading tickets for rebalancing:', error);
+      throw error;
+    }
+
+    // Same SLA calculation as the ticket views, a few tickets at a time
+    const candidates: RebalanceCandidate[] = [];
+    for (let i = 0; i < (tickets || []).length; i += SLA_BATCH_SIZE) {
+      const batch = tickets!.slice(i, i + SLA_BATCH_SIZE);
+      const statuses = await Promise.all(batch.map(ticket => DatabaseService.calculateTicketSLAStatus(ticket)));
+
+      batch.forEach((ticket, index) => {
+        candidates.push({
+          id: ticket.id,
+          ticket_number: ticket.ticket_number,
+          title: ticket.title,
+          priority: ticket.priority,
+          category_id: ticket.category_id,
+          user_id: ticket.user_id,
+          assigned_to: ticket.assigned_to!,
+          created_at: ticket.created_at,
+          ...this.getSLAUrgency(statuses[index]),
+        });
+      });
+    }
+
+    return buildRebalancePlan(agents, candidates, options);
+  }
+
+  /**
+   * Apply approved moves as one undoable batch and notify everyone involved.
+   * Tickets that changed since the plan was made are skipped.
+   */
+  async applyRebalance(moves: RebalanceMove[]): Promise<{ batchId: string; applied: number; skipped: number }> {
+    const { data: batchId, error } = await db.rpc('apply_workload_rebalance', {
+      p_moves: moves.map(move => ({
+        ticket_id: move.ticketId,
+        from_agent_id: move.fromAgentId,
+        to_agent_id: move.toAgentId,
+        reason: move.reason,
+      })),
+    });
+
+    if (error) {
+      console.error('Error applying workload rebalance:', error);
+      throw error;
+    }
+
+    const { data: applied, error: movesError } = await db
+      .from('workload_rebalance_moves')
+      .select('ticket_id')
+      .eq('batch_id', batchId)
+      .eq('status', 'applied');
+
+    if (movesError) {
+      console.error('Error loading applied rebalance moves:', movesError);
+      throw movesError;
+    }
+
+    const appliedIds = new Set((applied || []).map((move: { ticket_id: string }) => move.ticket_id));
+    const appliedMoves = moves.filter(move => appliedIds.has(move.ticketId));
+    await Promise.all(appliedMoves.map(move => this.notifyRebalanceMove(move, 'rebalanced')));
+
+    return { batchId, applied: appliedMoves.length, skipped: moves.length - appliedMoves.length };
+  }
+
+  /**
+   * Give the tickets of a rebalance back to their original agents. Tickets
+   * reassigned or closed since then are left alone.
+   */
+  async undoRebalance(batchId: string): Promise<number> {
+    const { data: undone, error } = await db.rpc('undo_workload_rebalance', { p_batch_id: batchId });
+
+    if (error) {
+      console.error('Error undoing workload rebalance:', error);
+      throw error;
+    }
+
+    const { data: moves } = await db
+      .from('workload_rebalance_moves')
+      .select(`
+        ticket_id, from_agent_id, to_agent_id,
+        ticket:tickets_new(title, ticket_number, user_id),
+        from_agent:users!workload_rebalance_moves_from_agent_id_fkey(full_name, email),
+        to_agent:users!workload_rebalance_moves_to_agent_id_fkey(full_name, email)
+      `)
+      .eq('batch_id', batchId)
+      .eq('status', 'undone');
+
+    await Promise.all((moves || []).map((move: any) => this.notifyRebalanceMove({
+      ticketId: move.ticket_id,
+      ticketNumber: move.ticket?.ticket_number,
+      ticketTitle: move.ticket?.title || '',
+      requesterId: move.ticket?.user_id,
+      fromAgentId: move.from_agent_id,
+      fromAgentName: move.from_agent?.full_name || move.from_agent?.email || '',
+      toAgentId: move.to_agent_id,
+      toAgentName: move.to_agent?.full_name || move.to_agent?.email || '',
+    }, 'rebalanceUndone')));
+
+    return undone || 0;
+  }
+
+  /**
+   * Recent rebalances with their moves, newest first
+   */
+  async getRebalanceBatches(limit = 10): Promise<RebalanceBatch[]> {
+    const { data, error } = await db
+      .from('workload_rebalance_batches')
+      .select(`
+        *,
+        creator:users!workload_rebalance_batches_created_by_fkey(full_name, email),
+        moves:workload_rebalance_moves(
+          id, ticket_id, from_agent_id, to_agent_id, reason, status,
+          ticket:tickets_new(title, ticket_number),
+          from_agent:users!workload_rebalance_moves_from_agent_id_fkey(full_name, email),
+          to_agent:users!workload_rebalance_moves_to_agent_id_fkey(full_name, email)
+        )
+      `)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching rebalance history:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Tell the requester and both agents that a ticket changed hands
+   */
+  private async notifyRebalanceMove(
+    move: Pick<RebalanceMove, 'ticketId' | 'ticketNumber' | 'ticketTitle' | 'requesterId' | 'fromAgentId' | 'fromAgentName' | 'toAgentId' | 'toAgentName'>,
+    kind: 'rebalanced' | 'rebalanceUndone'
+  ): Promise<void> {
+    const recipients = [...new Set([move.requesterId, move.fromAgentId, move.toAgentId].filter(Boolean))];
+    const params = {
+      ticketNumber: move.ticketNumber || '#' + move.ticketId.slice(-8),
+      ticketTitle: move.ticketTitle,
+      fromAgent: move.fromAgentName,
+      toAgent: move.toAgentName,
+    };
+
+    const { error } = await supabase
+      .from('notifications')
+      .insert(recipients.map(userId => ({
+        user_id: userId,
+        type: 'assignment_changed' as const,
+        title: JSON.stringify({ key: `notifications.types.assignment_changed.${kind}.title`, params }),
+        message: JSON.stringify({ key: `notifications.types.assignment_changed.${kind}.message`, params }),
+        ticket_id: move.ticketId,
+        priority: 'medium' as const,
+        read: false,
+      })));
+
+    if (error) {
+      console.error('Error creating rebalance notifications:', error);
+    }
+  }
+
+  /**
+   * Collapse response and resolution SLA into how urgently a ticket needs an agent
+   */
+  private getSLAUrgency(status: SLAStatus): { slaUrgency: SLAUrgency; slaDeadline: Date | null } {
+    const states = [status.responseStatus, status.resolutionStatus];
+    const slaUrgency: SLAUrgency = states.includes('overdue') ? 'overdue' : states.includes('warning') ? 'warning' : 'ok';
+    const deadlines = [
+      status.responseStatus !== 'met' ? status.responseDeadline : null,
+      status.resolutionDeadline,
+    ].filter((deadline): deadline is Date => !!deadline);
+
+    return {
+      slaUrgency,
+      slaDeadline: deadlines.length > 0 ? new Date(Math.min(...deadlines.map(d => d.getTime()))) : null,
+    };
+  }
+
   /**
    * Calculate workload score (higher is better - less workload)
    */
@@ -846,8 +1089,20 @@ class AssignmentService {
         };
       }
 
+      // Only agents working right now can take new tickets
+      const onShiftAgents = availableAgents.filter(agent => isOnDuty(agent));
+
+      if (onShiftAgents.length === 0) {
+        return {
+          success: false,
+          reason: 'No agents are on shift',
+          confidence: 0,
+          alternativeAgents: availableAgents.slice(0, 3),
+        };
+      }
+
       // Filter out agents at capacity
-      const availableCapacityAgents = availableAgents.filter(
+      const availableCapacityAgents = onShiftAgents.filter(
         agent => agent.currentWorkload < agent.maxConcurrentTickets
       );
 
@@ -856,7 +1111,7 @@ class AssignmentService {
           success: false,
           reason: 'All agents are at capacity',
           confidence: 0,
-          alternativeAgents: availableAgents.slice(0, 3),
+          alternativeAgents: onShiftAgents.slice(0, 3),
         };
       }
 
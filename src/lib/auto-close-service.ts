@@ -1,22 +1,23 @@
 import { supabase } from './supabase';
+import { ScheduledJobService } from './scheduledJobService';
 
 export class AutoCloseService {
   /**
-   * Executa o processo de fechamento automático de tickets resolved há mais de 2 dias
+   * Executa agora o job agendado de fechamento automático no servidor.
+   * A execução periódica é feita pelo job 'auto_close' (run-scheduled-jobs).
    */
   static async processAutoClose(): Promise<{ success: boolean; closedCount: number; error?: string }> {
     try {
       console.log('🔄 Iniciando processo de fechamento automático...');
       
-      // Chamar a função SQL que processa os agendamentos
-      const { data, error } = await supabase.rpc('process_auto_close_schedule');
+      const outcome = await ScheduledJobService.runNow('auto_close');
       
-      if (error) {
-        console.error('❌ Erro ao processar fechamento automático:', error);
-        return { success: false, closedCount: 0, error: error.message };
+      if (outcome.status === 'failed') {
+        console.error('❌ Erro ao processar fechamento automático:', outcome.error);
+        return { success: false, closedCount: 0, error: outcome.error };
       }
       
-      const closedCount = data || 0;
+      const closedCount = outcome.result?.closed || 0;
       console.log(`✅ Processo concluído. ${closedCount} tickets fechados automaticamente.`);
       
       return { success: true, closedCount };
@@ -112,25 +113,4 @@ export class AutoCloseService {
       return false;
     }
   }
-
-  /**
-   * Inicia um processo periódico de verificação (para desenvolvimento/teste)
-   * Em produção, isso seria feito via cron job ou similar
-   */
-  static startPeriodicCheck(intervalMinutes: number = 60): NodeJS.Timeout {
-    console.log(`🕐 Iniciando verificação periódica a cada ${intervalMinutes} minutos`);
-    
-    return setInterval(async () => {
-      console.log('🔍 Executando verificação periódica de fechamento automático...');
-      await this.processAutoClose();
-    }, intervalMinutes * 60 * 1000);
-  }
-
-  /**
-   * Para o processo periódico de verificação
-   */
-  static stopPeriodicCheck(intervalId: NodeJS.Timeout): void {
-    clearInterval(intervalId);
-    console.log('⏹️ Verificação periódica interrompida');
-  }
-} 
\ No newline at end of file
+}
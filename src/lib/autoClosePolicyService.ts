@@ -0,0 +1,140 @@
+import { supabase } from './supabase';
+import { ReopenService, type ReopenRequest } from './reopen-service';
+import {
+  getAutoCloseSchedule,
+  matchAutoClosePolicy,
+  type AutoClosePolicy as SharedAutoClosePolicy,
+} from '../../supabase/functions/_shared/autoClose.ts';
+
+export { getAutoCloseSchedule, matchAutoClosePolicy } from '../../supabase/functions/_shared/autoClose.ts';
+
+// Auto-close policy tables are not part of the generated client types
+const db = supabase as any;
+
+/**
+ * Auto-close policies per category and subcategory. The auto_close scheduled
+ * job reminds requesters `reminder_days_before` days ahead and closes resolved
+ * tickets after `inactivity_days` without activity; "still not fixed" on the
+ * reminder files a regular reopen request.
+ */
+
+export interface AutoClosePolicy extends SharedAutoClosePolicy {
+  created_at?: string;
+  updated_at?: string;
+  category?: { id: string; name: string } | null;
+  subcategory?: { id: string; name: string } | null;
+}
+
+export type AutoClosePolicyDraft = Omit<AutoClosePolicy, 'id' | 'category' | 'subcategory'> & { id?: string };
+
+export interface TicketAutoClose {
+  policy: AutoClosePolicy;
+  remindAt: Date | null;
+  closeAt: Date;
+}
+
+export const STILL_NOT_FIXED_REASON = 'Still not fixed (answered the auto-close reminder)';
+
+export class AutoClosePolicyService {
+  static async getPolicies(): Promise<AutoClosePolicy[]> {
+    const { data, error } = await db
+      .from('auto_close_policies')
+      .select('*, category:categories(id, name), subcategory:subcategories(id, name)')
+      .order('inactivity_days');
+
+    if (error) {
+      console.error('Error fetching auto-close policies:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  static validatePolicy(policy: AutoClosePolicyDraft): string | null {
+    if (!policy.name.trim()) return 'Policy name is required';
+    if (!(policy.inactivity_days > 0)) return 'Inactivity window must be at least one day';
+    if (policy.reminder_days_before < 0 || policy.reminder_days_before >= policy.inactivity_days) {
+      return 'The reminder must go out within the inactivity window';
+    }
+    if (policy.subcategory_id && !policy.category_id) return 'Pick the category of the subcategory';
+    return null;
+  }
+
+  static async savePolicy(policy: AutoClosePolicyDraft): Promise<AutoClosePolicy> {
+    const validationError = this.validatePolicy(policy);
+    if (validationError) throw new Error(validationError);
+
+    const { id, created_at, updated_at, ...fields } = policy;
+    const row = {
+      ...fields,
+      name: fields.name.trim(),
+      category_id: fields.category_id || null,
+      subcategory_id: fields.subcategory_id || null,
+      updated_at: new Date().toISOString()
+    };
+
+    const query = id
+      ? db.from('auto_close_policies').update(row).eq('id', id)
+      : db.from('auto_close_policies').insert({ ...row, created_by: (await supabase.auth.getUser()).data.user?.id ?? null });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      console.error('Error saving auto-close policy:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async deletePolicy(policyId: string): Promise<void> {
+    const { error } = await db
+      .from('auto_close_policies')
+      .delete()
+      .eq('id', policyId);
+
+    if (error) {
+      console.error('Error deleting auto-close policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * When a resolved ticket will be closed automatically, or null if it will not
+   */
+  static async getTicketSchedule(ticket: {
+    id: string;
+    status: string;
+    category_id?: string | null;
+    subcategory_id?: string | null;
+    resolved_at?: string | null;
+    auto_close_reminded_at?: string | null;
+  }): Promise<TicketAutoClose | null> {
+    if (ticket.status !== 'resolved' || !ticket.resolved_at) return null;
+
+    const policy = matchAutoClosePolicy(await this.getPolicies(), ticket);
+    if (!policy) return null;
+
+    const { data: comments } = await db
+      .from('ticket_comments_new')
+      .select('created_at')
+      .eq('ticket_id', ticket.id)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    const resolvedAt = new Date(ticket.resolved_at);
+    const commentedAt = comments?.[0] ? new Date(comments[0].created_at) : null;
+    const lastActivityAt = commentedAt && commentedAt > resolvedAt ? commentedAt : resolvedAt;
+    const remindedAt = ticket.auto_close_reminded_at ? new Date(ticket.auto_close_reminded_at) : null;
+
+    return { policy, ...getAutoCloseSchedule(policy, lastActivityAt, remindedAt) };
+  }
+
+  /**
+   * The requester's "still not fixed" answer to the reminder: a reopen request
+   * for the agents to review, which also keeps the ticket from closing
+   */
+  static async stillNotFixed(ticketId: string, userId: string): Promise<ReopenRequest> {
+    return ReopenService.createReopenRequest(ticketId, userId, STILL_NOT_FIXED_REASON);
+  }
+}
@@ -0,0 +1,372 @@
+import { supabase } from '@/lib/supabase';
+import { DatabaseService, type TicketWithDetails } from './database';
+import { renderTemplateString } from '../../supabase/functions/_shared/emailTemplates.ts';
+
+// Canned response and macro tables are not part of the generated client types
+const db = supabase as any;
+
+export type TicketStatusValue = 'open' | 'in_progress' | 'pending' | 'resolved' | 'closed';
+export type TicketPriorityValue = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface CannedResponse {
+  id: string;
+  title: string;
+  shortcut: string;
+  content: string;
+  is_shared: boolean;
+  usage_count: number;
+  created_by: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Field changes of a macro; a missing key leaves the field alone.
+ * assigned_to is a user id, 'me' for whoever runs the macro, or null to unassign.
+ */
+export interface MacroActions {
+  status?: TicketStatusValue;
+  priority?: TicketPriorityValue;
+  assigned_to?: string | null;
+  add_tag_ids?: string[];
+  remove_tag_ids?: string[];
+}
+
+export interface TicketMacro {
+  id: string;
+  name: string;
+  shortcut: string;
+  description?: string | null;
+  reply_content?: string | null;
+  reply_is_internal: boolean;
+  actions: MacroActions;
+  is_shared: boolean;
+  usage_count: number;
+  created_by: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * One entry of the slash-command picker
+ */
+export type SnippetOption =
+  | { kind: 'response'; item: CannedResponse }
+  | { kind: 'macro'; item: TicketMacro };
+
+export const SNIPPET_PLACEHOLDERS = [
+  'requesterName',
+  'requesterFirstName',
+  'ticketNumber',
+  'ticketTitle',
+  'category',
+  'agentName'
+] as const;
+
+const SHORTCUT_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const PICKER_LIMIT = 8;
+
+/**
+ * Placeholder values for a ticket, as seen by the agent answering it
+ */
+export function snippetVariables(
+  ticket: Pick<TicketWithDetails, 'ticket_number' | 'title' | 'user' | 'category'>,
+  agent?: { full_name?: string | null } | null
+): Record<string, string | null> {
+  const requesterName = ticket.user?.name || ticket.user?.email || null;
+  return {
+    requesterName,
+    requesterFirstName: requesterName ? requesterName.split(/[\s@]/)[0] : null,
+    ticketNumber: ticket.ticket_number || null,
+    ticketTitle: ticket.title || null,
+    category: ticket.category?.name || null,
+    agentName: agent?.full_name || null
+  };
+}
+
+/**
+ * Fills {{placeholders}} with the same syntax as email templates
+ * ({{#name}}...{{/name}} keeps text only when the value is known)
+ */
+export function fillSnippet(content: string, variables: Record<string, string | null>): string {
+  return renderTemplateString(content, variables);
+}
+
+export function findUnknownPlaceholders(content: string): string[] {
+  const known = new Set<string>(SNIPPET_PLACEHOLDERS);
+  const used = new Set<string>();
+  for (const match of content.matchAll(/\{\{\s*[#^/]?\s*(\w+)\s*\}\}/g)) used.add(match[1]);
+  return Array.from(used).filter(name => !known.has(name));
+}
+
+/**
+ * The slash command being typed at the caret: a "/" at the start of the text
+ * or after whitespace, followed by the query typed so far
+ */
+export function slashQueryAt(text: string, caret: number): { query: string; start: number } | null {
+  const before = text.slice(0, caret);
+  const match = before.match(/(^|\s)\/([\w-]*)$/);
+  if (!match) return null;
+  return { query: match[2].toLowerCase(), start: caret - match[2].length - 1 };
+}
+
+/**
+ * Replaces the slash command at the caret with the inserted text; returns the
+ * new text and where the caret goes
+ */
+export function replaceSlashCommand(text: string, start: number, caret: number, insert: string): { text: string; caret: number } {
+  return {
+    text: text.slice(0, start) + insert + text.slice(caret),
+    caret: start + insert.length
+  };
+}
+
+const optionLabel = (option: SnippetOption) => (option.kind === 'response' ? option.item.title : option.item.name);
+const optionBody = (option: SnippetOption) =>
+  option.kind === 'response' ? option.item.content : option.item.reply_content || option.item.description || '';
+
+/**
+ * Picker matches, best first: exact shortcut, shortcut prefix, title prefix,
+ * title or shortcut containing the query, then body text; ties go to the most
+ * used. An empty query lists the most used entries.
+ */
+export function searchSnippets(options: SnippetOption[], query: string, limit = PICKER_LIMIT): SnippetOption[] {
+  const q = query.trim().toLowerCase();
+
+  const rank = (option: SnippetOption): number => {
+    if (!q) return 5;
+    const shortcut = option.item.shortcut.toLowerCase();
+    const label = optionLabel(option).toLowerCase();
+    if (shortcut === q) return 0;
+    if (shortcut.startsWith(q)) return 1;
+    if (label.startsWith(q)) return 2;
+    if (shortcut.includes(q) || label.includes(q)) return 3;
+    if (optionBody(option).toLowerCase().includes(q)) return 4;
+    return -1;
+  };
+
+  return options
+    .map(option => ({ option, rank: rank(option) }))
+    .filter(entry => entry.rank >= 0)
+    .sort((a, b) =>
+      a.rank - b.rank ||
+      b.option.item.usage_count - a.option.item.usage_count ||
+      optionLabel(a.option).localeCompare(optionLabel(b.option))
+    )
+    .slice(0, limit)
+    .map(entry => entry.option);
+}
+
+/**
+ * The ticket columns a macro changes, leaving out what already has that value
+ */
+export function macroTicketUpdates(
+  ticket: { status?: string | null; priority?: string | null; assigned_to?: string | null },
+  actions: MacroActions,
+  agentId: string
+): { status?: TicketStatusValue; priority?: TicketPriorityValue; assigned_to?: string | null } {
+  const updates: { status?: TicketStatusValue; priority?: TicketPriorityValue; assigned_to?: string | null } = {};
+
+  if (actions.status && actions.status !== ticket.status) updates.status = actions.status;
+  if (actions.priority && actions.priority !== ticket.priority) updates.priority = actions.priority;
+  if (actions.assigned_to !== undefined) {
+    const assignee = actions.assigned_to === 'me' ? agentId : actions.assigned_to;
+    if (assignee !== (ticket.assigned_to ?? null)) updates.assigned_to = assignee;
+  }
+
+  return updates;
+}
+
+export function validateSnippet(entry: { title: string; shortcut: string; content: string }): string | null {
+  if (!entry.title.trim()) return 'Title is required';
+  if (!SHORTCUT_PATTERN.test(entry.shortcut)) return 'Shortcut may only use lowercase letters, digits, "-" and "_"';
+  if (!entry.content.trim()) return 'Content is required';
+
+  const unknown = findUnknownPlaceholders(entry.content);
+  if (unknown.length > 0) return `Unknown placeholders: ${unknown.join(', ')}`;
+  return null;
+}
+
+export function validateMacro(macro: Pick<TicketMacro, 'name' | 'shortcut' | 'reply_content' | 'actions'>): string | null {
+  if (!macro.name.trim()) return 'Name is required';
+  if (!SHORTCUT_PATTERN.test(macro.shortcut)) return 'Shortcut may only use lowercase letters, digits, "-" and "_"';
+
+  const { status, priority, assigned_to, add_tag_ids = [], remove_tag_ids = [] } = macro.actions;
+  const changesTicket = !!status || !!priority || assigned_to !== undefined || add_tag_ids.length > 0 || remove_tag_ids.length > 0;
+  if (!macro.reply_content?.trim() && !changesTicket) return 'A macro needs a reply or at least one change';
+  if (status === 'resolved' && !macro.reply_content?.trim()) return 'Macros that resolve a ticket need a reply, used as the resolution';
+
+  const unknown = findUnknownPlaceholders(macro.reply_content || '');
+  if (unknown.length > 0) return `Unknown placeholders: ${unknown.join(', ')}`;
+  return null;
+}
+
+class CannedResponseService {
+  /**
+   * Shared entries and the current agent's own (row level security filters)
+   */
+  async getResponses(): Promise<CannedResponse[]> {
+    const { data, error } = await db
+      .from('canned_responses')
+      .select('*')
+      .order('title');
+
+    if (error) {
+      console.error('Error fetching canned responses:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async saveResponse(
+    response: Pick<CannedResponse, 'title' | 'shortcut' | 'content' | 'is_shared'> & { id?: string }
+  ): Promise<CannedResponse> {
+    const validationError = validateSnippet(response);
+    if (validationError) throw new Error(validationError);
+
+    const row = {
+      title: response.title.trim(),
+      shortcut: response.shortcut,
+      content: response.content,
+      is_shared: response.is_shared,
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = response.id
+      ? await db.from('canned_responses').update(row).eq('id', response.id).select().single()
+      : await db
+          .from('canned_responses')
+          .insert({ ...row, created_by: (await supabase.auth.getUser()).data.user?.id ?? null })
+          .select()
+          .single();
+
+    if (error) {
+      console.error('Error saving canned response:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async deleteResponse(id: string): Promise<void> {
+    const { error } = await db.from('canned_responses').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting canned response:', error);
+      throw error;
+    }
+  }
+
+  async getMacros(): Promise<TicketMacro[]> {
+    const { data, error } = await db
+      .from('ticket_macros')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching macros:', error);
+      throw error;
+    }
+
+    return (data || []).map((macro: TicketMacro) => ({ ...macro, actions: macro.actions || {} }));
+  }
+
+  async saveMacro(
+    macro: Pick<TicketMacro, 'name' | 'shortcut' | 'description' | 'reply_content' | 'reply_is_internal' | 'actions' | 'is_shared'> & { id?: string }
+  ): Promise<TicketMacro> {
+    const validationError = validateMacro(macro);
+    if (validationError) throw new Error(validationError);
+
+    const row = {
+      name: macro.name.trim(),
+      shortcut: macro.shortcut,
+      description: macro.description?.trim() || null,
+      reply_content: macro.reply_content?.trim() ? macro.reply_content : null,
+      reply_is_internal: macro.reply_is_internal,
+      actions: macro.actions,
+      is_shared: macro.is_shared,
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = macro.id
+      ? await db.from('ticket_macros').update(row).eq('id', macro.id).select().single()
+      : await db
+          .from('ticket_macros')
+          .insert({ ...row, created_by: (await supabase.auth.getUser()).data.user?.id ?? null })
+          .select()
+          .single();
+
+    if (error) {
+      console.error('Error saving macro:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async deleteMacro(id: string): Promise<void> {
+    const { error } = await db.from('ticket_macros').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting macro:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Everything the current agent can pick from the response box
+   */
+  async getPickerOptions(): Promise<SnippetOption[]> {
+    const [responses, macros] = await Promise.all([this.getResponses(), this.getMacros()]);
+    return [
+      ...responses.map(item => ({ kind: 'response' as const, item })),
+      ...macros.map(item => ({ kind: 'macro' as const, item }))
+    ];
+  }
+
+  async recordUse(option: SnippetOption): Promise<void> {
+    const { error } = await db.rpc('record_snippet_use', { p_kind: option.kind, p_id: option.item.id });
+    if (error) console.warn('⚠️ Could not record snippet use (non-blocking):', error);
+  }
+
+  /**
+   * Posts the reply (already edited by the agent, if they did) and applies the
+   * macro's field changes. Resolving goes through resolveTicket with the reply
+   * as resolution, so the requester gets the usual resolution flow.
+   */
+  async applyMacro(
+    ticket: Pick<TicketWithDetails, 'id' | 'status' | 'priority' | 'assigned_to'>,
+    macro: TicketMacro,
+    options: { agentId: string; reply?: string; isInternal?: boolean }
+  ): Promise<void> {
+    const reply = options.reply?.trim() || '';
+    const isInternal = options.isInternal ?? macro.reply_is_internal;
+
+    if (reply) {
+      await DatabaseService.addTicketComment(ticket.id, options.agentId, reply, isInternal);
+    }
+
+    const { status, ...updates } = macroTicketUpdates(ticket, macro.actions, options.agentId);
+    if (status && status !== 'resolved') Object.assign(updates, { status });
+
+    if (Object.keys(updates).length > 0) {
+      await DatabaseService.updateTicket(ticket.id, updates);
+    }
+
+    for (const tagId of macro.actions.add_tag_ids || []) {
+      await DatabaseService.addTagToTicket(ticket.id, tagId, options.agentId);
+    }
+    for (const tagId of macro.actions.remove_tag_ids || []) {
+      await DatabaseService.removeTagFromTicket(ticket.id, tagId);
+    }
+
+    if (status === 'resolved') {
+      await DatabaseService.resolveTicket(ticket.id, reply || macro.name, options.agentId);
+    }
+
+    await this.recordUse({ kind: 'macro', item: macro });
+  }
+}
+
+export const cannedResponseService = new CannedResponseService();
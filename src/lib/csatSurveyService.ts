@@ -0,0 +1,42 @@
+import { supabase } from './supabase';
+import type { SurveyAnswer } from '../../supabase/functions/_shared/csatSurvey.ts';
+
+export { npsCategory, validateSurveyAnswer, type SurveyAnswer } from '../../supabase/functions/_shared/csatSurvey.ts';
+
+/**
+ * Satisfaction surveys answered through the signed links emailed on
+ * resolution. The recipient is not signed in: the csat-survey edge function
+ * checks the link and stores the answer as ticket feedback.
+ */
+
+export type SurveyStatus = 'open' | 'answered' | 'expired' | 'invalid';
+
+export interface PublicSurvey {
+  status: SurveyStatus;
+  ticketNumber?: string | null;
+  ticketTitle?: string | null;
+  agentName?: string | null;
+  expiresAt?: string;
+}
+
+export class CsatSurveyService {
+  private static async call(body: Record<string, unknown>): Promise<PublicSurvey> {
+    const { data, error } = await supabase.functions.invoke('csat-survey', { body });
+
+    if (error) {
+      console.error('Error calling survey function:', error);
+      throw new Error(`Failed to reach the survey: ${error.message || error}`);
+    }
+    if (data?.error) throw new Error(data.error);
+
+    return data as PublicSurvey;
+  }
+
+  static async loadSurvey(token: string): Promise<PublicSurvey> {
+    return this.call({ token, action: 'load' });
+  }
+
+  static async submitSurvey(token: string, answer: SurveyAnswer): Promise<PublicSurvey> {
+    return this.call({ token, action: 'submit', answer });
+  }
+}
@@ -1,6 +1,15 @@
 import { supabase } from '@/lib/supabase';
 import type { Tables } from '@/integrations/supabase/types';
 import { NotificationService } from './notificationService';
+import { BusinessCalendarService } from './businessCalendarService';
+import { SLAClockEvent, SLAClockService } from './slaClockService';
+import { evaluateSLA } from '../../supabase/functions/_shared/slaStatus.ts';
+import { canAddComment as commentAllowed } from '../../supabase/functions/_shared/ticketComments.ts';
+import { DUPLICATE_WINDOW_DAYS, rankDuplicateCandidates, type DuplicateCandidate } from './ticketDuplicates';
+import { ticketWatcherService } from './ticketWatcherService';
+import { EmailService } from './emailService';
+import { preferencesManager } from './notifications/PreferencesManager';
+import { parseTicketQuery, ticketSearchService, type TicketSearchResult } from './ticketSearchService';
 
 export type TicketPriority = 'low' | 'medium' | 'high' | 'urgent';
 export type TicketStatus = 'open' | 'pending' | 'in_progress' | 'resolved' | 'closed';
@@ -14,6 +23,9 @@ type NotificationRow = Tables<'notifications'>;
 // Type assertion to bypass TypeScript issues with generated types
 const db = supabase as any;
 
+// Notification types that also reach a ticket's watchers and CC addresses
+const WATCHED_NOTIFICATION_TYPES = ['status_changed', 'resolved', 'closed', 'comment_added'];
+
 // Basic types for our database entities
 export interface User {
   id: string;
@@ -84,6 +96,9 @@ export interface Ticket {
   closed_at?: string;
   closed_by?: string;
   country?: string;
+  team_id?: string | null;
+  queue_id?: string | null;
+  merged_into_id?: string | null;
   // Employee onboarding specific fields
   first_name?: string;
   last_name?: string;
@@ -137,6 +152,17 @@ export interface TicketAttachment {
   uploaded_at?: string | null;
 }
 
+export interface TicketTag {
+  id: string;
+  name: string;
+  color: string;
+  description?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  usage_count?: number;
+}
+
 export interface KnowledgeArticle {
   id: string;
   title: string;
@@ -227,6 +253,13 @@ export interface SLAStatus {
   firstResponseAt: Date | null;
   slaRule: SLARule;
   isActive: boolean;
+  calendarId?: string | null;
+  calendarName?: string | null;
+  responseDeadline?: Date | null;
+  resolutionDeadline?: Date | null;
+  isPaused?: boolean;
+  pausedTime?: number;
+  clockEvents?: SLAClockEvent[];
 }
 
 export interface TicketTask {
@@ -293,6 +326,9 @@ export interface TicketFeedback {
   comment?: string | null;
   categories?: string[] | null;
   agent_name?: string | null;
+  nps_score?: number | null; // 0-10, asked in the emailed survey
+  source?: 'app' | 'email_survey';
+  survey_id?: string | null;
   created_at: string;
   updated_at?: string | null;
 }
@@ -317,6 +353,7 @@ export interface TicketWithDetails extends Ticket {
   category?: CategoryBasic;
   comments?: TicketComment[];
   attachments?: TicketAttachment[];
+  tags?: TicketTag[];
   resolution?: string | null;
   resolved_at?: string | null;
   closed_at?: string | null;
@@ -326,6 +363,8 @@ export interface TicketWithDetails extends Ticket {
   closed_by_user?: UserBasic;
   feedback?: TicketFeedback | null;
   feedback_received?: boolean;
+  search_rank?: number; // set when listed by a full-text search
+  search_snippet?: string | null; // matched text, matches marked as in ticketSearchService
   sla_status?: {
     responseTime: number;
     dueDate: string;
@@ -1305,6 +1344,8 @@ export class DatabaseService {
     searchTerm?: string;
     showAllAgentTickets?: boolean;
     includeClosedTickets?: boolean;
+    tagIds?: string[]; // only tickets carrying all of these tags
+    queueId?: string;
   } = {}): Promise<TicketWithDetails[]> {
     try {
       // Get tickets using correct column names
@@ -1312,6 +1353,18 @@ export class DatabaseService {
         .from('tickets_new')
         .select('*');
 
+      if (options.tagIds && options.tagIds.length > 0) {
+        const taggedTicketIds = await DatabaseService.getTicketIdsWithTags(options.tagIds);
+        if (taggedTicketIds.length === 0) {
+          return [];
+        }
+        query = query.in('id', taggedTicketIds);
+      }
+
+      if (options.queueId) {
+        query = query.eq('queue_id', options.queueId);
+      }
+
       // Apply strict user-based filtering for regular users
       if (options.userRole === 'user' && options.userId) {
         // Users can ONLY see tickets they created
@@ -1396,9 +1449,25 @@ export class DatabaseService {
         }
       }
 
-      // Add search functionality with validation and sanitization
+      // Full-text search with the query syntax (status:open "exact phrase" ...);
+      // the ranked matches narrow the query and set the order of the results
+      let searchResults: TicketSearchResult[] | null = null;
       if (options.searchTerm) {
-        const sanitizedSearchTerm = DatabaseService.sanitizeQueryParameter(options.searchTerm);
+        try {
+          searchResults = await ticketSearchService.search(options.searchTerm, { userId: options.userId, limit: 200 });
+          if (searchResults.length === 0) {
+            return [];
+          }
+          query = query.in('id', searchResults.map(result => result.ticket_id));
+        } catch (searchError) {
+          console.warn('⚠️ Full-text search failed, matching title and description instead:', searchError);
+        }
+      }
+
+      // Plain match on title and description when full-text search is unavailable
+      if (options.searchTerm && !searchResults) {
+        const plainTerms = parseTicketQuery(options.searchTerm);
+        const sanitizedSearchTerm = DatabaseService.sanitizeQueryParameter([...plainTerms.phrases, ...plainTerms.terms].join(' '));
         if (sanitizedSearchTerm) {
           const searchPattern = `%${sanitizedSearchTerm}%`;
           const searchQuery = `title.ilike.${searchPattern},description.ilike.${searchPattern}`;
@@ -1559,7 +1628,23 @@ export class DatabaseService {
         attachmentMap.set(attachment.ticket_id, [...existing, attachment]);
       });
 
-      // Combine tickets with user data and attachments
+      // Get all tags for all tickets in one query
+      const tagMap = new Map<string, TicketTag[]>();
+      if (ticketIds.length > 0) {
+        const { data: tagData, error: tagError } = await db
+          .from('ticket_tags')
+          .select('ticket_id, tag:tags(*)')
+          .in('ticket_id', ticketIds);
+
+        if (!tagError && tagData) {
+          tagData.forEach((row: any) => {
+            if (!row.tag) return;
+            tagMap.set(row.ticket_id, [...(tagMap.get(row.ticket_id) || []), row.tag]);
+          });
+        }
+      }
+
+      // Combine tickets with user data, attachments and tags
       const ticketsWithDetails = data.map(ticket => {
         return {
         ...ticket,
@@ -1582,10 +1667,22 @@ export class DatabaseService {
             email: userMap.get(ticket.assigned_to)?.email || '',
             avatar_url: userMap.get(ticket.assigned_to)?.avatar_url || null
         } : undefined,
-        attachments: attachmentMap.get(ticket.id) || []
+        attachments: attachmentMap.get(ticket.id) || [],
+        tags: tagMap.get(ticket.id) || []
         };
       });
 
+      if (searchResults) {
+        const ranking = new Map(searchResults.map((result, index) => [result.ticket_id, { ...result, index }]));
+        return ticketsWithDetails
+          .map(ticket => ({
+            ...ticket,
+            search_rank: ranking.get(ticket.id)?.rank ?? 0,
+            search_snippet: ranking.get(ticket.id)?.snippet ?? null
+          }))
+          .sort((a, b) => (ranking.get(a.id)?.index ?? 0) - (ranking.get(b.id)?.index ?? 0));
+      }
+
       return ticketsWithDetails;
     } catch (error) {
       throw error;
@@ -1634,8 +1731,10 @@ export class DatabaseService {
         const { userId, userRole, ipAddress, userAgent } = options;
         
         if (userRole === 'user') {
-          // Users can only access tickets they created
-          if (ticket.user_id !== userId) {
+          // Users can only access tickets they created or follow
+          const isWatcher = ticket.user_id !== userId &&
+            await ticketWatcherService.isWatching(ticket.id, userId).catch(() => false);
+          if (ticket.user_id !== userId && !isWatcher) {
             // Log security event for unauthorized access attempt
             await this.logSecurityEvent({
               userId,
@@ -1865,13 +1964,112 @@ export class DatabaseService {
         console.warn('⚠️ Failed to create ticket notification (non-blocking):', notificationError);
       }
 
-      return data;
+      // Suggest the requester's recent look-alike tickets so agents can merge them
+      let duplicateCandidates: DuplicateCandidate[] = [];
+      try {
+        duplicateCandidates = await this.findDuplicateCandidates(data);
+      } catch (duplicateError) {
+        console.warn('⚠️ Failed to look up duplicate tickets (non-blocking):', duplicateError);
+      }
+
+      return { ...data, duplicate_candidates: duplicateCandidates };
     } catch (error) {
       console.error('💥 Failed to create ticket:', error);
       throw error;
     }
   }
 
+  /**
+   * Open tickets of the same requester from the last days that read like this one
+   */
+  static async findDuplicateCandidates(
+    ticket: Pick<Ticket, 'id' | 'user_id' | 'title' | 'description'>
+  ): Promise<DuplicateCandidate[]> {
+    if (!ticket.user_id) return [];
+
+    const since = new Date(Date.now() - DUPLICATE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await db
+      .from('tickets_new')
+      .select('id, ticket_number, title, description, status, created_at')
+      .eq('user_id', ticket.user_id)
+      .neq('status', 'closed')
+      .is('merged_into_id', null)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching recent tickets for duplicate check:', error);
+      throw error;
+    }
+
+    return rankDuplicateCandidates(ticket, data || []);
+  }
+
+  /**
+   * Other tickets by number or title, for picking a merge target or a link.
+   * openOnly leaves out closed and merged tickets.
+   */
+  static async searchOtherTickets(query: string, excludeId: string, openOnly = true) {
+    const term = query.trim().replace(/[%,()]/g, ' ');
+    if (term.length < 2) return [];
+
+    let request = db
+      .from('tickets_new')
+      .select('id, ticket_number, title, status, created_at')
+      .or(`ticket_number.ilike.%${term}%,title.ilike.%${term}%`)
+      .neq('id', excludeId);
+
+    if (openOnly) {
+      request = request.neq('status', 'closed').is('merged_into_id', null);
+    }
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .limit(8);
+
+    if (error) {
+      console.error('Error searching tickets:', error);
+      throw error;
+    }
+
+    return (data || []) as Pick<Ticket, 'id' | 'ticket_number' | 'title' | 'status' | 'created_at'>[];
+  }
+
+  /**
+   * Moves comments, attachments, chat messages, tasks and activity of the source
+   * ticket into the target and closes the source pointing at it. Both requesters
+   * are notified.
+   */
+  static async mergeTickets(sourceId: string, targetId: string, note?: string) {
+    const { data, error } = await db.rpc('merge_tickets', {
+      p_source_id: sourceId,
+      p_target_id: targetId,
+      p_note: note || null
+    });
+
+    if (error) {
+      console.error('Error merging tickets:', error);
+      throw error;
+    }
+
+    try {
+      await this.createTicketNotification(sourceId, 'ticket_merged');
+    } catch (notificationError) {
+      console.warn('⚠️ Failed to create merge notification (non-blocking):', notificationError);
+    }
+
+    return data as {
+      source_number: string;
+      target_number: string;
+      comments: number;
+      attachments: number;
+      chat_messages: number;
+      tasks: number;
+      activity_logs: number;
+    };
+  }
+
   static async updateTicket(ticketId: string, updates: Partial<TicketRow>) {
     try {
       // Get current ticket data to compare changes
@@ -2075,6 +2273,43 @@ export class DatabaseService {
         } catch (notificationError) {
           console.warn('⚠️ Failed to create comment notification (non-blocking):', notificationError);
         }
+
+        try {
+          const { data: commented } = await db
+            .from('tickets_new')
+            .select('user_id, assigned_to, ticket_number, title, priority')
+            .eq('id', ticketId)
+            .single();
+
+          if (commented) {
+            await this.notifyTicketFollowers(
+              ticketId,
+              {
+                type: 'comment_added',
+                title: JSON.stringify({
+                  key: 'notifications.types.comment_added.title',
+                  params: { ticketNumber: commented.ticket_number || '#' + ticketId.slice(-8) }
+                }),
+                message: JSON.stringify({
+                  key: 'notifications.types.comment_added.message',
+                  params: { ticketTitle: commented.title || 'notifications.fallback.noTitle' }
+                }),
+                priority: commented.priority === 'urgent' ? 'high' : 'medium'
+              },
+              [commented.user_id, commented.assigned_to, userId],
+              content,
+              userData?.full_name || 'Support'
+            );
+          }
+        } catch (followerError) {
+          console.warn('⚠️ Failed to notify ticket followers (non-blocking):', followerError);
+        }
+
+        try {
+          await this.emailCommentParticipants(ticketId, userId, content, userData?.full_name || 'Support');
+        } catch (emailError) {
+          console.warn('⚠️ Failed to email comment participants (non-blocking):', emailError);
+        }
       }
 
       return commentWithUser;
@@ -2144,8 +2379,145 @@ export class DatabaseService {
   }
 
   // Tag operations
+  // All tags with the number of tickets using each one
   static async getTicketTags(): Promise<TicketTag[]> {
-    return [];
+    const { data, error } = await db
+      .from('tags_with_usage')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching tags:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  static async createTag(tag: { name: string; color?: string; description?: string | null }, createdBy?: string): Promise<TicketTag> {
+    const name = tag.name.trim().toLowerCase();
+    if (!name) throw new Error('Tag name is required');
+
+    const { data, error } = await db
+      .from('tags')
+      .insert({
+        name,
+        color: tag.color || '#6B7280',
+        description: tag.description || null,
+        created_by: createdBy || null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') throw new Error(`A tag named "${name}" already exists`);
+      throw error;
+    }
+
+    return { ...data, usage_count: 0 };
+  }
+
+  // Rename and/or recolour a tag
+  static async updateTag(tagId: string, updates: { name?: string; color?: string; description?: string | null }): Promise<TicketTag> {
+    const payload: Record<string, any> = { ...updates };
+    if (updates.name !== undefined) {
+      payload.name = updates.name.trim().toLowerCase();
+      if (!payload.name) throw new Error('Tag name is required');
+    }
+
+    const { data, error } = await db
+      .from('tags')
+      .update(payload)
+      .eq('id', tagId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') throw new Error(`A tag named "${payload.name}" already exists`);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async deleteTag(tagId: string): Promise<void> {
+    const { error } = await db.from('tags').delete().eq('id', tagId);
+    if (error) throw error;
+  }
+
+  // Move all tickets from the source tags onto the target tag and delete the sources
+  static async mergeTags(sourceTagIds: string[], targetTagId: string): Promise<number> {
+    const sources = sourceTagIds.filter(id => id !== targetTagId);
+    if (sources.length === 0) return 0;
+
+    const { data, error } = await db.rpc('merge_tags', {
+      p_source_ids: sources,
+      p_target_id: targetTagId
+    });
+
+    if (error) throw error;
+    return data || 0;
+  }
+
+  static async getTagsForTicket(ticketId: string): Promise<TicketTag[]> {
+    const { data, error } = await db
+      .from('ticket_tags')
+      .select('tag:tags(*)')
+      .eq('ticket_id', ticketId);
+
+    if (error) {
+      console.error('Error fetching ticket tags:', error);
+      return [];
+    }
+
+    return (data || [])
+      .map((row: any) => row.tag)
+      .filter(Boolean)
+      .sort((a: TicketTag, b: TicketTag) => a.name.localeCompare(b.name));
+  }
+
+  static async addTagToTicket(ticketId: string, tagId: string, addedBy?: string): Promise<void> {
+    const { error } = await db
+      .from('ticket_tags')
+      .upsert(
+        { ticket_id: ticketId, tag_id: tagId, added_by: addedBy || null },
+        { onConflict: 'ticket_id,tag_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  }
+
+  static async removeTagFromTicket(ticketId: string, tagId: string): Promise<void> {
+    const { error } = await db
+      .from('ticket_tags')
+      .delete()
+      .eq('ticket_id', ticketId)
+      .eq('tag_id', tagId);
+
+    if (error) throw error;
+  }
+
+  // IDs of tickets carrying every one of the given tags
+  static async getTicketIdsWithTags(tagIds: string[]): Promise<string[]> {
+    if (tagIds.length === 0) return [];
+
+    const { data, error } = await db
+      .from('ticket_tags')
+      .select('ticket_id, tag_id')
+      .in('tag_id', tagIds);
+
+    if (error) throw error;
+
+    const tagsByTicket = new Map<string, Set<string>>();
+    (data || []).forEach((row: { ticket_id: string; tag_id: string }) => {
+      const tags = tagsByTicket.get(row.ticket_id) || new Set<string>();
+      tags.add(row.tag_id);
+      tagsByTicket.set(row.ticket_id, tags);
+    });
+
+    return Array.from(tagsByTicket.entries())
+      .filter(([, tags]) => tags.size === tagIds.length)
+      .map(([ticketId]) => ticketId);
   }
 
   // Knowledge Base operations
@@ -2491,54 +2863,32 @@ export class DatabaseService {
     }
   }
 
-  // Helper function to determine SLA status
-  private static getSLAStatus(elapsed: number, target: number): 'ok' | 'warning' | 'overdue' {
-    if (elapsed > target) return 'overdue';
-    const percentage = (elapsed / target) * 100;
-    if (percentage >= 75) return 'warning'; // Warning at 75% of target time
-    return 'ok';
-  }
-
   // Calculate comprehensive SLA status for a ticket
   static async calculateTicketSLAStatus(ticket: any): Promise<SLAStatus> {
     try {
       const slaRule = await this.getSLARuleByPriority(ticket.priority);
-      const created = new Date(ticket.created_at);
-      const now = new Date();
-      
+
       // Check for first agent response
       const firstResponseAt = await this.detectFirstAgentResponse(ticket.id);
       
-      const hoursElapsed = (now.getTime() - created.getTime()) / (1000 * 60 * 60);
-      const responseTimeElapsed = firstResponseAt 
-        ? (firstResponseAt.getTime() - created.getTime()) / (1000 * 60 * 60)
-        : hoursElapsed;
-
-      // Determine if SLA is still active
-      const isActive = !['resolved', 'closed'].includes(ticket.status);
-
-      let responseStatus: 'ok' | 'warning' | 'overdue' | 'met' | 'stopped';
-      let resolutionStatus: 'ok' | 'warning' | 'overdue' | 'met' | 'stopped';
-
-      if (!isActive) {
-        responseStatus = firstResponseAt ? 'met' : 'overdue';
-        resolutionStatus = ticket.status === 'resolved' || ticket.status === 'closed' ? 'met' : 'overdue';
-      } else {
-        responseStatus = firstResponseAt 
-          ? 'met' 
-          : this.getSLAStatus(responseTimeElapsed, slaRule.response_time as number);
-        resolutionStatus = this.getSLAStatus(hoursElapsed, slaRule.resolution_time as number);
-      }
+      const calendar = await BusinessCalendarService.resolveCalendarForTicket(ticket);
+      const clockEvents = await SLAClockService.getClockEvents(ticket.id);
+      const evaluation = evaluateSLA({
+        ticket,
+        rule: { response_time: slaRule.response_time as number, resolution_time: slaRule.resolution_time as number },
+        firstResponseAt,
+        calendar,
+        clockEvents
+      });
 
       return {
         ticketId: ticket.id,
-        responseStatus,
-        resolutionStatus,
-        responseTimeElapsed,
-        totalTimeElapsed: hoursElapsed,
+        ...evaluation,
         firstResponseAt,
         slaRule,
-        isActive
+        calendarId: calendar?.id || null,
+        calendarName: calendar?.name || null,
+        clockEvents
       };
     } catch (error) {
       console.error('Error calculating SLA status:', error);
@@ -2557,26 +2907,13 @@ export class DatabaseService {
     }
   }
 
-  // Check for SLA warnings across all active tickets
-  static async checkSLAWarnings(): Promise<{ warnings: number; breaches: number }> {
+  // Count SLA warnings and breaches across all active tickets. Notifications
+  // and webhooks for them are sent by the sla_check scheduled job.
+  static async countSLAWarnings(): Promise<{ warnings: number; breaches: number }> {
     try {
-      console.log('🔍 Checking SLA warnings for all active tickets...');
-      
-      // Get all active tickets with SLA rules
       const { data: tickets, error } = await db
         .from('tickets_new')
-        .select(`
-          id,
-          ticket_number,
-          title,
-          priority,
-          status,
-          created_at,
-          assigned_to,
-          user_id,
-          users!tickets_new_user_id_fkey(id, full_name, email),
-          assignee:users!tickets_new_assigned_to_fkey(id, full_name, email)
-        `)
+        .select('id, priority, status, created_at, resolved_at, closed_at, country, team_id')
         .in('status', ['open', 'in_progress']);
 
       if (error) throw error;
@@ -2586,371 +2923,21 @@ export class DatabaseService {
 
       for (const ticket of tickets || []) {
         const slaStatus = await this.calculateTicketSLAStatus(ticket);
-        
+
         if (slaStatus.responseStatus === 'overdue' || slaStatus.resolutionStatus === 'overdue') {
           breaches++;
-          console.log(`🚨 SLA Breach detected for ticket ${ticket.ticket_number || ticket.id}`);
-          // Create SLA breach notification
-          await this.createSLABreachNotification(ticket, slaStatus);
         } else if (slaStatus.responseStatus === 'warning' || slaStatus.resolutionStatus === 'warning') {
           warnings++;
-          console.log(`⚠️ SLA Warning for ticket ${ticket.ticket_number || ticket.id}`);
-          // Create SLA warning notification
-          await this.createSLAWarningNotification(ticket, slaStatus);
         }
       }
 
-      console.log(`✅ SLA check completed: ${warnings} warnings, ${breaches} breaches`);
       return { warnings, breaches };
     } catch (error) {
-      console.error('Error checking SLA warnings:', error);
+      console.error('Error counting SLA warnings:', error);
       return { warnings: 0, breaches: 0 };
     }
   }
 
-  // Create SLA warning notification
-  static async createSLAWarningNotification(ticket: any, slaStatus: SLAStatus): Promise<void> {
-    try {
-      const notifications = [];
-      const now = new Date();
-      const fourHoursAgo = new Date(now.getTime() - 4 * 60 * 60 * 1000);
-      
-      // Check if we already sent a warning notification for this ticket in the last 4 hours
-      const { data: existingNotifications } = await db
-        .from('notifications')
-        .select('id, user_id')
-        .eq('ticket_id', ticket.id)
-        .eq('type', 'sla_warning')
-        .gte('created_at', fourHoursAgo.toISOString());
-
-      const notifiedUsers = new Set(existingNotifications?.map(n => n.user_id) || []);
-      
-      // Calculate warning details for better messaging
-      const responseWarning = slaStatus.responseStatus === 'warning';
-      const resolutionWarning = slaStatus.resolutionStatus === 'warning';
-      const warningType = responseWarning && resolutionWarning ? 'both' : 
-                         responseWarning ? 'response' : 'resolution';
-      
-      // Notify assigned agent (only if not notified in last 4 hours and settings allow)
-      if (ticket.assigned_to && !notifiedUsers.has(ticket.assigned_to)) {
-        const shouldNotify = await this.shouldSendSLANotification(ticket.assigned_to, 'warning', ticket.priority || 'medium');
-        
-        if (shouldNotify) {
-          const warningMessage = warningType === 'both' 
-            ? `Response and resolution deadlines approaching`
-            : warningType === 'response' 
-              ? `Response deadline approaching`
-              : `Resolution deadline approaching`;
-
-          const timeRemaining = warningType === 'response' 
-            ? slaStatus.responseTimeRemaining 
-            : slaStatus.resolutionTimeRemaining;
-
-          notifications.push({
-            user_id: ticket.assigned_to,
-            type: 'sla_warning',
-            title: '⚠️ SLA Warning',
-            message: `Ticket ${ticket.ticket_number || '#' + ticket.id.slice(-8)} - ${warningMessage}. Time remaining: ${timeRemaining}. Priority: ${ticket.priority?.toUpperCase()}`,
-            ticket_id: ticket.id,
-            priority: 'medium',
-            read: false,
-            created_at: now.toISOString()
-          });
-        }
-      }
-
-      // For unassigned tickets approaching SLA deadline, notify admins
-      if (!ticket.assigned_to) {
-        const { data: admins } = await db
-          .from('users')
-          .select('id')
-          .eq('role', 'admin');
-
-        if (admins) {
-          for (const admin of admins) {
-            if (!notifiedUsers.has(admin.id)) {
-              const shouldNotify = await this.shouldSendSLANotification(admin.id, 'warning', ticket.priority || 'medium');
-              
-              if (shouldNotify) {
-                notifications.push({
-                  user_id: admin.id,
-                  type: 'sla_warning',
-                  title: '⚠️ Unassigned Ticket SLA Warning',
-                  message: `Unassigned ticket ${ticket.ticket_number || '#' + ticket.id.slice(-8)} approaching SLA deadline. Assignment needed. Priority: ${ticket.priority?.toUpperCase()}`,
-                  ticket_id: ticket.id,
-                  priority: 'medium',
-                  read: false,
-                  created_at: now.toISOString()
-                });
-              }
-            }
-          }
-        }
-      }
-      
-      // Notify ticket creator if resolution SLA is at risk and no agent assigned (only if not recently notified)
-      if (slaStatus.resolutionStatus === 'warning' && !ticket.assigned_to && !notifiedUsers.has(ticket.user_id)) {
-        notifications.push({
-          user_id: ticket.user_id,
-          type: 'sla_warning',
-          title: '⏰ Update on Your Ticket',
-          message: `Your ticket ${ticket.ticket_number || '#' + ticket.id.slice(-8)} is being prioritized to meet our service commitment. We're working to assign an agent soon.`,
-          ticket_id: ticket.id,
-          priority: 'medium',
-          read: false,
-          created_at: now.toISOString()
-        });
-      }
-
-      if (notifications.length > 0) {
-        const { error } = await db.from('notifications').insert(notifications);
-        if (error) {
-          console.error('Error creating SLA warning notifications:', error);
-        } else {
-          console.log(`⚠️ Created ${notifications.length} SLA warning notifications for ticket ${ticket.ticket_number || ticket.id}`);
-        }
-      } else {
-        console.log(`⏭️ Skipped SLA warning notification for ticket ${ticket.ticket_number || ticket.id} (recently notified)`);
-      }
-    } catch (error) {
-      console.error('Error in createSLAWarningNotification:', error);
-    }
-  }
-
-  // Helper function to check if user should receive SLA notifications based on their settings
-  static async shouldSendSLANotification(userId: string, notificationType: 'breach' | 'warning', ticketPriority: string): Promise<boolean> {
-    try {
-      const { data: settings } = await db
-        .from('sla_notification_settings')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
-
-      // If no settings found, use defaults (enabled)
-      if (!settings) return true;
-
-      // Check if notification type is enabled
-      const isEnabled = notificationType === 'breach' 
-        ? settings.breach_notifications_enabled 
-        : settings.warning_notifications_enabled;
-
-      if (!isEnabled) return false;
-
-      // Check priority filter
-      if (settings.priority_filter === 'urgent_only' && ticketPriority !== 'urgent') {
-        return false;
-      }
-      if (settings.priority_filter === 'high_urgent' && !['high', 'urgent'].includes(ticketPriority)) {
-        return false;
-      }
-
-      // Check quiet hours
-      if (settings.quiet_hours_start && settings.quiet_hours_end) {
-        const currentTime = new Date().toTimeString().slice(0, 5); // HH:MM format
-        const isInQuietHours = currentTime >= settings.quiet_hours_start && currentTime <= settings.quiet_hours_end;
-        
-        // Allow urgent breaches even during quiet hours
-        if (isInQuietHours && !(notificationType === 'breach' && ticketPriority === 'urgent')) {
-          return false;
-        }
-      }
-
-      return true;
-    } catch (error) {
-      console.error('Error checking SLA notification settings:', error);
-      return true; // Default to sending notifications if there's an error
-    }
-  }
-
-  // Create SLA breach notification with duplicate prevention
-  static async createSLABreachNotification(ticket: any, slaStatus: SLAStatus): Promise<void> {
-    try {
-      const notifications = [];
-      const now = new Date();
-      const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-      
-      // Check if we already sent a breach notification for this ticket in the last hour
-      const { data: existingNotifications } = await db
-        .from('notifications')
-        .select('id, user_id')
-        .eq('ticket_id', ticket.id)
-        .eq('type', 'sla_breach')
-        .gte('created_at', oneHourAgo.toISOString());
-
-      const notifiedUsers = new Set(existingNotifications?.map(n => n.user_id) || []);
-      
-      // Calculate breach details for better messaging
-      const responseOverdue = slaStatus.responseStatus === 'overdue';
-      const resolutionOverdue = slaStatus.resolutionStatus === 'overdue';
-      const breachType = responseOverdue && resolutionOverdue ? 'both' : 
-                        responseOverdue ? 'response' : 'resolution';
-      
-      const breachDetails = {
-        response: responseOverdue ? `Response overdue by ${slaStatus.responseTimeRemaining}` : null,
-        resolution: resolutionOverdue ? `Resolution overdue by ${slaStatus.resolutionTimeRemaining}` : null
-      };
-
-      // Notify assigned agent with high priority (only if not notified in last hour and settings allow)
-      if (ticket.assigned_to && !notifiedUsers.has(ticket.assigned_to)) {
-        const shouldNotify = await this.shouldSendSLANotification(ticket.assigned_to, 'breach', ticket.priority || 'medium');
-        
-        if (shouldNotify) {
-          const breachMessage = breachType === 'both' 
-            ? `Response and resolution deadlines exceeded`
-            : breachType === 'response' 
-              ? `Response deadline exceeded`
-              : `Resolution deadline exceeded`;
-
-          notifications.push({
-            user_id: ticket.assigned_to,
-            type: 'sla_breach',
-            title: '🚨 SLA Breach Alert',
-            message: `URGENT: Ticket ${ticket.ticket_number || '#' + ticket.id.slice(-8)} - ${breachMessage}. Priority: ${ticket.priority?.toUpperCase()}`,
-            ticket_id: ticket.id,
-            priority: 'urgent',
-            read: false,
-            created_at: now.toISOString()
-          });
-        }
-      }
-      
-      // For admins, create a summary notification instead of individual ones
-      // Only send admin notifications every 2 hours to prevent spam
-      const twoHoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000);
-      const { data: recentAdminNotifications } = await db
-        .from('notifications')
-        .select('id')
-        .eq('type', 'sla_breach')
-        .like('title', '%Admin Alert%')
-        .gte('created_at', twoHoursAgo.toISOString());
-
-      // Only send admin notifications if none were sent in the last 2 hours
-      if (!recentAdminNotifications || recentAdminNotifications.length === 0) {
-        // Get current SLA breach count for context
-        const { data: allBreachedTickets } = await db
-          .from('tickets_new')
-          .select('id, ticket_number, priority, assigned_to, users!tickets_new_assigned_to_fkey(full_name)')
-          .in('status', ['open', 'in_progress']);
-
-        let totalBreaches = 0;
-        const breachSummary = { high: 0, urgent: 0, unassigned: 0 };
-
-        if (allBreachedTickets) {
-          for (const t of allBreachedTickets) {
-            const status = await this.calculateTicketSLAStatus(t);
-            if (status.responseStatus === 'overdue' || status.resolutionStatus === 'overdue') {
-              totalBreaches++;
-              if (t.priority === 'urgent') breachSummary.urgent++;
-              else if (t.priority === 'high') breachSummary.high++;
-              if (!t.assigned_to) breachSummary.unassigned++;
-            }
-          }
-        }
-
-        const { data: admins } = await db
-          .from('users')
-          .select('id')
-          .eq('role', 'admin');
-
-        if (admins && totalBreaches > 0) {
-          const summaryMessage = totalBreaches === 1 
-            ? `SLA breach: Ticket ${ticket.ticket_number || '#' + ticket.id.slice(-8)} (${ticket.priority}). Agent: ${ticket.assignee?.full_name || 'Unassigned'}`
-            : `${totalBreaches} tickets in SLA breach. Urgent: ${breachSummary.urgent}, High: ${breachSummary.high}, Unassigned: ${breachSummary.unassigned}`;
-
-          for (const admin of admins) {
-            const shouldNotify = await this.shouldSendSLANotification(admin.id, 'breach', ticket.priority || 'medium');
-            
-            if (shouldNotify) {
-              notifications.push({
-                user_id: admin.id,
-                type: 'sla_breach',
-                title: totalBreaches === 1 ? '🚨 SLA Breach - Admin Alert' : `🚨 SLA Breach Summary (${totalBreaches} tickets)`,
-                message: summaryMessage,
-                ticket_id: totalBreaches === 1 ? ticket.id : null,
-                priority: 'high', // Reduced from urgent to high for admins
-                read: false,
-                created_at: now.toISOString()
-              });
-            }
-          }
-        }
-      }
-
-      if (notifications.length > 0) {
-        const { error } = await db.from('notifications').insert(notifications);
-        if (error) {
-          console.error('Error creating SLA breach notifications:', error);
-        } else {
-          console.log(`📧 Created ${notifications.length} SLA breach notifications (${notifications.filter(n => n.title.includes('Admin')).length} admin, ${notifications.length - notifications.filter(n => n.title.includes('Admin')).length} agent)`);
-        }
-      } else {
-        console.log(`⏭️ Skipped SLA breach notification for ticket ${ticket.ticket_number || ticket.id} (recently notified)`);
-      }
-    } catch (error) {
-      console.error('Error in createSLABreachNotification:', error);
-    }
-  }
-
-  // Auto-close inactive resolved tickets
-  static async autoCloseInactiveTickets(): Promise<number> {
-    try {
-      console.log('🔄 Checking for inactive resolved tickets to auto-close...');
-      
-      // Find resolved tickets older than 7 days with no recent activity
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-      const { data: candidateTickets, error } = await db
-        .from('tickets_new')
-        .select('id, ticket_number, resolved_at, updated_at, user_id')
-        .eq('status', 'resolved')
-        .lt('resolved_at', sevenDaysAgo.toISOString());
-
-      if (error) throw error;
-
-      let closedCount = 0;
-      
-      for (const ticket of candidateTickets || []) {
-        // Check if there's been any recent activity (comments/chat)
-        const hasRecentActivity = await this.hasRecentTicketActivity(ticket.id, sevenDaysAgo);
-        
-        if (!hasRecentActivity) {
-          try {
-            await this.closeTicket(ticket.id, 'system-auto-close');
-            console.log(`✅ Auto-closed ticket ${ticket.ticket_number || ticket.id}`);
-            closedCount++;
-          } catch (closeError) {
-            console.error(`❌ Failed to auto-close ticket ${ticket.id}:`, closeError);
-          }
-        }
-      }
-
-      console.log(`✅ Auto-close completed: ${closedCount} tickets closed`);
-      return closedCount;
-    } catch (error) {
-      console.error('Error auto-closing tickets:', error);
-      return 0;
-    }
-  }
-
-  // Check if ticket has recent activity
-  static async hasRecentTicketActivity(ticketId: string, since: Date): Promise<boolean> {
-    try {
-      // Check for recent comments
-      const { data: recentComments } = await db
-        .from('ticket_comments_new')
-        .select('id')
-        .eq('ticket_id', ticketId)
-        .gte('created_at', since.toISOString())
-        .limit(1);
-
-      return (recentComments && recentComments.length > 0);
-    } catch (error) {
-      console.error('Error checking recent ticket activity:', error);
-      return false;
-    }
-  }
-
   // Log first response for SLA tracking
   static async logFirstResponse(ticketId: string, agentId: string, responseTime: Date): Promise<void> {
     try {
@@ -3117,6 +3104,25 @@ export class DatabaseService {
         }
       );
 
+      await this.notifyTicketFollowers(
+        ticketId,
+        {
+          type: 'status_changed',
+          title: JSON.stringify({
+            key: 'notifications.types.status_changed.title',
+            params: { ticketNumber: existingTicket.ticket_number || '#' + ticketId.slice(-8) }
+          }),
+          message: JSON.stringify({
+            key: 'notifications.types.status_changed.message',
+            params: { ticketTitle: updatedTicket.title || 'notifications.fallback.noTitle', status: 'resolved' }
+          }),
+          priority: updatedTicket.priority === 'urgent' ? 'high' : 'medium'
+        },
+        [existingTicket.user_id, resolvedBy],
+        resolutionNotes,
+        updatedTicket.assignee?.full_name || 'Support'
+      );
+
       return updatedTicket;
     } catch (error) {
       console.error('Error in resolveTicket:', error);
@@ -3361,17 +3367,9 @@ export class DatabaseService {
         return false;
       }
 
-      // Admins e agentes podem comentar em qualquer ticket não fechado
-      if (user.role === 'admin' || user.role === 'agent') {
-        return true;
-      }
-
-      // Usuários podem comentar apenas em seus próprios tickets
-      if (user.role === 'user' && ticket.user_id === userId) {
-        return true;
-      }
-
-      return false;
+      // Mesma regra das respostas por e-mail: admins e agentes comentam em
+      // qualquer ticket não fechado, usuários apenas nos seus
+      return commentAllowed(ticket, { id: userId, role: user.role });
     } catch (error) {
       console.error('Error checking comment permissions:', error);
       return false;
@@ -3598,6 +3596,32 @@ export class DatabaseService {
           });
           break;
 
+        case 'ticket_merged': {
+          // Called on the merged (source) ticket: both requesters learn where the conversation continues
+          const { data: target } = await db
+            .from('tickets_new')
+            .select('ticket_number, user_id')
+            .eq('id', ticket.merged_into_id)
+            .single();
+
+          recipients = [ticket.user_id];
+          if (target?.user_id && target.user_id !== ticket.user_id) {
+            recipients.push(target.user_id);
+          }
+          title = JSON.stringify({
+            key: 'notifications.types.ticket_merged.title',
+            params: { ticketNumber: context.ticketNumber || '#' + ticketId.slice(-8) }
+          });
+          message = JSON.stringify({
+            key: 'notifications.types.ticket_merged.message',
+            params: {
+              ticketTitle: context.ticketTitle || 'notifications.fallback.noTitle',
+              targetNumber: target?.ticket_number || '#' + String(ticket.merged_into_id).slice(-8)
+            }
+          });
+          break;
+        }
+
         default:
           console.warn(`Unknown notification type: ${type}`);
           return;
@@ -3632,12 +3656,115 @@ export class DatabaseService {
         console.log(`✅ Created ${notifications.length} notifications for ${type}`);
       }
 
+      // Watchers follow status, comment and resolution updates; CC addresses get them by email
+      if (WATCHED_NOTIFICATION_TYPES.includes(type)) {
+        await this.notifyTicketFollowers(
+          ticketId,
+          { type, title, message, priority: ticket.priority === 'urgent' ? 'high' : 'medium' },
+          recipients,
+          type === 'comment_added' ? null : `Status: ${ticket.status}`,
+          ticket.assignee?.full_name || 'Support'
+        );
+      }
+
     } catch (error) {
       console.error('Error in createTicketNotification:', error);
       throw error;
     }
   }
 
+  /**
+   * Passes a ticket update on to its watchers (minus those already notified)
+   * and, when there is an email text, to its CC addresses. Never fails the
+   * update that triggered it.
+   */
+  private static async notifyTicketFollowers(
+    ticketId: string,
+    notification: { type: string; title: string; message: string; priority?: 'low' | 'medium' | 'high' },
+    alreadyNotified: string[],
+    ccUpdate: string | null,
+    agentName: string
+  ) {
+    try {
+      await ticketWatcherService.notifyWatchers(ticketId, notification, alreadyNotified);
+    } catch (error) {
+      console.warn('⚠️ Watcher notifications failed (non-blocking):', error);
+    }
+
+    if (!ccUpdate) return;
+    try {
+      await ticketWatcherService.emailCcs(ticketId, ccUpdate, agentName);
+    } catch (error) {
+      console.warn('⚠️ CC emails failed (non-blocking):', error);
+    }
+  }
+
+  /**
+   * Emails a public comment to the requester and assignee, except whoever
+   * wrote it. Each email carries the recipient's own reply address, so
+   * answering it adds a comment. Skips recipients who turned email or
+   * comment notifications off. Returns how many emails were sent.
+   */
+  static async emailCommentParticipants(
+    ticketId: string,
+    commenterId: string,
+    content: string,
+    commenterName: string
+  ): Promise<number> {
+    const { data: ticket, error: ticketError } = await db
+      .from('tickets_new')
+      .select('user_id, assigned_to, ticket_number, title')
+      .eq('id', ticketId)
+      .single();
+
+    if (ticketError) {
+      console.error('Error fetching ticket for comment email:', ticketError);
+      throw ticketError;
+    }
+
+    const recipientIds = [...new Set([ticket.user_id, ticket.assigned_to])]
+      .filter((id): id is string => !!id && id !== commenterId);
+    if (recipientIds.length === 0) return 0;
+
+    const { data: recipients, error: usersError } = await db
+      .from('users')
+      .select('id, email, full_name')
+      .in('id', recipientIds);
+
+    if (usersError) {
+      console.error('Error fetching comment email recipients:', usersError);
+      throw usersError;
+    }
+
+    let sent = 0;
+    for (const recipient of recipients || []) {
+      if (!recipient.email) continue;
+      try {
+        const preferences = await preferencesManager.getUserPreferences(recipient.id);
+        if (!preferences.emailNotifications || preferences.typePreferences.comment_added?.enabled === false) continue;
+
+        const result = await EmailService.sendTicketUpdateNotification(
+          recipient.email,
+          recipient.full_name || recipient.email,
+          ticket.ticket_number || '#' + ticketId.slice(-8),
+          ticket.title,
+          content,
+          commenterName,
+          { ticketId, userId: recipient.id }
+        );
+        if (result.success) {
+          sent++;
+        } else {
+          console.warn(`⚠️ Could not email comment to ${recipient.email} (non-blocking):`, result.error);
+        }
+      } catch (emailError) {
+        console.warn(`⚠️ Could not email comment to ${recipient.email} (non-blocking):`, emailError);
+      }
+    }
+
+    return sent;
+  }
+
   // Reopen Request operations
   static async createReopenRequest(ticketId: string, requestedBy: string, reason: string): Promise<any> {
     const { data, error } = await db
@@ -3958,6 +4085,21 @@ export class DatabaseService {
       } else {
         console.log('💬 No notifications to create (commenter is the only involved user or ticket is closed)');
       }
+
+      if (ticket.status !== 'closed') {
+        await this.notifyTicketFollowers(
+          ticketId,
+          {
+            type: 'comment_added',
+            title: '💬 Novo Comentário em Chamado Acompanhado',
+            message: `Novo comentário no chamado ${ticket.ticket_number || '#' + ticket.id.slice(-8)} que você está acompanhando.`,
+            priority: 'medium'
+          },
+          [ticket.user_id, ticket.assigned_to, commentUserId],
+          null,
+          ''
+        );
+      }
     } catch (error) {
       console.error('⚠️ Comment notification error (non-blocking):', error);
     }
@@ -0,0 +1,200 @@
+import { supabase } from './supabase';
+import {
+  DEFAULT_EMAIL_SETTINGS,
+  loadEmailSettings,
+  pickEmailTemplate,
+  renderEmail,
+  renderStoredEmail,
+  resolveEmailLocale,
+  sampleTemplateVariables,
+  validateEmailTemplate,
+  type EmailLocale,
+  type EmailSettings,
+  type EmailTemplateContent,
+  type EmailTemplateEvent,
+  type RenderedEmail,
+  type StoredEmailTemplate,
+  type TemplateVariables,
+} from '../../supabase/functions/_shared/emailTemplates.ts';
+
+export {
+  EMAIL_LOCALES,
+  EMAIL_TEMPLATE_EVENTS,
+  EMAIL_TEMPLATE_LISTS,
+  EMAIL_TEMPLATE_VARIABLES,
+  formatTemplateDate,
+  findUnknownVariables,
+  resolveEmailLocale,
+  type EmailLocale,
+  type EmailSettings,
+  type EmailTemplateContent,
+  type EmailTemplateEvent,
+  type RenderedEmail,
+} from '../../supabase/functions/_shared/emailTemplates.ts';
+
+// Email template tables are not part of the generated client types
+const db = supabase as any;
+
+/**
+ * Admin-managed email templates (per event and locale) and the branding and
+ * sender identity of outgoing emails. Events without an override use the
+ * built-in template of the recipient's locale.
+ */
+
+export interface EmailTemplateRow extends StoredEmailTemplate {
+  id: string;
+  updated_by?: string | null;
+  updated_at?: string;
+}
+
+export class EmailTemplateService {
+  static async getTemplates(): Promise<EmailTemplateRow[]> {
+    const { data, error } = await db
+      .from('email_templates')
+      .select('*')
+      .order('event')
+      .order('locale');
+
+    if (error) {
+      console.error('Error fetching email templates:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * What an event's email looks like in a locale right now, and whether that
+   * is the admin's version or the built-in one
+   */
+  static getEffectiveTemplate(
+    templates: StoredEmailTemplate[],
+    event: EmailTemplateEvent,
+    locale: EmailLocale
+  ): { template: EmailTemplateContent; custom: boolean } {
+    return pickEmailTemplate(templates, event, locale);
+  }
+
+  static async saveTemplate(
+    event: EmailTemplateEvent,
+    locale: EmailLocale,
+    content: EmailTemplateContent,
+    isActive = true
+  ): Promise<EmailTemplateRow> {
+    const validationError = validateEmailTemplate(event, content);
+    if (validationError) throw new Error(validationError);
+
+    const { data, error } = await db
+      .from('email_templates')
+      .upsert({
+        event,
+        locale,
+        subject: content.subject.trim(),
+        body_html: content.body_html,
+        body_text: content.body_text,
+        is_active: isActive,
+        updated_by: (await supabase.auth.getUser()).data.user?.id ?? null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'event,locale' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving email template:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Drops the admin's version so the locale goes back to the built-in template
+   */
+  static async resetTemplate(event: EmailTemplateEvent, locale: EmailLocale): Promise<void> {
+    const { error } = await db
+      .from('email_templates')
+      .delete()
+      .eq('event', event)
+      .eq('locale', locale);
+
+    if (error) {
+      console.error('Error resetting email template:', error);
+      throw error;
+    }
+  }
+
+  static async getSettings(): Promise<EmailSettings> {
+    return loadEmailSettings(db);
+  }
+
+  static validateSettings(settings: EmailSettings): string | null {
+    if (!settings.from_name.trim()) return 'Sender name is required';
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(settings.from_address.trim())) return 'Sender address is not a valid email address';
+    if (settings.reply_to_address && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(settings.reply_to_address.trim())) {
+      return 'Reply-to address is not a valid email address';
+    }
+    if (!/^#[0-9a-fA-F]{6}$/.test(settings.primary_color)) return 'Brand color must be a hex color like #1e40af';
+    if (!settings.company_name.trim()) return 'Company name is required';
+    return null;
+  }
+
+  static async saveSettings(settings: EmailSettings): Promise<EmailSettings> {
+    const validationError = this.validateSettings(settings);
+    if (validationError) throw new Error(validationError);
+
+    const { data, error } = await db
+      .from('email_settings')
+      .update({
+        from_name: settings.from_name.trim(),
+        from_address: settings.from_address.trim(),
+        reply_to_address: settings.reply_to_address?.trim() || null,
+        company_name: settings.company_name.trim(),
+        logo_url: settings.logo_url?.trim() || null,
+        primary_color: settings.primary_color,
+        footer_text: settings.footer_text?.trim() || null,
+        updated_by: (await supabase.auth.getUser()).data.user?.id ?? null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', true)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving email settings:', error);
+      throw error;
+    }
+
+    return { ...DEFAULT_EMAIL_SETTINGS, ...data };
+  }
+
+  /**
+   * The language a user reads emails in, from their notification preferences
+   */
+  static async getRecipientLocale(userId?: string | null): Promise<EmailLocale> {
+    if (!userId) return resolveEmailLocale(null);
+
+    const { data } = await db
+      .from('notification_preferences')
+      .select('language')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return resolveEmailLocale(data?.language);
+  }
+
+  static async render(
+    event: EmailTemplateEvent,
+    variables: TemplateVariables,
+    locale?: EmailLocale | null
+  ): Promise<RenderedEmail> {
+    const { subject, html, text } = await renderStoredEmail(db, event, variables, locale);
+    return { subject, html, text };
+  }
+
+  /**
+   * Renders a draft with sample values, for the editor's preview
+   */
+  static preview(event: EmailTemplateEvent, content: EmailTemplateContent, settings: EmailSettings): RenderedEmail {
+    return renderEmail(content, sampleTemplateVariables(event, window.location.origin), settings);
+  }
+}
@@ -0,0 +1,116 @@
+import { supabase } from '@/lib/supabase';
+import {
+  loadEscalationPolicies,
+  type EscalationAction,
+  type EscalationPolicy,
+  type EscalationStatus
+} from '../../supabase/functions/_shared/escalations.ts';
+
+// Escalation tables are not part of the generated client types
+const db = supabase as any;
+
+// Steps are run by the escalations scheduled job; the app manages policies
+// and shows what ran
+export {
+  dueSteps,
+  matchPolicy,
+  nextPriority,
+  PRIORITY_LADDER,
+  ruleEscalations,
+  type DueEscalation,
+  type EscalationAction,
+  type EscalationPolicy,
+  type EscalationStatus,
+  type EscalationStep,
+  type EscalationStepConfig,
+  type EscalationTicket
+} from '../../supabase/functions/_shared/escalations.ts';
+
+export type EscalationPolicyDraft = Omit<EscalationPolicy, 'id'> & { id?: string };
+
+export interface TicketEscalation {
+  id: string;
+  ticket_id: string;
+  step_key: string;
+  policy_id?: string | null;
+  step_id?: string | null;
+  rule_id?: string | null;
+  action: EscalationAction;
+  status: EscalationStatus;
+  details?: string | null;
+  executed_at: string;
+  policy?: { name: string } | null;
+}
+
+class EscalationService {
+  /**
+   * All policies with their steps, in evaluation order
+   */
+  async getPolicies(): Promise<EscalationPolicy[]> {
+    return loadEscalationPolicies(db);
+  }
+
+  /**
+   * Create or update a policy and its steps in one transaction. Steps that
+   * already exist are updated in place, so executed steps stay recorded
+   * against the same id and an edit does not run them again.
+   */
+  async savePolicy(policy: EscalationPolicyDraft): Promise<string> {
+    const { data, error } = await db.rpc('save_escalation_policy', {
+      p_policy: {
+        id: policy.id ?? null,
+        name: policy.name.trim(),
+        description: policy.description || null,
+        priorities: policy.priorities,
+        category_ids: policy.category_ids,
+        sort_order: policy.sort_order,
+        is_active: policy.is_active,
+      },
+      p_steps: policy.steps.map(step => ({
+        id: step.id ?? null,
+        after_minutes: step.after_minutes,
+        action: step.action,
+        config: step.config || {},
+      })),
+    });
+
+    if (error) {
+      console.error('Error saving escalation policy:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async deletePolicy(policyId: string): Promise<void> {
+    const { error } = await db
+      .from('escalation_policies')
+      .delete()
+      .eq('id', policyId);
+
+    if (error) {
+      console.error('Error deleting escalation policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Escalation steps executed for a ticket, newest first
+   */
+  async getTicketEscalations(ticketId: string): Promise<TicketEscalation[]> {
+    const { data, error } = await db
+      .from('ticket_escalations')
+      .select('*, policy:escalation_policies(name)')
+      .eq('ticket_id', ticketId)
+      .order('executed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching ticket escalations:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+}
+
+export const escalationService = new EscalationService();
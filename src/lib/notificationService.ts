@@ -9,13 +9,14 @@ export interface Notification {
   id?: string;
   user_id: string;
   message: string;
-  type: 'ticket_created' | 'ticket_updated' | 'ticket_assigned' | 'comment_added' | 'status_changed' | 'priority_changed' | 'assignment_changed' | 'sla_warning' | 'sla_breach';
+  type: 'ticket_created' | 'ticket_updated' | 'ticket_assigned' | 'comment_added' | 'status_changed' | 'priority_changed' | 'assignment_changed' | 'sla_warning' | 'sla_breach' | 'auto_close_reminder' | 'ticket_merged';
   ticket_id?: string;
   read?: boolean;
   priority?: 'low' | 'medium' | 'high';
   created_at: string;
   updated_at?: string;
   title: string;
+  metadata?: Record<string, any>; // e.g. { action: 'still_not_fixed' } on auto-close reminders
 }
 
 export interface NotificationWithTicket extends Notification {
@@ -660,6 +661,8 @@ export class NotificationService {
       'reopened': '🔓',
       'sla_warning': '⚠️',
       'sla_breach': '🚨',
+      'auto_close_reminder': '⏳',
+      'ticket_merged': '🔗',
       'first_response': '💬',
       'task_assigned': '📋',
       'task_due_reminder': '⏰',
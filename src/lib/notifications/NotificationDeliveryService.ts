@@ -0,0 +1,64 @@
+import { getLocalParts, isValidTimezone, zonedTimeToUtc } from '@/lib/timezoneUtils'
+import type { DeliverySchedule } from '@/types/notifications'
+import type { HeldDelivery } from '../../../supabase/functions/_shared/notificationDigests.ts'
+
+export type {
+  HeldDelivery,
+  NotificationDigest,
+  NotificationDigestItem,
+  ReleasedNotification
+} from '../../../supabase/functions/_shared/notificationDigests.ts'
+
+export interface DeliveryRunResult {
+  released: number
+  digestsSent: number
+  digestsFailed: number
+}
+
+/**
+ * Delivery times for notifications held back by the
+ * hold_deferred_notification trigger. The notification_digests job releases
+ * them and sends the digest emails on the server.
+ */
+export class NotificationDeliveryService {
+  /**
+   * When a notification held now would be delivered. Mirrors
+   * next_notification_delivery_time() in the database so the preferences
+   * screen can show the next digest time.
+   */
+  static getNextDeliveryTime(
+    delivery: Exclude<HeldDelivery, 'quiet_hours'>,
+    schedule: DeliverySchedule,
+    timezone: string,
+    now: Date = new Date()
+  ): Date {
+    if (delivery === 'batched') {
+      return new Date(now.getTime() + schedule.batchWindowMinutes * 60 * 1000)
+    }
+
+    const zone = isValidTimezone(timezone) ? timezone : 'UTC'
+    const local = getLocalParts(now, zone)
+
+    if (schedule.digestFrequency === 'hourly') {
+      // Next full local hour; keeps half-hour offsets such as Asia/Kolkata right
+      return new Date(zonedTimeToUtc({ ...local, minute: 0 }, zone) + 60 * 60 * 1000)
+    }
+
+    let next = zonedTimeToUtc({ ...local, hour: schedule.digestHour, minute: 0 }, zone)
+    if (next <= now.getTime()) {
+      const tomorrow = new Date(Date.UTC(local.year, local.month - 1, local.day + 1))
+      next = zonedTimeToUtc({
+        year: tomorrow.getUTCFullYear(),
+        month: tomorrow.getUTCMonth() + 1,
+        day: tomorrow.getUTCDate(),
+        hour: schedule.digestHour,
+        minute: 0
+      }, zone)
+    }
+
+    return new Date(next)
+  }
+}
+
+// Export singleton instance
+export const notificationDeliveryService = new NotificationDeliveryService()
@@ -1,10 +1,12 @@
 import { supabase } from '@/lib/supabase'
+import { getLocalParts, isValidTimezone, zonedTimeToUtc } from '@/lib/timezoneUtils'
 import {
   NotificationPreferences,
   NotificationPreferencesRow,
   NotificationPreferencesInsert,
   NotificationPreferencesUpdate,
   createDefaultNotificationPreferences,
+  createQuietHoursSchedule,
   validateNotificationPreferences,
   transformToDbFormat,
   transformFromDbFormat,
@@ -112,7 +114,11 @@ export class PreferencesManager {
         p_quiet_hours_end: dbFormat.quiet_hours_end,
         p_type_preferences: dbFormat.type_preferences as any,
         p_language: dbFormat.language,
-        p_timezone: dbFormat.timezone
+        p_timezone: dbFormat.timezone,
+        p_digest_frequency: dbFormat.digest_frequency,
+        p_digest_hour: dbFormat.digest_hour,
+        p_batch_window_minutes: dbFormat.batch_window_minutes,
+        p_quiet_hours_schedule: dbFormat.quiet_hours_schedule as any
       })
 
       if (error) {
@@ -169,26 +175,58 @@ export class PreferencesManager {
   }
 
   /**
-   * Check if current time is within user's quiet hours
+   * Check if a time is within the user's quiet hours, in the user's timezone
    */
-  private isInQuietHours(preferences: NotificationPreferences): boolean {
+  isInQuietHours(preferences: NotificationPreferences, at: Date = new Date()): boolean {
+    return this.getQuietHoursEnd(preferences, at) !== null
+  }
+
+  /**
+   * When the quiet period covering `at` ends, or null outside quiet hours.
+   * Mirrors quiet_hours_end_at() in the database, which holds notifications until then.
+   */
+  getQuietHoursEnd(preferences: NotificationPreferences, at: Date = new Date()): Date | null {
     if (!preferences.quietHours.enabled) {
-      return false
+      return null
     }
 
-    const now = new Date()
-    const currentTime = now.toTimeString().slice(0, 5) // HH:mm format
-    
-    const { start, end } = preferences.quietHours
+    const timezone = isValidTimezone(preferences.timezone) ? preferences.timezone : 'UTC'
+    const local = getLocalParts(at, timezone)
+    const currentTime = `${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`
+    const schedule = preferences.quietHours.schedule?.length
+      ? preferences.quietHours.schedule
+      : createQuietHoursSchedule(preferences.quietHours.start, preferences.quietHours.end)
+
+    const endOn = (dayOffset: number, time: string): Date => {
+      const [hour, minute] = time.split(':').map(Number)
+      const day = new Date(Date.UTC(local.year, local.month - 1, local.day + dayOffset))
+      return new Date(zonedTimeToUtc({
+        year: day.getUTCFullYear(),
+        month: day.getUTCMonth() + 1,
+        day: day.getUTCDate(),
+        hour,
+        minute
+      }, timezone))
+    }
 
-    // Handle cases where quiet hours span midnight
-    if (start > end) {
+    const today = schedule.find(day => day.dayOfWeek === local.weekday)
+    if (today?.enabled && today.start !== today.end) {
+      if (today.start < today.end && currentTime >= today.start && currentTime < today.end) {
+        return endOn(0, today.end)
+      }
       // e.g., 22:00 to 08:00 (spans midnight)
-      return currentTime >= start || currentTime <= end
-    } else {
-      // e.g., 13:00 to 17:00 (same day)
-      return currentTime >= start && currentTime <= end
+      if (today.start > today.end && currentTime >= today.start) {
+        return endOn(1, today.end)
+      }
     }
+
+    // Overnight window that started yesterday
+    const yesterday = schedule.find(day => day.dayOfWeek === ((local.weekday ?? 0) + 6) % 7)
+    if (yesterday?.enabled && yesterday.start > yesterday.end && currentTime < yesterday.end) {
+      return endOn(0, yesterday.end)
+    }
+
+    return null
   }
 
   /**
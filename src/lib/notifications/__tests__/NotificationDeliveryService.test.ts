@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { NotificationDeliveryService } from '../NotificationDeliveryService'
+import { DEFAULT_DELIVERY_SCHEDULE } from '@/types/notifications'
+
+describe('NotificationDeliveryService', () => {
+  describe('getNextDeliveryTime', () => {
+    it('sends the daily digest at the configured hour in the user timezone', () => {
+      // 06:00 in São Paulo (UTC-3) -> 08:00 local the same day
+      const next = NotificationDeliveryService.getNextDeliveryTime(
+        'digest',
+        DEFAULT_DELIVERY_SCHEDULE,
+        'America/Sao_Paulo',
+        new Date('2026-10-01T09:00:00Z')
+      )
+      expect(next.toISOString()).toBe('2026-10-01T11:00:00.000Z')
+    })
+
+    it('rolls the daily digest over to the next day once the hour has passed', () => {
+      const next = NotificationDeliveryService.getNextDeliveryTime(
+        'digest',
+        DEFAULT_DELIVERY_SCHEDULE,
+        'America/Sao_Paulo',
+        new Date('2026-10-01T12:00:00Z')
+      )
+      expect(next.toISOString()).toBe('2026-10-02T11:00:00.000Z')
+    })
+
+    it('sends hourly digests on the next local full hour', () => {
+      // Asia/Kolkata is UTC+5:30, so local hours start at :30 UTC
+      const next = NotificationDeliveryService.getNextDeliveryTime(
+        'digest',
+        { ...DEFAULT_DELIVERY_SCHEDULE, digestFrequency: 'hourly' },
+        'Asia/Kolkata',
+        new Date('2026-10-01T10:10:00Z')
+      )
+      expect(next.toISOString()).toBe('2026-10-01T10:30:00.000Z')
+    })
+
+    it('holds batched notifications for the batch window', () => {
+      const next = NotificationDeliveryService.getNextDeliveryTime(
+        'batched',
+        { ...DEFAULT_DELIVERY_SCHEDULE, batchWindowMinutes: 30 },
+        'UTC',
+        new Date('2026-10-01T10:00:00Z')
+      )
+      expect(next.toISOString()).toBe('2026-10-01T10:30:00.000Z')
+    })
+  })
+})
@@ -555,4 +555,58 @@ describe('PreferencesManager', () => {
       ).rejects.toThrow('Failed to import preferences')
     })
   })
-})
\ No newline at end of file
+
+  describe('quiet hours', () => {
+    const withQuietHours = (timezone: string, schedule?: NotificationPreferences['quietHours']['schedule']) => {
+      const preferences = createDefaultNotificationPreferences(mockUserId)
+      preferences.timezone = timezone
+      preferences.quietHours = {
+        ...preferences.quietHours,
+        enabled: true,
+        schedule: schedule || preferences.quietHours.schedule
+      }
+      return preferences
+    }
+
+    it('evaluates quiet hours in the user timezone', () => {
+      // 23:30 UTC is 20:30 in São Paulo, before 22:00 quiet hours start
+      const preferences = withQuietHours('America/Sao_Paulo')
+      expect(preferencesManager.isInQuietHours(preferences, new Date('2026-10-05T23:30:00Z'))).toBe(false)
+      // 02:00 UTC is 23:00 in São Paulo
+      expect(preferencesManager.isInQuietHours(preferences, new Date('2026-10-06T02:00:00Z'))).toBe(true)
+    })
+
+    it('returns when an overnight quiet period ends', () => {
+      const preferences = withQuietHours('America/Sao_Paulo')
+      const end = preferencesManager.getQuietHoursEnd(preferences, new Date('2026-10-06T02:00:00Z'))
+      // 08:00 São Paulo on the next local day
+      expect(end?.toISOString()).toBe('2026-10-06T11:00:00.000Z')
+    })
+
+    it('uses a separate schedule per weekday', () => {
+      const schedule = createDefaultNotificationPreferences(mockUserId).quietHours.schedule.map(day =>
+        day.dayOfWeek === 0 || day.dayOfWeek === 6
+          ? { ...day, start: '00:00', end: '23:59' }
+          : { ...day, enabled: day.dayOfWeek !== 3 }
+      )
+      const preferences = withQuietHours('UTC', schedule)
+
+      // Saturday afternoon is quiet all day
+      expect(preferencesManager.isInQuietHours(preferences, new Date('2026-10-03T15:00:00Z'))).toBe(true)
+      // Monday afternoon is outside the 22:00-08:00 window
+      expect(preferencesManager.isInQuietHours(preferences, new Date('2026-10-05T15:00:00Z'))).toBe(false)
+      // Wednesday night is disabled
+      expect(preferencesManager.isInQuietHours(preferences, new Date('2026-10-07T23:00:00Z'))).toBe(false)
+      // Early Thursday morning is also outside: the window would have started on Wednesday
+      expect(preferencesManager.isInQuietHours(preferences, new Date('2026-10-08T03:00:00Z'))).toBe(false)
+      // Early Friday morning belongs to Thursday night's window
+      expect(preferencesManager.isInQuietHours(preferences, new Date('2026-10-09T03:00:00Z'))).toBe(true)
+    })
+
+    it('is never in quiet hours when disabled', () => {
+      const preferences = createDefaultNotificationPreferences(mockUserId)
+      preferences.timezone = 'UTC'
+      expect(preferencesManager.getQuietHoursEnd(preferences, new Date('2026-10-06T02:00:00Z'))).toBeNull()
+    })
+  })
+})
@@ -4,6 +4,7 @@ export { NotificationCache } from './NotificationCache';
 export { RealtimeConnectionManager } from './RealtimeConnectionManager';
 export { NotificationQueue } from './NotificationQueue';
 export { NotificationErrorHandler } from './NotificationErrorHandler';
+export { NotificationDeliveryService, notificationDeliveryService } from './NotificationDeliveryService';
 
 // Types and interfaces
 export type {
@@ -29,6 +30,14 @@ export type {
   QueueItem
 } from './NotificationQueue';
 
+export type {
+  HeldDelivery,
+  ReleasedNotification,
+  NotificationDigest,
+  NotificationDigestItem,
+  DeliveryRunResult
+} from './NotificationDeliveryService';
+
 export type {
   ErrorContext,
   ErrorLog
@@ -0,0 +1,233 @@
+import type { Database } from '@/integrations/supabase/types';
+import type { AgentMetrics } from './assignmentService';
+
+type TicketPriority = Database['public']['Enums']['ticket_priority'];
+
+export type SLAUrgency = 'overdue' | 'warning' | 'ok';
+
+/**
+ * An open ticket that could be moved, with its SLA state at planning time
+ */
+export interface RebalanceCandidate {
+  id: string;
+  ticket_number?: string | null;
+  title: string;
+  priority: TicketPriority;
+  category_id?: string | null;
+  user_id: string;
+  assigned_to: string;
+  created_at: string;
+  slaUrgency: SLAUrgency;
+  slaDeadline?: Date | null;
+}
+
+export interface RebalanceMove {
+  ticketId: string;
+  ticketNumber?: string | null;
+  ticketTitle: string;
+  priority: TicketPriority;
+  requesterId: string;
+  fromAgentId: string;
+  fromAgentName: string;
+  toAgentId: string;
+  toAgentName: string;
+  expertise: number; // target agent's expertise in the ticket category (0-1)
+  slaUrgency: SLAUrgency;
+  slaDeadline?: string | null;
+  reason: string;
+}
+
+export interface RebalanceSkip {
+  ticketId: string;
+  ticketTitle: string;
+  fromAgentId: string;
+  reason: string;
+}
+
+export interface RebalanceAgentChange {
+  id: string;
+  name: string;
+  before: number;
+  after: number;
+  capacity: number;
+}
+
+export interface RebalancePlan {
+  generatedAt: string;
+  targetWorkload: number;
+  moves: RebalanceMove[];
+  skipped: RebalanceSkip[];
+  agents: RebalanceAgentChange[];
+}
+
+export interface RebalanceOptions {
+  tolerance?: number;        // tickets above target before an agent counts as overloaded
+  maxMovesPerAgent?: number; // at most this many tickets leave one agent per run
+  minExpertise?: number;     // category expertise a target needs for non-urgent tickets
+}
+
+const DEFAULT_OPTIONS: Required<RebalanceOptions> = {
+  tolerance: 1,
+  maxMovesPerAgent: 5,
+  minExpertise: 0.5,
+};
+
+const URGENCY_ORDER: Record<SLAUrgency, number> = { overdue: 0, warning: 1, ok: 2 };
+
+const PRIORITY_ORDER: Record<string, number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * Whether the agent can take tickets now: on shift, present and not out of office
+ */
+export function isOnDuty(agent: AgentMetrics): boolean {
+  return agent.onShift && !agent.outOfOffice && agent.availability !== 'offline';
+}
+
+/**
+ * Tickets closest to an SLA breach move first: an overloaded agent is least
+ * likely to get to them in time
+ */
+export function compareByUrgency(a: RebalanceCandidate, b: RebalanceCandidate): number {
+  return URGENCY_ORDER[a.slaUrgency] - URGENCY_ORDER[b.slaUrgency] ||
+    (a.slaDeadline?.getTime() ?? Infinity) - (b.slaDeadline?.getTime() ?? Infinity) ||
+    (PRIORITY_ORDER[a.priority] ?? 9) - (PRIORITY_ORDER[b.priority] ?? 9) ||
+    a.created_at.localeCompare(b.created_at);
+}
+
+/**
+ * Target workload per on-duty agent, and the agents above it (plus anyone
+ * out of office) with how many tickets each should hand over
+ */
+export function findRebalanceSources(agents: AgentMetrics[], options: RebalanceOptions = {}): {
+  targetWorkload: number;
+  sources: Array<{ agent: AgentMetrics; excess: number }>;
+} {
+  const { tolerance } = { ...DEFAULT_OPTIONS, ...options };
+  const onDuty = agents.filter(isOnDuty);
+  const totalWorkload = agents.reduce((sum, agent) => sum + agent.currentWorkload, 0);
+  const targetWorkload = onDuty.length > 0 ? Math.ceil(totalWorkload / onDuty.length) : 0;
+
+  // Agents who are out of office hand over everything; others only their excess
+  const sources = agents
+    .map(agent => ({
+      agent,
+      excess: agent.outOfOffice
+        ? agent.currentWorkload
+        : agent.currentWorkload > targetWorkload + tolerance ? agent.currentWorkload - targetWorkload : 0,
+    }))
+    .filter(source => source.excess > 0)
+    .sort((a, b) => b.excess - a.excess);
+
+  return { targetWorkload, sources };
+}
+
+/**
+ * Propose ticket moves from overloaded (or absent) agents to on-duty agents
+ * below the team average. Nothing is changed; the plan is applied separately.
+ */
+export function buildRebalancePlan(
+  agents: AgentMetrics[],
+  candidates: RebalanceCandidate[],
+  options: RebalanceOptions = {},
+  now: Date = new Date()
+): RebalancePlan {
+  const { maxMovesPerAgent, minExpertise } = { ...DEFAULT_OPTIONS, ...options };
+  const onDuty = agents.filter(isOnDuty);
+  const { targetWorkload, sources } = findRebalanceSources(agents, options);
+
+  const projected = new Map(agents.map(agent => [agent.id, agent.currentWorkload]));
+  const moves: RebalanceMove[] = [];
+  const skipped: RebalanceSkip[] = [];
+
+  if (onDuty.length === 0) {
+    return { generatedAt: now.toISOString(), targetWorkload, moves, skipped, agents: [] };
+  }
+
+  for (const { agent: source, excess } of sources) {
+    const tickets = candidates
+      .filter(ticket => ticket.assigned_to === source.id)
+      .sort(compareByUrgency);
+    const limit = source.outOfOffice ? excess : Math.min(excess, maxMovesPerAgent);
+    let moved = 0;
+
+    for (const ticket of tickets) {
+      if (moved >= limit) break;
+
+      const targets = onDuty.filter(agent =>
+        agent.id !== source.id &&
+        (projected.get(agent.id) ?? 0) < Math.min(targetWorkload, agent.maxConcurrentTickets)
+      );
+
+      if (targets.length === 0) {
+        skipped.push({ ticketId: ticket.id, ticketTitle: ticket.title, fromAgentId: source.id, reason: 'No agent below the target workload' });
+        continue;
+      }
+
+      const expertiseOf = (agent: AgentMetrics) =>
+        ticket.category_id ? agent.categoryExpertise?.[ticket.category_id] ?? 0 : 1;
+      const urgent = ticket.slaUrgency !== 'ok';
+      const qualified = targets.filter(agent => expertiseOf(agent) >= minExpertise);
+
+      // Non-urgent tickets wait for someone who knows the category
+      const pool = qualified.length > 0 ? qualified : urgent ? targets : [];
+      if (pool.length === 0) {
+        skipped.push({ ticketId: ticket.id, ticketTitle: ticket.title, fromAgentId: source.id, reason: 'No available agent with expertise in this category' });
+        continue;
+      }
+
+      const scored = pool
+        .map(agent => ({
+          agent,
+          score: expertiseOf(agent) * 0.6 +
+            (1 - (projected.get(agent.id) ?? 0) / agent.maxConcurrentTickets) * 0.4,
+        }))
+        .sort((a, b) => b.score - a.score);
+      const target = scored[0].agent;
+      const expertise = ticket.category_id ? expertiseOf(target) : 0;
+
+      const reasons = [
+        source.outOfOffice
+          ? `${source.full_name} is out of office`
+          : `${source.full_name} has ${projected.get(source.id)} active tickets (target ${targetWorkload})`,
+      ];
+      if (urgent) reasons.push(`SLA ${ticket.slaUrgency}`);
+      if (ticket.category_id) reasons.push(`category expertise ${Math.round(expertise * 100)}%`);
+
+      moves.push({
+        ticketId: ticket.id,
+        ticketNumber: ticket.ticket_number,
+        ticketTitle: ticket.title,
+        priority: ticket.priority,
+        requesterId: ticket.user_id,
+        fromAgentId: source.id,
+        fromAgentName: source.full_name,
+        toAgentId: target.id,
+        toAgentName: target.full_name,
+        expertise,
+        slaUrgency: ticket.slaUrgency,
+        slaDeadline: ticket.slaDeadline ? ticket.slaDeadline.toISOString() : null,
+        reason: reasons.join('; '),
+      });
+
+      projected.set(source.id, (projected.get(source.id) ?? 0) - 1);
+      projected.set(target.id, (projected.get(target.id) ?? 0) + 1);
+      moved++;
+    }
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    targetWorkload,
+    moves,
+    skipped,
+    agents: agents
+      .filter(agent => projected.get(agent.id) !== agent.currentWorkload)
+      .map(agent => ({
+        id: agent.id,
+        name: agent.full_name,
+        before: agent.currentWorkload,
+        after: projected.get(agent.id) ?? agent.currentWorkload,
+        capacity: agent.maxConcurrentTickets,
+      })),
+  };
+}
@@ -103,7 +103,7 @@ export class ReopenService {
 
   static async createReopenRequest(ticketId: string, userId: string, reason: string): Promise<ReopenRequest> {
     try {
-      // 1. Verificar se o ticket existe e está fechado
+      // 1. Verificar se o ticket existe e está fechado (ou resolvido, aguardando o fechamento automático)
       const { data: ticket, error: ticketError } = await supabase
         .from('tickets_new')
         .select('id, status, user_id, title')
@@ -114,8 +114,8 @@ export class ReopenService {
         throw new Error('Ticket não encontrado');
       }
 
-      if (ticket.status !== 'closed') {
-        throw new Error('Apenas tickets fechados podem ser reabertos');
+      if (ticket.status !== 'closed' && ticket.status !== 'resolved') {
+        throw new Error('Apenas tickets resolvidos ou fechados podem ser reabertos');
       }
 
       // 2. Verificar se o usuário pode solicitar reabertura (apenas o criador do ticket)
@@ -0,0 +1,38 @@
+import type { ReportCell, ReportData, ReportFormat } from './reportService';
+import {
+  escapeCSVCell as escapeCSVCellIn,
+  exportReportData,
+  toCSV as toCSVIn,
+  type ReportLibraries
+} from '../../supabase/functions/_shared/reportExport.ts';
+
+/**
+ * Report exports in the browser. The serialisers are shared with the scheduled
+ * reports job; here the XLSX and PDF libraries are loaded on demand so they
+ * stay out of the main bundle, and dates are written in the viewer's timezone.
+ */
+
+export interface ExportedReport {
+  blob: Blob;
+  filename: string;
+  mimeType: string;
+}
+
+export const browserReportLibraries: ReportLibraries = {
+  excel: async () => (await import('exceljs')).default,
+  pdf: async () => {
+    const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+    return { jsPDF, autoTable };
+  }
+};
+
+const viewerTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const escapeCSVCell = (cell: ReportCell): string => escapeCSVCellIn(cell, viewerTimezone());
+
+export const toCSV = (report: ReportData): string => toCSVIn(report, viewerTimezone());
+
+export const exportReport = async (report: ReportData, reportFormat: ReportFormat): Promise<ExportedReport> => {
+  const { data, filename, mimeType } = await exportReportData(report, reportFormat, browserReportLibraries, viewerTimezone());
+  return { blob: new Blob([data], { type: mimeType }), filename, mimeType };
+};
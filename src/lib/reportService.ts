@@ -0,0 +1,104 @@
+import { supabase } from './supabase';
+import {
+  buildPerformanceReport,
+  buildSatisfactionReport,
+  buildSLAReport,
+  buildTicketReport,
+  generateReport,
+  getResolutionHours,
+  getSLAOutcome,
+  type ReportData,
+  type ReportFilters,
+  type ReportFormat,
+  type ReportType
+} from '../../supabase/functions/_shared/reports.ts';
+
+/**
+ * Builds report datasets from live ticket, SLA and feedback data. Every report
+ * covers the tickets created in the selected period; the exporters in
+ * reportExport.ts turn a dataset into CSV, XLSX or PDF. The builders are
+ * shared with the scheduled reports job.
+ */
+
+export {
+  REPORT_TITLES,
+  type ReportCell,
+  type ReportChart,
+  type ReportColumn,
+  type ReportData,
+  type ReportFilters,
+  type ReportFormat,
+  type ReportLookups,
+  type ReportType,
+  type SLAOutcome
+} from '../../supabase/functions/_shared/reports.ts';
+
+export interface ReportConfig {
+  type: ReportType;
+  format: ReportFormat;
+  dateRange: {
+    from: Date | undefined;
+    to: Date | undefined;
+  };
+  filters: ReportFilters;
+}
+
+// Report tables are read through the shared loaders, which are untyped
+const db = supabase as any;
+
+const DEFAULT_PERIOD_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ReportService {
+  /**
+   * Fetch the data for a report and build its dataset
+   */
+  static async generate(config: ReportConfig, now: Date = new Date()): Promise<ReportData> {
+    const { from, to } = ReportService.resolveDateRange(config.dateRange, now);
+    return ReportService.generateForPeriod(config, from, to, now);
+  }
+
+  /**
+   * Builds a report for an exact period, with what the signed-in user can read
+   */
+  static async generateForPeriod(
+    config: Pick<ReportConfig, 'type' | 'filters'>,
+    from: Date,
+    to: Date,
+    now: Date = new Date()
+  ): Promise<ReportData> {
+    try {
+      return await generateReport(db, config, from, to, now);
+    } catch (error) {
+      console.error('Error generating report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whole days from the start of `from` to the end of `to`; defaults to the
+   * last 30 days
+   */
+  static resolveDateRange(range: ReportConfig['dateRange'], now: Date = new Date()): { from: Date; to: Date } {
+    const to = new Date(range.to || now);
+    to.setHours(23, 59, 59, 999);
+
+    const from = range.from
+      ? new Date(range.from)
+      : new Date(to.getTime() - DEFAULT_PERIOD_DAYS * DAY_MS);
+    from.setHours(0, 0, 0, 0);
+
+    if (from > to) {
+      throw new Error('The report start date must be before the end date');
+    }
+
+    return { from, to };
+  }
+
+  static getResolutionHours = getResolutionHours;
+  static getSLAOutcome = getSLAOutcome;
+  static buildTicketReport = buildTicketReport;
+  static buildPerformanceReport = buildPerformanceReport;
+  static buildSLAReport = buildSLAReport;
+  static buildSatisfactionReport = buildSatisfactionReport;
+}
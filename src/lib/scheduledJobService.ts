@@ -0,0 +1,125 @@
+import { supabase } from './supabase';
+
+// Scheduled job tables are not part of the generated client types
+const db = supabase as any;
+
+/**
+ * Server-side scheduled jobs (auto-close, SLA check, surveys, reports,
+ * notification digests, escalations, webhook delivery). pg_cron calls the run-scheduled-jobs edge function
+ * every minute; it runs each enabled job once its interval has passed, holding
+ * a lock so only one run happens at a time.
+ * Admins can switch jobs off, see their run history and run them now.
+ */
+
+export type ScheduledJobKey =
+  | 'auto_close'
+  | 'sla_check'
+  | 'csat_surveys'
+  | 'scheduled_reports'
+  | 'notification_digests'
+  | 'escalations'
+  | 'webhook_dispatch';
+export type ScheduledJobRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface ScheduledJob {
+  key: ScheduledJobKey;
+  name: string;
+  description: string | null;
+  interval_minutes: number;
+  enabled: boolean;
+  locked_until: string | null;
+  last_run_at: string | null;
+  last_status: 'succeeded' | 'failed' | null;
+  next_run_at: string;
+}
+
+export interface ScheduledJobRun {
+  id: string;
+  job_key: ScheduledJobKey;
+  trigger: 'schedule' | 'manual';
+  triggered_by: string | null;
+  status: ScheduledJobRunStatus;
+  result: Record<string, number>;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+  user?: { full_name: string | null } | null;
+}
+
+export interface JobRunOutcome {
+  job: ScheduledJobKey;
+  runId: string | null; // null when another run still holds the lock
+  status: 'succeeded' | 'failed' | 'skipped';
+  result?: Record<string, number>;
+  error?: string;
+}
+
+export class ScheduledJobService {
+  static async getJobs(): Promise<ScheduledJob[]> {
+    const { data, error } = await db
+      .from('scheduled_jobs')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching scheduled jobs:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  static async getRuns(options: { jobKey?: ScheduledJobKey; limit?: number } = {}): Promise<ScheduledJobRun[]> {
+    let query = db
+      .from('scheduled_job_runs')
+      .select('*, user:users!scheduled_job_runs_triggered_by_fkey(full_name)')
+      .order('started_at', { ascending: false })
+      .limit(options.limit || 20);
+
+    if (options.jobKey) {
+      query = query.eq('job_key', options.jobKey);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching scheduled job runs:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  static async setEnabled(jobKey: ScheduledJobKey, enabled: boolean): Promise<ScheduledJob> {
+    const { data, error } = await db
+      .from('scheduled_jobs')
+      .update({ enabled, updated_at: new Date().toISOString() })
+      .eq('key', jobKey)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating scheduled job:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Run a job now, even if it is disabled or not due. Admins only.
+   */
+  static async runNow(jobKey: ScheduledJobKey): Promise<JobRunOutcome> {
+    const { data, error } = await supabase.functions.invoke('run-scheduled-jobs', {
+      body: { job: jobKey }
+    });
+
+    if (error) {
+      console.error('Error running scheduled job:', error);
+      throw new Error(`Failed to run scheduled job: ${error.message || error}`);
+    }
+
+    const outcome = (data?.jobs || [])[0];
+    return outcome || { job: jobKey, runId: null, status: 'skipped' };
+  }
+}
@@ -0,0 +1,243 @@
+import { supabase } from './supabase';
+import { EmailService } from './emailService';
+import type { ReportFilters, ReportFormat, ReportType } from './reportService';
+import { browserReportLibraries } from './reportExport';
+import { isValidTimezone } from './timezoneUtils';
+import { resolveReportWindow, type ReportDateWindow } from '../../supabase/functions/_shared/reports.ts';
+import {
+  REPORT_BUCKET,
+  runReportDefinition,
+  type ReportRunTrigger
+} from '../../supabase/functions/_shared/scheduledReports.ts';
+
+// Report tables are not part of the generated client types
+const db = supabase as any;
+
+/**
+ * Saved report definitions, their schedule and run history. Due definitions
+ * are run by the scheduled_reports job on the server; "Run now" runs one here
+ * with the same code. Every run stores its file in the private `reports` bucket.
+ */
+
+export type { ReportDateWindow, ReportRunTrigger };
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+export type ReportRunStatus = 'running' | 'success' | 'failed';
+
+export interface ReportDefinition {
+  id: string;
+  name: string;
+  report_type: ReportType;
+  format: ReportFormat;
+  filters: ReportFilters;
+  date_window: ReportDateWindow;
+  frequency: ReportFrequency;
+  day_of_week: number; // weekly; Sunday = 0
+  day_of_month: number; // monthly; 1-28
+  run_hour: number;
+  timezone: string;
+  recipients: string[];
+  is_active: boolean;
+  next_run_at?: string | null;
+  last_run_at?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ReportDefinitionInput = Omit<ReportDefinition, 'id' | 'next_run_at' | 'last_run_at' | 'created_by' | 'created_at' | 'updated_at'> & {
+  id?: string;
+};
+
+export interface ReportRun {
+  id: string;
+  definition_id: string;
+  status: ReportRunStatus;
+  trigger_type: ReportRunTrigger;
+  period_start: string | null;
+  period_end: string | null;
+  row_count: number | null;
+  file_path: string | null;
+  file_name: string | null;
+  recipients: string[];
+  emails_sent: number;
+  error: string | null;
+  started_by?: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export { REPORT_BUCKET };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class ScheduledReportService {
+  /**
+   * Split a comma, semicolon or newline separated list into unique addresses
+   */
+  static parseRecipients(value: string): { valid: string[]; invalid: string[] } {
+    const entries = Array.from(new Set(
+      value.split(/[,;\n]/).map(entry => entry.trim().toLowerCase()).filter(Boolean)
+    ));
+    return {
+      valid: entries.filter(entry => EMAIL_PATTERN.test(entry)),
+      invalid: entries.filter(entry => !EMAIL_PATTERN.test(entry))
+    };
+  }
+
+  /**
+   * The period a run covers, in whole local days of the definition's timezone.
+   * Rolling windows end yesterday so a report sent in the morning has no
+   * partial day in it.
+   */
+  static resolveDateWindow(window: ReportDateWindow, timezone: string, now: Date = new Date()): { from: Date; to: Date } {
+    return resolveReportWindow(window, timezone, now);
+  }
+
+  static async getDefinitions(): Promise<ReportDefinition[]> {
+    const { data, error } = await db
+      .from('report_definitions')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching report definitions:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create or update a definition; the database recomputes next_run_at when
+   * the schedule changes.
+   */
+  static async saveDefinition(definition: ReportDefinitionInput, userId?: string): Promise<ReportDefinition> {
+    const name = definition.name.trim();
+    if (!name) {
+      throw new Error('Report name is required');
+    }
+
+    const { valid, invalid } = ScheduledReportService.parseRecipients(definition.recipients.join(','));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid recipient address: ${invalid.join(', ')}`);
+    }
+    if (valid.length === 0) {
+      throw new Error('At least one recipient is required');
+    }
+
+    const payload = {
+      name,
+      report_type: definition.report_type,
+      format: definition.format,
+      filters: definition.filters || {},
+      date_window: definition.date_window,
+      frequency: definition.frequency,
+      day_of_week: definition.day_of_week,
+      day_of_month: definition.day_of_month,
+      run_hour: definition.run_hour,
+      timezone: isValidTimezone(definition.timezone) ? definition.timezone : 'UTC',
+      recipients: valid,
+      is_active: definition.is_active
+    };
+
+    const query = definition.id
+      ? db.from('report_definitions').update(payload).eq('id', definition.id)
+      : db.from('report_definitions').insert({ ...payload, created_by: userId || null });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      console.error('Error saving report definition:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async deleteDefinition(id: string): Promise<void> {
+    const { error } = await db
+      .from('report_definitions')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting report definition:', error);
+      throw error;
+    }
+  }
+
+  static async getRuns(definitionId?: string, limit = 50): Promise<ReportRun[]> {
+    let query = db
+      .from('report_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (definitionId) {
+      query = query.eq('definition_id', definitionId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching report runs:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Signed link to a previous run's file
+   */
+  static async getRunDownloadUrl(run: Pick<ReportRun, 'file_path'>): Promise<string> {
+    if (!run.file_path) {
+      throw new Error('This run has no stored file');
+    }
+
+    const { data, error } = await supabase.storage
+      .from(REPORT_BUCKET)
+      .createSignedUrl(run.file_path, 3600); // 1 hour expiry
+
+    if (error) {
+      console.error('Error creating report download URL:', error);
+      throw error;
+    }
+
+    return data.signedUrl;
+  }
+
+  /**
+   * Generate a definition's report, store it and mail it to the recipients,
+   * with the signed-in user's access. The run row records the outcome either
+   * way; a failed run is returned, not thrown.
+   */
+  static async runDefinition(
+    definition: ReportDefinition,
+    trigger: ReportRunTrigger,
+    userId?: string,
+    now: Date = new Date()
+  ): Promise<ReportRun> {
+    try {
+      return await runReportDefinition(db, definition, trigger, {
+        now,
+        appUrl: window.location.origin,
+        libraries: browserReportLibraries,
+        startedBy: userId,
+        sendEmail: async ({ to, subject, html, text, attachments }) => {
+          const { success, error } = await EmailService.sendEmail({
+            to,
+            subject,
+            htmlContent: html,
+            textContent: text,
+            attachments
+          });
+          if (!success) throw new Error(error || 'Email was not sent');
+        }
+      });
+    } catch (error) {
+      console.error('Error recording report run:', error);
+      throw error;
+    }
+  }
+}
@@ -1,65 +1,22 @@
-import DatabaseService from './database';
+import type { DeliveryRunResult } from './notifications/NotificationDeliveryService';
+import { ScheduledJobService } from './scheduledJobService';
 
+/**
+ * Manual runs of the server-side scheduled jobs. Every job runs on the
+ * server on its own schedule (see ScheduledJobService), whether or not
+ * anyone has the app open, so nothing here runs in the browser.
+ */
 export class ScheduledTasks {
-  private static intervals: NodeJS.Timeout[] = [];
-
-  /**
-   * Start all scheduled tasks
-   */
-  static startAll() {
-    console.log('🕐 Starting scheduled tasks...');
-    
-    // Auto-close tickets every hour
-    const autoCloseInterval = setInterval(async () => {
-      try {
-        console.log('🔄 Running auto-close task...');
-        const closedCount = await DatabaseService.autoCloseInactiveTickets();
-        if (closedCount && closedCount > 0) {
-          console.log(`✅ Auto-closed ${closedCount} tickets`);
-        }
-      } catch (error) {
-        console.error('❌ Error in auto-close task:', error);
-      }
-    }, 60 * 60 * 1000); // Every hour
-
-    // Check SLA warnings every 2 hours (reduced frequency to prevent spam)
-    const slaCheckInterval = setInterval(async () => {
-      try {
-        console.log('🔄 Running SLA check task...');
-        const result = await DatabaseService.checkSLAWarnings();
-        if (result.warnings > 0 || result.breaches > 0) {
-          console.log(`⚠️ SLA Check: ${result.warnings} warnings, ${result.breaches} breaches`);
-        } else {
-          console.log('✅ SLA Check: No warnings or breaches detected');
-        }
-      } catch (error) {
-        console.error('❌ Error in SLA check task:', error);
-      }
-    }, 2 * 60 * 60 * 1000); // Every 2 hours
-
-    this.intervals.push(autoCloseInterval, slaCheckInterval);
-    console.log('✅ Scheduled tasks started');
-  }
-
   /**
-   * Stop all scheduled tasks
-   */
-  static stopAll() {
-    console.log('🛑 Stopping scheduled tasks...');
-    this.intervals.forEach(interval => clearInterval(interval));
-    this.intervals = [];
-    console.log('✅ Scheduled tasks stopped');
-  }
-
-  /**
-   * Run auto-close task manually
+   * Run the auto-close job now on the server
    */
   static async runAutoClose() {
     console.log('🔄 Running manual auto-close task...');
     try {
-      const closedCount = await DatabaseService.autoCloseInactiveTickets();
-      console.log(`✅ Manual auto-close completed: ${closedCount || 0} tickets closed`);
-      return closedCount || 0;
+      const outcome = await ScheduledJobService.runNow('auto_close');
+      const closedCount = outcome.result?.closed || 0;
+      console.log(`✅ Manual auto-close completed: ${closedCount} tickets closed`);
+      return closedCount;
     } catch (error) {
       console.error('❌ Error in manual auto-close task:', error);
       return 0;
@@ -67,12 +24,13 @@ export class ScheduledTasks {
   }
 
   /**
-   * Run SLA check task manually
+   * Run the SLA check job now on the server
    */
   static async runSLACheck() {
     console.log('🔄 Running manual SLA check task...');
     try {
-      const result = await DatabaseService.checkSLAWarnings();
+      const outcome = await ScheduledJobService.runNow('sla_check');
+      const result = { warnings: outcome.result?.warnings || 0, breaches: outcome.result?.breaches || 0 };
       console.log(`✅ Manual SLA check completed: ${result.warnings} warnings, ${result.breaches} breaches`);
       return result;
     } catch (error) {
@@ -82,25 +40,82 @@ export class ScheduledTasks {
   }
 
   /**
-   * Get task status
+   * Run the escalations job now on the server
    */
-  static getStatus() {
-    return {
-      running: this.intervals.length > 0,
-      taskCount: this.intervals.length
-    };
+  static async runEscalations() {
+    console.log('🔄 Running manual escalation task...');
+    try {
+      const outcome = await ScheduledJobService.runNow('escalations');
+      const result = {
+        executed: outcome.result?.executed || 0,
+        skipped: outcome.result?.skipped || 0,
+        failed: outcome.result?.failed || 0
+      };
+      console.log(`✅ Manual escalation completed: ${result.executed} executed, ${result.skipped} skipped, ${result.failed} failed`);
+      return result;
+    } catch (error) {
+      console.error('❌ Error in manual escalation task:', error);
+      return { executed: 0, skipped: 0, failed: 0 };
+    }
+  }
+
+  /**
+   * Run the notification digests job now on the server
+   */
+  static async runNotificationDelivery() {
+    console.log('🔄 Running manual notification delivery task...');
+    try {
+      const outcome = await ScheduledJobService.runNow('notification_digests');
+      const result: DeliveryRunResult = {
+        released: outcome.result?.released || 0,
+        digestsSent: outcome.result?.sent || 0,
+        digestsFailed: outcome.result?.failed || 0
+      };
+      console.log(`✅ Manual notification delivery completed: ${result.released} released, ${result.digestsSent} digests sent`);
+      return result;
+    } catch (error) {
+      console.error('❌ Error in manual notification delivery task:', error);
+      return { released: 0, digestsSent: 0, digestsFailed: 0 };
+    }
   }
-}
 
-// Auto-start tasks when module is imported (only in browser environment)
-if (typeof window !== 'undefined') {
-  // Start tasks after a short delay to ensure everything is initialized
-  setTimeout(() => {
-    ScheduledTasks.startAll();
-  }, 5000);
+  /**
+   * Run the scheduled reports job now on the server
+   */
+  static async runScheduledReports() {
+    console.log('🔄 Running manual scheduled reports task...');
+    try {
+      const outcome = await ScheduledJobService.runNow('scheduled_reports');
+      const result = {
+        processed: (outcome.result?.generated || 0) + (outcome.result?.failed || 0),
+        failed: outcome.result?.failed || 0
+      };
+      console.log(`✅ Manual scheduled reports completed: ${result.processed} run, ${result.failed} failed`);
+      return result;
+    } catch (error) {
+      console.error('❌ Error in manual scheduled reports task:', error);
+      return { processed: 0, failed: 0 };
+    }
+  }
 
-  // Stop tasks when page is unloaded
-  window.addEventListener('beforeunload', () => {
-    ScheduledTasks.stopAll();
-  });
+  /**
+   * Run the webhook dispatch job now on the server
+   */
+  static async runWebhookDispatch() {
+    console.log('🔄 Running manual webhook dispatch task...');
+    try {
+      const outcome = await ScheduledJobService.runNow('webhook_dispatch');
+      const result = {
+        processed: outcome.result?.processed || 0,
+        succeeded: outcome.result?.succeeded || 0,
+        retrying: outcome.result?.retrying || 0,
+        failed: outcome.result?.failed || 0
+      };
+      console.log(`✅ Manual webhook dispatch completed: ${result.succeeded} delivered, ${result.failed} failed`);
+      return result;
+    } catch (error) {
+      console.error('❌ Error in manual webhook dispatch task:', error);
+      return { processed: 0, succeeded: 0, retrying: 0, failed: 0 };
+    }
+  }
 }
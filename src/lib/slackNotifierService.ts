@@ -0,0 +1,134 @@
+import { supabase } from './supabase';
+import { WebhookService, type WebhookEndpoint, type WebhookEventType } from './webhookService';
+
+// Slack tables are not part of the generated client types
+const db = supabase as any;
+
+/**
+ * Slack channels are webhook endpoints with format 'slack' (one incoming
+ * webhook URL per channel). Routing rules are evaluated in order by
+ * queue_webhook_event and the first rule matching the ticket's category and
+ * priority picks the channel.
+ */
+
+export interface SlackRoutingRule {
+  id: string;
+  endpoint_id: string;
+  category_id: string | null; // null matches any category
+  priorities: string[]; // empty matches any priority
+  sort_order: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type SlackRoutingRuleInput = Omit<SlackRoutingRule, 'id' | 'sort_order' | 'created_at' | 'updated_at'> & {
+  id?: string;
+};
+
+export class SlackNotifierService {
+  static async getChannels(): Promise<WebhookEndpoint[]> {
+    return WebhookService.getEndpoints('slack');
+  }
+
+  static async saveChannel(
+    channel: { id?: string; name: string; channel?: string | null; url: string; events: WebhookEventType[]; is_active: boolean },
+    userId?: string
+  ): Promise<WebhookEndpoint> {
+    return WebhookService.saveEndpoint({ ...channel, format: 'slack' }, userId);
+  }
+
+  static async getRoutingRules(): Promise<SlackRoutingRule[]> {
+    const { data, error } = await db
+      .from('slack_routing_rules')
+      .select('*')
+      .order('sort_order')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching Slack routing rules:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * New rules are added after the existing ones
+   */
+  static async saveRoutingRule(rule: SlackRoutingRuleInput): Promise<SlackRoutingRule> {
+    const payload = {
+      endpoint_id: rule.endpoint_id,
+      category_id: rule.category_id || null,
+      priorities: rule.priorities,
+      is_active: rule.is_active
+    };
+
+    let query;
+    if (rule.id) {
+      query = db.from('slack_routing_rules').update(payload).eq('id', rule.id);
+    } else {
+      const existing = await SlackNotifierService.getRoutingRules();
+      const sortOrder = existing.reduce((max, current) => Math.max(max, current.sort_order), -1) + 1;
+      query = db.from('slack_routing_rules').insert({ ...payload, sort_order: sortOrder });
+    }
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      console.error('Error saving Slack routing rule:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async deleteRoutingRule(id: string): Promise<void> {
+    const { error } = await db
+      .from('slack_routing_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting Slack routing rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a rule one place up or down and renumber the list
+   */
+  static async moveRoutingRule(rules: SlackRoutingRule[], id: string, direction: -1 | 1): Promise<SlackRoutingRule[]> {
+    const index = rules.findIndex(rule => rule.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= rules.length) return rules;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    const changed = reordered
+      .map((rule, position) => ({ ...rule, sort_order: position }))
+      .filter((rule, position) => rules[position]?.id !== rule.id || rules[position].sort_order !== position);
+
+    for (const rule of changed) {
+      const { error } = await db
+        .from('slack_routing_rules')
+        .update({ sort_order: rule.sort_order })
+        .eq('id', rule.id);
+
+      if (error) {
+        console.error('Error reordering Slack routing rules:', error);
+        throw error;
+      }
+    }
+
+    return reordered.map((rule, position) => ({ ...rule, sort_order: position }));
+  }
+
+  /**
+   * Post a test message to a channel right away
+   */
+  static async sendTestMessage(endpointId: string, message: string) {
+    return WebhookService.sendTest(endpointId, message);
+  }
+}
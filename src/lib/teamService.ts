@@ -0,0 +1,288 @@
+import { supabase } from '@/lib/supabase';
+import {
+  findTeam,
+  loadTeams,
+  routeWithinTeam,
+  type Team,
+  type TeamRole,
+  type TeamRoutingResult,
+  type TicketQueue
+} from '../../supabase/functions/_shared/teamRouting.ts';
+
+// Team and queue tables are not part of the generated client types
+const db = supabase as any;
+
+// Routing is shared with the escalations job
+export {
+  pickTeamAgent,
+  type Team,
+  type TeamMember,
+  type TeamRole,
+  type TeamRoutingResult,
+  type TicketQueue
+} from '../../supabase/functions/_shared/teamRouting.ts';
+
+export interface QueueCounts {
+  unassigned: number; // open tickets waiting to be pulled
+  active: number;     // open and in progress, assigned or not
+}
+
+const ACTIVE_STATUSES = ['open', 'in_progress'];
+
+/**
+ * URL-safe identifier for a team name; assignment rules refer to teams by it
+ */
+export function slugifyTeamName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+class TeamService {
+  /**
+   * All teams with their members and queues, by name
+   */
+  async getTeams(): Promise<Team[]> {
+    return loadTeams(db);
+  }
+
+  /**
+   * A team by id or slug
+   */
+  async findTeam(ref: string): Promise<Team | null> {
+    return findTeam(await this.getTeams(), ref);
+  }
+
+  async saveTeam(team: Pick<Team, 'name'> & Partial<Pick<Team, 'id' | 'slug' | 'description' | 'is_active'>>): Promise<Team> {
+    const slug = slugifyTeamName(team.slug || team.name);
+    if (!slug) {
+      throw new Error('Team name must contain letters or digits');
+    }
+
+    const { data, error } = await db
+      .from('teams')
+      .upsert({
+        ...(team.id ? { id: team.id } : {}),
+        name: team.name.trim(),
+        slug,
+        description: team.description || null,
+        is_active: team.is_active ?? true,
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving team:', error);
+      throw error;
+    }
+
+    return { ...data, members: [], queues: [] };
+  }
+
+  async deleteTeam(teamId: string): Promise<void> {
+    const { error } = await db
+      .from('teams')
+      .delete()
+      .eq('id', teamId);
+
+    if (error) {
+      console.error('Error deleting team:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a team's membership
+   */
+  async saveMembers(teamId: string, members: Array<{ user_id: string; role: TeamRole }>): Promise<void> {
+    const { error: deleteError } = await db
+      .from('team_members')
+      .delete()
+      .eq('team_id', teamId);
+
+    if (deleteError) {
+      console.error('Error clearing team members:', deleteError);
+      throw deleteError;
+    }
+
+    if (members.length === 0) return;
+
+    const { error } = await db
+      .from('team_members')
+      .insert(members.map(member => ({ team_id: teamId, user_id: member.user_id, role: member.role })));
+
+    if (error) {
+      console.error('Error saving team members:', error);
+      throw error;
+    }
+  }
+
+  async saveQueue(queue: Pick<TicketQueue, 'team_id' | 'name'> & Partial<Omit<TicketQueue, 'team_id' | 'name'>>): Promise<TicketQueue> {
+    // A team has at most one default queue
+    if (queue.is_default) {
+      let resetQuery = db.from('ticket_queues').update({ is_default: false }).eq('team_id', queue.team_id).eq('is_default', true);
+      if (queue.id) {
+        resetQuery = resetQuery.neq('id', queue.id);
+      }
+      const { error: resetError } = await resetQuery;
+      if (resetError) {
+        console.error('Error resetting default queue:', resetError);
+        throw resetError;
+      }
+    }
+
+    const { data, error } = await db
+      .from('ticket_queues')
+      .upsert({
+        ...(queue.id ? { id: queue.id } : {}),
+        team_id: queue.team_id,
+        name: queue.name.trim(),
+        description: queue.description || null,
+        is_default: queue.is_default ?? false,
+        sort_order: queue.sort_order ?? 0,
+        is_active: queue.is_active ?? true,
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving queue:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async deleteQueue(queueId: string): Promise<void> {
+    const { error } = await db
+      .from('ticket_queues')
+      .delete()
+      .eq('id', queueId);
+
+    if (error) {
+      console.error('Error deleting queue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Active queues, with their team. Pass a user id to get only the queues of
+   * that user's teams.
+   */
+  async getQueues(options: { memberId?: string } = {}): Promise<TicketQueue[]> {
+    let query = db
+      .from('ticket_queues')
+      .select('*, team:teams!inner(name, slug, is_active)')
+      .eq('is_active', true)
+      .eq('team.is_active', true);
+
+    if (options.memberId) {
+      const { data: memberships, error: membershipError } = await db
+        .from('team_members')
+        .select('team_id')
+        .eq('user_id', options.memberId);
+
+      if (membershipError) {
+        console.error('Error fetching team memberships:', membershipError);
+        throw membershipError;
+      }
+
+      const teamIds = (memberships || []).map((row: { team_id: string }) => row.team_id);
+      if (teamIds.length === 0) return [];
+      query = query.in('team_id', teamIds);
+    }
+
+    const { data, error } = await query.order('sort_order', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching queues:', error);
+      throw error;
+    }
+
+    return (data || []).sort((a: TicketQueue, b: TicketQueue) =>
+      (a.team?.name || '').localeCompare(b.team?.name || '') || a.sort_order - b.sort_order
+    );
+  }
+
+  /**
+   * Open ticket counts per queue
+   */
+  async getQueueCounts(queueIds: string[]): Promise<Record<string, QueueCounts>> {
+    const counts: Record<string, QueueCounts> = Object.fromEntries(
+      queueIds.map(queueId => [queueId, { unassigned: 0, active: 0 }])
+    );
+    if (queueIds.length === 0) return counts;
+
+    const { data, error } = await db
+      .from('tickets_new')
+      .select('queue_id, assigned_to, status')
+      .in('queue_id', queueIds)
+      .in('status', ACTIVE_STATUSES);
+
+    if (error) {
+      console.error('Error counting queue tickets:', error);
+      throw error;
+    }
+
+    for (const ticket of data || []) {
+      const queueCounts = counts[ticket.queue_id];
+      if (!queueCounts) continue;
+      queueCounts.active++;
+      if (!ticket.assigned_to && ticket.status === 'open') {
+        queueCounts.unassigned++;
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Put a ticket in a queue (the ticket takes the queue's team), or take it out
+   */
+  async moveTicketToQueue(ticketId: string, queueId: string | null): Promise<void> {
+    const { error } = await db
+      .from('tickets_new')
+      .update({ queue_id: queueId, updated_at: new Date().toISOString() })
+      .eq('id', ticketId);
+
+    if (error) {
+      console.error('Error moving ticket to queue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assign the next ticket from one queue, or from any of the signed-in
+   * agent's queues, to the signed-in agent. Resolves to null when there is
+   * nothing to pull.
+   */
+  async pullNextTicket(queueId?: string): Promise<string | null> {
+    const { data, error } = await db.rpc('pull_next_ticket', { p_queue_id: queueId ?? null });
+
+    if (error) {
+      console.error('Error pulling next ticket:', error);
+      throw error;
+    }
+
+    return data || null;
+  }
+
+  /**
+   * Resolve a team reference (slug or id) from an assignment rule to an agent
+   * and/or the team's default queue. Excluded agents are never picked, e.g.
+   * the current assignee when a ticket is escalated away from them.
+   */
+  async routeToTeam(ref: string, options: { excludeAgentIds?: string[] } = {}): Promise<TeamRoutingResult | null> {
+    const team = await this.findTeam(ref);
+    if (!team || !team.is_active) return null;
+
+    return routeWithinTeam(db, team, options);
+  }
+}
+
+export const teamService = new TeamService();
@@ -0,0 +1,94 @@
+// How far back a requester's tickets count as possible duplicates of a new one
+export const DUPLICATE_WINDOW_DAYS = 14;
+// Scores from 0 (nothing in common) to 1 (same words); below this is noise
+export const DUPLICATE_THRESHOLD = 0.45;
+export const MAX_DUPLICATE_CANDIDATES = 5;
+
+/**
+ * A recent ticket of the same requester that may describe the same problem
+ */
+export interface DuplicateCandidate {
+  id: string;
+  ticket_number?: string | null;
+  title: string;
+  status: string;
+  created_at: string;
+  score: number;
+}
+
+interface ComparableTicket {
+  id?: string;
+  title?: string | null;
+  description?: string | null;
+}
+
+// Words that say nothing about the problem, in the languages tickets come in
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'not', 'can', 'cannot', 'cant', 'does', 'doesnt', 'dont', 'is', 'are', 'was',
+  'my', 'our', 'please', 'help', 'issue', 'problem', 'error', 'hello', 'thanks', 'from', 'this', 'that',
+  'have', 'has', 'been', 'when', 'after', 'again', 'still', 'any', 'working', 'work',
+  'nao', 'com', 'para', 'por', 'uma', 'meu', 'minha', 'esta', 'estou', 'problema', 'erro', 'ajuda',
+  'favor', 'obrigado', 'obrigada', 'funciona', 'funcionando', 'consigo', 'que', 'dos', 'das',
+  'los', 'las', 'del', 'una', 'mi', 'con', 'sin', 'les', 'des', 'une', 'pour', 'avec', 'pas',
+  'het', 'een', 'niet', 'mijn', 'der', 'die', 'und', 'ein', 'eine', 'nicht', 'mein', 'meine'
+]);
+
+/**
+ * Distinct meaningful words of a text: lowercase, without accents, stop words
+ * or words under three letters. Short codes with digits (E4, 2FA) are kept.
+ */
+export function tokenize(text?: string | null): Set<string> {
+  const words = (text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => (word.length > 2 || /\d/.test(word)) && !STOP_WORDS.has(word));
+  return new Set(words);
+}
+
+// Dice coefficient of two word sets
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * How alike two tickets read. Titles weigh most; descriptions only add to it,
+ * so a long shared signature or template does not make tickets look alike on
+ * its own.
+ */
+export function ticketSimilarity(a: ComparableTicket, b: ComparableTicket): number {
+  const titleScore = overlap(tokenize(a.title), tokenize(b.title));
+  const descriptionScore = overlap(tokenize(a.description), tokenize(b.description));
+
+  return Math.round((titleScore * 0.7 + descriptionScore * 0.3) * 100) / 100;
+}
+
+/**
+ * The requester's recent tickets that look like the new one, most alike first
+ */
+export function rankDuplicateCandidates<T extends ComparableTicket & Omit<DuplicateCandidate, 'score'>>(
+  ticket: ComparableTicket,
+  recent: T[],
+  threshold = DUPLICATE_THRESHOLD,
+  limit = MAX_DUPLICATE_CANDIDATES
+): DuplicateCandidate[] {
+  return recent
+    .filter(candidate => candidate.id !== ticket.id)
+    .map(candidate => ({
+      id: candidate.id,
+      ticket_number: candidate.ticket_number,
+      title: candidate.title,
+      status: candidate.status,
+      created_at: candidate.created_at,
+      score: ticketSimilarity(ticket, candidate)
+    }))
+    .filter(candidate => candidate.score >= threshold)
+    .sort((a, b) => b.score - a.score || b.created_at.localeCompare(a.created_at))
+    .slice(0, limit);
+}
@@ -0,0 +1,258 @@
+import { supabase } from '@/lib/supabase';
+import { DatabaseService } from './database';
+
+// Ticket links are not part of the generated client types
+const db = supabase as any;
+
+/** How a link is stored: "source <type> target" */
+export type TicketLinkType = 'parent_of' | 'blocks' | 'related' | 'duplicate_of';
+
+/** A link as seen from one of its two tickets */
+export type TicketRelation =
+  | 'parent'
+  | 'child'
+  | 'blocks'
+  | 'blocked_by'
+  | 'related'
+  | 'duplicate_of'
+  | 'duplicated_by';
+
+export interface LinkedTicketSummary {
+  id: string;
+  ticket_number?: string | null;
+  title: string;
+  status: string;
+  priority?: string;
+}
+
+export interface TicketLink {
+  id: string;
+  source_ticket_id: string;
+  target_ticket_id: string;
+  link_type: TicketLinkType;
+  created_by?: string | null;
+  created_at?: string;
+  source?: LinkedTicketSummary | null;
+  target?: LinkedTicketSummary | null;
+}
+
+export interface RelatedTicket {
+  link_id: string;
+  relation: TicketRelation;
+  ticket: LinkedTicketSummary;
+}
+
+// Display order of the relationships panel
+export const TICKET_RELATIONS: TicketRelation[] = [
+  'parent',
+  'child',
+  'blocked_by',
+  'blocks',
+  'duplicate_of',
+  'duplicated_by',
+  'related'
+];
+
+const OPEN_STATUSES = ['open', 'pending', 'in_progress'];
+
+// relation -> stored type, and whether the viewed ticket is the source
+const RELATION_STORAGE: Record<TicketRelation, { type: TicketLinkType; isSource: boolean }> = {
+  parent: { type: 'parent_of', isSource: false },
+  child: { type: 'parent_of', isSource: true },
+  blocks: { type: 'blocks', isSource: true },
+  blocked_by: { type: 'blocks', isSource: false },
+  related: { type: 'related', isSource: true },
+  duplicate_of: { type: 'duplicate_of', isSource: true },
+  duplicated_by: { type: 'duplicate_of', isSource: false }
+};
+
+/**
+ * The row that records "ticketId <relation> otherId", e.g. ("A", "B", "parent")
+ * is stored as "B parent_of A"
+ */
+export function relationToLink(
+  ticketId: string,
+  otherId: string,
+  relation: TicketRelation
+): Pick<TicketLink, 'source_ticket_id' | 'target_ticket_id' | 'link_type'> {
+  const { type, isSource } = RELATION_STORAGE[relation];
+  return isSource
+    ? { source_ticket_id: ticketId, target_ticket_id: otherId, link_type: type }
+    : { source_ticket_id: otherId, target_ticket_id: ticketId, link_type: type };
+}
+
+/**
+ * What the other ticket of a link is to ticketId ("B parent_of A" seen from A
+ * is B as its parent)
+ */
+export function linkToRelation(link: TicketLink, ticketId: string): { relation: TicketRelation; otherId: string } {
+  const isSource = link.source_ticket_id === ticketId;
+  const otherId = isSource ? link.target_ticket_id : link.source_ticket_id;
+
+  switch (link.link_type) {
+    case 'parent_of':
+      return { relation: isSource ? 'child' : 'parent', otherId };
+    case 'blocks':
+      return { relation: isSource ? 'blocks' : 'blocked_by', otherId };
+    case 'duplicate_of':
+      return { relation: isSource ? 'duplicate_of' : 'duplicated_by', otherId };
+    default:
+      return { relation: 'related', otherId };
+  }
+}
+
+/**
+ * Links of a ticket grouped by what the other ticket is to it, in panel order
+ */
+export function groupRelations(links: TicketLink[], ticketId: string): Partial<Record<TicketRelation, RelatedTicket[]>> {
+  const groups: Partial<Record<TicketRelation, RelatedTicket[]>> = {};
+
+  for (const link of links) {
+    const { relation, otherId } = linkToRelation(link, ticketId);
+    const ticket = otherId === link.source_ticket_id ? link.source : link.target;
+    if (!ticket) continue;
+    if (!groups[relation]) groups[relation] = [];
+    groups[relation].push({ link_id: link.id, relation, ticket });
+  }
+
+  return Object.fromEntries(
+    TICKET_RELATIONS.filter(relation => groups[relation]).map(relation => [relation, groups[relation]])
+  );
+}
+
+/**
+ * Why a link cannot be added, or null. The database enforces the same rules;
+ * checking here gives a readable message before the round trip.
+ */
+export function validateLink(
+  ticketId: string,
+  otherId: string,
+  relation: TicketRelation,
+  existing: TicketLink[]
+): string | null {
+  if (!otherId) return 'Choose a ticket to link';
+  if (otherId === ticketId) return 'A ticket cannot be linked to itself';
+
+  const wanted = relationToLink(ticketId, otherId, relation);
+  const sameLink = existing.some(link =>
+    link.link_type === wanted.link_type && (
+      (link.source_ticket_id === wanted.source_ticket_id && link.target_ticket_id === wanted.target_ticket_id) ||
+      (wanted.link_type === 'related' &&
+        link.source_ticket_id === wanted.target_ticket_id && link.target_ticket_id === wanted.source_ticket_id)
+    )
+  );
+  if (sameLink) return 'These tickets are already linked this way';
+
+  if (relation === 'parent' && existing.some(link => linkToRelation(link, ticketId).relation === 'parent')) {
+    return 'This ticket already has a parent';
+  }
+  if (relation === 'child' && existing.some(link => {
+    const seen = linkToRelation(link, ticketId);
+    return seen.relation === 'parent' && seen.otherId === otherId;
+  })) {
+    return 'The parent of a ticket cannot also be its child';
+  }
+
+  return null;
+}
+
+class TicketLinkService {
+  async getLinks(ticketId: string): Promise<TicketLink[]> {
+    const { data, error } = await db
+      .from('ticket_links')
+      .select(`
+        *,
+        source:tickets_new!ticket_links_source_ticket_id_fkey(id, ticket_number, title, status, priority),
+        target:tickets_new!ticket_links_target_ticket_id_fkey(id, ticket_number, title, status, priority)
+      `)
+      .or(`source_ticket_id.eq.${ticketId},target_ticket_id.eq.${ticketId}`)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching ticket links:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async addLink(ticketId: string, otherId: string, relation: TicketRelation): Promise<TicketLink> {
+    const validationError = validateLink(ticketId, otherId, relation, await this.getLinks(ticketId));
+    if (validationError) throw new Error(validationError);
+
+    const { data, error } = await db
+      .from('ticket_links')
+      .insert({
+        ...relationToLink(ticketId, otherId, relation),
+        created_by: (await supabase.auth.getUser()).data.user?.id ?? null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error linking tickets:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async removeLink(linkId: string): Promise<void> {
+    const { error } = await db.from('ticket_links').delete().eq('id', linkId);
+
+    if (error) {
+      console.error('Error removing ticket link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Children of a ticket that are not resolved or closed yet
+   */
+  async getOpenChildren(parentId: string): Promise<LinkedTicketSummary[]> {
+    const { data, error } = await db
+      .from('ticket_links')
+      .select('child:tickets_new!ticket_links_target_ticket_id_fkey(id, ticket_number, title, status, priority)')
+      .eq('source_ticket_id', parentId)
+      .eq('link_type', 'parent_of');
+
+    if (error) {
+      console.error('Error fetching child tickets:', error);
+      throw error;
+    }
+
+    return (data || [])
+      .map((row: { child: LinkedTicketSummary | null }) => row.child)
+      .filter((child: LinkedTicketSummary | null) => child && OPEN_STATUSES.includes(child.status));
+  }
+
+  /**
+   * Resolves the open children of a resolved parent with the parent's note.
+   * Each child goes through resolveTicket, so its requester gets the usual
+   * resolution notification and feedback request. A child that fails does not
+   * stop the others.
+   */
+  async cascadeResolution(
+    parentId: string,
+    resolutionNotes: string,
+    resolvedBy: string
+  ): Promise<{ resolved: string[]; failed: string[] }> {
+    const children = await this.getOpenChildren(parentId);
+    const resolved: string[] = [];
+    const failed: string[] = [];
+
+    for (const child of children) {
+      try {
+        await DatabaseService.resolveTicket(child.id, resolutionNotes, resolvedBy);
+        resolved.push(child.id);
+      } catch (error) {
+        console.warn(`⚠️ Could not resolve child ticket ${child.ticket_number || child.id} (non-blocking):`, error);
+        failed.push(child.id);
+      }
+    }
+
+    return { resolved, failed };
+  }
+}
+
+export const ticketLinkService = new TicketLinkService();
@@ -0,0 +1,224 @@
+import { supabase } from '@/lib/supabase';
+
+// search_tickets is not part of the generated client types
+const db = supabase as any;
+
+/**
+ * A search box query split into full-text parts and filters, e.g.
+ * `status:open priority:urgent assignee:me created:>2026-01-01 "exact phrase" printer`
+ */
+export interface ParsedTicketQuery {
+  terms: string[];
+  phrases: string[];
+  statuses: string[];
+  priorities: string[];
+  assignee?: string; // 'me', 'none', or an email or name
+  requester?: string; // 'me', or an email or name
+  createdFrom?: string; // YYYY-MM-DD, inclusive
+  createdTo?: string; // YYYY-MM-DD, exclusive
+}
+
+export interface TicketSearchResult {
+  ticket_id: string;
+  ticket_number: string | null;
+  title: string;
+  status: string;
+  priority: string | null;
+  rank: number;
+  snippet: string | null;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Markers ts_headline puts around matches in snippets
+export const SNIPPET_START = '⟦';
+export const SNIPPET_STOP = '⟧';
+
+const STATUSES = ['open', 'pending', 'in_progress', 'resolved', 'closed'];
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const FILTER_KEYS: Record<string, 'status' | 'priority' | 'assignee' | 'requester' | 'created'> = {
+  status: 'status',
+  is: 'status',
+  priority: 'priority',
+  assignee: 'assignee',
+  assigned: 'assignee',
+  requester: 'requester',
+  creator: 'requester',
+  created: 'created'
+};
+
+const addDays = (date: string, days: number): string => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+const isValidDate = (date: string): boolean =>
+  DATE_PATTERN.test(date) && !Number.isNaN(new Date(`${date}T00:00:00Z`).getTime()) &&
+  new Date(`${date}T00:00:00Z`).toISOString().slice(0, 10) === date;
+
+/**
+ * The [from, to) range of a created: value: `>d`, `>=d`, `<d`, `<=d`, `d`
+ * (that day) or `d1..d2` (both days included). Null when it is not a date.
+ */
+export function parseDateRange(value: string): { from?: string; to?: string } | null {
+  const range = value.match(/^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/);
+  if (range) {
+    return isValidDate(range[1]) && isValidDate(range[2]) ? { from: range[1], to: addDays(range[2], 1) } : null;
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<|=)?(.+)$/);
+  if (!comparison || !isValidDate(comparison[2])) return null;
+  const [, operator = '=', date] = comparison;
+
+  switch (operator) {
+    case '>': return { from: addDays(date, 1) };
+    case '>=': return { from: date };
+    case '<': return { to: date };
+    case '<=': return { to: addDays(date, 1) };
+    default: return { from: date, to: addDays(date, 1) };
+  }
+}
+
+/**
+ * Splits a search box query into words, quoted phrases and key:value filters.
+ * A filter with an unknown key or an invalid value stays in the text, so
+ * "error:404" is still searched for.
+ */
+export function parseTicketQuery(input: string): ParsedTicketQuery {
+  const parsed: ParsedTicketQuery = { terms: [], phrases: [], statuses: [], priorities: [] };
+  const tokens = input.match(/(\w+):("[^"]*"|\S+)|"[^"]*"?|\S+/g) || [];
+
+  for (const token of tokens) {
+    const filter = token.match(/^(\w+):(.+)$/);
+    const key = filter ? FILTER_KEYS[filter[1].toLowerCase()] : undefined;
+
+    if (filter && key) {
+      const value = filter[2].replace(/^"|"$/g, '').trim();
+      const lowered = value.toLowerCase();
+
+      if (key === 'status' || key === 'priority') {
+        const allowed = key === 'status' ? STATUSES : PRIORITIES;
+        const values = lowered.split(',').map(item => item.replace('-', '_')).filter(Boolean);
+        if (values.length > 0 && values.every(item => allowed.includes(item))) {
+          const target = key === 'status' ? parsed.statuses : parsed.priorities;
+          values.forEach(item => { if (!target.includes(item)) target.push(item); });
+          continue;
+        }
+      } else if (key === 'created') {
+        const range = parseDateRange(value);
+        if (range) {
+          if (range.from) parsed.createdFrom = range.from;
+          if (range.to) parsed.createdTo = range.to;
+          continue;
+        }
+      } else if (value) {
+        parsed[key] = ['me', 'none'].includes(lowered) ? lowered : value;
+        continue;
+      }
+    }
+
+    if (token.startsWith('"')) {
+      const phrase = token.replace(/"/g, '').trim();
+      if (phrase) parsed.phrases.push(phrase);
+    } else {
+      parsed.terms.push(token);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Whether the query asks for anything at all
+ */
+export function isEmptyTicketQuery(query: ParsedTicketQuery): boolean {
+  return query.terms.length === 0 && query.phrases.length === 0 && query.statuses.length === 0 &&
+    query.priorities.length === 0 && !query.assignee && !query.requester && !query.createdFrom && !query.createdTo;
+}
+
+/**
+ * A snippet split into plain and highlighted parts, for rendering without HTML
+ */
+export function splitSnippet(snippet: string | null | undefined): HighlightSegment[] {
+  if (!snippet) return [];
+
+  const segments: HighlightSegment[] = [];
+  let rest = snippet;
+  while (rest) {
+    const start = rest.indexOf(SNIPPET_START);
+    const stop = start === -1 ? -1 : rest.indexOf(SNIPPET_STOP, start);
+    if (start === -1 || stop === -1) {
+      segments.push({ text: rest.replace(SNIPPET_START, '').replace(SNIPPET_STOP, ''), match: false });
+      break;
+    }
+    if (start > 0) segments.push({ text: rest.slice(0, start), match: false });
+    segments.push({ text: rest.slice(start + SNIPPET_START.length, stop), match: true });
+    rest = rest.slice(stop + SNIPPET_STOP.length);
+  }
+
+  return segments.filter(segment => segment.text);
+}
+
+class TicketSearchService {
+  /**
+   * Runs a search box query. `me` in assignee:/requester: is the given user;
+   * other values are looked up by email or name, and a person nobody matches
+   * finds no tickets.
+   */
+  async search(input: string, options: { userId?: string; limit?: number } = {}): Promise<TicketSearchResult[]> {
+    const query = parseTicketQuery(input);
+    if (isEmptyTicketQuery(query)) return [];
+
+    const [assigneeIds, requesterIds] = await Promise.all([
+      query.assignee && query.assignee !== 'none' ? this.resolveUsers(query.assignee, options.userId) : null,
+      query.requester ? this.resolveUsers(query.requester, options.userId) : null
+    ]);
+    if (assigneeIds?.length === 0 || requesterIds?.length === 0) return [];
+
+    const { data, error } = await db.rpc('search_tickets', {
+      p_terms: query.terms.join(' ') || null,
+      p_phrases: query.phrases.length > 0 ? query.phrases : null,
+      p_statuses: query.statuses.length > 0 ? query.statuses : null,
+      p_priorities: query.priorities.length > 0 ? query.priorities : null,
+      p_assignee_ids: assigneeIds,
+      p_unassigned: query.assignee === 'none',
+      p_requester_ids: requesterIds,
+      p_created_from: query.createdFrom ?? null,
+      p_created_to: query.createdTo ?? null,
+      p_limit: options.limit ?? 50
+    });
+
+    if (error) {
+      console.error('Error searching tickets:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  private async resolveUsers(value: string, currentUserId?: string): Promise<string[]> {
+    if (value === 'me') return currentUserId ? [currentUserId] : [];
+
+    const pattern = `%${value.replace(/[%_,()]/g, '')}%`;
+    const { data, error } = await db
+      .from('users')
+      .select('id')
+      .or(`email.ilike.${pattern},full_name.ilike.${pattern}`)
+      .limit(20);
+
+    if (error) {
+      console.error('Error resolving search user:', error);
+      throw error;
+    }
+
+    return (data || []).map((user: { id: string }) => user.id);
+  }
+}
+
+export const ticketSearchService = new TicketSearchService();
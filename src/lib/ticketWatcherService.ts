@@ -0,0 +1,270 @@
+import { supabase } from '@/lib/supabase';
+import { EmailService } from './emailService';
+import { preferencesManager } from './notifications/PreferencesManager';
+import type { NotificationType } from '@/types/notifications';
+
+// Watcher and CC tables are not part of the generated client types
+const db = supabase as any;
+
+export interface TicketWatcher {
+  ticket_id: string;
+  user_id: string;
+  added_by?: string | null;
+  created_at?: string;
+  user?: { id: string; full_name: string | null; email: string } | null;
+}
+
+export interface TicketCcEmail {
+  id: string;
+  ticket_id: string;
+  email: string;
+  added_by?: string | null;
+  created_at?: string;
+}
+
+/** A notification as built for the requester/assignee, re-sent to watchers */
+export interface WatcherNotification {
+  type: string;
+  title: string;
+  message: string;
+  priority?: 'low' | 'medium' | 'high';
+}
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+export function normalizeCcEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Why an address cannot be copied on a ticket, or null
+ */
+export function validateCcEmail(email: string, existing: string[]): string | null {
+  const normalized = normalizeCcEmail(email);
+  if (!EMAIL_PATTERN.test(normalized)) return 'Enter a valid email address';
+  if (existing.some(address => normalizeCcEmail(address) === normalized)) {
+    return 'This address is already copied on the ticket';
+  }
+  return null;
+}
+
+/**
+ * Watchers still to notify: each once, skipping those the notification
+ * already reached (requester, assignee) and whoever caused it
+ */
+export function watcherRecipients(watcherIds: string[], exclude: Array<string | null | undefined>): string[] {
+  const skip = new Set(exclude.filter(Boolean));
+  return [...new Set(watcherIds)].filter(id => !skip.has(id));
+}
+
+class TicketWatcherService {
+  async getWatchers(ticketId: string): Promise<TicketWatcher[]> {
+    const { data, error } = await db
+      .from('ticket_watchers')
+      .select('*, user:users!ticket_watchers_user_id_fkey(id, full_name, email)')
+      .eq('ticket_id', ticketId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching ticket watchers:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async isWatching(ticketId: string, userId: string): Promise<boolean> {
+    const { data, error } = await db
+      .from('ticket_watchers')
+      .select('user_id')
+      .eq('ticket_id', ticketId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking ticket watcher:', error);
+      throw error;
+    }
+
+    return !!data;
+  }
+
+  /**
+   * Adds a watcher; following a ticket is adding yourself
+   */
+  async addWatcher(ticketId: string, userId: string): Promise<void> {
+    const { error } = await db
+      .from('ticket_watchers')
+      .upsert({
+        ticket_id: ticketId,
+        user_id: userId,
+        added_by: (await supabase.auth.getUser()).data.user?.id ?? null
+      }, { onConflict: 'ticket_id,user_id', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('Error adding ticket watcher:', error);
+      throw error;
+    }
+  }
+
+  async removeWatcher(ticketId: string, userId: string): Promise<void> {
+    const { error } = await db
+      .from('ticket_watchers')
+      .delete()
+      .eq('ticket_id', ticketId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error removing ticket watcher:', error);
+      throw error;
+    }
+  }
+
+  async getCcEmails(ticketId: string): Promise<TicketCcEmail[]> {
+    const { data, error } = await db
+      .from('ticket_cc_emails')
+      .select('*')
+      .eq('ticket_id', ticketId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching ticket CC addresses:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async addCcEmail(ticketId: string, email: string): Promise<TicketCcEmail> {
+    const existing = await this.getCcEmails(ticketId);
+    const validationError = validateCcEmail(email, existing.map(cc => cc.email));
+    if (validationError) throw new Error(validationError);
+
+    const { data, error } = await db
+      .from('ticket_cc_emails')
+      .insert({
+        ticket_id: ticketId,
+        email: normalizeCcEmail(email),
+        added_by: (await supabase.auth.getUser()).data.user?.id ?? null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding ticket CC address:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async removeCcEmail(ccId: string): Promise<void> {
+    const { error } = await db.from('ticket_cc_emails').delete().eq('id', ccId);
+
+    if (error) {
+      console.error('Error removing ticket CC address:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a notification already built for the requester and assignee to the
+   * ticket's watchers too. A watcher who turned the type off in their
+   * preferences is skipped; delivery timing (batches, digests, quiet hours) is
+   * applied to the inserted rows as for any other notification.
+   * Returns how many watchers were notified.
+   */
+  async notifyWatchers(
+    ticketId: string,
+    notification: WatcherNotification,
+    exclude: Array<string | null | undefined> = []
+  ): Promise<number> {
+    const { data, error } = await db
+      .from('ticket_watchers')
+      .select('user_id')
+      .eq('ticket_id', ticketId);
+
+    if (error) {
+      console.error('Error fetching ticket watchers:', error);
+      throw error;
+    }
+
+    const candidates = watcherRecipients((data || []).map((row: { user_id: string }) => row.user_id), exclude);
+    const recipients: string[] = [];
+
+    for (const userId of candidates) {
+      const preferences = await preferencesManager.getUserPreferences(userId);
+      if (preferences.typePreferences[notification.type as NotificationType]?.enabled !== false) {
+        recipients.push(userId);
+      }
+    }
+
+    if (recipients.length === 0) return 0;
+
+    const { error: insertError } = await db
+      .from('notifications')
+      .insert(recipients.map(userId => ({
+        user_id: userId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        priority: notification.priority || 'medium',
+        ticket_id: ticketId,
+        read: false
+      })));
+
+    if (insertError) {
+      console.error('Error creating watcher notifications:', insertError);
+      throw insertError;
+    }
+
+    console.log(`✅ Notified ${recipients.length} watchers of ${notification.type}`);
+    return recipients.length;
+  }
+
+  /**
+   * Emails a public update to the ticket's CC addresses. They have no account,
+   * so the email carries no reply address. One failed address does not stop
+   * the others. Returns how many emails were sent.
+   */
+  async emailCcs(ticketId: string, updateMessage: string, agentName: string): Promise<number> {
+    const ccEmails = await this.getCcEmails(ticketId);
+    if (ccEmails.length === 0) return 0;
+
+    const { data: ticket, error } = await db
+      .from('tickets_new')
+      .select('ticket_number, title')
+      .eq('id', ticketId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching ticket for CC email:', error);
+      throw error;
+    }
+
+    let sent = 0;
+    for (const cc of ccEmails) {
+      try {
+        const result = await EmailService.sendTicketUpdateNotification(
+          cc.email,
+          cc.email,
+          ticket.ticket_number || '#' + ticketId.slice(-8),
+          ticket.title,
+          updateMessage,
+          agentName
+        );
+        if (result.success) {
+          sent++;
+        } else {
+          console.warn(`⚠️ Could not email CC address ${cc.email} (non-blocking):`, result.error);
+        }
+      } catch (emailError) {
+        console.warn(`⚠️ Could not email CC address ${cc.email} (non-blocking):`, emailError);
+      }
+    }
+
+    return sent;
+  }
+}
+
+export const ticketWatcherService = new TicketWatcherService();
@@ -0,0 +1,5 @@
+/**
+ * Wall-clock helpers for IANA timezones. The implementation lives with the
+ * edge functions so the scheduled SLA job measures time the same way.
+ */
+export * from '../../supabase/functions/_shared/timezone.ts';
@@ -0,0 +1,256 @@
+import { supabase } from './supabase';
+
+// Webhook tables are not part of the generated client types
+const db = supabase as any;
+
+/**
+ * Outbound webhook endpoints and their delivery log. Ticket events are queued
+ * by database triggers and SLA events by the sla_check scheduled job; the
+ * webhook_dispatch scheduled job signs and sends them, so the signing secret
+ * never has to leave the admin screens. Tests and replays go out right away
+ * through the dispatch-webhooks edge function.
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  'ticket.created',
+  'ticket.assigned',
+  'ticket.status_changed',
+  'ticket.commented',
+  'sla.warning',
+  'sla.breach'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+export type WebhookFormat = 'json' | 'slack';
+
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  format: WebhookFormat; // slack endpoints are incoming-webhook URLs posted Block Kit messages
+  channel?: string | null;
+  events: WebhookEventType[];
+  description?: string | null;
+  is_active: boolean;
+  last_delivery_at?: string | null;
+  last_delivery_status?: WebhookDeliveryStatus | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  replay_of: string | null;
+  created_at: string;
+  delivered_at: string | null;
+  event?: { payload: unknown } | null;
+}
+
+export interface DispatchResult {
+  processed: number;
+  succeeded: number;
+  retrying: number;
+  failed: number;
+}
+
+export class WebhookService {
+  /**
+   * Random signing secret; the admin screen shows it after creating or rotating
+   */
+  static generateSecret(): string {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return `whsec_${Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  static validateEndpoint(endpoint: Pick<WebhookEndpoint, 'name' | 'url' | 'events'>): string | null {
+    if (!endpoint.name.trim()) return 'Endpoint name is required';
+
+    let url: URL;
+    try {
+      url = new URL(endpoint.url.trim());
+    } catch {
+      return 'Endpoint URL is not valid';
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'Endpoint URL must use http or https';
+
+    if (endpoint.events.length === 0) return 'Select at least one event';
+    return null;
+  }
+
+  static async getEndpoints(format?: WebhookFormat): Promise<WebhookEndpoint[]> {
+    let query = db
+      .from('webhook_endpoints')
+      .select('*')
+      .order('name');
+
+    if (format) {
+      query = query.eq('format', format);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  static async saveEndpoint(
+    endpoint: Pick<WebhookEndpoint, 'name' | 'url' | 'events' | 'is_active'>
+      & Partial<Pick<WebhookEndpoint, 'id' | 'description' | 'format' | 'channel'>>,
+    userId?: string
+  ): Promise<WebhookEndpoint> {
+    const validationError = WebhookService.validateEndpoint(endpoint);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const payload = {
+      name: endpoint.name.trim(),
+      url: endpoint.url.trim(),
+      events: endpoint.events,
+      description: endpoint.description?.trim() || null,
+      channel: endpoint.channel?.trim() || null,
+      is_active: endpoint.is_active
+    };
+
+    const query = endpoint.id
+      ? db.from('webhook_endpoints').update(payload).eq('id', endpoint.id)
+      : db.from('webhook_endpoints').insert({
+          ...payload,
+          format: endpoint.format || 'json',
+          secret: WebhookService.generateSecret(),
+          created_by: userId || null
+        });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      console.error('Error saving webhook endpoint:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async rotateSecret(endpointId: string): Promise<WebhookEndpoint> {
+    const { data, error } = await db
+      .from('webhook_endpoints')
+      .update({ secret: WebhookService.generateSecret() })
+      .eq('id', endpointId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error rotating webhook secret:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async deleteEndpoint(endpointId: string): Promise<void> {
+    const { error } = await db
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', endpointId);
+
+    if (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      throw error;
+    }
+  }
+
+  static async getDeliveries(options: { endpointId?: string; status?: WebhookDeliveryStatus; limit?: number } = {}): Promise<WebhookDelivery[]> {
+    let query = db
+      .from('webhook_deliveries')
+      .select('*, event:webhook_events(payload)')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 100);
+
+    if (options.endpointId) {
+      query = query.eq('endpoint_id', options.endpointId);
+    }
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Ask the dispatcher to send due deliveries, or one delivery right away
+   */
+  static async dispatch(deliveryId?: string): Promise<DispatchResult> {
+    const { data, error } = await supabase.functions.invoke('dispatch-webhooks', {
+      body: deliveryId ? { deliveryId } : {}
+    });
+
+    if (error) {
+      console.error('Error dispatching webhooks:', error);
+      throw new Error(`Failed to dispatch webhooks: ${error.message || error}`);
+    }
+
+    return {
+      processed: data?.processed || 0,
+      succeeded: data?.succeeded || 0,
+      retrying: data?.retrying || 0,
+      failed: data?.failed || 0
+    };
+  }
+
+  /**
+   * Send a webhook.test event to one endpoint now; Slack channels post the message
+   */
+  static async sendTest(endpointId: string, message?: string): Promise<DispatchResult> {
+    const { data: deliveryId, error } = await db.rpc('send_test_webhook', {
+      p_endpoint_id: endpointId,
+      p_message: message || null
+    });
+
+    if (error) {
+      console.error('Error queueing test webhook:', error);
+      throw error;
+    }
+
+    return WebhookService.dispatch(deliveryId);
+  }
+
+  /**
+   * Queue the logged event again for the same endpoint and send it now
+   */
+  static async replayDelivery(deliveryId: string): Promise<DispatchResult> {
+    const { data: replayId, error } = await db.rpc('replay_webhook_delivery', { p_delivery_id: deliveryId });
+
+    if (error) {
+      console.error('Error replaying webhook delivery:', error);
+      throw error;
+    }
+
+    return WebhookService.dispatch(replayId);
+  }
+}
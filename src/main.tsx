@@ -4,7 +4,6 @@ import DatabaseService from './lib/database'
 import App from './App.tsx'
 import './index.css'
 import './i18n'
-import './lib/scheduledTasks' // Import scheduled tasks to auto-start them
 import './utils/clearSupabaseState' // Auto-fix for _acquireLock errors
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 
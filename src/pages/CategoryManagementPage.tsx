@@ -1,9 +1,11 @@
 import { CategoryManagement } from "@/components/admin/CategoryManagement";
+import { TagManagement } from "@/components/admin/TagManagement";
 
 const CategoryManagementPage = () => {
   return (
-    <div className="p-4 md:p-6">
+    <div className="p-4 md:p-6 space-y-6">
       <CategoryManagement />
+      <TagManagement />
     </div>
   );
 };
@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, CheckCircle, Loader2, Star } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { CsatSurveyService, validateSurveyAnswer, type PublicSurvey } from '@/lib/csatSurveyService';
+
+// Reached from the emailed link without signing in
+export default function CsatSurveyPage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const [searchParams] = useSearchParams();
+  const { t } = useTranslation();
+  const [survey, setSurvey] = useState<PublicSurvey | null>(null);
+  const [rating, setRating] = useState(() => {
+    const fromEmail = parseInt(searchParams.get('rating') || '');
+    return fromEmail >= 1 && fromEmail <= 5 ? fromEmail : 0;
+  });
+  const [hoveredRating, setHoveredRating] = useState(0);
+  const [npsScore, setNpsScore] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    CsatSurveyService.loadSurvey(token)
+      .then(setSurvey)
+      .catch(() => setSurvey({ status: 'invalid' }));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const answer = { rating, nps_score: npsScore, comment: comment.trim() || null };
+    const validationError = validateSurveyAnswer(answer);
+    if (validationError) {
+      setError(rating ? validationError : t('csatSurvey.ratingRequired', 'Please choose a rating from 1 to 5'));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setSurvey(await CsatSurveyService.submitSurvey(token, answer));
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : String(submitError));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderMessage = (icon: React.ReactNode, title: string, description: string) => (
+    <div className="text-center space-y-4 py-6">
+      <div className="flex justify-center">{icon}</div>
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{title}</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400">{description}</p>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (!survey) {
+      return (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      );
+    }
+
+    if (survey.status === 'answered') {
+      return renderMessage(
+        <CheckCircle className="h-12 w-12 text-green-600" />,
+        t('csatSurvey.thanksTitle', 'Thank you for your feedback!'),
+        t('csatSurvey.thanksDescription', 'Your answer helps us improve our support.')
+      );
+    }
+
+    if (survey.status === 'expired' || survey.status === 'invalid') {
+      return renderMessage(
+        <AlertTriangle className="h-12 w-12 text-yellow-500" />,
+        survey.status === 'expired'
+          ? t('csatSurvey.expiredTitle', 'This survey has expired')
+          : t('csatSurvey.invalidTitle', 'This survey link is not valid'),
+        t('csatSurvey.unavailableDescription', 'You can still rate the ticket after signing in to the support portal.')
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="space-y-2">
+          <Label>{t('csatSurvey.ratingQuestion', 'How satisfied are you with the support you received?')}</Label>
+          <div className="flex justify-center gap-2" onMouseLeave={() => setHoveredRating(0)}>
+            {[1, 2, 3, 4, 5].map(value => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setRating(value)}
+                onMouseEnter={() => setHoveredRating(value)}
+                aria-label={t('csatSurvey.ratingValue', '{{rating}} out of 5', { rating: value })}
+                className="p-1"
+              >
+                <Star
+                  className={cn(
+                    'h-9 w-9 transition-colors',
+                    value <= (hoveredRating || rating) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+                  )}
+                />
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t('csatSurvey.npsQuestion', 'How likely are you to recommend our support to a colleague?')}</Label>
+          <div className="grid grid-cols-11 gap-1">
+            {Array.from({ length: 11 }, (_, value) => (
+              <Button
+                key={value}
+                type="button"
+                size="sm"
+                variant={npsScore === value ? 'default' : 'outline'}
+                className="px-0"
+                onClick={() => setNpsScore(npsScore === value ? null : value)}
+              >
+                {value}
+              </Button>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span>{t('csatSurvey.npsLow', 'Not at all likely')}</span>
+            <span>{t('csatSurvey.npsHigh', 'Extremely likely')}</span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="survey-comment">{t('csatSurvey.commentLabel', 'Anything you would like to tell us? (optional)')}</Label>
+          <Textarea
+            id="survey-comment"
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            maxLength={2000}
+            rows={4}
+            placeholder={t('feedback.experiencePlaceholder', 'Tell us more about your experience...')}
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button type="submit" className="w-full" disabled={submitting}>
+          {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {t('csatSurvey.submit', 'Send feedback')}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle>{t('csatSurvey.title', 'How did we do?')}</CardTitle>
+          {survey?.ticketNumber && (
+            <CardDescription>
+              {survey.agentName
+                ? t('csatSurvey.ticketWithAgent', 'Ticket {{number}} - {{title}}, handled by {{agent}}', {
+                    number: survey.ticketNumber,
+                    title: survey.ticketTitle,
+                    agent: survey.agentName,
+                  })
+                : t('csatSurvey.ticket', 'Ticket {{number}} - {{title}}', {
+                    number: survey.ticketNumber,
+                    title: survey.ticketTitle,
+                  })}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { EmailTemplateManager } from '@/components/admin/EmailTemplateManager';
+import { useAuth } from '@/contexts/AuthContext';
+import { Navigate } from 'react-router-dom';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { SafeTranslation } from '@/components/ui/SafeTranslation';
+
+export default function EmailTemplatesPage() {
+  const { userProfile, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!userProfile) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (userProfile.role !== 'admin') {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <SafeTranslation i18nKey="admin.accessDenied.title" fallback="Access denied. This page is only available to administrators." />
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <EmailTemplateManager />
+    </div>
+  );
+}
@@ -1,16 +1,23 @@
+import { useCallback, useState } from "react";
 import { ReportExporter } from "@/components/reports/ReportExporter";
+import { ScheduledReports } from "@/components/reports/ScheduledReports";
+import type { ReportConfig } from "@/lib/reportService";
 import { useTranslation } from "react-i18next";
 
 const ReportsPage = () => {
   const { t } = useTranslation();
+  const [scheduleSeed, setScheduleSeed] = useState<ReportConfig | null>(null);
+  const clearScheduleSeed = useCallback(() => setScheduleSeed(null), []);
+
   return (
     <div className="space-y-6">
       <div>
         <h2 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">{t('reports.title')}</h2>
       </div>
-      <ReportExporter />
+      <ReportExporter onSchedule={setScheduleSeed} />
+      <ScheduledReports seed={scheduleSeed} onSeedUsed={clearScheduleSeed} />
     </div>
   );
 };
 
-export default ReportsPage; 
\ No newline at end of file
+export default ReportsPage;
@@ -62,7 +62,11 @@ import {
   Zap,
   GitBranch,
   Timer,
-  UserPlus
+  UserPlus,
+  Layers,
+  ArrowUpCircle,
+  GitMerge,
+  Link2
 } from "lucide-react";
 
 // Import existing components that we'll integrate
@@ -73,9 +77,16 @@ import { TicketFeedback } from "@/components/tickets/TicketFeedback";
 import { TaskManagement } from "@/components/tickets/TaskManagement";
 import { SLAMonitor } from "@/components/tickets/SLAMonitor";
 import { TicketTags } from "@/components/tickets/TicketTags";
+import { TicketQueueSelect } from "@/components/tickets/TicketQueueSelect";
+import { TicketEscalationHistory } from "@/components/tickets/TicketEscalationHistory";
+import { AutoCloseNotice } from "@/components/tickets/AutoCloseNotice";
 import { AttachmentViewer } from "@/components/tickets/AttachmentViewer";
 import { KnowledgeBase } from "@/components/knowledge/KnowledgeBase";
 import { FeedbackPopup } from "@/components/tickets/FeedbackPopup";
+import { SnippetTextarea } from "@/components/tickets/SnippetTextarea";
+import { TicketMergeDialog } from "@/components/tickets/dialogs/TicketMergeDialog";
+import { TicketRelationships } from "@/components/tickets/TicketRelationships";
+import { TicketWatchers } from "@/components/tickets/TicketWatchers";
 
 // Import hooks and services
 import { useTicket } from "@/components/tickets/hooks/useTicket";
@@ -85,6 +96,8 @@ import { useUser } from "@/hooks/useUser";
 import { useTranslation } from "react-i18next";
 import { DatabaseService } from "@/lib/database";
 import { supabase } from "@/lib/supabase";
+import { cannedResponseService, type TicketMacro } from "@/lib/cannedResponseService";
+import { ticketLinkService, type LinkedTicketSummary } from "@/lib/ticketLinkService";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   DropdownMenu,
@@ -171,6 +184,7 @@ export function TicketDetailPage() {
     attachments: []
   });
   const [isSubmittingComment, setIsSubmittingComment] = useState(false);
+  const [pendingMacro, setPendingMacro] = useState<TicketMacro | null>(null);
 
   // Transfer Management
   const [showTransferDialog, setShowTransferDialog] = useState(false);
@@ -183,6 +197,9 @@ export function TicketDetailPage() {
   const [isLoadingAgents, setIsLoadingAgents] = useState(false);
   const [isTransferring, setIsTransferring] = useState(false);
 
+  // Merge
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+
   // Todo Task Management
   const [showTodoForm, setShowTodoForm] = useState(false);
   const [todoForm, setTodoForm] = useState<TodoTask>({
@@ -203,6 +220,10 @@ export function TicketDetailPage() {
   const [showResolutionDialog, setShowResolutionDialog] = useState(false);
   const [resolutionNotes, setResolutionNotes] = useState("");
 
+  // Linked tickets: open children can be resolved together with their parent
+  const [openChildren, setOpenChildren] = useState<LinkedTicketSummary[]>([]);
+  const [cascadeResolution, setCascadeResolution] = useState(false);
+
   // Initialize status when ticket loads
   useEffect(() => {
     if (ticket) {
@@ -251,6 +272,19 @@ export function TicketDetailPage() {
     loadAgents();
   }, [loadAgents]);
 
+  const loadOpenChildren = useCallback(async () => {
+    if (!id || (userRole !== 'agent' && userRole !== 'admin')) return;
+    try {
+      setOpenChildren(await ticketLinkService.getOpenChildren(id));
+    } catch {
+      setOpenChildren([]);
+    }
+  }, [id, userRole]);
+
+  useEffect(() => {
+    loadOpenChildren();
+  }, [loadOpenChildren]);
+
   // Helper functions
   const formatDate = useMemo(() => (dateString: string) => {
     return new Date(dateString).toLocaleDateString('pt-BR', {
@@ -406,22 +440,39 @@ export function TicketDetailPage() {
     }
   };
 
+  const handleMacroChange = (macro: TicketMacro | null) => {
+    setPendingMacro(macro);
+    if (macro) setCommentForm(prev => ({ ...prev, is_internal: macro.reply_is_internal }));
+  };
+
   const handleSubmitComment = async () => {
-    if (!commentForm.content.trim() || !ticket) return;
+    if ((!commentForm.content.trim() && !pendingMacro) || !ticket) return;
 
     setIsSubmittingComment(true);
     try {
-      await DatabaseService.addTicketComment(
-        ticket.id,
-        userProfile?.id || '',
-        commentForm.content,
-        commentForm.is_internal
-      );
+      if (pendingMacro && userProfile) {
+        await cannedResponseService.applyMacro(ticket, pendingMacro, {
+          agentId: userProfile.id,
+          reply: commentForm.content,
+          isInternal: commentForm.is_internal
+        });
+        refetchTicket();
+      } else {
+        await DatabaseService.addTicketComment(
+          ticket.id,
+          userProfile?.id || '',
+          commentForm.content,
+          commentForm.is_internal
+        );
+      }
 
       toast({
         title: t('common.success'),
-        description: t('tickets.commentAdded'),
+        description: pendingMacro
+          ? t('snippets.macroApplied', 'Macro "{{name}}" applied', { name: pendingMacro.name })
+          : t('tickets.commentAdded'),
       });
+      setPendingMacro(null);
 
       setCommentForm({
         content: "",
@@ -570,17 +621,27 @@ export function TicketDetailPage() {
 
     setIsLoading(true);
     try {
-      await DatabaseService.resolveTicket(
-        ticket.id,
-        resolutionNotes.trim(),
-        userProfile?.id || ticket.assigned_to || ticket.user_id
-      );
+      const resolvedBy = userProfile?.id || ticket.assigned_to || ticket.user_id;
+      await DatabaseService.resolveTicket(ticket.id, resolutionNotes.trim(), resolvedBy);
 
       toast({
         title: t('tickets.resolve.successTitle'),
         description: t('tickets.resolve.successDescription'),
       });
 
+      if (cascadeResolution && openChildren.length > 0) {
+        const { resolved, failed } = await ticketLinkService.cascadeResolution(ticket.id, resolutionNotes.trim(), resolvedBy);
+        toast({
+          title: t('tickets.links.cascadeDone', '{{count}} child tickets resolved', { count: resolved.length }),
+          description: failed.length > 0
+            ? t('tickets.links.cascadeFailed', '{{count}} could not be resolved', { count: failed.length })
+            : undefined,
+          variant: failed.length > 0 ? "destructive" : "default",
+        });
+        setCascadeResolution(false);
+        loadOpenChildren();
+      }
+
       if (userRole === 'user' && userProfile?.id === ticket.user_id) {
         setShowFeedbackPopup(true);
       }
@@ -808,6 +869,12 @@ export function TicketDetailPage() {
                           <Plus className="h-4 w-4 mr-2" />
                           Add Task
                         </DropdownMenuItem>
+                      )}
+                      {ticket.status !== 'closed' && !ticket.merged_into_id && (
+                        <DropdownMenuItem onClick={() => setShowMergeDialog(true)}>
+                          <GitMerge className="h-4 w-4 mr-2" />
+                          {t('tickets.merge.action', 'Merge into…')}
+                        </DropdownMenuItem>
                       )}
                         </>
                       )}
@@ -868,6 +935,18 @@ export function TicketDetailPage() {
 
       {/* Main Content */}
       <div className="container max-w-7xl mx-auto px-4 py-6">
+        {ticket.merged_into_id && (
+          <div className="mb-6 flex flex-wrap items-center gap-3 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 text-sm dark:border-blue-800 dark:bg-blue-900/20">
+            <GitMerge className="h-4 w-4 text-blue-600" />
+            <span className="flex-1">
+              {t('tickets.merge.mergedNotice', 'This ticket was merged into another ticket. The conversation continues there.')}
+            </span>
+            <Button size="sm" variant="outline" onClick={() => navigate(`/ticket/${ticket.merged_into_id}`)}>
+              {t('tickets.merge.openTarget', 'Open ticket')}
+            </Button>
+          </div>
+        )}
+
         <div className="grid grid-cols-12 gap-6">
           {/* Left Column - Main Content */}
           <motion.div 
@@ -1171,6 +1250,82 @@ export function TicketDetailPage() {
                   </div>
           </div>
 
+            {/* Queue */}
+            {canViewInternalFeatures && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium flex items-center gap-2">
+                    <Layers className="h-4 w-4" />
+                    {t('tickets.queues.queue', 'Queue')}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <TicketQueueSelect
+                    ticketId={ticket.id}
+                    queueId={ticket.queue_id}
+                    disabled={!canEditTicket()}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Auto-close */}
+            <AutoCloseNotice
+              key={`auto-close-${refreshKey}`}
+              ticket={ticket}
+              currentUserId={userProfile?.id}
+            />
+
+            {/* Escalations */}
+            {canViewInternalFeatures && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium flex items-center gap-2">
+                    <ArrowUpCircle className="h-4 w-4" />
+                    {t('admin.escalationPolicies.history', 'Escalations')}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <TicketEscalationHistory key={`escalations-${refreshKey}`} ticketId={ticket.id} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Linked tickets */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium flex items-center gap-2">
+                  <Link2 className="h-4 w-4" />
+                  {t('tickets.links.title', 'Linked Tickets')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TicketRelationships
+                  key={`links-${refreshKey}`}
+                  ticketId={ticket.id}
+                  canEdit={canViewInternalFeatures}
+                  onChange={loadOpenChildren}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Watchers */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium flex items-center gap-2">
+                  <Eye className="h-4 w-4" />
+                  {t('tickets.watchers.title', 'Watchers')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TicketWatchers
+                  ticketId={ticket.id}
+                  currentUserId={userProfile?.id}
+                  canManage={canViewInternalFeatures || userProfile?.id === ticket.user_id}
+                />
+              </CardContent>
+            </Card>
+
             {/* Tags */}
             <Card>
                   <CardHeader className="pb-3">
@@ -1182,8 +1337,6 @@ export function TicketDetailPage() {
               <CardContent>
                 <TicketTags
                   ticketId={ticket.id}
-                      selectedTags={[]}
-                  onTagsChange={() => setRefreshKey(prev => prev + 1)}
                   mode={canEditTicket() ? 'edit' : 'display'}
                 />
               </CardContent>
@@ -1253,14 +1406,18 @@ export function TicketDetailPage() {
           <div className="space-y-4">
             <div>
               <Label htmlFor="comment-content">Comment</Label>
-              <Textarea
-                id="comment-content"
-                value={commentForm.content}
-                onChange={(e) => setCommentForm(prev => ({ ...prev, content: e.target.value }))}
-                placeholder="Write your comment here..."
-                rows={4}
-                className="mt-1"
-              />
+              <div className="mt-1">
+                <SnippetTextarea
+                  id="comment-content"
+                  value={commentForm.content}
+                  onChange={(content) => setCommentForm(prev => ({ ...prev, content }))}
+                  ticket={ticket}
+                  macro={canViewInternalFeatures ? pendingMacro : null}
+                  onMacroChange={canViewInternalFeatures ? handleMacroChange : undefined}
+                  placeholder="Write your comment here..."
+                  rows={4}
+                />
+              </div>
             </div>
             
             {canViewInternalFeatures && (
@@ -1282,7 +1439,7 @@ export function TicketDetailPage() {
               </Button>
               <Button 
                 onClick={handleSubmitComment}
-                disabled={isSubmittingComment || !commentForm.content.trim()}
+                disabled={isSubmittingComment || (!commentForm.content.trim() && !pendingMacro)}
               >
                 {isSubmittingComment ? (
                   <Loader2 className="h-4 w-4 animate-spin mr-2" />
@@ -1515,6 +1672,19 @@ export function TicketDetailPage() {
                 These notes will be visible to the customer and will help them understand how their issue was resolved.
               </p>
             </div>
+
+            {openChildren.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="cascade-resolution"
+                  checked={cascadeResolution}
+                  onCheckedChange={setCascadeResolution}
+                />
+                <Label htmlFor="cascade-resolution" className="text-sm">
+                  {t('tickets.links.cascade', 'Also resolve the {{count}} open child tickets with these notes', { count: openChildren.length })}
+                </Label>
+              </div>
+            )}
             
             <div className="flex justify-end gap-2">
               <Button 
@@ -1543,6 +1713,19 @@ export function TicketDetailPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Merge Dialog */}
+      {canViewInternalFeatures && (
+        <TicketMergeDialog
+          ticket={ticket}
+          open={showMergeDialog}
+          onOpenChange={setShowMergeDialog}
+          onMerged={(targetId) => {
+            triggerRefresh();
+            navigate(`/ticket/${targetId}`);
+          }}
+        />
+      )}
+
       {/* Feedback Popup */}
       {ticket && (
         <FeedbackPopup
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from "react";
-import { useParams } from "react-router-dom";
+import { useParams, useSearchParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,6 +11,7 @@ import { useTicketCount } from "@/contexts/TicketCountContext";
 import { TicketDialog } from "@/components/tickets/dialogs/TicketDialog";
 import { TicketList } from "@/components/tickets/TicketList";
 import { AdvancedFilters } from "@/components/tickets/AdvancedFilters";
+import { TicketQueueBar } from "@/components/tickets/TicketQueueBar";
 import { TicketWithDetails } from "@/lib/database";
 import { useToast } from "@/hooks/use-toast";
 import { useTickets } from "@/hooks/useTickets";
@@ -20,9 +21,12 @@ import { cn } from "@/lib/utils";
 const TicketsPage = () => {
   const { t } = useTranslation();
   const { status } = useParams<{ status: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { userProfile } = useAuth();
   const { triggerRefresh } = useTicketCount();
   const userRole = userProfile?.role as "user" | "agent" | "admin" || "user";
+  // Per-queue view, kept in the URL so it can be bookmarked
+  const queueId = userRole !== "user" ? searchParams.get("queue") || undefined : undefined;
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [filters, setFilters] = useState({});
   const [ticketListKey, setTicketListKey] = useState(0);
@@ -36,8 +40,9 @@ const TicketsPage = () => {
       case "in-progress": return "in_progress";
       case "resolved": return "resolved";
       case "closed": return "closed";
-      case "all": return userRole === "user" ? "active" : "open";
-      default: return "my_tickets";
+      // A search from the command palette looks through every status
+      case "all": return searchParams.get("q") ? "all" : userRole === "user" ? "active" : "open";
+      default: return queueId ? "active" : "my_tickets";
     }
   };
 
@@ -53,7 +58,8 @@ const TicketsPage = () => {
   } = useTickets({
     statusFilter: getStatusFilter(),
     showAll: userRole !== "user",
-    includeClosedTickets: userRole === "user"
+    includeClosedTickets: userRole === "user",
+    queueId
   });
 
   // Setup loading timeout protection
@@ -93,7 +99,7 @@ const TicketsPage = () => {
         relevantTickets = tickets;
         break;
       default:
-        relevantTickets = tickets.filter(t => t.user_id === userProfile?.id);
+        relevantTickets = queueId ? tickets : tickets.filter(t => t.user_id === userProfile?.id);
     }
     
     const todayCount = relevantTickets.filter(t => {
@@ -139,7 +145,7 @@ const TicketsPage = () => {
       weekCount,
       avgResolutionTime
     };
-  }, [tickets, status, userProfile?.id]);
+  }, [tickets, status, queueId, userProfile?.id]);
 
   // Show error toast for React Query errors
   useEffect(() => {
@@ -157,6 +163,16 @@ const TicketsPage = () => {
     setFilters(newFilters);
   };
 
+  const handleQueueSelect = (nextQueueId: string | undefined) => {
+    const next = new URLSearchParams(searchParams);
+    if (nextQueueId) {
+      next.set("queue", nextQueueId);
+    } else {
+      next.delete("queue");
+    }
+    setSearchParams(next);
+  };
+
   const handleTicketCreated = () => {
     setTicketListKey(prev => prev + 1);
     triggerRefresh();
@@ -238,6 +254,8 @@ const TicketsPage = () => {
       userId: userProfile?.id,
       useEnhancedFiltering: true,
       includeClosedTickets: userRole === "user" ? true : undefined,
+      queueId,
+      initialSearchTerm: searchParams.get("q") ?? undefined,
     };
 
     switch (status) {
@@ -383,6 +401,11 @@ const TicketsPage = () => {
         </CardContent>
       </Card>
 
+      {/* Queues */}
+      {userRole !== "user" && (
+        <TicketQueueBar selectedQueueId={queueId} onSelect={handleQueueSelect} />
+      )}
+
       {/* Filters */}
       {showFilters && (
         <Card>
@@ -0,0 +1,49 @@
+import { vi } from 'vitest';
+
+export interface QueryResult {
+  data: any;
+  error: any;
+  count?: number | null;
+}
+
+const CHAINABLE_METHODS = [
+  'select', 'insert', 'update', 'upsert', 'delete',
+  'eq', 'neq', 'in', 'is', 'not', 'or', 'match', 'contains', 'overlaps',
+  'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'textSearch',
+  'order', 'limit', 'range', 'single', 'maybeSingle'
+];
+
+/**
+ * Minimal PostgREST builder: every filter (and single/maybeSingle) returns
+ * the builder itself and awaiting it resolves to `result`. Each method is a
+ * vi.fn, so tests can assert on the calls.
+ */
+export const queryResult = (result: QueryResult) => {
+  const builder: any = {};
+  CHAINABLE_METHODS.forEach(method => {
+    builder[method] = vi.fn(() => builder);
+  });
+  builder.then = (resolve: (value: QueryResult) => unknown, reject?: (reason: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject);
+  return builder;
+};
+
+/**
+ * A client with `from` and `rpc`, like the one the edge function handlers
+ * take. Hands out the queued results per table in call order; later calls
+ * reuse the last one. `calls` keeps every builder handed out, per table.
+ */
+export const mockClient = (tables: Record<string, QueryResult[]>) => {
+  const calls: Record<string, any[]> = {};
+  const client = {
+    from: vi.fn((table: string) => {
+      const queue = tables[table] || [{ data: [], error: null }];
+      calls[table] = calls[table] || [];
+      const builder = queryResult(queue[Math.min(calls[table].length, queue.length - 1)]);
+      calls[table].push(builder);
+      return builder;
+    }),
+    rpc: vi.fn().mockResolvedValue({ data: null, error: null })
+  };
+  return { client, calls };
+};
@@ -11,18 +11,45 @@ export interface NotificationTypePreference {
   delivery: 'instant' | 'batched' | 'digest'
 }
 
-export interface QuietHours {
+export type DigestFrequency = 'hourly' | 'daily'
+
+// When held notifications are delivered, in the user's timezone
+export interface DeliverySchedule {
+  digestFrequency: DigestFrequency
+  digestHour: number          // 0-23, used by daily digests
+  batchWindowMinutes: number  // how long batched notifications are held
+}
+
+// Quiet hours for one weekday; an end before the start runs past midnight
+export interface QuietHoursDay {
+  dayOfWeek: number // 0 = Sunday
   enabled: boolean
   start: string // HH:mm format
   end: string   // HH:mm format
 }
 
+export interface QuietHours {
+  enabled: boolean
+  start: string // HH:mm format, default for new days
+  end: string   // HH:mm format, default for new days
+  schedule?: QuietHoursDay[] // evaluated in the user's timezone; missing means start/end every day
+}
+
+// Database shape of a QuietHoursDay
+export interface QuietHoursDayRow {
+  day_of_week: number
+  enabled: boolean
+  start: string
+  end: string
+}
+
 export interface NotificationPreferences {
   userId: string
   emailNotifications: boolean
   toastNotifications: boolean
   soundNotifications: boolean
   quietHours: QuietHours
+  deliverySchedule: DeliverySchedule
   typePreferences: {
     [key in NotificationType]: NotificationTypePreference
   }
@@ -41,9 +68,13 @@ export interface NotificationPreferencesRow {
   quiet_hours_enabled: boolean
   quiet_hours_start: string
   quiet_hours_end: string
+  quiet_hours_schedule?: QuietHoursDayRow[]
   type_preferences: Record<NotificationType, NotificationTypePreference>
   language: string
   timezone: string
+  digest_frequency?: DigestFrequency
+  digest_hour?: number
+  batch_window_minutes?: number
   created_at: string
   updated_at: string
 }
@@ -57,9 +88,13 @@ export interface NotificationPreferencesInsert {
   quiet_hours_enabled?: boolean
   quiet_hours_start?: string
   quiet_hours_end?: string
+  quiet_hours_schedule?: QuietHoursDayRow[]
   type_preferences?: Record<NotificationType, NotificationTypePreference>
   language?: string
   timezone?: string
+  digest_frequency?: DigestFrequency
+  digest_hour?: number
+  batch_window_minutes?: number
 }
 
 // Update type for notification_preferences table
@@ -70,12 +105,26 @@ export interface NotificationPreferencesUpdate {
   quiet_hours_enabled?: boolean
   quiet_hours_start?: string
   quiet_hours_end?: string
+  quiet_hours_schedule?: QuietHoursDayRow[]
   type_preferences?: Record<NotificationType, NotificationTypePreference>
   language?: string
   timezone?: string
+  digest_frequency?: DigestFrequency
+  digest_hour?: number
+  batch_window_minutes?: number
   updated_at?: string
 }
 
+export const DEFAULT_DELIVERY_SCHEDULE: DeliverySchedule = {
+  digestFrequency: 'daily',
+  digestHour: 8,
+  batchWindowMinutes: 15
+}
+
+// Same window on every day of the week
+export const createQuietHoursSchedule = (start: string, end: string): QuietHoursDay[] =>
+  [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, enabled: true, start, end }))
+
 // Default preferences factory
 export const createDefaultNotificationPreferences = (userId: string): NotificationPreferences => {
   const defaultTypePreference: NotificationTypePreference = {
@@ -124,8 +173,10 @@ export const createDefaultNotificationPreferences = (userId: string): Notificati
     quietHours: {
       enabled: false,
       start: '22:00',
-      end: '08:00'
+      end: '08:00',
+      schedule: createQuietHoursSchedule('22:00', '08:00')
     },
+    deliverySchedule: { ...DEFAULT_DELIVERY_SCHEDULE },
     typePreferences,
     language: 'en',
     timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
@@ -147,12 +198,37 @@ export const validateNotificationPreferences = (preferences: Partial<Notificatio
     if (end && !timeRegex.test(end)) {
       errors.push('Invalid quiet hours end time format. Use HH:mm format.')
     }
+
+    preferences.quietHours.schedule?.forEach(day => {
+      if (day.dayOfWeek < 0 || day.dayOfWeek > 6) {
+        errors.push('Invalid quiet hours weekday. Use 0 (Sunday) to 6 (Saturday).')
+      }
+      if (!timeRegex.test(day.start) || !timeRegex.test(day.end)) {
+        errors.push(`Invalid quiet hours time format for weekday ${day.dayOfWeek}. Use HH:mm format.`)
+      }
+    })
   }
 
   if (preferences.language && !['en', 'pt', 'es'].includes(preferences.language)) {
     errors.push('Unsupported language. Supported languages: en, pt, es')
   }
 
+  if (preferences.deliverySchedule) {
+    const { digestFrequency, digestHour, batchWindowMinutes } = preferences.deliverySchedule
+
+    if (!['hourly', 'daily'].includes(digestFrequency)) {
+      errors.push('Invalid digest frequency. Use hourly or daily.')
+    }
+
+    if (!Number.isInteger(digestHour) || digestHour < 0 || digestHour > 23) {
+      errors.push('Invalid digest hour. Use a whole hour between 0 and 23.')
+    }
+
+    if (!Number.isInteger(batchWindowMinutes) || batchWindowMinutes < 1 || batchWindowMinutes > 1440) {
+      errors.push('Invalid batch window. Use between 1 and 1440 minutes.')
+    }
+  }
+
   return errors
 }
 
@@ -166,9 +242,18 @@ export const transformToDbFormat = (preferences: NotificationPreferences): Notif
     quiet_hours_enabled: preferences.quietHours.enabled,
     quiet_hours_start: preferences.quietHours.start,
     quiet_hours_end: preferences.quietHours.end,
+    quiet_hours_schedule: (preferences.quietHours.schedule || []).map(day => ({
+      day_of_week: day.dayOfWeek,
+      enabled: day.enabled,
+      start: day.start,
+      end: day.end
+    })),
     type_preferences: preferences.typePreferences,
     language: preferences.language,
-    timezone: preferences.timezone
+    timezone: preferences.timezone,
+    digest_frequency: preferences.deliverySchedule.digestFrequency,
+    digest_hour: preferences.deliverySchedule.digestHour,
+    batch_window_minutes: preferences.deliverySchedule.batchWindowMinutes
   }
 }
 
@@ -181,7 +266,24 @@ export const transformFromDbFormat = (row: NotificationPreferencesRow): Notifica
     quietHours: {
       enabled: row.quiet_hours_enabled,
       start: row.quiet_hours_start,
-      end: row.quiet_hours_end
+      end: row.quiet_hours_end,
+      // Rows saved before per-weekday schedules use the single window every day
+      schedule: row.quiet_hours_schedule?.length
+        ? row.quiet_hours_schedule.map(day => ({
+            dayOfWeek: day.day_of_week,
+            enabled: day.enabled,
+            start: day.start,
+            end: day.end
+          }))
+        : createQuietHoursSchedule(
+            (row.quiet_hours_start || '22:00').slice(0, 5),
+            (row.quiet_hours_end || '08:00').slice(0, 5)
+          )
+    },
+    deliverySchedule: {
+      digestFrequency: row.digest_frequency ?? DEFAULT_DELIVERY_SCHEDULE.digestFrequency,
+      digestHour: row.digest_hour ?? DEFAULT_DELIVERY_SCHEDULE.digestHour,
+      batchWindowMinutes: row.batch_window_minutes ?? DEFAULT_DELIVERY_SCHEDULE.batchWindowMinutes
     },
     typePreferences: row.type_preferences,
     language: row.language,
@@ -0,0 +1,177 @@
+// Agent availability for ticket routing: heartbeat, manual status, weekly
+// shifts and out-of-office periods. Shared by the app and the scheduled jobs.
+
+import type { JobClient } from './scheduledJobs.ts'
+import { getLocalParts, isValidTimezone } from './timezone.ts'
+
+export type PresenceStatus = 'available' | 'busy' | 'away' | 'offline'
+
+export interface AgentPresence {
+  agent_id: string
+  manual_status: PresenceStatus | null
+  last_seen_at: string | null
+  updated_at?: string
+}
+
+export interface AgentShift {
+  id?: string
+  agent_id: string
+  weekday: number // 0 = Sunday
+  start_time: string // HH:MM, in the shift timezone
+  end_time: string   // HH:MM, earlier than start_time for overnight shifts
+  timezone: string
+}
+
+export interface OutOfOfficePeriod {
+  id: string
+  agent_id: string
+  starts_at: string
+  ends_at: string
+  reason?: string | null
+  created_at?: string
+}
+
+export interface AgentAvailability {
+  status: PresenceStatus
+  lastActivity: Date | null
+  manualStatus: PresenceStatus | null
+  onShift: boolean
+  hasSchedule: boolean
+  outOfOffice?: OutOfOfficePeriod
+  workingHours?: {
+    start: string
+    end: string
+    timezone: string
+  }
+}
+
+// An agent with no activity for this long shows as away, then offline
+export const IDLE_AFTER_MINUTES = 5
+export const OFFLINE_AFTER_MINUTES = 30
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+const formatTime = (time: string): string => time.slice(0, 5)
+
+const shiftTimezone = (shift: AgentShift): string =>
+  shift.timezone && isValidTimezone(shift.timezone) ? shift.timezone : 'UTC'
+
+/**
+ * Whether `now` falls inside a weekly shift, read in the shift's timezone.
+ * Overnight shifts belong to the weekday they start on.
+ */
+export function isWithinShift(shift: AgentShift, now: Date): boolean {
+  const local = getLocalParts(now, shiftTimezone(shift))
+  const minutes = local.hour * 60 + local.minute
+  const start = toMinutes(shift.start_time)
+  const end = toMinutes(shift.end_time)
+
+  if (start < end) {
+    return local.weekday === shift.weekday && minutes >= start && minutes < end
+  }
+
+  return (local.weekday === shift.weekday && minutes >= start) ||
+    (local.weekday === (shift.weekday + 1) % 7 && minutes < end)
+}
+
+/**
+ * Combine heartbeat, manual status, shifts and out-of-office periods into
+ * the availability used by ticket routing
+ */
+export function computeAvailability(input: {
+  presence?: AgentPresence | null
+  shifts?: AgentShift[]
+  outOfOffice?: OutOfOfficePeriod[]
+  now?: Date
+}): AgentAvailability {
+  const now = input.now || new Date()
+  const shifts = input.shifts || []
+  const lastActivity = input.presence?.last_seen_at ? new Date(input.presence.last_seen_at) : null
+  const manualStatus = input.presence?.manual_status || null
+
+  const outOfOffice = (input.outOfOffice || []).find(period =>
+    new Date(period.starts_at).getTime() <= now.getTime() && new Date(period.ends_at).getTime() > now.getTime()
+  )
+
+  const currentShift = shifts.find(shift => isWithinShift(shift, now))
+  const todaysShift = currentShift || shifts.find(shift =>
+    getLocalParts(now, shiftTimezone(shift)).weekday === shift.weekday
+  )
+
+  let status: PresenceStatus
+  const idleMinutes = lastActivity ? (now.getTime() - lastActivity.getTime()) / 60000 : Infinity
+
+  if (outOfOffice || idleMinutes > OFFLINE_AFTER_MINUTES) {
+    status = 'offline'
+  } else if (manualStatus) {
+    status = manualStatus
+  } else {
+    status = idleMinutes > IDLE_AFTER_MINUTES ? 'away' : 'available'
+  }
+
+  return {
+    status,
+    lastActivity,
+    manualStatus,
+    // Agents without a schedule are treated as always on shift
+    onShift: shifts.length === 0 || !!currentShift,
+    hasSchedule: shifts.length > 0,
+    outOfOffice,
+    workingHours: todaysShift
+      ? {
+          start: formatTime(todaysShift.start_time),
+          end: formatTime(todaysShift.end_time),
+          timezone: shiftTimezone(todaysShift)
+        }
+      : undefined
+  }
+}
+
+/**
+ * Availability of each agent at `now`, keyed by agent id
+ */
+export async function loadAvailability(
+  client: JobClient,
+  agentIds: string[],
+  now: Date = new Date()
+): Promise<Record<string, AgentAvailability>> {
+  if (agentIds.length === 0) return {}
+
+  try {
+    const [presenceResult, shiftsResult, outOfOfficeResult] = await Promise.all([
+      client.from('agent_presence').select('*').in('agent_id', agentIds),
+      client.from('agent_shifts').select('*').in('agent_id', agentIds),
+      client.from('agent_out_of_office')
+        .select('*')
+        .in('agent_id', agentIds)
+        .gt('ends_at', now.toISOString())
+    ])
+
+    const error = presenceResult.error || shiftsResult.error || outOfOfficeResult.error
+    if (error) throw error
+
+    const presence: AgentPresence[] = presenceResult.data || []
+    const shifts: AgentShift[] = shiftsResult.data || []
+    const outOfOffice: OutOfOfficePeriod[] = outOfOfficeResult.data || []
+
+    return Object.fromEntries(agentIds.map(agentId => [
+      agentId,
+      computeAvailability({
+        presence: presence.find(row => row.agent_id === agentId),
+        shifts: shifts.filter(row => row.agent_id === agentId),
+        outOfOffice: outOfOffice.filter(row => row.agent_id === agentId),
+        now
+      })
+    ]))
+  } catch (error) {
+    console.error('Error getting agent availability:', error)
+    // Keep routing working if presence data cannot be read
+    return Object.fromEntries(agentIds.map(agentId => [
+      agentId,
+      { status: 'available', lastActivity: null, manualStatus: null, onShift: true, hasSchedule: false } as AgentAvailability
+    ]))
+  }
+}
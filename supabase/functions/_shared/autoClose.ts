@@ -0,0 +1,84 @@
+// Auto-close policies: which policy applies to a resolved ticket and when the
+// requester is reminded and the ticket closed. Shared by the app and the
+// auto_close scheduled job.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface AutoClosePolicy {
+  id: string
+  name: string
+  category_id: string | null // null: any category
+  subcategory_id: string | null // null: any subcategory of the category
+  inactivity_days: number
+  reminder_days_before: number // 0: no reminder
+  is_active: boolean
+}
+
+export interface AutoCloseSchedule {
+  remindAt: Date | null
+  closeAt: Date
+}
+
+/**
+ * The most specific active policy for a ticket: subcategory, then category,
+ * then the default policy (no category). Undefined means never auto-close.
+ */
+export function matchAutoClosePolicy<T extends AutoClosePolicy>(
+  policies: T[],
+  ticket: { category_id?: string | null; subcategory_id?: string | null }
+): T | undefined {
+  const active = policies.filter(policy => policy.is_active)
+
+  return (
+    (ticket.subcategory_id && active.find(policy => policy.subcategory_id === ticket.subcategory_id)) ||
+    (ticket.category_id && active.find(policy => policy.category_id === ticket.category_id && !policy.subcategory_id)) ||
+    active.find(policy => !policy.category_id && !policy.subcategory_id) ||
+    undefined
+  )
+}
+
+/**
+ * When the requester is reminded and the ticket closed, counting from its last
+ * activity (resolution or latest comment). A ticket is never closed sooner than
+ * `reminder_days_before` after the reminder went out, so a late reminder (the
+ * job was off, say) still gives the requester the full notice.
+ */
+export function getAutoCloseSchedule(
+  policy: AutoClosePolicy,
+  lastActivityAt: Date,
+  remindedAt: Date | null
+): AutoCloseSchedule {
+  const closeAt = new Date(lastActivityAt.getTime() + policy.inactivity_days * DAY_MS)
+  if (policy.reminder_days_before <= 0) return { remindAt: null, closeAt }
+
+  const noticeMs = policy.reminder_days_before * DAY_MS
+  const remindAt = new Date(closeAt.getTime() - noticeMs)
+
+  // Reminders sent before the last activity were for an earlier resolution
+  if (!remindedAt || remindedAt.getTime() < lastActivityAt.getTime()) {
+    return { remindAt, closeAt }
+  }
+
+  return {
+    remindAt,
+    closeAt: new Date(Math.max(closeAt.getTime(), remindedAt.getTime() + noticeMs))
+  }
+}
+
+/**
+ * What the auto_close job should do with a resolved ticket right now
+ */
+export function autoCloseAction(
+  policy: AutoClosePolicy,
+  lastActivityAt: Date,
+  remindedAt: Date | null,
+  now: Date
+): 'close' | 'remind' | 'wait' {
+  const reminded = !!remindedAt && remindedAt.getTime() >= lastActivityAt.getTime()
+  const { remindAt, closeAt } = getAutoCloseSchedule(policy, lastActivityAt, remindedAt)
+
+  if (remindAt && !reminded) {
+    return now.getTime() >= remindAt.getTime() ? 'remind' : 'wait'
+  }
+  return now.getTime() >= closeAt.getTime() ? 'close' : 'wait'
+}
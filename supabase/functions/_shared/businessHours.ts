@@ -0,0 +1,202 @@
+// Business-hours and SLA clock arithmetic: which calendar applies to a ticket,
+// how many working hours lie between two instants and how long the clock was
+// paused. Shared by the app and the run-scheduled-jobs edge function.
+
+import { getLocalParts, zonedTimeToUtc } from './timezone.ts'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface BusinessHoursWindow {
+  day_of_week: number // 0 = Sunday ... 6 = Saturday
+  start_time: string // HH:MM
+  end_time: string // HH:MM
+  is_working_day: boolean
+}
+
+export interface BusinessHoliday {
+  id?: string
+  calendar_id?: string
+  holiday_date: string // YYYY-MM-DD in the calendar timezone
+  name: string
+}
+
+export interface BusinessCalendar {
+  id: string
+  name: string
+  description?: string | null
+  timezone: string
+  region?: string | null // Matches tickets_new.country
+  team_id?: string | null
+  is_default: boolean
+  is_active: boolean
+  hours: BusinessHoursWindow[]
+  holidays: BusinessHoliday[]
+  created_at?: string
+  updated_at?: string
+}
+
+export type SLAClockEventType = 'started' | 'paused' | 'resumed' | 'stopped'
+
+export interface ClockEvent {
+  event_type: SLAClockEventType
+  occurred_at: string
+}
+
+/**
+ * The calendar that applies to a ticket: team match first, then region
+ * (tickets_new.country), then the default calendar. Null means wall-clock time.
+ */
+export function pickCalendar<T extends BusinessCalendar>(
+  calendars: T[],
+  ticket: { team_id?: string | null; country?: string | null }
+): T | null {
+  const active = calendars.filter(calendar => calendar.is_active)
+
+  if (ticket.team_id) {
+    const teamCalendar = active.find(calendar => calendar.team_id === ticket.team_id)
+    if (teamCalendar) return teamCalendar
+  }
+
+  if (ticket.country) {
+    const region = ticket.country.toLowerCase()
+    const regionCalendar = active.find(calendar => !calendar.team_id && calendar.region?.toLowerCase() === region)
+    if (regionCalendar) return regionCalendar
+  }
+
+  return active.find(calendar => calendar.is_default) || null
+}
+
+// Working intervals (UTC epoch ms) for every local day touched by [start, end]
+function getWorkingIntervals(start: Date, end: Date, calendar: BusinessCalendar): Array<[number, number]> {
+  const intervals: Array<[number, number]> = []
+  const holidays = new Set(calendar.holidays.map(holiday => holiday.holiday_date))
+  const first = getLocalParts(start, calendar.timezone)
+  const last = getLocalParts(end, calendar.timezone)
+  const firstDay = Date.UTC(first.year, first.month - 1, first.day)
+  const lastDay = Date.UTC(last.year, last.month - 1, last.day)
+
+  for (let day = firstDay; day <= lastDay; day += DAY_MS) {
+    const date = new Date(day)
+    const isoDate = date.toISOString().slice(0, 10)
+    if (holidays.has(isoDate)) continue
+
+    const window = calendar.hours.find(w => w.day_of_week === date.getUTCDay())
+    if (!window || !window.is_working_day) continue
+
+    const [startHour, startMinute] = window.start_time.split(':').map(Number)
+    const [endHour, endMinute] = window.end_time.split(':').map(Number)
+    const local = { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }
+
+    const windowStart = zonedTimeToUtc({ ...local, hour: startHour, minute: startMinute }, calendar.timezone)
+    const windowEnd = zonedTimeToUtc({ ...local, hour: endHour, minute: endMinute }, calendar.timezone)
+    if (windowEnd > windowStart) intervals.push([windowStart, windowEnd])
+  }
+
+  return intervals
+}
+
+/**
+ * Hours elapsed between two instants, counting only the calendar's working
+ * windows and skipping its holidays. Without a calendar this is wall-clock time.
+ */
+export function calculateElapsedHours(start: Date, end: Date, calendar: BusinessCalendar | null): number {
+  if (end.getTime() <= start.getTime()) return 0
+  if (!calendar) return (end.getTime() - start.getTime()) / HOUR_MS
+
+  let elapsedMs = 0
+  for (const [windowStart, windowEnd] of getWorkingIntervals(start, end, calendar)) {
+    const from = Math.max(windowStart, start.getTime())
+    const to = Math.min(windowEnd, end.getTime())
+    if (to > from) elapsedMs += to - from
+  }
+
+  return elapsedMs / HOUR_MS
+}
+
+/**
+ * The instant at which `hours` business hours will have elapsed after `start`.
+ */
+export function addBusinessHours(start: Date, hours: number, calendar: BusinessCalendar | null): Date {
+  if (!calendar) return new Date(start.getTime() + hours * HOUR_MS)
+  if (!calendar.hours.some(window => window.is_working_day)) {
+    return new Date(start.getTime() + hours * HOUR_MS)
+  }
+
+  let remainingMs = hours * HOUR_MS
+  let cursor = start.getTime()
+
+  // Walk forward a month at a time until the budget is spent
+  for (let chunk = 0; chunk < 60; chunk++) {
+    const chunkEnd = cursor + 31 * DAY_MS
+    for (const [windowStart, windowEnd] of getWorkingIntervals(new Date(cursor), new Date(chunkEnd), calendar)) {
+      const from = Math.max(windowStart, cursor)
+      if (windowEnd <= from) continue
+      if (windowEnd - from >= remainingMs) {
+        return new Date(from + remainingMs)
+      }
+      remainingMs -= windowEnd - from
+    }
+    cursor = chunkEnd
+  }
+
+  return new Date(cursor)
+}
+
+/**
+ * Intervals during which the SLA clock was not running, clipped to `until`.
+ * Time between "stopped" and a later "resumed" (a reopen) does not count either.
+ */
+export function getPausedIntervals(events: ClockEvent[], until: Date): Array<[Date, Date]> {
+  const intervals: Array<[Date, Date]> = []
+  let pausedSince: Date | null = null
+
+  for (const event of sortClockEvents(events)) {
+    const at = new Date(event.occurred_at)
+    if (at.getTime() > until.getTime()) break
+
+    if ((event.event_type === 'paused' || event.event_type === 'stopped') && !pausedSince) {
+      // A stop only pauses the clock if the ticket is later reopened; the
+      // caller already ends the clock at resolution time otherwise
+      pausedSince = at
+    } else if (event.event_type === 'resumed' && pausedSince) {
+      intervals.push([pausedSince, at])
+      pausedSince = null
+    }
+  }
+
+  if (pausedSince && pausedSince.getTime() < until.getTime()) {
+    intervals.push([pausedSince, until])
+  }
+
+  return intervals
+}
+
+export function isClockPaused(events: ClockEvent[]): boolean {
+  return sortClockEvents(events).pop()?.event_type === 'paused'
+}
+
+// Oldest first. A ticket created in a pause status records "started" and
+// "paused" at the same instant, and "started" has to come first.
+function sortClockEvents(events: ClockEvent[]): ClockEvent[] {
+  return [...events].sort((a, b) =>
+    new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime() ||
+    Number(b.event_type === 'started') - Number(a.event_type === 'started')
+  )
+}
+
+/**
+ * Hours the clock spent paused between `start` and `end`, measured in the
+ * business hours of the ticket's calendar.
+ */
+export function calculatePausedHours(
+  events: ClockEvent[],
+  start: Date,
+  end: Date,
+  calendar: BusinessCalendar | null
+): number {
+  return getPausedIntervals(events, end).reduce((total, [pauseStart, pauseEnd]) => {
+    const from = new Date(Math.max(pauseStart.getTime(), start.getTime()))
+    return total + calculateElapsedHours(from, pauseEnd, calendar)
+  }, 0)
+}
@@ -0,0 +1,101 @@
+// Customer satisfaction survey links: signing and checking the tokens in the
+// emailed links and validating answers. Shared by the csat-survey edge
+// function, the csat_surveys scheduled job and the app. The email itself is
+// the csat_survey email template.
+
+export const SURVEY_TTL_DAYS = 14
+
+export type Satisfaction = 'satisfied' | 'neutral' | 'unsatisfied'
+
+export interface SurveyAnswer {
+  rating: number // 1-5
+  nps_score?: number | null // 0-10: how likely to recommend us
+  comment?: string | null
+}
+
+export type SurveyTokenCheck =
+  | { valid: true; surveyId: string; expiresAt: Date }
+  | { valid: false; reason: 'invalid' | 'expired' }
+
+const encoder = new TextEncoder()
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+async function hmac(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload))
+  return toBase64Url(new Uint8Array(signature))
+}
+
+// Constant time, so the signature cannot be guessed byte by byte
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+/**
+ * `<survey id>.<expiry in unix seconds>.<HMAC-SHA256 of both>`. The expiry is
+ * part of the signed payload, so a link cannot be extended by editing it.
+ */
+export async function signSurveyToken(secret: string, surveyId: string, expiresAt: Date): Promise<string> {
+  const payload = `${surveyId}.${Math.floor(expiresAt.getTime() / 1000)}`
+  return `${payload}.${await hmac(secret, payload)}`
+}
+
+export async function verifySurveyToken(secret: string, token: string, now: Date): Promise<SurveyTokenCheck> {
+  const [surveyId, expires, signature, ...rest] = (token || '').split('.')
+  if (!surveyId || !/^\d+$/.test(expires || '') || !signature || rest.length > 0) {
+    return { valid: false, reason: 'invalid' }
+  }
+
+  if (!safeEqual(signature, await hmac(secret, `${surveyId}.${expires}`))) {
+    return { valid: false, reason: 'invalid' }
+  }
+
+  const expiresAt = new Date(Number(expires) * 1000)
+  if (expiresAt.getTime() <= now.getTime()) return { valid: false, reason: 'expired' }
+
+  return { valid: true, surveyId, expiresAt }
+}
+
+export function satisfactionFromRating(rating: number): Satisfaction {
+  if (rating >= 4) return 'satisfied'
+  if (rating === 3) return 'neutral'
+  return 'unsatisfied'
+}
+
+export function npsCategory(score: number): 'promoter' | 'passive' | 'detractor' {
+  if (score >= 9) return 'promoter'
+  if (score >= 7) return 'passive'
+  return 'detractor'
+}
+
+/**
+ * Returns an error message, or null when the answer can be stored
+ */
+export function validateSurveyAnswer(answer: SurveyAnswer): string | null {
+  if (!Number.isInteger(answer.rating) || answer.rating < 1 || answer.rating > 5) {
+    return 'Rating must be between 1 and 5'
+  }
+  if (answer.nps_score !== undefined && answer.nps_score !== null &&
+    (!Number.isInteger(answer.nps_score) || answer.nps_score < 0 || answer.nps_score > 10)) {
+    return 'Recommendation score must be between 0 and 10'
+  }
+  if (answer.comment && answer.comment.length > 2000) {
+    return 'Comment must be at most 2000 characters'
+  }
+  return null
+}
+
+export function surveyLink(appUrl: string, token: string): string {
+  return `${appUrl.replace(/\/+$/, '')}/survey/${encodeURIComponent(token)}`
+}
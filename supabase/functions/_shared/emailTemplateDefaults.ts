@@ -0,0 +1,760 @@
+// Built-in email templates, one per event and locale. Admins can override any
+// of them in email_templates; these are what a locale falls back to.
+
+import type { EmailLocale, EmailTemplateContent, EmailTemplateEvent } from './emailTemplates.ts'
+
+const button = (label: string) =>
+  `<p style="text-align: center;"><a href="{{ticketLink}}" style="display: inline-block; background: {{primaryColor}}; color: #ffffff; padding: 12px 24px; text-decoration: none; border-radius: 5px;">${label}</a></p>`
+
+const registrationButton = (label: string) =>
+  `<p style="text-align: center;"><a href="{{registrationLink}}" style="display: inline-block; background: {{primaryColor}}; color: #ffffff; padding: 12px 24px; text-decoration: none; border-radius: 5px;">${label}</a></p>`
+
+const linkButton = (variable: string, label: string) =>
+  `<p style="text-align: center;"><a href="{{${variable}}}" style="display: inline-block; background: {{primaryColor}}; color: #ffffff; padding: 12px 24px; text-decoration: none; border-radius: 5px;">${label}</a></p>`
+
+interface Phrases {
+  invitation: {
+    subject: string
+    greeting: string
+    created: string
+    account: string
+    password: string
+    passwordNote: string
+    firstAccess: string
+    open: string
+    help: string
+  }
+  created: {
+    subject: string
+    greeting: string
+    assigned: string
+    number: string
+    title: string
+    requester: string
+    priority: string
+    deadline: string
+    open: string
+  }
+  updated: {
+    subject: string
+    greeting: string
+    updated: string
+    title: string
+    message: string
+    deadline: string
+    open: string
+    reply: string
+  }
+  digest: {
+    subject: string
+    greeting: string
+    hourly: string
+    daily: string
+    open: string
+    all: string
+    reason: string
+  }
+  report: {
+    subject: string
+    period: string
+    attached: string
+    notAttached: string
+    history: string
+    reason: string
+  }
+  survey: {
+    subject: string
+    greeting: string
+    greetingNoName: string
+    resolved: string
+    resolvedBy: string
+    question: string
+    quick: string
+    fallback: string
+    rate: string
+    validUntil: string
+  }
+  bounce: {
+    subject: string
+    greeting: string
+    notAdded: string
+    notAddedToTicket: string
+    invalidReplyToken: string
+    senderMismatch: string
+    commentNotAllowed: string
+    emptyReply: string
+    automatic: string
+  }
+}
+
+const PHRASES: Record<EmailLocale, Phrases> = {
+  'en-US': {
+    invitation: {
+      subject: 'Welcome to the {{companyName}} service desk',
+      greeting: 'Hi {{userName}},',
+      created: 'An account was created for you in the {{companyName}} service desk.',
+      account: 'Sign in with your email address {{userEmail}}.',
+      password: 'Temporary password: {{temporaryPassword}}',
+      passwordNote: 'Please change it when you sign in for the first time.',
+      firstAccess: 'Open the link below and choose a strong password to finish your registration.',
+      open: 'Open the service desk',
+      help: 'Questions? Contact us at {{supportEmail}}.'
+    },
+    created: {
+      subject: 'New ticket {{ticketNumber}}: {{ticketTitle}}',
+      greeting: 'Hi {{agentName}},',
+      assigned: 'A new ticket was assigned to you:',
+      number: 'Number',
+      title: 'Title',
+      requester: 'Requester',
+      priority: 'Priority',
+      deadline: 'SLA deadline',
+      open: 'View ticket'
+    },
+    updated: {
+      subject: 'Ticket {{ticketNumber}} was updated',
+      greeting: 'Hi {{userName}},',
+      updated: 'Your ticket {{ticketNumber}} was updated.',
+      title: 'Title',
+      message: 'New message from {{agentName}}:',
+      deadline: 'SLA deadline',
+      open: 'View ticket',
+      reply: 'You can also reply to this email: your answer is added to the ticket as a comment.'
+    },
+    digest: {
+      subject: 'Your notification summary: {{notificationCount}} new',
+      greeting: 'Hi {{userName}},',
+      hourly: 'Here is what happened in the last hour ({{timezone}} time):',
+      daily: 'Here is what happened today ({{timezone}} time):',
+      open: 'View ticket',
+      all: 'View all notifications',
+      reason: 'You receive this summary because you chose summary delivery in your notification preferences.'
+    },
+    report: {
+      subject: '{{reportName}} ({{periodStart}} - {{periodEnd}})',
+      period: 'Period',
+      attached: 'The full report is attached: {{attachmentName}}.',
+      notAttached: 'The file was too large to attach. Download it from the report history.',
+      history: 'Report history',
+      reason: 'You receive this email because you are a recipient of this scheduled report.'
+    },
+    survey: {
+      subject: 'How did we do? Ticket {{ticketNumber}}',
+      greeting: 'Hi {{requesterName}},',
+      greetingNoName: 'Hi,',
+      resolved: 'Your ticket {{ticketNumber}} - {{ticketTitle}} was resolved.',
+      resolvedBy: 'Your ticket {{ticketNumber}} - {{ticketTitle}} was resolved by {{agentName}}.',
+      question: 'How satisfied are you with the support you received? (1 = very unsatisfied, 5 = very satisfied)',
+      quick: 'It takes less than a minute and you do not need to sign in.',
+      fallback: 'If the buttons do not work, open this link:',
+      rate: 'Rate the support you received (no sign-in needed):',
+      validUntil: 'The link is valid until {{expiresAt}}.'
+    },
+    bounce: {
+      subject: 'Your reply was not added: {{originalSubject}}',
+      greeting: 'Hi,',
+      notAdded: 'Your email "{{originalSubject}}" was not added as a comment.',
+      notAddedToTicket: 'Your email "{{originalSubject}}" was not added as a comment to ticket {{ticketNumber}}.',
+      invalidReplyToken: 'The address you replied to is not valid (anymore). Please open the ticket in the support portal to answer it.',
+      senderMismatch: 'Replies are only accepted from the address the ticket update was sent to. Please reply from that address or use the support portal.',
+      commentNotAllowed: 'The ticket does not accept new comments, for example because it is closed. Please open the ticket in the support portal to ask for it to be reopened.',
+      emptyReply: 'We could not find any text in your reply. Please write your answer above the quoted message.',
+      automatic: 'This message was sent automatically. Replies to it are not read.'
+    }
+  },
+  'pt-BR': {
+    invitation: {
+      subject: 'Bem-vindo ao Sistema de Chamados - {{companyName}}',
+      greeting: 'Olá {{userName}},',
+      created: 'Sua conta foi criada no Sistema de Gestão de Chamados da {{companyName}}.',
+      account: 'Acesse com seu email {{userEmail}}.',
+      password: 'Senha temporária: {{temporaryPassword}}',
+      passwordNote: 'Esta senha é temporária e deve ser alterada no primeiro login.',
+      firstAccess: 'Abra o link abaixo e crie uma senha forte para completar seu registro.',
+      open: 'Acessar Sistema de Chamados',
+      help: 'Precisa de ajuda? Fale com o suporte: {{supportEmail}}.'
+    },
+    created: {
+      subject: 'Novo Chamado: {{ticketNumber}} - {{ticketTitle}}',
+      greeting: 'Olá {{agentName}},',
+      assigned: 'Um novo chamado foi atribuído a você:',
+      number: 'Número',
+      title: 'Título',
+      requester: 'Usuário',
+      priority: 'Prioridade',
+      deadline: 'Prazo do SLA',
+      open: 'Ver Chamado'
+    },
+    updated: {
+      subject: 'Atualização do Chamado {{ticketNumber}}',
+      greeting: 'Olá {{userName}},',
+      updated: 'Seu chamado {{ticketNumber}} foi atualizado.',
+      title: 'Título',
+      message: 'Nova mensagem do agente {{agentName}}:',
+      deadline: 'Prazo do SLA',
+      open: 'Ver Chamado',
+      reply: 'Você também pode responder a este e-mail: sua resposta será adicionada como comentário no chamado.'
+    },
+    digest: {
+      subject: 'Resumo de notificações: {{notificationCount}} novas',
+      greeting: 'Olá {{userName}},',
+      hourly: 'Estas são as suas notificações da última hora (horário de {{timezone}}):',
+      daily: 'Estas são as suas notificações do dia (horário de {{timezone}}):',
+      open: 'Ver Chamado',
+      all: 'Ver Notificações',
+      reason: 'Você recebe este resumo porque escolheu a entrega em resumo nas suas preferências de notificação.'
+    },
+    report: {
+      subject: '{{reportName}} ({{periodStart}} a {{periodEnd}})',
+      period: 'Período',
+      attached: 'O relatório completo está anexado: {{attachmentName}}.',
+      notAttached: 'O arquivo era grande demais para ser anexado. Baixe-o pelo histórico de relatórios.',
+      history: 'Histórico de Relatórios',
+      reason: 'Você recebe este e-mail porque está na lista de destinatários deste relatório agendado.'
+    },
+    survey: {
+      subject: 'Como foi o atendimento? Chamado {{ticketNumber}}',
+      greeting: 'Olá {{requesterName}},',
+      greetingNoName: 'Olá,',
+      resolved: 'Seu chamado {{ticketNumber}} - {{ticketTitle}} foi resolvido.',
+      resolvedBy: 'Seu chamado {{ticketNumber}} - {{ticketTitle}} foi resolvido por {{agentName}}.',
+      question: 'Qual é a sua satisfação com o atendimento recebido? (1 = muito insatisfeito, 5 = muito satisfeito)',
+      quick: 'Leva menos de um minuto e não é preciso fazer login.',
+      fallback: 'Se os botões não funcionarem, abra este link:',
+      rate: 'Avalie o atendimento recebido (sem login):',
+      validUntil: 'O link é válido até {{expiresAt}}.'
+    },
+    bounce: {
+      subject: 'Sua resposta não foi adicionada: {{originalSubject}}',
+      greeting: 'Olá,',
+      notAdded: 'Seu e-mail "{{originalSubject}}" não foi adicionado como comentário.',
+      notAddedToTicket: 'Seu e-mail "{{originalSubject}}" não foi adicionado como comentário ao ticket {{ticketNumber}}.',
+      invalidReplyToken: 'O endereço para o qual você respondeu não é (mais) válido. Abra o ticket no portal de suporte para respondê-lo.',
+      senderMismatch: 'Só aceitamos respostas do endereço para o qual a atualização do ticket foi enviada. Responda a partir desse endereço ou use o portal de suporte.',
+      commentNotAllowed: 'O ticket não aceita novos comentários, por exemplo porque está fechado. Abra o ticket no portal de suporte para pedir a reabertura.',
+      emptyReply: 'Não encontramos nenhum texto na sua resposta. Escreva sua resposta acima da mensagem citada.',
+      automatic: 'Esta mensagem foi enviada automaticamente. Respostas a ela não são lidas.'
+    }
+  },
+  'es-ES': {
+    invitation: {
+      subject: 'Bienvenido al servicio de soporte de {{companyName}}',
+      greeting: 'Hola {{userName}}:',
+      created: 'Se ha creado una cuenta para usted en el servicio de soporte de {{companyName}}.',
+      account: 'Inicie sesión con su correo electrónico {{userEmail}}.',
+      password: 'Contraseña temporal: {{temporaryPassword}}',
+      passwordNote: 'Cámbiela al iniciar sesión por primera vez.',
+      firstAccess: 'Abra el enlace de abajo y elija una contraseña segura para completar su registro.',
+      open: 'Abrir el servicio de soporte',
+      help: '¿Preguntas? Escríbanos a {{supportEmail}}.'
+    },
+    created: {
+      subject: 'Nuevo ticket {{ticketNumber}}: {{ticketTitle}}',
+      greeting: 'Hola {{agentName}}:',
+      assigned: 'Se le ha asignado un nuevo ticket:',
+      number: 'Número',
+      title: 'Título',
+      requester: 'Solicitante',
+      priority: 'Prioridad',
+      deadline: 'Plazo del SLA',
+      open: 'Ver ticket'
+    },
+    updated: {
+      subject: 'El ticket {{ticketNumber}} se ha actualizado',
+      greeting: 'Hola {{userName}}:',
+      updated: 'Su ticket {{ticketNumber}} se ha actualizado.',
+      title: 'Título',
+      message: 'Nuevo mensaje de {{agentName}}:',
+      deadline: 'Plazo del SLA',
+      open: 'Ver ticket',
+      reply: 'También puede responder a este correo: su respuesta se añadirá al ticket como comentario.'
+    },
+    digest: {
+      subject: 'Resumen de notificaciones: {{notificationCount}} nuevas',
+      greeting: 'Hola {{userName}}:',
+      hourly: 'Esto es lo que ha pasado en la última hora (hora de {{timezone}}):',
+      daily: 'Esto es lo que ha pasado hoy (hora de {{timezone}}):',
+      open: 'Ver ticket',
+      all: 'Ver todas las notificaciones',
+      reason: 'Recibe este resumen porque eligió la entrega en resumen en sus preferencias de notificación.'
+    },
+    report: {
+      subject: '{{reportName}} ({{periodStart}} - {{periodEnd}})',
+      period: 'Periodo',
+      attached: 'El informe completo va adjunto: {{attachmentName}}.',
+      notAttached: 'El archivo era demasiado grande para adjuntarlo. Descárguelo desde el historial de informes.',
+      history: 'Historial de informes',
+      reason: 'Recibe este correo porque figura entre los destinatarios de este informe programado.'
+    },
+    survey: {
+      subject: '¿Qué tal lo hicimos? Ticket {{ticketNumber}}',
+      greeting: 'Hola {{requesterName}}:',
+      greetingNoName: 'Hola:',
+      resolved: 'Su ticket {{ticketNumber}} - {{ticketTitle}} se ha resuelto.',
+      resolvedBy: '{{agentName}} ha resuelto su ticket {{ticketNumber}} - {{ticketTitle}}.',
+      question: '¿Cuál es su grado de satisfacción con el soporte recibido? (1 = muy insatisfecho, 5 = muy satisfecho)',
+      quick: 'Le llevará menos de un minuto y no necesita iniciar sesión.',
+      fallback: 'Si los botones no funcionan, abra este enlace:',
+      rate: 'Valore el soporte recibido (sin iniciar sesión):',
+      validUntil: 'El enlace es válido hasta el {{expiresAt}}.'
+    },
+    bounce: {
+      subject: 'Su respuesta no se añadió: {{originalSubject}}',
+      greeting: 'Hola:',
+      notAdded: 'Su correo "{{originalSubject}}" no se añadió como comentario.',
+      notAddedToTicket: 'Su correo "{{originalSubject}}" no se añadió como comentario al ticket {{ticketNumber}}.',
+      invalidReplyToken: 'La dirección a la que respondió no es válida (o ya no lo es). Abra el ticket en el portal de soporte para responderlo.',
+      senderMismatch: 'Solo aceptamos respuestas desde la dirección a la que se envió la actualización del ticket. Responda desde esa dirección o use el portal de soporte.',
+      commentNotAllowed: 'El ticket no admite nuevos comentarios, por ejemplo porque está cerrado. Abra el ticket en el portal de soporte para solicitar su reapertura.',
+      emptyReply: 'No encontramos texto en su respuesta. Escriba su respuesta encima del mensaje citado.',
+      automatic: 'Este mensaje se envió automáticamente. Las respuestas a él no se leen.'
+    }
+  },
+  'fr-FR': {
+    invitation: {
+      subject: 'Bienvenue sur le support {{companyName}}',
+      greeting: 'Bonjour {{userName}},',
+      created: 'Un compte a été créé pour vous sur le support {{companyName}}.',
+      account: 'Connectez-vous avec votre adresse e-mail {{userEmail}}.',
+      password: 'Mot de passe temporaire : {{temporaryPassword}}',
+      passwordNote: 'Veuillez le modifier lors de votre première connexion.',
+      firstAccess: 'Ouvrez le lien ci-dessous et choisissez un mot de passe sûr pour terminer votre inscription.',
+      open: 'Ouvrir le support',
+      help: 'Des questions ? Écrivez-nous à {{supportEmail}}.'
+    },
+    created: {
+      subject: 'Nouveau ticket {{ticketNumber}} : {{ticketTitle}}',
+      greeting: 'Bonjour {{agentName}},',
+      assigned: 'Un nouveau ticket vous a été attribué :',
+      number: 'Numéro',
+      title: 'Titre',
+      requester: 'Demandeur',
+      priority: 'Priorité',
+      deadline: 'Échéance SLA',
+      open: 'Voir le ticket'
+    },
+    updated: {
+      subject: 'Le ticket {{ticketNumber}} a été mis à jour',
+      greeting: 'Bonjour {{userName}},',
+      updated: 'Votre ticket {{ticketNumber}} a été mis à jour.',
+      title: 'Titre',
+      message: 'Nouveau message de {{agentName}} :',
+      deadline: 'Échéance SLA',
+      open: 'Voir le ticket',
+      reply: 'Vous pouvez aussi répondre à cet e-mail : votre réponse sera ajoutée au ticket comme commentaire.'
+    },
+    digest: {
+      subject: 'Résumé de vos notifications : {{notificationCount}} nouvelles',
+      greeting: 'Bonjour {{userName}},',
+      hourly: 'Voici ce qui s\'est passé au cours de la dernière heure (heure de {{timezone}}) :',
+      daily: 'Voici ce qui s\'est passé aujourd\'hui (heure de {{timezone}}) :',
+      open: 'Voir le ticket',
+      all: 'Voir toutes les notifications',
+      reason: 'Vous recevez ce résumé car vous avez choisi la livraison groupée dans vos préférences de notification.'
+    },
+    report: {
+      subject: '{{reportName}} ({{periodStart}} - {{periodEnd}})',
+      period: 'Période',
+      attached: 'Le rapport complet est joint : {{attachmentName}}.',
+      notAttached: 'Le fichier était trop volumineux pour être joint. Téléchargez-le depuis l\'historique des rapports.',
+      history: 'Historique des rapports',
+      reason: 'Vous recevez cet e-mail car vous êtes destinataire de ce rapport planifié.'
+    },
+    survey: {
+      subject: 'Votre avis compte : ticket {{ticketNumber}}',
+      greeting: 'Bonjour {{requesterName}},',
+      greetingNoName: 'Bonjour,',
+      resolved: 'Votre ticket {{ticketNumber}} - {{ticketTitle}} a été résolu.',
+      resolvedBy: 'Votre ticket {{ticketNumber}} - {{ticketTitle}} a été résolu par {{agentName}}.',
+      question: 'Êtes-vous satisfait de l\'assistance reçue ? (1 = très insatisfait, 5 = très satisfait)',
+      quick: 'Cela prend moins d\'une minute et aucune connexion n\'est nécessaire.',
+      fallback: 'Si les boutons ne fonctionnent pas, ouvrez ce lien :',
+      rate: 'Évaluez l\'assistance reçue (sans connexion) :',
+      validUntil: 'Le lien est valable jusqu\'au {{expiresAt}}.'
+    },
+    bounce: {
+      subject: 'Votre réponse n\'a pas été ajoutée : {{originalSubject}}',
+      greeting: 'Bonjour,',
+      notAdded: 'Votre e-mail « {{originalSubject}} » n\'a pas été ajouté en commentaire.',
+      notAddedToTicket: 'Votre e-mail « {{originalSubject}} » n\'a pas été ajouté en commentaire au ticket {{ticketNumber}}.',
+      invalidReplyToken: 'L\'adresse à laquelle vous avez répondu n\'est pas (ou plus) valide. Ouvrez le ticket dans le portail de support pour y répondre.',
+      senderMismatch: 'Seules les réponses envoyées depuis l\'adresse qui a reçu la mise à jour du ticket sont acceptées. Répondez depuis cette adresse ou utilisez le portail de support.',
+      commentNotAllowed: 'Le ticket n\'accepte plus de commentaires, par exemple parce qu\'il est fermé. Ouvrez le ticket dans le portail de support pour demander sa réouverture.',
+      emptyReply: 'Nous n\'avons trouvé aucun texte dans votre réponse. Écrivez votre réponse au-dessus du message cité.',
+      automatic: 'Ce message a été envoyé automatiquement. Les réponses à ce message ne sont pas lues.'
+    }
+  },
+  'nl-NL': {
+    invitation: {
+      subject: 'Welkom bij de servicedesk van {{companyName}}',
+      greeting: 'Hallo {{userName}},',
+      created: 'Er is een account voor je aangemaakt in de servicedesk van {{companyName}}.',
+      account: 'Meld je aan met je e-mailadres {{userEmail}}.',
+      password: 'Tijdelijk wachtwoord: {{temporaryPassword}}',
+      passwordNote: 'Wijzig het wanneer je je voor het eerst aanmeldt.',
+      firstAccess: 'Open de link hieronder en kies een sterk wachtwoord om je registratie af te ronden.',
+      open: 'Servicedesk openen',
+      help: 'Vragen? Mail ons op {{supportEmail}}.'
+    },
+    created: {
+      subject: 'Nieuw ticket {{ticketNumber}}: {{ticketTitle}}',
+      greeting: 'Hallo {{agentName}},',
+      assigned: 'Er is een nieuw ticket aan je toegewezen:',
+      number: 'Nummer',
+      title: 'Titel',
+      requester: 'Aanvrager',
+      priority: 'Prioriteit',
+      deadline: 'SLA-deadline',
+      open: 'Ticket bekijken'
+    },
+    updated: {
+      subject: 'Ticket {{ticketNumber}} is bijgewerkt',
+      greeting: 'Hallo {{userName}},',
+      updated: 'Je ticket {{ticketNumber}} is bijgewerkt.',
+      title: 'Titel',
+      message: 'Nieuw bericht van {{agentName}}:',
+      deadline: 'SLA-deadline',
+      open: 'Ticket bekijken',
+      reply: 'Je kunt ook op deze e-mail antwoorden: je antwoord wordt als opmerking aan het ticket toegevoegd.'
+    },
+    digest: {
+      subject: 'Overzicht van je meldingen: {{notificationCount}} nieuw',
+      greeting: 'Hallo {{userName}},',
+      hourly: 'Dit is er het afgelopen uur gebeurd ({{timezone}}-tijd):',
+      daily: 'Dit is er vandaag gebeurd ({{timezone}}-tijd):',
+      open: 'Ticket bekijken',
+      all: 'Alle meldingen bekijken',
+      reason: 'Je ontvangt dit overzicht omdat je in je meldingsvoorkeuren voor een overzicht hebt gekozen.'
+    },
+    report: {
+      subject: '{{reportName}} ({{periodStart}} - {{periodEnd}})',
+      period: 'Periode',
+      attached: 'Het volledige rapport is bijgevoegd: {{attachmentName}}.',
+      notAttached: 'Het bestand was te groot om bij te voegen. Download het via de rapportgeschiedenis.',
+      history: 'Rapportgeschiedenis',
+      reason: 'Je ontvangt deze e-mail omdat je een ontvanger bent van dit geplande rapport.'
+    },
+    survey: {
+      subject: 'Hoe hebben we het gedaan? Ticket {{ticketNumber}}',
+      greeting: 'Hallo {{requesterName}},',
+      greetingNoName: 'Hallo,',
+      resolved: 'Je ticket {{ticketNumber}} - {{ticketTitle}} is opgelost.',
+      resolvedBy: 'Je ticket {{ticketNumber}} - {{ticketTitle}} is opgelost door {{agentName}}.',
+      question: 'Hoe tevreden ben je over de ondersteuning die je hebt gekregen? (1 = zeer ontevreden, 5 = zeer tevreden)',
+      quick: 'Het kost minder dan een minuut en je hoeft je niet aan te melden.',
+      fallback: 'Werken de knoppen niet? Open dan deze link:',
+      rate: 'Beoordeel de ondersteuning die je hebt gekregen (zonder aanmelden):',
+      validUntil: 'De link is geldig tot {{expiresAt}}.'
+    },
+    bounce: {
+      subject: 'Uw antwoord is niet toegevoegd: {{originalSubject}}',
+      greeting: 'Hallo,',
+      notAdded: 'Uw e-mail "{{originalSubject}}" is niet als opmerking toegevoegd.',
+      notAddedToTicket: 'Uw e-mail "{{originalSubject}}" is niet als opmerking aan ticket {{ticketNumber}} toegevoegd.',
+      invalidReplyToken: 'Het adres waarop u hebt geantwoord is niet (meer) geldig. Open het ticket in het supportportaal om te antwoorden.',
+      senderMismatch: 'We accepteren alleen antwoorden vanaf het adres waarnaar de ticketupdate is gestuurd. Antwoord vanaf dat adres of gebruik het supportportaal.',
+      commentNotAllowed: 'Het ticket accepteert geen nieuwe opmerkingen, bijvoorbeeld omdat het gesloten is. Open het ticket in het supportportaal om te vragen het te heropenen.',
+      emptyReply: 'We hebben geen tekst in uw antwoord gevonden. Schrijf uw antwoord boven het geciteerde bericht.',
+      automatic: 'Dit bericht is automatisch verstuurd. Antwoorden hierop worden niet gelezen.'
+    }
+  },
+  'de-DE': {
+    invitation: {
+      subject: 'Willkommen beim Service Desk von {{companyName}}',
+      greeting: 'Hallo {{userName}},',
+      created: 'Für Sie wurde ein Konto im Service Desk von {{companyName}} angelegt.',
+      account: 'Melden Sie sich mit Ihrer E-Mail-Adresse {{userEmail}} an.',
+      password: 'Vorläufiges Passwort: {{temporaryPassword}}',
+      passwordNote: 'Bitte ändern Sie es bei der ersten Anmeldung.',
+      firstAccess: 'Öffnen Sie den Link unten und wählen Sie ein sicheres Passwort, um Ihre Registrierung abzuschließen.',
+      open: 'Service Desk öffnen',
+      help: 'Fragen? Schreiben Sie uns an {{supportEmail}}.'
+    },
+    created: {
+      subject: 'Neues Ticket {{ticketNumber}}: {{ticketTitle}}',
+      greeting: 'Hallo {{agentName}},',
+      assigned: 'Ihnen wurde ein neues Ticket zugewiesen:',
+      number: 'Nummer',
+      title: 'Titel',
+      requester: 'Anfragende Person',
+      priority: 'Priorität',
+      deadline: 'SLA-Frist',
+      open: 'Ticket ansehen'
+    },
+    updated: {
+      subject: 'Ticket {{ticketNumber}} wurde aktualisiert',
+      greeting: 'Hallo {{userName}},',
+      updated: 'Ihr Ticket {{ticketNumber}} wurde aktualisiert.',
+      title: 'Titel',
+      message: 'Neue Nachricht von {{agentName}}:',
+      deadline: 'SLA-Frist',
+      open: 'Ticket ansehen',
+      reply: 'Sie können auch auf diese E-Mail antworten: Ihre Antwort wird dem Ticket als Kommentar hinzugefügt.'
+    },
+    digest: {
+      subject: 'Ihre Benachrichtigungen im Überblick: {{notificationCount}} neu',
+      greeting: 'Hallo {{userName}},',
+      hourly: 'Das ist in der letzten Stunde passiert (Zeitzone {{timezone}}):',
+      daily: 'Das ist heute passiert (Zeitzone {{timezone}}):',
+      open: 'Ticket ansehen',
+      all: 'Alle Benachrichtigungen ansehen',
+      reason: 'Sie erhalten diese Zusammenfassung, weil Sie in Ihren Benachrichtigungseinstellungen die Zustellung als Zusammenfassung gewählt haben.'
+    },
+    report: {
+      subject: '{{reportName}} ({{periodStart}} - {{periodEnd}})',
+      period: 'Zeitraum',
+      attached: 'Der vollständige Bericht ist angehängt: {{attachmentName}}.',
+      notAttached: 'Die Datei war zu groß für einen Anhang. Laden Sie sie im Berichtsverlauf herunter.',
+      history: 'Berichtsverlauf',
+      reason: 'Sie erhalten diese E-Mail, weil Sie Empfänger dieses geplanten Berichts sind.'
+    },
+    survey: {
+      subject: 'Wie waren wir? Ticket {{ticketNumber}}',
+      greeting: 'Hallo {{requesterName}},',
+      greetingNoName: 'Hallo,',
+      resolved: 'Ihr Ticket {{ticketNumber}} - {{ticketTitle}} wurde gelöst.',
+      resolvedBy: 'Ihr Ticket {{ticketNumber}} - {{ticketTitle}} wurde von {{agentName}} gelöst.',
+      question: 'Wie zufrieden sind Sie mit der erhaltenen Unterstützung? (1 = sehr unzufrieden, 5 = sehr zufrieden)',
+      quick: 'Es dauert weniger als eine Minute und Sie müssen sich nicht anmelden.',
+      fallback: 'Falls die Schaltflächen nicht funktionieren, öffnen Sie diesen Link:',
+      rate: 'Bewerten Sie die erhaltene Unterstützung (ohne Anmeldung):',
+      validUntil: 'Der Link ist gültig bis {{expiresAt}}.'
+    },
+    bounce: {
+      subject: 'Ihre Antwort wurde nicht hinzugefügt: {{originalSubject}}',
+      greeting: 'Hallo,',
+      notAdded: 'Ihre E-Mail „{{originalSubject}}“ wurde nicht als Kommentar hinzugefügt.',
+      notAddedToTicket: 'Ihre E-Mail „{{originalSubject}}“ wurde nicht als Kommentar zu Ticket {{ticketNumber}} hinzugefügt.',
+      invalidReplyToken: 'Die Adresse, an die Sie geantwortet haben, ist nicht (mehr) gültig. Bitte öffnen Sie das Ticket im Support-Portal, um zu antworten.',
+      senderMismatch: 'Antworten werden nur von der Adresse angenommen, an die das Ticket-Update gesendet wurde. Bitte antworten Sie von dieser Adresse oder nutzen Sie das Support-Portal.',
+      commentNotAllowed: 'Das Ticket nimmt keine neuen Kommentare an, zum Beispiel weil es geschlossen ist. Bitte öffnen Sie das Ticket im Support-Portal, um die Wiedereröffnung zu beantragen.',
+      emptyReply: 'Wir konnten in Ihrer Antwort keinen Text finden. Bitte schreiben Sie Ihre Antwort oberhalb der zitierten Nachricht.',
+      automatic: 'Diese Nachricht wurde automatisch versendet. Antworten darauf werden nicht gelesen.'
+    }
+  }
+}
+
+function userInvitation({ invitation: p }: Phrases): EmailTemplateContent {
+  return {
+    subject: p.subject,
+    body_html: [
+      `<p>${p.greeting}</p>`,
+      `<p>${p.created}</p>`,
+      `<p>${p.account}</p>`,
+      `{{#temporaryPassword}}<p style="background: #fff3cd; border-radius: 5px; padding: 12px;"><strong>${p.password}</strong><br>${p.passwordNote}</p>{{/temporaryPassword}}`,
+      `{{^temporaryPassword}}<p>${p.firstAccess}</p>{{/temporaryPassword}}`,
+      registrationButton(p.open),
+      `<p>${p.help}</p>`
+    ].join('\n'),
+    body_text: [
+      p.greeting,
+      '',
+      p.created,
+      p.account,
+      '{{#temporaryPassword}}',
+      `${p.password}`,
+      `${p.passwordNote}`,
+      '{{/temporaryPassword}}{{^temporaryPassword}}',
+      p.firstAccess,
+      '{{/temporaryPassword}}',
+      '{{registrationLink}}',
+      '',
+      p.help
+    ].join('\n')
+  }
+}
+
+function ticketCreated({ created: p }: Phrases): EmailTemplateContent {
+  return {
+    subject: p.subject,
+    body_html: [
+      `<p>${p.greeting}</p>`,
+      `<p>${p.assigned}</p>`,
+      '<ul>',
+      `  <li><strong>${p.number}:</strong> {{ticketNumber}}</li>`,
+      `  <li><strong>${p.title}:</strong> {{ticketTitle}}</li>`,
+      `  <li><strong>${p.requester}:</strong> {{requesterEmail}}</li>`,
+      `  <li><strong>${p.priority}:</strong> {{priority}}</li>`,
+      `  {{#slaDeadline}}<li><strong>${p.deadline}:</strong> {{slaDeadline}}</li>{{/slaDeadline}}`,
+      '</ul>',
+      button(p.open)
+    ].join('\n'),
+    body_text: [
+      p.greeting,
+      '',
+      p.assigned,
+      `- ${p.number}: {{ticketNumber}}`,
+      `- ${p.title}: {{ticketTitle}}`,
+      `- ${p.requester}: {{requesterEmail}}`,
+      `- ${p.priority}: {{priority}}`,
+      `{{#slaDeadline}}- ${p.deadline}: {{slaDeadline}}`,
+      '{{/slaDeadline}}',
+      '{{ticketLink}}'
+    ].join('\n')
+  }
+}
+
+function ticketUpdated({ updated: p }: Phrases): EmailTemplateContent {
+  return {
+    subject: p.subject,
+    body_html: [
+      `<p>${p.greeting}</p>`,
+      `<p>${p.updated}</p>`,
+      `<p><strong>${p.title}:</strong> {{ticketTitle}}</p>`,
+      `<div style="background: #e0f2fe; border-left: 4px solid {{primaryColor}}; padding: 12px 15px; margin: 15px 0;">`,
+      `  <p><strong>${p.message}</strong></p>`,
+      '  <p>{{updateMessage}}</p>',
+      '</div>',
+      `{{#slaDeadline}}<p><strong>${p.deadline}:</strong> {{slaDeadline}}</p>{{/slaDeadline}}`,
+      button(p.open),
+      `{{#acceptsReplies}}<p>${p.reply}</p>{{/acceptsReplies}}`
+    ].join('\n'),
+    body_text: [
+      p.greeting,
+      '',
+      p.updated,
+      `${p.title}: {{ticketTitle}}`,
+      '',
+      p.message,
+      '{{updateMessage}}',
+      '',
+      `{{#slaDeadline}}${p.deadline}: {{slaDeadline}}`,
+      '{{/slaDeadline}}',
+      '{{ticketLink}}',
+      `{{#acceptsReplies}}`,
+      p.reply,
+      '{{/acceptsReplies}}'
+    ].join('\n')
+  }
+}
+
+function notificationDigest({ digest: p }: Phrases): EmailTemplateContent {
+  return {
+    subject: p.subject,
+    body_html: [
+      `<p>${p.greeting}</p>`,
+      `<p>{{#hourly}}${p.hourly}{{/hourly}}{{^hourly}}${p.daily}{{/hourly}}</p>`,
+      '{{#notifications}}<div style="border-left: 4px solid {{primaryColor}}; background: #f8fafc; padding: 10px 15px; margin: 12px 0;">',
+      '  <p style="margin: 4px 0; font-size: 12px; color: #666666;">{{notificationTime}}</p>',
+      '  <p style="margin: 4px 0;"><strong>{{notificationTitle}}</strong></p>',
+      '  <p style="margin: 4px 0;">{{notificationMessage}}</p>',
+      `  {{#notificationLink}}<p style="margin: 4px 0;"><a href="{{notificationLink}}">${p.open}</a></p>{{/notificationLink}}`,
+      '</div>{{/notifications}}',
+      linkButton('notificationsLink', p.all),
+      `<p style="font-size: 12px; color: #666666;">${p.reason}</p>`
+    ].join('\n'),
+    body_text: [
+      p.greeting,
+      '',
+      `{{#hourly}}${p.hourly}{{/hourly}}{{^hourly}}${p.daily}{{/hourly}}`,
+      '',
+      '{{#notifications}}[{{notificationTime}}] {{notificationTitle}}',
+      '{{notificationMessage}}',
+      '{{#notificationLink}}{{notificationLink}}',
+      '{{/notificationLink}}',
+      '{{/notifications}}',
+      `${p.all}: {{notificationsLink}}`,
+      '',
+      p.reason
+    ].join('\n')
+  }
+}
+
+function scheduledReport({ report: p }: Phrases): EmailTemplateContent {
+  return {
+    subject: p.subject,
+    body_html: [
+      '<h2 style="margin-top: 0;">{{reportName}}</h2>',
+      `<p>{{reportTitle}} · ${p.period}: {{periodStart}} - {{periodEnd}}</p>`,
+      '<table style="width: 100%; border-collapse: collapse; margin: 15px 0;">',
+      '{{#summary}}  <tr><td style="border-bottom: 1px solid #e5e7eb; padding: 8px 4px;">{{summaryLabel}}</td><td style="border-bottom: 1px solid #e5e7eb; padding: 8px 4px;"><strong>{{summaryValue}}</strong></td></tr>',
+      '{{/summary}}</table>',
+      `{{#attachmentName}}<p>${p.attached}</p>{{/attachmentName}}`,
+      `{{^attachmentName}}<p>${p.notAttached}</p>{{/attachmentName}}`,
+      linkButton('historyLink', p.history),
+      `<p style="font-size: 12px; color: #666666;">${p.reason}</p>`
+    ].join('\n'),
+    body_text: [
+      '{{reportName}} - {{reportTitle}}',
+      `${p.period}: {{periodStart}} - {{periodEnd}}`,
+      '',
+      '{{#summary}}{{summaryLabel}}: {{summaryValue}}',
+      '{{/summary}}',
+      `{{#attachmentName}}${p.attached}{{/attachmentName}}{{^attachmentName}}${p.notAttached}{{/attachmentName}}`,
+      `${p.history}: {{historyLink}}`,
+      '',
+      p.reason
+    ].join('\n')
+  }
+}
+
+function csatSurvey({ survey: p }: Phrases): EmailTemplateContent {
+  const ratingLinks = [1, 2, 3, 4, 5]
+    .map(rating => `<a href="{{surveyLink}}?rating=${rating}" style="display: inline-block; width: 40px; height: 40px; line-height: 40px; margin: 0 4px; border-radius: 20px; background: #f3f4f6; color: #111827; text-decoration: none; font-weight: bold;">${rating}</a>`)
+    .join('')
+
+  return {
+    subject: p.subject,
+    body_html: [
+      `<p>{{#requesterName}}${p.greeting}{{/requesterName}}{{^requesterName}}${p.greetingNoName}{{/requesterName}}</p>`,
+      `<p>{{#agentName}}${p.resolvedBy}{{/agentName}}{{^agentName}}${p.resolved}{{/agentName}}</p>`,
+      `<p>${p.question}</p>`,
+      `<p style="text-align: center;">${ratingLinks}</p>`,
+      `<p>${p.quick} ${p.validUntil}</p>`,
+      `<p style="font-size: 12px; color: #6b7280;">${p.fallback} {{surveyLink}}</p>`
+    ].join('\n'),
+    body_text: [
+      `{{#requesterName}}${p.greeting}{{/requesterName}}{{^requesterName}}${p.greetingNoName}{{/requesterName}}`,
+      '',
+      `{{#agentName}}${p.resolvedBy}{{/agentName}}{{^agentName}}${p.resolved}{{/agentName}}`,
+      '',
+      p.rate,
+      '{{surveyLink}}',
+      '',
+      p.validUntil
+    ].join('\n')
+  }
+}
+
+function replyBounce({ bounce: p }: Phrases): EmailTemplateContent {
+  const notAdded = `{{#ticketNumber}}${p.notAddedToTicket}{{/ticketNumber}}{{^ticketNumber}}${p.notAdded}{{/ticketNumber}}`
+  const reasons = [
+    `{{#invalidReplyToken}}${p.invalidReplyToken}{{/invalidReplyToken}}`,
+    `{{#senderMismatch}}${p.senderMismatch}{{/senderMismatch}}`,
+    `{{#commentNotAllowed}}${p.commentNotAllowed}{{/commentNotAllowed}}`,
+    `{{#emptyReply}}${p.emptyReply}{{/emptyReply}}`
+  ].join('')
+
+  return {
+    subject: p.subject,
+    body_html: [
+      `<p>${p.greeting}</p>`,
+      `<p>${notAdded}</p>`,
+      `<p>${reasons}</p>`,
+      `<p style="font-size: 12px; color: #6b7280;">${p.automatic}</p>`
+    ].join('\n'),
+    body_text: [
+      p.greeting,
+      '',
+      notAdded,
+      '',
+      reasons,
+      '',
+      p.automatic
+    ].join('\n')
+  }
+}
+
+const BUILDERS: Record<EmailTemplateEvent, (phrases: Phrases) => EmailTemplateContent> = {
+  user_invitation: userInvitation,
+  ticket_created: ticketCreated,
+  ticket_updated: ticketUpdated,
+  notification_digest: notificationDigest,
+  scheduled_report: scheduledReport,
+  csat_survey: csatSurvey,
+  reply_bounce: replyBounce
+}
+
+export function defaultEmailTemplate(event: EmailTemplateEvent, locale: EmailLocale): EmailTemplateContent {
+  return BUILDERS[event](PHRASES[locale] || PHRASES['en-US'])
+}
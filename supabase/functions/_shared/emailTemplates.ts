@@ -0,0 +1,373 @@
+// Email templates: per event and locale, with {{variables}} and the branding
+// and sender identity admins configure in email_settings. Rendered by the app
+// (EmailTemplateService) and read by the send-email function for the sender.
+//
+// Syntax: {{name}} inserts a variable (HTML-escaped in the HTML body),
+// {{#name}}...{{/name}} is only kept when the variable is set and
+// {{^name}}...{{/name}} only when it is not. For a list variable,
+// {{#name}}...{{/name}} is repeated for every item.
+
+import { defaultEmailTemplate } from './emailTemplateDefaults.ts'
+import type { JobClient } from './scheduledJobs.ts'
+
+export const EMAIL_LOCALES = ['en-US', 'pt-BR', 'es-ES', 'fr-FR', 'nl-NL', 'de-DE'] as const
+export type EmailLocale = typeof EMAIL_LOCALES[number]
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en-US'
+
+export const EMAIL_TEMPLATE_EVENTS = [
+  'ticket_created',
+  'ticket_updated',
+  'user_invitation',
+  'notification_digest',
+  'scheduled_report',
+  'csat_survey',
+  'reply_bounce'
+] as const
+export type EmailTemplateEvent = typeof EMAIL_TEMPLATE_EVENTS[number]
+
+// Available in every template, from the branding
+const BRANDING_VARIABLES = ['companyName', 'primaryColor']
+
+export const EMAIL_TEMPLATE_VARIABLES: Record<EmailTemplateEvent, string[]> = {
+  ticket_created: ['agentName', 'ticketNumber', 'ticketTitle', 'requesterEmail', 'priority', 'ticketLink', 'slaDeadline'],
+  ticket_updated: ['userName', 'ticketNumber', 'ticketTitle', 'agentName', 'updateMessage', 'ticketLink', 'slaDeadline', 'acceptsReplies'],
+  user_invitation: ['userName', 'userEmail', 'registrationLink', 'temporaryPassword', 'supportEmail'],
+  notification_digest: [
+    'userName', 'notificationCount', 'hourly', 'timezone', 'notificationsLink',
+    'notifications', 'notificationTime', 'notificationTitle', 'notificationMessage', 'notificationLink'
+  ],
+  scheduled_report: [
+    'reportName', 'reportTitle', 'periodStart', 'periodEnd', 'attachmentName', 'historyLink',
+    'summary', 'summaryLabel', 'summaryValue'
+  ],
+  csat_survey: ['requesterName', 'ticketNumber', 'ticketTitle', 'agentName', 'surveyLink', 'expiresAt'],
+  // One flag per rejection reason; exactly one of them is set
+  reply_bounce: ['originalSubject', 'ticketNumber', 'invalidReplyToken', 'senderMismatch', 'commentNotAllowed', 'emptyReply']
+}
+
+// List variables and the variables each of their items has
+export const EMAIL_TEMPLATE_LISTS: Partial<Record<EmailTemplateEvent, Record<string, string[]>>> = {
+  notification_digest: { notifications: ['notificationTime', 'notificationTitle', 'notificationMessage', 'notificationLink'] },
+  scheduled_report: { summary: ['summaryLabel', 'summaryValue'] }
+}
+
+export type TemplateVariables = { [name: string]: string | null | undefined | TemplateVariables[] }
+
+export interface EmailTemplateContent {
+  subject: string
+  body_html: string
+  body_text: string
+}
+
+export interface StoredEmailTemplate extends EmailTemplateContent {
+  event: EmailTemplateEvent
+  locale: string
+  is_active: boolean
+}
+
+export interface EmailSettings {
+  from_name: string
+  from_address: string
+  reply_to_address: string | null
+  company_name: string
+  logo_url: string | null
+  primary_color: string
+  footer_text: string | null
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export const DEFAULT_EMAIL_SETTINGS: EmailSettings = {
+  from_name: 'ACS Ticket System',
+  from_address: 'onboarding@resend.dev',
+  reply_to_address: null,
+  company_name: 'AnalytiChem',
+  logo_url: null,
+  primary_color: '#1e40af',
+  footer_text: '{{companyName}}'
+}
+
+/**
+ * The email locale for a user's language preference ('pt', 'pt-BR', 'de_DE');
+ * unknown languages get the default locale
+ */
+export function resolveEmailLocale(language?: string | null): EmailLocale {
+  const normalized = (language || '').replace('_', '-').toLowerCase()
+  if (!normalized) return DEFAULT_EMAIL_LOCALE
+
+  const exact = EMAIL_LOCALES.find(locale => locale.toLowerCase() === normalized)
+  if (exact) return exact
+
+  const sameLanguage = EMAIL_LOCALES.find(locale => locale.slice(0, 2).toLowerCase() === normalized.slice(0, 2))
+  return sameLanguage || DEFAULT_EMAIL_LOCALE
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+export function renderTemplateString(source: string, variables: TemplateVariables, html = false): string {
+  const isSet = (name: string) => {
+    const value = variables[name]
+    if (Array.isArray(value)) return value.length > 0
+    return value !== null && value !== undefined && value !== ''
+  }
+
+  // One pass over sections and variables, so text inserted from a variable is
+  // never read as template syntax
+  return source.replace(
+    /\{\{\s*([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\2\s*\}\}|\{\{\s*(\w+)\s*\}\}/g,
+    (_, kind: string, section: string, inner: string, name: string) => {
+      if (name) {
+        const value = variables[name]
+        const text = typeof value === 'string' ? value : ''
+        return html ? escapeHtml(text) : text
+      }
+
+      const value = variables[section]
+      if (kind === '#' && Array.isArray(value)) {
+        return value.map(item => renderTemplateString(inner, { ...variables, ...item }, html)).join('')
+      }
+      return (kind === '#') === isSet(section) ? renderTemplateString(inner, variables, html) : ''
+    }
+  )
+}
+
+/**
+ * Variables a template uses that its event does not provide, usually typos
+ */
+export function findUnknownVariables(event: EmailTemplateEvent, template: EmailTemplateContent): string[] {
+  const known = new Set([...EMAIL_TEMPLATE_VARIABLES[event], ...BRANDING_VARIABLES])
+  const used = new Set<string>()
+  const pattern = /\{\{\s*[#^/]?\s*(\w+)\s*\}\}/g
+
+  for (const source of [template.subject, template.body_html, template.body_text]) {
+    for (const match of source.matchAll(pattern)) used.add(match[1])
+  }
+
+  return Array.from(used).filter(name => !known.has(name))
+}
+
+export function validateEmailTemplate(event: EmailTemplateEvent, template: EmailTemplateContent): string | null {
+  if (!template.subject.trim()) return 'Subject is required'
+  if (!template.body_html.trim()) return 'HTML body is required'
+  if (!template.body_text.trim()) return 'Text body is required'
+
+  const unknown = findUnknownVariables(event, template)
+  if (unknown.length > 0) return `Unknown variables: ${unknown.join(', ')}`
+  return null
+}
+
+/**
+ * The template for a recipient's locale: the admin's version when there is an
+ * active one, the built-in one otherwise
+ */
+export function pickEmailTemplate(
+  stored: StoredEmailTemplate[],
+  event: EmailTemplateEvent,
+  locale: EmailLocale
+): { template: EmailTemplateContent; custom: boolean } {
+  const custom = stored.find(template => template.event === event && template.locale === locale && template.is_active)
+  return custom
+    ? { template: { subject: custom.subject, body_html: custom.body_html, body_text: custom.body_text }, custom: true }
+    : { template: defaultEmailTemplate(event, locale), custom: false }
+}
+
+export function formatTemplateDate(date: Date | null | undefined, locale: EmailLocale, timeZone?: string): string | null {
+  if (!date) return null
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short', timeZone }).format(date)
+}
+
+export function formatSender(settings: Pick<EmailSettings, 'from_name' | 'from_address'>): string {
+  const name = settings.from_name.replace(/["<>]/g, '').trim()
+  return name ? `${name} <${settings.from_address}>` : settings.from_address
+}
+
+function brandedLayout(settings: EmailSettings, subject: string, body: string, footer: string): string {
+  const color = escapeHtml(settings.primary_color)
+  const header = settings.logo_url
+    ? `<img src="${escapeHtml(settings.logo_url)}" alt="${escapeHtml(settings.company_name)}" style="max-height: 48px;">`
+    : `<h1 style="margin: 0; font-size: 22px;">${escapeHtml(settings.company_name)}</h1>`
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333333; margin: 0; padding: 20px; background: #f3f4f6;">
+  <div style="max-width: 600px; margin: 0 auto; background: #ffffff; border-radius: 8px; overflow: hidden;">
+    <div style="background: ${color}; color: #ffffff; padding: 20px; text-align: center;">${header}</div>
+    <div style="padding: 30px;">
+${body}
+    </div>
+    ${footer ? `<div style="background: #f8f9fa; padding: 20px; text-align: center; font-size: 12px; color: #666666;">${footer}</div>` : ''}
+  </div>
+</body>
+</html>`
+}
+
+export function renderEmail(
+  template: EmailTemplateContent,
+  variables: TemplateVariables,
+  settings: EmailSettings
+): RenderedEmail {
+  const all = { ...variables, companyName: settings.company_name, primaryColor: settings.primary_color }
+  const footer = settings.footer_text ? renderTemplateString(settings.footer_text, all) : ''
+  const subject = renderTemplateString(template.subject, all).replace(/\s+/g, ' ').trim()
+  const body = renderTemplateString(template.body_html, all, true)
+  const text = renderTemplateString(template.body_text, all).replace(/\n{3,}/g, '\n\n').trim()
+
+  return {
+    subject,
+    html: brandedLayout(settings, subject, body, escapeHtml(footer)),
+    text: footer ? `${text}\n\n---\n${footer}` : text
+  }
+}
+
+export async function loadEmailSettings(client: JobClient): Promise<EmailSettings> {
+  const { data, error } = await client.from('email_settings').select('*').maybeSingle()
+  if (error) console.warn('⚠️ Could not load email settings, using defaults:', error.message || error)
+
+  const stored = Object.fromEntries(Object.entries(data || {}).filter(([, value]) => value !== null))
+  return { ...DEFAULT_EMAIL_SETTINGS, ...stored } as EmailSettings
+}
+
+/**
+ * An event's email in the recipient's language, with the admin's template for
+ * that locale when there is one, and the configured branding and sender
+ */
+export async function renderStoredEmail(
+  client: JobClient,
+  event: EmailTemplateEvent,
+  variables: TemplateVariables,
+  language?: string | null
+): Promise<RenderedEmail & { locale: EmailLocale; from: string }> {
+  const locale = resolveEmailLocale(language)
+  const [{ data: stored, error }, settings] = await Promise.all([
+    client
+      .from('email_templates')
+      .select('event, locale, subject, body_html, body_text, is_active')
+      .eq('event', event)
+      .eq('locale', locale),
+    loadEmailSettings(client)
+  ])
+  if (error) console.warn(`⚠️ Could not load the ${event} email template, using the built-in one:`, error.message || error)
+
+  const { template } = pickEmailTemplate(stored || [], event, locale)
+  return { ...renderEmail(template, variables, settings), locale, from: formatSender(settings) }
+}
+
+/**
+ * Users' email languages, from their notification preferences. Users without
+ * preferences are left out and get the default locale.
+ */
+export async function loadRecipientLanguages(client: JobClient, userIds: string[]): Promise<Map<string, string>> {
+  const languages = new Map<string, string>()
+  if (userIds.length === 0) return languages
+
+  const { data, error } = await client
+    .from('notification_preferences')
+    .select('user_id, language')
+    .in('user_id', Array.from(new Set(userIds)))
+
+  if (error) console.warn('⚠️ Could not load email languages, using the default:', error.message || error)
+  for (const row of data || []) {
+    if (row.language) languages.set(row.user_id, row.language)
+  }
+  return languages
+}
+
+/**
+ * Made-up values for previews and test emails
+ */
+export function sampleTemplateVariables(event: EmailTemplateEvent, appUrl: string): TemplateVariables {
+  const ticketLink = `${appUrl}/ticket/ACS-TK-202508-0042`
+  const samples: Record<EmailTemplateEvent, TemplateVariables> = {
+    ticket_created: {
+      agentName: 'Maria Agent',
+      ticketNumber: 'ACS-TK-202508-0042',
+      ticketTitle: 'Printer on the 2nd floor is offline',
+      requesterEmail: 'ana.silva@example.com',
+      priority: 'HIGH',
+      ticketLink,
+      slaDeadline: '08/08/2025 14:00'
+    },
+    ticket_updated: {
+      userName: 'Ana Silva',
+      ticketNumber: 'ACS-TK-202508-0042',
+      ticketTitle: 'Printer on the 2nd floor is offline',
+      agentName: 'Maria Agent',
+      updateMessage: 'We replaced the network cable. Can you try printing again?',
+      ticketLink,
+      slaDeadline: '08/08/2025 14:00',
+      acceptsReplies: 'yes'
+    },
+    user_invitation: {
+      userName: 'Ana Silva',
+      userEmail: 'ana.silva@example.com',
+      registrationLink: `${appUrl}/register`,
+      temporaryPassword: 'Temp-1234',
+      supportEmail: 'suporte@analytichem.com'
+    },
+    notification_digest: {
+      userName: 'Ana Silva',
+      notificationCount: '2',
+      hourly: null,
+      timezone: 'America/Sao_Paulo',
+      notificationsLink: `${appUrl}/notifications`,
+      notifications: [
+        {
+          notificationTime: '08/08/2025 09:12',
+          notificationTitle: 'Ticket assigned',
+          notificationMessage: 'ACS-TK-202508-0042 was assigned to Maria Agent',
+          notificationLink: ticketLink
+        },
+        {
+          notificationTime: '08/08/2025 11:40',
+          notificationTitle: 'New comment',
+          notificationMessage: 'Maria Agent commented on ACS-TK-202508-0042',
+          notificationLink: ticketLink
+        }
+      ]
+    },
+    scheduled_report: {
+      reportName: 'Weekly SLA review',
+      reportTitle: 'SLA compliance',
+      periodStart: '08/01/2025',
+      periodEnd: '08/07/2025',
+      attachmentName: 'report_sla_2025-08-01_2025-08-07.pdf',
+      historyLink: `${appUrl}/reports`,
+      summary: [
+        { summaryLabel: 'Tickets', summaryValue: '128' },
+        { summaryLabel: 'Resolution compliance', summaryValue: '94%' }
+      ]
+    },
+    csat_survey: {
+      requesterName: 'Ana Silva',
+      ticketNumber: 'ACS-TK-202508-0042',
+      ticketTitle: 'Printer on the 2nd floor is offline',
+      agentName: 'Maria Agent',
+      surveyLink: `${appUrl}/survey/sample`,
+      expiresAt: '08/22/2025 14:00'
+    },
+    reply_bounce: {
+      originalSubject: 'Re: Ticket ACS-TK-202508-0042 was updated',
+      ticketNumber: 'ACS-TK-202508-0042',
+      invalidReplyToken: null,
+      senderMismatch: null,
+      commentNotAllowed: 'yes',
+      emptyReply: null
+    }
+  }
+  return samples[event]
+}
@@ -0,0 +1,477 @@
+// Escalation steps for tickets that stay open: the steps of the first matching
+// escalation policy, and the escalateAfter action of the assignment rule that
+// routed the ticket. Run by the escalations scheduled job.
+
+import type { JobClient, JobContext, JobResult } from './scheduledJobs.ts'
+import { findTeam, loadTeams, routeWithinTeam, type Team } from './teamRouting.ts'
+
+export type EscalationAction = 'reassign' | 'raise_priority' | 'notify_team_lead' | 'notify_admin'
+
+export type EscalationStatus = 'pending' | 'done' | 'skipped' | 'failed'
+
+export interface EscalationStepConfig {
+  team?: string     // reassign / notify_team_lead: team slug or id, defaults to the ticket's team
+  priority?: string // raise_priority: target priority, defaults to one level up
+}
+
+export interface EscalationStep {
+  id?: string
+  policy_id?: string
+  step_order: number
+  after_minutes: number
+  action: EscalationAction
+  config: EscalationStepConfig
+}
+
+export interface EscalationPolicy {
+  id: string
+  name: string
+  description?: string | null
+  priorities: string[]
+  category_ids: string[]
+  sort_order: number
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+  steps: EscalationStep[]
+}
+
+export interface EscalationTicket {
+  id: string
+  ticket_number?: string | null
+  title: string
+  priority: string
+  status: string
+  category_id?: string | null
+  created_at: string
+  assigned_to?: string | null
+  team_id?: string | null
+  queue_id?: string | null
+  first_response_at?: string | null
+}
+
+/**
+ * A step that is due for a ticket, from a policy or from the escalateAfter
+ * action of the assignment rule that routed it
+ */
+export interface DueEscalation {
+  key: string
+  action: EscalationAction
+  config: EscalationStepConfig
+  policy?: Pick<EscalationPolicy, 'id' | 'name'>
+  stepId?: string
+  ruleId?: string
+  source: string // policy or rule name, for the activity log
+}
+
+interface EscalationRule {
+  id: string
+  name: string
+  actions: { escalateAfter?: number; notifyManager?: boolean }
+}
+
+interface StepOutcome {
+  status: EscalationStatus
+  details: string
+  field?: string
+  oldValue?: string | null
+  newValue?: string | null
+}
+
+export const PRIORITY_LADDER = ['low', 'medium', 'high', 'urgent']
+
+const ACTIVE_STATUSES = ['open', 'in_progress']
+
+/**
+ * The priority a raise_priority step moves a ticket to, or null when it is
+ * already there (or higher)
+ */
+export function nextPriority(current: string, target?: string): string | null {
+  const currentLevel = PRIORITY_LADDER.indexOf(current)
+  const targetLevel = target ? PRIORITY_LADDER.indexOf(target) : currentLevel + 1
+  if (targetLevel <= currentLevel || targetLevel >= PRIORITY_LADDER.length) return null
+  return PRIORITY_LADDER[targetLevel]
+}
+
+/**
+ * The first active policy, in sort order, whose priorities and categories
+ * cover the ticket. Empty lists match everything.
+ */
+export function matchPolicy(ticket: EscalationTicket, policies: EscalationPolicy[]): EscalationPolicy | undefined {
+  return policies
+    .filter(policy => policy.is_active)
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .find(policy =>
+      (policy.priorities.length === 0 || policy.priorities.includes(ticket.priority)) &&
+      (policy.category_ids.length === 0 || (!!ticket.category_id && policy.category_ids.includes(ticket.category_id)))
+    )
+}
+
+/**
+ * Steps of the policy whose threshold has passed and that have not run for
+ * the ticket yet, in chain order
+ */
+export function dueSteps(
+  ticket: EscalationTicket,
+  policy: EscalationPolicy,
+  executedKeys: Set<string>,
+  now: Date = new Date()
+): DueEscalation[] {
+  const openMinutes = (now.getTime() - new Date(ticket.created_at).getTime()) / 60000
+
+  return [...policy.steps]
+    .sort((a, b) => a.after_minutes - b.after_minutes || a.step_order - b.step_order)
+    .filter(step => step.id && step.after_minutes <= openMinutes && !executedKeys.has(step.id))
+    .map(step => ({
+      key: step.id as string,
+      action: step.action,
+      config: step.config || {},
+      policy: { id: policy.id, name: policy.name },
+      stepId: step.id,
+      source: policy.name
+    }))
+}
+
+/**
+ * The escalation an assignment rule asks for with escalateAfter: reassign the
+ * ticket when the agent the rule picked has not responded in time, and page
+ * the team lead as well when the rule has notifyManager
+ */
+export function ruleEscalations(
+  ticket: EscalationTicket,
+  assignment: { rule_id: string; created_at: string },
+  rule: EscalationRule,
+  executedKeys: Set<string>,
+  now: Date = new Date()
+): DueEscalation[] {
+  const escalateAfter = rule.actions.escalateAfter
+  if (!escalateAfter || escalateAfter <= 0 || ticket.first_response_at || !ticket.assigned_to) return []
+
+  const waitedMinutes = (now.getTime() - new Date(assignment.created_at).getTime()) / 60000
+  if (waitedMinutes < escalateAfter) return []
+
+  const steps: DueEscalation[] = [
+    { key: `rule:${rule.id}`, action: 'reassign', config: {}, ruleId: rule.id, source: rule.name }
+  ]
+  if (rule.actions.notifyManager) {
+    steps.push({ key: `rule:${rule.id}:lead`, action: 'notify_team_lead', config: {}, ruleId: rule.id, source: rule.name })
+  }
+
+  return steps.filter(step => !executedKeys.has(step.key))
+}
+
+/**
+ * All policies with their steps, in evaluation order
+ */
+export async function loadEscalationPolicies(client: JobClient): Promise<EscalationPolicy[]> {
+  const { data, error } = await client
+    .from('escalation_policies')
+    .select('*, steps:escalation_steps(*)')
+    .order('sort_order', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching escalation policies:', error)
+    throw error
+  }
+
+  return (data || []).map((policy: EscalationPolicy) => ({
+    ...policy,
+    priorities: policy.priorities || [],
+    category_ids: policy.category_ids || [],
+    steps: (policy.steps || []).sort((a, b) => a.after_minutes - b.after_minutes || a.step_order - b.step_order)
+  }))
+}
+
+async function notify(client: JobClient, userIds: string[], ticket: EscalationTicket, type: string, title: string, message: string, now: Date) {
+  const { error } = await client
+    .from('notifications')
+    .insert(userIds.map(userId => ({
+      user_id: userId,
+      type,
+      title,
+      message,
+      ticket_id: ticket.id,
+      priority: 'high',
+      read: false,
+      created_at: now.toISOString()
+    })))
+
+  if (error) {
+    console.error('Error creating escalation notifications:', error)
+    throw error
+  }
+}
+
+async function executeAction(
+  client: JobClient,
+  ticket: EscalationTicket,
+  step: DueEscalation,
+  teams: () => Promise<Team[]>,
+  now: Date
+): Promise<StepOutcome> {
+  const label = ticket.ticket_number || ticket.title
+
+  switch (step.action) {
+    case 'reassign': {
+      const teamRef = step.config.team || ticket.team_id
+      if (!teamRef) {
+        return { status: 'skipped', details: 'No team to reassign the ticket to' }
+      }
+
+      const team = findTeam(await teams(), teamRef)
+      const routed = team?.is_active
+        ? await routeWithinTeam(client, team, { excludeAgentIds: ticket.assigned_to ? [ticket.assigned_to] : [], now })
+        : null
+      if (!routed?.agent) {
+        return { status: 'skipped', details: 'Nobody else on the team is on duty' }
+      }
+
+      const { error } = await client
+        .from('tickets_new')
+        .update({
+          assigned_to: routed.agent.id,
+          queue_id: routed.queue?.id ?? ticket.queue_id ?? null,
+          updated_at: now.toISOString()
+        })
+        .eq('id', ticket.id)
+      if (error) throw error
+
+      // A missing audit row must not undo the reassignment
+      const { error: auditError } = await client
+        .from('ticket_assignment_audit')
+        .insert({
+          ticket_id: ticket.id,
+          assigned_to: routed.agent.id,
+          assigned_by: null,
+          method: 'escalation',
+          rule_id: null,
+          rule_version: null,
+          rule_name: null,
+          matched_conditions: [],
+          reason: `Escalated by ${step.source}`,
+          confidence: 1
+        })
+      if (auditError) {
+        console.error('Error recording ticket assignment:', auditError)
+      }
+
+      await notify(client, [routed.agent.id], ticket, 'assignment_changed',
+        'Escalated ticket assigned to you',
+        `Ticket ${label} was escalated to you by ${step.source}.`, now)
+
+      ticket.assigned_to = routed.agent.id
+      return {
+        status: 'done',
+        details: `reassigned to ${routed.agent.name} (${routed.team.name})`,
+        field: 'assigned_to',
+        newValue: routed.agent.name
+      }
+    }
+
+    case 'raise_priority': {
+      const priority = nextPriority(ticket.priority, step.config.priority)
+      if (!priority) {
+        return { status: 'skipped', details: `priority already ${ticket.priority}` }
+      }
+
+      const { error } = await client
+        .from('tickets_new')
+        .update({ priority, updated_at: now.toISOString() })
+        .eq('id', ticket.id)
+      if (error) throw error
+
+      const oldPriority = ticket.priority
+      ticket.priority = priority
+      return {
+        status: 'done',
+        details: `priority raised from ${oldPriority} to ${priority}`,
+        field: 'priority',
+        oldValue: oldPriority,
+        newValue: priority
+      }
+    }
+
+    case 'notify_team_lead': {
+      const teamRef = step.config.team || ticket.team_id
+      const team = teamRef ? findTeam(await teams(), teamRef) : null
+      const leads = (team?.members || []).filter(member => member.role === 'lead')
+      if (!team || leads.length === 0) {
+        return { status: 'skipped', details: 'No team lead to page' }
+      }
+
+      await notify(client, leads.map(lead => lead.user_id), ticket, 'sla_breach',
+        `Escalation: ${label}`,
+        `Ticket ${label} (${ticket.priority}) was escalated to the ${team.name} lead by ${step.source}.`, now)
+
+      return {
+        status: 'done',
+        details: `paged ${team.name} lead ${leads.map(lead => lead.user?.full_name || lead.user?.email).join(', ')}`
+      }
+    }
+
+    case 'notify_admin': {
+      const { data: admins, error } = await client
+        .from('users')
+        .select('id')
+        .eq('role', 'admin')
+      if (error) throw error
+      if (!admins || admins.length === 0) {
+        return { status: 'skipped', details: 'No admin to notify' }
+      }
+
+      await notify(client, admins.map((admin: { id: string }) => admin.id), ticket, 'sla_breach',
+        `Escalation: ${label}`,
+        `Ticket ${label} (${ticket.priority}) reached the admin level of ${step.source}.`, now)
+
+      return { status: 'done', details: `notified ${admins.length} admin(s)` }
+    }
+  }
+}
+
+/**
+ * Claim, execute and record one step. Resolves to null when the step was
+ * already claimed, e.g. by an overlapping manual run.
+ */
+async function runStep(
+  client: JobClient,
+  ticket: EscalationTicket,
+  step: DueEscalation,
+  teams: () => Promise<Team[]>,
+  now: Date
+): Promise<EscalationStatus | null> {
+  const { data: claim, error: claimError } = await client
+    .from('ticket_escalations')
+    .insert({
+      ticket_id: ticket.id,
+      step_key: step.key,
+      policy_id: step.policy?.id ?? null,
+      step_id: step.stepId ?? null,
+      rule_id: step.ruleId ?? null,
+      action: step.action,
+      status: 'pending'
+    })
+    .select('id')
+    .single()
+
+  if (claimError) {
+    if (claimError.code === '23505') return null
+    console.error('❌ Error claiming escalation step:', claimError)
+    return 'failed'
+  }
+
+  let outcome: StepOutcome
+  try {
+    outcome = await executeAction(client, ticket, step, teams, now)
+  } catch (error) {
+    console.error('❌ Error executing escalation step:', error)
+    outcome = { status: 'failed', details: error instanceof Error ? error.message : String(error) }
+  }
+
+  const { error: updateError } = await client
+    .from('ticket_escalations')
+    .update({ status: outcome.status, details: outcome.details, executed_at: now.toISOString() })
+    .eq('id', claim.id)
+
+  if (updateError) {
+    console.error('❌ Error recording escalation step:', updateError)
+  }
+
+  const { error: logError } = await client.rpc('log_ticket_activity', {
+    p_ticket_id: ticket.id,
+    p_user_id: null,
+    p_action_type: 'escalated',
+    p_field_name: outcome.field ?? null,
+    p_old_value: outcome.oldValue ?? null,
+    p_new_value: outcome.newValue ?? null,
+    p_description: `Escalation (${step.source}): ${outcome.details}`,
+    p_metadata: {
+      escalation_action: step.action,
+      escalation_status: outcome.status,
+      policy_id: step.policy?.id ?? null,
+      rule_id: step.ruleId ?? null,
+      reason: step.source
+    }
+  })
+
+  if (logError) {
+    console.warn('⚠️ Escalation activity log failed (non-blocking):', logError)
+  }
+
+  return outcome.status
+}
+
+/**
+ * Runs every escalation step that has come due on open and in-progress
+ * tickets. Steps are claimed through the unique (ticket, step) key first, so
+ * a step never runs twice.
+ */
+export async function runEscalations(client: JobClient, { now }: JobContext): Promise<JobResult> {
+  const result = { executed: 0, skipped: 0, failed: 0 }
+
+  const { data: tickets, error } = await client
+    .from('tickets_new')
+    .select('id, ticket_number, title, priority, status, category_id, created_at, assigned_to, team_id, queue_id, first_response_at')
+    .in('status', ACTIVE_STATUSES)
+
+  if (error) throw error
+  if (!tickets || tickets.length === 0) return result
+
+  const ticketIds = tickets.map((ticket: EscalationTicket) => ticket.id)
+  const [policies, rulesResult, executedResult, auditResult] = await Promise.all([
+    loadEscalationPolicies(client),
+    client.from('assignment_rules').select('id, name, actions'),
+    client.from('ticket_escalations').select('ticket_id, step_key').in('ticket_id', ticketIds),
+    client.from('ticket_assignment_audit')
+      .select('ticket_id, method, rule_id, created_at')
+      .in('ticket_id', ticketIds)
+      .order('created_at', { ascending: false })
+  ])
+
+  if (executedResult.error) throw executedResult.error
+  if (rulesResult.error) {
+    console.warn('⚠️ Could not load assignment rules, skipping rule escalations:', rulesResult.error)
+  }
+
+  const rules: EscalationRule[] = (rulesResult.data || []).map((rule: EscalationRule) => ({ ...rule, actions: rule.actions || {} }))
+
+  const executed: Record<string, Set<string>> = {}
+  for (const row of executedResult.data || []) {
+    (executed[row.ticket_id] ||= new Set()).add(row.step_key)
+  }
+
+  // Only the latest assignment counts: once someone else has the ticket the
+  // rule that routed it no longer applies
+  const latestAssignment: Record<string, { method: string; rule_id: string | null; created_at: string }> = {}
+  for (const row of auditResult.data || []) {
+    latestAssignment[row.ticket_id] ||= row
+  }
+
+  // Teams are only read once a step needs them, then reused for the run
+  let teamsLoaded: Promise<Team[]> | null = null
+  const teams = () => (teamsLoaded ||= loadTeams(client))
+
+  for (const ticket of tickets as EscalationTicket[]) {
+    const executedKeys = executed[ticket.id] || new Set<string>()
+    const due: DueEscalation[] = []
+
+    const policy = matchPolicy(ticket, policies)
+    if (policy) {
+      due.push(...dueSteps(ticket, policy, executedKeys, now))
+    }
+
+    const assignment = latestAssignment[ticket.id]
+    const rule = assignment?.method === 'rule' && rules.find(candidate => candidate.id === assignment.rule_id)
+    if (rule) {
+      due.push(...ruleEscalations(ticket, { rule_id: rule.id, created_at: assignment.created_at }, rule, executedKeys, now))
+    }
+
+    for (const step of due) {
+      const status = await runStep(client, ticket, step, teams, now)
+      if (status === 'done') result.executed++
+      else if (status === 'skipped') result.skipped++
+      else if (status === 'failed') result.failed++
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,429 @@
+// Inbound email gateway: turns a raw message into a new ticket, or a comment on
+// the ticket it replies to. Replies sent to a tokenized reply address are
+// matched by their token; other replies by the ticket number in the subject
+// first, then by In-Reply-To/References against the messages logged in
+// ticket_emails. Used by the inbound-email edge function.
+
+import { CategorySuggestionService } from './categorySuggestion.ts'
+import { loadRecipientLanguages, renderStoredEmail } from './emailTemplates.ts'
+import { parseEmail, type MailAttachment, type ParsedEmail } from './mimeParser.ts'
+import {
+  REPLY_ABOVE_MARKER,
+  findReplyToken,
+  replyBounceVariables,
+  stripSignature,
+  type ReplyRejection
+} from './replyByEmail.ts'
+import type { JobClient } from './scheduledJobs.ts'
+import { addTicketComment, canAddComment, type CommentTicket } from './ticketComments.ts'
+
+export const TICKET_NUMBER_PATTERN = /\bACS-TK-\d{6}-\d{4,}\b/i
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+export interface InboundContext {
+  now: Date
+  uploadAttachment: (path: string, content: Uint8Array, contentType: string) => Promise<void>
+  // Bounces rejected replies; without it they are only logged
+  sendEmail?: (email: { to: string; subject: string; html: string; text: string }) => Promise<void>
+}
+
+export type InboundStatus = 'created' | 'threaded' | 'duplicate' | 'rejected'
+
+export interface InboundResult {
+  status: InboundStatus
+  ticketId?: string
+  ticketNumber?: string | null
+  commentId?: string
+  attachments: number
+  reason?: string
+}
+
+interface Sender {
+  id: string
+  full_name: string | null
+  email: string
+  role: string
+}
+
+type TicketRow = CommentTicket
+
+const TICKET_COLUMNS = 'id, ticket_number, title, status, user_id, assigned_to'
+
+/**
+ * Mail providers cannot sign in, so they present a shared secret. Compared in
+ * constant time, so it cannot be guessed byte by byte.
+ */
+export function isInboundSecretValid(presented: string | null, expected: string): boolean {
+  if (!presented || !expected) return false
+  let diff = presented.length ^ expected.length
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ (presented.charCodeAt(i) || 0)
+  }
+  return diff === 0
+}
+
+export function findTicketNumber(subject: string): string | null {
+  return TICKET_NUMBER_PATTERN.exec(subject)?.[0].toUpperCase() ?? null
+}
+
+/**
+ * The subject without reply/forward prefixes (in the languages our users
+ * write in) and without the bracketed ticket number
+ */
+export function cleanSubject(subject: string): string {
+  let cleaned = subject.replace(new RegExp(`\\[?${TICKET_NUMBER_PATTERN.source}\\]?`, 'gi'), ' ')
+  const prefix = /^\s*(re|fw|fwd|aw|wg|res|enc|sv|tr)\s*(\[\d+\])?\s*:\s*/i
+  while (prefix.test(cleaned)) cleaned = cleaned.replace(prefix, '')
+  return cleaned.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * The new part of a reply: everything above the quoted original message
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const markers = [
+    /^On .+ wrote:\s*$/i,
+    /^Em .+ escreveu:\s*$/i,
+    /^Am .+ schrieb .+:\s*$/i,
+    /^-{2,}\s*Original Message\s*-{2,}/i,
+    /^-{2,}\s*Mensagem original\s*-{2,}/i,
+    /^_{10,}\s*$/,
+    /^From:\s.+/i,
+    /^De:\s.+/i,
+    /^Von:\s.+/i
+  ]
+
+  const cut = lines.findIndex(line =>
+    line.includes(REPLY_ABOVE_MARKER) || markers.some(marker => marker.test(line.trim()))
+  )
+  const kept = (cut >= 0 ? lines.slice(0, cut) : lines).filter(line => !line.startsWith('>'))
+
+  return kept.join('\n').trim()
+}
+
+// What the sender wrote: no quoted history, no signature
+export function replyContent(text: string): string {
+  return stripSignature(stripQuotedReply(text))
+}
+
+// Mail loops: out-of-office answers and bounces must not open tickets
+export function isAutoReply(email: ParsedEmail): boolean {
+  const autoSubmitted = email.headers['auto-submitted']?.[0]?.toLowerCase()
+  const precedence = email.headers['precedence']?.[0]?.toLowerCase()
+  return (!!autoSubmitted && autoSubmitted !== 'no') ||
+    !!email.headers['x-autoreply'] ||
+    !!email.headers['x-autorespond'] ||
+    precedence === 'bulk' || precedence === 'junk' || precedence === 'auto_reply' ||
+    /^(mailer-daemon|postmaster)@/.test(email.from?.address || '')
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`)
+
+const safeFileName = (name: string) =>
+  Array.from(name, char => (char.charCodeAt(0) < 32 || '/\\?%*:|"<>'.includes(char) ? '_' : char))
+    .join('')
+    .slice(-120) || 'attachment'
+
+const template = (key: string, params: Record<string, string>) => JSON.stringify({ key, params })
+
+async function findRepliedTicket(client: JobClient, email: ParsedEmail): Promise<TicketRow | null> {
+  const ticketNumber = findTicketNumber(email.subject)
+  if (ticketNumber) {
+    const { data } = await client
+      .from('tickets_new')
+      .select(TICKET_COLUMNS)
+      .eq('ticket_number', ticketNumber)
+      .maybeSingle()
+    if (data) return data
+  }
+
+  const messageIds = [email.inReplyTo, ...email.references].filter((id): id is string => !!id)
+  if (messageIds.length === 0) return null
+
+  const { data: known } = await client
+    .from('ticket_emails')
+    .select('ticket_id')
+    .in('message_id', messageIds)
+    .not('ticket_id', 'is', null)
+    .limit(1)
+
+  if (!known?.length) return null
+
+  const { data } = await client
+    .from('tickets_new')
+    .select(TICKET_COLUMNS)
+    .eq('id', known[0].ticket_id)
+    .maybeSingle()
+
+  return data || null
+}
+
+async function storeAttachments(
+  client: JobClient,
+  context: InboundContext,
+  ticketId: string,
+  senderId: string,
+  attachments: MailAttachment[]
+): Promise<number> {
+  let stored = 0
+
+  for (const attachment of attachments) {
+    // Signature logos and the like, not something the requester attached
+    if (attachment.inline || attachment.size === 0) continue
+    if (attachment.size > MAX_ATTACHMENT_BYTES) {
+      console.warn(`⚠️ Skipping attachment ${attachment.filename}: ${attachment.size} bytes`)
+      continue
+    }
+
+    const path = `${ticketId}/${context.now.getTime()}-${stored}-${safeFileName(attachment.filename)}`
+    try {
+      await context.uploadAttachment(path, attachment.content, attachment.contentType)
+      const { error } = await client.from('ticket_attachments').insert({
+        ticket_id: ticketId,
+        file_name: attachment.filename,
+        file_path: path,
+        file_size: attachment.size,
+        mime_type: attachment.contentType,
+        uploaded_by: senderId
+      })
+      if (error) throw error
+      stored++
+    } catch (error) {
+      console.error(`❌ Failed to store attachment ${attachment.filename}:`, error)
+    }
+  }
+
+  return stored
+}
+
+async function logEmail(
+  client: JobClient,
+  email: ParsedEmail,
+  context: InboundContext,
+  result: InboundResult
+) {
+  const { error } = await client.from('ticket_emails').insert({
+    ticket_id: result.ticketId || null,
+    comment_id: result.commentId || null,
+    direction: 'inbound',
+    message_id: email.messageId,
+    in_reply_to: email.inReplyTo,
+    from_address: email.from?.address || null,
+    subject: email.subject,
+    status: result.status,
+    reason: result.reason || null,
+    attachment_count: result.attachments,
+    received_at: context.now.toISOString()
+  })
+  if (error) console.error('❌ Failed to log inbound email:', error)
+}
+
+async function addReply(
+  client: JobClient,
+  context: InboundContext,
+  email: ParsedEmail,
+  ticket: TicketRow,
+  sender: Sender
+): Promise<InboundResult> {
+  const content = replyContent(email.text) || email.text || '(empty message)'
+  const comment = await addTicketComment(client, { ticket, author: sender, content, now: context.now })
+
+  const attachments = await storeAttachments(client, context, ticket.id, sender.id, email.attachments)
+
+  // A requester answering on a closed ticket asks for it to be reopened
+  if (ticket.status === 'closed' && sender.id === ticket.user_id) {
+    await client.from('reopen_requests').insert({
+      ticket_id: ticket.id,
+      user_id: sender.id,
+      reason: `Replied by email: ${content.slice(0, 500)}`,
+      status: 'pending'
+    })
+  }
+
+  return { status: 'threaded', ticketId: ticket.id, ticketNumber: ticket.ticket_number, commentId: comment.id, attachments }
+}
+
+/**
+ * A reply to a tokenized address: the token names the ticket and the user the
+ * update was sent to, so only that user may answer through it, and only while
+ * they may comment on the ticket. Anything else is bounced.
+ */
+async function addTokenReply(
+  client: JobClient,
+  context: InboundContext,
+  email: ParsedEmail,
+  token: string
+): Promise<InboundResult> {
+  const reject = async (reason: ReplyRejection, ticket?: TicketRow | null): Promise<InboundResult> => {
+    if (context.sendEmail && email.from) {
+      try {
+        // In the sender's language when the address belongs to a user
+        const { data: sender } = await client
+          .from('users')
+          .select('id')
+          .ilike('email', escapeLike(email.from.address))
+          .maybeSingle()
+        const languages = await loadRecipientLanguages(client, sender?.id ? [sender.id] : [])
+        const { subject, html, text } = await renderStoredEmail(
+          client,
+          'reply_bounce',
+          replyBounceVariables({ reason, subject: email.subject, ticketNumber: ticket?.ticket_number }),
+          sender?.id ? languages.get(sender.id) : null
+        )
+        await context.sendEmail({ to: email.from.address, subject, html, text })
+      } catch (error) {
+        console.error('❌ Failed to bounce rejected reply:', error)
+      }
+    }
+    return { status: 'rejected', reason, ticketId: ticket?.id, attachments: 0 }
+  }
+
+  const { data: replyToken } = await client
+    .from('ticket_reply_tokens')
+    .select('ticket_id, user_id')
+    .eq('token', token)
+    .maybeSingle()
+  if (!replyToken) return reject('invalid_reply_token')
+
+  const [{ data: user }, { data: ticket }] = await Promise.all([
+    client.from('users').select('id, full_name, email, role').eq('id', replyToken.user_id).maybeSingle(),
+    client.from('tickets_new').select(TICKET_COLUMNS).eq('id', replyToken.ticket_id).maybeSingle()
+  ])
+  if (!ticket) return reject('invalid_reply_token')
+
+  // A forwarded notification must not let someone else comment as the user
+  if (!user || user.email?.toLowerCase() !== email.from?.address) return reject('sender_mismatch', ticket)
+  if (!canAddComment(ticket, user)) return reject('comment_not_allowed', ticket)
+
+  const content = replyContent(email.text)
+  if (!content && email.attachments.every(attachment => attachment.inline)) return reject('empty_reply', ticket)
+
+  const comment = await addTicketComment(client, {
+    ticket,
+    author: user,
+    content: content || '(attachments only)',
+    now: context.now
+  })
+  const attachments = await storeAttachments(client, context, ticket.id, user.id, email.attachments)
+
+  await client.from('ticket_reply_tokens').update({ last_used_at: context.now.toISOString() }).eq('token', token)
+
+  return { status: 'threaded', ticketId: ticket.id, ticketNumber: ticket.ticket_number, commentId: comment.id, attachments }
+}
+
+async function createTicket(
+  client: JobClient,
+  context: InboundContext,
+  email: ParsedEmail,
+  sender: Sender
+): Promise<InboundResult> {
+  const title = cleanSubject(email.subject).slice(0, 200) || '(no subject)'
+  const description = email.text || '(empty message)'
+
+  const [categories, subcategories] = await Promise.all([
+    client.from('categories').select('id, name'),
+    client.from('subcategories').select('id, name, category_id')
+  ])
+  const suggestion = CategorySuggestionService.suggestCategoriesFromTitleAndDescription(
+    title,
+    description,
+    categories.data || [],
+    subcategories.data || []
+  )
+  const picked = suggestion.topSubcategory || suggestion.topCategory
+
+  const now = context.now.toISOString()
+  const { data: ticket, error } = await client
+    .from('tickets_new')
+    .insert({
+      title,
+      description,
+      priority: 'medium',
+      status: 'open',
+      user_id: sender.id,
+      category_id: picked?.category.id || null,
+      subcategory_id: picked?.subcategory?.id || null,
+      created_at: now,
+      updated_at: now
+    })
+    .select(TICKET_COLUMNS)
+    .single()
+
+  if (error) throw error
+
+  const attachments = await storeAttachments(client, context, ticket.id, sender.id, email.attachments)
+
+  const { data: agents } = await client.from('users').select('id').in('role', ['agent', 'admin'])
+  if (agents?.length) {
+    const ticketNumber = ticket.ticket_number || '#' + ticket.id.slice(-8)
+    await client.from('notifications').insert(agents.map((agent: { id: string }) => ({
+      user_id: agent.id,
+      type: 'ticket_created',
+      title: template('notifications.types.ticket_created.title', { ticketNumber }),
+      message: template('notifications.types.ticket_created.message', {
+        ticketTitle: ticket.title,
+        userName: sender.full_name || sender.email
+      }),
+      priority: 'medium',
+      ticket_id: ticket.id,
+      read: false
+    })))
+  }
+
+  return { status: 'created', ticketId: ticket.id, ticketNumber: ticket.ticket_number, attachments }
+}
+
+/**
+ * Files one raw message. Only registered users can email in; a reply only
+ * threads onto a ticket its sender may see (the requester or staff), anything
+ * else becomes a new ticket of the sender.
+ */
+export async function processInboundEmail(
+  client: JobClient,
+  raw: string | Uint8Array,
+  context: InboundContext
+): Promise<InboundResult> {
+  const email = parseEmail(raw)
+
+  const finish = async (result: InboundResult) => {
+    await logEmail(client, email, context, result)
+    return result
+  }
+
+  if (email.messageId) {
+    const { data: seen } = await client
+      .from('ticket_emails')
+      .select('ticket_id')
+      .eq('message_id', email.messageId)
+      .eq('direction', 'inbound')
+      .limit(1)
+    // Providers retry deliveries: the message is already filed
+    if (seen?.length) {
+      return { status: 'duplicate', ticketId: seen[0].ticket_id || undefined, attachments: 0 }
+    }
+  }
+
+  if (!email.from) return finish({ status: 'rejected', reason: 'missing_sender', attachments: 0 })
+  if (isAutoReply(email)) return finish({ status: 'rejected', reason: 'auto_reply', attachments: 0 })
+
+  const replyToken = findReplyToken(email)
+  if (replyToken) return finish(await addTokenReply(client, context, email, replyToken))
+
+  const { data: sender } = await client
+    .from('users')
+    .select('id, full_name, email, role')
+    .ilike('email', escapeLike(email.from.address))
+    .maybeSingle()
+
+  if (!sender) return finish({ status: 'rejected', reason: 'unknown_sender', attachments: 0 })
+
+  const ticket = await findRepliedTicket(client, email)
+  const canReply = !!ticket && (ticket.user_id === sender.id || ['agent', 'admin'].includes(sender.role))
+
+  const result = canReply
+    ? await addReply(client, context, email, ticket as TicketRow, sender)
+    : await createTicket(client, context, email, sender)
+
+  return finish(result)
+}
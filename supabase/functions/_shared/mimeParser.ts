@@ -0,0 +1,342 @@
+// Minimal MIME parser for inbound email: headers with encoded words, nested
+// multiparts, base64 and quoted-printable bodies, charsets and attachments.
+// Works on raw RFC 5322 messages as delivered by the mail provider.
+
+export interface MailAddress {
+  name: string | null
+  address: string // lower case
+}
+
+export interface MailAttachment {
+  filename: string
+  contentType: string
+  content: Uint8Array
+  size: number
+  contentId: string | null
+  inline: boolean // Shown in the body (signature logos, pasted images)
+}
+
+export interface ParsedEmail {
+  headers: Record<string, string[]> // Lower-case names, raw values
+  messageId: string | null
+  inReplyTo: string | null
+  references: string[]
+  from: MailAddress | null
+  to: MailAddress[]
+  cc: MailAddress[]
+  subject: string
+  date: Date | null
+  text: string // Plain text body; derived from the HTML part when there is none
+  html: string | null
+  attachments: MailAttachment[]
+}
+
+interface MimePart {
+  headers: Record<string, string[]>
+  body: string // One character per byte
+}
+
+// Raw messages are handled as one character per byte so 8-bit bodies survive
+// until their charset is known
+function toByteString(raw: string | Uint8Array): string {
+  const bytes = typeof raw === 'string' ? new TextEncoder().encode(raw) : raw
+  let result = ''
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 8192))
+  }
+  return result
+}
+
+function byteStringToBytes(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length)
+  for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0xff
+  return bytes
+}
+
+function decodeCharset(bytes: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder((charset || 'utf-8').trim().toLowerCase()).decode(bytes)
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+function splitHeaderAndBody(raw: string): { head: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw)
+  if (!match) return { head: raw, body: '' }
+  return { head: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) }
+}
+
+function parseHeaderBlock(head: string): Record<string, string[]> {
+  const headers: Record<string, string[]> = {}
+  // Folded lines continue the previous header
+  const unfolded = head.replace(/\r?\n[ \t]+/g, ' ')
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    const value = line.slice(colon + 1).trim()
+    ;(headers[name] = headers[name] || []).push(value)
+  }
+
+  return headers
+}
+
+function parsePart(raw: string): MimePart {
+  const { head, body } = splitHeaderAndBody(raw)
+  return { headers: parseHeaderBlock(head), body }
+}
+
+const header = (headers: Record<string, string[]>, name: string): string | null =>
+  headers[name]?.[0] ?? null
+
+function decodeQuotedPrintable(value: string): string {
+  return value
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+}
+
+function decodeBase64(value: string): string {
+  // Padding is restored, as some senders drop it
+  const clean = value.replace(/[^A-Za-z0-9+/]/g, '')
+  return atob(clean + '='.repeat((4 - (clean.length % 4)) % 4))
+}
+
+/**
+ * RFC 2047 encoded words (`=?utf-8?B?...?=`) and raw 8-bit UTF-8 in header values
+ */
+export function decodeHeaderValue(value: string): string {
+  const raw = /[\u0080-\uffff]/.test(value) ? decodeCharset(byteStringToBytes(value), 'utf-8') : value
+
+  return raw
+    // Whitespace between adjacent encoded words is not part of the text
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? decodeBase64(text)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '))
+      return decodeCharset(byteStringToBytes(bytes), charset.split('*')[0])
+    })
+}
+
+/**
+ * `text/plain; charset="utf-8"` into the value and its parameters, including
+ * RFC 2231 extended (`filename*=utf-8''...`) and continued (`name*0=`) ones
+ */
+export function parseHeaderParams(value: string): { value: string; params: Record<string, string> } {
+  const segments: string[] = []
+  let current = ''
+  let quoted = false
+  for (const char of value) {
+    if (char === '"') quoted = !quoted
+    if (char === ';' && !quoted) {
+      segments.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  segments.push(current)
+
+  const params: Record<string, string> = {}
+  const continued: Record<string, { index: number; text: string; extended: boolean }[]> = {}
+
+  for (const segment of segments.slice(1)) {
+    const eq = segment.indexOf('=')
+    if (eq <= 0) continue
+    const key = segment.slice(0, eq).trim().toLowerCase()
+    let text = segment.slice(eq + 1).trim()
+    if (text.startsWith('"') && text.endsWith('"')) text = text.slice(1, -1).replace(/\\(.)/g, '$1')
+
+    const match = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(key)
+    if (!match) continue
+    const [, name, index, extended] = match
+    ;(continued[name] = continued[name] || []).push({ index: index ? Number(index) : 0, text, extended: !!extended })
+  }
+
+  for (const [name, pieces] of Object.entries(continued)) {
+    pieces.sort((a, b) => a.index - b.index)
+    const first = pieces[0]
+    if (!pieces.some(piece => piece.extended)) {
+      params[name] = decodeHeaderValue(pieces.map(piece => piece.text).join(''))
+      continue
+    }
+
+    // charset'language'percent-encoded, with the charset on the first piece only
+    const charsetMatch = first.extended ? /^([^']*)'[^']*'/.exec(first.text) : null
+    const charset = charsetMatch?.[1] || 'utf-8'
+    const joined = pieces
+      .map((piece, i) => {
+        const text = i === 0 && charsetMatch ? piece.text.slice(charsetMatch[0].length) : piece.text
+        return piece.extended ? text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) : text
+      })
+      .join('')
+    params[name] = decodeCharset(byteStringToBytes(joined), charset)
+  }
+
+  return { value: segments[0].trim().toLowerCase(), params }
+}
+
+/**
+ * `"Last, First" <a@example.com>, b@example.com` into addresses. Names are
+ * decoded after splitting, so an encoded comma does not split an entry.
+ */
+export function parseAddressList(value: string | null): MailAddress[] {
+  if (!value) return []
+
+  const entries: string[] = []
+  let current = ''
+  let quoted = false
+  let angle = 0
+  for (const char of value) {
+    if (char === '"') quoted = !quoted
+    else if (char === '<' && !quoted) angle++
+    else if (char === '>' && !quoted) angle = Math.max(0, angle - 1)
+    if (char === ',' && !quoted && angle === 0) {
+      entries.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  entries.push(current)
+
+  return entries
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const angled = /^(.*)<([^>]+)>\s*$/.exec(entry)
+      if (angled) {
+        const name = decodeHeaderValue(angled[1].trim().replace(/^"(.*)"$/, '$1')).trim()
+        return { name: name || null, address: angled[2].trim().toLowerCase() }
+      }
+      return { name: null, address: entry.replace(/\(.*\)/, '').trim().toLowerCase() }
+    })
+    .filter(address => address.address.includes('@'))
+}
+
+// Message-IDs without the angle brackets
+function parseMessageIds(value: string | null): string[] {
+  if (!value) return []
+  const ids = value.match(/<[^>]+>/g)
+  return ids ? ids.map(id => id.slice(1, -1).trim()) : value.split(/\s+/).filter(Boolean)
+}
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/gi, '&')
+
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '- ')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (header(part.headers, 'content-transfer-encoding') || '').toLowerCase()
+  if (encoding === 'base64') return decodeBase64(part.body)
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body)
+  return part.body
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = []
+  const delimiter = `--${boundary}`
+  const lines = body.split(/\r?\n/)
+  let current: string[] | null = null
+
+  for (const line of lines) {
+    if (line.startsWith(delimiter)) {
+      if (current) parts.push(current.join('\r\n'))
+      if (line.slice(delimiter.length).startsWith('--')) return parts // Closing delimiter
+      current = []
+    } else if (current) {
+      current.push(line)
+    }
+  }
+
+  if (current) parts.push(current.join('\r\n'))
+  return parts
+}
+
+function walk(part: MimePart, email: Pick<ParsedEmail, 'attachments'> & { textParts: string[]; htmlParts: string[] }) {
+  const contentType = parseHeaderParams(header(part.headers, 'content-type') || 'text/plain')
+  const disposition = parseHeaderParams(header(part.headers, 'content-disposition') || '')
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    for (const child of splitMultipart(part.body, contentType.params.boundary)) {
+      walk(parsePart(child), email)
+    }
+    return
+  }
+
+  const filename = disposition.params.filename || contentType.params.name || null
+  const isAttachment = disposition.value === 'attachment' ||
+    !!filename ||
+    !(contentType.value.startsWith('text/plain') || contentType.value.startsWith('text/html'))
+
+  if (!isAttachment) {
+    const text = decodeCharset(byteStringToBytes(decodeBody(part)), contentType.params.charset)
+    if (contentType.value === 'text/html') email.htmlParts.push(text)
+    else email.textParts.push(text)
+    return
+  }
+
+  const content = byteStringToBytes(decodeBody(part))
+  const contentId = header(part.headers, 'content-id')
+
+  email.attachments.push({
+    filename: filename || (contentType.value === 'message/rfc822' ? 'message.eml' : 'attachment'),
+    contentType: contentType.value,
+    content,
+    size: content.length,
+    contentId: contentId ? contentId.replace(/^<|>$/g, '') : null,
+    inline: disposition.value === 'inline' || (!!contentId && disposition.value !== 'attachment')
+  })
+}
+
+export function parseEmail(raw: string | Uint8Array): ParsedEmail {
+  const root = parsePart(toByteString(raw))
+  const collected = { attachments: [] as MailAttachment[], textParts: [] as string[], htmlParts: [] as string[] }
+  walk(root, collected)
+
+  const html = collected.htmlParts.length ? collected.htmlParts.join('\n') : null
+  const text = collected.textParts.length
+    ? collected.textParts.join('\n').replace(/\r\n/g, '\n').trim()
+    : html ? htmlToText(html) : ''
+  const date = header(root.headers, 'date')
+  const parsedDate = date ? new Date(date) : null
+
+  return {
+    headers: Object.fromEntries(
+      Object.entries(root.headers).map(([name, values]) => [name, values.map(decodeHeaderValue)])
+    ),
+    messageId: parseMessageIds(header(root.headers, 'message-id'))[0] || null,
+    inReplyTo: parseMessageIds(header(root.headers, 'in-reply-to'))[0] || null,
+    references: parseMessageIds(header(root.headers, 'references')),
+    from: parseAddressList(header(root.headers, 'from'))[0] || null,
+    to: parseAddressList(header(root.headers, 'to')),
+    cc: parseAddressList(header(root.headers, 'cc')),
+    subject: decodeHeaderValue(header(root.headers, 'subject') || '').trim(),
+    date: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : null,
+    text,
+    html,
+    attachments: collected.attachments
+  }
+}
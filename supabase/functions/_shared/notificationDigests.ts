@@ -0,0 +1,137 @@
+// Delivers notifications held back by the hold_deferred_notification trigger.
+// Batched and quiet-hours notifications simply reach the in-app feed once their
+// window closes; digest notifications are also compiled into one summary
+// email per user, in their language and timezone.
+
+import { formatTemplateDate, renderStoredEmail, resolveEmailLocale } from './emailTemplates.ts'
+import type { JobClient, JobContext, JobResult } from './scheduledJobs.ts'
+import { isValidTimezone } from './timezone.ts'
+
+export type HeldDelivery = 'batched' | 'digest' | 'quiet_hours'
+export type DigestFrequency = 'hourly' | 'daily'
+
+// Row returned by the release_due_notifications RPC
+export interface ReleasedNotification {
+  held_id: string
+  user_id: string
+  delivery: HeldDelivery
+  notification: {
+    id: string
+    type: string
+    title: string
+    message: string
+    ticket_id?: string | null
+    priority?: string | null
+    created_at: string
+  }
+  user_email: string | null
+  user_name: string | null
+  email_notifications: boolean
+  timezone: string
+  language: string
+  digest_frequency: DigestFrequency
+}
+
+export interface NotificationDigestItem {
+  title: string
+  message: string
+  type: string
+  ticketId?: string | null
+  createdAt: string
+}
+
+export interface NotificationDigest {
+  userId: string
+  email: string
+  name: string
+  timezone: string
+  language: string
+  frequency: DigestFrequency
+  items: NotificationDigestItem[]
+}
+
+/**
+ * Group released digest notifications into one summary per user.
+ * Users without an address or with email notifications off still get the
+ * notifications in-app, just no email.
+ */
+export function compileDigests(released: ReleasedNotification[]): NotificationDigest[] {
+  const digests = new Map<string, NotificationDigest>()
+
+  for (const row of released) {
+    if (row.delivery !== 'digest' || !row.email_notifications || !row.user_email) continue
+
+    let digest = digests.get(row.user_id)
+    if (!digest) {
+      digest = {
+        userId: row.user_id,
+        email: row.user_email,
+        name: row.user_name || row.user_email,
+        timezone: isValidTimezone(row.timezone) ? row.timezone : 'UTC',
+        language: row.language,
+        frequency: row.digest_frequency,
+        items: []
+      }
+      digests.set(row.user_id, digest)
+    }
+
+    digest.items.push({
+      title: row.notification.title,
+      message: row.notification.message,
+      type: row.notification.type,
+      ticketId: row.notification.ticket_id,
+      createdAt: row.notification.created_at
+    })
+  }
+
+  digests.forEach(digest => {
+    digest.items.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+  })
+
+  return Array.from(digests.values())
+}
+
+/**
+ * Releases every held notification that is due and emails the digests.
+ * Released notifications are in the feed either way; a digest email that
+ * fails is counted, not retried.
+ */
+export async function deliverNotificationDigests(client: JobClient, { sendEmail, digests: config }: JobContext): Promise<JobResult> {
+  // Checked before releasing, so nothing is released without its email
+  if (!sendEmail || !config) {
+    throw new Error('Notification digests need APP_URL to be configured')
+  }
+
+  const { data, error } = await client.rpc('release_due_notifications')
+  if (error) throw error
+
+  const released = (data || []) as ReleasedNotification[]
+  const digests = compileDigests(released)
+  const result = { released: released.length, digests: digests.length, sent: 0, failed: 0 }
+
+  for (const digest of digests) {
+    try {
+      const locale = resolveEmailLocale(digest.language)
+      const { subject, html, text } = await renderStoredEmail(client, 'notification_digest', {
+        userName: digest.name,
+        notificationCount: String(digest.items.length),
+        hourly: digest.frequency === 'hourly' ? 'yes' : null,
+        timezone: digest.timezone,
+        notificationsLink: `${config.appUrl}/notifications`,
+        notifications: digest.items.map(item => ({
+          notificationTime: formatTemplateDate(new Date(item.createdAt), locale, digest.timezone),
+          notificationTitle: item.title,
+          notificationMessage: item.message,
+          notificationLink: item.ticketId ? `${config.appUrl}/ticket/${item.ticketId}` : null
+        }))
+      }, digest.language)
+      await sendEmail({ to: digest.email, subject, html, text })
+      result.sent++
+    } catch (sendError) {
+      console.error(`❌ Failed to send the notification digest to ${digest.email}:`, sendError)
+      result.failed++
+    }
+  }
+
+  return result
+}
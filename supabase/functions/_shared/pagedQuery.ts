@@ -0,0 +1,35 @@
+// Bulk reads for the scheduled jobs. PostgREST answers with at most max_rows
+// (1000) rows and long id lists overflow the request URL, so these read page
+// by page and split id lists into chunks.
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+export const PAGE_SIZE = 1000
+const ID_CHUNK_SIZE = 200
+
+/**
+ * Every row of a query. `build` makes a fresh query for each page and must
+ * order it by a unique key, or rows can repeat or go missing between pages.
+ */
+export async function selectAllRows<T = any>(build: () => any): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build().range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+/**
+ * Every row of a query filtered on a list of ids, a chunk of ids at a time
+ */
+export async function selectAllRowsIn<T = any>(ids: string[], build: (chunk: string[]) => any): Promise<T[]> {
+  const unique = Array.from(new Set(ids))
+  const rows: T[] = []
+  for (let start = 0; start < unique.length; start += ID_CHUNK_SIZE) {
+    const chunk = unique.slice(start, start + ID_CHUNK_SIZE)
+    rows.push(...await selectAllRows<T>(() => build(chunk)))
+  }
+  return rows
+}
@@ -0,0 +1,77 @@
+// Reply-by-email: ticket update emails carry a tokenized Reply-To address
+// (reply+<token>@<inbound domain>) that stands for one ticket and one user. The
+// inbound gateway turns a reply sent to it into a comment from that user, or
+// bounces it with the reason it could not be added.
+
+import type { TemplateVariables } from './emailTemplates.ts'
+import type { ParsedEmail } from './mimeParser.ts'
+
+export const REPLY_TOKEN_PATTERN = /^reply\+([a-f0-9]{32})@/i
+
+// Written on top of every email that accepts replies; everything below it is
+// the quoted notification, whatever the mail client does with quoting
+export const REPLY_ABOVE_MARKER = '##- Please type your reply above this line -##'
+
+export type ReplyRejection = 'invalid_reply_token' | 'sender_mismatch' | 'comment_not_allowed' | 'empty_reply'
+
+export function replyAddress(token: string, domain: string): string {
+  return `reply+${token}@${domain}`
+}
+
+/**
+ * The reply token from the recipients (or the envelope recipient some
+ * providers add as Delivered-To/X-Original-To)
+ */
+export function findReplyToken(email: ParsedEmail): string | null {
+  const envelope = [...(email.headers['delivered-to'] || []), ...(email.headers['x-original-to'] || [])]
+  const addresses = [...email.to, ...email.cc].map(address => address.address).concat(envelope)
+
+  for (const address of addresses) {
+    const match = REPLY_TOKEN_PATTERN.exec(address.trim().replace(/^<|>$/g, ''))
+    if (match) return match[1].toLowerCase()
+  }
+  return null
+}
+
+/**
+ * Drops the signature: everything from the standard "-- " delimiter or a
+ * mobile client's "Sent from" line on
+ */
+export function stripSignature(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const markers = [
+    /^--\s*$/,
+    /^Sent from my .+$/i,
+    /^Enviado do meu .+$/i,
+    /^Von meinem .+ gesendet$/i,
+    /^Get Outlook for .+$/i,
+    /^Obter o Outlook para .+$/i
+  ]
+
+  const cut = lines.findIndex(line => markers.some(marker => marker.test(line.trim())))
+  return (cut >= 0 ? lines.slice(0, cut) : lines).join('\n').trim()
+}
+
+// The reply_bounce template explains each reason in its own section
+const REJECTION_FLAGS: Record<ReplyRejection, string> = {
+  invalid_reply_token: 'invalidReplyToken',
+  sender_mismatch: 'senderMismatch',
+  comment_not_allowed: 'commentNotAllowed',
+  empty_reply: 'emptyReply'
+}
+
+/**
+ * Variables of the reply_bounce email telling the sender why their reply
+ * was not added
+ */
+export function replyBounceVariables(data: {
+  reason: ReplyRejection
+  subject: string
+  ticketNumber?: string | null
+}): TemplateVariables {
+  return {
+    originalSubject: data.subject || '-',
+    ticketNumber: data.ticketNumber || null,
+    [REJECTION_FLAGS[data.reason]]: 'yes'
+  }
+}
@@ -0,0 +1,234 @@
+// Serialises report datasets to CSV, XLSX or PDF bytes. The XLSX and PDF
+// libraries are passed in by the caller: the app loads them on demand so
+// they stay out of the main bundle, the edge functions import them from a CDN.
+
+import type { ReportCell, ReportChart, ReportData, ReportFormat } from './reports.ts'
+import { getLocalParts } from './timezone.ts'
+
+/* eslint-disable @typescript-eslint/no-explicit-any -- the libraries are loaded at runtime, without their types */
+export interface ReportLibraries {
+  excel: () => Promise<any> // the ExcelJS namespace
+  pdf: () => Promise<{ jsPDF: any; autoTable: (doc: any, options: any) => void }>
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export interface ExportedReportData {
+  data: Uint8Array
+  filename: string
+  mimeType: string
+}
+
+export const REPORT_MIME_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  excel: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+}
+
+const EXTENSIONS: Record<ReportFormat, string> = {
+  csv: 'csv',
+  excel: 'xlsx',
+  pdf: 'pdf'
+}
+
+const CHART_COLOR: [number, number, number] = [79, 70, 229]
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const formatDay = (date: Date, timeZone: string) => {
+  const local = getLocalParts(date, timeZone)
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}`
+}
+
+const formatDate = (date: Date, timeZone: string) => {
+  const local = getLocalParts(date, timeZone)
+  return `${formatDay(date, timeZone)} ${pad(local.hour)}:${pad(local.minute)}`
+}
+
+const formatPeriod = (report: ReportData, timeZone: string) =>
+  `${formatDay(report.from, timeZone)} to ${formatDay(report.to, timeZone)}`
+
+const cellToText = (cell: ReportCell, timeZone: string): string => {
+  if (cell === null || cell === undefined) return ''
+  if (cell instanceof Date) return formatDate(cell, timeZone)
+  return String(cell)
+}
+
+/**
+ * RFC 4180 quoting. Text starting with a formula character is prefixed with a
+ * quote so spreadsheet apps do not evaluate it.
+ */
+export function escapeCSVCell(cell: ReportCell, timeZone = 'UTC'): string {
+  let text = cellToText(cell, timeZone)
+  if (typeof cell === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCSV(report: ReportData, timeZone = 'UTC'): string {
+  const lines = [
+    report.columns.map(column => escapeCSVCell(column.label, timeZone)),
+    ...report.rows.map(row => row.map(cell => escapeCSVCell(cell, timeZone)))
+  ]
+  return lines.map(line => line.join(',')).join('\r\n')
+}
+
+async function toXLSX(report: ReportData, ExcelJS: any, timeZone: string): Promise<Uint8Array> { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const workbook = new ExcelJS.Workbook()
+  workbook.created = report.generatedAt
+
+  const summary = workbook.addWorksheet('Summary')
+  summary.columns = [{ width: 32 }, { width: 24 }]
+  summary.addRow([report.title]).font = { bold: true, size: 14 }
+  summary.addRow(['Period', formatPeriod(report, timeZone)])
+  summary.addRow(['Generated', formatDate(report.generatedAt, timeZone)])
+  summary.addRow([])
+  report.summary.forEach(item => summary.addRow([item.label, item.value]))
+  report.charts.forEach(chart => {
+    summary.addRow([])
+    summary.addRow([chart.title]).font = { bold: true }
+    chart.labels.forEach((label, index) => summary.addRow([label, chart.values[index]]))
+  })
+
+  const sheet = workbook.addWorksheet('Data', { views: [{ state: 'frozen', ySplit: 1 }] })
+  sheet.columns = report.columns.map((column, index) => ({
+    header: column.label,
+    width: Math.min(60, Math.max(
+      column.label.length,
+      ...report.rows.slice(0, 200).map(row => cellToText(row[index], timeZone).length)
+    ) + 2),
+    style: column.type === 'date'
+      ? { numFmt: 'yyyy-mm-dd hh:mm' }
+      : column.type === 'percent' ? { numFmt: '0.0"%"' } : {}
+  }))
+  sheet.getRow(1).font = { bold: true }
+  report.rows.forEach(row => sheet.addRow(row.map(cell => cell === null ? undefined : cell)))
+  if (report.columns.length > 0) {
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: report.columns.length } }
+  }
+
+  return new Uint8Array(await workbook.xlsx.writeBuffer())
+}
+
+// Horizontal bar chart drawn with PDF primitives; returns the y below it
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function drawBarChart(doc: any, chart: ReportChart, x: number, y: number, width: number): number {
+  const barHeight = 14
+  const labelWidth = 110
+  const max = Math.max(1, ...chart.values)
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(11)
+  doc.text(chart.title, x, y)
+  y += 10
+
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(9)
+  chart.labels.forEach((label, index) => {
+    const value = chart.values[index] || 0
+    const barWidth = ((width - labelWidth - 50) * value) / max
+    doc.setTextColor(60)
+    doc.text(doc.splitTextToSize(label, labelWidth - 6)[0], x, y + barHeight - 4)
+    doc.setFillColor(...CHART_COLOR)
+    if (barWidth > 0) doc.rect(x + labelWidth, y + 2, barWidth, barHeight - 4, 'F')
+    doc.text(`${value}${chart.unit || ''}`, x + labelWidth + barWidth + 4, y + barHeight - 4)
+    y += barHeight
+  })
+  doc.setTextColor(0)
+
+  return y + 16
+}
+
+async function toPDF(report: ReportData, { jsPDF, autoTable }: Awaited<ReturnType<ReportLibraries['pdf']>>, timeZone: string): Promise<Uint8Array> {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const margin = 40
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(18)
+  doc.text(report.title, margin, margin + 10)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  doc.setTextColor(100)
+  doc.text(`${formatPeriod(report, timeZone)}, generated ${formatDate(report.generatedAt, timeZone)}`, margin, margin + 28)
+  doc.setTextColor(0)
+
+  autoTable(doc, {
+    startY: margin + 40,
+    margin: { left: margin, right: margin },
+    tableWidth: 320,
+    theme: 'plain',
+    styles: { fontSize: 10, cellPadding: 3 },
+    columnStyles: { 0: { textColor: 90 }, 1: { fontStyle: 'bold' } },
+    body: report.summary.map(item => [item.label, String(item.value)])
+  })
+
+  // Charts two per row, then the data table
+  let y = doc.lastAutoTable.finalY + 24
+  const chartWidth = (pageWidth - margin * 3) / 2
+  for (let i = 0; i < report.charts.length; i += 2) {
+    const pair = report.charts.slice(i, i + 2)
+    const height = Math.max(...pair.map(chart => chart.labels.length * 14 + 26))
+    if (y + height > pageHeight - margin) {
+      doc.addPage()
+      y = margin
+    }
+    const top = y
+    y = Math.max(...pair.map((chart, column) =>
+      drawBarChart(doc, chart, margin + column * (chartWidth + margin), top, chartWidth)
+    ))
+  }
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: margin, right: margin },
+    head: [report.columns.map(column => column.label)],
+    body: report.rows.map(row => row.map(cell => cellToText(cell, timeZone))),
+    styles: { fontSize: 8, cellPadding: 3, overflow: 'linebreak' },
+    headStyles: { fillColor: CHART_COLOR },
+    didDrawPage: () => {
+      doc.setFontSize(8)
+      doc.setTextColor(150)
+      doc.text(`${report.title} - page ${doc.getNumberOfPages()}`, pageWidth - margin, pageHeight - 16, { align: 'right' })
+      doc.setTextColor(0)
+    }
+  })
+
+  return new Uint8Array(doc.output('arraybuffer'))
+}
+
+export function getReportFilename(report: ReportData, reportFormat: ReportFormat, timeZone = 'UTC'): string {
+  return `report_${report.type}_${formatDay(report.from, timeZone)}_${formatDay(report.to, timeZone)}.${EXTENSIONS[reportFormat]}`
+}
+
+/**
+ * A report as a file. Dates are written in `timeZone`: the viewer's in the
+ * app, the definition's for scheduled reports.
+ */
+export async function exportReportData(
+  report: ReportData,
+  reportFormat: ReportFormat,
+  libraries: ReportLibraries,
+  timeZone = 'UTC'
+): Promise<ExportedReportData> {
+  let data: Uint8Array
+  if (reportFormat === 'excel') {
+    data = await toXLSX(report, await libraries.excel(), timeZone)
+  } else if (reportFormat === 'pdf') {
+    data = await toPDF(report, await libraries.pdf(), timeZone)
+  } else {
+    // BOM so Excel opens UTF-8 CSV correctly
+    data = new TextEncoder().encode(`\uFEFF${toCSV(report, timeZone)}`)
+  }
+
+  return { data, filename: getReportFilename(report, reportFormat, timeZone), mimeType: REPORT_MIME_TYPES[reportFormat] }
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
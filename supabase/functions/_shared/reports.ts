@@ -0,0 +1,553 @@
+// Report datasets built from live ticket, SLA and feedback data. Every report
+// covers the tickets created in its period. Used by the Reports page and by
+// the scheduled_reports job, which runs them with the service role; the
+// exporters in reportExport.ts turn a dataset into CSV, XLSX or PDF.
+
+import { pickCalendar } from './businessHours.ts'
+import type { JobClient } from './scheduledJobs.ts'
+import { loadCalendars, loadClockEvents, loadFirstResponses } from './slaData.ts'
+import { evaluateSLA } from './slaStatus.ts'
+import { getLocalParts, isValidTimezone, zonedTimeToUtc } from './timezone.ts'
+
+export type ReportType = 'tickets' | 'performance' | 'sla' | 'satisfaction'
+export type ReportFormat = 'csv' | 'excel' | 'pdf'
+export type ReportDateWindow = 'last_7_days' | 'last_30_days' | 'previous_week' | 'previous_month' | 'month_to_date'
+
+export interface ReportFilters {
+  status?: string[]
+  priority?: string[]
+  category?: string[] // category IDs
+  agent?: string[] // user IDs of assignees
+}
+
+export type ReportCell = string | number | Date | null
+
+export interface ReportColumn {
+  label: string
+  type?: 'text' | 'number' | 'percent' | 'date'
+}
+
+export interface ReportChart {
+  title: string
+  labels: string[]
+  values: number[]
+  unit?: string
+}
+
+export interface ReportData {
+  type: ReportType
+  title: string
+  from: Date
+  to: Date
+  generatedAt: Date
+  summary: Array<{ label: string; value: string | number }>
+  charts: ReportChart[]
+  columns: ReportColumn[]
+  rows: ReportCell[][]
+}
+
+export interface ReportLookups {
+  users: Map<string, string> // id -> name
+  categories: Map<string, string> // id -> name
+}
+
+// The ticket, feedback and SLA fields the reports read
+export interface ReportTicket {
+  id: string
+  ticket_number?: string | null
+  title: string
+  status: string
+  priority: string
+  category_id?: string | null
+  assigned_to?: string | null
+  user_id: string
+  team_id?: string | null
+  country?: string | null
+  created_at: string
+  resolved_at?: string | null
+  closed_at?: string | null
+}
+
+export interface ReportFeedback {
+  ticket_id: string
+  rating: number
+  satisfaction: string
+  comment?: string | null
+  agent_name?: string | null
+  created_at: string
+}
+
+export interface ReportSLAStatus {
+  responseTimeElapsed: number
+  totalTimeElapsed: number
+  firstResponseAt: Date | null
+  isActive: boolean
+  slaRule: { response_time: unknown; resolution_time: unknown }
+}
+
+export type SLAOutcome = 'met' | 'breached' | 'pending'
+
+type Period = { from: Date; to: Date; generatedAt: Date }
+
+export const REPORT_TITLES: Record<ReportType, string> = {
+  tickets: 'Ticket Report',
+  performance: 'Agent Performance',
+  sla: 'SLA Compliance',
+  satisfaction: 'Customer Satisfaction'
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const ID_BATCH_SIZE = 200 // ticket IDs per query, to keep the URL short
+
+const round = (value: number, digits = 1) => {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+
+const percentage = (part: number, total: number) => (total ? round((part / total) * 100) : null)
+
+const countBy = <T>(items: T[], key: (item: T) => string, order: string[] = []) => {
+  const counts = new Map<string, number>(order.map(label => [label, 0]))
+  items.forEach(item => counts.set(key(item), (counts.get(key(item)) || 0) + 1))
+  return counts
+}
+
+const chartFromCounts = (title: string, counts: Map<string, number>, unit?: string): ReportChart => ({
+  title,
+  labels: Array.from(counts.keys()),
+  values: Array.from(counts.values()),
+  unit
+})
+
+const STATUS_ORDER = ['open', 'pending', 'in_progress', 'resolved', 'closed']
+const PRIORITY_ORDER = ['urgent', 'high', 'medium', 'low']
+
+/**
+ * The period a scheduled run covers, in whole local days of the definition's
+ * timezone. Rolling windows end yesterday so a report sent in the morning has
+ * no partial day in it.
+ */
+export function resolveReportWindow(window: ReportDateWindow, timezone: string, now: Date): { from: Date; to: Date } {
+  const zone = isValidTimezone(timezone) ? timezone : 'UTC'
+  const today = getLocalParts(now, zone)
+
+  // Calendar arithmetic on the local date, then back to an instant
+  const dayStart = (offsetDays: number, year = today.year, month = today.month, day = today.day) => {
+    const date = new Date(Date.UTC(year, month - 1, day) + offsetDays * DAY_MS)
+    return new Date(zonedTimeToUtc({
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: 0,
+      minute: 0
+    }, zone))
+  }
+  const endBefore = (start: Date) => new Date(start.getTime() - 1)
+
+  switch (window) {
+    case 'last_30_days':
+      return { from: dayStart(-30), to: endBefore(dayStart(0)) }
+    case 'previous_week': {
+      const monday = -(((today.weekday ?? 0) + 6) % 7)
+      return { from: dayStart(monday - 7), to: endBefore(dayStart(monday)) }
+    }
+    case 'previous_month': {
+      const firstOfMonth = dayStart(0, today.year, today.month, 1)
+      const previous = today.month === 1
+        ? dayStart(0, today.year - 1, 12, 1)
+        : dayStart(0, today.year, today.month - 1, 1)
+      return { from: previous, to: endBefore(firstOfMonth) }
+    }
+    case 'month_to_date':
+      return { from: dayStart(0, today.year, today.month, 1), to: now }
+    default:
+      return { from: dayStart(-7), to: endBefore(dayStart(0)) }
+  }
+}
+
+/** Wall-clock hours from creation to resolution (or closure), if finished */
+export function getResolutionHours(ticket: Pick<ReportTicket, 'created_at' | 'resolved_at' | 'closed_at'>): number | null {
+  const finishedAt = ticket.resolved_at || ticket.closed_at
+  if (!finishedAt) return null
+  return round(Math.max(0, new Date(finishedAt).getTime() - new Date(ticket.created_at).getTime()) / HOUR_MS)
+}
+
+/**
+ * Whether a target was met. Unlike the live SLA badges, a finished ticket
+ * that took longer than the target counts as breached.
+ */
+export function getSLAOutcome(elapsedHours: number, targetHours: number, finished: boolean): SLAOutcome {
+  if (elapsedHours > targetHours) return 'breached'
+  return finished ? 'met' : 'pending'
+}
+
+export function buildTicketReport(tickets: ReportTicket[], lookups: ReportLookups, period: Period): ReportData {
+  const resolutionHours = tickets
+    .map(ticket => getResolutionHours(ticket))
+    .filter((hours): hours is number => hours !== null)
+  const finished = tickets.filter(ticket => ticket.status === 'resolved' || ticket.status === 'closed').length
+  const avgResolution = average(resolutionHours)
+
+  return {
+    type: 'tickets',
+    title: REPORT_TITLES.tickets,
+    ...period,
+    summary: [
+      { label: 'Tickets', value: tickets.length },
+      { label: 'Resolved or closed', value: finished },
+      { label: 'Still open', value: tickets.length - finished },
+      { label: 'Average resolution (h)', value: avgResolution === null ? '-' : round(avgResolution) }
+    ],
+    charts: [
+      chartFromCounts('Tickets by status', countBy(tickets, ticket => ticket.status, STATUS_ORDER)),
+      chartFromCounts('Tickets by priority', countBy(tickets, ticket => ticket.priority, PRIORITY_ORDER))
+    ],
+    columns: [
+      { label: 'Number' },
+      { label: 'Title' },
+      { label: 'Status' },
+      { label: 'Priority' },
+      { label: 'Category' },
+      { label: 'Agent' },
+      { label: 'Requester' },
+      { label: 'Created', type: 'date' },
+      { label: 'Resolved', type: 'date' },
+      { label: 'Resolution (h)', type: 'number' }
+    ],
+    rows: tickets.map(ticket => [
+      ticket.ticket_number || ticket.id,
+      ticket.title,
+      ticket.status,
+      ticket.priority,
+      (ticket.category_id && lookups.categories.get(ticket.category_id)) || '',
+      (ticket.assigned_to && lookups.users.get(ticket.assigned_to)) || '',
+      lookups.users.get(ticket.user_id) || '',
+      new Date(ticket.created_at),
+      ticket.resolved_at ? new Date(ticket.resolved_at) : null,
+      getResolutionHours(ticket)
+    ])
+  }
+}
+
+export function buildPerformanceReport(
+  tickets: ReportTicket[],
+  feedback: ReportFeedback[],
+  lookups: ReportLookups,
+  period: Period
+): ReportData {
+  const ticketAgent = new Map(tickets.map(ticket => [ticket.id, ticket.assigned_to]))
+  const agents = new Map<string, { assigned: number; finished: number; hours: number[]; ratings: number[] }>()
+  const statsFor = (agentId: string) => {
+    if (!agents.has(agentId)) agents.set(agentId, { assigned: 0, finished: 0, hours: [], ratings: [] })
+    return agents.get(agentId)!
+  }
+
+  tickets.forEach(ticket => {
+    if (!ticket.assigned_to) return
+    const stats = statsFor(ticket.assigned_to)
+    stats.assigned++
+    const hours = getResolutionHours(ticket)
+    if (hours !== null) {
+      stats.finished++
+      stats.hours.push(hours)
+    }
+  })
+
+  feedback.forEach(item => {
+    const agentId = ticketAgent.get(item.ticket_id)
+    if (agentId) statsFor(agentId).ratings.push(item.rating)
+  })
+
+  const rows = Array.from(agents.entries())
+    .map(([agentId, stats]) => {
+      const avgHours = average(stats.hours)
+      const avgRating = average(stats.ratings)
+      return [
+        lookups.users.get(agentId) || agentId,
+        stats.assigned,
+        stats.finished,
+        percentage(stats.finished, stats.assigned),
+        avgHours === null ? null : round(avgHours),
+        avgRating === null ? null : round(avgRating, 2),
+        stats.ratings.length
+      ] as ReportCell[]
+    })
+    .sort((a, b) => (b[2] as number) - (a[2] as number))
+
+  const unassigned = tickets.filter(ticket => !ticket.assigned_to).length
+
+  return {
+    type: 'performance',
+    title: REPORT_TITLES.performance,
+    ...period,
+    summary: [
+      { label: 'Agents', value: rows.length },
+      { label: 'Assigned tickets', value: tickets.length - unassigned },
+      { label: 'Unassigned tickets', value: unassigned },
+      { label: 'Ratings received', value: feedback.length }
+    ],
+    charts: [
+      {
+        title: 'Resolved tickets per agent',
+        labels: rows.map(row => String(row[0])),
+        values: rows.map(row => row[2] as number)
+      }
+    ],
+    columns: [
+      { label: 'Agent' },
+      { label: 'Assigned', type: 'number' },
+      { label: 'Resolved', type: 'number' },
+      { label: 'Resolution rate', type: 'percent' },
+      { label: 'Average resolution (h)', type: 'number' },
+      { label: 'Average rating', type: 'number' },
+      { label: 'Ratings', type: 'number' }
+    ],
+    rows
+  }
+}
+
+export function buildSLAReport(
+  tickets: ReportTicket[],
+  statuses: Map<string, ReportSLAStatus>,
+  lookups: ReportLookups,
+  period: Period
+): ReportData {
+  const outcomes = tickets
+    .filter(ticket => statuses.has(ticket.id))
+    .map(ticket => {
+      const status = statuses.get(ticket.id)!
+      const responseTarget = Number(status.slaRule.response_time)
+      const resolutionTarget = Number(status.slaRule.resolution_time)
+      return {
+        ticket,
+        status,
+        responseTarget,
+        resolutionTarget,
+        response: getSLAOutcome(status.responseTimeElapsed, responseTarget, !!status.firstResponseAt || !status.isActive),
+        resolution: getSLAOutcome(status.totalTimeElapsed, resolutionTarget, !status.isActive)
+      }
+    })
+
+  const compliance = (key: 'response' | 'resolution', items = outcomes) => {
+    const decided = items.filter(item => item[key] !== 'pending')
+    return percentage(decided.filter(item => item[key] === 'met').length, decided.length)
+  }
+
+  const priorities = PRIORITY_ORDER.filter(priority => outcomes.some(item => item.ticket.priority === priority))
+
+  return {
+    type: 'sla',
+    title: REPORT_TITLES.sla,
+    ...period,
+    summary: [
+      { label: 'Tickets', value: outcomes.length },
+      { label: 'Response compliance', value: `${compliance('response') ?? '-'}%` },
+      { label: 'Resolution compliance', value: `${compliance('resolution') ?? '-'}%` },
+      { label: 'Resolution breaches', value: outcomes.filter(item => item.resolution === 'breached').length }
+    ],
+    charts: [
+      {
+        title: 'Resolution compliance by priority',
+        labels: priorities,
+        values: priorities.map(priority =>
+          compliance('resolution', outcomes.filter(item => item.ticket.priority === priority)) ?? 0
+        ),
+        unit: '%'
+      }
+    ],
+    columns: [
+      { label: 'Number' },
+      { label: 'Title' },
+      { label: 'Priority' },
+      { label: 'Agent' },
+      { label: 'Response (h)', type: 'number' },
+      { label: 'Response target (h)', type: 'number' },
+      { label: 'Response' },
+      { label: 'Resolution (h)', type: 'number' },
+      { label: 'Resolution target (h)', type: 'number' },
+      { label: 'Resolution' }
+    ],
+    rows: outcomes.map(item => [
+      item.ticket.ticket_number || item.ticket.id,
+      item.ticket.title,
+      item.ticket.priority,
+      (item.ticket.assigned_to && lookups.users.get(item.ticket.assigned_to)) || '',
+      round(item.status.responseTimeElapsed),
+      item.responseTarget,
+      item.response,
+      round(item.status.totalTimeElapsed),
+      item.resolutionTarget,
+      item.resolution
+    ])
+  }
+}
+
+export function buildSatisfactionReport(
+  tickets: ReportTicket[],
+  feedback: ReportFeedback[],
+  lookups: ReportLookups,
+  period: Period
+): ReportData {
+  const ticketsById = new Map(tickets.map(ticket => [ticket.id, ticket]))
+  const rated = feedback.filter(item => ticketsById.has(item.ticket_id))
+  const avgRating = average(rated.map(item => item.rating))
+  const satisfied = rated.filter(item => item.satisfaction === 'satisfied').length
+
+  return {
+    type: 'satisfaction',
+    title: REPORT_TITLES.satisfaction,
+    ...period,
+    summary: [
+      { label: 'Responses', value: rated.length },
+      { label: 'Average rating', value: avgRating === null ? '-' : round(avgRating, 2) },
+      { label: 'Satisfied', value: `${percentage(satisfied, rated.length) ?? '-'}%` },
+      { label: 'Response rate', value: `${percentage(rated.length, tickets.length) ?? '-'}%` }
+    ],
+    charts: [
+      chartFromCounts('Ratings', countBy(rated, item => `${item.rating}/5`, ['1/5', '2/5', '3/5', '4/5', '5/5'])),
+      chartFromCounts('Satisfaction', countBy(rated, item => item.satisfaction, ['satisfied', 'neutral', 'unsatisfied']))
+    ],
+    columns: [
+      { label: 'Number' },
+      { label: 'Title' },
+      { label: 'Agent' },
+      { label: 'Rating', type: 'number' },
+      { label: 'Satisfaction' },
+      { label: 'Comment' },
+      { label: 'Submitted', type: 'date' }
+    ],
+    rows: rated.map(item => {
+      const ticket = ticketsById.get(item.ticket_id)!
+      return [
+        ticket.ticket_number || ticket.id,
+        ticket.title,
+        (ticket.assigned_to && lookups.users.get(ticket.assigned_to)) || item.agent_name || '',
+        item.rating,
+        item.satisfaction,
+        item.comment || '',
+        new Date(item.created_at)
+      ]
+    })
+  }
+}
+
+// Tickets created in [from, to], narrowed by the report filters
+async function loadReportTickets(client: JobClient, filters: ReportFilters, from: Date, to: Date): Promise<ReportTicket[]> {
+  let query = client
+    .from('tickets_new')
+    .select('*')
+    .gte('created_at', from.toISOString())
+    .lte('created_at', to.toISOString())
+    .order('created_at', { ascending: true })
+
+  if (filters.status?.length) query = query.in('status', filters.status)
+  if (filters.priority?.length) query = query.in('priority', filters.priority)
+  if (filters.category?.length) query = query.in('category_id', filters.category)
+  if (filters.agent?.length) query = query.in('assigned_to', filters.agent)
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
+}
+
+async function loadReportFeedback(client: JobClient, ticketIds: string[]): Promise<ReportFeedback[]> {
+  const feedback: ReportFeedback[] = []
+
+  for (let i = 0; i < ticketIds.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await client
+      .from('ticket_feedback')
+      .select('*')
+      .in('ticket_id', ticketIds.slice(i, i + ID_BATCH_SIZE))
+
+    if (error) throw error
+    feedback.push(...(data || []))
+  }
+
+  return feedback
+}
+
+// The same SLA evaluation as the ticket views and the SLA check; tickets
+// whose priority has no active rule are left out
+async function loadSLAStatuses(client: JobClient, tickets: ReportTicket[], now: Date): Promise<Map<string, ReportSLAStatus>> {
+  const statuses = new Map<string, ReportSLAStatus>()
+  if (tickets.length === 0) return statuses
+
+  const [rules, calendars] = await Promise.all([
+    client.from('sla_rules').select('*').eq('is_active', true),
+    loadCalendars(client)
+  ])
+  if (rules.error) throw rules.error
+
+  const rulesByPriority = new Map<string, { response_time: number; resolution_time: number }>(
+    (rules.data || []).map((rule: { priority: string; response_time: number; resolution_time: number }) => [rule.priority, rule])
+  )
+
+  for (let i = 0; i < tickets.length; i += ID_BATCH_SIZE) {
+    const batch = tickets.slice(i, i + ID_BATCH_SIZE)
+    const [clockEvents, firstResponses] = await Promise.all([
+      loadClockEvents(client, batch.map(ticket => ticket.id)),
+      loadFirstResponses(client, batch)
+    ])
+
+    for (const ticket of batch) {
+      const rule = rulesByPriority.get(ticket.priority)
+      if (!rule) continue
+
+      const firstResponseAt = firstResponses.get(ticket.id) || null
+      const evaluation = evaluateSLA({
+        ticket,
+        rule: { response_time: Number(rule.response_time), resolution_time: Number(rule.resolution_time) },
+        firstResponseAt,
+        calendar: pickCalendar(calendars, ticket),
+        clockEvents: clockEvents.get(ticket.id) || [],
+        now
+      })
+      statuses.set(ticket.id, { ...evaluation, firstResponseAt, slaRule: rule })
+    }
+  }
+
+  return statuses
+}
+
+/**
+ * Loads the data for a report over an exact period and builds its dataset.
+ * Reads go through `client`, so the rows are the ones it is allowed to see.
+ */
+export async function generateReport(
+  client: JobClient,
+  config: { type: ReportType; filters: ReportFilters },
+  from: Date,
+  to: Date,
+  now: Date
+): Promise<ReportData> {
+  const [tickets, users, categories] = await Promise.all([
+    loadReportTickets(client, config.filters || {}, from, to),
+    client.from('users').select('id, full_name, email'),
+    client.from('categories').select('id, name')
+  ])
+  if (users.error) throw users.error
+  if (categories.error) throw categories.error
+
+  const lookups: ReportLookups = {
+    users: new Map((users.data || []).map((user: { id: string; full_name: string | null; email: string | null }) =>
+      [user.id, user.full_name || user.email || 'Unknown']
+    )),
+    categories: new Map((categories.data || []).map((category: { id: string; name: string }) => [category.id, category.name]))
+  }
+  const period = { from, to, generatedAt: now }
+
+  switch (config.type) {
+    case 'performance':
+      return buildPerformanceReport(tickets, await loadReportFeedback(client, tickets.map(ticket => ticket.id)), lookups, period)
+    case 'sla':
+      return buildSLAReport(tickets, await loadSLAStatuses(client, tickets, now), lookups, period)
+    case 'satisfaction':
+      return buildSatisfactionReport(tickets, await loadReportFeedback(client, tickets.map(ticket => ticket.id)), lookups, period)
+    default:
+      return buildTicketReport(tickets, lookups, period)
+  }
+}
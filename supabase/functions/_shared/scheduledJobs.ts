@@ -0,0 +1,646 @@
+// Jobs run by the run-scheduled-jobs edge function. Each handler gets a
+// service-role Supabase client and the time of the run, does its work in a
+// few batched queries and returns counters for the run history.
+
+import { autoCloseAction, getAutoCloseSchedule, matchAutoClosePolicy, type AutoClosePolicy } from './autoClose.ts'
+import { pickCalendar } from './businessHours.ts'
+import { signSurveyToken, surveyLink } from './csatSurvey.ts'
+import { formatTemplateDate, loadRecipientLanguages, renderStoredEmail, resolveEmailLocale } from './emailTemplates.ts'
+import { runEscalations } from './escalations.ts'
+import { deliverNotificationDigests } from './notificationDigests.ts'
+import { selectAllRows, selectAllRowsIn } from './pagedQuery.ts'
+import type { ReportLibraries } from './reportExport.ts'
+import { runScheduledReports } from './scheduledReports.ts'
+import { loadCalendars, loadClockEvents, loadFirstResponses } from './slaData.ts'
+import { evaluateSLA, type SLAEvaluation } from './slaStatus.ts'
+import { getLocalParts, isValidTimezone } from './timezone.ts'
+import { dispatchWebhooks } from './webhookDispatch.ts'
+
+// Structural so the handlers run against supabase-js in Deno and a mock in tests
+/* eslint-disable @typescript-eslint/no-explicit-any */
+export type JobClient = {
+  from: (table: string) => any
+  rpc: (fn: string, params?: Record<string, unknown>) => any
+  storage?: { from: (bucket: string) => any }
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export interface OutgoingEmail {
+  to: string
+  subject: string
+  html: string
+  text: string
+  attachments?: Array<{ filename: string; content: string }> // base64 content
+}
+
+export interface JobContext {
+  now: Date
+  timezone: string // Wall-clock zone for users who have not set their own
+  sendEmail?: (email: OutgoingEmail) => Promise<void>
+  csat?: { signingSecret: string; appUrl: string } // For the links in survey emails
+  digests?: { appUrl: string } // For the links in digest emails
+  reports?: { appUrl: string; libraries: ReportLibraries } // For scheduled report files and emails
+  webhooks?: { appUrl: string } // For the links in Slack messages
+}
+
+export type JobResult = Record<string, number>
+export type JobHandler = (client: JobClient, context: JobContext) => Promise<JobResult>
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Notification text as an i18n key, translated in the reader's language
+const template = (key: string, params: Record<string, string | number> = {}) => JSON.stringify({ key, params })
+
+// The timezone each user set in their notification preferences, if valid
+async function loadUserTimezones(client: JobClient, userIds: string[]): Promise<Map<string, string>> {
+  const rows = await selectAllRowsIn<{ user_id: string; timezone: string | null }>(userIds, chunk => client
+    .from('notification_preferences')
+    .select('user_id, timezone')
+    .in('user_id', chunk)
+    .order('user_id'))
+
+  const timezones = new Map<string, string>()
+  for (const row of rows) {
+    if (row.timezone && isValidTimezone(row.timezone)) timezones.set(row.user_id, row.timezone)
+  }
+  return timezones
+}
+
+/**
+ * Applies the auto-close policies to resolved tickets: reminds the requester
+ * ahead of closure and closes tickets whose inactivity window has passed.
+ * Tickets with a pending reopen request are left alone. Activity means a
+ * comment after resolution, as on the ticket's auto-close notice; requesters
+ * answer with a comment or "still not fixed", so other edits do not count.
+ */
+export async function autoCloseResolvedTickets(client: JobClient, { now, timezone }: JobContext): Promise<JobResult> {
+  const { data: policies, error: policiesError } = await client
+    .from('auto_close_policies')
+    .select('*')
+    .eq('is_active', true)
+
+  if (policiesError) throw policiesError
+  if (!policies?.length) return { candidates: 0, reminded: 0, closed: 0, failed: 0 }
+
+  // Nothing resolved more recently than the shortest reminder lead time can be due
+  const shortestDays = Math.min(...(policies as AutoClosePolicy[]).map(policy =>
+    policy.inactivity_days - Math.max(policy.reminder_days_before, 0)
+  ))
+
+  const candidates = await selectAllRows(() => client
+    .from('tickets_new')
+    .select('id, ticket_number, title, user_id, category_id, subcategory_id, resolved_at, auto_close_reminded_at')
+    .eq('status', 'resolved')
+    .lt('resolved_at', new Date(now.getTime() - Math.max(shortestDays, 0) * DAY_MS).toISOString())
+    .order('id'))
+
+  if (candidates.length === 0) return { candidates: 0, reminded: 0, closed: 0, failed: 0 }
+
+  const ids = candidates.map((ticket: { id: string }) => ticket.id)
+  const requesterIds = candidates.map((ticket: { user_id: string }) => ticket.user_id)
+  const [comments, reopenRequests, languages, timezones] = await Promise.all([
+    selectAllRowsIn(ids, chunk => client
+      .from('ticket_comments_new')
+      .select('id, ticket_id, created_at')
+      .in('ticket_id', chunk)
+      .order('created_at', { ascending: false })
+      .order('id')),
+    selectAllRowsIn(ids, chunk => client
+      .from('reopen_requests')
+      .select('id, ticket_id')
+      .in('ticket_id', chunk)
+      .eq('status', 'pending')
+      .order('id')),
+    loadRecipientLanguages(client, requesterIds),
+    loadUserTimezones(client, requesterIds)
+  ])
+
+  const lastComment = new Map<string, string>()
+  for (const comment of comments) {
+    if (!lastComment.has(comment.ticket_id)) lastComment.set(comment.ticket_id, comment.created_at)
+  }
+  const reopenPending = new Set(reopenRequests.map((request: { ticket_id: string }) => request.ticket_id))
+
+  const result = { candidates: candidates.length, reminded: 0, closed: 0, failed: 0 }
+
+  for (const ticket of candidates) {
+    if (reopenPending.has(ticket.id)) continue
+
+    const policy = matchAutoClosePolicy(policies as AutoClosePolicy[], ticket)
+    if (!policy) continue
+
+    const resolvedAt = new Date(ticket.resolved_at)
+    const commentedAt = lastComment.has(ticket.id) ? new Date(lastComment.get(ticket.id) as string) : null
+    const lastActivityAt = commentedAt && commentedAt > resolvedAt ? commentedAt : resolvedAt
+    const remindedAt = ticket.auto_close_reminded_at ? new Date(ticket.auto_close_reminded_at) : null
+    const action = autoCloseAction(policy, lastActivityAt, remindedAt, now)
+    const label = ticket.ticket_number || '#' + ticket.id.slice(-8)
+
+    if (action === 'remind') {
+      const { closeAt } = getAutoCloseSchedule(policy, lastActivityAt, now)
+      const closeDate = formatTemplateDate(
+        closeAt,
+        resolveEmailLocale(languages.get(ticket.user_id)),
+        timezones.get(ticket.user_id) || timezone
+      )
+
+      // Notify first: if recording the reminder fails, the next run reminds
+      // again instead of closing a ticket whose requester was never told
+      const { error: notifyError } = await client.from('notifications').insert({
+        user_id: ticket.user_id,
+        type: 'auto_close_reminder',
+        title: template('notifications.types.auto_close_reminder.title', { ticketNumber: label }),
+        message: template('notifications.types.auto_close_reminder.message', { ticketNumber: label, closeDate: closeDate as string }),
+        ticket_id: ticket.id,
+        priority: 'medium',
+        read: false,
+        created_at: now.toISOString(),
+        metadata: { action: 'still_not_fixed', auto_close_at: closeAt.toISOString(), policy_id: policy.id }
+      })
+
+      if (notifyError) {
+        console.error(`❌ Failed to send auto-close reminder for ticket ${ticket.id}:`, notifyError)
+        result.failed++
+        continue
+      }
+
+      const { error: remindError } = await client
+        .from('tickets_new')
+        .update({ auto_close_reminded_at: now.toISOString() })
+        .eq('id', ticket.id)
+
+      if (remindError) {
+        console.error(`❌ Failed to record auto-close reminder for ticket ${ticket.id}:`, remindError)
+        result.failed++
+        continue
+      }
+
+      result.reminded++
+      continue
+    }
+
+    if (action !== 'close') continue
+
+    const closedAt = now.toISOString()
+    const { data: closed, error: closeError } = await client
+      .from('tickets_new')
+      .update({ status: 'closed', closed_at: closedAt, closed_by: null, updated_at: closedAt })
+      .eq('id', ticket.id)
+      .eq('status', 'resolved') // Someone may have reopened it meanwhile
+      .select('id')
+
+    if (closeError) {
+      console.error(`❌ Failed to auto-close ticket ${ticket.id}:`, closeError)
+      result.failed++
+      continue
+    }
+    if (!closed?.length) continue
+
+    result.closed++
+
+    // No user: the activity log shows the system as the actor
+    await client.rpc('log_ticket_activity', {
+      p_ticket_id: ticket.id,
+      p_user_id: null,
+      p_action_type: 'closed',
+      p_field_name: 'status',
+      p_old_value: 'resolved',
+      p_new_value: 'closed',
+      p_description: `Closed automatically by the system after ${policy.inactivity_days} days without activity`,
+      p_metadata: {
+        closed_by: 'system',
+        closed_at: closedAt,
+        auto_closed: true,
+        policy_id: policy.id,
+        policy_name: policy.name,
+        inactivity_days: policy.inactivity_days,
+        last_activity_at: lastActivityAt.toISOString()
+      }
+    })
+
+    const { error: notifyError } = await client.from('notifications').insert({
+      user_id: ticket.user_id,
+      type: 'ticket_closed',
+      title: template('notifications.types.ticket_closed.autoClosed.title', { ticketNumber: label }),
+      message: template('notifications.types.ticket_closed.autoClosed.message', { ticketNumber: label, days: policy.inactivity_days }),
+      ticket_id: ticket.id,
+      priority: 'low',
+      read: false,
+      created_at: closedAt
+    })
+
+    // The ticket is closed either way; only the heads-up is lost
+    if (notifyError) {
+      console.error(`❌ Failed to notify the requester that ticket ${ticket.id} was auto-closed:`, notifyError)
+    }
+  }
+
+  return result
+}
+
+interface SLANotificationSettings {
+  user_id: string
+  breach_notifications_enabled: boolean
+  warning_notifications_enabled: boolean
+  priority_filter: 'all' | 'high_urgent' | 'urgent_only'
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
+}
+
+/**
+ * Whether a user's SLA notification settings let a warning or breach through.
+ * Users without settings get everything; urgent breaches ignore quiet hours.
+ */
+export function allowsSLANotification(
+  settings: SLANotificationSettings | undefined,
+  kind: 'breach' | 'warning',
+  priority: string,
+  localTime: string // HH:MM
+): boolean {
+  if (!settings) return true
+
+  const enabled = kind === 'breach' ? settings.breach_notifications_enabled : settings.warning_notifications_enabled
+  if (!enabled) return false
+
+  if (settings.priority_filter === 'urgent_only' && priority !== 'urgent') return false
+  if (settings.priority_filter === 'high_urgent' && !['high', 'urgent'].includes(priority)) return false
+
+  if (settings.quiet_hours_start && settings.quiet_hours_end) {
+    const start = settings.quiet_hours_start.slice(0, 5)
+    const end = settings.quiet_hours_end.slice(0, 5)
+    // Quiet hours may wrap past midnight (e.g. 22:00-07:00)
+    const quiet = start <= end
+      ? localTime >= start && localTime <= end
+      : localTime >= start || localTime <= end
+    if (quiet && !(kind === 'breach' && priority === 'urgent')) return false
+  }
+
+  return true
+}
+
+interface SLARuleRow {
+  name: string
+  priority: string
+  response_time: number
+  resolution_time: number
+}
+
+interface SLATicket {
+  id: string
+  ticket_number: string | null
+  title: string
+  priority: string
+  status: string
+  created_at: string
+  resolved_at: string | null
+  closed_at: string | null
+  assigned_to: string | null
+  user_id: string
+  country: string | null
+  team_id: string | null
+  assignee: { full_name: string | null } | null
+}
+
+const ticketLabel = (ticket: SLATicket) => ticket.ticket_number || '#' + ticket.id.slice(-8)
+
+// "3h 20m" until (or since) a deadline
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(Math.abs(ms) / 60000)
+  const hours = Math.floor(minutes / 60)
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`
+}
+
+// Which deadlines a warning or breach is about, as the key of its message
+const deadlineKey = (response: boolean, resolution: boolean) =>
+  response && resolution ? 'both' : response ? 'response' : 'resolution'
+
+/**
+ * Evaluates the SLA of every open ticket, notifies assignees, admins and
+ * requesters about warnings and breaches (with the same de-duplication windows
+ * as before) and queues the sla.warning / sla.breach webhooks. Quiet hours are
+ * read in each user's timezone, `timezone` for users without one.
+ */
+export async function checkSLAWarnings(client: JobClient, { now, timezone }: JobContext): Promise<JobResult> {
+  const tickets = await selectAllRows<SLATicket>(() => client
+    .from('tickets_new')
+    .select(`
+      id, ticket_number, title, priority, status, created_at, resolved_at, closed_at,
+      assigned_to, user_id, country, team_id,
+      assignee:users!tickets_new_assigned_to_fkey(full_name)
+    `)
+    .in('status', ['open', 'in_progress'])
+    .order('id'))
+
+  if (tickets.length === 0) return { checked: 0, warnings: 0, breaches: 0, notifications: 0 }
+
+  const ids = tickets.map(ticket => ticket.id)
+  const [rules, calendars, clockEvents, firstResponses, settings, admins, recent] = await Promise.all([
+    client.from('sla_rules').select('*').eq('is_active', true),
+    loadCalendars(client),
+    loadClockEvents(client, ids),
+    loadFirstResponses(client, tickets),
+    selectAllRows<SLANotificationSettings>(() => client.from('sla_notification_settings').select('*').order('user_id')),
+    selectAllRows<{ id: string }>(() => client.from('users').select('id').eq('role', 'admin').order('id')),
+    selectAllRows<{ user_id: string; ticket_id: string | null; type: string; title: string; created_at: string }>(() => client
+      .from('notifications')
+      .select('id, user_id, ticket_id, type, title, created_at')
+      .in('type', ['sla_warning', 'sla_breach'])
+      .gte('created_at', new Date(now.getTime() - 4 * HOUR_MS).toISOString())
+      .order('id'))
+  ])
+
+  if (rules.error) throw rules.error
+
+  const rulesByPriority = new Map<string, SLARuleRow>((rules.data || []).map((rule: SLARuleRow) => [rule.priority, rule]))
+  const settingsByUser = new Map<string, SLANotificationSettings>(settings.map(row => [row.user_id, row]))
+  const adminIds = admins.map(admin => admin.id)
+
+  // Only users with quiet hours need their local time
+  const timezones = await loadUserTimezones(
+    client,
+    settings.filter(row => row.quiet_hours_start && row.quiet_hours_end).map(row => row.user_id)
+  )
+  const localTimes = new Map<string, string>()
+  const localTime = (userId: string) => {
+    const zone = timezones.get(userId) || timezone
+    if (!localTimes.has(zone)) {
+      const local = getLocalParts(now, zone)
+      localTimes.set(zone, `${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`)
+    }
+    return localTimes.get(zone) as string
+  }
+  const allows = (userId: string, kind: 'breach' | 'warning', priority: string) =>
+    allowsSLANotification(settingsByUser.get(userId), kind, priority || 'medium', localTime(userId))
+
+  // Users already told about this ticket within the de-duplication window
+  const notifiedSince = (ticketId: string, type: string, windowMs: number) => new Set(
+    recent
+      .filter(n => n.ticket_id === ticketId && n.type === type && new Date(n.created_at).getTime() >= now.getTime() - windowMs)
+      .map(n => n.user_id)
+  )
+
+  const notifications: Record<string, unknown>[] = []
+  const breached: Array<{ ticket: SLATicket; sla: SLAEvaluation }> = []
+  let warnings = 0
+
+  for (const ticket of tickets) {
+    const rule = rulesByPriority.get(ticket.priority)
+    if (!rule) continue
+
+    const sla = evaluateSLA({
+      ticket,
+      rule: { response_time: Number(rule.response_time), resolution_time: Number(rule.resolution_time) },
+      firstResponseAt: firstResponses.get(ticket.id) || null,
+      calendar: pickCalendar(calendars, ticket),
+      clockEvents: clockEvents.get(ticket.id) || [],
+      now
+    })
+
+    const kind = sla.responseStatus === 'overdue' || sla.resolutionStatus === 'overdue'
+      ? 'breach'
+      : sla.responseStatus === 'warning' || sla.resolutionStatus === 'warning' ? 'warning' : null
+    if (!kind) continue
+
+    const base = { ticket_id: ticket.id, read: false, created_at: now.toISOString() }
+    const params = { ticketNumber: ticketLabel(ticket), priority: (ticket.priority || 'medium').toUpperCase() }
+
+    if (kind === 'breach') {
+      breached.push({ ticket, sla })
+      const notified = notifiedSince(ticket.id, 'sla_breach', HOUR_MS)
+      if (ticket.assigned_to && !notified.has(ticket.assigned_to) && allows(ticket.assigned_to, 'breach', ticket.priority)) {
+        const deadlines = deadlineKey(sla.responseStatus === 'overdue', sla.resolutionStatus === 'overdue')
+        notifications.push({
+          ...base,
+          user_id: ticket.assigned_to,
+          type: 'sla_breach',
+          title: template('notifications.types.sla_breach.title', params),
+          message: template(`notifications.types.sla_breach.deadlines.${deadlines}`, params),
+          priority: 'urgent'
+        })
+      }
+    } else {
+      warnings++
+      const notified = notifiedSince(ticket.id, 'sla_warning', 4 * HOUR_MS)
+      const responseAtRisk = sla.responseStatus === 'warning'
+      const deadline = responseAtRisk ? sla.responseDeadline : sla.resolutionDeadline
+
+      if (ticket.assigned_to && !notified.has(ticket.assigned_to) && allows(ticket.assigned_to, 'warning', ticket.priority)) {
+        const deadlines = deadlineKey(responseAtRisk, sla.resolutionStatus === 'warning')
+        notifications.push({
+          ...base,
+          user_id: ticket.assigned_to,
+          type: 'sla_warning',
+          title: template('notifications.types.sla_warning.title', params),
+          message: deadline
+            ? template(`notifications.types.sla_warning.deadlines.${deadlines}`, {
+                ...params,
+                remaining: formatDuration(deadline.getTime() - now.getTime())
+              })
+            : template('notifications.types.sla_warning.message', params),
+          priority: 'medium'
+        })
+      }
+
+      if (!ticket.assigned_to) {
+        for (const adminId of adminIds) {
+          if (notified.has(adminId) || !allows(adminId, 'warning', ticket.priority)) continue
+          notifications.push({
+            ...base,
+            user_id: adminId,
+            type: 'sla_warning',
+            title: template('notifications.types.sla_warning.unassigned.title', params),
+            message: template('notifications.types.sla_warning.unassigned.message', params),
+            priority: 'medium'
+          })
+        }
+
+        if (sla.resolutionStatus === 'warning' && !notified.has(ticket.user_id)) {
+          notifications.push({
+            ...base,
+            user_id: ticket.user_id,
+            type: 'sla_warning',
+            title: template('notifications.types.sla_warning.requester.title', params),
+            message: template('notifications.types.sla_warning.requester.message', params),
+            priority: 'medium'
+          })
+        }
+      }
+    }
+
+    for (const target of ['response', 'resolution'] as const) {
+      const state = target === 'response' ? sla.responseStatus : sla.resolutionStatus
+      if (state !== (kind === 'breach' ? 'overdue' : 'warning')) continue
+
+      const { error: webhookError } = await client.rpc('queue_sla_webhook_event', {
+        p_ticket_id: ticket.id,
+        p_kind: kind,
+        p_target: target,
+        p_details: {
+          response_status: sla.responseStatus,
+          resolution_status: sla.resolutionStatus,
+          response_deadline: sla.responseDeadline?.toISOString() ?? null,
+          resolution_deadline: sla.resolutionDeadline?.toISOString() ?? null,
+          elapsed_hours: sla.totalTimeElapsed,
+          rule: { name: rule.name, priority: rule.priority }
+        }
+      })
+      if (webhookError) {
+        console.error(`Error queueing SLA ${kind} webhook for ticket ${ticket.id}:`, webhookError)
+      }
+    }
+  }
+
+  // Admins get one summary of all breaches, at most every two hours
+  const adminAlertSent = recent.some(n =>
+    n.type === 'sla_breach' &&
+    /"notifications\.types\.sla_breach\.(adminAlert|summary)\.title"/.test(n.title) &&
+    new Date(n.created_at).getTime() >= now.getTime() - 2 * HOUR_MS
+  )
+
+  if (breached.length > 0 && !adminAlertSent) {
+    const single = breached.length === 1 ? breached[0].ticket : null
+    const summary = {
+      urgent: breached.filter(({ ticket }) => ticket.priority === 'urgent').length,
+      high: breached.filter(({ ticket }) => ticket.priority === 'high').length,
+      unassigned: breached.filter(({ ticket }) => !ticket.assigned_to).length
+    }
+    const topPriority = summary.urgent > 0 ? 'urgent' : summary.high > 0 ? 'high' : single?.priority || 'medium'
+
+    for (const adminId of adminIds) {
+      if (!allows(adminId, 'breach', topPriority)) continue
+      notifications.push({
+        user_id: adminId,
+        type: 'sla_breach',
+        title: single
+          ? template('notifications.types.sla_breach.adminAlert.title', { ticketNumber: ticketLabel(single) })
+          : template('notifications.types.sla_breach.summary.title', { count: breached.length }),
+        message: single
+          ? template(
+              single.assignee?.full_name
+                ? 'notifications.types.sla_breach.adminAlert.message'
+                : 'notifications.types.sla_breach.adminAlert.unassignedMessage',
+              {
+                ticketNumber: ticketLabel(single),
+                priority: (single.priority || 'medium').toUpperCase(),
+                agentName: single.assignee?.full_name || ''
+              }
+            )
+          : template('notifications.types.sla_breach.summary.message', { count: breached.length, ...summary }),
+        ticket_id: single?.id ?? null,
+        priority: 'high',
+        read: false,
+        created_at: now.toISOString()
+      })
+    }
+  }
+
+  if (notifications.length > 0) {
+    const { error: insertError } = await client.from('notifications').insert(notifications)
+    if (insertError) throw insertError
+  }
+
+  return {
+    checked: tickets.length,
+    warnings,
+    breaches: breached.length,
+    notifications: notifications.length
+  }
+}
+
+interface SurveyRow {
+  id: string
+  user_id: string
+  recipient_email: string
+  expires_at: string
+  recipient: { full_name: string | null } | null
+  ticket: {
+    id: string
+    ticket_number: string | null
+    title: string
+    status: string
+    feedback_received: boolean | null
+    assignee: { full_name: string | null } | null
+  } | null
+}
+
+/**
+ * Emails the survey links queued when tickets were resolved, in the
+ * requester's language. Surveys for tickets that were reopened or rated in the
+ * app meanwhile are cancelled.
+ */
+export async function sendCsatSurveys(client: JobClient, { now, timezone, sendEmail, csat }: JobContext): Promise<JobResult> {
+  if (!sendEmail || !csat?.signingSecret || !csat?.appUrl) {
+    throw new Error('Survey emails need CSAT_SIGNING_SECRET and APP_URL to be configured')
+  }
+
+  const { data, error } = await client
+    .from('csat_surveys')
+    .select(`
+      id, user_id, recipient_email, expires_at,
+      recipient:users!csat_surveys_user_id_fkey(full_name),
+      ticket:tickets_new(id, ticket_number, title, status, feedback_received,
+        assignee:users!tickets_new_assigned_to_fkey(full_name))
+    `)
+    .eq('status', 'pending')
+    .gt('expires_at', now.toISOString())
+    .order('created_at', { ascending: true })
+    .limit(100)
+
+  if (error) throw error
+
+  const surveys = (data || []) as SurveyRow[]
+  const result = { pending: surveys.length, sent: 0, cancelled: 0, failed: 0 }
+  const languages = await loadRecipientLanguages(client, surveys.map(survey => survey.user_id))
+
+  for (const survey of surveys) {
+    const ticket = survey.ticket
+    if (!ticket || !['resolved', 'closed'].includes(ticket.status) || ticket.feedback_received) {
+      await client.from('csat_surveys').update({ status: 'cancelled' }).eq('id', survey.id)
+      result.cancelled++
+      continue
+    }
+
+    try {
+      const expiresAt = new Date(survey.expires_at)
+      const token = await signSurveyToken(csat.signingSecret, survey.id, expiresAt)
+      const language = languages.get(survey.user_id)
+      const { subject, html, text } = await renderStoredEmail(client, 'csat_survey', {
+        requesterName: survey.recipient?.full_name,
+        ticketNumber: ticket.ticket_number || '#' + ticket.id.slice(-8),
+        ticketTitle: ticket.title,
+        agentName: ticket.assignee?.full_name,
+        surveyLink: surveyLink(csat.appUrl, token),
+        expiresAt: formatTemplateDate(expiresAt, resolveEmailLocale(language), timezone)
+      }, language)
+      await sendEmail({ to: survey.recipient_email, subject, html, text })
+    } catch (sendError) {
+      // Stays pending and is retried on the next run
+      console.error(`❌ Failed to send survey ${survey.id}:`, sendError)
+      result.failed++
+      continue
+    }
+
+    const { error: updateError } = await client
+      .from('csat_surveys')
+      .update({ status: 'sent', sent_at: now.toISOString() })
+      .eq('id', survey.id)
+
+    if (updateError) {
+      console.error(`❌ Failed to record survey ${survey.id} as sent:`, updateError)
+    }
+    result.sent++
+  }
+
+  return result
+}
+
+export const scheduledJobs: Record<string, JobHandler> = {
+  auto_close: autoCloseResolvedTickets,
+  sla_check: checkSLAWarnings,
+  csat_surveys: sendCsatSurveys,
+  scheduled_reports: runScheduledReports,
+  notification_digests: deliverNotificationDigests,
+  escalations: runEscalations,
+  webhook_dispatch: dispatchWebhooks
+}
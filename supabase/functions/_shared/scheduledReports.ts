@@ -0,0 +1,246 @@
+// Runs saved report definitions: generates the report, stores the file in the
+// private reports bucket and emails it to the recipients. The scheduled_reports
+// job runs the due definitions with the service role; admins and agents run
+// one by hand from the Reports page with their own session.
+
+import { loadRecipientLanguages, renderStoredEmail, resolveEmailLocale } from './emailTemplates.ts'
+import { bytesToBase64, exportReportData, type ReportLibraries } from './reportExport.ts'
+import {
+  generateReport,
+  resolveReportWindow,
+  type ReportDateWindow,
+  type ReportFilters,
+  type ReportFormat,
+  type ReportType
+} from './reports.ts'
+import type { JobClient, JobContext, JobResult, OutgoingEmail } from './scheduledJobs.ts'
+
+export const REPORT_BUCKET = 'reports'
+
+// Resend rejects messages over 40 MB; base64 adds a third, so stay well below
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+const MAX_REPORTS_PER_RUN = 10
+
+// Longer than a job's lock, so a run still in progress is never touched
+const INTERRUPTED_RUN_MS = 30 * 60 * 1000
+
+export type ReportRunTrigger = 'schedule' | 'manual'
+
+export interface ReportDefinitionRow {
+  id: string
+  name: string
+  report_type: ReportType
+  format: ReportFormat
+  filters: ReportFilters | null
+  date_window: ReportDateWindow
+  timezone: string
+  recipients: string[]
+  created_by?: string | null
+}
+
+export interface ReportRunRow {
+  id: string
+  definition_id: string
+  status: 'running' | 'success' | 'failed'
+  trigger_type: ReportRunTrigger
+  period_start: string | null
+  period_end: string | null
+  row_count: number | null
+  file_path: string | null
+  file_name: string | null
+  recipients: string[]
+  emails_sent: number
+  error: string | null
+  started_by?: string | null
+  started_at: string
+  finished_at: string | null
+}
+
+export interface ReportRunOptions {
+  now: Date
+  appUrl: string // For the report history link in the email
+  libraries: ReportLibraries
+  sendEmail: (email: OutgoingEmail) => Promise<void>
+  startedBy?: string | null
+}
+
+/**
+ * Generate a definition's report, store it and mail it to the recipients.
+ * The run row records the outcome either way; a failed run is returned, not
+ * thrown. Only a run that could not be recorded at all throws.
+ */
+export async function runReportDefinition(
+  client: JobClient,
+  definition: ReportDefinitionRow,
+  trigger: ReportRunTrigger,
+  { now, appUrl, libraries, sendEmail, startedBy }: ReportRunOptions
+): Promise<ReportRunRow> {
+  const { from, to } = resolveReportWindow(definition.date_window, definition.timezone, now)
+
+  const { data: run, error: insertError } = await client
+    .from('report_runs')
+    .insert({
+      definition_id: definition.id,
+      status: 'running',
+      trigger_type: trigger,
+      period_start: from.toISOString(),
+      period_end: to.toISOString(),
+      recipients: definition.recipients,
+      started_by: startedBy || null
+    })
+    .select()
+    .single()
+
+  if (insertError) throw insertError
+
+  const result: Partial<ReportRunRow> = {}
+  try {
+    if (!client.storage) throw new Error('Report files need a client with storage access')
+
+    const report = await generateReport(client, { type: definition.report_type, filters: definition.filters || {} }, from, to, now)
+    const exported = await exportReportData(report, definition.format, libraries, definition.timezone)
+    result.row_count = report.rows.length
+
+    const filePath = `${definition.id}/${run.id}/${exported.filename}`
+    const { error: uploadError } = await client.storage
+      .from(REPORT_BUCKET)
+      .upload(filePath, exported.data, { contentType: exported.mimeType })
+
+    if (uploadError) {
+      throw new Error(`Failed to store report file: ${uploadError.message}`)
+    }
+    result.file_path = filePath
+    result.file_name = exported.filename
+
+    const attachments = exported.data.length <= MAX_ATTACHMENT_BYTES
+      ? [{ filename: exported.filename, content: bytesToBase64(exported.data) }]
+      : undefined
+
+    // Recipients are plain addresses, so the email uses the owner's language
+    const language = definition.created_by
+      ? (await loadRecipientLanguages(client, [definition.created_by])).get(definition.created_by)
+      : null
+    const locale = resolveEmailLocale(language)
+    const formatDay = (value: Date) =>
+      new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: definition.timezone }).format(value)
+    const { subject, html, text } = await renderStoredEmail(client, 'scheduled_report', {
+      reportName: definition.name,
+      reportTitle: report.title,
+      periodStart: formatDay(report.from),
+      periodEnd: formatDay(report.to),
+      attachmentName: attachments?.[0].filename || null,
+      historyLink: `${appUrl}/reports`,
+      summary: report.summary.map(item => ({ summaryLabel: item.label, summaryValue: String(item.value) }))
+    }, language)
+
+    const failures: string[] = []
+    result.emails_sent = 0
+    for (const recipient of definition.recipients) {
+      try {
+        await sendEmail({ to: recipient, subject, html, text, attachments })
+        result.emails_sent++
+      } catch (sendError) {
+        failures.push(`${recipient}: ${sendError instanceof Error ? sendError.message : String(sendError)}`)
+      }
+    }
+
+    // Partial delivery still counts as a run; the file is in the history
+    if (failures.length > 0 && result.emails_sent === 0) {
+      throw new Error(`Failed to email the report: ${failures.join('; ')}`)
+    }
+    result.status = 'success'
+    result.error = failures.length > 0 ? `Not delivered to ${failures.join('; ')}` : null
+  } catch (error) {
+    console.error(`❌ Error running report "${definition.name}":`, error)
+    result.status = 'failed'
+    result.error = error instanceof Error ? error.message : (error as { message?: string })?.message || String(error)
+  }
+
+  result.finished_at = new Date().toISOString()
+  const { data: finished, error: updateError } = await client
+    .from('report_runs')
+    .update(result)
+    .eq('id', run.id)
+    .select()
+    .single()
+
+  if (updateError) {
+    console.error(`❌ Error updating report run ${run.id}:`, updateError)
+    return { ...run, ...result }
+  }
+
+  return finished
+}
+
+/**
+ * Runs the definitions whose slot has come up. A definition only moves on to
+ * its next slot once its run is recorded as a success or failure, so a job
+ * that dies halfway leaves it due and the next run picks it up again.
+ */
+export async function runScheduledReports(client: JobClient, { now, sendEmail, reports }: JobContext): Promise<JobResult> {
+  if (!sendEmail || !reports) {
+    throw new Error('Scheduled reports need APP_URL to be configured')
+  }
+
+  // Runs a previous job left behind when it was stopped
+  const { data: interrupted, error: interruptedError } = await client
+    .from('report_runs')
+    .update({ status: 'failed', error: 'Interrupted before the report was sent', finished_at: now.toISOString() })
+    .eq('status', 'running')
+    .lt('started_at', new Date(now.getTime() - INTERRUPTED_RUN_MS).toISOString())
+    .select('id')
+
+  if (interruptedError) {
+    console.warn('⚠️ Could not close interrupted report runs:', interruptedError.message || interruptedError)
+  }
+
+  const { data, error } = await client
+    .from('report_definitions')
+    .select('*')
+    .eq('is_active', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(MAX_REPORTS_PER_RUN)
+
+  if (error) throw error
+
+  const definitions = (data || []) as ReportDefinitionRow[]
+  const result = { due: definitions.length, generated: 0, failed: 0, emailed: 0, interrupted: interrupted?.length || 0 }
+
+  for (const definition of definitions) {
+    let run: ReportRunRow
+    try {
+      run = await runReportDefinition(client, definition, 'schedule', {
+        now,
+        appUrl: reports.appUrl,
+        libraries: reports.libraries,
+        sendEmail
+      })
+    } catch (runError) {
+      // Nothing was recorded, so the definition stays due and is retried
+      console.error(`❌ Could not record a run of report ${definition.id}:`, runError)
+      result.failed++
+      continue
+    }
+
+    if (run.status === 'success') {
+      result.generated++
+      result.emailed += run.emails_sent || 0
+    } else {
+      result.failed++
+    }
+
+    // Clearing next_run_at makes the schedule trigger compute the next slot
+    const { error: scheduleError } = await client
+      .from('report_definitions')
+      .update({ last_run_at: now.toISOString(), next_run_at: null })
+      .eq('id', definition.id)
+
+    if (scheduleError) {
+      console.error(`❌ Failed to move report ${definition.id} to its next slot:`, scheduleError)
+    }
+  }
+
+  return result
+}
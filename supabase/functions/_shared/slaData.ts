@@ -0,0 +1,89 @@
+// SLA inputs loaded in bulk for many tickets at once: business calendars,
+// first agent responses and clock events. Used by the SLA check job and by
+// reports, which evaluate them with evaluateSLA.
+
+import type { BusinessCalendar, ClockEvent } from './businessHours.ts'
+import { selectAllRowsIn } from './pagedQuery.ts'
+import type { JobClient } from './scheduledJobs.ts'
+
+// First agent response per ticket: a logged first response, then a comment
+// flagged as one, then the first agent or admin comment not by the requester
+export async function loadFirstResponses(
+  client: JobClient,
+  tickets: Array<{ id: string; user_id: string }>
+): Promise<Map<string, Date>> {
+  const ids = tickets.map(ticket => ticket.id)
+  const firstResponses = new Map<string, Date>()
+
+  const logs = await selectAllRowsIn(ids, chunk => client
+    .from('ticket_activity_logs')
+    .select('ticket_id, action_type, new_value, metadata, created_at')
+    .in('ticket_id', chunk)
+    .in('action_type', ['first_response', 'comment_added'])
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true }))
+
+  for (const log of logs) {
+    if (firstResponses.has(log.ticket_id) || !log.new_value) continue
+    if (log.action_type === 'first_response' || log.metadata?.is_first_response) {
+      firstResponses.set(log.ticket_id, new Date(log.new_value))
+    }
+  }
+
+  const comments = await selectAllRowsIn(ids.filter(id => !firstResponses.has(id)), chunk => client
+    .from('ticket_comments_new')
+    .select('ticket_id, user_id, created_at, author:users!ticket_comments_new_user_id_fkey(role)')
+    .in('ticket_id', chunk)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true }))
+
+  const requesters = new Map(tickets.map(ticket => [ticket.id, ticket.user_id]))
+  for (const comment of comments) {
+    if (firstResponses.has(comment.ticket_id)) continue
+    if (comment.user_id === requesters.get(comment.ticket_id)) continue
+    if (['agent', 'admin'].includes(comment.author?.role)) {
+      firstResponses.set(comment.ticket_id, new Date(comment.created_at))
+    }
+  }
+
+  return firstResponses
+}
+
+export async function loadCalendars(client: JobClient): Promise<BusinessCalendar[]> {
+  const { data, error } = await client
+    .from('business_calendars')
+    .select(`
+      *,
+      hours:business_calendar_hours(day_of_week, start_time, end_time, is_working_day),
+      holidays:business_calendar_holidays(id, calendar_id, holiday_date, name)
+    `)
+
+  if (error) throw error
+
+  return (data || []).map((calendar: BusinessCalendar) => ({
+    ...calendar,
+    hours: (calendar.hours || []).map(window => ({
+      ...window,
+      start_time: String(window.start_time).slice(0, 5),
+      end_time: String(window.end_time).slice(0, 5)
+    })),
+    holidays: calendar.holidays || []
+  }))
+}
+
+export async function loadClockEvents(client: JobClient, ticketIds: string[]): Promise<Map<string, ClockEvent[]>> {
+  const events = new Map<string, ClockEvent[]>()
+  if (ticketIds.length === 0) return events
+
+  const data = await selectAllRowsIn(ticketIds, chunk => client
+    .from('sla_clock_events')
+    .select('ticket_id, event_type, occurred_at')
+    .in('ticket_id', chunk)
+    .order('occurred_at', { ascending: true })
+    .order('id', { ascending: true }))
+
+  for (const event of data) {
+    events.set(event.ticket_id, [...(events.get(event.ticket_id) || []), event])
+  }
+  return events
+}
@@ -0,0 +1,101 @@
+// Response and resolution SLA state of one ticket, from its SLA rule, business
+// calendar and clock events. Used by the app and by the scheduled SLA check.
+
+import {
+  addBusinessHours,
+  calculateElapsedHours,
+  calculatePausedHours,
+  isClockPaused,
+  type BusinessCalendar,
+  type ClockEvent
+} from './businessHours.ts'
+
+export type SLAState = 'ok' | 'warning' | 'overdue' | 'met' | 'stopped'
+
+export interface SLATargets {
+  response_time: number // hours
+  resolution_time: number // hours
+}
+
+export interface SLAEvaluationInput {
+  ticket: {
+    status: string
+    created_at: string
+    resolved_at?: string | null
+    closed_at?: string | null
+  }
+  rule: SLATargets
+  firstResponseAt: Date | null
+  calendar: BusinessCalendar | null
+  clockEvents: ClockEvent[]
+  now?: Date
+}
+
+export interface SLAEvaluation {
+  responseStatus: SLAState
+  resolutionStatus: SLAState
+  responseTimeElapsed: number
+  totalTimeElapsed: number
+  isActive: boolean
+  isPaused: boolean
+  pausedTime: number
+  responseDeadline: Date | null
+  resolutionDeadline: Date | null
+}
+
+/** Warning at 75% of the target, overdue past it */
+export function getSLAState(elapsed: number, target: number): 'ok' | 'warning' | 'overdue' {
+  if (elapsed > target) return 'overdue'
+  const percentage = (elapsed / target) * 100
+  if (percentage >= 75) return 'warning'
+  return 'ok'
+}
+
+export function evaluateSLA({ ticket, rule, firstResponseAt, calendar, clockEvents, now = new Date() }: SLAEvaluationInput): SLAEvaluation {
+  const created = new Date(ticket.created_at)
+  const isActive = !['resolved', 'closed'].includes(ticket.status)
+
+  // Stop the resolution clock when the ticket was resolved/closed
+  const stoppedAt = !isActive && (ticket.resolved_at || ticket.closed_at)
+    ? new Date((ticket.resolved_at || ticket.closed_at) as string)
+    : now
+
+  // Elapsed time in the business hours of the ticket's calendar, minus the
+  // time the clock spent paused (e.g. waiting on the requester)
+  const isPaused = isActive && isClockPaused(clockEvents)
+  const pausedTime = calculatePausedHours(clockEvents, created, stoppedAt, calendar)
+  const totalTimeElapsed = Math.max(0, calculateElapsedHours(created, stoppedAt, calendar) - pausedTime)
+  const responseTimeElapsed = firstResponseAt
+    ? Math.max(0,
+        calculateElapsedHours(created, firstResponseAt, calendar) -
+        calculatePausedHours(clockEvents, created, firstResponseAt, calendar)
+      )
+    : totalTimeElapsed
+
+  let responseStatus: SLAState
+  let resolutionStatus: SLAState
+
+  if (!isActive) {
+    responseStatus = firstResponseAt ? 'met' : 'overdue'
+    resolutionStatus = 'met'
+  } else if (isPaused) {
+    // Clock is paused: nothing can warn or breach until it resumes
+    responseStatus = firstResponseAt ? 'met' : 'stopped'
+    resolutionStatus = 'stopped'
+  } else {
+    responseStatus = firstResponseAt ? 'met' : getSLAState(responseTimeElapsed, rule.response_time)
+    resolutionStatus = getSLAState(totalTimeElapsed, rule.resolution_time)
+  }
+
+  return {
+    responseStatus,
+    resolutionStatus,
+    responseTimeElapsed,
+    totalTimeElapsed,
+    isActive,
+    isPaused,
+    pausedTime,
+    responseDeadline: isPaused ? null : addBusinessHours(created, rule.response_time + pausedTime, calendar),
+    resolutionDeadline: isPaused ? null : addBusinessHours(created, rule.resolution_time + pausedTime, calendar)
+  }
+}
@@ -0,0 +1,147 @@
+// Block Kit messages for Slack incoming webhooks, built from the webhook event
+// envelope ({ id, type, created_at, data }) queued by queue_webhook_event.
+
+export interface WebhookEventEnvelope {
+  id: string
+  type: string
+  created_at: string
+  data: Record<string, any>
+}
+
+export interface SlackMessage {
+  text: string // notification and fallback text
+  blocks: Array<Record<string, unknown>>
+}
+
+const PRIORITY_LABELS: Record<string, string> = {
+  urgent: ':red_circle: Urgent',
+  high: ':large_orange_circle: High',
+  medium: ':large_yellow_circle: Medium',
+  low: ':white_circle: Low'
+}
+
+const SLA_LABELS: Record<string, string> = {
+  breached: ':rotating_light: Breached',
+  at_risk: ':warning: At risk',
+  on_track: ':white_check_mark: On track'
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  open: 'Open',
+  pending: 'Pending',
+  in_progress: 'In progress',
+  resolved: 'Resolved',
+  closed: 'Closed'
+}
+
+/** Slack treats &, < and > as control characters in text */
+export const escapeSlackText = (value: unknown): string =>
+  String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value
+
+const label = (labels: Record<string, string>, value: unknown) =>
+  labels[String(value)] || escapeSlackText(value || '-')
+
+const ticketReference = (ticket: Record<string, any>) =>
+  ticket.ticket_number || `#${String(ticket.id).slice(-8)}`
+
+function describeEvent(event: WebhookEventEnvelope, reference: string): string {
+  const { data } = event
+  switch (event.type) {
+    case 'ticket.created':
+      return `:ticket: New ticket ${reference}`
+    case 'ticket.assigned':
+      return `:bust_in_silhouette: ${reference} assigned to ${escapeSlackText(data.assignee?.name || data.assignee?.email || 'an agent')}`
+    case 'ticket.status_changed':
+      return `:arrows_counterclockwise: ${reference} is now ${label(STATUS_LABELS, data.status)}`
+    case 'ticket.commented':
+      return data.comment?.is_internal
+        ? `:lock: Internal note on ${reference}`
+        : `:speech_balloon: New comment on ${reference}`
+    case 'sla.warning':
+      return `:warning: ${data.target === 'response' ? 'Response' : 'Resolution'} SLA at risk on ${reference}`
+    case 'sla.breach':
+      return `:rotating_light: ${data.target === 'response' ? 'Response' : 'Resolution'} SLA breached on ${reference}`
+    default:
+      return `${event.type} on ${reference}`
+  }
+}
+
+/**
+ * Format an event for Slack. `appUrl` is the help desk origin used for the
+ * link to /ticket/:id.
+ */
+export function buildSlackMessage(event: WebhookEventEnvelope, appUrl: string): SlackMessage {
+  if (event.type === 'webhook.test') {
+    const message = escapeSlackText(event.data.message || 'Test message')
+    return {
+      text: message,
+      blocks: [
+        { type: 'section', text: { type: 'mrkdwn', text: `:test_tube: ${message}` } },
+        {
+          type: 'context',
+          elements: [{
+            type: 'mrkdwn',
+            text: `Test message${event.data.sent_by?.name ? ` from ${escapeSlackText(event.data.sent_by.name)}` : ''}`
+          }]
+        }
+      ]
+    }
+  }
+
+  const ticket = event.data.ticket || {}
+  const reference = escapeSlackText(ticketReference(ticket))
+  const summary = describeEvent(event, reference)
+  const link = `${appUrl.replace(/\/$/, '')}/ticket/${ticket.id}`
+
+  // SLA events describe the state they announce; other events show the last known state
+  const slaState = event.type === 'sla.breach'
+    ? 'breached'
+    : event.type === 'sla.warning' ? 'at_risk' : event.data.sla_state?.state
+
+  const fields = [
+    { type: 'mrkdwn', text: `*Priority*\n${label(PRIORITY_LABELS, ticket.priority)}` },
+    { type: 'mrkdwn', text: `*Status*\n${label(STATUS_LABELS, ticket.status)}` },
+    { type: 'mrkdwn', text: `*SLA*\n${slaState ? label(SLA_LABELS, slaState) : '-'}` },
+    { type: 'mrkdwn', text: `*Category*\n${escapeSlackText(event.data.category?.name || '-')}` }
+  ]
+
+  const blocks: Array<Record<string, unknown>> = [
+    { type: 'section', text: { type: 'mrkdwn', text: summary } },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*<${link}|${escapeSlackText(truncate(ticket.title || 'Untitled ticket', 150))}>*` },
+      fields
+    }
+  ]
+
+  if (event.type === 'ticket.commented' && event.data.comment?.content) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: `>${escapeSlackText(truncate(event.data.comment.content, 500)).replace(/\n/g, '\n>')}` }
+    })
+  }
+
+  blocks.push({
+    type: 'actions',
+    elements: [{
+      type: 'button',
+      text: { type: 'plain_text', text: 'Open ticket' },
+      url: link
+    }]
+  })
+
+  const author = event.data.comment?.author?.name
+  blocks.push({
+    type: 'context',
+    elements: [{
+      type: 'mrkdwn',
+      text: `<!date^${Math.floor(new Date(event.created_at).getTime() / 1000)}^{date_short_pretty} {time}|${event.created_at}>`
+        + (author ? ` · ${escapeSlackText(author)}` : '')
+    }]
+  })
+
+  return { text: `${summary}: ${escapeSlackText(truncate(ticket.title || '', 150))}`, blocks }
+}
@@ -0,0 +1,144 @@
+// Routing a ticket to a team: the least loaded on-duty member, and the team's
+// default queue. Shared by assignment rules in the app and the escalations job.
+
+import { loadAvailability, type AgentAvailability } from './agentAvailability.ts'
+import type { JobClient } from './scheduledJobs.ts'
+
+export type TeamRole = 'member' | 'lead'
+
+export interface TeamMember {
+  team_id: string
+  user_id: string
+  role: TeamRole
+  created_at?: string
+  user?: { full_name: string | null; email: string; role: string } | null
+}
+
+export interface TicketQueue {
+  id: string
+  team_id: string
+  name: string
+  description?: string | null
+  is_default: boolean
+  sort_order: number
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+  team?: { name: string; slug: string } | null
+}
+
+export interface Team {
+  id: string
+  name: string
+  slug: string
+  description?: string | null
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+  members: TeamMember[]
+  queues: TicketQueue[]
+}
+
+/**
+ * Where team routing sends a ticket: the least loaded on-duty member, and the
+ * team's default queue (also used on its own when nobody is on duty)
+ */
+export interface TeamRoutingResult {
+  team: Team
+  agent?: { id: string; name: string }
+  queue?: TicketQueue
+}
+
+export const ACTIVE_TICKET_STATUSES = ['open', 'in_progress']
+
+/**
+ * The on-duty member with the fewest active tickets. Members without
+ * availability data are treated as on duty, like elsewhere in routing.
+ */
+export function pickTeamAgent(
+  members: TeamMember[],
+  availability: Record<string, AgentAvailability>,
+  workloads: Record<string, number>
+): TeamMember | undefined {
+  return members
+    .filter(member => member.user?.role !== 'user')
+    .filter(member => {
+      const status = availability[member.user_id]
+      return !status || (status.onShift && !status.outOfOffice && status.status !== 'offline')
+    })
+    .sort((a, b) =>
+      (workloads[a.user_id] ?? 0) - (workloads[b.user_id] ?? 0) ||
+      (a.role === b.role ? 0 : a.role === 'lead' ? 1 : -1) // leads take new work last
+    )[0]
+}
+
+/**
+ * All teams with their members and queues, by name
+ */
+export async function loadTeams(client: JobClient): Promise<Team[]> {
+  const { data, error } = await client
+    .from('teams')
+    .select(`
+      *,
+      members:team_members(team_id, user_id, role, created_at, user:users(full_name, email, role)),
+      queues:ticket_queues(*)
+    `)
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching teams:', error)
+    throw error
+  }
+
+  return (data || []).map((team: Team) => ({
+    ...team,
+    members: team.members || [],
+    queues: (team.queues || []).sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name))
+  }))
+}
+
+/**
+ * A team by id or slug
+ */
+export function findTeam(teams: Team[], ref: string): Team | null {
+  return teams.find(team => team.id === ref || team.slug === ref) || null
+}
+
+/**
+ * Pick the agent and queue for a ticket routed to an active team. Excluded
+ * agents are never picked, e.g. the current assignee when a ticket is
+ * escalated away from them.
+ */
+export async function routeWithinTeam(
+  client: JobClient,
+  team: Team,
+  options: { excludeAgentIds?: string[]; now?: Date } = {}
+): Promise<TeamRoutingResult> {
+  const queue = team.queues.find(candidate => candidate.is_default && candidate.is_active)
+  const candidates = team.members.filter(member => !options.excludeAgentIds?.includes(member.user_id))
+  const memberIds = candidates.map(member => member.user_id)
+  if (memberIds.length === 0) return { team, queue }
+
+  const [availability, workloadResult] = await Promise.all([
+    loadAvailability(client, memberIds, options.now),
+    client.from('tickets_new').select('assigned_to').in('assigned_to', memberIds).in('status', ACTIVE_TICKET_STATUSES)
+  ])
+
+  if (workloadResult.error) {
+    console.error('Error fetching team workload:', workloadResult.error)
+    throw workloadResult.error
+  }
+
+  const workloads: Record<string, number> = {}
+  for (const ticket of workloadResult.data || []) {
+    workloads[ticket.assigned_to] = (workloads[ticket.assigned_to] ?? 0) + 1
+  }
+
+  const member = pickTeamAgent(candidates, availability, workloads)
+
+  return {
+    team,
+    queue,
+    agent: member ? { id: member.user_id, name: member.user?.full_name || member.user?.email || 'Unknown' } : undefined
+  }
+}
@@ -0,0 +1,101 @@
+// Ticket comments written outside the app (email replies). Mirrors the rules
+// of DatabaseService.canAddComment and the side effects of
+// DatabaseService.addTicketComment: first response logging for the SLA and
+// comment notifications for the requester and the assignee.
+
+import type { JobClient } from './scheduledJobs.ts'
+
+export interface CommentTicket {
+  id: string
+  ticket_number: string | null
+  title: string
+  status: string
+  user_id: string
+  assigned_to: string | null
+}
+
+export interface CommentAuthor {
+  id: string
+  role: string
+}
+
+/**
+ * Closed tickets take no comments; agents and admins may comment on any
+ * other ticket, users only on their own
+ */
+export function canAddComment(ticket: Pick<CommentTicket, 'status' | 'user_id'>, user: CommentAuthor): boolean {
+  if (ticket.status === 'closed') return false
+  if (user.role === 'admin' || user.role === 'agent') return true
+  return user.role === 'user' && ticket.user_id === user.id
+}
+
+const template = (key: string, params: Record<string, string>) => JSON.stringify({ key, params })
+
+async function logFirstResponse(client: JobClient, ticket: CommentTicket, author: CommentAuthor, at: string) {
+  const { data: existing } = await client
+    .from('ticket_activity_logs')
+    .select('id')
+    .eq('ticket_id', ticket.id)
+    .eq('action_type', 'first_response')
+    .limit(1)
+  if (existing?.length) return
+
+  const { error } = await client.rpc('log_ticket_activity', {
+    p_ticket_id: ticket.id,
+    p_user_id: author.id,
+    p_action_type: 'first_response',
+    p_field_name: 'sla_first_response',
+    p_old_value: null,
+    p_new_value: at,
+    p_description: 'First agent response for SLA tracking',
+    p_metadata: { first_response_at: at, logged_by_system: true, sla_tracking: true }
+  })
+  if (error) console.error('❌ Failed to log first response (non-blocking):', error)
+}
+
+export async function addTicketComment(
+  client: JobClient,
+  input: { ticket: CommentTicket; author: CommentAuthor; content: string; isInternal?: boolean; now: Date }
+): Promise<{ id: string }> {
+  const { ticket, author, content, isInternal = false, now } = input
+  const createdAt = now.toISOString()
+
+  const { data: comment, error } = await client
+    .from('ticket_comments_new')
+    .insert({
+      ticket_id: ticket.id,
+      user_id: author.id,
+      content,
+      is_internal: isInternal,
+      created_at: createdAt
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+
+  if (['agent', 'admin'].includes(author.role) && author.id !== ticket.user_id && ['open', 'in_progress'].includes(ticket.status)) {
+    await logFirstResponse(client, ticket, author, createdAt)
+  }
+
+  if (!isInternal) {
+    const recipients = [ticket.user_id, ticket.assigned_to].filter(
+      (userId): userId is string => !!userId && userId !== author.id
+    )
+    if (recipients.length > 0) {
+      const ticketNumber = ticket.ticket_number || '#' + ticket.id.slice(-8)
+      const { error: notifyError } = await client.from('notifications').insert(recipients.map(userId => ({
+        user_id: userId,
+        type: 'comment_added',
+        title: template('notifications.types.comment_added.title', { ticketNumber }),
+        message: template('notifications.types.comment_added.message', { ticketTitle: ticket.title }),
+        priority: 'medium',
+        ticket_id: ticket.id,
+        read: false
+      })))
+      if (notifyError) console.error('❌ Failed to create comment notifications (non-blocking):', notifyError)
+    }
+  }
+
+  return { id: comment.id }
+}
@@ -0,0 +1,60 @@
+// Wall-clock helpers for IANA timezones, built on Intl so DST changes are
+// followed without shipping a timezone database. Shared by the app and the
+// edge functions, so only web platform APIs are used here.
+
+export interface LocalParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  weekday?: number // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Local date and time of `date` in `timezone` */
+export function getLocalParts(date: Date, timezone: string): LocalParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(date)
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: WEEKDAYS.indexOf(get('weekday') || '')
+  }
+}
+
+function getTimezoneOffset(utcMs: number, timezone: string): number {
+  const local = getLocalParts(new Date(utcMs), timezone)
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute)
+  return asUtc - Math.floor(utcMs / 60000) * 60000
+}
+
+/** UTC epoch ms of a local wall-clock time in `timezone` */
+export function zonedTimeToUtc(local: LocalParts, timezone: string): number {
+  const guess = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute)
+  const offset = getTimezoneOffset(guess - getTimezoneOffset(guess, timezone), timezone)
+  return guess - offset
+}
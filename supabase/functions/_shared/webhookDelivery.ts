@@ -0,0 +1,125 @@
+// Signing and sending of outbound webhooks. Only uses web platform APIs so the
+// same code runs in the dispatch-webhooks edge function and in Node tests.
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature'
+export const EVENT_HEADER = 'X-Webhook-Event'
+export const DELIVERY_HEADER = 'X-Webhook-Delivery'
+
+// Wait before attempt 2, 3, ...; a delivery gets RETRY_DELAYS_MINUTES.length + 1 attempts
+export const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720]
+
+const MAX_RESPONSE_BODY = 2000
+
+export interface WebhookRequest {
+  deliveryId: string
+  eventType: string
+  url: string
+  secret: string
+  payload: unknown
+}
+
+export interface WebhookAttempt {
+  ok: boolean
+  status: number | null
+  body: string | null
+  error: string | null
+  durationMs: number
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+
+/** Hex HMAC-SHA256 of `${timestamp}.${body}` */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`)))
+}
+
+/**
+ * Check a `t=<unix seconds>,v1=<hex>` signature header the way a receiver
+ * should: recompute the HMAC over the raw body and reject stale timestamps.
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  toleranceSeconds = 300,
+  now: Date = new Date()
+): Promise<boolean> {
+  const parts = Object.fromEntries((header || '').split(',').map(part => part.split('=') as [string, string]))
+  const timestamp = Number(parts.t)
+  if (!timestamp || !parts.v1) return false
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) return false
+
+  const expected = await signWebhookPayload(secret, timestamp, body)
+  // Constant-time comparison
+  let diff = expected.length ^ parts.v1.length
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ (parts.v1.charCodeAt(i) || 0)
+  }
+  return diff === 0
+}
+
+/** Delay before the next attempt after `attempts` failures, or null when out of attempts */
+export function getRetryDelayMs(attempts: number, maxAttempts: number = RETRY_DELAYS_MINUTES.length + 1): number | null {
+  if (attempts >= maxAttempts) return null
+  const minutes = RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1]
+  return minutes === undefined ? null : minutes * 60 * 1000
+}
+
+/** POST one signed delivery. Any 2xx counts as delivered; never throws. */
+export async function sendWebhook(
+  request: WebhookRequest,
+  options: { timeoutMs?: number; now?: Date } = {}
+): Promise<WebhookAttempt> {
+  const body = JSON.stringify(request.payload)
+  const timestamp = Math.floor((options.now ?? new Date()).getTime() / 1000)
+  const signature = await signWebhookPayload(request.secret, timestamp, body)
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? 10000)
+  const started = Date.now()
+
+  try {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'AnalytiChem-Webhooks/1.0',
+        [EVENT_HEADER]: request.eventType,
+        [DELIVERY_HEADER]: request.deliveryId,
+        [SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}`
+      },
+      body,
+      signal: controller.signal,
+      redirect: 'manual'
+    })
+    const text = (await response.text()).slice(0, MAX_RESPONSE_BODY)
+
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      body: text,
+      error: response.ok ? null : `Endpoint responded with HTTP ${response.status}`,
+      durationMs: Date.now() - started
+    }
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: controller.signal.aborted
+        ? 'Timed out waiting for the endpoint'
+        : error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - started
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
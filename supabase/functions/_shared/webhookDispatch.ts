@@ -0,0 +1,111 @@
+// Sends queued and retrying webhook deliveries. Run every minute by the
+// webhook_dispatch scheduled job, and by the dispatch-webhooks function when
+// an admin sends a test or replays a delivery.
+
+import type { JobClient, JobContext, JobResult } from './scheduledJobs.ts'
+import { buildSlackMessage, type WebhookEventEnvelope } from './slackMessage.ts'
+import { getRetryDelayMs, sendWebhook } from './webhookDelivery.ts'
+
+// Row returned by the claim_webhook_deliveries RPC
+export interface ClaimedDelivery {
+  delivery_id: string
+  endpoint_id: string
+  url: string
+  secret: string
+  format: 'json' | 'slack'
+  event_type: string
+  payload: unknown
+  attempts: number
+  max_attempts: number
+}
+
+export interface WebhookDispatchResult {
+  processed: number
+  succeeded: number
+  retrying: number
+  failed: number
+}
+
+export interface WebhookDispatchOptions {
+  appUrl: string // Slack messages link back to the help desk
+  limit?: number
+  deliveryId?: string // send this delivery now, whether or not it is due
+}
+
+/**
+ * Claim due deliveries, send them and record each attempt. A failed attempt
+ * is retried with backoff until the endpoint's max attempts are used up.
+ */
+export async function dispatchWebhookDeliveries(
+  client: JobClient,
+  { appUrl, limit, deliveryId }: WebhookDispatchOptions
+): Promise<WebhookDispatchResult> {
+  const { data: claimed, error: claimError } = await client.rpc('claim_webhook_deliveries', {
+    p_limit: Math.min(Math.max(limit || 20, 1), 50),
+    p_delivery_id: deliveryId || null
+  })
+
+  if (claimError) {
+    console.error('❌ Error claiming webhook deliveries:', claimError)
+    throw claimError
+  }
+
+  const result = { processed: 0, succeeded: 0, retrying: 0, failed: 0 }
+
+  for (const delivery of (claimed || []) as ClaimedDelivery[]) {
+    const attempt = await sendWebhook({
+      deliveryId: delivery.delivery_id,
+      eventType: delivery.event_type,
+      url: delivery.url,
+      secret: delivery.secret,
+      payload: delivery.format === 'slack'
+        ? buildSlackMessage(delivery.payload as WebhookEventEnvelope, appUrl)
+        : delivery.payload
+    })
+
+    const attempts = delivery.attempts + 1
+    const retryDelay = attempt.ok ? null : getRetryDelayMs(attempts, delivery.max_attempts)
+    const status = attempt.ok ? 'succeeded' : retryDelay === null ? 'failed' : 'pending'
+    const now = new Date()
+
+    const { error: updateError } = await client
+      .from('webhook_deliveries')
+      .update({
+        status,
+        attempts,
+        locked_at: null,
+        next_attempt_at: retryDelay === null ? null : new Date(now.getTime() + retryDelay).toISOString(),
+        response_status: attempt.status,
+        response_body: attempt.body,
+        error: attempt.error,
+        duration_ms: attempt.durationMs,
+        delivered_at: attempt.ok ? now.toISOString() : null
+      })
+      .eq('id', delivery.delivery_id)
+
+    if (updateError) {
+      console.error(`❌ Error recording webhook delivery ${delivery.delivery_id}:`, updateError)
+    }
+
+    await client
+      .from('webhook_endpoints')
+      .update({ last_delivery_at: now.toISOString(), last_delivery_status: status })
+      .eq('id', delivery.endpoint_id)
+
+    result.processed++
+    if (status === 'succeeded') result.succeeded++
+    else if (status === 'pending') result.retrying++
+    else result.failed++
+  }
+
+  return result
+}
+
+/**
+ * The webhook_dispatch job: sends what is due, a batch at a time. JSON
+ * webhooks do not need APP_URL, so they keep flowing without it; only the
+ * links in Slack messages are left relative.
+ */
+export async function dispatchWebhooks(client: JobClient, { webhooks }: JobContext): Promise<JobResult> {
+  return { ...await dispatchWebhookDeliveries(client, { appUrl: webhooks?.appUrl || '', limit: 50 }) }
+}
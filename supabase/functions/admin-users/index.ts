@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { renderStoredEmail } from '../_shared/emailTemplates.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -320,26 +321,20 @@ async function handleCreateUser(userData: CreateUserRequest, supabaseAdmin: any)
       console.log(`📧 Resend API key configured: ${resendApiKey ? 'Yes' : 'No'}`)
       
       if (resendApiKey && resendApiKey.startsWith('re_') && resendApiKey.length > 20) {
+        const appUrl = Deno.env.get('APP_URL') || 'https://acsticket-nolllpxx3-felipeanalytichems-projects.vercel.app'
+        const welcome = await renderStoredEmail(supabaseAdmin, 'user_invitation', {
+          userName: name,
+          userEmail: email,
+          registrationLink: appUrl,
+          temporaryPassword: tempPassword,
+          supportEmail: Deno.env.get('SUPPORT_EMAIL') || 'suporte@analytichem.com'
+        })
         const emailPayload = {
-          from: 'ACS Ticket System <onboarding@resend.dev>',
+          from: welcome.from,
           to: [email],
-          subject: 'Welcome to ACS Ticket System',
-          html: `
-            <h2>Welcome to ACS Ticket System!</h2>
-            <p>Hello <strong>${name}</strong>,</p>
-            <p>Your account has been created successfully.</p>
-            <p><strong>Login Details:</strong></p>
-            <ul>
-              <li>Email: ${email}</li>
-              <li>Temporary Password: <code>${tempPassword}</code></li>
-              <li>Role: ${role}</li>
-            </ul>
-            <p>Please log in and change your password on first access.</p>
-            <p><a href="https://acsticket-nolllpxx3-felipeanalytichems-projects.vercel.app">Access the system</a></p>
-            <br/>
-            <p>Best regards,<br/>ACS Ticket System</p>
-          `,
-          text: `Welcome to ACS Ticket System!\n\nHello ${name},\n\nYour account has been created successfully.\n\nLogin Details:\n- Email: ${email}\n- Temporary Password: ${tempPassword}\n- Role: ${role}\n\nPlease log in and change your password on first access.\n\nBest regards,\nACS Ticket System`
+          subject: welcome.subject,
+          html: welcome.html,
+          text: welcome.text
         }
 
         const resendResponse = await fetch('https://api.resend.com/emails', {
@@ -0,0 +1,129 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  satisfactionFromRating,
+  validateSurveyAnswer,
+  verifySurveyToken,
+  type SurveyAnswer
+} from '../_shared/csatSurvey.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// The emailed link is the only credential: no user session is needed
+interface SurveyRequest {
+  token: string;
+  action?: 'load' | 'submit';
+  answer?: SurveyAnswer;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const signingSecret = Deno.env.get('CSAT_SIGNING_SECRET')
+
+    if (!supabaseUrl || !supabaseServiceKey || !signingSecret) {
+      console.error('❌ Missing Supabase or survey signing environment variables')
+      return jsonResponse({ error: 'Server configuration error' }, 500)
+    }
+
+    const { token, action = 'load', answer }: SurveyRequest = await req.json().catch(() => ({}))
+
+    const check = await verifySurveyToken(signingSecret, token, new Date())
+    // Link problems are an answer for the survey page to show, not a failure
+    if (!check.valid) {
+      return jsonResponse({ status: check.reason })
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    })
+
+    const { data: survey, error: surveyError } = await supabaseAdmin
+      .from('csat_surveys')
+      .select(`
+        id, ticket_id, user_id, status,
+        ticket:tickets_new(ticket_number, title, assigned_to,
+          assignee:users!tickets_new_assigned_to_fkey(full_name))
+      `)
+      .eq('id', check.surveyId)
+      .single()
+
+    if (surveyError || !survey || survey.status === 'cancelled') {
+      return jsonResponse({ status: 'invalid' })
+    }
+
+    const details = {
+      ticketNumber: survey.ticket?.ticket_number || null,
+      ticketTitle: survey.ticket?.title || null,
+      agentName: survey.ticket?.assignee?.full_name || null,
+      expiresAt: check.expiresAt.toISOString()
+    }
+
+    if (survey.status === 'answered') {
+      return jsonResponse({ status: 'answered', ...details })
+    }
+    if (action === 'load') {
+      return jsonResponse({ status: 'open', ...details })
+    }
+
+    const validationError = answer ? validateSurveyAnswer(answer) : 'Missing answer'
+    if (validationError) {
+      return jsonResponse({ error: validationError }, 400)
+    }
+
+    const { error: feedbackError } = await supabaseAdmin
+      .from('ticket_feedback')
+      .insert({
+        ticket_id: survey.ticket_id,
+        user_id: survey.user_id,
+        rating: answer!.rating,
+        satisfaction: satisfactionFromRating(answer!.rating),
+        nps_score: answer!.nps_score ?? null,
+        comment: answer!.comment?.trim() || null,
+        agent_name: details.agentName,
+        source: 'email_survey',
+        survey_id: survey.id
+      })
+
+    // One rating per ticket and requester: they already answered in the app
+    if (feedbackError?.code === '23505') {
+      await supabaseAdmin.from('csat_surveys').update({ status: 'answered' }).eq('id', survey.id)
+      return jsonResponse({ status: 'answered', ...details })
+    }
+    if (feedbackError) {
+      console.error('❌ Error storing survey answer:', feedbackError)
+      return jsonResponse({ error: 'Could not store your answer' }, 500)
+    }
+
+    const respondedAt = new Date().toISOString()
+    await supabaseAdmin
+      .from('csat_surveys')
+      .update({ status: 'answered', responded_at: respondedAt })
+      .eq('id', survey.id)
+    await supabaseAdmin
+      .from('tickets_new')
+      .update({ feedback_received: true })
+      .eq('id', survey.ticket_id)
+
+    console.log(`⭐ Survey answered for ticket ${survey.ticket_id}: ${answer!.rating}/5`)
+    return jsonResponse({ status: 'answered', ...details })
+  } catch (error) {
+    console.error('❌ Unexpected error handling survey:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
@@ -0,0 +1,82 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { dispatchWebhookDeliveries } from '../_shared/webhookDispatch.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface DispatchRequest {
+  deliveryId?: string; // send this delivery now (tests and replays)
+  limit?: number;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    // Slack messages link back to the help desk; never to a caller-supplied origin
+    const appUrl = Deno.env.get('APP_URL')
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey || !appUrl) {
+      console.error('❌ Missing Supabase or APP_URL environment variables')
+      return jsonResponse({ error: 'Server configuration error' }, 500)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    })
+
+    // Tests and replays send one delivery right away; the webhook_dispatch job
+    // sends the rest. Only the service role and admins, who manage the
+    // endpoints, may call this.
+    const authorization = req.headers.get('Authorization') || ''
+    if (authorization !== `Bearer ${supabaseServiceKey}`) {
+      const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+        auth: { autoRefreshToken: false, persistSession: false },
+        global: { headers: { Authorization: authorization } }
+      })
+      const { data: { user }, error: authError } = await supabaseAuth.auth.getUser()
+      if (authError || !user) {
+        return jsonResponse({ error: 'Authentication required' }, 401)
+      }
+
+      const { data: profile } = await supabaseAdmin
+        .from('users')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      if (profile?.role !== 'admin') {
+        return jsonResponse({ error: 'Only admins can dispatch webhooks' }, 403)
+      }
+    }
+
+    const { deliveryId, limit }: DispatchRequest = await req.json().catch(() => ({}))
+
+    const result = await dispatchWebhookDeliveries(supabaseAdmin, { appUrl, limit, deliveryId })
+
+    if (result.processed > 0) {
+      console.log(`📤 Webhooks: ${result.succeeded} delivered, ${result.retrying} to retry, ${result.failed} failed`)
+    }
+
+    return jsonResponse({ success: true, ...result })
+  } catch (error) {
+    console.error('❌ Unexpected error dispatching webhooks:', error)
+    const message = error instanceof Error ? error.message : (error as { message?: string })?.message
+    return jsonResponse({ error: message || 'Unknown error' }, 500)
+  }
+})
@@ -0,0 +1,92 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { isInboundSecretValid, processInboundEmail } from '../_shared/inboundEmail.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-inbound-secret',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+// The raw MIME message, however the mail provider posts it: as the request
+// body, as JSON { raw }, or as a form field (SendGrid `email`, Mailgun `body-mime`)
+async function readRawMessage(req: Request): Promise<string | Uint8Array | null> {
+  const contentType = req.headers.get('content-type') || ''
+
+  if (contentType.includes('multipart/form-data') || contentType.includes('application/x-www-form-urlencoded')) {
+    const form = await req.formData()
+    const field = form.get('email') || form.get('body-mime') || form.get('raw')
+    if (!field) return null
+    return typeof field === 'string' ? field : new Uint8Array(await field.arrayBuffer())
+  }
+
+  if (contentType.includes('application/json')) {
+    const { raw } = await req.json().catch(() => ({}))
+    return typeof raw === 'string' ? raw : null
+  }
+
+  const body = new Uint8Array(await req.arrayBuffer())
+  return body.length ? body : null
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const inboundSecret = Deno.env.get('INBOUND_EMAIL_SECRET')
+
+    if (!supabaseUrl || !supabaseServiceKey || !inboundSecret) {
+      console.error('❌ Missing Supabase or inbound email environment variables')
+      return jsonResponse({ error: 'Server configuration error' }, 500)
+    }
+
+    // Mail providers cannot sign in: they present the shared secret in a
+    // header. Never in the URL, where it would end up in access logs.
+    if (!isInboundSecretValid(req.headers.get('x-inbound-secret'), inboundSecret)) {
+      return jsonResponse({ error: 'Invalid inbound email secret' }, 401)
+    }
+
+    const raw = await readRawMessage(req)
+    if (!raw) {
+      return jsonResponse({ error: 'Missing raw MIME message' }, 400)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    })
+
+    const result = await processInboundEmail(supabaseAdmin, raw, {
+      now: new Date(),
+      uploadAttachment: async (path, content, contentType) => {
+        const { error } = await supabaseAdmin.storage
+          .from('ticket-attachments')
+          .upload(path, content, { contentType, upsert: false })
+        if (error) throw error
+      },
+      // Through the send-email function, so every email goes out the same way
+      sendEmail: async (email) => {
+        const { data, error } = await supabaseAdmin.functions.invoke('send-email', { body: email })
+        if (error) throw error
+        if (!data?.success) throw new Error(data?.error || 'Email was not sent')
+      }
+    })
+
+    console.log(`📨 Inbound email ${result.status}${result.ticketNumber ? ` (${result.ticketNumber})` : ''}${result.reason ? `: ${result.reason}` : ''}`)
+
+    // Rejections are answered with 200 too, so the provider does not retry them
+    return jsonResponse({ success: result.status !== 'rejected', ...result })
+  } catch (error) {
+    console.error('❌ Unexpected error processing inbound email:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
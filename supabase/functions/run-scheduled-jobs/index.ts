@@ -0,0 +1,168 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { ReportLibraries } from '../_shared/reportExport.ts'
+import { scheduledJobs, type OutgoingEmail } from '../_shared/scheduledJobs.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface RunRequest {
+  job?: string; // run this job now, whether or not it is due (admins only)
+}
+
+interface JobOutcome {
+  job: string;
+  runId: string | null; // null when the job was locked, disabled or not due
+  status: 'succeeded' | 'failed' | 'skipped';
+  result?: Record<string, number>;
+  error?: string;
+}
+
+// Only loaded when a scheduled report needs a spreadsheet or PDF
+const reportLibraries: ReportLibraries = {
+  excel: async () => (await import('https://esm.sh/exceljs@4.4.0')).default,
+  pdf: async () => {
+    const [{ jsPDF }, { autoTable }] = await Promise.all([
+      import('https://esm.sh/jspdf@4.2.1'),
+      import('https://esm.sh/jspdf-autotable@5.0.8')
+    ])
+    return { jsPDF, autoTable }
+  }
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      console.error('❌ Missing Supabase environment variables')
+      return jsonResponse({ error: 'Server configuration error' }, 500)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    })
+
+    const { job }: RunRequest = await req.json().catch(() => ({}))
+    const authorization = req.headers.get('Authorization') || ''
+
+    // pg_cron calls with the service role key and runs whatever is due;
+    // admins call with their session to run one job right away
+    let triggeredBy: string | null = null
+    if (authorization !== `Bearer ${supabaseServiceKey}`) {
+      const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+        auth: { autoRefreshToken: false, persistSession: false },
+        global: { headers: { Authorization: authorization } }
+      })
+      const { data: { user }, error: authError } = await supabaseAuth.auth.getUser()
+      if (authError || !user) {
+        return jsonResponse({ error: 'Authentication required' }, 401)
+      }
+
+      const { data: profile } = await supabaseAdmin
+        .from('users')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      if (profile?.role !== 'admin') {
+        return jsonResponse({ error: 'Only admins can run scheduled jobs' }, 403)
+      }
+      if (!job) {
+        return jsonResponse({ error: 'Missing job' }, 400)
+      }
+      triggeredBy = user.id
+    }
+
+    if (job && !scheduledJobs[job]) {
+      return jsonResponse({ error: `Unknown job ${job}` }, 400)
+    }
+
+    const manual = !!job
+    const keys = job ? [job] : Object.keys(scheduledJobs)
+    const timezone = Deno.env.get('APP_TIMEZONE') || 'UTC'
+    const signingSecret = Deno.env.get('CSAT_SIGNING_SECRET')
+    const appUrl = Deno.env.get('APP_URL')
+    const csat = signingSecret && appUrl ? { signingSecret, appUrl } : undefined
+    const reports = appUrl ? { appUrl, libraries: reportLibraries } : undefined
+    const digests = appUrl ? { appUrl } : undefined
+    const webhooks = appUrl ? { appUrl } : undefined
+
+    // Through the send-email function, so every email goes out the same way
+    const sendEmail = async (email: OutgoingEmail) => {
+      const { data, error } = await supabaseAdmin.functions.invoke('send-email', { body: email })
+      if (error) throw error
+      if (!data?.success) throw new Error(data?.error || 'Email was not sent')
+    }
+    const outcomes: JobOutcome[] = []
+
+    for (const key of keys) {
+      const { data: runId, error: claimError } = await supabaseAdmin.rpc('claim_scheduled_job', {
+        p_job_key: key,
+        p_manual: manual,
+        p_triggered_by: triggeredBy
+      })
+
+      if (claimError) {
+        console.error(`❌ Error claiming scheduled job ${key}:`, claimError)
+        outcomes.push({ job: key, runId: null, status: 'failed', error: claimError.message })
+        continue
+      }
+      if (!runId) {
+        outcomes.push({ job: key, runId: null, status: 'skipped' })
+        continue
+      }
+
+      let outcome: JobOutcome
+      try {
+        const result = await scheduledJobs[key](supabaseAdmin, { now: new Date(), timezone, sendEmail, csat, reports, digests, webhooks })
+        outcome = { job: key, runId, status: 'succeeded', result }
+      } catch (error) {
+        console.error(`❌ Scheduled job ${key} failed:`, error)
+        outcome = {
+          job: key,
+          runId,
+          status: 'failed',
+          error: error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error'
+        }
+      }
+
+      const { error: finishError } = await supabaseAdmin.rpc('finish_scheduled_job', {
+        p_run_id: runId,
+        p_status: outcome.status,
+        p_result: outcome.result || {},
+        p_error: outcome.error || null
+      })
+      if (finishError) {
+        console.error(`❌ Error recording scheduled job run ${runId}:`, finishError)
+      }
+
+      outcomes.push(outcome)
+    }
+
+    const ran = outcomes.filter(outcome => outcome.runId)
+    if (ran.length > 0) {
+      console.log(`🕐 Scheduled jobs: ${ran.map(outcome => `${outcome.job} ${outcome.status}`).join(', ')}`)
+    }
+
+    return jsonResponse({ success: true, jobs: outcomes })
+  } catch (error) {
+    console.error('❌ Unexpected error running scheduled jobs:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
@@ -1,15 +1,37 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DEFAULT_EMAIL_SETTINGS, formatSender, loadEmailSettings, type EmailSettings } from '../_shared/emailTemplates.ts'
+import { replyAddress } from '../_shared/replyByEmail.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+interface EmailAttachment {
+  filename: string;
+  content: string; // base64
+}
+
 interface EmailRequest {
   to: string;
   subject: string;
   html: string;
   text?: string;
+  attachments?: EmailAttachment[];
+  replyToken?: string; // Replies go to the inbound gateway as comments
+}
+
+// The sender identity admins configure; the defaults when it cannot be read
+async function getSenderSettings(): Promise<EmailSettings> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!supabaseUrl || !supabaseServiceKey) return DEFAULT_EMAIL_SETTINGS
+
+  const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false }
+  })
+  return loadEmailSettings(supabaseAdmin)
 }
 
 serve(async (req) => {
@@ -22,7 +44,7 @@ serve(async (req) => {
     console.log('📧 Email function called')
     
     // Parse request body
-    const { to, subject, html, text }: EmailRequest = await req.json()
+    const { to, subject, html, text, attachments, replyToken }: EmailRequest = await req.json()
 
     // Validate required fields
     if (!to || !subject || !html) {
@@ -32,6 +54,13 @@ serve(async (req) => {
       )
     }
 
+    // Without an inbound domain there is nowhere to reply to
+    const inboundDomain = Deno.env.get('INBOUND_EMAIL_DOMAIN')
+    const settings = await getSenderSettings()
+    const replyTo = replyToken && inboundDomain
+      ? replyAddress(replyToken, inboundDomain)
+      : settings.reply_to_address || undefined
+
     // Get Resend API key
     const resendApiKey = Deno.env.get('RESEND_API_KEY')
     console.log(`📧 Resend API key found: ${resendApiKey ? 'Yes' : 'No'}`)
@@ -52,11 +81,13 @@ serve(async (req) => {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            from: 'ACS Ticket System <onboarding@resend.dev>',
+            from: formatSender(settings),
             to: [to],
             subject: subject,
             html: html,
-            text: text || html.replace(/<[^>]*>/g, '').trim()
+            text: text || html.replace(/<[^>]*>/g, '').trim(),
+            ...(attachments?.length ? { attachments } : {}),
+            ...(replyTo ? { reply_to: replyTo } : {})
           }),
         })
 
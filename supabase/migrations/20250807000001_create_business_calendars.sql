@@ -0,0 +1,97 @@
+-- Business-hour calendars with public holidays for SLA clocks
+
+CREATE TABLE IF NOT EXISTS business_calendars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  timezone VARCHAR(50) NOT NULL DEFAULT 'UTC',
+  region VARCHAR(100), -- matches tickets_new.country
+  team_id UUID,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS business_calendar_hours (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  calendar_id UUID NOT NULL REFERENCES business_calendars(id) ON DELETE CASCADE,
+  day_of_week INTEGER NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL DEFAULT '09:00',
+  end_time TIME NOT NULL DEFAULT '17:00',
+  is_working_day BOOLEAN NOT NULL DEFAULT true,
+  UNIQUE(calendar_id, day_of_week)
+);
+
+CREATE TABLE IF NOT EXISTS business_calendar_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  calendar_id UUID NOT NULL REFERENCES business_calendars(id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(calendar_id, holiday_date)
+);
+
+-- Only one default calendar
+CREATE UNIQUE INDEX IF NOT EXISTS idx_business_calendars_single_default
+  ON business_calendars(is_default) WHERE is_default;
+CREATE INDEX IF NOT EXISTS idx_business_calendars_region ON business_calendars(region);
+CREATE INDEX IF NOT EXISTS idx_business_calendar_hours_calendar_id ON business_calendar_hours(calendar_id);
+CREATE INDEX IF NOT EXISTS idx_business_calendar_holidays_calendar_id ON business_calendar_holidays(calendar_id, holiday_date);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE business_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE business_calendar_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE business_calendar_holidays ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in needs calendars to compute SLA clocks
+CREATE POLICY "Authenticated users can view business calendars"
+  ON business_calendars FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can view business calendar hours"
+  ON business_calendar_hours FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can view business calendar holidays"
+  ON business_calendar_holidays FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+-- Only admins manage calendars
+CREATE POLICY "Admins can manage business calendars"
+  ON business_calendars FOR ALL
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY "Admins can manage business calendar hours"
+  ON business_calendar_hours FOR ALL
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY "Admins can manage business calendar holidays"
+  ON business_calendar_holidays FOR ALL
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Seed a default Mon-Fri 09:00-17:00 calendar from the legacy business_hours table when present
+DO $$
+DECLARE
+  v_calendar_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM business_calendars) THEN
+    INSERT INTO business_calendars (name, description, timezone, is_default)
+    VALUES ('Default', 'Standard office hours', 'UTC', true)
+    RETURNING id INTO v_calendar_id;
+
+    INSERT INTO business_calendar_hours (calendar_id, day_of_week, start_time, end_time, is_working_day)
+    SELECT v_calendar_id, d, '09:00', '17:00', d BETWEEN 1 AND 5
+    FROM generate_series(0, 6) AS d;
+
+    IF to_regclass('public.business_hours') IS NOT NULL THEN
+      UPDATE business_calendar_hours bch
+      SET start_time = bh.start_time,
+          end_time = bh.end_time,
+          is_working_day = bh.is_working_day
+      FROM business_hours bh
+      WHERE bch.calendar_id = v_calendar_id
+      AND bch.day_of_week = bh.day_of_week;
+    END IF;
+  END IF;
+END $$;
@@ -0,0 +1,119 @@
+-- SLA clock pause/resume on configurable status transitions, with per-ticket event history
+
+-- Which ticket statuses pause the SLA clock (single-row settings table)
+CREATE TABLE IF NOT EXISTS sla_clock_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  pause_statuses TEXT[] NOT NULL DEFAULT ARRAY['pending'],
+  updated_by UUID REFERENCES users(id),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO sla_clock_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS sla_clock_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES tickets_new(id) ON DELETE CASCADE,
+  event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('started', 'paused', 'resumed', 'stopped')),
+  from_status VARCHAR(50),
+  to_status VARCHAR(50),
+  reason TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sla_clock_events_ticket ON sla_clock_events(ticket_id, occurred_at);
+
+-- Record clock events whenever a ticket changes status
+CREATE OR REPLACE FUNCTION record_sla_clock_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_pause_statuses TEXT[];
+  v_stop_statuses TEXT[] := ARRAY['resolved', 'closed'];
+  v_old_paused BOOLEAN;
+  v_new_paused BOOLEAN;
+  v_old_stopped BOOLEAN;
+  v_new_stopped BOOLEAN;
+  v_event VARCHAR(20);
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT pause_statuses INTO v_pause_statuses FROM sla_clock_settings WHERE id;
+  v_pause_statuses := COALESCE(v_pause_statuses, ARRAY['pending']);
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO sla_clock_events (ticket_id, event_type, to_status, created_by, occurred_at)
+    VALUES (NEW.id, 'started', NEW.status::TEXT, auth.uid(), COALESCE(NEW.created_at, NOW()));
+
+    -- A ticket created in a pause status (e.g. logged on behalf of a requester
+    -- who still owes details) starts with its clock paused
+    IF NEW.status::TEXT = ANY(v_pause_statuses) THEN
+      INSERT INTO sla_clock_events (ticket_id, event_type, to_status, created_by, occurred_at)
+      VALUES (NEW.id, 'paused', NEW.status::TEXT, auth.uid(), COALESCE(NEW.created_at, NOW()));
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  v_old_paused := OLD.status::TEXT = ANY(v_pause_statuses);
+  v_new_paused := NEW.status::TEXT = ANY(v_pause_statuses);
+  v_old_stopped := OLD.status::TEXT = ANY(v_stop_statuses);
+  v_new_stopped := NEW.status::TEXT = ANY(v_stop_statuses);
+
+  IF v_new_stopped AND NOT v_old_stopped THEN
+    v_event := 'stopped';
+  ELSIF v_new_paused AND (v_old_stopped OR NOT v_old_paused) THEN
+    v_event := 'paused';
+  ELSIF NOT v_new_paused AND NOT v_new_stopped AND (v_old_paused OR v_old_stopped) THEN
+    v_event := 'resumed';
+  END IF;
+
+  IF v_event IS NOT NULL THEN
+    INSERT INTO sla_clock_events (ticket_id, event_type, from_status, to_status, created_by)
+    VALUES (NEW.id, v_event, OLD.status::TEXT, NEW.status::TEXT, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_sla_clock_event ON tickets_new;
+CREATE TRIGGER trigger_record_sla_clock_event
+  AFTER INSERT OR UPDATE OF status ON tickets_new
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sla_clock_event();
+
+-- Backfill: tickets currently waiting on the requester start out paused
+INSERT INTO sla_clock_events (ticket_id, event_type, to_status, reason, occurred_at)
+SELECT t.id, 'paused', t.status::TEXT, 'Backfilled at migration', COALESCE(t.updated_at, t.created_at)
+FROM tickets_new t
+WHERE t.status::TEXT = 'pending'
+AND NOT EXISTS (SELECT 1 FROM sla_clock_events e WHERE e.ticket_id = t.id);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE sla_clock_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sla_clock_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view SLA clock settings"
+  ON sla_clock_settings FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update SLA clock settings"
+  ON sla_clock_settings FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Same visibility as the ticket itself
+CREATE POLICY "Users can view SLA clock events of visible tickets"
+  ON sla_clock_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM tickets_new t
+      WHERE t.id = sla_clock_events.ticket_id
+      AND (
+        t.user_id = auth.uid()
+        OR t.assigned_to = auth.uid()
+        OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin'))
+      )
+    )
+  );
@@ -0,0 +1,308 @@
+-- Batched and digest notification delivery
+-- Notifications whose type is set to 'batched' or 'digest' in the recipient's
+-- type_preferences are held back on insert and released by
+-- release_due_notifications() once their delivery time (in the recipient's
+-- timezone) has passed. Digest releases are also compiled into a summary email.
+
+-- Per-user delivery schedule
+ALTER TABLE notification_preferences
+ADD COLUMN IF NOT EXISTS digest_frequency VARCHAR(10) NOT NULL DEFAULT 'daily' CHECK (digest_frequency IN ('hourly', 'daily')),
+ADD COLUMN IF NOT EXISTS digest_hour SMALLINT NOT NULL DEFAULT 8 CHECK (digest_hour BETWEEN 0 AND 23),
+ADD COLUMN IF NOT EXISTS batch_window_minutes INTEGER NOT NULL DEFAULT 15 CHECK (batch_window_minutes BETWEEN 1 AND 1440);
+
+-- Held notifications, stored as the notifications row they will become
+CREATE TABLE IF NOT EXISTS held_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  delivery VARCHAR(10) NOT NULL CHECK (delivery IN ('batched', 'digest')),
+  notification JSONB NOT NULL,
+  deliver_after TIMESTAMP WITH TIME ZONE NOT NULL,
+  released_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_held_notifications_due ON held_notifications(deliver_after) WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_held_notifications_user ON held_notifications(user_id, delivery) WHERE released_at IS NULL;
+
+-- Next delivery time for a held notification, computed in the user's timezone
+CREATE OR REPLACE FUNCTION next_notification_delivery_time(p_user_id UUID, p_delivery VARCHAR)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  v_prefs notification_preferences;
+  v_timezone TEXT;
+  v_local TIMESTAMP;
+  v_next TIMESTAMP;
+  v_open_batch TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_prefs FROM notification_preferences WHERE user_id = p_user_id;
+
+  v_timezone := COALESCE(v_prefs.timezone, 'UTC');
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_timezone) THEN
+    v_timezone := 'UTC';
+  END IF;
+
+  IF p_delivery = 'batched' THEN
+    -- Join the batch that is already waiting, otherwise open a new window
+    SELECT MIN(deliver_after) INTO v_open_batch
+    FROM held_notifications
+    WHERE user_id = p_user_id AND delivery = 'batched' AND released_at IS NULL;
+
+    RETURN COALESCE(v_open_batch, NOW() + make_interval(mins => COALESCE(v_prefs.batch_window_minutes, 15)));
+  END IF;
+
+  v_local := NOW() AT TIME ZONE v_timezone;
+
+  IF COALESCE(v_prefs.digest_frequency, 'daily') = 'hourly' THEN
+    v_next := date_trunc('hour', v_local) + INTERVAL '1 hour';
+  ELSE
+    v_next := date_trunc('day', v_local) + make_interval(hours => COALESCE(v_prefs.digest_hour, 8));
+    IF v_next <= v_local THEN
+      v_next := v_next + INTERVAL '1 day';
+    END IF;
+  END IF;
+
+  RETURN v_next AT TIME ZONE v_timezone;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Divert batched/digest notifications into held_notifications.
+-- Released notifications come back with scheduled_for set and pass straight through.
+CREATE OR REPLACE FUNCTION hold_deferred_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_delivery TEXT;
+BEGIN
+  IF NEW.scheduled_for IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT np.type_preferences -> NEW.type::TEXT ->> 'delivery' INTO v_delivery
+  FROM notification_preferences np
+  WHERE np.user_id = NEW.user_id;
+
+  IF v_delivery IS NULL OR v_delivery NOT IN ('batched', 'digest') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO held_notifications (user_id, delivery, notification, deliver_after)
+  VALUES (NEW.user_id, v_delivery, to_jsonb(NEW), next_notification_delivery_time(NEW.user_id, v_delivery));
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_hold_deferred_notification ON notifications;
+CREATE TRIGGER trigger_hold_deferred_notification
+  BEFORE INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION hold_deferred_notification();
+
+-- Release every held notification that is due into the notifications table and
+-- return them with the recipient details needed to send digest emails.
+-- Only agents and admins run the release (from ScheduledTasks); other callers get nothing.
+CREATE OR REPLACE FUNCTION release_due_notifications(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (
+  held_id UUID,
+  user_id UUID,
+  delivery VARCHAR(10),
+  notification JSONB,
+  user_email TEXT,
+  user_name TEXT,
+  email_notifications BOOLEAN,
+  timezone VARCHAR(50),
+  language VARCHAR(5),
+  digest_frequency VARCHAR(10)
+) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT h.id
+    FROM held_notifications h
+    WHERE h.released_at IS NULL AND h.deliver_after <= NOW()
+    ORDER BY h.deliver_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  released AS (
+    UPDATE held_notifications h
+    SET released_at = NOW()
+    FROM due
+    WHERE h.id = due.id
+    RETURNING h.*
+  ),
+  -- Data-modifying CTEs always run to completion, even though nothing reads this one
+  inserted AS (
+    INSERT INTO notifications
+    SELECT (jsonb_populate_record(NULL::notifications, r.notification || jsonb_build_object('scheduled_for', r.deliver_after))).*
+    FROM released r
+  )
+  SELECT
+    r.id,
+    r.user_id,
+    r.delivery,
+    r.notification,
+    u.email::TEXT,
+    u.full_name::TEXT,
+    COALESCE(np.email_notifications, true),
+    COALESCE(np.timezone, 'UTC')::VARCHAR(50),
+    COALESCE(np.language, 'en')::VARCHAR(5),
+    COALESCE(np.digest_frequency, 'daily')::VARCHAR(10)
+  FROM released r
+  JOIN users u ON u.id = r.user_id
+  LEFT JOIN notification_preferences np ON np.user_id = r.user_id
+  ORDER BY r.user_id, r.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The preference functions now carry the delivery schedule
+DROP FUNCTION IF EXISTS get_user_notification_preferences(UUID);
+CREATE OR REPLACE FUNCTION get_user_notification_preferences(user_uuid UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email_notifications BOOLEAN,
+  toast_notifications BOOLEAN,
+  sound_notifications BOOLEAN,
+  quiet_hours_enabled BOOLEAN,
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  type_preferences JSONB,
+  language VARCHAR(5),
+  timezone VARCHAR(50),
+  digest_frequency VARCHAR(10),
+  digest_hour SMALLINT,
+  batch_window_minutes INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    np.user_id,
+    np.email_notifications,
+    np.toast_notifications,
+    np.sound_notifications,
+    np.quiet_hours_enabled,
+    np.quiet_hours_start,
+    np.quiet_hours_end,
+    np.type_preferences,
+    np.language,
+    np.timezone,
+    np.digest_frequency,
+    np.digest_hour,
+    np.batch_window_minutes,
+    np.created_at,
+    np.updated_at
+  FROM notification_preferences np
+  WHERE np.user_id = user_uuid;
+
+  -- If no preferences exist, return defaults
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT
+      user_uuid,
+      true::BOOLEAN,
+      true::BOOLEAN,
+      false::BOOLEAN,
+      false::BOOLEAN,
+      '22:00'::TIME,
+      '08:00'::TIME,
+      '{}'::JSONB,
+      'en'::VARCHAR(5),
+      'UTC'::VARCHAR(50),
+      'daily'::VARCHAR(10),
+      8::SMALLINT,
+      15::INTEGER,
+      NOW(),
+      NOW();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS upsert_user_notification_preferences(UUID, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN, TIME, TIME, JSONB, VARCHAR(5), VARCHAR(50));
+CREATE OR REPLACE FUNCTION upsert_user_notification_preferences(
+  user_uuid UUID,
+  p_email_notifications BOOLEAN DEFAULT NULL,
+  p_toast_notifications BOOLEAN DEFAULT NULL,
+  p_sound_notifications BOOLEAN DEFAULT NULL,
+  p_quiet_hours_enabled BOOLEAN DEFAULT NULL,
+  p_quiet_hours_start TIME DEFAULT NULL,
+  p_quiet_hours_end TIME DEFAULT NULL,
+  p_type_preferences JSONB DEFAULT NULL,
+  p_language VARCHAR(5) DEFAULT NULL,
+  p_timezone VARCHAR(50) DEFAULT NULL,
+  p_digest_frequency VARCHAR(10) DEFAULT NULL,
+  p_digest_hour SMALLINT DEFAULT NULL,
+  p_batch_window_minutes INTEGER DEFAULT NULL
+)
+RETURNS notification_preferences AS $$
+DECLARE
+  result notification_preferences;
+BEGIN
+  INSERT INTO notification_preferences (
+    user_id,
+    email_notifications,
+    toast_notifications,
+    sound_notifications,
+    quiet_hours_enabled,
+    quiet_hours_start,
+    quiet_hours_end,
+    type_preferences,
+    language,
+    timezone,
+    digest_frequency,
+    digest_hour,
+    batch_window_minutes
+  ) VALUES (
+    user_uuid,
+    COALESCE(p_email_notifications, true),
+    COALESCE(p_toast_notifications, true),
+    COALESCE(p_sound_notifications, false),
+    COALESCE(p_quiet_hours_enabled, false),
+    COALESCE(p_quiet_hours_start, '22:00'::TIME),
+    COALESCE(p_quiet_hours_end, '08:00'::TIME),
+    COALESCE(p_type_preferences, '{}'::JSONB),
+    COALESCE(p_language, 'en'),
+    COALESCE(p_timezone, 'UTC'),
+    COALESCE(p_digest_frequency, 'daily'),
+    COALESCE(p_digest_hour, 8),
+    COALESCE(p_batch_window_minutes, 15)
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    email_notifications = COALESCE(p_email_notifications, notification_preferences.email_notifications),
+    toast_notifications = COALESCE(p_toast_notifications, notification_preferences.toast_notifications),
+    sound_notifications = COALESCE(p_sound_notifications, notification_preferences.sound_notifications),
+    quiet_hours_enabled = COALESCE(p_quiet_hours_enabled, notification_preferences.quiet_hours_enabled),
+    quiet_hours_start = COALESCE(p_quiet_hours_start, notification_preferences.quiet_hours_start),
+    quiet_hours_end = COALESCE(p_quiet_hours_end, notification_preferences.quiet_hours_end),
+    type_preferences = COALESCE(p_type_preferences, notification_preferences.type_preferences),
+    language = COALESCE(p_language, notification_preferences.language),
+    timezone = COALESCE(p_timezone, notification_preferences.timezone),
+    digest_frequency = COALESCE(p_digest_frequency, notification_preferences.digest_frequency),
+    digest_hour = COALESCE(p_digest_hour, notification_preferences.digest_hour),
+    batch_window_minutes = COALESCE(p_batch_window_minutes, notification_preferences.batch_window_minutes),
+    updated_at = NOW()
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE held_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own held notifications"
+  ON held_notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Grant necessary permissions
+GRANT SELECT ON held_notifications TO authenticated;
+GRANT EXECUTE ON FUNCTION get_user_notification_preferences(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION upsert_user_notification_preferences(UUID, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN, TIME, TIME, JSONB, VARCHAR(5), VARCHAR(50), VARCHAR(10), SMALLINT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_due_notifications(INTEGER) TO authenticated;
+
+COMMENT ON TABLE held_notifications IS 'Batched and digest notifications waiting for their delivery time';
+COMMENT ON FUNCTION release_due_notifications(INTEGER) IS 'Moves due held notifications into notifications and returns them for digest emails';
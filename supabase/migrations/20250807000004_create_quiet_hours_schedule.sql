@@ -0,0 +1,259 @@
+-- Per-weekday quiet hours evaluated in the user's timezone.
+-- Non-high-priority notifications created during quiet hours are held in
+-- held_notifications and released by release_due_notifications() when the
+-- quiet period ends, instead of being dropped.
+
+-- One entry per weekday: {"day_of_week": 0-6 (Sunday = 0), "enabled": bool, "start": "HH:mm", "end": "HH:mm"}.
+-- An empty schedule means quiet_hours_start/end apply every day.
+ALTER TABLE notification_preferences
+ADD COLUMN IF NOT EXISTS quiet_hours_schedule JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE held_notifications DROP CONSTRAINT IF EXISTS held_notifications_delivery_check;
+ALTER TABLE held_notifications
+ADD CONSTRAINT held_notifications_delivery_check CHECK (delivery IN ('batched', 'digest', 'quiet_hours'));
+
+-- When the quiet period covering p_at ends, or NULL if p_at is outside quiet hours.
+-- A window whose end is before its start runs past midnight and belongs to the day it starts on.
+CREATE OR REPLACE FUNCTION quiet_hours_end_at(p_user_id UUID, p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  v_prefs notification_preferences;
+  v_timezone TEXT;
+  v_local TIMESTAMP;
+  v_time TIME;
+  v_dow INTEGER;
+  v_window JSONB;
+  v_start TIME;
+  v_end TIME;
+  v_offset INTEGER;
+BEGIN
+  SELECT * INTO v_prefs FROM notification_preferences WHERE user_id = p_user_id;
+
+  IF NOT FOUND OR NOT v_prefs.quiet_hours_enabled THEN
+    RETURN NULL;
+  END IF;
+
+  v_timezone := v_prefs.timezone;
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_timezone) THEN
+    v_timezone := 'UTC';
+  END IF;
+
+  v_local := p_at AT TIME ZONE v_timezone;
+  v_time := v_local::TIME;
+  v_dow := EXTRACT(DOW FROM v_local)::INTEGER;
+
+  -- Check today's window first, then an overnight window that started yesterday
+  FOREACH v_offset IN ARRAY ARRAY[0, 1] LOOP
+    IF jsonb_array_length(v_prefs.quiet_hours_schedule) = 0 THEN
+      v_window := jsonb_build_object('enabled', true, 'start', v_prefs.quiet_hours_start::TEXT, 'end', v_prefs.quiet_hours_end::TEXT);
+    ELSE
+      SELECT w INTO v_window
+      FROM jsonb_array_elements(v_prefs.quiet_hours_schedule) w
+      WHERE (w ->> 'day_of_week')::INTEGER = (v_dow - v_offset + 7) % 7;
+    END IF;
+
+    CONTINUE WHEN v_window IS NULL OR NOT COALESCE((v_window ->> 'enabled')::BOOLEAN, false);
+
+    v_start := (v_window ->> 'start')::TIME;
+    v_end := (v_window ->> 'end')::TIME;
+    CONTINUE WHEN v_start = v_end;
+
+    IF v_offset = 0 AND v_start < v_end AND v_time >= v_start AND v_time < v_end THEN
+      RETURN (v_local::DATE + v_end) AT TIME ZONE v_timezone;
+    ELSIF v_offset = 0 AND v_start > v_end AND v_time >= v_start THEN
+      RETURN (v_local::DATE + 1 + v_end) AT TIME ZONE v_timezone;
+    ELSIF v_offset = 1 AND v_start > v_end AND v_time < v_end THEN
+      RETURN (v_local::DATE + v_end) AT TIME ZONE v_timezone;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Hold batched/digest notifications as before, and anything that is not high
+-- priority while the recipient is in quiet hours
+CREATE OR REPLACE FUNCTION hold_deferred_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_delivery TEXT;
+  v_deliver_after TIMESTAMP WITH TIME ZONE;
+  v_quiet_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NEW.scheduled_for IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT np.type_preferences -> NEW.type::TEXT ->> 'delivery' INTO v_delivery
+  FROM notification_preferences np
+  WHERE np.user_id = NEW.user_id;
+
+  IF COALESCE(NEW.priority::TEXT, 'medium') <> 'high' THEN
+    v_quiet_end := quiet_hours_end_at(NEW.user_id, NOW());
+  END IF;
+
+  IF v_delivery IN ('batched', 'digest') THEN
+    v_deliver_after := next_notification_delivery_time(NEW.user_id, v_delivery);
+    -- A batch that closes during quiet hours waits for them to end; digests keep their slot
+    IF v_delivery = 'batched' AND v_quiet_end IS NOT NULL THEN
+      v_deliver_after := GREATEST(v_deliver_after, v_quiet_end);
+    END IF;
+  ELSIF v_quiet_end IS NOT NULL THEN
+    v_delivery := 'quiet_hours';
+    v_deliver_after := v_quiet_end;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO held_notifications (user_id, delivery, notification, deliver_after)
+  VALUES (NEW.user_id, v_delivery, to_jsonb(NEW), v_deliver_after);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The preference functions now carry the weekday schedule
+DROP FUNCTION IF EXISTS get_user_notification_preferences(UUID);
+CREATE OR REPLACE FUNCTION get_user_notification_preferences(user_uuid UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email_notifications BOOLEAN,
+  toast_notifications BOOLEAN,
+  sound_notifications BOOLEAN,
+  quiet_hours_enabled BOOLEAN,
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  quiet_hours_schedule JSONB,
+  type_preferences JSONB,
+  language VARCHAR(5),
+  timezone VARCHAR(50),
+  digest_frequency VARCHAR(10),
+  digest_hour SMALLINT,
+  batch_window_minutes INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    np.user_id,
+    np.email_notifications,
+    np.toast_notifications,
+    np.sound_notifications,
+    np.quiet_hours_enabled,
+    np.quiet_hours_start,
+    np.quiet_hours_end,
+    np.quiet_hours_schedule,
+    np.type_preferences,
+    np.language,
+    np.timezone,
+    np.digest_frequency,
+    np.digest_hour,
+    np.batch_window_minutes,
+    np.created_at,
+    np.updated_at
+  FROM notification_preferences np
+  WHERE np.user_id = user_uuid;
+
+  -- If no preferences exist, return defaults
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT
+      user_uuid,
+      true::BOOLEAN,
+      true::BOOLEAN,
+      false::BOOLEAN,
+      false::BOOLEAN,
+      '22:00'::TIME,
+      '08:00'::TIME,
+      '[]'::JSONB,
+      '{}'::JSONB,
+      'en'::VARCHAR(5),
+      'UTC'::VARCHAR(50),
+      'daily'::VARCHAR(10),
+      8::SMALLINT,
+      15::INTEGER,
+      NOW(),
+      NOW();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS upsert_user_notification_preferences(UUID, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN, TIME, TIME, JSONB, VARCHAR(5), VARCHAR(50), VARCHAR(10), SMALLINT, INTEGER);
+CREATE OR REPLACE FUNCTION upsert_user_notification_preferences(
+  user_uuid UUID,
+  p_email_notifications BOOLEAN DEFAULT NULL,
+  p_toast_notifications BOOLEAN DEFAULT NULL,
+  p_sound_notifications BOOLEAN DEFAULT NULL,
+  p_quiet_hours_enabled BOOLEAN DEFAULT NULL,
+  p_quiet_hours_start TIME DEFAULT NULL,
+  p_quiet_hours_end TIME DEFAULT NULL,
+  p_type_preferences JSONB DEFAULT NULL,
+  p_language VARCHAR(5) DEFAULT NULL,
+  p_timezone VARCHAR(50) DEFAULT NULL,
+  p_digest_frequency VARCHAR(10) DEFAULT NULL,
+  p_digest_hour SMALLINT DEFAULT NULL,
+  p_batch_window_minutes INTEGER DEFAULT NULL,
+  p_quiet_hours_schedule JSONB DEFAULT NULL
+)
+RETURNS notification_preferences AS $$
+DECLARE
+  result notification_preferences;
+BEGIN
+  INSERT INTO notification_preferences (
+    user_id,
+    email_notifications,
+    toast_notifications,
+    sound_notifications,
+    quiet_hours_enabled,
+    quiet_hours_start,
+    quiet_hours_end,
+    quiet_hours_schedule,
+    type_preferences,
+    language,
+    timezone,
+    digest_frequency,
+    digest_hour,
+    batch_window_minutes
+  ) VALUES (
+    user_uuid,
+    COALESCE(p_email_notifications, true),
+    COALESCE(p_toast_notifications, true),
+    COALESCE(p_sound_notifications, false),
+    COALESCE(p_quiet_hours_enabled, false),
+    COALESCE(p_quiet_hours_start, '22:00'::TIME),
+    COALESCE(p_quiet_hours_end, '08:00'::TIME),
+    COALESCE(p_quiet_hours_schedule, '[]'::JSONB),
+    COALESCE(p_type_preferences, '{}'::JSONB),
+    COALESCE(p_language, 'en'),
+    COALESCE(p_timezone, 'UTC'),
+    COALESCE(p_digest_frequency, 'daily'),
+    COALESCE(p_digest_hour, 8),
+    COALESCE(p_batch_window_minutes, 15)
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    email_notifications = COALESCE(p_email_notifications, notification_preferences.email_notifications),
+    toast_notifications = COALESCE(p_toast_notifications, notification_preferences.toast_notifications),
+    sound_notifications = COALESCE(p_sound_notifications, notification_preferences.sound_notifications),
+    quiet_hours_enabled = COALESCE(p_quiet_hours_enabled, notification_preferences.quiet_hours_enabled),
+    quiet_hours_start = COALESCE(p_quiet_hours_start, notification_preferences.quiet_hours_start),
+    quiet_hours_end = COALESCE(p_quiet_hours_end, notification_preferences.quiet_hours_end),
+    quiet_hours_schedule = COALESCE(p_quiet_hours_schedule, notification_preferences.quiet_hours_schedule),
+    type_preferences = COALESCE(p_type_preferences, notification_preferences.type_preferences),
+    language = COALESCE(p_language, notification_preferences.language),
+    timezone = COALESCE(p_timezone, notification_preferences.timezone),
+    digest_frequency = COALESCE(p_digest_frequency, notification_preferences.digest_frequency),
+    digest_hour = COALESCE(p_digest_hour, notification_preferences.digest_hour),
+    batch_window_minutes = COALESCE(p_batch_window_minutes, notification_preferences.batch_window_minutes),
+    updated_at = NOW()
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_user_notification_preferences(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION upsert_user_notification_preferences(UUID, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN, TIME, TIME, JSONB, VARCHAR(5), VARCHAR(50), VARCHAR(10), SMALLINT, INTEGER, JSONB) TO authenticated;
+
+COMMENT ON COLUMN notification_preferences.quiet_hours_schedule IS 'Per-weekday quiet hours; empty means quiet_hours_start/end every day';
+COMMENT ON FUNCTION quiet_hours_end_at(UUID, TIMESTAMP WITH TIME ZONE) IS 'End of the quiet period covering the given time in the user timezone, or NULL';
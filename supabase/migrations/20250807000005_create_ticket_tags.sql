@@ -0,0 +1,126 @@
+-- Persistent ticket tags: a tags table, a ticket<->tag join, usage counts and merge
+
+CREATE TABLE IF NOT EXISTS tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(50) NOT NULL CHECK (length(trim(name)) > 0),
+  color TEXT NOT NULL DEFAULT '#6B7280',
+  description TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tag names are unique regardless of case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_name_unique ON tags(lower(name));
+
+CREATE TABLE IF NOT EXISTS ticket_tags (
+  ticket_id UUID NOT NULL REFERENCES tickets_new(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (ticket_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_tags_tag ON ticket_tags(tag_id);
+
+CREATE OR REPLACE FUNCTION update_tags_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_tags_updated_at ON tags;
+CREATE TRIGGER trigger_update_tags_updated_at
+  BEFORE UPDATE ON tags
+  FOR EACH ROW
+  EXECUTE FUNCTION update_tags_updated_at();
+
+-- Tags with the number of tickets using them
+CREATE OR REPLACE VIEW tags_with_usage AS
+SELECT
+  t.*,
+  COUNT(tt.ticket_id)::INTEGER AS usage_count
+FROM tags t
+LEFT JOIN ticket_tags tt ON tt.tag_id = t.id
+GROUP BY t.id;
+
+-- Move every ticket from the source tags onto the target tag, then delete the sources
+CREATE OR REPLACE FUNCTION merge_tags(p_source_ids UUID[], p_target_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_moved INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge tags';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM tags WHERE id = p_target_id) THEN
+    RAISE EXCEPTION 'Target tag % does not exist', p_target_id;
+  END IF;
+
+  INSERT INTO ticket_tags (ticket_id, tag_id, added_by, added_at)
+  SELECT tt.ticket_id, p_target_id, tt.added_by, MIN(tt.added_at)
+  FROM ticket_tags tt
+  WHERE tt.tag_id = ANY(p_source_ids) AND tt.tag_id <> p_target_id
+  GROUP BY tt.ticket_id, tt.added_by
+  ON CONFLICT (ticket_id, tag_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  DELETE FROM tags WHERE id = ANY(p_source_ids) AND id <> p_target_id;
+
+  RETURN v_moved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ticket_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view tags"
+  ON tags FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Agents and admins can create tags"
+  ON tags FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY "Admins can update tags"
+  ON tags FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY "Admins can delete tags"
+  ON tags FOR DELETE
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Same visibility as the ticket itself
+CREATE POLICY "Users can view tags of visible tickets"
+  ON ticket_tags FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM tickets_new t
+      WHERE t.id = ticket_tags.ticket_id
+      AND (
+        t.user_id = auth.uid()
+        OR t.assigned_to = auth.uid()
+        OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin'))
+      )
+    )
+  );
+
+CREATE POLICY "Agents and admins can tag tickets"
+  ON ticket_tags FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY "Agents and admins can untag tickets"
+  ON ticket_tags FOR DELETE
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+GRANT SELECT ON tags_with_usage TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_tags(UUID[], UUID) TO authenticated;
+
+COMMENT ON TABLE tags IS 'Ticket tags; names are unique case-insensitively';
+COMMENT ON TABLE ticket_tags IS 'Tags attached to tickets';
+COMMENT ON FUNCTION merge_tags(UUID[], UUID) IS 'Moves tickets from the source tags onto the target tag and deletes the sources';
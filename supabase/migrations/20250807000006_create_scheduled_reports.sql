@@ -0,0 +1,205 @@
+-- Saved report definitions that run on a schedule and are emailed to a
+-- recipient list, plus the history of every run and its output file
+
+CREATE TABLE IF NOT EXISTS report_definitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(120) NOT NULL,
+  report_type VARCHAR(20) NOT NULL CHECK (report_type IN ('tickets', 'performance', 'sla', 'satisfaction')),
+  format VARCHAR(10) NOT NULL DEFAULT 'pdf' CHECK (format IN ('csv', 'excel', 'pdf')),
+  filters JSONB NOT NULL DEFAULT '{}',
+  date_window VARCHAR(20) NOT NULL DEFAULT 'last_7_days'
+    CHECK (date_window IN ('last_7_days', 'last_30_days', 'previous_week', 'previous_month', 'month_to_date')),
+  frequency VARCHAR(10) NOT NULL DEFAULT 'weekly' CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  day_of_week SMALLINT NOT NULL DEFAULT 1 CHECK (day_of_week BETWEEN 0 AND 6), -- weekly; Sunday = 0
+  day_of_month SMALLINT NOT NULL DEFAULT 1 CHECK (day_of_month BETWEEN 1 AND 28), -- monthly
+  run_hour SMALLINT NOT NULL DEFAULT 8 CHECK (run_hour BETWEEN 0 AND 23),
+  timezone VARCHAR(50) NOT NULL DEFAULT 'UTC',
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS report_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  definition_id UUID NOT NULL REFERENCES report_definitions(id) ON DELETE CASCADE,
+  status VARCHAR(10) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'failed')),
+  trigger_type VARCHAR(10) NOT NULL DEFAULT 'schedule' CHECK (trigger_type IN ('schedule', 'manual')),
+  period_start TIMESTAMP WITH TIME ZONE,
+  period_end TIMESTAMP WITH TIME ZONE,
+  row_count INTEGER,
+  file_path TEXT, -- object in the reports bucket
+  file_name TEXT,
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  emails_sent INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_definitions_due ON report_definitions(next_run_at) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_report_runs_definition ON report_runs(definition_id, started_at DESC);
+
+-- Next run strictly after p_after, at run_hour local time in p_timezone
+CREATE OR REPLACE FUNCTION next_report_run_at(
+  p_frequency TEXT,
+  p_day_of_week INTEGER,
+  p_day_of_month INTEGER,
+  p_run_hour INTEGER,
+  p_timezone TEXT,
+  p_after TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  v_timezone TEXT := p_timezone;
+  v_local TIMESTAMP;
+  v_candidate TIMESTAMP;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_timezone) THEN
+    v_timezone := 'UTC';
+  END IF;
+
+  v_local := p_after AT TIME ZONE v_timezone;
+
+  IF p_frequency = 'daily' THEN
+    v_candidate := date_trunc('day', v_local) + make_interval(hours => p_run_hour);
+    IF v_candidate <= v_local THEN
+      v_candidate := v_candidate + INTERVAL '1 day';
+    END IF;
+  ELSIF p_frequency = 'weekly' THEN
+    v_candidate := date_trunc('day', v_local)
+      + make_interval(days => (p_day_of_week - EXTRACT(DOW FROM v_local)::INTEGER + 7) % 7, hours => p_run_hour);
+    IF v_candidate <= v_local THEN
+      v_candidate := v_candidate + INTERVAL '7 days';
+    END IF;
+  ELSE
+    v_candidate := date_trunc('month', v_local) + make_interval(days => p_day_of_month - 1, hours => p_run_hour);
+    IF v_candidate <= v_local THEN
+      v_candidate := date_trunc('month', v_local + INTERVAL '1 month') + make_interval(days => p_day_of_month - 1, hours => p_run_hour);
+    END IF;
+  END IF;
+
+  RETURN v_candidate AT TIME ZONE v_timezone;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Keep next_run_at in step with the schedule
+CREATE OR REPLACE FUNCTION schedule_report_definition()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+
+  IF NOT NEW.is_active THEN
+    NEW.next_run_at := NULL;
+  ELSIF TG_OP = 'INSERT'
+    OR NEW.next_run_at IS NULL
+    OR NEW.frequency IS DISTINCT FROM OLD.frequency
+    OR NEW.day_of_week IS DISTINCT FROM OLD.day_of_week
+    OR NEW.day_of_month IS DISTINCT FROM OLD.day_of_month
+    OR NEW.run_hour IS DISTINCT FROM OLD.run_hour
+    OR NEW.timezone IS DISTINCT FROM OLD.timezone THEN
+    NEW.next_run_at := next_report_run_at(NEW.frequency, NEW.day_of_week, NEW.day_of_month, NEW.run_hour, NEW.timezone, NOW());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_schedule_report_definition ON report_definitions;
+CREATE TRIGGER trigger_schedule_report_definition
+  BEFORE INSERT OR UPDATE ON report_definitions
+  FOR EACH ROW
+  EXECUTE FUNCTION schedule_report_definition();
+
+-- Claim the definitions that are due and move them to their next slot, so
+-- two open sessions never run the same report twice
+CREATE OR REPLACE FUNCTION claim_due_report_definitions(p_limit INTEGER DEFAULT 10)
+RETURNS SETOF report_definitions AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+    FROM report_definitions d
+    WHERE d.is_active AND d.next_run_at <= NOW()
+    ORDER BY d.next_run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE report_definitions d
+  SET last_run_at = NOW(),
+      next_run_at = next_report_run_at(d.frequency, d.day_of_week, d.day_of_month, d.run_hour, d.timezone, NOW())
+  FROM due
+  WHERE d.id = due.id
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE report_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view report definitions"
+  ON report_definitions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY "Agents and admins can create report definitions"
+  ON report_definitions FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY "Owners and admins can update report definitions"
+  ON report_definitions FOR UPDATE
+  USING (
+    created_by = auth.uid()
+    OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+CREATE POLICY "Owners and admins can delete report definitions"
+  ON report_definitions FOR DELETE
+  USING (
+    created_by = auth.uid()
+    OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+CREATE POLICY "Agents and admins can view report runs"
+  ON report_runs FOR SELECT
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY "Agents and admins can record report runs"
+  ON report_runs FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY "Agents and admins can update report runs"
+  ON report_runs FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+-- Generated files, stored as <definition id>/<run id>/<file name>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('reports', 'reports', false, 52428800, NULL)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Agents and admins can read report files" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'reports' AND
+    EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role IN ('agent', 'admin'))
+  );
+
+CREATE POLICY "Agents and admins can store report files" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'reports' AND
+    EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role IN ('agent', 'admin'))
+  );
+
+GRANT EXECUTE ON FUNCTION next_report_run_at(TEXT, INTEGER, INTEGER, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_report_definitions(INTEGER) TO authenticated;
+
+COMMENT ON TABLE report_definitions IS 'Saved reports with their filters, date window, schedule and recipients';
+COMMENT ON TABLE report_runs IS 'One row per generated report, with its output file and delivery result';
+COMMENT ON FUNCTION claim_due_report_definitions(INTEGER) IS 'Returns due report definitions and advances their next_run_at';
@@ -0,0 +1,328 @@
+-- Outbound webhooks: admins register endpoints per event type, ticket and
+-- SLA events are queued as deliveries and the dispatch-webhooks edge function
+-- signs and sends them, retrying with backoff
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  url TEXT NOT NULL CHECK (url ~* '^https?://'),
+  secret TEXT NOT NULL, -- HMAC-SHA256 signing key
+  events TEXT[] NOT NULL DEFAULT '{}' CHECK (events <@ ARRAY[
+    'ticket.created', 'ticket.assigned', 'ticket.status_changed', 'ticket.commented', 'sla.warning', 'sla.breach'
+  ]::TEXT[]),
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_delivery_at TIMESTAMP WITH TIME ZONE,
+  last_delivery_status VARCHAR(10),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type VARCHAR(40) NOT NULL,
+  payload JSONB NOT NULL, -- the exact body sent to every endpoint
+  dedupe_key TEXT UNIQUE, -- events that must only fire once, e.g. SLA breaches
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES webhook_events(id) ON DELETE CASCADE,
+  event_type VARCHAR(40) NOT NULL,
+  status VARCHAR(12) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  response_status INTEGER,
+  response_body TEXT, -- truncated
+  error TEXT,
+  duration_ms INTEGER,
+  replay_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status IN ('pending', 'delivering');
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event ON webhook_deliveries(event_id);
+
+CREATE OR REPLACE FUNCTION update_webhook_endpoints_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_webhook_endpoints_updated_at ON webhook_endpoints;
+CREATE TRIGGER trigger_update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_webhook_endpoints_updated_at();
+
+-- Record an event and queue one delivery per subscribed endpoint. Returns the
+-- event id, or NULL when nobody listens or the dedupe key was already used.
+CREATE OR REPLACE FUNCTION queue_webhook_event(
+  p_event_type TEXT,
+  p_data JSONB,
+  p_dedupe_key TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_event_id UUID := gen_random_uuid();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM webhook_endpoints WHERE is_active AND p_event_type = ANY(events)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO webhook_events (id, event_type, dedupe_key, payload)
+  VALUES (
+    v_event_id,
+    p_event_type,
+    p_dedupe_key,
+    jsonb_build_object('id', v_event_id, 'type', p_event_type, 'created_at', NOW(), 'data', p_data)
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type)
+  SELECT id, v_event_id, p_event_type
+  FROM webhook_endpoints
+  WHERE is_active AND p_event_type = ANY(events);
+
+  RETURN v_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION webhook_user_json(p_user_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object('id', u.id, 'name', u.full_name, 'email', u.email)
+  FROM users u
+  WHERE u.id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Ticket events
+CREATE OR REPLACE FUNCTION queue_ticket_webhook_events()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM queue_webhook_event('ticket.created', jsonb_build_object(
+      'ticket', to_jsonb(NEW),
+      'requester', webhook_user_json(NEW.user_id)
+    ));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL AND NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    PERFORM queue_webhook_event('ticket.assigned', jsonb_build_object(
+      'ticket', to_jsonb(NEW),
+      'assignee', webhook_user_json(NEW.assigned_to),
+      'previous_assignee_id', OLD.assigned_to
+    ));
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM queue_webhook_event('ticket.status_changed', jsonb_build_object(
+      'ticket', to_jsonb(NEW),
+      'previous_status', OLD.status,
+      'status', NEW.status
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_queue_ticket_webhook_events ON tickets_new;
+CREATE TRIGGER trigger_queue_ticket_webhook_events
+  AFTER INSERT OR UPDATE OF assigned_to, status ON tickets_new
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_ticket_webhook_events();
+
+CREATE OR REPLACE FUNCTION queue_comment_webhook_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM queue_webhook_event('ticket.commented', jsonb_build_object(
+    'ticket', (SELECT to_jsonb(t) FROM tickets_new t WHERE t.id = NEW.ticket_id),
+    'comment', jsonb_build_object(
+      'id', NEW.id,
+      'content', NEW.content,
+      'is_internal', COALESCE(NEW.is_internal, false),
+      'created_at', NEW.created_at,
+      'author', webhook_user_json(NEW.user_id)
+    )
+  ));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_queue_comment_webhook_event ON ticket_comments_new;
+CREATE TRIGGER trigger_queue_comment_webhook_event
+  AFTER INSERT ON ticket_comments_new
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_comment_webhook_event();
+
+-- SLA events come from the SLA check; each ticket warns and breaches once per target
+CREATE OR REPLACE FUNCTION queue_sla_webhook_event(
+  p_ticket_id UUID,
+  p_kind TEXT, -- 'warning' or 'breach'
+  p_target TEXT, -- 'response' or 'resolution'
+  p_details JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')) THEN
+    RAISE EXCEPTION 'Only agents and admins can report SLA events';
+  END IF;
+
+  IF p_kind NOT IN ('warning', 'breach') OR p_target NOT IN ('response', 'resolution') THEN
+    RAISE EXCEPTION 'Unknown SLA event %/%', p_kind, p_target;
+  END IF;
+
+  RETURN queue_webhook_event(
+    'sla.' || p_kind,
+    jsonb_build_object(
+      'ticket', (SELECT to_jsonb(t) FROM tickets_new t WHERE t.id = p_ticket_id),
+      'target', p_target,
+      'sla', p_details
+    ),
+    'sla.' || p_kind || ':' || p_ticket_id || ':' || p_target
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Queue a webhook.test event for a single endpoint and return the delivery id
+CREATE OR REPLACE FUNCTION send_test_webhook(p_endpoint_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_event_id UUID := gen_random_uuid();
+  v_delivery_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can test webhooks';
+  END IF;
+
+  INSERT INTO webhook_events (id, event_type, payload)
+  VALUES (
+    v_event_id,
+    'webhook.test',
+    jsonb_build_object('id', v_event_id, 'type', 'webhook.test', 'created_at', NOW(),
+      'data', jsonb_build_object('endpoint_id', p_endpoint_id, 'message', 'Test delivery'))
+  );
+
+  INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, max_attempts)
+  VALUES (p_endpoint_id, v_event_id, 'webhook.test', 1)
+  RETURNING id INTO v_delivery_id;
+
+  RETURN v_delivery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Send a logged event again as a new delivery, keeping the original intact
+CREATE OR REPLACE FUNCTION replay_webhook_delivery(p_delivery_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_delivery_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can replay webhooks';
+  END IF;
+
+  INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, replay_of)
+  SELECT endpoint_id, event_id, event_type, id
+  FROM webhook_deliveries
+  WHERE id = p_delivery_id
+  RETURNING id INTO v_delivery_id;
+
+  IF v_delivery_id IS NULL THEN
+    RAISE EXCEPTION 'Webhook delivery % not found', p_delivery_id;
+  END IF;
+
+  RETURN v_delivery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lock due deliveries for the dispatcher. Deliveries stuck in 'delivering'
+-- for five minutes (a dispatcher that died) are picked up again.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_limit INTEGER DEFAULT 20,
+  p_delivery_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  delivery_id UUID,
+  endpoint_id UUID,
+  url TEXT,
+  secret TEXT,
+  event_type VARCHAR,
+  payload JSONB,
+  attempts INTEGER,
+  max_attempts INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+    FROM webhook_deliveries d
+    WHERE (p_delivery_id IS NULL OR d.id = p_delivery_id)
+      AND (
+        (d.status = 'pending' AND (p_delivery_id IS NOT NULL OR d.next_attempt_at <= NOW()))
+        OR (d.status = 'delivering' AND d.locked_at < NOW() - INTERVAL '5 minutes')
+      )
+    ORDER BY d.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE webhook_deliveries d
+    SET status = 'delivering', locked_at = NOW()
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.*
+  )
+  SELECT c.id, c.endpoint_id, e.url, e.secret, c.event_type, ev.payload, c.attempts, c.max_attempts
+  FROM claimed c
+  JOIN webhook_endpoints e ON e.id = c.endpoint_id
+  JOIN webhook_events ev ON ev.id = c.event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security (RLS) policies: endpoints hold signing secrets, so
+-- everything is admin-only and deliveries are written by the dispatcher
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage webhook endpoints"
+  ON webhook_endpoints FOR ALL
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY "Admins can view webhook events"
+  ON webhook_events FOR SELECT
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY "Admins can view webhook deliveries"
+  ON webhook_deliveries FOR SELECT
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+REVOKE EXECUTE ON FUNCTION queue_webhook_event(TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION webhook_user_json(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION queue_sla_webhook_event(UUID, TEXT, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION send_test_webhook(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION replay_webhook_delivery(UUID) TO authenticated;
+
+COMMENT ON TABLE webhook_endpoints IS 'Outbound webhook endpoints and the event types they subscribe to';
+COMMENT ON TABLE webhook_events IS 'Every event queued for webhooks, with the payload sent to endpoints';
+COMMENT ON TABLE webhook_deliveries IS 'One row per event and endpoint, with retry state and the last response';
+COMMENT ON FUNCTION claim_webhook_deliveries(INTEGER, UUID) IS 'Locks due webhook deliveries for the dispatch-webhooks function';
@@ -0,0 +1,211 @@
+-- Slack notifications ride on the webhook queue: a Slack channel is a webhook
+-- endpoint with format 'slack' (an incoming-webhook URL), the dispatcher turns
+-- the event into a Block Kit message, and routing rules pick the channel for
+-- each ticket by category and priority
+
+ALTER TABLE webhook_endpoints
+  ADD COLUMN IF NOT EXISTS format VARCHAR(10) NOT NULL DEFAULT 'json' CHECK (format IN ('json', 'slack')),
+  ADD COLUMN IF NOT EXISTS channel TEXT; -- label shown in the UI, e.g. #support
+
+CREATE TABLE IF NOT EXISTS slack_routing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES categories(id) ON DELETE CASCADE, -- NULL matches any category
+  priorities TEXT[] NOT NULL DEFAULT '{}', -- empty matches any priority
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_slack_routing_rules_order ON slack_routing_rules(sort_order, created_at) WHERE is_active;
+
+DROP TRIGGER IF EXISTS trigger_update_slack_routing_rules_updated_at ON slack_routing_rules;
+CREATE TRIGGER trigger_update_slack_routing_rules_updated_at
+  BEFORE UPDATE ON slack_routing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_webhook_endpoints_updated_at();
+
+-- Last SLA state the SLA check reported for a ticket
+CREATE OR REPLACE FUNCTION webhook_ticket_sla_state(p_ticket_id UUID)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    (
+      SELECT jsonb_build_object(
+        'state', CASE WHEN e.event_type = 'sla.breach' THEN 'breached' ELSE 'at_risk' END,
+        'target', split_part(e.dedupe_key, ':', 3),
+        'since', e.created_at
+      )
+      FROM webhook_events e
+      WHERE e.dedupe_key LIKE 'sla.%:' || p_ticket_id || ':%'
+      ORDER BY (e.event_type = 'sla.breach') DESC, e.created_at DESC
+      LIMIT 1
+    ),
+    jsonb_build_object('state', 'on_track')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Same contract as before, plus: ticket events carry the category and last
+-- SLA state, Slack endpoints only get events their routing picks, and
+-- deduplicated events are recorded even without subscribers so they never
+-- fire twice and the SLA state above stays accurate
+CREATE OR REPLACE FUNCTION queue_webhook_event(
+  p_event_type TEXT,
+  p_data JSONB,
+  p_dedupe_key TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_event_id UUID := gen_random_uuid();
+  v_data JSONB := p_data;
+  v_ticket_id UUID := (p_data->'ticket'->>'id')::UUID;
+  v_category_id UUID := (p_data->'ticket'->>'category_id')::UUID;
+  v_priority TEXT := p_data->'ticket'->>'priority';
+  v_slack_endpoint UUID;
+BEGIN
+  IF v_ticket_id IS NOT NULL THEN
+    -- Choose the Slack channel: first matching rule wins
+    SELECT r.endpoint_id INTO v_slack_endpoint
+    FROM slack_routing_rules r
+    JOIN webhook_endpoints e ON e.id = r.endpoint_id
+    WHERE r.is_active
+      AND e.is_active
+      AND e.format = 'slack'
+      AND p_event_type = ANY(e.events)
+      AND (r.category_id IS NULL OR r.category_id = v_category_id)
+      AND (cardinality(r.priorities) = 0 OR v_priority = ANY(r.priorities))
+    ORDER BY r.sort_order, r.created_at
+    LIMIT 1;
+  END IF;
+
+  IF p_dedupe_key IS NULL
+    AND v_slack_endpoint IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM webhook_endpoints
+      WHERE is_active AND format = 'json' AND p_event_type = ANY(events)
+    ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_ticket_id IS NOT NULL THEN
+    v_data := v_data || jsonb_build_object(
+      'category', (SELECT jsonb_build_object('id', c.id, 'name', c.name) FROM categories c WHERE c.id = v_category_id),
+      'sla_state', webhook_ticket_sla_state(v_ticket_id)
+    );
+  END IF;
+
+  INSERT INTO webhook_events (id, event_type, dedupe_key, payload)
+  VALUES (
+    v_event_id,
+    p_event_type,
+    p_dedupe_key,
+    jsonb_build_object('id', v_event_id, 'type', p_event_type, 'created_at', NOW(), 'data', v_data)
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type)
+  SELECT id, v_event_id, p_event_type
+  FROM webhook_endpoints
+  WHERE is_active AND format = 'json' AND p_event_type = ANY(events)
+  UNION ALL
+  SELECT v_slack_endpoint, v_event_id, p_event_type
+  WHERE v_slack_endpoint IS NOT NULL;
+
+  RETURN v_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Test deliveries can carry a message, which Slack channels post as-is
+DROP FUNCTION IF EXISTS send_test_webhook(UUID);
+CREATE OR REPLACE FUNCTION send_test_webhook(p_endpoint_id UUID, p_message TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_event_id UUID := gen_random_uuid();
+  v_delivery_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can test webhooks';
+  END IF;
+
+  INSERT INTO webhook_events (id, event_type, payload)
+  VALUES (
+    v_event_id,
+    'webhook.test',
+    jsonb_build_object('id', v_event_id, 'type', 'webhook.test', 'created_at', NOW(),
+      'data', jsonb_build_object(
+        'endpoint_id', p_endpoint_id,
+        'message', COALESCE(NULLIF(TRIM(p_message), ''), 'Test delivery'),
+        'sent_by', webhook_user_json(auth.uid())
+      ))
+  );
+
+  INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, max_attempts)
+  VALUES (p_endpoint_id, v_event_id, 'webhook.test', 1)
+  RETURNING id INTO v_delivery_id;
+
+  RETURN v_delivery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The dispatcher needs the endpoint format to build the request body
+DROP FUNCTION IF EXISTS claim_webhook_deliveries(INTEGER, UUID);
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_limit INTEGER DEFAULT 20,
+  p_delivery_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  delivery_id UUID,
+  endpoint_id UUID,
+  url TEXT,
+  secret TEXT,
+  format VARCHAR,
+  event_type VARCHAR,
+  payload JSONB,
+  attempts INTEGER,
+  max_attempts INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+    FROM webhook_deliveries d
+    WHERE (p_delivery_id IS NULL OR d.id = p_delivery_id)
+      AND (
+        (d.status = 'pending' AND (p_delivery_id IS NOT NULL OR d.next_attempt_at <= NOW()))
+        OR (d.status = 'delivering' AND d.locked_at < NOW() - INTERVAL '5 minutes')
+      )
+    ORDER BY d.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE webhook_deliveries d
+    SET status = 'delivering', locked_at = NOW()
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.*
+  )
+  SELECT c.id, c.endpoint_id, e.url, e.secret, e.format, c.event_type, ev.payload, c.attempts, c.max_attempts
+  FROM claimed c
+  JOIN webhook_endpoints e ON e.id = c.endpoint_id
+  JOIN webhook_events ev ON ev.id = c.event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE slack_routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage Slack routing rules"
+  ON slack_routing_rules FOR ALL
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+REVOKE EXECUTE ON FUNCTION webhook_ticket_sla_state(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION send_test_webhook(UUID, TEXT) TO authenticated;
+
+COMMENT ON TABLE slack_routing_rules IS 'Ordered rules choosing the Slack channel for a ticket event; the first match wins';
@@ -0,0 +1,210 @@
+-- Versioned assignment rules and an audit trail of how each ticket was assigned.
+-- Every change to a rule bumps its version and stores a snapshot, so the
+-- audit can point at the exact rule definition that picked the agent.
+
+ALTER TABLE public.assignment_rules
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.assignment_rule_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID NOT NULL, -- no FK: history outlives deleted rules
+  version INTEGER NOT NULL,
+  change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('created', 'updated', 'enabled', 'disabled', 'deleted', 'restored')),
+  name TEXT NOT NULL,
+  description TEXT,
+  priority INTEGER NOT NULL,
+  enabled BOOLEAN NOT NULL,
+  conditions JSONB NOT NULL,
+  actions JSONB NOT NULL,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_rule_versions_rule ON public.assignment_rule_versions(rule_id, version DESC);
+
+-- Bump the version when anything that affects routing changes
+CREATE OR REPLACE FUNCTION bump_assignment_rule_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+  ELSIF (NEW.name, NEW.description, NEW.priority, NEW.enabled, NEW.conditions, NEW.actions)
+     IS DISTINCT FROM (OLD.name, OLD.description, OLD.priority, OLD.enabled, OLD.conditions, OLD.actions) THEN
+    NEW.version := OLD.version + 1;
+    NEW.updated_by := auth.uid();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_bump_assignment_rule_version ON public.assignment_rules;
+CREATE TRIGGER trigger_bump_assignment_rule_version
+  BEFORE INSERT OR UPDATE ON public.assignment_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_assignment_rule_version();
+
+CREATE OR REPLACE FUNCTION record_assignment_rule_version()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_rule public.assignment_rules%ROWTYPE;
+  v_change_type TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_rule := OLD;
+    v_change_type := 'deleted';
+  ELSIF TG_OP = 'INSERT' THEN
+    v_rule := NEW;
+    v_change_type := CASE WHEN current_setting('assignment_rules.restoring', true) = 'on' THEN 'restored' ELSE 'created' END;
+  ELSIF NEW.version = OLD.version THEN
+    RETURN NEW; -- bookkeeping columns only
+  ELSE
+    v_rule := NEW;
+    v_change_type := CASE
+      WHEN current_setting('assignment_rules.restoring', true) = 'on' THEN 'restored'
+      WHEN (NEW.name, NEW.description, NEW.priority, NEW.conditions, NEW.actions)
+           IS NOT DISTINCT FROM (OLD.name, OLD.description, OLD.priority, OLD.conditions, OLD.actions)
+        THEN CASE WHEN NEW.enabled THEN 'enabled' ELSE 'disabled' END
+      ELSE 'updated'
+    END;
+  END IF;
+
+  INSERT INTO public.assignment_rule_versions (
+    rule_id, version, change_type, name, description, priority, enabled, conditions, actions, changed_by
+  ) VALUES (
+    v_rule.id, v_rule.version, v_change_type, v_rule.name, v_rule.description, v_rule.priority,
+    v_rule.enabled, v_rule.conditions, v_rule.actions, auth.uid()
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_assignment_rule_version ON public.assignment_rules;
+CREATE TRIGGER trigger_record_assignment_rule_version
+  AFTER INSERT OR UPDATE OR DELETE ON public.assignment_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION record_assignment_rule_version();
+
+-- Existing rules start their history at version 1
+INSERT INTO public.assignment_rule_versions (rule_id, version, change_type, name, description, priority, enabled, conditions, actions)
+SELECT r.id, r.version, 'created', r.name, r.description, r.priority, r.enabled, r.conditions, r.actions
+FROM public.assignment_rules r
+WHERE NOT EXISTS (SELECT 1 FROM public.assignment_rule_versions v WHERE v.rule_id = r.id);
+
+-- Put a rule back to an earlier definition (recreating it if it was deleted)
+CREATE OR REPLACE FUNCTION restore_assignment_rule_version(p_version_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_snapshot public.assignment_rule_versions%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can restore assignment rules';
+  END IF;
+
+  SELECT * INTO v_snapshot FROM public.assignment_rule_versions WHERE id = p_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rule version % not found', p_version_id;
+  END IF;
+
+  PERFORM set_config('assignment_rules.restoring', 'on', true);
+
+  IF EXISTS (SELECT 1 FROM public.assignment_rules WHERE id = v_snapshot.rule_id) THEN
+    UPDATE public.assignment_rules
+    SET name = v_snapshot.name,
+        description = v_snapshot.description,
+        priority = v_snapshot.priority,
+        enabled = v_snapshot.enabled,
+        conditions = v_snapshot.conditions,
+        actions = v_snapshot.actions
+    WHERE id = v_snapshot.rule_id;
+  ELSE
+    INSERT INTO public.assignment_rules (id, name, description, priority, enabled, conditions, actions, version, created_by)
+    SELECT v_snapshot.rule_id, v_snapshot.name, v_snapshot.description, v_snapshot.priority, v_snapshot.enabled,
+      v_snapshot.conditions, v_snapshot.actions,
+      (SELECT MAX(version) + 1 FROM public.assignment_rule_versions WHERE rule_id = v_snapshot.rule_id),
+      auth.uid();
+  END IF;
+
+  PERFORM set_config('assignment_rules.restoring', 'off', true);
+
+  RETURN v_snapshot.rule_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- One row per assignment: who got the ticket, how, and which rule version decided it
+CREATE TABLE IF NOT EXISTS public.ticket_assignment_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES tickets_new(id) ON DELETE CASCADE,
+  assigned_to UUID REFERENCES users(id) ON DELETE SET NULL,
+  assigned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  method VARCHAR(20) NOT NULL CHECK (method IN ('rule', 'intelligent', 'manual')),
+  rule_id UUID,
+  rule_version INTEGER,
+  rule_name TEXT,
+  matched_conditions JSONB NOT NULL DEFAULT '[]',
+  reason TEXT,
+  confidence NUMERIC(5,2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_assignment_audit_ticket ON public.ticket_assignment_audit(ticket_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ticket_assignment_audit_rule ON public.ticket_assignment_audit(rule_id, created_at DESC) WHERE rule_id IS NOT NULL;
+
+-- What the rule conditions need to know about the customer. Agents route
+-- tickets from their own session but cannot read other users' preferences.
+CREATE OR REPLACE FUNCTION get_assignment_customer_profile(p_user_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')) THEN
+    RAISE EXCEPTION 'Only agents can read assignment profiles';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'language', (SELECT np.language FROM notification_preferences np WHERE np.user_id = p_user_id),
+    'timezone', (SELECT np.timezone FROM notification_preferences np WHERE np.user_id = p_user_id),
+    'total_tickets', (SELECT COUNT(*) FROM tickets_new t WHERE t.user_id = p_user_id)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+ALTER TABLE public.assignment_rule_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ticket_assignment_audit ENABLE ROW LEVEL SECURITY;
+
+-- Routing runs in agent sessions, so agents need to read the rules and config
+CREATE POLICY assignment_rules_agent_read_policy ON public.assignment_rules
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY assignment_config_agent_read_policy ON public.assignment_config
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY assignment_rule_versions_admin_policy ON public.assignment_rule_versions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY ticket_assignment_audit_read_policy ON public.ticket_assignment_audit
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY ticket_assignment_audit_insert_policy ON public.ticket_assignment_audit
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    assigned_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin'))
+  );
+
+REVOKE EXECUTE ON FUNCTION restore_assignment_rule_version(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION restore_assignment_rule_version(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_assignment_customer_profile(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_assignment_customer_profile(UUID) TO authenticated;
+
+COMMENT ON TABLE public.assignment_rule_versions IS 'Snapshot of every assignment rule version, including deletions';
+COMMENT ON TABLE public.ticket_assignment_audit IS 'How each ticket was assigned and which rule version decided it';
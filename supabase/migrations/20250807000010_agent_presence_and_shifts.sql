@@ -0,0 +1,120 @@
+-- Agent presence, shift schedules and out-of-office periods.
+-- Presence comes from app heartbeats plus an optional manual status; shifts
+-- are weekly wall-clock windows in the agent's own timezone.
+
+CREATE TABLE IF NOT EXISTS public.agent_presence (
+  agent_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  manual_status VARCHAR(20) CHECK (manual_status IN ('available', 'busy', 'away', 'offline')),
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.agent_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL, -- earlier than start_time for overnight shifts
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (start_time <> end_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_shifts_agent ON public.agent_shifts(agent_id, weekday);
+
+CREATE TABLE IF NOT EXISTS public.agent_out_of_office (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  reason TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_out_of_office_agent ON public.agent_out_of_office(agent_id, ends_at);
+
+-- Called by the app while the agent is active
+CREATE OR REPLACE FUNCTION record_agent_heartbeat()
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.agent_presence (agent_id, last_seen_at, updated_at)
+  VALUES (auth.uid(), NOW(), NOW())
+  ON CONFLICT (agent_id) DO UPDATE SET last_seen_at = NOW(), updated_at = NOW();
+
+  RETURN NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Set or clear (NULL) the agent's manual status
+CREATE OR REPLACE FUNCTION set_agent_manual_status(p_status TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')) THEN
+    RAISE EXCEPTION 'Only agents can set a presence status';
+  END IF;
+
+  INSERT INTO public.agent_presence (agent_id, manual_status, last_seen_at, updated_at)
+  VALUES (auth.uid(), p_status, NOW(), NOW())
+  ON CONFLICT (agent_id) DO UPDATE
+    SET manual_status = p_status, last_seen_at = NOW(), updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE public.agent_presence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_out_of_office ENABLE ROW LEVEL SECURITY;
+
+-- Routing runs in agent sessions, so agents read everyone's schedule
+CREATE POLICY agent_presence_read_policy ON public.agent_presence
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY agent_shifts_read_policy ON public.agent_shifts
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY agent_shifts_manage_policy ON public.agent_shifts
+  FOR ALL
+  TO authenticated
+  USING (
+    agent_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin')
+  )
+  WITH CHECK (
+    agent_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+CREATE POLICY agent_out_of_office_read_policy ON public.agent_out_of_office
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY agent_out_of_office_manage_policy ON public.agent_out_of_office
+  FOR ALL
+  TO authenticated
+  USING (
+    agent_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin')
+  )
+  WITH CHECK (
+    agent_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+REVOKE EXECUTE ON FUNCTION record_agent_heartbeat() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_agent_heartbeat() TO authenticated;
+REVOKE EXECUTE ON FUNCTION set_agent_manual_status(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_agent_manual_status(TEXT) TO authenticated;
+
+COMMENT ON TABLE public.agent_presence IS 'Last app activity and manual status of each agent';
+COMMENT ON TABLE public.agent_shifts IS 'Weekly working hours of each agent in their own timezone';
+COMMENT ON TABLE public.agent_out_of_office IS 'Periods when an agent must not receive new tickets';
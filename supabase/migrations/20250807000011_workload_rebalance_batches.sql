@@ -0,0 +1,153 @@
+-- Plan-first workload rebalancing. The app computes a plan, an admin
+-- approves it, and the approved moves are applied as one batch that can be
+-- undone later. Each move is re-checked when applied so a stale plan never
+-- takes a ticket away from someone it has moved to since.
+
+CREATE TABLE IF NOT EXISTS public.workload_rebalance_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  planned_count INTEGER NOT NULL DEFAULT 0,
+  applied_count INTEGER NOT NULL DEFAULT 0,
+  undone_at TIMESTAMP WITH TIME ZONE,
+  undone_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.workload_rebalance_moves (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES workload_rebalance_batches(id) ON DELETE CASCADE,
+  ticket_id UUID NOT NULL REFERENCES tickets_new(id) ON DELETE CASCADE,
+  from_agent_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  to_agent_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  reason TEXT,
+  -- skipped: the ticket changed before the plan was applied
+  -- kept: the ticket changed after the move, so undo left it alone
+  status VARCHAR(20) NOT NULL CHECK (status IN ('applied', 'skipped', 'undone', 'kept')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workload_rebalance_batches_created ON public.workload_rebalance_batches(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workload_rebalance_moves_batch ON public.workload_rebalance_moves(batch_id);
+
+-- Rebalance moves show up in the assignment audit too
+ALTER TABLE public.ticket_assignment_audit DROP CONSTRAINT IF EXISTS ticket_assignment_audit_method_check;
+ALTER TABLE public.ticket_assignment_audit
+  ADD CONSTRAINT ticket_assignment_audit_method_check CHECK (method IN ('rule', 'intelligent', 'manual', 'rebalance'));
+
+-- p_moves: [{ ticket_id, from_agent_id, to_agent_id, reason }]
+CREATE OR REPLACE FUNCTION apply_workload_rebalance(p_moves JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_batch_id UUID;
+  v_move JSONB;
+  v_applied INTEGER := 0;
+  v_status TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can rebalance workload';
+  END IF;
+
+  INSERT INTO public.workload_rebalance_batches (created_by, planned_count)
+  VALUES (auth.uid(), jsonb_array_length(p_moves))
+  RETURNING id INTO v_batch_id;
+
+  FOR v_move IN SELECT * FROM jsonb_array_elements(p_moves) LOOP
+    UPDATE public.tickets_new
+    SET assigned_to = (v_move->>'to_agent_id')::UUID,
+        updated_at = NOW()
+    WHERE id = (v_move->>'ticket_id')::UUID
+      AND assigned_to = (v_move->>'from_agent_id')::UUID
+      AND status IN ('open', 'pending');
+
+    IF FOUND THEN
+      v_status := 'applied';
+      v_applied := v_applied + 1;
+
+      INSERT INTO public.ticket_assignment_audit (ticket_id, assigned_to, assigned_by, method, reason)
+      VALUES ((v_move->>'ticket_id')::UUID, (v_move->>'to_agent_id')::UUID, auth.uid(), 'rebalance', v_move->>'reason');
+    ELSE
+      v_status := 'skipped';
+    END IF;
+
+    INSERT INTO public.workload_rebalance_moves (batch_id, ticket_id, from_agent_id, to_agent_id, reason, status)
+    VALUES (
+      v_batch_id,
+      (v_move->>'ticket_id')::UUID,
+      (v_move->>'from_agent_id')::UUID,
+      (v_move->>'to_agent_id')::UUID,
+      v_move->>'reason',
+      v_status
+    );
+  END LOOP;
+
+  UPDATE public.workload_rebalance_batches SET applied_count = v_applied WHERE id = v_batch_id;
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Give every applied move back to its original agent, unless the ticket has
+-- been reassigned or closed since. Returns the number of tickets moved back.
+CREATE OR REPLACE FUNCTION undo_workload_rebalance(p_batch_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_move public.workload_rebalance_moves%ROWTYPE;
+  v_undone INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can undo a rebalance';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.workload_rebalance_batches WHERE id = p_batch_id AND undone_at IS NULL) THEN
+    RAISE EXCEPTION 'Rebalance % not found or already undone', p_batch_id;
+  END IF;
+
+  FOR v_move IN
+    SELECT * FROM public.workload_rebalance_moves WHERE batch_id = p_batch_id AND status = 'applied'
+  LOOP
+    UPDATE public.tickets_new
+    SET assigned_to = v_move.from_agent_id,
+        updated_at = NOW()
+    WHERE id = v_move.ticket_id
+      AND assigned_to = v_move.to_agent_id
+      AND status NOT IN ('resolved', 'closed');
+
+    IF FOUND THEN
+      v_undone := v_undone + 1;
+      UPDATE public.workload_rebalance_moves SET status = 'undone' WHERE id = v_move.id;
+
+      INSERT INTO public.ticket_assignment_audit (ticket_id, assigned_to, assigned_by, method, reason)
+      VALUES (v_move.ticket_id, v_move.from_agent_id, auth.uid(), 'rebalance', 'Rebalance undone');
+    ELSE
+      UPDATE public.workload_rebalance_moves SET status = 'kept' WHERE id = v_move.id;
+    END IF;
+  END LOOP;
+
+  UPDATE public.workload_rebalance_batches
+  SET undone_at = NOW(), undone_by = auth.uid()
+  WHERE id = p_batch_id;
+
+  RETURN v_undone;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE public.workload_rebalance_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workload_rebalance_moves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY workload_rebalance_batches_admin_policy ON public.workload_rebalance_batches
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY workload_rebalance_moves_admin_policy ON public.workload_rebalance_moves
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+REVOKE EXECUTE ON FUNCTION apply_workload_rebalance(JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION apply_workload_rebalance(JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION undo_workload_rebalance(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION undo_workload_rebalance(UUID) TO authenticated;
+
+COMMENT ON TABLE public.workload_rebalance_batches IS 'Approved workload rebalance plans, applied as one undoable batch';
+COMMENT ON TABLE public.workload_rebalance_moves IS 'Ticket moves of a workload rebalance and what happened to each';
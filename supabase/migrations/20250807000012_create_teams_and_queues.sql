@@ -0,0 +1,193 @@
+-- Teams with members and leads, and the ticket queues each team works from.
+-- A ticket can sit in a queue without an assignee; agents pull the next one
+-- from the queues of their teams.
+
+CREATE TABLE IF NOT EXISTS public.teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  slug VARCHAR(100) NOT NULL UNIQUE, -- referenced by assignment rules (assignToTeam)
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.team_members (
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'lead')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.ticket_queues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false, -- where team routing parks tickets nobody can take
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user ON public.team_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_queues_team ON public.ticket_queues(team_id, sort_order);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_queues_team_default ON public.ticket_queues(team_id) WHERE is_default;
+
+ALTER TABLE public.tickets_new ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE SET NULL;
+ALTER TABLE public.tickets_new ADD COLUMN IF NOT EXISTS queue_id UUID REFERENCES ticket_queues(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_new_queue ON public.tickets_new(queue_id, status) WHERE queue_id IS NOT NULL;
+
+-- Business calendars could already name a team; make that a real reference
+ALTER TABLE public.business_calendars DROP CONSTRAINT IF EXISTS business_calendars_team_id_fkey;
+ALTER TABLE public.business_calendars
+  ADD CONSTRAINT business_calendars_team_id_fkey FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE SET NULL;
+
+-- A ticket belongs to the team of its queue
+CREATE OR REPLACE FUNCTION sync_ticket_team_from_queue()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.queue_id IS NOT NULL THEN
+    SELECT team_id INTO NEW.team_id FROM public.ticket_queues WHERE id = NEW.queue_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tickets_new_sync_team_from_queue ON public.tickets_new;
+CREATE TRIGGER tickets_new_sync_team_from_queue
+  BEFORE INSERT OR UPDATE OF queue_id ON public.tickets_new
+  FOR EACH ROW EXECUTE FUNCTION sync_ticket_team_from_queue();
+
+-- Used by the policies below; SECURITY DEFINER so it can read team_members
+-- without going through its own policies
+CREATE OR REPLACE FUNCTION is_team_lead(p_team_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = p_team_id AND user_id = auth.uid() AND role = 'lead'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Queue pulls show up in the assignment audit
+ALTER TABLE public.ticket_assignment_audit DROP CONSTRAINT IF EXISTS ticket_assignment_audit_method_check;
+ALTER TABLE public.ticket_assignment_audit
+  ADD CONSTRAINT ticket_assignment_audit_method_check CHECK (method IN ('rule', 'intelligent', 'manual', 'rebalance', 'queue'));
+
+-- Assign the most urgent, then oldest, unassigned ticket from one of the
+-- caller's queues to the caller. Returns the ticket id, or NULL when the
+-- queues are empty. SKIP LOCKED keeps two agents from pulling the same ticket.
+CREATE OR REPLACE FUNCTION pull_next_ticket(p_queue_id UUID DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_ticket_id UUID;
+  v_queue_name TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')) THEN
+    RAISE EXCEPTION 'Only agents can pull tickets from a queue';
+  END IF;
+
+  IF p_queue_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.ticket_queues q
+    JOIN public.team_members m ON m.team_id = q.team_id
+    WHERE q.id = p_queue_id AND m.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You are not a member of the team that owns this queue';
+  END IF;
+
+  SELECT t.id, q.name INTO v_ticket_id, v_queue_name
+  FROM public.tickets_new t
+  JOIN public.ticket_queues q ON q.id = t.queue_id
+  WHERE t.assigned_to IS NULL
+    AND t.status = 'open'
+    AND q.is_active
+    AND (
+      t.queue_id = p_queue_id
+      OR (p_queue_id IS NULL AND q.team_id IN (SELECT team_id FROM public.team_members WHERE user_id = auth.uid()))
+    )
+  ORDER BY
+    CASE t.priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+    t.created_at
+  LIMIT 1
+  FOR UPDATE OF t SKIP LOCKED;
+
+  IF v_ticket_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.tickets_new
+  SET assigned_to = auth.uid(),
+      status = 'in_progress',
+      updated_at = NOW()
+  WHERE id = v_ticket_id;
+
+  INSERT INTO public.ticket_assignment_audit (ticket_id, assigned_to, assigned_by, method, reason)
+  VALUES (v_ticket_id, auth.uid(), auth.uid(), 'queue', 'Pulled from queue "' || v_queue_name || '"');
+
+  RETURN v_ticket_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ticket_queues ENABLE ROW LEVEL SECURITY;
+
+-- Routing runs in agent sessions, so agents need to read teams and queues
+CREATE POLICY teams_agent_read_policy ON public.teams
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY teams_admin_policy ON public.teams
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY team_members_agent_read_policy ON public.team_members
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+-- Team leads manage the members and queues of their own team
+CREATE POLICY team_members_manage_policy ON public.team_members
+  FOR ALL
+  TO authenticated
+  USING (
+    is_team_lead(team_id)
+    OR EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin')
+  )
+  WITH CHECK (
+    is_team_lead(team_id)
+    OR EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+CREATE POLICY ticket_queues_agent_read_policy ON public.ticket_queues
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY ticket_queues_manage_policy ON public.ticket_queues
+  FOR ALL
+  TO authenticated
+  USING (
+    is_team_lead(team_id)
+    OR EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin')
+  )
+  WITH CHECK (
+    is_team_lead(team_id)
+    OR EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+REVOKE EXECUTE ON FUNCTION pull_next_ticket(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION pull_next_ticket(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION is_team_lead(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION is_team_lead(UUID) TO authenticated;
+
+COMMENT ON TABLE public.teams IS 'Support teams that own ticket queues';
+COMMENT ON TABLE public.team_members IS 'Team membership; leads manage their team''s members and queues';
+COMMENT ON TABLE public.ticket_queues IS 'Queues of unassigned tickets that team members pull from';
+COMMENT ON COLUMN public.tickets_new.queue_id IS 'Queue the ticket was routed to, kept after someone takes it';
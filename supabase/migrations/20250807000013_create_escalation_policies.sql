@@ -0,0 +1,103 @@
+-- Escalation policies: ordered chains of steps that run while a ticket stays
+-- unresolved (reassign, raise priority, page the team lead, notify admins).
+-- Every executed step is recorded once per ticket and in the activity log.
+
+CREATE TABLE IF NOT EXISTS public.escalation_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  priorities TEXT[] NOT NULL DEFAULT '{}',   -- empty matches every priority
+  category_ids UUID[] NOT NULL DEFAULT '{}', -- empty matches every category
+  sort_order INTEGER NOT NULL DEFAULT 0,     -- the first matching policy applies
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.escalation_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  policy_id UUID NOT NULL REFERENCES escalation_policies(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL DEFAULT 0,
+  after_minutes INTEGER NOT NULL CHECK (after_minutes >= 0), -- since the ticket was created
+  action VARCHAR(30) NOT NULL CHECK (action IN ('reassign', 'raise_priority', 'notify_team_lead', 'notify_admin')),
+  config JSONB NOT NULL DEFAULT '{}', -- reassign: {"team": slug or id}; raise_priority: {"priority": target}
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per executed step. step_key is the step id, or "rule:<rule id>" for
+-- the escalateAfter action of the assignment rule that routed the ticket; the
+-- unique key lets the first browser that gets there claim the step.
+CREATE TABLE IF NOT EXISTS public.ticket_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES tickets_new(id) ON DELETE CASCADE,
+  step_key TEXT NOT NULL,
+  policy_id UUID REFERENCES escalation_policies(id) ON DELETE SET NULL,
+  step_id UUID REFERENCES escalation_steps(id) ON DELETE SET NULL,
+  rule_id UUID, -- no FK: history outlives deleted rules
+  action VARCHAR(30) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done', 'skipped', 'failed')),
+  details TEXT,
+  executed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (ticket_id, step_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_escalation_steps_policy ON public.escalation_steps(policy_id, step_order);
+CREATE INDEX IF NOT EXISTS idx_ticket_escalations_ticket ON public.ticket_escalations(ticket_id, executed_at DESC);
+
+-- Escalation steps show up in the ticket activity log
+ALTER TABLE public.ticket_activity_logs
+DROP CONSTRAINT IF EXISTS ticket_activity_logs_action_type_check;
+
+ALTER TABLE public.ticket_activity_logs
+ADD CONSTRAINT ticket_activity_logs_action_type_check
+CHECK (action_type IN (
+    'created', 'status_changed', 'priority_changed', 'assigned',
+    'unassigned', 'comment_added', 'resolution_added', 'reopened',
+    'closed', 'feedback_received', 'category_changed', 'title_changed',
+    'description_changed', 'first_response', 'escalated'
+));
+
+-- Reassignments by an escalation show up in the assignment audit
+ALTER TABLE public.ticket_assignment_audit DROP CONSTRAINT IF EXISTS ticket_assignment_audit_method_check;
+ALTER TABLE public.ticket_assignment_audit
+  ADD CONSTRAINT ticket_assignment_audit_method_check
+  CHECK (method IN ('rule', 'intelligent', 'manual', 'rebalance', 'queue', 'escalation'));
+
+ALTER TABLE public.escalation_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.escalation_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ticket_escalations ENABLE ROW LEVEL SECURITY;
+
+-- The escalation task runs in agent sessions, so agents read policies and
+-- record the steps they execute
+CREATE POLICY escalation_policies_agent_read_policy ON public.escalation_policies
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY escalation_policies_admin_policy ON public.escalation_policies
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY escalation_steps_agent_read_policy ON public.escalation_steps
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY escalation_steps_admin_policy ON public.escalation_steps
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY ticket_escalations_agent_policy ON public.ticket_escalations
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+COMMENT ON TABLE public.escalation_policies IS 'Escalation chains matched to tickets by priority and category';
+COMMENT ON TABLE public.escalation_steps IS 'Steps of an escalation policy, run once a ticket has been open for after_minutes';
+COMMENT ON TABLE public.ticket_escalations IS 'Escalation steps executed per ticket';
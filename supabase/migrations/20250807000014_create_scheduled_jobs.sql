@@ -0,0 +1,196 @@
+-- Server-side scheduled jobs
+-- Auto-close and the SLA check used to run as setInterval loops in every open
+-- browser tab. They now run in the run-scheduled-jobs edge function, which
+-- pg_cron calls every minute. Each job holds a lock while it runs, so two
+-- invocations never work on the same job, and every run is recorded.
+
+CREATE TABLE IF NOT EXISTS public.scheduled_jobs (
+  key TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  interval_minutes INTEGER NOT NULL CHECK (interval_minutes > 0),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_status TEXT CHECK (last_status IN ('succeeded', 'failed')),
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.scheduled_job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_key TEXT NOT NULL REFERENCES public.scheduled_jobs(key) ON DELETE CASCADE,
+  trigger TEXT NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+  triggered_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  result JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job ON public.scheduled_job_runs(job_key, started_at DESC);
+
+INSERT INTO public.scheduled_jobs (key, name, description, interval_minutes)
+VALUES
+  ('auto_close', 'Auto-close resolved tickets', 'Closes resolved tickets with no new comments for 7 days', 60),
+  ('sla_check', 'SLA check', 'Notifies agents and admins about SLA warnings and breaches and queues SLA webhooks', 120)
+ON CONFLICT (key) DO NOTHING;
+
+-- Lock a job for one run and open its run record. Returns NULL when the job is
+-- already running, disabled or not due yet; manual runs skip the last two checks.
+-- Runs whose lock expired (a runner that died) are marked failed first.
+CREATE OR REPLACE FUNCTION public.claim_scheduled_job(
+  p_job_key TEXT,
+  p_manual BOOLEAN DEFAULT FALSE,
+  p_triggered_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_job public.scheduled_jobs%ROWTYPE;
+  v_run_id UUID;
+BEGIN
+  SELECT * INTO v_job FROM public.scheduled_jobs WHERE key = p_job_key FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown scheduled job %', p_job_key;
+  END IF;
+
+  IF v_job.locked_until IS NOT NULL AND v_job.locked_until > NOW() THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT p_manual AND (NOT v_job.enabled OR v_job.next_run_at > NOW()) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.scheduled_job_runs
+  SET status = 'failed', error = 'Lock expired before the run finished', finished_at = NOW()
+  WHERE job_key = p_job_key AND status = 'running';
+
+  UPDATE public.scheduled_jobs
+  SET locked_until = NOW() + INTERVAL '15 minutes', last_run_at = NOW(), updated_at = NOW()
+  WHERE key = p_job_key;
+
+  INSERT INTO public.scheduled_job_runs (job_key, trigger, triggered_by)
+  VALUES (p_job_key, CASE WHEN p_manual THEN 'manual' ELSE 'schedule' END, p_triggered_by)
+  RETURNING id INTO v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record the outcome of a run, release the job lock and schedule the next run
+CREATE OR REPLACE FUNCTION public.finish_scheduled_job(
+  p_run_id UUID,
+  p_status TEXT,
+  p_result JSONB DEFAULT '{}',
+  p_error TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_job_key TEXT;
+BEGIN
+  IF p_status NOT IN ('succeeded', 'failed') THEN
+    RAISE EXCEPTION 'Unknown run status %', p_status;
+  END IF;
+
+  UPDATE public.scheduled_job_runs
+  SET status = p_status, result = COALESCE(p_result, '{}'), error = p_error, finished_at = NOW()
+  WHERE id = p_run_id
+  RETURNING job_key INTO v_job_key;
+
+  IF v_job_key IS NULL THEN
+    RAISE EXCEPTION 'Unknown scheduled job run %', p_run_id;
+  END IF;
+
+  UPDATE public.scheduled_jobs
+  SET locked_until = NULL,
+      last_status = p_status,
+      next_run_at = NOW() + make_interval(mins => interval_minutes),
+      updated_at = NOW()
+  WHERE key = v_job_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The SLA check now queues its webhooks from the service role, which has no auth.uid()
+CREATE OR REPLACE FUNCTION queue_sla_webhook_event(
+  p_ticket_id UUID,
+  p_kind TEXT, -- 'warning' or 'breach'
+  p_target TEXT, -- 'response' or 'resolution'
+  p_details JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+    AND NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')) THEN
+    RAISE EXCEPTION 'Only agents and admins can report SLA events';
+  END IF;
+
+  IF p_kind NOT IN ('warning', 'breach') OR p_target NOT IN ('response', 'resolution') THEN
+    RAISE EXCEPTION 'Unknown SLA event %/%', p_kind, p_target;
+  END IF;
+
+  RETURN queue_webhook_event(
+    'sla.' || p_kind,
+    jsonb_build_object(
+      'ticket', (SELECT to_jsonb(t) FROM tickets_new t WHERE t.id = p_ticket_id),
+      'target', p_target,
+      'sla', p_details
+    ),
+    'sla.' || p_kind || ':' || p_ticket_id || ':' || p_target
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security (RLS) policies: admins can see jobs and runs and switch
+-- jobs on or off; runs are only written by the edge function
+ALTER TABLE public.scheduled_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scheduled_job_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view scheduled jobs"
+  ON public.scheduled_jobs FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY "Admins can update scheduled jobs"
+  ON public.scheduled_jobs FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY "Admins can view scheduled job runs"
+  ON public.scheduled_job_runs FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_job(TEXT, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finish_scheduled_job(UUID, TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_scheduled_job(TEXT, BOOLEAN, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finish_scheduled_job(UUID, TEXT, JSONB, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION queue_sla_webhook_event(UUID, TEXT, TEXT, JSONB) TO service_role;
+
+-- Call the runner every minute. Needs pg_cron and pg_net plus the project URL
+-- and service role key stored in Vault as 'project_url' and 'service_role_key';
+-- without them, schedule the run-scheduled-jobs function from outside instead.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'run-scheduled-jobs',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-scheduled-jobs',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.scheduled_jobs IS 'Server-side jobs run by the run-scheduled-jobs edge function, with their lock and schedule';
+COMMENT ON TABLE public.scheduled_job_runs IS 'One row per scheduled or manual job run, with its result or error';
+COMMENT ON FUNCTION public.claim_scheduled_job(TEXT, BOOLEAN, UUID) IS 'Locks a due job for the run-scheduled-jobs function and opens a run record';
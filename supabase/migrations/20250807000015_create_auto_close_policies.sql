@@ -0,0 +1,57 @@
+-- Auto-close policies per category and subcategory
+-- Replaces the fixed "resolved for 7 days with no activity" rule of the
+-- auto_close job. The most specific active policy applies: subcategory, then
+-- category, then the default policy. Requesters get a reminder some days before
+-- closure and can answer "still not fixed", which files a reopen request.
+
+CREATE TABLE IF NOT EXISTS public.auto_close_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+  subcategory_id UUID REFERENCES public.subcategories(id) ON DELETE CASCADE,
+  inactivity_days INTEGER NOT NULL CHECK (inactivity_days > 0),
+  reminder_days_before INTEGER NOT NULL DEFAULT 2 CHECK (reminder_days_before >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (reminder_days_before < inactivity_days),
+  CHECK (subcategory_id IS NULL OR category_id IS NOT NULL)
+);
+
+-- One policy per scope; the row without category is the default
+CREATE UNIQUE INDEX IF NOT EXISTS idx_auto_close_policies_scope ON public.auto_close_policies (
+  COALESCE(category_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  COALESCE(subcategory_id, '00000000-0000-0000-0000-000000000000'::uuid)
+);
+
+INSERT INTO public.auto_close_policies (name, inactivity_days, reminder_days_before)
+SELECT 'Default', 7, 2
+WHERE NOT EXISTS (SELECT 1 FROM public.auto_close_policies WHERE category_id IS NULL AND subcategory_id IS NULL);
+
+-- When the requester was last reminded; a reminder older than the latest
+-- resolution or comment belongs to an earlier round
+ALTER TABLE public.tickets_new
+ADD COLUMN IF NOT EXISTS auto_close_reminded_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'auto_close_reminder';
+
+UPDATE public.scheduled_jobs
+SET description = 'Reminds requesters and closes resolved tickets according to the auto-close policies'
+WHERE key = 'auto_close';
+
+-- Row Level Security (RLS) policies: everyone signed in can read them (the
+-- ticket page shows requesters when their ticket will close), admins manage them
+ALTER TABLE public.auto_close_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view auto-close policies"
+  ON public.auto_close_policies FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage auto-close policies"
+  ON public.auto_close_policies FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+COMMENT ON TABLE public.auto_close_policies IS 'Inactivity window and reminder lead time before resolved tickets are closed, per category or subcategory';
+COMMENT ON COLUMN public.tickets_new.auto_close_reminded_at IS 'When the requester was last reminded that the resolved ticket will close automatically';
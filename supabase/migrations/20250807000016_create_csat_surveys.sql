@@ -0,0 +1,142 @@
+-- Customer satisfaction (CSAT) survey links
+-- Resolving a ticket queues a survey for the requester; the csat_surveys
+-- scheduled job emails it as a signed link that expires after 14 days. The
+-- csat-survey edge function checks the signature and stores the answer in
+-- ticket_feedback, so no sign-in is needed to rate a ticket.
+
+CREATE TABLE IF NOT EXISTS public.csat_surveys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES public.tickets_new(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  recipient_email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'answered', 'cancelled')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '14 days',
+  sent_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_csat_surveys_ticket_id ON public.csat_surveys(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_csat_surveys_pending ON public.csat_surveys(created_at) WHERE status = 'pending';
+
+-- Answers from survey links land next to the in-app feedback
+ALTER TABLE public.ticket_feedback
+ADD COLUMN IF NOT EXISTS nps_score INTEGER CHECK (nps_score >= 0 AND nps_score <= 10),
+ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'app' CHECK (source IN ('app', 'email_survey')),
+ADD COLUMN IF NOT EXISTS survey_id UUID REFERENCES public.csat_surveys(id) ON DELETE SET NULL;
+
+-- Queue a survey when a ticket is resolved, unless the requester already
+-- rated it or still holds a valid link from an earlier resolution
+CREATE OR REPLACE FUNCTION queue_csat_survey()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_email TEXT;
+BEGIN
+  IF NEW.status <> 'resolved' OR OLD.status = 'resolved' OR COALESCE(NEW.feedback_received, FALSE) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.csat_surveys
+    WHERE ticket_id = NEW.id
+      AND status IN ('pending', 'sent', 'answered')
+      AND (status = 'answered' OR expires_at > NOW())
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT email INTO v_email FROM public.users WHERE id = NEW.user_id;
+  IF v_email IS NULL OR v_email = '' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.csat_surveys (ticket_id, user_id, recipient_email)
+  VALUES (NEW.id, NEW.user_id, v_email);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_queue_csat_survey ON public.tickets_new;
+CREATE TRIGGER trigger_queue_csat_survey
+  AFTER UPDATE OF status ON public.tickets_new
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_csat_survey();
+
+INSERT INTO public.scheduled_jobs (key, name, description, interval_minutes)
+VALUES ('csat_surveys', 'Satisfaction surveys', 'Emails signed satisfaction survey links for resolved tickets', 15)
+ON CONFLICT (key) DO NOTHING;
+
+-- Statistics now include survey answers, the recommendation score (NPS) and
+-- feedback on the tickets assigned to the agent rather than matching names only
+CREATE OR REPLACE FUNCTION get_feedback_statistics(agent_uuid UUID DEFAULT NULL)
+RETURNS JSON AS $$
+DECLARE
+    result JSON;
+BEGIN
+    SELECT json_build_object(
+        'total_feedback', COUNT(*),
+        'average_rating', ROUND(AVG(f.rating)::numeric, 2),
+        'satisfaction_breakdown', json_build_object(
+            'satisfied', COUNT(*) FILTER (WHERE f.satisfaction = 'satisfied'),
+            'neutral', COUNT(*) FILTER (WHERE f.satisfaction = 'neutral'),
+            'unsatisfied', COUNT(*) FILTER (WHERE f.satisfaction = 'unsatisfied')
+        ),
+        'rating_breakdown', json_build_object(
+            'rating_5', COUNT(*) FILTER (WHERE f.rating = 5),
+            'rating_4', COUNT(*) FILTER (WHERE f.rating = 4),
+            'rating_3', COUNT(*) FILTER (WHERE f.rating = 3),
+            'rating_2', COUNT(*) FILTER (WHERE f.rating = 2),
+            'rating_1', COUNT(*) FILTER (WHERE f.rating = 1)
+        ),
+        'source_breakdown', json_build_object(
+            'app', COUNT(*) FILTER (WHERE f.source = 'app'),
+            'email_survey', COUNT(*) FILTER (WHERE f.source = 'email_survey')
+        ),
+        'nps', json_build_object(
+            'responses', COUNT(f.nps_score),
+            'promoters', COUNT(*) FILTER (WHERE f.nps_score >= 9),
+            'passives', COUNT(*) FILTER (WHERE f.nps_score BETWEEN 7 AND 8),
+            'detractors', COUNT(*) FILTER (WHERE f.nps_score <= 6),
+            'score', CASE WHEN COUNT(f.nps_score) = 0 THEN NULL ELSE ROUND(
+                100.0 * (COUNT(*) FILTER (WHERE f.nps_score >= 9) - COUNT(*) FILTER (WHERE f.nps_score <= 6))
+                / COUNT(f.nps_score)
+            ) END
+        ),
+        'surveys', (
+            SELECT json_build_object(
+                'sent', COUNT(*) FILTER (WHERE s.status IN ('sent', 'answered')),
+                'answered', COUNT(*) FILTER (WHERE s.status = 'answered')
+            )
+            FROM public.csat_surveys s
+            LEFT JOIN public.tickets_new st ON st.id = s.ticket_id
+            WHERE agent_uuid IS NULL OR st.assigned_to = agent_uuid
+        )
+    ) INTO result
+    FROM public.ticket_feedback f
+    LEFT JOIN public.tickets_new t ON t.id = f.ticket_id
+    WHERE agent_uuid IS NULL OR t.assigned_to = agent_uuid OR f.agent_name = (
+        SELECT full_name FROM public.users WHERE id = agent_uuid
+    );
+
+    RETURN COALESCE(result, '{}'::json);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Row Level Security (RLS) policies: recipients never read this table (the
+-- edge function does, with the service role); agents and admins can follow up
+ALTER TABLE public.csat_surveys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view CSAT surveys"
+  ON public.csat_surveys FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY "Admins can manage CSAT surveys"
+  ON public.csat_surveys FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+COMMENT ON TABLE public.csat_surveys IS 'Satisfaction survey links emailed to requesters when their ticket is resolved';
+COMMENT ON COLUMN public.csat_surveys.expires_at IS 'Also signed into the link token, so the link cannot be extended';
+COMMENT ON COLUMN public.ticket_feedback.nps_score IS 'How likely the requester is to recommend the service, 0-10';
+COMMENT ON COLUMN public.ticket_feedback.source IS 'app: rated inside the app; email_survey: answered through a survey link';
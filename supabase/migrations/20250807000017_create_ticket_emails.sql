@@ -0,0 +1,35 @@
+-- Inbound email gateway
+-- Every message received by the inbound-email edge function is logged here
+-- with what became of it: a new ticket, a comment on the ticket it replied to,
+-- a duplicate delivery or a rejection. The Message-IDs let later replies
+-- thread onto the right ticket through In-Reply-To and References.
+
+CREATE TABLE IF NOT EXISTS public.ticket_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID REFERENCES public.tickets_new(id) ON DELETE SET NULL,
+  comment_id UUID REFERENCES public.ticket_comments_new(id) ON DELETE SET NULL,
+  direction TEXT NOT NULL DEFAULT 'inbound' CHECK (direction IN ('inbound', 'outbound')),
+  message_id TEXT,
+  in_reply_to TEXT,
+  from_address TEXT,
+  subject TEXT,
+  status TEXT NOT NULL CHECK (status IN ('created', 'threaded', 'duplicate', 'rejected')),
+  reason TEXT, -- Why a message was rejected: missing_sender, auto_reply, unknown_sender
+  attachment_count INTEGER NOT NULL DEFAULT 0,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_emails_message_id ON public.ticket_emails(message_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_emails_ticket_id ON public.ticket_emails(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_emails_received_at ON public.ticket_emails(received_at DESC);
+
+-- Row Level Security (RLS) policies: only the edge function (service role)
+-- writes; agents and admins can see what arrived and why it was rejected
+ALTER TABLE public.ticket_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view ticket emails"
+  ON public.ticket_emails FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+COMMENT ON TABLE public.ticket_emails IS 'Emails received by the inbound gateway and what it did with them';
+COMMENT ON COLUMN public.ticket_emails.message_id IS 'Message-ID header without angle brackets';
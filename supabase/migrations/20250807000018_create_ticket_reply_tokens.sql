@@ -0,0 +1,47 @@
+-- Reply-by-email
+-- Ticket update emails are sent with a Reply-To address reply+<token>@<inbound
+-- domain>. The token stands for one ticket and the user the email went to, so
+-- the inbound gateway knows where a reply belongs and who may have written it.
+
+CREATE TABLE IF NOT EXISTS public.ticket_reply_tokens (
+  token TEXT PRIMARY KEY DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  ticket_id UUID NOT NULL REFERENCES public.tickets_new(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (ticket_id, user_id)
+);
+
+-- Only the edge functions (service role) and the function below touch tokens:
+-- a token is as good as the user's permission to comment on the ticket
+ALTER TABLE public.ticket_reply_tokens ENABLE ROW LEVEL SECURITY;
+
+-- The reply token of a user for a ticket, created on first use. Agents and
+-- admins send updates to requesters; anybody else only gets their own token.
+CREATE OR REPLACE FUNCTION get_ticket_reply_token(p_ticket_id UUID, p_user_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF p_user_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only agents can create reply addresses for other users';
+  END IF;
+
+  INSERT INTO public.ticket_reply_tokens (ticket_id, user_id)
+  VALUES (p_ticket_id, p_user_id)
+  ON CONFLICT (ticket_id, user_id) DO NOTHING;
+
+  SELECT token INTO v_token
+  FROM public.ticket_reply_tokens
+  WHERE ticket_id = p_ticket_id AND user_id = p_user_id;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_ticket_reply_token(UUID, UUID) TO authenticated;
+
+COMMENT ON TABLE public.ticket_reply_tokens IS 'Tokens of the per ticket and user Reply-To addresses of ticket update emails';
+COMMENT ON COLUMN public.ticket_emails.reason IS 'Why a message was rejected: missing_sender, auto_reply, unknown_sender, or for replies to a reply address invalid_reply_token, sender_mismatch, comment_not_allowed, empty_reply';
@@ -0,0 +1,61 @@
+-- Email templates and sender identity
+-- Admins override the built-in template of an event per locale and set the
+-- branding and the sender every email goes out with. Templates without an
+-- override here use the built-in version of their locale.
+
+CREATE TABLE IF NOT EXISTS public.email_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event TEXT NOT NULL CHECK (event IN ('ticket_created', 'ticket_updated', 'user_invitation')),
+  locale TEXT NOT NULL CHECK (locale IN ('en-US', 'pt-BR', 'es-ES', 'fr-FR', 'nl-NL', 'de-DE')),
+  subject TEXT NOT NULL,
+  body_html TEXT NOT NULL,
+  body_text TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (event, locale)
+);
+
+-- A single row: TRUE is the only id there can be
+CREATE TABLE IF NOT EXISTS public.email_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  from_name TEXT NOT NULL DEFAULT 'ACS Ticket System',
+  from_address TEXT NOT NULL DEFAULT 'onboarding@resend.dev',
+  reply_to_address TEXT,
+  company_name TEXT NOT NULL DEFAULT 'AnalytiChem',
+  logo_url TEXT,
+  primary_color TEXT NOT NULL DEFAULT '#1e40af' CHECK (primary_color ~ '^#[0-9a-fA-F]{6}$'),
+  footer_text TEXT DEFAULT '{{companyName}}',
+  updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.email_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+-- Row Level Security (RLS) policies: emails are rendered in the app for
+-- whoever triggers them, so everybody signed in reads; only admins edit
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view email templates"
+  ON public.email_templates FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage email templates"
+  ON public.email_templates FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY "Authenticated users can view email settings"
+  ON public.email_settings FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update email settings"
+  ON public.email_settings FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+COMMENT ON TABLE public.email_templates IS 'Admin versions of the built-in email templates, per event and locale';
+COMMENT ON TABLE public.email_settings IS 'Sender identity and branding of outgoing emails (single row)';
+COMMENT ON COLUMN public.email_settings.from_address IS 'Must belong to a domain verified with the email provider';
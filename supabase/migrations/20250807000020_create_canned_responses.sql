@@ -0,0 +1,113 @@
+-- Canned responses and macros
+-- Canned responses are reply snippets with {{placeholders}}; macros insert a
+-- reply and change the ticket (status, priority, assignee, tags) in one go.
+-- Both are personal (only their author sees them) or shared with every agent;
+-- only admins share. Agents pick them with /shortcut in the response box.
+
+CREATE TABLE IF NOT EXISTS public.canned_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title VARCHAR(120) NOT NULL,
+  shortcut VARCHAR(40) NOT NULL CHECK (shortcut ~ '^[a-z0-9][a-z0-9_-]*$'),
+  content TEXT NOT NULL,
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.ticket_macros (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(120) NOT NULL,
+  shortcut VARCHAR(40) NOT NULL CHECK (shortcut ~ '^[a-z0-9][a-z0-9_-]*$'),
+  description TEXT,
+  reply_content TEXT,                              -- optional; may use the same placeholders
+  reply_is_internal BOOLEAN NOT NULL DEFAULT false,
+  -- {"status", "priority", "assigned_to" (user id, "me" or null to unassign),
+  --  "add_tag_ids": [], "remove_tag_ids": []}; missing keys leave the field alone
+  actions JSONB NOT NULL DEFAULT '{}',
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_canned_responses_owner ON public.canned_responses(created_by) WHERE NOT is_shared;
+CREATE INDEX IF NOT EXISTS idx_ticket_macros_owner ON public.ticket_macros(created_by) WHERE NOT is_shared;
+
+ALTER TABLE public.canned_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ticket_macros ENABLE ROW LEVEL SECURITY;
+
+-- Agents see shared entries and their own; they write only their own personal
+-- ones. Admins manage everything.
+CREATE POLICY canned_responses_read_policy ON public.canned_responses
+  FOR SELECT
+  TO authenticated
+  USING (
+    (is_shared OR created_by = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin'))
+  );
+
+CREATE POLICY canned_responses_owner_policy ON public.canned_responses
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid() AND NOT is_shared)
+  WITH CHECK (
+    created_by = auth.uid() AND NOT is_shared
+    AND EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin'))
+  );
+
+CREATE POLICY canned_responses_admin_policy ON public.canned_responses
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+CREATE POLICY ticket_macros_read_policy ON public.ticket_macros
+  FOR SELECT
+  TO authenticated
+  USING (
+    (is_shared OR created_by = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin'))
+  );
+
+CREATE POLICY ticket_macros_owner_policy ON public.ticket_macros
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid() AND NOT is_shared)
+  WITH CHECK (
+    created_by = auth.uid() AND NOT is_shared
+    AND EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin'))
+  );
+
+CREATE POLICY ticket_macros_admin_policy ON public.ticket_macros
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Usage counts rank the picker; agents may not update shared rows, so the
+-- count goes through a function
+CREATE OR REPLACE FUNCTION public.record_snippet_use(p_kind TEXT, p_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_kind = 'response' THEN
+    UPDATE public.canned_responses SET usage_count = usage_count + 1
+    WHERE id = p_id AND (is_shared OR created_by = auth.uid());
+  ELSIF p_kind = 'macro' THEN
+    UPDATE public.ticket_macros SET usage_count = usage_count + 1
+    WHERE id = p_id AND (is_shared OR created_by = auth.uid());
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_snippet_use(TEXT, UUID) TO authenticated;
+
+COMMENT ON TABLE public.canned_responses IS 'Reply snippets with placeholders, personal or shared with all agents';
+COMMENT ON TABLE public.ticket_macros IS 'A reply plus ticket field changes applied in one action';
+COMMENT ON COLUMN public.ticket_macros.actions IS 'status, priority, assigned_to (user id, "me" or null), add_tag_ids, remove_tag_ids';
@@ -0,0 +1,175 @@
+-- Ticket merging
+-- Merging moves the conversation and work of a source ticket (comments,
+-- attachments, chat messages, tasks, activity, tags, emails) into a target
+-- ticket and closes the source with a pointer to it. Everything happens in one
+-- transaction inside merge_tickets, so a failed merge leaves both untouched.
+
+ALTER TABLE public.tickets_new
+ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES public.tickets_new(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_new_merged_into ON public.tickets_new(merged_into_id) WHERE merged_into_id IS NOT NULL;
+
+-- Duplicate detection looks at a requester's recent tickets
+CREATE INDEX IF NOT EXISTS idx_tickets_new_user_created ON public.tickets_new(user_id, created_at DESC);
+
+-- Merges show up in the ticket activity log
+ALTER TABLE public.ticket_activity_logs
+DROP CONSTRAINT IF EXISTS ticket_activity_logs_action_type_check;
+
+ALTER TABLE public.ticket_activity_logs
+ADD CONSTRAINT ticket_activity_logs_action_type_check
+CHECK (action_type IN (
+    'created', 'status_changed', 'priority_changed', 'assigned',
+    'unassigned', 'comment_added', 'resolution_added', 'reopened',
+    'closed', 'feedback_received', 'category_changed', 'title_changed',
+    'description_changed', 'first_response', 'escalated', 'merged'
+));
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'ticket_merged';
+
+-- Moves everything from p_source_id to p_target_id and closes the source.
+-- Creation and first-response entries stay with the source: they describe its
+-- own lifecycle and SLA, not the target's. Returns what was moved.
+CREATE OR REPLACE FUNCTION public.merge_tickets(
+  p_source_id UUID,
+  p_target_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_source RECORD;
+  v_target RECORD;
+  v_target_chat_id UUID;
+  v_comments INTEGER;
+  v_attachments INTEGER;
+  v_chat_messages INTEGER := 0;
+  v_tasks INTEGER;
+  v_todos INTEGER;
+  v_activity INTEGER;
+  v_now TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = v_user_id AND role IN ('agent', 'admin')) THEN
+    RAISE EXCEPTION 'Only agents and admins can merge tickets' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'A ticket cannot be merged into itself';
+  END IF;
+
+  -- Lock both tickets in a fixed order so two crossing merges cannot deadlock
+  PERFORM 1 FROM tickets_new WHERE id IN (p_source_id, p_target_id) ORDER BY id FOR UPDATE;
+
+  SELECT id, ticket_number, status, merged_into_id INTO v_source FROM tickets_new WHERE id = p_source_id;
+  SELECT id, ticket_number, status, merged_into_id INTO v_target FROM tickets_new WHERE id = p_target_id;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+  IF v_source.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Ticket % was already merged', v_source.ticket_number;
+  END IF;
+  IF v_target.merged_into_id IS NOT NULL OR v_target.status = 'closed' THEN
+    RAISE EXCEPTION 'Ticket % is closed and cannot receive a merge', v_target.ticket_number;
+  END IF;
+
+  UPDATE ticket_comments_new SET ticket_id = p_target_id WHERE ticket_id = p_source_id;
+  GET DIAGNOSTICS v_comments = ROW_COUNT;
+
+  UPDATE ticket_attachments SET ticket_id = p_target_id WHERE ticket_id = p_source_id;
+  GET DIAGNOSTICS v_attachments = ROW_COUNT;
+
+  IF EXISTS (SELECT 1 FROM ticket_chats WHERE ticket_id = p_source_id) THEN
+    SELECT id INTO v_target_chat_id FROM ticket_chats WHERE ticket_id = p_target_id ORDER BY created_at LIMIT 1;
+    IF v_target_chat_id IS NULL THEN
+      INSERT INTO ticket_chats (ticket_id, chat_type, is_active) VALUES (p_target_id, 'ticket', true)
+      RETURNING id INTO v_target_chat_id;
+    END IF;
+
+    UPDATE chat_messages SET chat_id = v_target_chat_id
+    WHERE chat_id IN (SELECT id FROM ticket_chats WHERE ticket_id = p_source_id);
+    GET DIAGNOSTICS v_chat_messages = ROW_COUNT;
+
+    INSERT INTO chat_participants (chat_id, user_id, can_write)
+    SELECT DISTINCT v_target_chat_id, cp.user_id, true
+    FROM chat_participants cp
+    JOIN ticket_chats tc ON tc.id = cp.chat_id
+    WHERE tc.ticket_id = p_source_id
+    ON CONFLICT (chat_id, user_id) DO NOTHING;
+
+    UPDATE ticket_chats SET is_active = false, updated_at = v_now WHERE ticket_id = p_source_id;
+  END IF;
+
+  UPDATE ticket_tasks SET ticket_id = p_target_id, updated_at = v_now WHERE ticket_id = p_source_id;
+  GET DIAGNOSTICS v_tasks = ROW_COUNT;
+
+  UPDATE todo_tasks SET ticket_id = p_target_id, updated_at = v_now WHERE ticket_id = p_source_id;
+  GET DIAGNOSTICS v_todos = ROW_COUNT;
+
+  UPDATE ticket_activity_logs
+  SET ticket_id = p_target_id,
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('merged_from', v_source.ticket_number)
+  WHERE ticket_id = p_source_id
+    AND action_type NOT IN ('created', 'first_response');
+  GET DIAGNOSTICS v_activity = ROW_COUNT;
+
+  INSERT INTO ticket_tags (ticket_id, tag_id, added_by)
+  SELECT p_target_id, tag_id, added_by FROM ticket_tags WHERE ticket_id = p_source_id
+  ON CONFLICT (ticket_id, tag_id) DO NOTHING;
+
+  UPDATE ticket_emails SET ticket_id = p_target_id WHERE ticket_id = p_source_id;
+
+  UPDATE tickets_new
+  SET status = 'closed',
+      merged_into_id = p_target_id,
+      resolution = COALESCE(NULLIF(resolution, ''), 'Merged into ' || v_target.ticket_number),
+      closed_at = v_now,
+      closed_by = v_user_id,
+      updated_at = v_now
+  WHERE id = p_source_id;
+
+  UPDATE tickets_new SET updated_at = v_now WHERE id = p_target_id;
+
+  -- The pointers both requesters see in the conversation
+  INSERT INTO ticket_comments_new (ticket_id, user_id, content, is_internal)
+  VALUES
+    (p_source_id, v_user_id,
+     'This ticket was merged into ' || v_target.ticket_number || '. The conversation continues there.'
+       || COALESCE(E'\n\n' || NULLIF(TRIM(p_note), ''), ''),
+     false),
+    (p_target_id, v_user_id,
+     'Ticket ' || v_source.ticket_number || ' was merged into this ticket, with its comments and attachments.'
+       || COALESCE(E'\n\n' || NULLIF(TRIM(p_note), ''), ''),
+     false);
+
+  PERFORM log_ticket_activity(
+    p_source_id, v_user_id, 'merged', 'merged_into_id', NULL, v_target.ticket_number,
+    'Merged into ' || v_target.ticket_number,
+    jsonb_build_object('target_id', p_target_id, 'direction', 'out')
+  );
+  PERFORM log_ticket_activity(
+    p_target_id, v_user_id, 'merged', NULL, v_source.ticket_number, NULL,
+    v_source.ticket_number || ' merged into this ticket',
+    jsonb_build_object('source_id', p_source_id, 'direction', 'in')
+  );
+
+  RETURN jsonb_build_object(
+    'source_number', v_source.ticket_number,
+    'target_number', v_target.ticket_number,
+    'comments', v_comments,
+    'attachments', v_attachments,
+    'chat_messages', v_chat_messages,
+    'tasks', v_tasks + v_todos,
+    'activity_logs', v_activity
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_tickets(UUID, UUID, TEXT) TO authenticated;
+
+COMMENT ON COLUMN public.tickets_new.merged_into_id IS 'Ticket this one was merged into; set together with status closed';
+COMMENT ON FUNCTION public.merge_tickets(UUID, UUID, TEXT) IS 'Moves comments, attachments, chat, tasks, activity, tags and emails of a ticket into another and closes it';
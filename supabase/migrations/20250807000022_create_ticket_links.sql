@@ -0,0 +1,143 @@
+-- Linked tickets
+-- A link is stored once, in one direction: "source parent_of target", "source
+-- blocks target", "source duplicate_of target" or "source related target".
+-- The other side (child of, blocked by, duplicated by) is read from the same
+-- row. A ticket has at most one parent, and parent links cannot form cycles,
+-- so an incident with many user tickets is one parent with many children.
+
+CREATE TABLE IF NOT EXISTS public.ticket_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_ticket_id UUID NOT NULL REFERENCES public.tickets_new(id) ON DELETE CASCADE,
+  target_ticket_id UUID NOT NULL REFERENCES public.tickets_new(id) ON DELETE CASCADE,
+  link_type TEXT NOT NULL CHECK (link_type IN ('parent_of', 'blocks', 'related', 'duplicate_of')),
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (source_ticket_id <> target_ticket_id),
+  UNIQUE (source_ticket_id, target_ticket_id, link_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_links_source ON public.ticket_links(source_ticket_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_links_target ON public.ticket_links(target_ticket_id);
+
+-- One parent per ticket
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_links_single_parent
+  ON public.ticket_links(target_ticket_id) WHERE link_type = 'parent_of';
+
+-- "Related" has no direction; keep one row per pair
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_links_related_pair
+  ON public.ticket_links(LEAST(source_ticket_id, target_ticket_id), GREATEST(source_ticket_id, target_ticket_id))
+  WHERE link_type = 'related';
+
+ALTER TABLE public.ticket_links ENABLE ROW LEVEL SECURITY;
+
+-- Agents and admins manage links; requesters see the links of their own tickets
+CREATE POLICY ticket_links_agent_policy ON public.ticket_links
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin')));
+
+CREATE POLICY ticket_links_requester_read_policy ON public.ticket_links
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tickets_new
+      WHERE tickets_new.id IN (ticket_links.source_ticket_id, ticket_links.target_ticket_id)
+        AND tickets_new.user_id = auth.uid()
+    )
+  );
+
+-- Rejects parent links that would make a ticket its own ancestor
+CREATE OR REPLACE FUNCTION public.check_ticket_link_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.link_type = 'parent_of' AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT source_ticket_id AS id FROM ticket_links
+      WHERE target_ticket_id = NEW.source_ticket_id AND link_type = 'parent_of'
+      UNION
+      SELECT l.source_ticket_id FROM ticket_links l
+      JOIN ancestors a ON l.target_ticket_id = a.id
+      WHERE l.link_type = 'parent_of'
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.target_ticket_id
+  ) THEN
+    RAISE EXCEPTION 'A ticket cannot be the parent of one of its ancestors';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ticket_links_cycle_check ON public.ticket_links;
+CREATE TRIGGER ticket_links_cycle_check
+  BEFORE INSERT OR UPDATE ON public.ticket_links
+  FOR EACH ROW EXECUTE FUNCTION public.check_ticket_link_cycle();
+
+-- Links show up in the activity log of both tickets
+ALTER TABLE public.ticket_activity_logs
+DROP CONSTRAINT IF EXISTS ticket_activity_logs_action_type_check;
+
+ALTER TABLE public.ticket_activity_logs
+ADD CONSTRAINT ticket_activity_logs_action_type_check
+CHECK (action_type IN (
+    'created', 'status_changed', 'priority_changed', 'assigned',
+    'unassigned', 'comment_added', 'resolution_added', 'reopened',
+    'closed', 'feedback_received', 'category_changed', 'title_changed',
+    'description_changed', 'first_response', 'escalated', 'merged',
+    'linked', 'unlinked'
+));
+
+CREATE OR REPLACE FUNCTION public.log_ticket_link_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link ticket_links;
+  v_action TEXT;
+  v_source_number TEXT;
+  v_target_number TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_link := NEW;
+    v_action := 'linked';
+  ELSE
+    v_link := OLD;
+    v_action := 'unlinked';
+  END IF;
+
+  SELECT ticket_number INTO v_source_number FROM tickets_new WHERE id = v_link.source_ticket_id;
+  SELECT ticket_number INTO v_target_number FROM tickets_new WHERE id = v_link.target_ticket_id;
+
+  -- Tickets being deleted take their links along; nothing to log then
+  IF v_source_number IS NULL OR v_target_number IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM log_ticket_activity(
+    v_link.source_ticket_id, auth.uid(), v_action, 'link', NULL, v_target_number,
+    v_action || ' ' || v_link.link_type || ' ' || v_target_number,
+    jsonb_build_object('link_type', v_link.link_type, 'direction', 'out', 'other_ticket_id', v_link.target_ticket_id)
+  );
+  PERFORM log_ticket_activity(
+    v_link.target_ticket_id, auth.uid(), v_action, 'link', NULL, v_source_number,
+    v_action || ' ' || v_link.link_type || ' from ' || v_source_number,
+    jsonb_build_object('link_type', v_link.link_type, 'direction', 'in', 'other_ticket_id', v_link.source_ticket_id)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ticket_links_activity ON public.ticket_links;
+CREATE TRIGGER ticket_links_activity
+  AFTER INSERT OR DELETE ON public.ticket_links
+  FOR EACH ROW EXECUTE FUNCTION public.log_ticket_link_change();
+
+COMMENT ON TABLE public.ticket_links IS 'Typed links between tickets: parent_of, blocks, related, duplicate_of (stored in one direction)';
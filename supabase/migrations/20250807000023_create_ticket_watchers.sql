@@ -0,0 +1,83 @@
+-- Ticket watchers and CC addresses
+-- Watchers are users who follow a ticket besides its requester and assignee
+-- (a manager, a colleague with the same problem); they get the same status,
+-- comment and resolution notifications, filtered by their own preferences.
+-- CC addresses are people without an account who get the public updates by
+-- email.
+
+CREATE TABLE IF NOT EXISTS public.ticket_watchers (
+  ticket_id UUID NOT NULL REFERENCES public.tickets_new(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (ticket_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_watchers_user ON public.ticket_watchers(user_id);
+
+CREATE TABLE IF NOT EXISTS public.ticket_cc_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES public.tickets_new(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email ~ '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  added_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_cc_emails_unique ON public.ticket_cc_emails(ticket_id, LOWER(email));
+
+ALTER TABLE public.ticket_watchers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ticket_cc_emails ENABLE ROW LEVEL SECURITY;
+
+-- Anyone follows or unfollows for themselves; agents, admins and the ticket's
+-- requester manage the whole list
+CREATE POLICY ticket_watchers_self_policy ON public.ticket_watchers
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY ticket_watchers_manage_policy ON public.ticket_watchers
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin'))
+    OR EXISTS (SELECT 1 FROM public.tickets_new WHERE tickets_new.id = ticket_watchers.ticket_id AND tickets_new.user_id = auth.uid())
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin'))
+    OR EXISTS (SELECT 1 FROM public.tickets_new WHERE tickets_new.id = ticket_watchers.ticket_id AND tickets_new.user_id = auth.uid())
+  );
+
+-- Watchers see who else follows the ticket. The check runs as definer: a
+-- policy on ticket_watchers cannot query ticket_watchers itself.
+CREATE OR REPLACE FUNCTION public.is_ticket_watcher(p_ticket_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM ticket_watchers WHERE ticket_id = p_ticket_id AND user_id = auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_ticket_watcher(UUID) TO authenticated;
+
+CREATE POLICY ticket_watchers_read_policy ON public.ticket_watchers
+  FOR SELECT
+  TO authenticated
+  USING (public.is_ticket_watcher(ticket_id));
+
+CREATE POLICY ticket_cc_emails_manage_policy ON public.ticket_cc_emails
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin'))
+    OR EXISTS (SELECT 1 FROM public.tickets_new WHERE tickets_new.id = ticket_cc_emails.ticket_id AND tickets_new.user_id = auth.uid())
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role IN ('agent', 'admin'))
+    OR EXISTS (SELECT 1 FROM public.tickets_new WHERE tickets_new.id = ticket_cc_emails.ticket_id AND tickets_new.user_id = auth.uid())
+  );
+
+COMMENT ON TABLE public.ticket_watchers IS 'Users following a ticket; notified of status, comment and resolution changes';
+COMMENT ON TABLE public.ticket_cc_emails IS 'External addresses copied on public ticket updates by email';
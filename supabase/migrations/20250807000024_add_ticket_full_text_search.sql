@@ -0,0 +1,268 @@
+-- Full-text ticket search
+-- One search document per ticket, built from its number, title, description,
+-- dynamic form answers, comments and chat messages and kept current by
+-- triggers. Internal comments and internal chat messages go to a separate
+-- document that only agents and admins search. The 'simple' configuration is
+-- used because tickets are written in several languages.
+
+CREATE TABLE IF NOT EXISTS public.ticket_search_documents (
+  ticket_id UUID PRIMARY KEY REFERENCES public.tickets_new(id) ON DELETE CASCADE,
+  document TSVECTOR NOT NULL DEFAULT ''::tsvector,
+  internal_document TSVECTOR NOT NULL DEFAULT ''::tsvector,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_search_documents_document ON public.ticket_search_documents USING gin(document);
+CREATE INDEX IF NOT EXISTS idx_ticket_search_documents_internal ON public.ticket_search_documents USING gin(internal_document);
+
+-- Only reached through search_tickets
+ALTER TABLE public.ticket_search_documents ENABLE ROW LEVEL SECURITY;
+
+-- Values of the dynamic form answers as plain text (keys are field ids)
+CREATE OR REPLACE FUNCTION public.ticket_form_data_text(p_data JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(string_agg(value, ' '), '')
+  FROM jsonb_each_text(CASE WHEN jsonb_typeof(p_data) = 'object' THEN p_data ELSE '{}'::jsonb END);
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_ticket_search_document(p_ticket_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket RECORD;
+  v_public_comments TEXT;
+  v_internal_comments TEXT;
+  v_public_chat TEXT;
+  v_internal_chat TEXT;
+BEGIN
+  SELECT id, ticket_number, title, description, dynamic_form_data
+  INTO v_ticket
+  FROM tickets_new
+  WHERE id = p_ticket_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    string_agg(content, ' ') FILTER (WHERE NOT COALESCE(is_internal, false)),
+    string_agg(content, ' ') FILTER (WHERE COALESCE(is_internal, false))
+  INTO v_public_comments, v_internal_comments
+  FROM ticket_comments_new
+  WHERE ticket_id = p_ticket_id;
+
+  SELECT
+    string_agg(m.content, ' ') FILTER (WHERE NOT COALESCE(m.is_internal, false)),
+    string_agg(m.content, ' ') FILTER (WHERE COALESCE(m.is_internal, false))
+  INTO v_public_chat, v_internal_chat
+  FROM chat_messages m
+  JOIN ticket_chats c ON c.id = m.chat_id
+  WHERE c.ticket_id = p_ticket_id
+    AND m.message_type <> 'system';
+
+  INSERT INTO ticket_search_documents (ticket_id, document, internal_document, updated_at)
+  VALUES (
+    p_ticket_id,
+    setweight(to_tsvector('simple', COALESCE(v_ticket.ticket_number, '') || ' ' || COALESCE(v_ticket.title, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(v_ticket.description, '')), 'B') ||
+    setweight(to_tsvector('simple', ticket_form_data_text(v_ticket.dynamic_form_data)), 'C') ||
+    setweight(to_tsvector('simple', COALESCE(v_public_comments, '') || ' ' || COALESCE(v_public_chat, '')), 'D'),
+    setweight(to_tsvector('simple', COALESCE(v_internal_comments, '') || ' ' || COALESCE(v_internal_chat, '')), 'D'),
+    NOW()
+  )
+  ON CONFLICT (ticket_id) DO UPDATE
+  SET document = EXCLUDED.document,
+      internal_document = EXCLUDED.internal_document,
+      updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_ticket_search_document_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'tickets_new' THEN
+    PERFORM refresh_ticket_search_document(NEW.id);
+  ELSIF TG_TABLE_NAME = 'ticket_comments_new' THEN
+    IF TG_OP <> 'INSERT' THEN
+      PERFORM refresh_ticket_search_document(OLD.ticket_id);
+    END IF;
+    -- A merge moves comments to another ticket: both documents change
+    IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND OLD.ticket_id IS DISTINCT FROM NEW.ticket_id) THEN
+      PERFORM refresh_ticket_search_document(NEW.ticket_id);
+    END IF;
+  ELSIF TG_TABLE_NAME = 'chat_messages' THEN
+    IF TG_OP <> 'INSERT' THEN
+      PERFORM refresh_ticket_search_document(tc.ticket_id) FROM ticket_chats tc WHERE tc.id = OLD.chat_id;
+    END IF;
+    IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND OLD.chat_id IS DISTINCT FROM NEW.chat_id) THEN
+      PERFORM refresh_ticket_search_document(tc.ticket_id) FROM ticket_chats tc WHERE tc.id = NEW.chat_id;
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ticket_search_document_ticket ON public.tickets_new;
+CREATE TRIGGER ticket_search_document_ticket
+  AFTER INSERT OR UPDATE OF ticket_number, title, description, dynamic_form_data ON public.tickets_new
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_ticket_search_document_trigger();
+
+DROP TRIGGER IF EXISTS ticket_search_document_comment ON public.ticket_comments_new;
+CREATE TRIGGER ticket_search_document_comment
+  AFTER INSERT OR UPDATE OF content, is_internal, ticket_id OR DELETE ON public.ticket_comments_new
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_ticket_search_document_trigger();
+
+DROP TRIGGER IF EXISTS ticket_search_document_chat ON public.chat_messages;
+CREATE TRIGGER ticket_search_document_chat
+  AFTER INSERT OR UPDATE OF content, is_internal, chat_id OR DELETE ON public.chat_messages
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_ticket_search_document_trigger();
+
+-- Backfill existing tickets
+DO $$
+DECLARE
+  v_ticket_id UUID;
+BEGIN
+  FOR v_ticket_id IN SELECT id FROM public.tickets_new LOOP
+    PERFORM public.refresh_ticket_search_document(v_ticket_id);
+  END LOOP;
+END;
+$$;
+
+-- Ranked search with optional filters. Free words match as prefixes and all
+-- of them must appear; each phrase must appear as written. Requesters only
+-- find their own and followed tickets (closed ones for 7 days, as in the
+-- ticket list) and never match internal notes. Snippets mark matches with
+-- ⟦ and ⟧.
+CREATE OR REPLACE FUNCTION public.search_tickets(
+  p_terms TEXT DEFAULT NULL,
+  p_phrases TEXT[] DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_priorities TEXT[] DEFAULT NULL,
+  p_assignee_ids UUID[] DEFAULT NULL,
+  p_unassigned BOOLEAN DEFAULT FALSE,
+  p_requester_ids UUID[] DEFAULT NULL,
+  p_created_from DATE DEFAULT NULL,
+  p_created_to DATE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (ticket_id UUID, ticket_number TEXT, title TEXT, status TEXT, priority TEXT, rank REAL, snippet TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_staff BOOLEAN;
+  v_prefix TEXT;
+  v_phrase TEXT;
+  v_query TSQUERY;
+  v_headline CONSTANT TEXT := 'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role IN ('agent', 'admin') INTO v_is_staff FROM users WHERE id = auth.uid();
+  v_is_staff := COALESCE(v_is_staff, false);
+
+  SELECT string_agg(quote_literal(word) || ':*', ' & ')
+  INTO v_prefix
+  FROM regexp_split_to_table(lower(COALESCE(p_terms, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  IF v_prefix IS NOT NULL THEN
+    v_query := to_tsquery('simple', v_prefix);
+  END IF;
+
+  FOREACH v_phrase IN ARRAY COALESCE(p_phrases, ARRAY[]::TEXT[]) LOOP
+    IF numnode(phraseto_tsquery('simple', v_phrase)) > 0 THEN
+      v_query := CASE WHEN v_query IS NULL
+        THEN phraseto_tsquery('simple', v_phrase)
+        ELSE v_query && phraseto_tsquery('simple', v_phrase) END;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      t.id,
+      t.ticket_number,
+      t.title,
+      t.status::TEXT AS status,
+      t.priority::TEXT AS priority,
+      t.description,
+      t.dynamic_form_data,
+      t.created_at,
+      CASE WHEN v_query IS NULL THEN 0::REAL
+        ELSE ts_rank_cd(CASE WHEN v_is_staff THEN d.document || d.internal_document ELSE d.document END, v_query)
+      END AS score
+    FROM tickets_new t
+    LEFT JOIN ticket_search_documents d ON d.ticket_id = t.id
+    WHERE (v_query IS NULL OR (CASE WHEN v_is_staff THEN d.document || d.internal_document ELSE d.document END) @@ v_query)
+      AND (p_statuses IS NULL OR t.status::TEXT = ANY (p_statuses))
+      AND (p_priorities IS NULL OR t.priority::TEXT = ANY (p_priorities))
+      AND (p_assignee_ids IS NULL OR t.assigned_to = ANY (p_assignee_ids))
+      AND (NOT p_unassigned OR t.assigned_to IS NULL)
+      AND (p_requester_ids IS NULL OR t.user_id = ANY (p_requester_ids))
+      AND (p_created_from IS NULL OR t.created_at >= p_created_from)
+      AND (p_created_to IS NULL OR t.created_at < p_created_to)
+      AND (
+        v_is_staff
+        OR (
+          (t.user_id = auth.uid() OR EXISTS (SELECT 1 FROM ticket_watchers w WHERE w.ticket_id = t.id AND w.user_id = auth.uid()))
+          AND (t.status::TEXT <> 'closed' OR t.closed_at IS NULL OR t.closed_at > NOW() - INTERVAL '7 days')
+        )
+      )
+    ORDER BY score DESC, t.created_at DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200)
+  )
+  SELECT
+    m.id,
+    m.ticket_number::TEXT,
+    m.title::TEXT,
+    m.status,
+    m.priority,
+    m.score,
+    CASE WHEN v_query IS NULL THEN NULL ELSE COALESCE(
+      CASE WHEN to_tsvector('simple', COALESCE(m.description, '')) @@ v_query
+        THEN ts_headline('simple', m.description, v_query, v_headline) END,
+      (SELECT ts_headline('simple', c.content, v_query, v_headline)
+       FROM ticket_comments_new c
+       WHERE c.ticket_id = m.id
+         AND (v_is_staff OR NOT COALESCE(c.is_internal, false))
+         AND to_tsvector('simple', COALESCE(c.content, '')) @@ v_query
+       ORDER BY c.created_at DESC
+       LIMIT 1),
+      (SELECT ts_headline('simple', cm.content, v_query, v_headline)
+       FROM chat_messages cm
+       JOIN ticket_chats tc ON tc.id = cm.chat_id
+       WHERE tc.ticket_id = m.id
+         AND cm.message_type <> 'system'
+         AND (v_is_staff OR NOT COALESCE(cm.is_internal, false))
+         AND to_tsvector('simple', COALESCE(cm.content, '')) @@ v_query
+       ORDER BY cm.created_at DESC
+       LIMIT 1),
+      CASE WHEN to_tsvector('simple', ticket_form_data_text(m.dynamic_form_data)) @@ v_query
+        THEN ts_headline('simple', ticket_form_data_text(m.dynamic_form_data), v_query, v_headline) END,
+      ts_headline('simple', m.title, v_query, v_headline)
+    ) END
+  FROM matches m
+  ORDER BY m.score DESC, m.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_tickets(TEXT, TEXT[], TEXT[], TEXT[], UUID[], BOOLEAN, UUID[], DATE, DATE, INTEGER) TO authenticated;
+
+COMMENT ON TABLE public.ticket_search_documents IS 'Full-text search documents of tickets, maintained by triggers';
+COMMENT ON FUNCTION public.search_tickets IS 'Ranked full-text ticket search with status, priority, assignee, requester and creation date filters';
@@ -0,0 +1,97 @@
+-- Saving an escalation policy used to delete its steps and insert them again,
+-- which gave every step a new id. Executed steps are recorded per ticket under
+-- the step id, so any edit (even a rename) made open tickets run the whole
+-- chain again; a failed insert also left the policy without steps.
+-- save_escalation_policy saves the policy and its steps in one transaction and
+-- updates existing steps in place, so they keep their ids.
+
+CREATE OR REPLACE FUNCTION public.save_escalation_policy(
+  p_policy JSONB, -- id (absent for a new policy), name, description, priorities, category_ids, sort_order, is_active
+  p_steps JSONB   -- [{id?, after_minutes, action, config}], in chain order
+)
+RETURNS UUID AS $$
+DECLARE
+  v_policy_id UUID := NULLIF(p_policy->>'id', '')::UUID;
+  v_step JSONB;
+  v_step_id UUID;
+  v_order INTEGER := 0;
+  v_kept UUID[] := '{}';
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage escalation policies';
+  END IF;
+
+  IF COALESCE(TRIM(p_policy->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Policy name is required';
+  END IF;
+
+  IF v_policy_id IS NULL THEN
+    INSERT INTO public.escalation_policies (name, description, priorities, category_ids, sort_order, is_active, created_by)
+    VALUES (
+      TRIM(p_policy->>'name'),
+      NULLIF(p_policy->>'description', ''),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_policy->'priorities')), '{}'),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_policy->'category_ids'))::UUID[], '{}'),
+      COALESCE((p_policy->>'sort_order')::INTEGER, 0),
+      COALESCE((p_policy->>'is_active')::BOOLEAN, TRUE),
+      auth.uid()
+    )
+    RETURNING id INTO v_policy_id;
+  ELSE
+    UPDATE public.escalation_policies
+    SET name = TRIM(p_policy->>'name'),
+        description = NULLIF(p_policy->>'description', ''),
+        priorities = COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_policy->'priorities')), '{}'),
+        category_ids = COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_policy->'category_ids'))::UUID[], '{}'),
+        sort_order = COALESCE((p_policy->>'sort_order')::INTEGER, 0),
+        is_active = COALESCE((p_policy->>'is_active')::BOOLEAN, TRUE),
+        updated_at = NOW()
+    WHERE id = v_policy_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown escalation policy %', v_policy_id;
+    END IF;
+  END IF;
+
+  FOR v_step IN SELECT * FROM jsonb_array_elements(COALESCE(p_steps, '[]'::JSONB))
+  LOOP
+    v_step_id := NULL;
+
+    -- Only a step of this policy is updated; an id from elsewhere becomes a new step
+    IF NULLIF(v_step->>'id', '') IS NOT NULL THEN
+      UPDATE public.escalation_steps
+      SET step_order = v_order,
+          after_minutes = (v_step->>'after_minutes')::INTEGER,
+          action = v_step->>'action',
+          config = COALESCE(v_step->'config', '{}'::JSONB)
+      WHERE id = (v_step->>'id')::UUID AND policy_id = v_policy_id
+      RETURNING id INTO v_step_id;
+    END IF;
+
+    IF v_step_id IS NULL THEN
+      INSERT INTO public.escalation_steps (policy_id, step_order, after_minutes, action, config)
+      VALUES (
+        v_policy_id,
+        v_order,
+        (v_step->>'after_minutes')::INTEGER,
+        v_step->>'action',
+        COALESCE(v_step->'config', '{}'::JSONB)
+      )
+      RETURNING id INTO v_step_id;
+    END IF;
+
+    v_kept := v_kept || v_step_id;
+    v_order := v_order + 1;
+  END LOOP;
+
+  DELETE FROM public.escalation_steps
+  WHERE policy_id = v_policy_id AND NOT (id = ANY(v_kept));
+
+  RETURN v_policy_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_escalation_policy(JSONB, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.save_escalation_policy(JSONB, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.save_escalation_policy(JSONB, JSONB) IS 'Saves an escalation policy and its steps atomically, keeping the ids of existing steps';
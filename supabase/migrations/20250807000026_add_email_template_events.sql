@@ -0,0 +1,14 @@
+-- The notification digest, scheduled report and satisfaction survey emails
+-- now come from email templates too, so admins can override them per locale.
+
+ALTER TABLE public.email_templates DROP CONSTRAINT IF EXISTS email_templates_event_check;
+
+ALTER TABLE public.email_templates
+  ADD CONSTRAINT email_templates_event_check CHECK (event IN (
+    'ticket_created',
+    'ticket_updated',
+    'user_invitation',
+    'notification_digest',
+    'scheduled_report',
+    'csat_survey'
+  ));
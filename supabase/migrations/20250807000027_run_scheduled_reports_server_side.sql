@@ -0,0 +1,11 @@
+-- Scheduled reports used to be claimed and built in whichever agent's browser
+-- was open, with that agent's row access, and claiming moved the definition to
+-- its next slot before the report existed, so closing the tab lost the run.
+-- The scheduled_reports job now builds and mails them with the service role
+-- and moves a definition on only once its run has finished.
+
+DROP FUNCTION IF EXISTS public.claim_due_report_definitions(INTEGER);
+
+INSERT INTO public.scheduled_jobs (key, name, description, interval_minutes)
+VALUES ('scheduled_reports', 'Scheduled reports', 'Generates the due report definitions and emails them to their recipients', 15)
+ON CONFLICT (key) DO NOTHING;
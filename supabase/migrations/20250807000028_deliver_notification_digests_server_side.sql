@@ -0,0 +1,65 @@
+-- Held notifications were released, and digest emails sent, only while an
+-- agent or admin had the app open. The notification_digests job now does both
+-- with the service role, so release_due_notifications is for the service role
+-- only.
+
+CREATE OR REPLACE FUNCTION release_due_notifications(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (
+  held_id UUID,
+  user_id UUID,
+  delivery VARCHAR(10),
+  notification JSONB,
+  user_email TEXT,
+  user_name TEXT,
+  email_notifications BOOLEAN,
+  timezone VARCHAR(50),
+  language VARCHAR(5),
+  digest_frequency VARCHAR(10)
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT h.id
+    FROM held_notifications h
+    WHERE h.released_at IS NULL AND h.deliver_after <= NOW()
+    ORDER BY h.deliver_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  released AS (
+    UPDATE held_notifications h
+    SET released_at = NOW()
+    FROM due
+    WHERE h.id = due.id
+    RETURNING h.*
+  ),
+  -- Data-modifying CTEs always run to completion, even though nothing reads this one
+  inserted AS (
+    INSERT INTO notifications
+    SELECT (jsonb_populate_record(NULL::notifications, r.notification || jsonb_build_object('scheduled_for', r.deliver_after))).*
+    FROM released r
+  )
+  SELECT
+    r.id,
+    r.user_id,
+    r.delivery,
+    r.notification,
+    u.email::TEXT,
+    u.full_name::TEXT,
+    COALESCE(np.email_notifications, true),
+    COALESCE(np.timezone, 'UTC')::VARCHAR(50),
+    COALESCE(np.language, 'en')::VARCHAR(5),
+    COALESCE(np.digest_frequency, 'daily')::VARCHAR(10)
+  FROM released r
+  JOIN users u ON u.id = r.user_id
+  LEFT JOIN notification_preferences np ON np.user_id = r.user_id
+  ORDER BY r.user_id, r.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION release_due_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_due_notifications(INTEGER) TO service_role;
+
+INSERT INTO public.scheduled_jobs (key, name, description, interval_minutes)
+VALUES ('notification_digests', 'Notification digests', 'Releases held notifications and emails each user their digest', 5)
+ON CONFLICT (key) DO NOTHING;
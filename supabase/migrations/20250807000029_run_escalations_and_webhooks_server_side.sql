@@ -0,0 +1,9 @@
+-- Escalation steps and queued webhook deliveries only went out while an agent
+-- or admin had the app open. The escalations and webhook_dispatch jobs now run
+-- them with the service role.
+
+INSERT INTO public.scheduled_jobs (key, name, description, interval_minutes)
+VALUES
+  ('escalations', 'Escalations', 'Runs the escalation policy and assignment rule steps that have come due on open tickets', 5),
+  ('webhook_dispatch', 'Webhook delivery', 'Sends queued webhook deliveries and retries failed ones', 1)
+ON CONFLICT (key) DO NOTHING;
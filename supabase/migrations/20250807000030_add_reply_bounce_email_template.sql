@@ -0,0 +1,16 @@
+-- The email that tells a sender why their reply was not added as a comment
+-- now comes from an email template too, so it goes out in their language and
+-- admins can override it.
+
+ALTER TABLE public.email_templates DROP CONSTRAINT IF EXISTS email_templates_event_check;
+
+ALTER TABLE public.email_templates
+  ADD CONSTRAINT email_templates_event_check CHECK (event IN (
+    'ticket_created',
+    'ticket_updated',
+    'user_invitation',
+    'notification_digest',
+    'scheduled_report',
+    'csat_survey',
+    'reply_bounce'
+  ));
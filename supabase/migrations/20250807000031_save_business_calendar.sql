@@ -0,0 +1,90 @@
+-- Saving a business calendar used to upsert the calendar, then delete and
+-- insert its hours and holidays in separate requests. A failure part way
+-- through (a rejected insert, a dropped connection) left the calendar without
+-- working hours, so its SLA clocks stopped counting; failed deletes went
+-- unnoticed and the insert then hit the unique constraints.
+-- save_business_calendar saves the calendar, its hours and its holidays in one
+-- transaction, so a save either applies completely or not at all.
+
+CREATE OR REPLACE FUNCTION public.save_business_calendar(
+  p_calendar JSONB, -- id (absent for a new calendar), name, description, timezone, region, team_id, is_default, is_active
+  p_hours JSONB,    -- [{day_of_week, start_time, end_time, is_working_day}]
+  p_holidays JSONB  -- [{holiday_date, name}]
+)
+RETURNS UUID AS $$
+DECLARE
+  v_calendar_id UUID := NULLIF(p_calendar->>'id', '')::UUID;
+  v_is_default BOOLEAN := COALESCE((p_calendar->>'is_default')::BOOLEAN, FALSE);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage business calendars';
+  END IF;
+
+  IF COALESCE(TRIM(p_calendar->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Calendar name is required';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_calendar->>'timezone') THEN
+    RAISE EXCEPTION 'Invalid timezone: %', p_calendar->>'timezone';
+  END IF;
+
+  -- Only one calendar can be the fallback for tickets without a matching region/team
+  IF v_is_default THEN
+    UPDATE public.business_calendars
+    SET is_default = FALSE, updated_at = NOW()
+    WHERE is_default AND id IS DISTINCT FROM v_calendar_id;
+  END IF;
+
+  IF v_calendar_id IS NULL THEN
+    INSERT INTO public.business_calendars (name, description, timezone, region, team_id, is_default, is_active)
+    VALUES (
+      TRIM(p_calendar->>'name'),
+      NULLIF(p_calendar->>'description', ''),
+      p_calendar->>'timezone',
+      NULLIF(p_calendar->>'region', ''),
+      NULLIF(p_calendar->>'team_id', '')::UUID,
+      v_is_default,
+      COALESCE((p_calendar->>'is_active')::BOOLEAN, TRUE)
+    )
+    RETURNING id INTO v_calendar_id;
+  ELSE
+    UPDATE public.business_calendars
+    SET name = TRIM(p_calendar->>'name'),
+        description = NULLIF(p_calendar->>'description', ''),
+        timezone = p_calendar->>'timezone',
+        region = NULLIF(p_calendar->>'region', ''),
+        team_id = NULLIF(p_calendar->>'team_id', '')::UUID,
+        is_default = v_is_default,
+        is_active = COALESCE((p_calendar->>'is_active')::BOOLEAN, TRUE),
+        updated_at = NOW()
+    WHERE id = v_calendar_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown business calendar %', v_calendar_id;
+    END IF;
+  END IF;
+
+  -- Replace hours and holidays wholesale; calendars are small
+  DELETE FROM public.business_calendar_hours WHERE calendar_id = v_calendar_id;
+  INSERT INTO public.business_calendar_hours (calendar_id, day_of_week, start_time, end_time, is_working_day)
+  SELECT
+    v_calendar_id,
+    (h->>'day_of_week')::INTEGER,
+    (h->>'start_time')::TIME,
+    (h->>'end_time')::TIME,
+    COALESCE((h->>'is_working_day')::BOOLEAN, TRUE)
+  FROM jsonb_array_elements(COALESCE(p_hours, '[]'::JSONB)) AS h;
+
+  DELETE FROM public.business_calendar_holidays WHERE calendar_id = v_calendar_id;
+  INSERT INTO public.business_calendar_holidays (calendar_id, holiday_date, name)
+  SELECT v_calendar_id, (d->>'holiday_date')::DATE, d->>'name'
+  FROM jsonb_array_elements(COALESCE(p_holidays, '[]'::JSONB)) AS d;
+
+  RETURN v_calendar_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_business_calendar(JSONB, JSONB, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.save_business_calendar(JSONB, JSONB, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.save_business_calendar(JSONB, JSONB, JSONB) IS 'Saves a business calendar with its working hours and holidays atomically';